@@ -0,0 +1,223 @@
+/**
+ * Push transports against a local mock push server.
+ *
+ * Starts an h2c server standing in for APNs and an HTTP server standing in for
+ * FCM (OAuth token endpoint + messages:send), points both transports at them
+ * through APNS_HOST / FCM_API_URL / FCM_TOKEN_URL, and checks what each one
+ * sends and how it classifies every rejection. Classification is the part
+ * that matters: a "dead" result deletes the device_tokens row, so a server
+ * fault read as a dead token wipes real registrations.
+ *
+ * No DB, no network beyond 127.0.0.1.
+ *
+ * Usage: node scripts/push-transport-check.mjs
+ */
+import assert from "node:assert/strict";
+import http from "node:http";
+import http2 from "node:http2";
+import { generateKeyPairSync } from "node:crypto";
+import jwt from "jsonwebtoken";
+
+const listen = (server) =>
+  new Promise((resolve) =>
+    server.listen(0, "127.0.0.1", () => resolve(server.address().port)),
+  );
+
+/* ── Mock APNs (HTTP/2 cleartext) ──────────────────────────────────── */
+const apnsRequests = [];
+const apns = http2.createServer();
+apns.on("stream", (stream, headers) => {
+  let body = "";
+  stream.on("data", (chunk) => (body += chunk));
+  stream.on("end", () => {
+    const token = headers[":path"].split("/").pop();
+    apnsRequests.push({ headers, token, body: JSON.parse(body) });
+    const [status, reason] =
+      token === "apns-dead"
+        ? [410, "Unregistered"]
+        : token === "apns-wrong-topic"
+          ? [400, "DeviceTokenNotForTopic"]
+          : [200, null];
+    stream.respond({ ":status": status });
+    stream.end(reason ? JSON.stringify({ reason }) : "");
+  });
+});
+const apnsPort = await listen(apns);
+
+/* ── Mock FCM (HTTP/1.1) ───────────────────────────────────────────── */
+const fcmRequests = [];
+let tokenExchanges = 0;
+const fcmError = (code, status, errorCode) =>
+  JSON.stringify({
+    error: {
+      code,
+      status,
+      details: [
+        {
+          "@type": "type.googleapis.com/google.firebase.fcm.v1.FcmError",
+          errorCode,
+        },
+      ],
+    },
+  });
+const fcm = http.createServer((req, res) => {
+  let body = "";
+  req.on("data", (chunk) => (body += chunk));
+  req.on("end", () => {
+    if (req.url === "/token") {
+      tokenExchanges++;
+      const assertion = new URLSearchParams(body).get("assertion");
+      const claims = jwt.decode(assertion);
+      assert.equal(claims.iss, "push@mock-project.iam.gserviceaccount.com");
+      assert.equal(claims.aud, "https://oauth2.googleapis.com/token");
+      res.writeHead(200, { "content-type": "application/json" });
+      return res.end(
+        JSON.stringify({ access_token: "mock-access", expires_in: 3600 }),
+      );
+    }
+    assert.equal(req.url, "/v1/projects/mock-project/messages:send");
+    assert.equal(req.headers.authorization, "Bearer mock-access");
+    const { message } = JSON.parse(body);
+    fcmRequests.push(message);
+    const responses = {
+      "fcm-dead": [404, fcmError(404, "NOT_FOUND", "UNREGISTERED")],
+      "fcm-bad-payload": [400, fcmError(400, "INVALID_ARGUMENT", "INVALID_ARGUMENT")],
+      "fcm-wrong-sender": [403, fcmError(403, "PERMISSION_DENIED", "SENDER_ID_MISMATCH")],
+      "fcm-unavailable": [503, fcmError(503, "UNAVAILABLE", "UNAVAILABLE")],
+    };
+    const [status, responseBody] = responses[message.token] ?? [
+      200,
+      JSON.stringify({ name: "projects/mock-project/messages/1" }),
+    ];
+    res.writeHead(status, { "content-type": "application/json" });
+    res.end(responseBody);
+  });
+});
+const fcmPort = await listen(fcm);
+
+/* ── Configure and load the transports ─────────────────────────────── */
+const { privateKey: apnsKey } = generateKeyPairSync("ec", {
+  namedCurve: "prime256v1",
+  privateKeyEncoding: { type: "pkcs8", format: "pem" },
+});
+const { privateKey: fcmKey } = generateKeyPairSync("rsa", {
+  modulusLength: 2048,
+  privateKeyEncoding: { type: "pkcs8", format: "pem" },
+});
+Object.assign(process.env, {
+  APNS_KEY: apnsKey,
+  APNS_KEY_ID: "ABC1234567",
+  APNS_TEAM_ID: "TEAM123456",
+  APNS_BUNDLE_ID: "org.example.mileaday",
+  APNS_HOST: `http://127.0.0.1:${apnsPort}`,
+  FCM_SERVICE_ACCOUNT: JSON.stringify({
+    project_id: "mock-project",
+    client_email: "push@mock-project.iam.gserviceaccount.com",
+    private_key: fcmKey,
+    token_uri: "https://oauth2.googleapis.com/token",
+  }),
+  FCM_API_URL: `http://127.0.0.1:${fcmPort}`,
+  FCM_TOKEN_URL: `http://127.0.0.1:${fcmPort}/token`,
+});
+
+const { apnsTransport, normalizePlatform } = await import(
+  "../dist/services/pushNotificationService.js"
+);
+const { fcmTransport, isDeadFcmToken, androidChannelFor } = await import(
+  "../dist/services/fcmTransport.js"
+);
+
+const payload = {
+  title: "Lead change",
+  body: "You took the lead!",
+  type: "lead_change",
+  data: { competition_id: "c1" },
+  badge: 3,
+};
+const target = (token) => ({ token, environment: "production" });
+
+/* ── Part 1: APNs ──────────────────────────────────────────────────── */
+assert.equal(await apnsTransport.send(target("apns-ok"), payload), "sent");
+const apnsSent = apnsRequests.at(-1);
+assert.equal(apnsSent.headers["apns-topic"], "org.example.mileaday");
+assert.equal(apnsSent.headers["apns-push-type"], "alert");
+assert.deepEqual(apnsSent.body.aps.alert, {
+  title: "Lead change",
+  body: "You took the lead!",
+});
+assert.equal(apnsSent.body.aps.badge, 3);
+assert.equal(apnsSent.body.type, "lead_change");
+assert.deepEqual(apnsSent.body.data, { competition_id: "c1" });
+
+assert.equal(
+  await apnsTransport.send(target("apns-dead"), payload),
+  "dead",
+  "410 Unregistered: uninstalled, prune",
+);
+assert.equal(
+  await apnsTransport.send(target("apns-wrong-topic"), payload),
+  "failed",
+  "DeviceTokenNotForTopic is a bundle-id misconfig — must NOT prune",
+);
+
+assert.equal(
+  await apnsTransport.sendSilent(target("apns-ok"), "background_sync", {}),
+  "sent",
+);
+assert.equal(apnsRequests.at(-1).headers["apns-push-type"], "background");
+assert.deepEqual(apnsRequests.at(-1).body.aps, { "content-available": 1 });
+
+/* ── Part 2: FCM ───────────────────────────────────────────────────── */
+assert.equal(await fcmTransport.send(target("fcm-ok"), payload), "sent");
+const fcmSent = fcmRequests.at(-1);
+assert.deepEqual(fcmSent.notification, {
+  title: "Lead change",
+  body: "You took the lead!",
+});
+assert.equal(fcmSent.android.priority, "high");
+assert.equal(fcmSent.android.notification.channel_id, "competitions");
+assert.equal(fcmSent.android.notification.tag, "lead_change:c1");
+assert.equal(fcmSent.android.notification.notification_count, 3);
+assert.equal(fcmSent.data.type, "lead_change");
+assert.equal(fcmSent.data.data, JSON.stringify({ competition_id: "c1" }));
+for (const value of Object.values(fcmSent.data)) {
+  assert.equal(typeof value, "string", "FCM data values must be strings");
+}
+
+assert.equal(await fcmTransport.sendSilent(target("fcm-ok"), "background_sync", {}), "sent");
+assert.equal(fcmRequests.at(-1).notification, undefined, "silent push shows nothing");
+assert.equal(fcmRequests.at(-1).data.silent, "1");
+
+assert.equal(
+  await fcmTransport.send(target("fcm-dead"), payload),
+  "dead",
+  "404 UNREGISTERED: uninstalled, prune",
+);
+for (const token of ["fcm-bad-payload", "fcm-wrong-sender", "fcm-unavailable"]) {
+  assert.equal(
+    await fcmTransport.send(target(token), payload),
+    "failed",
+    `${token} is not about the token — must NOT prune`,
+  );
+}
+assert.equal(tokenExchanges, 1, "the OAuth access token is cached across sends");
+
+/* ── Part 3: pure rules ────────────────────────────────────────────── */
+assert.equal(isDeadFcmToken(404, "not json"), false, "unparseable: keep");
+assert.equal(isDeadFcmToken(404, "null"), false, "null body: keep");
+assert.equal(
+  isDeadFcmToken(500, fcmError(500, "INTERNAL", "UNREGISTERED")),
+  false,
+  "5xx never prunes",
+);
+assert.equal(normalizePlatform(null), "ios", "pre-Android rows are APNs tokens");
+assert.equal(normalizePlatform("android"), "android");
+assert.equal(normalizePlatform("windows"), "ios");
+assert.equal(androidChannelFor("new_sign_in"), "account");
+assert.equal(androidChannelFor("goal_reached"), "streaks");
+assert.equal(androidChannelFor("hype_received"), "social");
+
+apns.close();
+fcm.closeAllConnections();
+fcm.close();
+console.log("push-transport-check: OK");
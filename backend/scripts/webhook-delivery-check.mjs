@@ -0,0 +1,225 @@
+/**
+ * Outbound webhook delivery against a local receiver.
+ *
+ * Registers hooks pointing at an HTTP server on 127.0.0.1 and drives the real
+ * queue: what a receiver gets, what happens when it fails, and when we stop.
+ * Every part of it fails quietly in production — a signature receivers can't
+ * reproduce looks like an attack to them, a retry that never comes due drops
+ * the event, and a dead letter that keeps retrying hammers someone's server
+ * forever. None of those throw on our side.
+ *
+ * Covers, against a real migrated database:
+ *   1. the signature: v1 = HMAC-SHA256(secret, "<t>.<raw body>"), recomputed
+ *      here over the exact bytes received, plus the event/delivery headers
+ *   2. retry: a 5xx leaves the row pending with backoff, and the retry reuses
+ *      the same delivery id (receivers dedupe on it)
+ *   3. dead letter: the MAX_ATTEMPTS-th failure settles the row as 'failed'
+ *      and no later drain picks it up again
+ *
+ * NODE_ENV=development is what lets a hook target plain http on loopback.
+ *
+ * Usage (same env as ci-smoke):
+ *   DATABASE_URL=... node scripts/webhook-delivery-check.mjs
+ */
+import { createHmac } from "node:crypto";
+import http from "node:http";
+
+process.env.NODE_ENV = "development";
+
+const { PostgresService } = await import("../dist/services/DbService.js");
+const {
+  createWebhook,
+  drainWebhookDeliveries,
+  emitWebhookEvent,
+  getDeliveries,
+  sendTestDelivery,
+} = await import("../dist/services/webhookService.js");
+
+const db = PostgresService.getInstance();
+
+const ME = "webhook-check-me";
+const MAX_ATTEMPTS = 10; // webhookService's MAX_ATTEMPTS
+
+let failures = 0;
+function check(label, actual, expected) {
+  const ok = actual === expected;
+  if (!ok) failures++;
+  console.log(
+    `${ok ? "ok  " : "FAIL"}  ${label} → ${actual} (expected ${expected})`,
+  );
+}
+
+/* ── Local receiver ────────────────────────────────────────────────── */
+// /ok answers 204, /flaky 500 on its first hit and 204 after, /down always 503.
+const received = [];
+const hits = {};
+const receiver = http.createServer((req, res) => {
+  let raw = "";
+  req.setEncoding("utf8");
+  req.on("data", (chunk) => (raw += chunk));
+  req.on("end", () => {
+    received.push({ path: req.url, headers: req.headers, raw });
+    hits[req.url] = (hits[req.url] ?? 0) + 1;
+    const status =
+      req.url === "/down"
+        ? 503
+        : req.url === "/flaky" && hits[req.url] === 1
+          ? 500
+          : 204;
+    res.writeHead(status);
+    res.end(status === 204 ? undefined : "receiver unavailable");
+  });
+});
+const port = await new Promise((resolve) =>
+  receiver.listen(0, "127.0.0.1", () => resolve(receiver.address().port)),
+);
+
+/* ── Helpers ───────────────────────────────────────────────────────── */
+async function seed() {
+  await db.query(
+    `INSERT INTO users (user_id, apple_sub, email, username, first_name, last_name)
+     VALUES ($1, $2, $3, $4, 'Hook', 'Check')
+     ON CONFLICT (user_id) DO NOTHING`,
+    [ME, `sub-${ME}`, `${ME}@example.com`, ME],
+  );
+}
+
+// Deleting the user takes their hooks and, with them, the delivery log.
+async function cleanup() {
+  await db.query(`DELETE FROM users WHERE user_id = $1`, [ME]);
+}
+
+const hook = (path) =>
+  createWebhook(ME, {
+    url: `http://127.0.0.1:${port}${path}`,
+    events: ["workout.uploaded"],
+  });
+
+// Enqueueing kicks a drain in the background; wait for the row to move rather
+// than racing it, then drain once more ourselves in case the kick lost.
+async function settle(webhookId, deliveryId, attempts) {
+  for (let i = 0; i < 50; i++) {
+    await drainWebhookDeliveries();
+    const row = (await getDeliveries(ME, webhookId, 50)).find(
+      (d) => d.delivery_id === deliveryId,
+    );
+    if (row && row.attempts >= attempts) return row;
+    await new Promise((resolve) => setTimeout(resolve, 100));
+  }
+  throw new Error(`delivery ${deliveryId} never reached attempt ${attempts}`);
+}
+
+// Skip the backoff: the retry schedule itself is asserted before this.
+const dueNow = (deliveryId) =>
+  db.query(
+    `UPDATE webhook_deliveries SET next_attempt_at = NOW() WHERE delivery_id = $1`,
+    [deliveryId],
+  );
+
+async function main() {
+  await cleanup();
+  await seed();
+
+  // ── 1. Signature and headers ─────────────────────────────────────────
+  const ok = await hook("/ok");
+  await emitWebhookEvent(ME, "workout.uploaded", "w1", { miles: 1.2 });
+  const [queued] = await getDeliveries(ME, ok.webhook_id, 1);
+  const delivered = await settle(ok.webhook_id, queued.delivery_id, 1);
+  check("a 2xx settles the row as delivered", delivered.status, "delivered");
+  check("...recording the receiver's status", delivered.response_status, 204);
+
+  const sent = received.find((r) => r.path === "/ok");
+  const match = /^t=(\d+),v1=([0-9a-f]{64})$/.exec(
+    sent.headers["x-mileaday-signature"] ?? "",
+  );
+  check("signature header is t=<unix>,v1=<hex>", match !== null, true);
+  const expected = createHmac("sha256", ok.secret)
+    .update(`${match?.[1]}.${sent.raw}`)
+    .digest("hex");
+  check("v1 is the HMAC of \"<t>.<raw body>\"", match?.[2], expected);
+  check(
+    "timestamp is current",
+    Math.abs(Date.now() / 1000 - Number(match?.[1])) < 60,
+    true,
+  );
+  const body = JSON.parse(sent.raw);
+  check("body carries the delivery id", body.id, queued.delivery_id);
+  check(
+    "...and so does the header",
+    sent.headers["x-mileaday-delivery"],
+    queued.delivery_id,
+  );
+  check("event header", sent.headers["x-mileaday-event"], "workout.uploaded");
+  check("payload rides under data", body.data?.miles, 1.2);
+  await emitWebhookEvent(ME, "workout.uploaded", "w1", { miles: 1.2 });
+  check(
+    "re-emitting the same event key queues nothing",
+    (await getDeliveries(ME, ok.webhook_id, 50)).length,
+    1,
+  );
+
+  // ── 2. Retry ─────────────────────────────────────────────────────────
+  const flaky = await hook("/flaky");
+  const ping = await sendTestDelivery(ME, flaky.webhook_id);
+  const first = await settle(flaky.webhook_id, ping.delivery_id, 1);
+  check("a 5xx leaves the row pending", first.status, "pending");
+  check("...recording the 500", first.response_status, 500);
+  check(
+    "...with the receiver's body in last_error",
+    first.last_error,
+    "HTTP 500: receiver unavailable",
+  );
+  const backoff =
+    (Date.parse(first.next_attempt_at) - Date.parse(first.last_attempt_at)) /
+    1000;
+  check("first retry is 30s out", backoff, 30);
+
+  await dueNow(ping.delivery_id);
+  const second = await settle(flaky.webhook_id, ping.delivery_id, 2);
+  check("the retry delivers", second.status, "delivered");
+  check("...on attempt 2", second.attempts, 2);
+  const flakyIds = received
+    .filter((r) => r.path === "/flaky")
+    .map((r) => r.headers["x-mileaday-delivery"]);
+  check(
+    "both attempts carry the same delivery id",
+    flakyIds.length === 2 && flakyIds[0] === flakyIds[1],
+    true,
+  );
+
+  // ── 3. Dead letter ───────────────────────────────────────────────────
+  const down = await hook("/down");
+  const doomed = await sendTestDelivery(ME, down.webhook_id);
+  await settle(down.webhook_id, doomed.delivery_id, 1);
+  // Fast-forward to the last attempt rather than sit through eleven hours.
+  await db.query(
+    `UPDATE webhook_deliveries SET attempts = $2, next_attempt_at = NOW()
+      WHERE delivery_id = $1`,
+    [doomed.delivery_id, MAX_ATTEMPTS - 1],
+  );
+  const dead = await settle(down.webhook_id, doomed.delivery_id, MAX_ATTEMPTS);
+  check("the last failure settles as failed", dead.status, "failed");
+  check("...after MAX_ATTEMPTS", dead.attempts, MAX_ATTEMPTS);
+  check("...with no retry scheduled", dead.next_attempt_at, null);
+
+  const hitsBefore = hits["/down"];
+  await dueNow(doomed.delivery_id);
+  await drainWebhookDeliveries();
+  check("a failed row is never drained again", hits["/down"], hitsBefore);
+
+  await cleanup();
+  receiver.close();
+
+  console.log(
+    failures === 0
+      ? "webhook-delivery-check: all assertions passed"
+      : `webhook-delivery-check: ${failures} FAILED`,
+  );
+  process.exit(failures === 0 ? 0 : 1);
+}
+
+main().catch(async (err) => {
+  console.error(err);
+  await cleanup().catch(() => {});
+  process.exit(1);
+});
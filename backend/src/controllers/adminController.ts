@@ -26,6 +26,26 @@ import {
   type PostFilter,
 } from "../services/adminService.js";
 import { signMediaUrlsDeep } from "../services/mediaSigningService.js";
+import { BadRequestError } from "../errors/Errors.js";
+import {
+  actOnReport,
+  getReportTarget,
+  listModerationLog,
+  listReportQueue,
+} from "../services/moderationQueueService.js";
+import {
+  imposeRestriction,
+  liftRestriction,
+  listActiveRestrictions,
+  listRestrictions,
+} from "../services/accountRestrictionService.js";
+import {
+  createScreeningRule,
+  deleteScreeningRule,
+  listScreeningRules,
+} from "../services/contentScreeningService.js";
+import type { ReportStatus, ReportTargetType } from "../types/moderation.js";
+import type { RestrictionKind } from "../types/restrictions.js";
 
 const APPLE_ISS = "https://appleid.apple.com";
 const appleJwks = createRemoteJWKSet(
@@ -281,3 +301,201 @@ export async function restorePost(req: Request, res: Response) {
     res.status(500).json({ error: "Error restoring post" });
   }
 }
+
+function queryString(value: unknown): string | null {
+  return typeof value === "string" && value ? value : null;
+}
+
+function moderationError(res: Response, error: any, logLabel: string) {
+  if (error instanceof BadRequestError) {
+    return res.status(400).json({ error: error.message });
+  }
+  console.error(`Error ${logLabel}:`, error.message);
+  res.status(500).json({ error: `Error ${logLabel}` });
+}
+
+/**
+ * GET /admin/reports?status=open&type=post — reported posts and comments, one
+ * row per target with its reports rolled up into reason counts.
+ */
+export async function reportQueue(req: Request, res: Response) {
+  const limit = Math.min(
+    Math.max(parseInt(String(req.query.limit ?? "25"), 10) || 25, 1),
+    100,
+  );
+  const offset = Math.max(
+    parseInt(String(req.query.offset ?? "0"), 10) || 0,
+    0,
+  );
+  try {
+    const page = await listReportQueue({
+      status: (queryString(req.query.status) ?? "open") as ReportStatus,
+      targetType: queryString(req.query.type) as ReportTargetType | null,
+      limit,
+      offset,
+    });
+    res.json(signMediaUrlsDeep(page));
+  } catch (error: any) {
+    moderationError(res, error, "loading report queue");
+  }
+}
+
+/** GET /admin/reports/:targetType/:targetId — every report, action and the author's record. */
+export async function reportTarget(req: Request, res: Response) {
+  try {
+    const detail = await getReportTarget(
+      req.params.targetType as ReportTargetType,
+      req.params.targetId,
+    );
+    res.json(signMediaUrlsDeep(detail));
+  } catch (error: any) {
+    moderationError(res, error, "loading report");
+  }
+}
+
+/**
+ * POST /admin/reports/:targetType/:targetId/actions — body
+ * `{ action, note?, suspend_days? }`. The acting admin is recorded on the
+ * audit row and on every report the action closes.
+ */
+export async function reportAction(req: Request, res: Response) {
+  try {
+    const result = await actOnReport(
+      (req as any).userId as string,
+      req.params.targetType as ReportTargetType,
+      req.params.targetId,
+      req.body ?? {},
+    );
+    res.json(signMediaUrlsDeep(result));
+  } catch (error: any) {
+    moderationError(res, error, "applying moderation action");
+  }
+}
+
+/** GET /admin/moderation-log?moderator=&user= — the audit trail, newest first. */
+export async function moderationLog(req: Request, res: Response) {
+  const limit = Math.min(
+    Math.max(parseInt(String(req.query.limit ?? "50"), 10) || 50, 1),
+    200,
+  );
+  const offset = Math.max(
+    parseInt(String(req.query.offset ?? "0"), 10) || 0,
+    0,
+  );
+  try {
+    res.json(
+      signMediaUrlsDeep(
+        await listModerationLog({
+          moderatorId: queryString(req.query.moderator),
+          subjectUserId: queryString(req.query.user),
+          limit,
+          offset,
+        }),
+      ),
+    );
+  } catch (error: any) {
+    moderationError(res, error, "loading moderation log");
+  }
+}
+
+/** GET /admin/restrictions?kind= — suspensions and shadow bans in force now. */
+export async function activeRestrictions(req: Request, res: Response) {
+  const limit = Math.min(
+    Math.max(parseInt(String(req.query.limit ?? "50"), 10) || 50, 1),
+    200,
+  );
+  const offset = Math.max(
+    parseInt(String(req.query.offset ?? "0"), 10) || 0,
+    0,
+  );
+  try {
+    res.json(
+      await listActiveRestrictions({
+        kind: queryString(req.query.kind) as RestrictionKind | null,
+        limit,
+        offset,
+      }),
+    );
+  } catch (error: any) {
+    moderationError(res, error, "loading restrictions");
+  }
+}
+
+/** GET /admin/users/:userId/restrictions — the user's full restriction history. */
+export async function userRestrictions(req: Request, res: Response) {
+  try {
+    res.json({ restrictions: await listRestrictions(req.params.userId) });
+  } catch (error: any) {
+    moderationError(res, error, "loading user restrictions");
+  }
+}
+
+/**
+ * POST /admin/users/:userId/restrictions — body
+ * `{ kind: 'suspension' | 'shadow_ban', reason, duration_days? | expires_at? }`.
+ * No expiry is permanent; an existing restriction of the same kind is replaced.
+ */
+export async function imposeUserRestriction(req: Request, res: Response) {
+  try {
+    const restriction = await imposeRestriction(
+      (req as any).userId as string,
+      req.params.userId,
+      req.body ?? {},
+    );
+    res.status(201).json(restriction);
+  } catch (error: any) {
+    moderationError(res, error, "imposing restriction");
+  }
+}
+
+/** POST /admin/users/:userId/restrictions/:restrictionId/lift — body `{ reason? }`. */
+export async function liftUserRestriction(req: Request, res: Response) {
+  try {
+    res.json(
+      await liftRestriction(
+        (req as any).userId as string,
+        req.params.userId,
+        req.params.restrictionId,
+        req.body ?? {},
+      ),
+    );
+  } catch (error: any) {
+    moderationError(res, error, "lifting restriction");
+  }
+}
+
+/** GET /admin/screening-rules — the keyword, regex and image-hash rules. */
+export async function screeningRules(_req: Request, res: Response) {
+  try {
+    res.json({ rules: await listScreeningRules() });
+  } catch (error: any) {
+    moderationError(res, error, "loading screening rules");
+  }
+}
+
+/**
+ * POST /admin/screening-rules — body
+ * `{ kind, pattern? | post_id?, reason?, action?: 'flag' | 'hold', note? }`.
+ * An image_hash rule can name a post instead of a hash to ban its photo.
+ */
+export async function addScreeningRule(req: Request, res: Response) {
+  try {
+    const rule = await createScreeningRule(
+      (req as any).userId as string,
+      req.body ?? {},
+    );
+    res.status(201).json(rule);
+  } catch (error: any) {
+    moderationError(res, error, "adding screening rule");
+  }
+}
+
+/** POST /admin/screening-rules/:ruleId/delete */
+export async function removeScreeningRule(req: Request, res: Response) {
+  try {
+    await deleteScreeningRule(req.params.ruleId);
+    res.json({ deleted: true });
+  } catch (error: any) {
+    moderationError(res, error, "deleting screening rule");
+  }
+}
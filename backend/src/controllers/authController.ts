@@ -1,62 +1,215 @@
 import { Request, Response } from 'express';
 import hasRequiredKeys from '../utils/hasRequiredKeys.js';
-import { getUser as dbGetUser, createUser as dbCreateUser } from '../services/userService.js';
-import { createRemoteJWKSet, jwtVerify } from 'jose';
 import { generateAccessToken } from '../services/tokenService.js';
 import {
 	createRefreshToken,
+	describeDevice,
+	isUnrecognizedDevice,
+	listSessions,
+	locationHint,
 	rotateRefreshToken,
 	revokeRefreshToken,
-	revokeAllUserTokens
+	revokeAllUserTokens,
+	revokeTokenFamily
 } from '../services/refreshTokenService.js';
+import { notifyNewSignIn } from '../services/notificationService.js';
+import { isUuid } from '../utils/isUuid.js';
+import {
+	isAuthProvider,
+	linkIdentity,
+	listIdentities,
+	resolveSignInUser,
+	unlinkIdentity,
+	verifyAppleIdentityToken,
+	verifyGoogleIdToken
+} from '../services/authProviderService.js';
+import { consumeMagicLink, requestMagicLink } from '../services/magicLinkService.js';
 import { AuthenticatedRequest } from '../middleware/auth.js';
 import { logError } from '../services/errorLogService.js';
+import { assertNotSuspended } from '../services/accountRestrictionService.js';
+import { AccountSuspendedError, BadRequestError, InvalidCredentialError, MailUnavailableError } from '../errors/Errors.js';
+import { AuthProvider, VerifiedIdentity } from '../types/auth.js';
+
+// Every sign-in provider ends here: same session, same response shape.
+async function respondWithSession(req: Request, res: Response, user: any, provider: AuthProvider) {
+	await assertNotSuspended(user.user_id);
+
+	const metadata = {
+		userAgent: req.headers['user-agent'],
+		ipAddress: req.ip,
+		deviceInfo: req.body.device_info
+	};
+	const newDevice = await isUnrecognizedDevice(user.user_id, metadata).catch(() => false);
+	const { refreshToken, familyId } = await createRefreshToken(user.user_id, metadata);
+	const accessToken = await generateAccessToken(user.user_id, { provider, sessionId: familyId });
+
+	if (newDevice) {
+		notifyNewSignIn(user.user_id, {
+			family_id: familyId,
+			device: describeDevice(metadata.userAgent, metadata.deviceInfo),
+			location_hint: locationHint(metadata.ipAddress, metadata.deviceInfo)
+		}).catch(err => console.error('[Push] new sign-in error:', err.message));
+	}
+
+	const expiresAt = Date.now() + 30 * 24 * 60 * 60 * 1000;
+
+	return res.json({ user, accessToken, refreshToken, expiresIn: '30d', expiresAt });
+}
+
+function handleSignInError(req: Request, res: Response, err: unknown, label: string, message: string) {
+	if (err instanceof AccountSuspendedError) {
+		return res.status(err.statusCode).json(err.toResponse());
+	}
+	if (err instanceof BadRequestError) {
+		return res.status(400).json({ error: err.message });
+	}
+	console.error(`${label} failed`, err);
+	logError('auth', `${label} failed`, {
+		userId: (req.body?.user_id as string) ?? null,
+		context: {
+			email: req.body?.email ?? null,
+			reason: err instanceof Error ? err.message : String(err)
+		}
+	});
+	return res.status(401).json({ error: message });
+}
 
 export async function signIn(req: Request, res: Response) {
 	if (!hasRequiredKeys(['user_id', 'identity_token', 'authorization_code'], req, res)) return;
 
-	const identityToken = req.body.identity_token as string;
-	const email = req.body.email as string;
+	try {
+		const identity = await verifyAppleIdentityToken(req.body.identity_token as string);
+		// req.body.email is ignored: the client can put anything there, and
+		// Apple's token already carries the address it verified.
+		const user = await resolveSignInUser(identity);
+		return await respondWithSession(req, res, user, 'apple');
+	} catch (err) {
+		return handleSignInError(req, res, err, 'Apple sign-in', 'Invalid Apple identity token');
+	}
+}
+
+export async function signInWithGoogle(req: Request, res: Response) {
+	if (!hasRequiredKeys(['id_token'], req, res)) return;
+
+	try {
+		const identity = await verifyGoogleIdToken(req.body.id_token as string);
+		const user = await resolveSignInUser(identity);
+		return await respondWithSession(req, res, user, 'google');
+	} catch (err) {
+		return handleSignInError(req, res, err, 'Google sign-in', 'Invalid Google ID token');
+	}
+}
 
-	const expectedAudience = process.env.APPLE_CLIENT_ID;
+// Always the same answer for a well-formed address, sent or rate-limited, so
+// the endpoint says nothing about whether an account exists. 503 only when the
+// server has no mail transport at all, which is true for every address.
+export async function requestEmailSignIn(req: Request, res: Response) {
+	if (!hasRequiredKeys(['email'], req, res)) return;
 
 	try {
-		const APPLE_ISS = 'https://appleid.apple.com';
-		const jwks = createRemoteJWKSet(new URL('https://appleid.apple.com/auth/keys'));
-		const { payload } = await jwtVerify(identityToken, jwks, {
-			issuer: APPLE_ISS,
-			audience: expectedAudience
+		await requestMagicLink(req.body.email, { purpose: 'sign_in', ipAddress: req.ip });
+		return res.json({ success: true });
+	} catch (err) {
+		if (err instanceof BadRequestError) {
+			return res.status(400).json({ error: err.message });
+		}
+		if (err instanceof MailUnavailableError) {
+			return res.status(err.statusCode).json({ error: err.message });
+		}
+		console.error('Magic link request failed', err);
+		logError('auth', 'Magic link request failed', {
+			context: { reason: err instanceof Error ? err.message : String(err) }
 		});
+		return res.status(500).json({ error: 'Could not send sign-in email' });
+	}
+}
 
-		const appleSub = payload.sub as string;
-		const emailFromToken = (payload.email as string | undefined) ?? email;
+export async function verifyEmailSignIn(req: Request, res: Response) {
+	if (!hasRequiredKeys(['token'], req, res)) return;
+
+	try {
+		const identity = await consumeMagicLink(req.body.token as string, 'sign_in');
+		const user = await resolveSignInUser(identity);
+		return await respondWithSession(req, res, user, 'email');
+	} catch (err) {
+		return handleSignInError(req, res, err, 'Email sign-in', 'Invalid or expired sign-in link');
+	}
+}
 
-		let user = await dbGetUser({ email: emailFromToken });
+export async function getIdentities(req: AuthenticatedRequest, res: Response) {
+	try {
+		return res.json({ identities: await listIdentities(req.userId!) });
+	} catch (err) {
+		console.error('List identities failed', err);
+		return res.status(500).json({ error: 'Failed to load sign-in methods' });
+	}
+}
 
-		if (!user) {
-			user = await dbCreateUser({ email: emailFromToken, apple_sub: appleSub });
+async function respondWithLink(req: AuthenticatedRequest, res: Response, verify: () => Promise<VerifiedIdentity>) {
+	try {
+		await linkIdentity(req.userId!, await verify());
+		return res.json({ identities: await listIdentities(req.userId!) });
+	} catch (err) {
+		if (err instanceof BadRequestError) {
+			return res.status(400).json({ error: err.message });
+		}
+		if (err instanceof InvalidCredentialError) {
+			return res.status(err.statusCode).json({ error: err.message });
 		}
+		console.error('Link identity failed', err);
+		// A jose verification failure (bad signature, wrong audience, expired).
+		return res.status(401).json({ error: 'invalid_credential' });
+	}
+}
 
-		const accessToken = await generateAccessToken(user.user_id);
-		const refreshToken = await createRefreshToken(user.user_id, {
-			userAgent: req.headers['user-agent'],
-			ipAddress: req.ip,
-			deviceInfo: req.body.device_info
-		});
+export async function linkApple(req: AuthenticatedRequest, res: Response) {
+	if (!hasRequiredKeys(['identity_token'], req, res)) return;
+	return respondWithLink(req, res, () => verifyAppleIdentityToken(req.body.identity_token as string));
+}
 
-		const expiresAt = Date.now() + 30 * 24 * 60 * 60 * 1000;
+export async function linkGoogle(req: AuthenticatedRequest, res: Response) {
+	if (!hasRequiredKeys(['id_token'], req, res)) return;
+	return respondWithLink(req, res, () => verifyGoogleIdToken(req.body.id_token as string));
+}
+
+export async function requestEmailLink(req: AuthenticatedRequest, res: Response) {
+	if (!hasRequiredKeys(['email'], req, res)) return;
 
-		return res.json({ user, accessToken, refreshToken, expiresIn: '30d', expiresAt });
+	try {
+		await requestMagicLink(req.body.email, { purpose: 'link', userId: req.userId!, ipAddress: req.ip });
+		return res.json({ success: true });
 	} catch (err) {
-		console.error('Apple sign-in failed', err);
-		logError('auth', 'Apple sign-in failed', {
-			userId: (req.body?.user_id as string) ?? null,
-			context: {
-				email: req.body?.email ?? null,
-				reason: err instanceof Error ? err.message : String(err)
-			}
-		});
-		return res.status(401).json({ error: 'Invalid Apple identity token' });
+		if (err instanceof BadRequestError) {
+			return res.status(400).json({ error: err.message });
+		}
+		if (err instanceof MailUnavailableError) {
+			return res.status(err.statusCode).json({ error: err.message });
+		}
+		console.error('Magic link request failed', err);
+		return res.status(500).json({ error: 'Could not send confirmation email' });
+	}
+}
+
+export async function verifyEmailLink(req: AuthenticatedRequest, res: Response) {
+	if (!hasRequiredKeys(['token'], req, res)) return;
+	return respondWithLink(req, res, () => consumeMagicLink(req.body.token as string, 'link', req.userId!));
+}
+
+export async function unlinkProvider(req: AuthenticatedRequest, res: Response) {
+	const provider = req.params.provider;
+	if (!isAuthProvider(provider)) {
+		return res.status(400).json({ error: 'invalid_provider' });
+	}
+
+	try {
+		await unlinkIdentity(req.userId!, provider);
+		return res.json({ identities: await listIdentities(req.userId!) });
+	} catch (err) {
+		if (err instanceof BadRequestError) {
+			return res.status(400).json({ error: err.message });
+		}
+		console.error('Unlink identity failed', err);
+		return res.status(500).json({ error: 'Failed to remove sign-in method' });
 	}
 }
 
@@ -76,6 +229,9 @@ export async function refresh(req: Request, res: Response) {
 
 		return res.json({ ...tokenPair, expiresIn: '30d', expiresAt });
 	} catch (err) {
+		if (err instanceof AccountSuspendedError) {
+			return res.status(err.statusCode).json(err.toResponse());
+		}
 		console.error('Token refresh failed', err);
 		// 401: the refresh credential itself is invalid/expired/revoked. The
 		// client treats this as "auth is dead" -> force sign-out + re-login.
@@ -117,3 +273,35 @@ export async function logoutAll(req: AuthenticatedRequest, res: Response) {
 		return res.status(500).json({ error: 'Logout all failed' });
 	}
 }
+
+export async function getSessions(req: AuthenticatedRequest, res: Response) {
+	try {
+		return res.json({ sessions: await listSessions(req.userId!, req.sessionId) });
+	} catch (err) {
+		console.error('List sessions failed', err);
+		return res.status(500).json({ error: 'Failed to load sessions' });
+	}
+}
+
+// Revoking the caller's own session is allowed: it is a logout, and the next
+// request on this access token gets the 401 that signs the client out.
+export async function revokeSession(req: AuthenticatedRequest, res: Response) {
+	const familyId = req.params.familyId as string;
+	if (!isUuid(familyId)) {
+		return res.status(404).json({ error: 'session_not_found' });
+	}
+
+	try {
+		const revokedCount = await revokeTokenFamily(familyId, {
+			userId: req.userId!,
+			reason: 'session_revoked'
+		});
+		if (!revokedCount) {
+			return res.status(404).json({ error: 'session_not_found' });
+		}
+		return res.json({ success: true, current: familyId === req.sessionId });
+	} catch (err) {
+		console.error('Revoke session failed', err);
+		return res.status(500).json({ error: 'Failed to revoke session' });
+	}
+}
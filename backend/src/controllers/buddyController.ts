@@ -1,6 +1,5 @@
 import { Response } from "express";
 import { AuthenticatedRequest } from "../middleware/auth.js";
-import { BadRequestError } from "../errors/Errors.js";
 import { buddySessionsEnabled } from "../services/buddyFeatures.js";
 import {
   BUDDY_ACTIVITY_TYPES,
@@ -47,6 +46,7 @@ import {
 } from "../services/postService.js";
 import { getDailyGoalStatus } from "../services/workoutService.js";
 import { signMediaUrlsDeep } from "../services/mediaSigningService.js";
+import { handleError } from "../utils/handleError.js";
 
 /**
  * Buddy Walks & Runs controllers.
@@ -64,20 +64,6 @@ function requireEnabled(res: Response): boolean {
   return true;
 }
 
-/**
- * Map a service-level BadRequestError to a 400 carrying its code, and anything
- * else to a generic 500 — never leak raw error text (matches the global handler
- * in server.ts).
- */
-function handleError(res: Response, error: unknown, logLabel: string): void {
-  if (error instanceof BadRequestError) {
-    res.status(400).json({ error: error.message });
-    return;
-  }
-  console.error(`Error ${logLabel}:`, error);
-  res.status(500).json({ error: `Error ${logLabel}` });
-}
-
 /**
  * The viewer's mile status, used to gate today's photos. Mirrors the copy in
  * postsController — fail-OPEN, so a stats hiccup briefly over-shows rather than
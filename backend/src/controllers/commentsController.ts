@@ -13,7 +13,7 @@ import {
   REPORT_REASONS,
   ReportReason,
 } from "../services/moderationService.js";
-import { isUuid } from "./postsController.js";
+import { isUuid } from "../utils/isUuid.js";
 
 const MAX_COMMENT = 1000;
 
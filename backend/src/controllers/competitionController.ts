@@ -12,7 +12,7 @@ import {
   updateCompetition,
   deleteCompetition,
   removeUserFromCompetition,
-  getTodayET,
+  getCompetitionToday,
   autoStartIfAllAccepted,
   setCompetitionTeams,
   pickCompetitionTeam,
@@ -77,7 +77,10 @@ export async function startComp(req: AuthenticatedRequest, res: Response) {
     }
 
     // Must not be already started
-    if (competition.start_date && competition.start_date <= getTodayET()) {
+    if (
+      competition.start_date &&
+      competition.start_date <= getCompetitionToday(competition)
+    ) {
       return res.status(400).json({ error: "Competition has already started" });
     }
 
@@ -92,9 +95,10 @@ export async function startComp(req: AuthenticatedRequest, res: Response) {
       });
     }
 
-    // Start at midnight ET tomorrow so the first official day is a full day for everyone
-    const todayET = getTodayET(); // 'YYYY-MM-DD' in ET
-    const [y, m, d] = todayET.split("-").map(Number);
+    // Start at the competition's next local midnight so the first official day
+    // is a full day for everyone
+    const today = getCompetitionToday(competition);
+    const [y, m, d] = today.split("-").map(Number);
     const tomorrowUTC = new Date(Date.UTC(y, m - 1, d + 1));
     const startDate = tomorrowUTC.toISOString().split("T")[0];
 
@@ -323,7 +327,10 @@ export async function removeUserFromComp(
     }
 
     // Can only remove from lobby (not started yet)
-    if (competition.start_date && competition.start_date <= getTodayET()) {
+    if (
+      competition.start_date &&
+      competition.start_date <= getCompetitionToday(competition)
+    ) {
       return res.status(400).json({
         error:
           "Cannot remove users from a competition that has already started",
@@ -439,7 +446,10 @@ async function loadCompForTeamEdit(
     return null;
   }
   // Editable while in the lobby OR scheduled-but-not-yet-started; frozen once live.
-  if (competition.start_date && competition.start_date <= getTodayET()) {
+  if (
+    competition.start_date &&
+    competition.start_date <= getCompetitionToday(competition)
+  ) {
     res
       .status(400)
       .json({ error: "Teams are locked once the competition has started" });
@@ -0,0 +1,154 @@
+import { Response } from "express";
+import { AuthenticatedRequest } from "../middleware/auth.js";
+import {
+  addSeasonMember,
+  createSeason,
+  deleteSeason,
+  getSeasonHistory,
+  getSeasonLadder,
+  getSeasonRecord,
+  listSeasons,
+  removeSeasonMember,
+  updateSeason,
+} from "../services/competitionSeasonService.js";
+import { handleError } from "../utils/handleError.js";
+
+/** GET /competitions/seasons — seasons the caller is a member of. */
+export async function listSeasonsController(
+  req: AuthenticatedRequest,
+  res: Response,
+) {
+  try {
+    const seasons = await listSeasons(req.userId!);
+    return res.status(200).json({ seasons });
+  } catch (error) {
+    handleError(res, error, "listing seasons");
+  }
+}
+
+/** POST /competitions/seasons — `{ name, start_date, end_date, member_ids? }`. */
+export async function createSeasonController(
+  req: AuthenticatedRequest,
+  res: Response,
+) {
+  try {
+    const season = await createSeason(req.userId!, {
+      name: req.body?.name,
+      start_date: req.body?.start_date,
+      end_date: req.body?.end_date,
+      member_ids: req.body?.member_ids,
+    });
+    return res.status(201).json({ season });
+  } catch (error) {
+    handleError(res, error, "creating season");
+  }
+}
+
+/** PATCH /competitions/seasons/:seasonId — any of `{ name, start_date, end_date }`. */
+export async function updateSeasonController(
+  req: AuthenticatedRequest,
+  res: Response,
+) {
+  try {
+    const season = await updateSeason(req.userId!, req.params.seasonId, {
+      name: req.body?.name,
+      start_date: req.body?.start_date,
+      end_date: req.body?.end_date,
+    });
+    return res.status(200).json({ season });
+  } catch (error) {
+    handleError(res, error, "updating season");
+  }
+}
+
+/** DELETE /competitions/seasons/:seasonId — owner only. */
+export async function deleteSeasonController(
+  req: AuthenticatedRequest,
+  res: Response,
+) {
+  try {
+    await deleteSeason(req.userId!, req.params.seasonId);
+    return res.status(200).json({ ok: true });
+  } catch (error) {
+    handleError(res, error, "deleting season");
+  }
+}
+
+/** POST /competitions/seasons/:seasonId/members — `{ user_id }`, a friend. */
+export async function addSeasonMemberController(
+  req: AuthenticatedRequest,
+  res: Response,
+) {
+  try {
+    const season = await addSeasonMember(
+      req.userId!,
+      req.params.seasonId,
+      req.body?.user_id,
+    );
+    return res.status(200).json({ season });
+  } catch (error) {
+    handleError(res, error, "adding season member");
+  }
+}
+
+/** DELETE /competitions/seasons/:seasonId/members/:userId — remove or leave. */
+export async function removeSeasonMemberController(
+  req: AuthenticatedRequest,
+  res: Response,
+) {
+  try {
+    await removeSeasonMember(
+      req.userId!,
+      req.params.seasonId,
+      req.params.userId,
+    );
+    return res.status(200).json({ ok: true });
+  } catch (error) {
+    handleError(res, error, "removing season member");
+  }
+}
+
+/** GET /competitions/seasons/:seasonId/ladder */
+export async function getSeasonLadderController(
+  req: AuthenticatedRequest,
+  res: Response,
+) {
+  try {
+    const ladder = await getSeasonLadder(req.userId!, req.params.seasonId);
+    return res.status(200).json(ladder);
+  } catch (error) {
+    handleError(res, error, "loading season ladder");
+  }
+}
+
+/** GET /competitions/seasons/:seasonId/history?user_id= */
+export async function getSeasonHistoryController(
+  req: AuthenticatedRequest,
+  res: Response,
+) {
+  try {
+    const userId =
+      typeof req.query.user_id === "string" ? req.query.user_id : undefined;
+    const history = await getSeasonHistory(
+      req.userId!,
+      req.params.seasonId,
+      userId,
+    );
+    return res.status(200).json({ history });
+  } catch (error) {
+    handleError(res, error, "loading season history");
+  }
+}
+
+/** GET /competitions/record/seasons — the caller's result in each season. */
+export async function getSeasonRecordController(
+  req: AuthenticatedRequest,
+  res: Response,
+) {
+  try {
+    const seasons = await getSeasonRecord(req.userId!);
+    return res.status(200).json({ seasons });
+  } catch (error) {
+    handleError(res, error, "loading season record");
+  }
+}
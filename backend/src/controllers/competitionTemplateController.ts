@@ -0,0 +1,128 @@
+import { Response } from "express";
+import { AuthenticatedRequest } from "../middleware/auth.js";
+import {
+  createCompetitionTemplate,
+  deleteCompetitionTemplate,
+  getCompetitionSeason,
+  listCompetitionTemplates,
+  spawnCompetitionTemplate,
+  updateCompetitionTemplate,
+} from "../services/competitionTemplateService.js";
+import { handleError } from "../utils/handleError.js";
+
+/** GET /competitions/templates — the caller's saved templates. */
+export async function listTemplatesController(
+  req: AuthenticatedRequest,
+  res: Response,
+) {
+  try {
+    const templates = await listCompetitionTemplates(req.userId!);
+    return res.status(200).json({ templates });
+  } catch (error) {
+    handleError(res, error, "listing competition templates");
+  }
+}
+
+/**
+ * POST /competitions/templates — either `{ competition_id, recurrence? }` to
+ * save an existing competition as a template, or a full definition
+ * `{ competition_name, type, workouts?, options, teams?, invite_user_ids?,
+ * recurrence? }`.
+ */
+export async function createTemplateController(
+  req: AuthenticatedRequest,
+  res: Response,
+) {
+  try {
+    const body = req.body ?? {};
+    const template = await createCompetitionTemplate(
+      req.userId!,
+      typeof body.competition_id === "string"
+        ? { competition_id: body.competition_id, recurrence: body.recurrence }
+        : {
+            competition_name: body.competition_name,
+            type: body.type,
+            workouts: body.workouts,
+            options: body.options,
+            teams: body.teams,
+            invite_user_ids: body.invite_user_ids,
+            recurrence: body.recurrence,
+          },
+    );
+    return res.status(201).json({ template });
+  } catch (error) {
+    handleError(res, error, "creating competition template");
+  }
+}
+
+/** PATCH /competitions/templates/:templateId — including `is_active`. */
+export async function updateTemplateController(
+  req: AuthenticatedRequest,
+  res: Response,
+) {
+  try {
+    const body = req.body ?? {};
+    const template = await updateCompetitionTemplate(
+      req.userId!,
+      req.params.templateId,
+      {
+        competition_name: body.competition_name,
+        type: body.type,
+        workouts: body.workouts,
+        options: body.options,
+        teams: body.teams,
+        invite_user_ids: body.invite_user_ids,
+        recurrence: body.recurrence,
+        is_active: body.is_active,
+      },
+    );
+    return res.status(200).json({ template });
+  } catch (error) {
+    handleError(res, error, "updating competition template");
+  }
+}
+
+/** DELETE /competitions/templates/:templateId — editions are kept. */
+export async function deleteTemplateController(
+  req: AuthenticatedRequest,
+  res: Response,
+) {
+  try {
+    await deleteCompetitionTemplate(req.userId!, req.params.templateId);
+    return res.status(200).json({ ok: true });
+  } catch (error) {
+    handleError(res, error, "deleting competition template");
+  }
+}
+
+/** POST /competitions/templates/:templateId/spawn — start the next edition. */
+export async function spawnTemplateController(
+  req: AuthenticatedRequest,
+  res: Response,
+) {
+  try {
+    const competitionId = await spawnCompetitionTemplate(
+      req.userId!,
+      req.params.templateId,
+    );
+    return res.status(201).json({ competition_id: competitionId });
+  } catch (error) {
+    handleError(res, error, "spawning competition edition");
+  }
+}
+
+/** GET /competitions/templates/:templateId/season — season standings. */
+export async function getSeasonController(
+  req: AuthenticatedRequest,
+  res: Response,
+) {
+  try {
+    const season = await getCompetitionSeason(
+      req.userId!,
+      req.params.templateId,
+    );
+    return res.status(200).json(season);
+  } catch (error) {
+    handleError(res, error, "loading competition season");
+  }
+}
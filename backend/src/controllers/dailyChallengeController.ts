@@ -8,8 +8,12 @@ import {
 import { getCompletionDetail } from "../services/challengeCompletionDetailService.js";
 import { signMediaUrlsDeep } from "../services/mediaSigningService.js";
 import { areFriends } from "../services/friendshipService.js";
-import { getMatchupHistory } from "../services/h2hMatchupService.js";
+import {
+  getMatchupHistory,
+  getRivalrySummary,
+} from "../services/h2hMatchupService.js";
 import { PostgresService } from "../services/DbService.js";
+import { localTodaySql } from "../services/dailyResetTime.js";
 import hasRequiredKeys from "../utils/hasRequiredKeys.js";
 
 const db = PostgresService.getInstance();
@@ -121,15 +125,27 @@ export async function getMatchupHistoryForUser(
   }
 }
 
+export async function getRivalrySummaryForUser(
+  req: AuthenticatedRequest,
+  res: Response,
+) {
+  if (!hasRequiredKeys(["userId"], req, res)) return;
+
+  try {
+    const summary = await getRivalrySummary(req.params.userId);
+    return res.status(200).json(summary);
+  } catch (err: any) {
+    console.error("Error getting rivalry summary:", err.message);
+    return res
+      .status(500)
+      .json({ error: "Error getting rivalry summary: " + err.message });
+  }
+}
+
 async function resolveUserLocalDate(userId: string): Promise<string> {
-  // Match existing pattern in workoutService.getTodayMiles: today in user's last-known timezone.
+  // Same "today" as workoutService.getTodayMiles: the user's own calendar.
   const rows = await db.query<{ local_date: string }>(
-    `SELECT (NOW() + (
-			COALESCE(
-				(SELECT timezone_offset FROM workouts WHERE user_id = $1 ORDER BY device_end_date DESC LIMIT 1),
-				0
-			) || ' minutes'
-		)::interval)::date::text AS local_date`,
+    `SELECT ${localTodaySql("$1")}::text AS local_date`,
     [userId],
   );
   return rows[0]?.local_date ?? new Date().toISOString().slice(0, 10);
@@ -0,0 +1,42 @@
+import { Response } from "express";
+import { AuthenticatedRequest } from "../middleware/auth.js";
+import { getDailyGoal, setDailyGoal } from "../services/dailyGoalService.js";
+import {
+  getUserLocalDate,
+  recomputeFeedRolesForDay,
+} from "../services/workoutService.js";
+import { refreshCurrentStreak } from "../services/leaderboardService.js";
+import { handleError } from "../utils/handleError.js";
+
+/** GET /users/:userId/daily-goal — today's goal, queued change, progress. */
+export async function getDailyGoalController(
+  req: AuthenticatedRequest,
+  res: Response,
+) {
+  try {
+    const goal = await getDailyGoal(String(req.params.userId));
+    return res.status(200).json(goal);
+  } catch (error) {
+    handleError(res, error, "loading daily goal");
+  }
+}
+
+/** PUT /users/:userId/daily-goal — `{ goal_type, target }`. */
+export async function setDailyGoalController(
+  req: AuthenticatedRequest,
+  res: Response,
+) {
+  try {
+    const userId = String(req.params.userId);
+    const goal = await setDailyGoal(userId, req.body ?? {});
+    // A goal that starts today can change whether today is done: reclassify
+    // today's feed cards and re-walk the cached streak.
+    if (goal.current.effective_from === (await getUserLocalDate(userId))) {
+      await recomputeFeedRolesForDay(userId, goal.current.effective_from);
+      await refreshCurrentStreak(userId);
+    }
+    return res.status(200).json(goal);
+  } catch (error) {
+    handleError(res, error, "saving daily goal");
+  }
+}
@@ -1,9 +1,35 @@
 import { Response } from 'express';
 import { AuthenticatedRequest } from '../middleware/auth.js';
 import { upsertDailySteps } from '../services/dailyStepsService.js';
+import { getDailyGoalProgress } from '../services/dailyGoalService.js';
+import { getUserLocalDate, recomputeFeedRolesForDay } from '../services/workoutService.js';
+import { refreshCurrentStreak } from '../services/leaderboardService.js';
+import { notifyFriendsOfMileCompletion } from '../services/notificationService.js';
 
 const LOCAL_DATE_RE = /^\d{4}-\d{2}-\d{2}$/;
 
+/**
+ * Under a steps goal, a step upsert alone can complete the day — no workout
+ * ever lands, so nothing on the workout-sync path would notice. Redo what
+ * that path does on a completed day: the cached streak, the day's feed
+ * roles, and (for today) the goal-complete push, which claims its own
+ * once-per-day slot. Never throws.
+ */
+async function applyStepsToDailyGoal(userId: string, localDate: string): Promise<void> {
+	try {
+		const progress = await getDailyGoalProgress(userId, localDate);
+		if (progress.goal.goal_type !== 'steps') return;
+
+		await refreshCurrentStreak(userId);
+		await recomputeFeedRolesForDay(userId, localDate);
+		if (progress.completed && localDate === (await getUserLocalDate(userId))) {
+			await notifyFriendsOfMileCompletion(userId);
+		}
+	} catch (err: any) {
+		console.error('Error applying steps to daily goal:', err?.message ?? err);
+	}
+}
+
 export async function putDailySteps(req: AuthenticatedRequest, res: Response) {
 	try {
 		const userId = req.params.userId;
@@ -20,6 +46,7 @@ export async function putDailySteps(req: AuthenticatedRequest, res: Response) {
 		}
 
 		const result = await upsertDailySteps(userId, localDate, Math.floor(steps), timezoneOffset);
+		void applyStepsToDailyGoal(userId, localDate);
 		return res.status(200).json(result);
 	} catch (err: any) {
 		console.error('Error upserting daily steps:', err.message);
@@ -0,0 +1,53 @@
+import { Response } from "express";
+import { AuthenticatedRequest } from "../middleware/auth.js";
+import {
+  ExportRateLimitedError,
+  getLatestDataExport,
+  requestDataExport,
+} from "../services/dataExportService.js";
+
+/**
+ * POST /users/:userId/export
+ *
+ * Queue a full account export. Answers 202 with the pending job straight away;
+ * the archive is built in the background and the client polls the GET below
+ * for `download_url`. 429 with `retry_after_seconds` inside the cooldown.
+ */
+export async function requestDataExportController(
+  req: AuthenticatedRequest,
+  res: Response,
+) {
+  try {
+    const dataExport = await requestDataExport(req.params.userId);
+    return res.status(202).json({ export: dataExport });
+  } catch (error: any) {
+    if (error instanceof ExportRateLimitedError) {
+      res.setHeader("Retry-After", String(error.retryAfterSeconds));
+      return res.status(429).json({
+        error: error.message,
+        retry_after_seconds: error.retryAfterSeconds,
+      });
+    }
+    console.error("Error requesting data export:", error.message);
+    return res.status(500).json({ error: "Error requesting data export" });
+  }
+}
+
+/**
+ * GET /users/:userId/export
+ *
+ * The most recent export job (`{ export: null }` if there has never been one).
+ * `download_url` is signed and only present while the archive is ready.
+ */
+export async function getDataExportController(
+  req: AuthenticatedRequest,
+  res: Response,
+) {
+  try {
+    const dataExport = await getLatestDataExport(req.params.userId);
+    return res.status(200).json({ export: dataExport });
+  } catch (error: any) {
+    console.error("Error loading data export:", error.message);
+    return res.status(500).json({ error: "Error loading data export" });
+  }
+}
@@ -10,6 +10,7 @@ import {
 } from "../services/clientFeatures.js";
 import { enrollUser } from "../services/buddySessionService.js";
 import hasRequiredKeys from "../utils/hasRequiredKeys.js";
+import { BadRequestError } from "../errors/Errors.js";
 
 export async function registerDevice(req: AuthenticatedRequest, res: Response) {
   if (!hasRequiredKeys(["device_token"], req, res)) return;
@@ -20,6 +21,7 @@ export async function registerDevice(req: AuthenticatedRequest, res: Response) {
       req.body.device_token,
       req.body.environment,
       req.body.client_features,
+      req.body.platform,
     );
 
     // Buddy enrollment rides the registration every build already makes,
@@ -43,6 +45,9 @@ export async function registerDevice(req: AuthenticatedRequest, res: Response) {
 
     res.status(200).json({ message: "Device registered" });
   } catch (error: any) {
+    if (error instanceof BadRequestError) {
+      return res.status(400).json({ error: error.message });
+    }
     console.error("Error registering device:", error.message);
     res.status(500).json({ error: "Error registering device" });
   }
@@ -1,6 +1,6 @@
 import { Response } from 'express';
 import { AuthenticatedRequest } from '../middleware/auth.js';
-import { getCompetition, getUserScores, getTodayET } from '../services/competitionService.js';
+import { getCompetition, getUserScores, getCompetitionToday } from '../services/competitionService.js';
 import { getUser } from '../services/userService.js';
 import { sendPush, canFlex, logFlex } from '../services/pushNotificationService.js';
 import { shouldSendNotification } from '../services/notificationSettingsService.js';
@@ -48,11 +48,11 @@ export async function flexOnUser(req: AuthenticatedRequest, res: Response) {
 		}
 
 		// Competition must be active
-		const todayET = getTodayET();
-		if (!competition.start_date || competition.start_date > todayET) {
+		const today = getCompetitionToday(competition);
+		if (!competition.start_date || competition.start_date > today) {
 			return res.status(400).json({ error: 'Competition has not started yet' });
 		}
-		if (competition.end_date && competition.end_date < todayET) {
+		if (competition.end_date && competition.end_date < today) {
 			return res.status(400).json({ error: 'Competition has already ended' });
 		}
 
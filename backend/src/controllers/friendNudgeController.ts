@@ -10,10 +10,7 @@ import {
 } from "../services/pushNotificationService.js";
 import { hasUnlimitedActions } from "../services/privilegedUsers.js";
 import { shouldSendNotification } from "../services/notificationSettingsService.js";
-import {
-  getTodayMiles,
-  DAILY_GOAL_TOLERANCE,
-} from "../services/workoutService.js";
+import { getDailyGoalStatus } from "../services/workoutService.js";
 import { refreshCurrentStreak } from "../services/leaderboardService.js";
 import { evaluateSocialBadgesForUser } from "../services/badgeService.js";
 import { PostgresService } from "../services/DbService.js";
@@ -64,11 +61,11 @@ export async function nudgeFriend(req: AuthenticatedRequest, res: Response) {
       return res.status(400).json({ error: "You can only nudge friends" });
     }
 
-    // Check if friend has already completed their mile today — same 0.95
-    // tolerance as streak counting, so a day the streak credits can't be
-    // nudged as "incomplete".
-    const friendTodayMiles = await getTodayMiles(friendId);
-    if (friendTodayMiles >= DAILY_GOAL_TOLERANCE) {
+    // Check if friend has already completed their goal today — same rule as
+    // streak counting, so a day the streak credits can't be nudged as
+    // "incomplete".
+    const friendGoal = await getDailyGoalStatus(friendId);
+    if (friendGoal.completed) {
       return res
         .status(400)
         .json({ error: "This friend has already completed their mile today" });
@@ -123,16 +120,15 @@ export async function checkNudgeStatus(
   const senderId = req.userId!;
 
   try {
-    const [nudgedToday, unlimited, friendTodayMiles, streaks] =
-      await Promise.all([
-        hasNudgedFriendToday(senderId, friendId),
-        hasUnlimitedActions(senderId),
-        getTodayMiles(friendId),
-        fetchStreaks([friendId]),
-      ]);
+    const [nudgedToday, unlimited, friendGoal, streaks] = await Promise.all([
+      hasNudgedFriendToday(senderId, friendId),
+      hasUnlimitedActions(senderId),
+      getDailyGoalStatus(friendId),
+      fetchStreaks([friendId]),
+    ]);
     const canNudge = unlimited || !nudgedToday;
 
-    const hasCompletedMile = friendTodayMiles >= DAILY_GOAL_TOLERANCE;
+    const hasCompletedMile = friendGoal.completed;
 
     res.status(200).json({
       can_nudge: canNudge && !hasCompletedMile,
@@ -144,7 +140,7 @@ export async function checkNudgeStatus(
       // again?" for unlimited senders.
       has_nudged_today: nudgedToday,
       unlimited_nudges: unlimited,
-      today_miles: Math.round(friendTodayMiles * 100) / 100,
+      today_miles: Math.round(friendGoal.miles * 100) / 100,
       current_streak: streaks[friendId] ?? 0,
     });
   } catch (error: any) {
@@ -190,13 +186,13 @@ export async function checkNudgeStatusBatch(
 
     await Promise.all(
       friendIds.map(async (friendId: string) => {
-        const [nudgedToday, friendTodayMiles] = await Promise.all([
+        const [nudgedToday, friendGoal] = await Promise.all([
           hasNudgedFriendToday(senderId, friendId),
-          getTodayMiles(friendId),
+          getDailyGoalStatus(friendId),
         ]);
         const canNudge = unlimited || !nudgedToday;
 
-        const hasCompletedMile = friendTodayMiles >= DAILY_GOAL_TOLERANCE;
+        const hasCompletedMile = friendGoal.completed;
         statuses[friendId] = {
           can_nudge: canNudge && !hasCompletedMile,
           has_completed_mile: hasCompletedMile,
@@ -204,7 +200,7 @@ export async function checkNudgeStatusBatch(
           already_nudged_today: !canNudge,
           has_nudged_today: nudgedToday,
           unlimited_nudges: unlimited,
-          today_miles: Math.round(friendTodayMiles * 100) / 100,
+          today_miles: Math.round(friendGoal.miles * 100) / 100,
           current_streak: streaks[friendId] ?? 0,
         };
       }),
@@ -1,8 +1,10 @@
 import { Response } from "express";
 import { AuthenticatedRequest } from "../middleware/auth.js";
+import { BadRequestError } from "../errors/Errors.js";
 import {
   getFriendGhosts,
   getGhostHistory,
+  getWorkoutGhostProfile,
   GHOST_ACTIVITIES,
   GhostActivity,
 } from "../services/ghostService.js";
@@ -46,3 +48,33 @@ export async function ghostHistory(req: AuthenticatedRequest, res: Response) {
     return res.status(500).json({ error: "Error loading ghost history" });
   }
 }
+
+/**
+ * GET /ghosts/workouts/:workoutId?distance=miles
+ *
+ * A split-by-split ghost built from one of your own workouts or a friend's,
+ * optionally cut short at `distance` miles. Not yours to race and missing are
+ * the same 404, so the id reveals nothing about its owner.
+ */
+export async function workoutGhost(req: AuthenticatedRequest, res: Response) {
+  try {
+    const rawDistance = req.query.distance;
+    const distance =
+      rawDistance === undefined || rawDistance === ""
+        ? null
+        : Number(rawDistance);
+    const ghost = await getWorkoutGhostProfile(
+      req.userId!,
+      String(req.params.workoutId),
+      distance,
+    );
+    if (!ghost) return res.status(404).json({ error: "workout_not_found" });
+    return res.status(200).json({ ghost });
+  } catch (error: any) {
+    if (error instanceof BadRequestError) {
+      return res.status(400).json({ error: error.message });
+    }
+    console.error("Error loading workout ghost:", error.message);
+    return res.status(500).json({ error: "Error loading workout ghost" });
+  }
+}
@@ -0,0 +1,85 @@
+import { Response } from "express";
+import { AuthenticatedRequest } from "../middleware/auth.js";
+import {
+  cancelRematch,
+  createRematch,
+  listRematches,
+  respondToRematch,
+} from "../services/h2hRematchService.js";
+import { handleError } from "../utils/handleError.js";
+
+/** GET /h2h/rematches — incoming, outgoing, upcoming and recently scored. */
+export async function listRematchesController(
+  req: AuthenticatedRequest,
+  res: Response,
+) {
+  try {
+    const rematches = await listRematches(req.userId!);
+    return res.status(200).json(rematches);
+  } catch (error) {
+    handleError(res, error, "loading rematches");
+  }
+}
+
+/**
+ * POST /h2h/rematches — `{ opponent_id, metric, local_date }`, metric one of
+ * distance | steps | duration.
+ */
+export async function createRematchController(
+  req: AuthenticatedRequest,
+  res: Response,
+) {
+  try {
+    const rematch = await createRematch(req.userId!, req.body ?? {});
+    return res.status(201).json({ rematch });
+  } catch (error) {
+    handleError(res, error, "creating rematch");
+  }
+}
+
+/** POST /h2h/rematches/:rematchId/accept */
+export async function acceptRematchController(
+  req: AuthenticatedRequest,
+  res: Response,
+) {
+  try {
+    const rematch = await respondToRematch(
+      req.userId!,
+      String(req.params.rematchId),
+      true,
+    );
+    return res.status(200).json({ rematch });
+  } catch (error) {
+    handleError(res, error, "accepting rematch");
+  }
+}
+
+/** POST /h2h/rematches/:rematchId/decline */
+export async function declineRematchController(
+  req: AuthenticatedRequest,
+  res: Response,
+) {
+  try {
+    const rematch = await respondToRematch(
+      req.userId!,
+      String(req.params.rematchId),
+      false,
+    );
+    return res.status(200).json({ rematch });
+  } catch (error) {
+    handleError(res, error, "declining rematch");
+  }
+}
+
+/** POST /h2h/rematches/:rematchId/cancel */
+export async function cancelRematchController(
+  req: AuthenticatedRequest,
+  res: Response,
+) {
+  try {
+    await cancelRematch(req.userId!, String(req.params.rematchId));
+    return res.status(200).json({ ok: true });
+  } catch (error) {
+    handleError(res, error, "cancelling rematch");
+  }
+}
@@ -23,6 +23,7 @@ import {
   getReceivedHypes,
   getContextHypers,
 } from "../services/hypeService.js";
+import { publishLiveHype } from "../services/liveTrackingService.js";
 
 const db = PostgresService.getInstance();
 
@@ -308,6 +309,12 @@ export async function sendHype(req: AuthenticatedRequest, res: Response) {
     // Re-evaluate hype badges (first hype, X hypes) in the background.
     evaluateSocialBadgesForUser(senderId).catch(() => {});
 
+    // Lands on the walker's tracking screen now if they have the stream open;
+    // otherwise their next heartbeat picks it up as before.
+    if (context?.contextType === "mile") {
+      publishLiveHype(inserted.id).catch(() => {});
+    }
+
     const [countAfter, unlimited] = await Promise.all([
       getDailyHypeCount(senderId),
       hasUnlimitedHypes(senderId),
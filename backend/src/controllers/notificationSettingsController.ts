@@ -5,6 +5,8 @@ import {
   updateNotificationPreferences,
   getFriendNotificationSettings,
   updateFriendNotificationSettings,
+  DIGEST_MODES,
+  isDigestMode,
 } from "../services/notificationSettingsService.js";
 import { getCloseFriendIds } from "../services/closeFriendsService.js";
 import {
@@ -30,9 +32,14 @@ export async function updatePreferences(
     const {
       quiet_hours_start,
       quiet_hours_end,
+      quiet_hours_weekend_start,
+      quiet_hours_weekend_end,
+      snooze_until,
       daily_reminder_hour,
       timezone_offset_minutes,
       workout_visibility,
+      digest_mode,
+      digest_hour,
     } = req.body;
     // The DB has a CHECK for this too; validating here turns a would-be 500
     // into a clear 400.
@@ -62,6 +69,29 @@ export async function updatePreferences(
         .status(400)
         .json({ error: "quiet_hours_end must be 0-23 or null" });
     }
+    for (const [key, value] of [
+      ["quiet_hours_weekend_start", quiet_hours_weekend_start],
+      ["quiet_hours_weekend_end", quiet_hours_weekend_end],
+    ] as const) {
+      if (
+        value !== undefined &&
+        value !== null &&
+        (!Number.isInteger(value) || value < 0 || value > 23)
+      ) {
+        return res.status(400).json({ error: `${key} must be 0-23 or null` });
+      }
+    }
+    // null ends a snooze early; a time in the past is accepted and simply
+    // has no effect.
+    if (
+      snooze_until !== undefined &&
+      snooze_until !== null &&
+      (typeof snooze_until !== "string" || isNaN(Date.parse(snooze_until)))
+    ) {
+      return res
+        .status(400)
+        .json({ error: "snooze_until must be an ISO 8601 time or null" });
+    }
     if (
       daily_reminder_hour !== undefined &&
       daily_reminder_hour !== null &&
@@ -71,6 +101,17 @@ export async function updatePreferences(
         .status(400)
         .json({ error: "daily_reminder_hour must be 0-23" });
     }
+    if (digest_mode !== undefined && !isDigestMode(digest_mode)) {
+      return res.status(400).json({
+        error: `digest_mode must be one of: ${DIGEST_MODES.join(", ")}`,
+      });
+    }
+    if (
+      digest_hour !== undefined &&
+      (!Number.isInteger(digest_hour) || digest_hour < 0 || digest_hour > 23)
+    ) {
+      return res.status(400).json({ error: "digest_hour must be 0-23" });
+    }
     // UTC offsets range roughly from -12:00 (-720) to +14:00 (+840) minutes.
     if (
       timezone_offset_minutes !== undefined &&
@@ -1,6 +1,9 @@
 import { Response } from "express";
 import { AuthenticatedRequest } from "../middleware/auth.js";
-import { getCompetition, getTodayET } from "../services/competitionService.js";
+import {
+  getCompetition,
+  getCompetitionToday,
+} from "../services/competitionService.js";
 import { getUser } from "../services/userService.js";
 import {
   sendPush,
@@ -29,11 +32,11 @@ export async function nudgeUser(req: AuthenticatedRequest, res: Response) {
     }
 
     // Competition must be active (started, not finished)
-    const todayET = getTodayET();
-    if (!competition.start_date || competition.start_date > todayET) {
+    const today = getCompetitionToday(competition);
+    if (!competition.start_date || competition.start_date > today) {
       return res.status(400).json({ error: "Competition has not started yet" });
     }
-    if (competition.end_date && competition.end_date < todayET) {
+    if (competition.end_date && competition.end_date < today) {
       return res.status(400).json({ error: "Competition has already ended" });
     }
 
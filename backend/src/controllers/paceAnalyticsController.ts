@@ -0,0 +1,48 @@
+import { Response } from "express";
+import { AuthenticatedRequest } from "../middleware/auth.js";
+import {
+  getPaceAnalytics,
+  getWorkoutPaceAnalytics,
+} from "../services/paceAnalyticsService.js";
+import { handleError } from "../utils/handleError.js";
+
+/** Absent query params stay undefined so the service defaults apply. */
+function optionalNumber(value: unknown): number | undefined {
+  if (value === undefined || value === "") return undefined;
+  return Number(value);
+}
+
+/**
+ * GET /workouts/:userId/analytics?weeks=12&distance=3.1 — weekly pace zones,
+ * pacing counts and the rolling fitness trend for the stats screen.
+ */
+export async function getPaceAnalyticsController(
+  req: AuthenticatedRequest,
+  res: Response,
+) {
+  try {
+    const analytics = await getPaceAnalytics(req.params.userId, {
+      weeks: optionalNumber(req.query.weeks),
+      distance: optionalNumber(req.query.distance),
+    });
+    return res.status(200).json(analytics);
+  } catch (error) {
+    handleError(res, error, "getting pace analytics");
+  }
+}
+
+/** GET /workouts/:userId/workout/:workoutId/analytics — one workout's zones and pacing. */
+export async function getWorkoutPaceAnalyticsController(
+  req: AuthenticatedRequest,
+  res: Response,
+) {
+  try {
+    const analytics = await getWorkoutPaceAnalytics(
+      req.params.userId,
+      req.params.workoutId,
+    );
+    return res.status(200).json(analytics);
+  } catch (error) {
+    handleError(res, error, "getting workout pace analytics");
+  }
+}
@@ -80,6 +80,7 @@ import {
   signMediaUrlsDeep,
   stripMediaQuery,
 } from "../services/mediaSigningService.js";
+import { isUuid } from "../utils/isUuid.js";
 
 // Friend "new post" push notifications: LIVE as of the App Store build that
 // ships the Feed/Stories UI (July 2026 update). Recipients are additionally
@@ -91,15 +92,6 @@ const MAX_CAPTION = 280;
 const DEFAULT_FEED_LIMIT = 20;
 const MAX_FEED_LIMIT = 50;
 
-// posts.post_id is a uuid — validate route params before they hit a ::uuid
-// cast, so garbage ids 404 instead of bubbling a cast error into a 500.
-const UUID_RE =
-  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
-
-export function isUuid(value: string | undefined): value is string {
-  return typeof value === "string" && UUID_RE.test(value);
-}
-
 /**
  * Upload a post photo. The image arrives already flattened (run-stats overlay
  * baked in by the client). Mirrors uploadProfileImage: Multer memory buffer →
@@ -215,6 +207,8 @@ export async function createPostController(
         error: "mile_not_completed",
         miles: goal.miles,
         goal_miles: goal.goalMiles,
+        goal_type: goal.goalType,
+        goal_label: goal.goalLabel,
       });
     }
 
@@ -364,6 +358,13 @@ export async function createPostController(
       postedLive: posted_live === true,
     });
 
+    // Held by content screening: nobody else can see it yet, so the tag,
+    // friend and mention pushes below would all point at nothing. Approval
+    // releases it silently — by then the moment has passed.
+    if (post.pending_review) {
+      return res.status(201).json(signMediaUrlsDeep(post));
+    }
+
     // Collab tag — fire-and-forget push to the person just added. Gated on
     // 'accepted', which is now what createPost writes: tagging is immediate,
     // so there is no pending state left to wait for. (Checking for 'pending'
@@ -0,0 +1,51 @@
+import { Response } from "express";
+import { AuthenticatedRequest } from "../middleware/auth.js";
+import {
+  createPrivacyZone,
+  deletePrivacyZone,
+  listPrivacyZones,
+} from "../services/privacyZoneService.js";
+import { invalidateHeatmap } from "../services/heatmapService.js";
+import { handleError } from "../utils/handleError.js";
+
+/** GET /privacy-zones — your zones, oldest first. */
+export async function listPrivacyZonesController(
+  req: AuthenticatedRequest,
+  res: Response,
+) {
+  try {
+    const zones = await listPrivacyZones(req.userId!);
+    return res.status(200).json({ zones });
+  } catch (error) {
+    handleError(res, error, "loading privacy zones");
+  }
+}
+
+/** POST /privacy-zones — `{ lat, lng, radius_meters, name? }`. */
+export async function createPrivacyZoneController(
+  req: AuthenticatedRequest,
+  res: Response,
+) {
+  try {
+    const zone = await createPrivacyZone(req.userId!, req.body ?? {});
+    // The heatmap is the one surface that bakes zones into stored output.
+    await invalidateHeatmap(req.userId!);
+    return res.status(201).json({ zone });
+  } catch (error) {
+    handleError(res, error, "creating privacy zone");
+  }
+}
+
+/** DELETE /privacy-zones/:zoneId */
+export async function deletePrivacyZoneController(
+  req: AuthenticatedRequest,
+  res: Response,
+) {
+  try {
+    await deletePrivacyZone(req.userId!, String(req.params.zoneId));
+    await invalidateHeatmap(req.userId!);
+    return res.status(200).json({ ok: true });
+  } catch (error) {
+    handleError(res, error, "deleting privacy zone");
+  }
+}
@@ -0,0 +1,65 @@
+import { Request, Response } from "express";
+import { verifyAccessToken } from "../services/tokenService.js";
+import { openStream, realtimeEnabled } from "../services/realtimeService.js";
+import { isSessionActive } from "../services/refreshTokenService.js";
+import { assertNotSuspended } from "../services/accountRestrictionService.js";
+import { AccountSuspendedError } from "../errors/Errors.js";
+
+/**
+ * GET /realtime/stream — the caller's server-push event stream.
+ *
+ * Authenticates itself with the same access token every other route uses,
+ * because browsers' EventSource cannot set an Authorization header: the token
+ * may arrive either as `Authorization: Bearer …` (the app) or as
+ * `?access_token=` (EventSource). A header wins when both are present.
+ *
+ * 401 matches authenticateToken, so the app's refresh-and-retry path applies
+ * unchanged. 503 when the kill switch is off: the client's cue to stay on
+ * polling, never an error to surface.
+ */
+export async function realtimeStreamController(req: Request, res: Response) {
+  if (!realtimeEnabled()) {
+    return res.status(503).json({ error: "realtime_disabled" });
+  }
+
+  const header = req.headers.authorization;
+  const queryToken = req.query.access_token;
+  const token =
+    (header && header.split(" ")[1]) ||
+    (typeof queryToken === "string" ? queryToken : undefined);
+  if (!token) {
+    return res.status(401).json({ error: "Access token required" });
+  }
+
+  let userId: string;
+  let sessionId: string | null;
+  try {
+    ({ userId, sessionId } = await verifyAccessToken(token));
+  } catch {
+    return res.status(401).json({ error: "Invalid or expired token" });
+  }
+  // Same restriction check as authenticateToken, and the same fail-open on a
+  // failed lookup. A suspension imposed later closes the stream itself.
+  try {
+    await assertNotSuspended(userId);
+  } catch (err) {
+    if (err instanceof AccountSuspendedError) {
+      return res.status(err.statusCode).json(err.toResponse());
+    }
+    console.error("Suspension lookup failed:", err);
+  }
+  // Fail closed: a stream outlives any later check, so one opened on a
+  // session we couldn't verify would keep listening after a revoke.
+  if (sessionId) {
+    try {
+      if (!(await isSessionActive(sessionId))) {
+        return res.status(401).json({ error: "Session revoked" });
+      }
+    } catch (err) {
+      console.error("Session lookup failed:", err);
+      return res.status(500).json({ error: "Session check failed" });
+    }
+  }
+
+  openStream(userId, res, sessionId);
+}
@@ -0,0 +1,128 @@
+import { Response } from "express";
+import { AuthenticatedRequest } from "../middleware/auth.js";
+import {
+  createSegment,
+  deleteSegment,
+  getSegment,
+  getSegmentLeaderboard,
+  listMySegments,
+  listNearbySegments,
+  listWorkoutEfforts,
+} from "../services/segmentService.js";
+import { clampLimit, clampOffset } from "../services/leaderboardService.js";
+import type { SegmentLeaderboardScope } from "../types/segments.js";
+import { handleError } from "../utils/handleError.js";
+
+/**
+ * POST /segments — `{ name, workout_id, start: [lat, lng], end: [lat, lng],
+ * corridor_meters? }`, cut from one of your own stored routes.
+ */
+export async function createSegmentController(
+  req: AuthenticatedRequest,
+  res: Response,
+) {
+  try {
+    const segment = await createSegment(req.userId!, req.body ?? {});
+    return res.status(201).json({ segment });
+  } catch (error) {
+    handleError(res, error, "creating segment");
+  }
+}
+
+/** GET /segments/nearby?lat=&lng=&radius_km= — nearest first. */
+export async function nearbySegmentsController(
+  req: AuthenticatedRequest,
+  res: Response,
+) {
+  try {
+    const segments = await listNearbySegments(
+      req.userId!,
+      Number(req.query.lat),
+      Number(req.query.lng),
+      req.query.radius_km === undefined ? 5 : Number(req.query.radius_km),
+    );
+    return res.status(200).json({ segments });
+  } catch (error) {
+    handleError(res, error, "loading nearby segments");
+  }
+}
+
+/** GET /segments/mine — segments you created. */
+export async function mySegmentsController(
+  req: AuthenticatedRequest,
+  res: Response,
+) {
+  try {
+    const segments = await listMySegments(req.userId!);
+    return res.status(200).json({ segments });
+  } catch (error) {
+    handleError(res, error, "loading your segments");
+  }
+}
+
+/** GET /segments/workouts/:workoutId/efforts — what one of your workouts hit. */
+export async function workoutEffortsController(
+  req: AuthenticatedRequest,
+  res: Response,
+) {
+  try {
+    const efforts = await listWorkoutEfforts(
+      req.userId!,
+      String(req.params.workoutId),
+    );
+    return res.status(200).json({ efforts });
+  } catch (error) {
+    handleError(res, error, "loading workout segment efforts");
+  }
+}
+
+/** GET /segments/:segmentId — the segment with your best on it. */
+export async function getSegmentController(
+  req: AuthenticatedRequest,
+  res: Response,
+) {
+  try {
+    const segment = await getSegment(req.userId!, String(req.params.segmentId));
+    if (!segment) return res.status(404).json({ error: "segment_not_found" });
+    return res.status(200).json({ segment });
+  } catch (error) {
+    handleError(res, error, "loading segment");
+  }
+}
+
+/** DELETE /segments/:segmentId — creator only; takes its board with it. */
+export async function deleteSegmentController(
+  req: AuthenticatedRequest,
+  res: Response,
+) {
+  try {
+    await deleteSegment(req.userId!, String(req.params.segmentId));
+    return res.status(200).json({ ok: true });
+  } catch (error) {
+    handleError(res, error, "deleting segment");
+  }
+}
+
+/**
+ * GET /segments/:segmentId/leaderboard?scope=friends|global&limit=&offset=
+ *
+ * Best time per athlete. Same paging clamps as the main leaderboard.
+ */
+export async function segmentLeaderboardController(
+  req: AuthenticatedRequest,
+  res: Response,
+) {
+  try {
+    const page = await getSegmentLeaderboard({
+      viewerId: req.userId!,
+      segmentId: String(req.params.segmentId),
+      scope: String(req.query.scope ?? "friends") as SegmentLeaderboardScope,
+      limit: clampLimit(Number(req.query.limit)),
+      offset: clampOffset(Number(req.query.offset)),
+    });
+    if (!page) return res.status(404).json({ error: "segment_not_found" });
+    return res.status(200).json(page);
+  } catch (error) {
+    handleError(res, error, "loading segment leaderboard");
+  }
+}
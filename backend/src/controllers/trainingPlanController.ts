@@ -0,0 +1,88 @@
+import { Response } from "express";
+import { AuthenticatedRequest } from "../middleware/auth.js";
+import {
+  abandonTrainingPlan,
+  enrollInTrainingPlan,
+  getCurrentTrainingPlan,
+  getTrainingPlanDetail,
+  listTrainingPlanEnrollments,
+  listTrainingPlans,
+} from "../services/trainingPlanService.js";
+import { handleError } from "../utils/handleError.js";
+
+/** GET /training-plans — the catalog, without day-by-day schedules. */
+export async function listPlansController(
+  _req: AuthenticatedRequest,
+  res: Response,
+) {
+  return res.status(200).json({ plans: listTrainingPlans() });
+}
+
+/** GET /training-plans/:planKey — one plan with every scheduled day. */
+export async function getPlanController(
+  req: AuthenticatedRequest,
+  res: Response,
+) {
+  try {
+    const plan = getTrainingPlanDetail(req.params.planKey);
+    return res.status(200).json({ plan });
+  } catch (error) {
+    handleError(res, error, "loading training plan");
+  }
+}
+
+/** GET /training-plans/me — the active plan's schedule and adherence, or null. */
+export async function getMyPlanController(
+  req: AuthenticatedRequest,
+  res: Response,
+) {
+  try {
+    const progress = await getCurrentTrainingPlan(req.userId!);
+    return res.status(200).json({ progress });
+  } catch (error) {
+    handleError(res, error, "loading current training plan");
+  }
+}
+
+/** POST /training-plans/me — `{ plan_key, start_date? }`. */
+export async function enrollController(
+  req: AuthenticatedRequest,
+  res: Response,
+) {
+  try {
+    const progress = await enrollInTrainingPlan(
+      req.userId!,
+      req.body?.plan_key,
+      req.body?.start_date,
+    );
+    return res.status(201).json({ progress });
+  } catch (error) {
+    handleError(res, error, "enrolling in training plan");
+  }
+}
+
+/** DELETE /training-plans/me — stop the active plan. */
+export async function abandonController(
+  req: AuthenticatedRequest,
+  res: Response,
+) {
+  try {
+    await abandonTrainingPlan(req.userId!);
+    return res.status(200).json({ ok: true });
+  } catch (error) {
+    handleError(res, error, "stopping training plan");
+  }
+}
+
+/** GET /training-plans/me/history */
+export async function historyController(
+  req: AuthenticatedRequest,
+  res: Response,
+) {
+  try {
+    const enrollments = await listTrainingPlanEnrollments(req.userId!);
+    return res.status(200).json({ enrollments });
+  } catch (error) {
+    handleError(res, error, "loading training plan history");
+  }
+}
@@ -10,11 +10,14 @@ import {
 	checkUsernameAvailability,
 	updateBio,
 	updateProfileImage,
+	updateTimezone,
 	updateOnboardingInfo,
 	getUserCount,
 	getPublicStreak
 } from '../services/userService.js';
 
+import { BadRequestError } from '../errors/Errors.js';
+
 const db = PostgresService.getInstance();
 
 export async function getUser(req: Request, res: Response) {
@@ -160,6 +163,13 @@ export async function deleteUser(req: Request, res: Response) {
 			params: p
 		},
 		{ query: 'DELETE FROM refresh_tokens WHERE user_id = $1', params: p },
+		// Sign-in links are keyed by address, not account, so match the email too.
+		{
+			query:
+				'DELETE FROM magic_link_tokens WHERE user_id = $1 OR email IN (SELECT email FROM auth_identities WHERE user_id = $1 AND email IS NOT NULL UNION SELECT LOWER(email) FROM users WHERE user_id = $1 AND email IS NOT NULL)',
+			params: p
+		},
+		{ query: 'DELETE FROM auth_identities WHERE user_id = $1', params: p },
 		{ query: 'DELETE FROM device_tokens WHERE user_id = $1', params: p },
 		{ query: 'DELETE FROM daily_steps WHERE user_id = $1', params: p },
 		{ query: 'DELETE FROM user_badges WHERE user_id = $1', params: p },
@@ -271,6 +281,21 @@ export async function updateUserProfileImage(req: Request, res: Response) {
 	}
 }
 
+export async function updateUserTimezone(req: Request, res: Response) {
+	if (!hasRequiredKeys(['timezone'], req, res)) return;
+
+	try {
+		const result = await updateTimezone({ userId: req.params.userId, timezone: req.body.timezone });
+		res.json(result);
+	} catch (error) {
+		if (error instanceof BadRequestError) {
+			return res.status(400).json({ error: error.message });
+		}
+		console.error('Error updating timezone:', error);
+		res.status(500).json({ error: 'Error updating timezone' });
+	}
+}
+
 // Fixed catalog of "how did you hear about us" answers. Anything the client
 // sends outside this set is normalized to 'other' so referral analytics stay
 // clean even if a future client adds a chip the server doesn't know yet.
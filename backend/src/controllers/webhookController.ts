@@ -0,0 +1,111 @@
+import { Response } from "express";
+import { AuthenticatedRequest } from "../middleware/auth.js";
+import {
+  createWebhook,
+  deleteWebhook,
+  getDeliveries,
+  listWebhooks,
+  sendTestDelivery,
+  updateWebhook,
+} from "../services/webhookService.js";
+import { handleError } from "../utils/handleError.js";
+
+const DEFAULT_DELIVERY_LIMIT = 50;
+const MAX_DELIVERY_LIMIT = 200;
+
+/** GET /webhooks — the caller's hooks. Secrets are never included. */
+export async function listWebhooksController(
+  req: AuthenticatedRequest,
+  res: Response,
+) {
+  try {
+    const webhooks = await listWebhooks(req.userId!);
+    return res.status(200).json({ webhooks });
+  } catch (error) {
+    handleError(res, error, "listing webhooks");
+  }
+}
+
+/**
+ * POST /webhooks — `{ url, events, scope? }`. Answers 201 with the hook and
+ * its `secret`, which is not retrievable afterwards.
+ */
+export async function createWebhookController(
+  req: AuthenticatedRequest,
+  res: Response,
+) {
+  try {
+    const webhook = await createWebhook(req.userId!, {
+      url: req.body?.url,
+      events: req.body?.events,
+      scope: req.body?.scope,
+    });
+    return res.status(201).json({ webhook });
+  } catch (error) {
+    handleError(res, error, "creating webhook");
+  }
+}
+
+/** PATCH /webhooks/:webhookId — any of `{ url, events, isActive }`. */
+export async function updateWebhookController(
+  req: AuthenticatedRequest,
+  res: Response,
+) {
+  try {
+    const webhook = await updateWebhook(req.userId!, req.params.webhookId, {
+      url: req.body?.url,
+      events: req.body?.events,
+      isActive: req.body?.isActive,
+    });
+    return res.status(200).json({ webhook });
+  } catch (error) {
+    handleError(res, error, "updating webhook");
+  }
+}
+
+export async function deleteWebhookController(
+  req: AuthenticatedRequest,
+  res: Response,
+) {
+  try {
+    await deleteWebhook(req.userId!, req.params.webhookId);
+    return res.status(200).json({ success: true });
+  } catch (error) {
+    handleError(res, error, "deleting webhook");
+  }
+}
+
+/** GET /webhooks/:webhookId/deliveries?limit= — the delivery log, newest first. */
+export async function webhookDeliveriesController(
+  req: AuthenticatedRequest,
+  res: Response,
+) {
+  try {
+    const raw = Number(req.query.limit);
+    const limit =
+      Number.isInteger(raw) && raw > 0
+        ? Math.min(raw, MAX_DELIVERY_LIMIT)
+        : DEFAULT_DELIVERY_LIMIT;
+    const deliveries = await getDeliveries(
+      req.userId!,
+      req.params.webhookId,
+      limit,
+    );
+    return res.status(200).json({ deliveries });
+  } catch (error) {
+    handleError(res, error, "loading webhook deliveries");
+  }
+}
+
+/** POST /webhooks/:webhookId/test — queue a signed `webhook.test` ping. */
+export async function testWebhookController(
+  req: AuthenticatedRequest,
+  res: Response,
+) {
+  try {
+    const delivery = await sendTestDelivery(req.userId!, req.params.webhookId);
+    return res.status(202).json({ delivery });
+  } catch (error) {
+    handleError(res, error, "sending test webhook");
+  }
+}
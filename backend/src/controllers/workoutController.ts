@@ -13,7 +13,7 @@ import {
   getBestSplit,
   getTodayMiles,
   getLast7DayMiles,
-  DAILY_GOAL_TOLERANCE,
+  getDailyGoalStatus,
   isFeedWorthyWorkout,
   updateWorkout as updateWorkoutDb,
   computePersonalRecords,
@@ -30,6 +30,7 @@ import {
   setDuplicateDecision,
 } from "../services/workoutService.js";
 import { checkRaceCompletions } from "../services/competitionService.js";
+import { getCurrentDailyGoal } from "../services/dailyGoalService.js";
 import { softDeleteWorkout } from "../services/workoutDeletionService.js";
 import {
   notifyFriendsOfMileCompletion,
@@ -41,6 +42,12 @@ import {
 } from "../services/notificationService.js";
 import { evaluateWorkoutRewards } from "../services/badgeService.js";
 import { notifyGhostsBeaten } from "../services/ghostService.js";
+import { matchSegmentEfforts } from "../services/segmentService.js";
+import {
+  getHeatmapInfo,
+  getHeatmapTile,
+  invalidateHeatmap,
+} from "../services/heatmapService.js";
 import {
   fireBadgeEarnedPush,
   fanOutFriendBadgePush,
@@ -59,6 +66,11 @@ import {
 import { reconcileBuddySessions } from "../services/buddySessionService.js";
 import { fetchCoveredDays } from "../services/streakFeatureCore.js";
 import { notifyH2hLeadChanges } from "../services/h2hMatchupService.js";
+import { parseWorkoutFile } from "../services/workoutImportService.js";
+import { BadRequestError } from "../errors/Errors.js";
+import { emitWebhookEvent } from "../services/webhookService.js";
+import { matchTrainingPlanWorkouts } from "../services/trainingPlanService.js";
+import type { TrainingPlanCompletion } from "../types/trainingPlan.js";
 
 export async function uploadWorkouts(req: Request, res: Response) {
   if (!hasRequiredKeys(["userId"], req, res)) return;
@@ -81,310 +93,468 @@ export async function uploadWorkouts(req: Request, res: Response) {
     const isFullSync =
       req.query.fullSync === "true" || req.query.fullSync === "1";
 
-    // A notification only fires for activity from the last 24 hours. An old or
-    // backdated workout (HealthKit can deliver backdated workouts; a manual log
-    // can be for a past day) must NOT notify anyone — not friends, and not the
-    // user for their own badge. We map each achievement back to the workout that
-    // triggered it and suppress its push when that workout is outside the window.
-    const recencyCutoffMs = Date.now() - 24 * 60 * 60 * 1000;
-    const recentWorkoutIds = new Set(
-      (req.body as Workout[])
-        .filter((w) => {
-          const ts = Date.parse(w.deviceEndDate ?? w.date);
-          return Number.isFinite(ts) && ts >= recencyCutoffMs;
-        })
-        .map((w) => w.workoutId),
-    );
-    const hasRecentWorkout = recentWorkoutIds.size > 0;
-
     const user = await getUser({ userId });
     if (!user) {
       return res.status(400).send({ error: `No user found with ID ${userId}` });
     }
 
-    // Snapshot race PRs BEFORE the upsert so a retried/idempotent re-upload
-    // doesn't re-fire a PR that was already recorded. The upsert is idempotent
-    // and the client retries, so comparing post-upsert state with the batch
-    // excluded would treat an already-persisted workout as "new" on every retry
-    // (duplicate celebration + friend push). A true pre-upsert snapshot already
-    // contains that workout, so it won't look improved. Skipped on full syncs.
-    const preRaceRecords = isFullSync ? [] : await computeRaceRecords(userId);
-
-    const uploadedWorkoutIds = await uploadWorkoutsDb(userId, req.body);
-
-    // Refresh the precomputed streak so the streak leaderboard stays fresh.
-    // Fire-and-forget — recomputation reads ≤500 qualifying days for one
-    // user, so it's cheap, but blocking the response on it isn't worth it.
-    refreshCurrentStreak(userId).catch((err) =>
-      console.error("Error refreshing current_streak:", err.message),
-    );
+    const { uploadedWorkoutIds: _saved, ...result } =
+      await processWorkoutUpload(userId, req.body as Workout[], isFullSync);
 
-    // Streak tokens: detect a completed Double Down (missed yesterday, 2× goal
-    // today). Fire-and-forget and double-gated — instant no-op until the env
-    // switch is on AND this user enrolled via the new build.
-    reconcileStreakFeaturesOnUpload(userId).catch((err) =>
-      console.error("Error reconciling streak features:", err.message),
-    );
+    res.status(200).json({
+      message: "Successfully uploaded workouts.",
+      ...result,
+    });
+  } catch (error: any) {
+    console.error("Error uploading workouts:", error.message);
+    res
+      .status(500)
+      .json({ error: "Error uploading workouts: " + error.message });
+  }
+}
+
+/**
+ * POST /workouts/:userId/import — multipart, one `file` field (.gpx/.tcx/.fit).
+ *
+ * For runs logged on devices that never touch HealthKit. The file is parsed
+ * into the same `Workout` the iOS sync sends and goes through the same
+ * pipeline, so duplicate detection, feed roles, streaks, badges and
+ * competitions treat it exactly like a synced run. Optional fields:
+ * `timezoneOffset` (minutes east of UTC, decides the local day) and
+ * `workoutType` (running|walking, overrides the file). Re-importing the same
+ * file upserts the same workout.
+ */
+export async function importWorkout(req: AuthenticatedRequest, res: Response) {
+  if (!hasRequiredKeys(["userId"], req, res)) return;
 
-    // Buddy sessions: stamp the AUTHORITATIVE result now that the real workout
-    // has landed. The live distance a session showed was accumulated from
-    // 5-second reports and is display-only; this replaces it with the synced
-    // HKWorkout and re-ranks placements. Fire-and-forget, and a no-op for the
-    // overwhelming majority of uploads that aren't tied to a session.
-    reconcileBuddySessions(userId, uploadedWorkoutIds).catch((err) =>
-      console.error("Error reconciling buddy sessions:", err.message),
+  try {
+    const file = req.file;
+    if (!file) {
+      return res.status(400).json({ error: "file_required" });
+    }
+
+    const rawType = req.body?.workoutType;
+    if (
+      rawType !== undefined &&
+      rawType !== "running" &&
+      rawType !== "walking"
+    ) {
+      return res.status(400).json({ error: "invalid_workout_type" });
+    }
+    const rawOffset = req.body?.timezoneOffset;
+    const timezoneOffset =
+      rawOffset === undefined || rawOffset === ""
+        ? undefined
+        : Number(rawOffset);
+    // Real zones run UTC-12…UTC+14.
+    if (
+      timezoneOffset !== undefined &&
+      !(Number.isFinite(timezoneOffset) && Math.abs(timezoneOffset) <= 14 * 60)
+    ) {
+      return res.status(400).json({ error: "invalid_timezone_offset" });
+    }
+
+    const userId = req.params.userId;
+    const user = await getUser({ userId });
+    if (!user) {
+      return res.status(400).send({ error: `No user found with ID ${userId}` });
+    }
+
+    const workout = await parseWorkoutFile(
+      userId,
+      file.originalname,
+      file.buffer,
+      { timezoneOffset, workoutType: rawType },
     );
-    // Head-to-Head standings: tell whoever this upload just overtook (and the
-    // syncer, when they took the lead) while there's still a day left to
-    // answer. Skipped on the account-setup backfill and on pure history
-    // uploads — neither changes today's duel. Fire-and-forget: a duel push
-    // must never delay or fail a workout sync.
-    if (!isFullSync && hasRecentWorkout) {
-      notifyH2hLeadChanges(userId).catch((err) =>
-        console.error("Error notifying H2H lead change:", err.message),
-      );
+    const { uploadedWorkoutIds, ...result } = await processWorkoutUpload(
+      userId,
+      [workout],
+      false,
+    );
+    // The upsert drops an id another user already owns; a single-file import
+    // that lands nothing must not answer as if it had.
+    if (!uploadedWorkoutIds.includes(workout.workoutId)) {
+      return res.status(409).json({ error: "workout_not_saved" });
     }
 
-    try {
-      await checkRaceCompletions(userId);
-    } catch (raceError: any) {
-      console.error("Error checking race completions:", raceError.message);
+    res.status(200).json({
+      message: "Successfully imported workout.",
+      workout: {
+        workoutId: workout.workoutId,
+        distance: workout.distance,
+        totalDuration: workout.totalDuration,
+        localDate: workout.localDate,
+        workoutType: workout.workoutType,
+        splitCount: workout.splits.length,
+        hasRoute: (workout.route?.length ?? 0) >= 2,
+      },
+      ...result,
+    });
+  } catch (error: any) {
+    if (error instanceof BadRequestError) {
+      return res.status(400).json({ error: error.message });
     }
+    console.error("Error importing workout:", error.message);
+    res.status(500).json({ error: "Error importing workout" });
+  }
+}
 
-    // Evaluate badges + daily challenges AFTER the upload transaction committed.
-    // Kept inline (not fire-and-forget) so the response includes newly earned items.
-    let rewards = {
-      newlyEarnedBadges: [] as any[],
-      newChallengeCompletions: [] as any[],
-    };
-    try {
-      rewards = await evaluateWorkoutRewards(userId, uploadedWorkoutIds);
-    } catch (rewardError: any) {
-      console.error("Error evaluating workout rewards:", rewardError.message);
+/**
+ * Everything a workout upload sets in motion after validation: the upsert,
+ * streak/feature/buddy refreshes, rewards, friend pushes and PR detection.
+ * Shared by the HealthKit JSON sync and the GPX/TCX/FIT import, so an imported
+ * run counts toward streaks, badges and competitions exactly like a synced one.
+ * Returns the celebration payload the client renders from the response, plus
+ * the ids the upsert actually kept.
+ */
+async function processWorkoutUpload(
+  userId: string,
+  workouts: Workout[],
+  isFullSync: boolean,
+): Promise<{
+  uploadedWorkoutIds: string[];
+  newlyEarnedBadges: any[];
+  newChallengeCompletions: any[];
+  newRaceRecords: { distanceKey: string; durationSec: number }[];
+  trainingPlanCompleted: TrainingPlanCompletion | null;
+}> {
+  // A notification only fires for activity from the last 24 hours. An old or
+  // backdated workout (HealthKit can deliver backdated workouts; a manual log
+  // can be for a past day) must NOT notify anyone — not friends, and not the
+  // user for their own badge. We map each achievement back to the workout that
+  // triggered it and suppress its push when that workout is outside the window.
+  const recencyCutoffMs = Date.now() - 24 * 60 * 60 * 1000;
+  const recentWorkoutIds = new Set(
+    workouts
+      .filter((w) => {
+        const ts = Date.parse(w.deviceEndDate ?? w.date);
+        return Number.isFinite(ts) && ts >= recencyCutoffMs;
+      })
+      .map((w) => w.workoutId),
+  );
+  const hasRecentWorkout = recentWorkoutIds.size > 0;
+
+  // Snapshot race PRs BEFORE the upsert so a retried/idempotent re-upload
+  // doesn't re-fire a PR that was already recorded. The upsert is idempotent
+  // and the client retries, so comparing post-upsert state with the batch
+  // excluded would treat an already-persisted workout as "new" on every retry
+  // (duplicate celebration + friend push). A true pre-upsert snapshot already
+  // contains that workout, so it won't look improved. Skipped on full syncs.
+  const preRaceRecords = isFullSync ? [] : await computeRaceRecords(userId);
+
+  const uploadedWorkoutIds = await uploadWorkoutsDb(userId, workouts);
+
+  // Heatmap tiles are drawn from stored routes, so an upload that carried one
+  // (a new run, or the route re-push after finishRoute) drops the cache.
+  if (workouts.some((w) => Array.isArray(w.route) && w.route.length >= 2)) {
+    void invalidateHeatmap(userId);
+  }
+
+  // Refresh the precomputed streak so the streak leaderboard stays fresh.
+  // Fire-and-forget — recomputation reads ≤500 qualifying days for one
+  // user, so it's cheap, but blocking the response on it isn't worth it.
+  refreshCurrentStreak(userId).catch((err) =>
+    console.error("Error refreshing current_streak:", err.message),
+  );
+
+  // Streak tokens: detect a completed Double Down (missed yesterday, 2× goal
+  // today). Fire-and-forget and double-gated — instant no-op until the env
+  // switch is on AND this user enrolled via the new build.
+  reconcileStreakFeaturesOnUpload(userId).catch((err) =>
+    console.error("Error reconciling streak features:", err.message),
+  );
+
+  // Buddy sessions: stamp the AUTHORITATIVE result now that the real workout
+  // has landed. The live distance a session showed was accumulated from
+  // 5-second reports and is display-only; this replaces it with the synced
+  // HKWorkout and re-ranks placements. Fire-and-forget, and a no-op for the
+  // overwhelming majority of uploads that aren't tied to a session.
+  reconcileBuddySessions(userId, uploadedWorkoutIds).catch((err) =>
+    console.error("Error reconciling buddy sessions:", err.message),
+  );
+  // Outbound webhooks: one workout.uploaded per workout, the first time it
+  // lands (the event key dedupes the client's constant re-uploads). Not for
+  // the account-setup backfill — years of history is not an "upload" event
+  // anyone's Slack channel wants.
+  if (!isFullSync) {
+    const persisted = new Set(uploadedWorkoutIds);
+    for (const w of workouts) {
+      if (!persisted.has(w.workoutId)) continue;
+      void emitWebhookEvent(userId, "workout.uploaded", w.workoutId, {
+        workout_id: w.workoutId,
+        workout_type: w.workoutType,
+        distance_miles: w.distance,
+        total_duration_seconds: w.totalDuration,
+        local_date: w.localDate,
+        ended_at: w.deviceEndDate ?? w.date,
+      });
     }
+  }
 
-    // "Your ghost was caught" — only fires for a workout that raced a FRIEND's
-    // mile and won. Claim-stamped inside, so the constant re-uploads of the
-    // same workout can't re-push, and it never throws.
-    //
-    // Deliberately NOT awaited, unlike the rewards above: nothing in the sync
-    // response depends on it, and every workout upload would otherwise pay for
-    // a query plus a preference check plus an APNs round trip before the
-    // client hears back.
-    void notifyGhostsBeaten(userId, uploadedWorkoutIds);
-
-    // Check if user has now completed their mile and notify friends.
-    // Skipped on the initial account-setup backfill (isFullSync) and when this
-    // upload carried no workout from the last 24h (a pure backfill of old data).
-    if (!isFullSync && hasRecentWorkout) {
-      try {
-        const todayMiles = await getTodayMiles(userId);
-        // Same 0.95 tolerance as streak counting — a GPS 0.98-mile day that
-        // extends the streak must also fire the mile-completed notification.
-        if (todayMiles >= DAILY_GOAL_TOLERANCE) {
-          const milestoneFired = await notifyFriendsOfMileCompletion(
-            userId,
-          ).catch((err) => {
-            console.error("Error notifying friends:", err.message);
-            return false;
-          });
-          // If the mile was already completed before this upload, any new run/walk
-          // workouts in this batch are "extras" — fan out a per-workout notification,
-          // but only for the workouts that are themselves from the last 24h.
-          if (!milestoneFired) {
-            for (const w of req.body as Workout[]) {
-              if (
-                (w.workoutType === "running" || w.workoutType === "walking") &&
-                recentWorkoutIds.has(w.workoutId) &&
-                // Same floor the feed uses. Without it a 3-second phantom pushes
-                // "just logged an extra workout" to every friend and then leads
-                // them to a feed with no card for it.
-                isFeedWorthyWorkout(w.distance, w.totalDuration)
-              ) {
-                notifyFriendsOfExtraWorkout(userId, w.workoutId).catch((err) =>
-                  console.error("Error notifying extra workout:", err.message),
-                );
-              }
-            }
-          }
-        } else {
-          // Daily mile NOT yet met — pre-goal workout notifications. Opt-in:
-          // the default outgoing audience for 'workout' is 'none', so this
-          // sends nothing unless the user enabled it. The workout that later
-          // completes the mile takes the >= 1.0 branch (mile_completed only),
-          // so the two never double-fire for the same workout.
-          for (const w of req.body as Workout[]) {
+  // Head-to-Head standings: tell whoever this upload just overtook (and the
+  // syncer, when they took the lead) while there's still a day left to
+  // answer. Skipped on the account-setup backfill and on pure history
+  // uploads — neither changes today's duel. Fire-and-forget: a duel push
+  // must never delay or fail a workout sync.
+  if (!isFullSync && hasRecentWorkout) {
+    notifyH2hLeadChanges(userId).catch((err) =>
+      console.error("Error notifying H2H lead change:", err.message),
+    );
+  }
+
+  try {
+    await checkRaceCompletions(userId);
+  } catch (raceError: any) {
+    console.error("Error checking race completions:", raceError.message);
+  }
+
+  // Training plan: score the plan days these workouts fall on. Awaited so a
+  // race-day finish rides back in the response with the race record it set;
+  // never fails the upload.
+  let trainingPlanCompleted: TrainingPlanCompletion | null = null;
+  try {
+    trainingPlanCompleted = await matchTrainingPlanWorkouts(
+      userId,
+      uploadedWorkoutIds,
+    );
+  } catch (planError: any) {
+    console.error("Error matching training plan workouts:", planError.message);
+  }
+
+  // Evaluate badges + daily challenges AFTER the upload transaction committed.
+  // Kept inline (not fire-and-forget) so the response includes newly earned items.
+  let rewards = {
+    newlyEarnedBadges: [] as any[],
+    newChallengeCompletions: [] as any[],
+  };
+  try {
+    rewards = await evaluateWorkoutRewards(userId, uploadedWorkoutIds);
+  } catch (rewardError: any) {
+    console.error("Error evaluating workout rewards:", rewardError.message);
+  }
+
+  // "Your ghost was caught" — only fires for a workout that raced a FRIEND's
+  // mile and won. Claim-stamped inside, so the constant re-uploads of the
+  // same workout can't re-push, and it never throws.
+  //
+  // Deliberately NOT awaited, unlike the rewards above: nothing in the sync
+  // response depends on it, and every workout upload would otherwise pay for
+  // a query plus a preference check plus an APNs round trip before the
+  // client hears back.
+  void notifyGhostsBeaten(userId, uploadedWorkoutIds);
+
+  // Segment efforts: match the stored routes of these workouts against nearby
+  // segments. Not awaited for the same reason — nothing in the response needs
+  // it — and it never throws.
+  void matchSegmentEfforts(userId, uploadedWorkoutIds);
+
+  // Check if user has now completed their daily goal and notify friends.
+  // Skipped on the initial account-setup backfill (isFullSync) and when this
+  // upload carried no workout from the last 24h (a pure backfill of old data).
+  if (!isFullSync && hasRecentWorkout) {
+    try {
+      // Same goal rule as streak counting — a GPS 0.98-mile day that extends
+      // the streak must also fire the mile-completed notification.
+      const goal = await getDailyGoalStatus(userId);
+      if (goal.completed) {
+        const milestoneFired = await notifyFriendsOfMileCompletion(
+          userId,
+        ).catch((err) => {
+          console.error("Error notifying friends:", err.message);
+          return false;
+        });
+        // If the mile was already completed before this upload, any new run/walk
+        // workouts in this batch are "extras" — fan out a per-workout notification,
+        // but only for the workouts that are themselves from the last 24h.
+        if (!milestoneFired) {
+          for (const w of workouts) {
             if (
               (w.workoutType === "running" || w.workoutType === "walking") &&
+              recentWorkoutIds.has(w.workoutId) &&
+              // Same floor the feed uses. Without it a 3-second phantom pushes
+              // "just logged an extra workout" to every friend and then leads
+              // them to a feed with no card for it.
               isFeedWorthyWorkout(w.distance, w.totalDuration)
             ) {
-              notifyFriendsOfWorkout(userId, w.workoutId).catch((err) =>
-                console.error("Error notifying pre-goal workout:", err.message),
+              notifyFriendsOfExtraWorkout(userId, w.workoutId).catch((err) =>
+                console.error("Error notifying extra workout:", err.message),
               );
             }
           }
         }
-        // Competition lead changes + milestones run on every upload,
-        // regardless of whether the daily mile was completed.
-        (async () => {
-          const notifiedRecipients = new Map<string, number>();
-          await checkLeadChanges(userId, notifiedRecipients).catch((err) =>
-            console.error("Error checking lead changes:", err.message),
-          );
-          await checkCompetitionMilestones(userId, notifiedRecipients).catch(
-            (err) => console.error("Error checking milestones:", err.message),
-          );
-        })();
-      } catch (notifError: any) {
-        console.error("Error checking notifications:", notifError.message);
+      } else {
+        // Daily goal NOT yet met — pre-goal workout notifications. Opt-in:
+        // the default outgoing audience for 'workout' is 'none', so this
+        // sends nothing unless the user enabled it. The workout that later
+        // completes the goal takes the branch above (mile_completed only),
+        // so the two never double-fire for the same workout.
+        for (const w of workouts) {
+          if (
+            (w.workoutType === "running" || w.workoutType === "walking") &&
+            isFeedWorthyWorkout(w.distance, w.totalDuration)
+          ) {
+            notifyFriendsOfWorkout(userId, w.workoutId).catch((err) =>
+              console.error("Error notifying pre-goal workout:", err.message),
+            );
+          }
+        }
       }
+      // Competition lead changes + milestones run on every upload,
+      // regardless of whether the daily mile was completed.
+      (async () => {
+        const notifiedRecipients = new Map<string, number>();
+        await checkLeadChanges(userId, notifiedRecipients).catch((err) =>
+          console.error("Error checking lead changes:", err.message),
+        );
+        await checkCompetitionMilestones(userId, notifiedRecipients).catch(
+          (err) => console.error("Error checking milestones:", err.message),
+        );
+      })();
+    } catch (notifError: any) {
+      console.error("Error checking notifications:", notifError.message);
     }
+  }
 
-    // Fire badge + challenge push notifications (non-blocking). Each reward is
-    // attributed to the workout that triggered it: if that workout is outside the
-    // 24h window (e.g. a backfilled or manually-logged past run), NO push fires —
-    // not the user's own badge_earned, not the friend fan-out. Aggregate rewards
-    // with no single triggering workout fall back to "did this batch include any
-    // workout from the last 24h". Friend fan-outs are additionally gated by
-    // isFullSync so the setup backfill never notifies others.
-    for (const badge of rewards.newlyEarnedBadges) {
-      const fromRecentWorkout = badge.triggeringWorkoutId
-        ? recentWorkoutIds.has(badge.triggeringWorkoutId)
+  // Fire badge + challenge push notifications (non-blocking). Each reward is
+  // attributed to the workout that triggered it: if that workout is outside the
+  // 24h window (e.g. a backfilled or manually-logged past run), NO push fires —
+  // not the user's own badge_earned, not the friend fan-out. Aggregate rewards
+  // with no single triggering workout fall back to "did this batch include any
+  // workout from the last 24h". Friend fan-outs are additionally gated by
+  // isFullSync so the setup backfill never notifies others.
+  for (const badge of rewards.newlyEarnedBadges) {
+    const fromRecentWorkout = badge.triggeringWorkoutId
+      ? recentWorkoutIds.has(badge.triggeringWorkoutId)
+      : hasRecentWorkout;
+    if (!fromRecentWorkout) continue;
+    fireBadgeEarnedPush(userId, badge).catch((err) =>
+      console.error("Error firing badge_earned push:", err.message),
+    );
+    if (!isFullSync && badge.rarity !== "common") {
+      fanOutFriendBadgePush(userId, badge).catch((err) =>
+        console.error("Error fanning out friend_badge_earned:", err.message),
+      );
+    }
+  }
+  if (!isFullSync) {
+    for (const completion of rewards.newChallengeCompletions) {
+      const fromRecentWorkout = completion.completingWorkoutId
+        ? recentWorkoutIds.has(completion.completingWorkoutId)
         : hasRecentWorkout;
       if (!fromRecentWorkout) continue;
-      fireBadgeEarnedPush(userId, badge).catch((err) =>
-        console.error("Error firing badge_earned push:", err.message),
+      fanOutFriendChallengePush(userId, completion).catch((err) =>
+        console.error(
+          "Error fanning out friend_challenge_completed:",
+          err.message,
+        ),
       );
-      if (!isFullSync && badge.rarity !== "common") {
-        fanOutFriendBadgePush(userId, badge).catch((err) =>
-          console.error("Error fanning out friend_badge_earned:", err.message),
-        );
-      }
     }
-    if (!isFullSync) {
-      for (const completion of rewards.newChallengeCompletions) {
-        const fromRecentWorkout = completion.completingWorkoutId
-          ? recentWorkoutIds.has(completion.completingWorkoutId)
-          : hasRecentWorkout;
-        if (!fromRecentWorkout) continue;
-        fanOutFriendChallengePush(userId, completion).catch((err) =>
-          console.error(
-            "Error fanning out friend_challenge_completed:",
-            err.message,
-          ),
-        );
-      }
-    }
-
-    // PR detection: compare pre-upload PRs (excluding this batch) to post-upload PRs.
-    // Fan out one notification per dimension that improved — but only when the
-    // record was set TODAY (user's local date). Historical imports (e.g. a new
-    // account's initial HealthKit backfill) raise the all-time max too, and
-    // without this guard every backfill batch sprays bogus "new personal best"
-    // pushes at the user's friends. The full-sync guard skips this outright;
-    // the today-guard remains the backstop for normal syncs. Fire-and-forget.
-    if (!isFullSync)
-      (async () => {
-        try {
-          const [pre, post, userToday] = await Promise.all([
-            computePersonalRecords(userId, uploadedWorkoutIds),
-            computePersonalRecords(userId),
-            getUserLocalToday(userId),
-          ]);
-          const lastWorkoutId =
-            uploadedWorkoutIds[uploadedWorkoutIds.length - 1] ?? "";
-
-          if (
-            post.fastestSplitPaceSecMi > 0 &&
-            (pre.fastestSplitPaceSecMi === 0 ||
-              post.fastestSplitPaceSecMi < pre.fastestSplitPaceSecMi) &&
-            post.fastestSplitDate === userToday
-          ) {
-            fanOutFriendPersonalBestPush(
-              userId,
-              "fastest_mile",
-              post.fastestSplitPaceSecMi,
-              lastWorkoutId,
-            ).catch((err) =>
-              console.error(
-                "Error fanning out friend_personal_best (fastest_mile):",
-                err.message,
-              ),
-            );
-          }
-          if (
-            post.mostMilesInOneDay > pre.mostMilesInOneDay &&
-            post.bestDayDate === userToday
-          ) {
-            fanOutFriendPersonalBestPush(
-              userId,
-              "most_miles_day",
-              post.mostMilesInOneDay,
-              lastWorkoutId,
-            ).catch((err) =>
-              console.error(
-                "Error fanning out friend_personal_best (most_miles_day):",
-                err.message,
-              ),
-            );
-          }
-        } catch (err: any) {
-          console.error("Error detecting personal bests:", err.message);
-        }
-      })();
+  }
 
-    // Race-distance PR detection, computed SYNCHRONOUSLY so the improved records
-    // ride back in the response (`newRaceRecords`) for an immediate in-app "New
-    // PR!" celebration. `preRaceRecords` was snapshotted before the upsert (see
-    // above) so retries don't double-fire. The today-guard (achievedDate ===
-    // userToday) prevents a historical backfill from celebrating old runs; full
-    // syncs skip entirely. Errors here never fail the upload — PRs are a
-    // garnish, not the payload.
-    let newRaceRecords: { distanceKey: string; durationSec: number }[] = [];
-    if (!isFullSync) {
+  // PR detection: compare pre-upload PRs (excluding this batch) to post-upload PRs.
+  // Fan out one notification per dimension that improved — but only when the
+  // record was set TODAY (user's local date). Historical imports (e.g. a new
+  // account's initial HealthKit backfill) raise the all-time max too, and
+  // without this guard every backfill batch sprays bogus "new personal best"
+  // pushes at the user's friends. The full-sync guard skips this outright;
+  // the today-guard remains the backstop for normal syncs. Fire-and-forget.
+  if (!isFullSync)
+    (async () => {
       try {
-        const [postRace, userToday] = await Promise.all([
-          computeRaceRecords(userId),
+        const [pre, post, userToday] = await Promise.all([
+          computePersonalRecords(userId, uploadedWorkoutIds),
+          computePersonalRecords(userId),
           getUserLocalToday(userId),
         ]);
-        const prevByKey = new Map(
-          preRaceRecords.map((r) => [r.distanceKey, r.durationSec]),
-        );
-        for (const rec of postRace) {
-          const prev = prevByKey.get(rec.distanceKey);
-          const improved = prev === undefined || rec.durationSec < prev;
-          if (improved && rec.achievedDate === userToday) {
-            newRaceRecords.push({
-              distanceKey: rec.distanceKey,
-              durationSec: rec.durationSec,
-            });
-            fanOutFriendRacePrPush(
-              userId,
-              rec.distanceKey,
-              rec.durationSec,
-              rec.workoutId,
-            ).catch((err) =>
-              console.error("Error fanning out friend_race_pr:", err.message),
-            );
-          }
+        const lastWorkoutId =
+          uploadedWorkoutIds[uploadedWorkoutIds.length - 1] ?? "";
+
+        if (
+          post.fastestSplitPaceSecMi > 0 &&
+          (pre.fastestSplitPaceSecMi === 0 ||
+            post.fastestSplitPaceSecMi < pre.fastestSplitPaceSecMi) &&
+          post.fastestSplitDate === userToday
+        ) {
+          fanOutFriendPersonalBestPush(
+            userId,
+            "fastest_mile",
+            post.fastestSplitPaceSecMi,
+            lastWorkoutId,
+          ).catch((err) =>
+            console.error(
+              "Error fanning out friend_personal_best (fastest_mile):",
+              err.message,
+            ),
+          );
+        }
+        if (
+          post.mostMilesInOneDay > pre.mostMilesInOneDay &&
+          post.bestDayDate === userToday
+        ) {
+          fanOutFriendPersonalBestPush(
+            userId,
+            "most_miles_day",
+            post.mostMilesInOneDay,
+            lastWorkoutId,
+          ).catch((err) =>
+            console.error(
+              "Error fanning out friend_personal_best (most_miles_day):",
+              err.message,
+            ),
+          );
         }
       } catch (err: any) {
-        console.error("Error detecting race PRs:", err.message);
+        console.error("Error detecting personal bests:", err.message);
+      }
+    })();
+
+  // Race-distance PR detection, computed SYNCHRONOUSLY so the improved records
+  // ride back in the response (`newRaceRecords`) for an immediate in-app "New
+  // PR!" celebration. `preRaceRecords` was snapshotted before the upsert (see
+  // above) so retries don't double-fire. The today-guard (achievedDate ===
+  // userToday) prevents a historical backfill from celebrating old runs; full
+  // syncs skip entirely. Errors here never fail the upload — PRs are a
+  // garnish, not the payload.
+  let newRaceRecords: { distanceKey: string; durationSec: number }[] = [];
+  if (!isFullSync) {
+    try {
+      const [postRace, userToday] = await Promise.all([
+        computeRaceRecords(userId),
+        getUserLocalToday(userId),
+      ]);
+      const prevByKey = new Map(
+        preRaceRecords.map((r) => [r.distanceKey, r.durationSec]),
+      );
+      for (const rec of postRace) {
+        const prev = prevByKey.get(rec.distanceKey);
+        const improved = prev === undefined || rec.durationSec < prev;
+        if (improved && rec.achievedDate === userToday) {
+          newRaceRecords.push({
+            distanceKey: rec.distanceKey,
+            durationSec: rec.durationSec,
+          });
+          fanOutFriendRacePrPush(
+            userId,
+            rec.distanceKey,
+            rec.durationSec,
+            rec.workoutId,
+          ).catch((err) =>
+            console.error("Error fanning out friend_race_pr:", err.message),
+          );
+        }
       }
+    } catch (err: any) {
+      console.error("Error detecting race PRs:", err.message);
     }
-
-    res.status(200).json({
-      message: "Successfully uploaded workouts.",
-      newlyEarnedBadges: rewards.newlyEarnedBadges,
-      newChallengeCompletions: rewards.newChallengeCompletions,
-      newRaceRecords,
-    });
-  } catch (error: any) {
-    console.error("Error uploading workouts:", error.message);
-    res
-      .status(500)
-      .json({ error: "Error uploading workouts: " + error.message });
   }
+
+  return {
+    uploadedWorkoutIds,
+    newlyEarnedBadges: rewards.newlyEarnedBadges,
+    newChallengeCompletions: rewards.newChallengeCompletions,
+    newRaceRecords,
+    trainingPlanCompleted,
+  };
 }
 
 export async function getStreak(req: Request, res: Response) {
@@ -693,6 +863,51 @@ export async function getUserRoutesController(req: Request, res: Response) {
   }
 }
 
+/**
+ * GET /workouts/:userId/heatmap — zoom range, bounds and cache version for the
+ * tiled personal heatmap. Self-only, like the raw route dump it replaces.
+ */
+export async function getHeatmapInfoController(req: Request, res: Response) {
+  if (!hasRequiredKeys(["userId"], req, res)) return;
+
+  try {
+    const heatmap = await getHeatmapInfo(req.params.userId);
+    return res.status(200).json({ heatmap });
+  } catch (error: any) {
+    console.error("Error getting heatmap info:", error.message);
+    res.status(500).json({ error: "Error getting heatmap info" });
+  }
+}
+
+/**
+ * GET /workouts/:userId/heatmap/:z/:x/:y(.png) — one 256px PNG tile, or 204
+ * where the user has never been. Clients add `?v=<version>` from the info
+ * endpoint, which is what lets the long cache lifetime here be safe.
+ */
+export async function getHeatmapTileController(req: Request, res: Response) {
+  if (!hasRequiredKeys(["userId"], req, res)) return;
+
+  const y = /^(\d+)(\.png)?$/.exec(String(req.params.y));
+  try {
+    const png = await getHeatmapTile(
+      req.params.userId,
+      Number(req.params.z),
+      Number(req.params.x),
+      y ? Number(y[1]) : NaN,
+    );
+    if (!png) return res.status(204).end();
+    res.setHeader("Content-Type", "image/png");
+    res.setHeader("Cache-Control", "private, max-age=86400");
+    return res.status(200).send(png);
+  } catch (error: any) {
+    if (error instanceof BadRequestError) {
+      return res.status(400).json({ error: error.message });
+    }
+    console.error("Error rendering heatmap tile:", error.message);
+    res.status(500).json({ error: "Error rendering heatmap tile" });
+  }
+}
+
 export async function getUserStats(req: AuthenticatedRequest, res: Response) {
   if (!hasRequiredKeys(["userId"], req, res)) return;
 
@@ -729,8 +944,11 @@ export async function getUserStats(req: AuthenticatedRequest, res: Response) {
       getLast7DayMiles(userId),
     ]);
 
-    // Default goal miles is 1.0 (can be updated when user preferences are stored)
-    const goal_miles = 1.0;
+    // goal_miles stays for older clients: the distance goal, or the default
+    // mile when today's goal is minutes or steps. daily_goal says which.
+    const daily_goal = await getCurrentDailyGoal(userId);
+    const goal_miles =
+      daily_goal.goal_type === "distance" ? daily_goal.target : 1.0;
 
     // Streak tokens: null (→ field omitted, JSON byte-identical to today)
     // unless the env switch is on AND this user enrolled via the new build.
@@ -750,6 +968,7 @@ export async function getUserStats(req: AuthenticatedRequest, res: Response) {
       today_miles,
       last_7_day_miles,
       goal_miles,
+      daily_goal,
       // Additive. Ratcheted column, floored at the live streak so a fresh
       // record never reads stale; pre-backfill rows (0) degrade to the streak.
       longest_streak: Math.max(Number(user.longest_streak ?? 0), streak),
@@ -1,29 +1,33 @@
 import cron from 'node-cron';
 import { resolveExpiredCompetitions } from '../services/competitionService.js';
+import { retryStalledEditions } from '../services/competitionTemplateService.js';
 
 export function startCompetitionCron(): void {
-	// Competition resolution itself runs at midnight ET so finished comps
-	// transition state on the correct calendar day. The user-visible
-	// "competition_finished" pushes that fall out of this are already routed
-	// through sendOrQueueCompetitionNotification, which queues them during
-	// quiet hours and they get flushed by the 9 AM notification cron.
+	// Competition resolution runs at each competition's own midnight: the job
+	// ticks hourly and resolveExpiredCompetitions only picks up competitions
+	// whose timezone has just rolled into hour 0, so finished comps transition
+	// state on the correct calendar day. That midnight is the competition's,
+	// not each participant's, so the "competition_finished" pushes go through
+	// sendOrQueueCompetitionNotification, which holds them per recipient (their
+	// quiet hours or snooze, else overnight on their own clock) for the hourly
+	// :05 catch-up in the notification cron.
 	// Clash tie detection moved to the 9 AM notification cron alongside the
 	// other overnight-result notifications.
-	cron.schedule(
-		'0 0 * * *',
-		async () => {
-			console.log('[CRON] Running competition resolution...');
-			try {
-				await resolveExpiredCompetitions();
-				console.log('[CRON] Competition resolution complete.');
-			} catch (error: any) {
-				console.error('[CRON] Error resolving competitions:', error.message);
-			}
-		},
-		{
-			timezone: 'America/New_York'
+	cron.schedule('0 * * * *', async () => {
+		console.log('[CRON] Running competition resolution...');
+		try {
+			await resolveExpiredCompetitions({ localMidnightOnly: true });
+			console.log('[CRON] Competition resolution complete.');
+		} catch (error: any) {
+			console.error('[CRON] Error resolving competitions:', error.message);
 		}
-	);
+		// A recurring series whose next edition failed to spawn is retried here.
+		try {
+			await retryStalledEditions();
+		} catch (error: any) {
+			console.error('[CRON] Error retrying competition editions:', error.message);
+		}
+	});
 
-	console.log('Competition cron job scheduled (midnight ET).');
+	console.log('Competition cron job scheduled (hourly, local midnight per competition).');
 }
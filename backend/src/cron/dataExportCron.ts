@@ -0,0 +1,18 @@
+import cron from "node-cron";
+import { sweepDataExports } from "../services/dataExportService.js";
+
+/**
+ * Account export housekeeping, every 5 minutes: builds any export a restart
+ * orphaned, expires finished archives and deletes their files. New requests
+ * don't wait for this — they start building on the request path.
+ */
+export function startDataExportCron(): void {
+  cron.schedule("*/5 * * * *", async () => {
+    try {
+      await sweepDataExports();
+    } catch (err: any) {
+      console.error("[DataExportCron] sweep failed:", err?.message ?? err);
+    }
+  });
+  console.log("[DataExportCron] Scheduled export sweep (every 5 minutes).");
+}
@@ -8,6 +8,7 @@ import {
  * Head-to-Head daily-challenge lifecycle:
  *  - resolveDueMatchups: scores each duel once BOTH users' local day is over
  *    (+ grace for late HealthKit syncs) and awards the winner's completion.
+ *    Accepted rematches are scored on the same pass.
  *  - notifyPendingWinners: sends the "you won" push during the winner's local
  *    daytime instead of at the small-hours scoring moment.
  * Hourly so each timezone is picked up shortly after its own cutoffs pass;
@@ -1,6 +1,7 @@
 import cron from "node-cron";
 import {
   flushBatchedNotifications,
+  flushDigestNotifications,
   cleanupNotificationLogs,
 } from "../services/pushNotificationService.js";
 import {
@@ -19,9 +20,11 @@ import { sendPendingFriendRequestReminders } from "../services/friendRequestRemi
 export function startNotificationCron(): void {
   // All "overnight result" notifications fire together at 9 AM ET so users
   // aren't woken at midnight. This covers:
-  //   - flushBatchedNotifications: drains competition_finished pushes queued
-  //     by the midnight resolveExpiredCompetitions job (via
-  //     sendOrQueueCompetitionNotification's quiet-hours queue)
+  //   - flushBatchedNotifications: drains rows the daily cap parked, plus any
+  //     held rows whose owner's night is over. Users still in their own quiet
+  //     hours are left for the hourly :05 catch-up, which is also what sends
+  //     the competition_finished pushes held per recipient by
+  //     sendOrQueueCompetitionNotification
   //   - checkClashTies: end-of-day tie detection (was midnight)
   //   - checkStreaksBroken + checkStreakLifeLoss + checkTargetMissed: yesterday-
   //     was-a-miss notifications (was 12:05 AM)
@@ -119,11 +122,29 @@ export function startNotificationCron(): void {
     }
   });
 
+  // Every hour at :05 — first the catch-up flush for users whose own quiet
+  // hours or snooze held their rows past the 9 AM run, then activity digests
+  // for users on digest_mode hourly, and daily ones for users whose local hour
+  // matches their digest_hour. Minute 5 keeps them off the :00 reminder run.
+  // Per-user TZ filtering is in the SQL.
+  cron.schedule("5 * * * *", async () => {
+    try {
+      await flushBatchedNotifications({ heldOnly: true });
+    } catch (error: any) {
+      console.error("[CRON] Error flushing held notifications:", error.message);
+    }
+    try {
+      await flushDigestNotifications();
+    } catch (error: any) {
+      console.error("[CRON] Error sending activity digests:", error.message);
+    }
+  });
+
   // Every hour at :35 — remind users about friend requests they've left
   // unanswered for >24h. Reaches only devices declaring `friend_request_v2`,
   // and stops entirely on FRIEND_REQUEST_REMINDERS_DISABLED=true; see
   // friendRequestFeatures.ts and clientFeatures.ts. Minute 35 is
-  // clear of the other hourly jobs (:00 daily reminders, :10 streak features,
+  // clear of the other hourly jobs (:00 daily reminders, :05 digests, :10 streak features,
   // :20 h2h, :50 weekly recap). Per-user TZ + cooldown filtering is in the SQL.
   cron.schedule("35 * * * *", async () => {
     try {
@@ -0,0 +1,30 @@
+import cron from "node-cron";
+import {
+  drainWebhookDeliveries,
+  pruneWebhookDeliveries,
+} from "../services/webhookService.js";
+
+/**
+ * Outbound webhooks. Every minute: retry whatever has come due (new events are
+ * already delivered the moment they're queued; this is the backoff schedule and
+ * the restart backstop). Daily: trim the delivery log.
+ */
+export function startWebhookCron(): void {
+  cron.schedule("* * * * *", async () => {
+    try {
+      await drainWebhookDeliveries();
+    } catch (err: any) {
+      console.error("[WebhookCron] drain failed:", err?.message ?? err);
+    }
+  });
+  cron.schedule("40 4 * * *", async () => {
+    try {
+      await pruneWebhookDeliveries();
+    } catch (err: any) {
+      console.error("[WebhookCron] prune failed:", err?.message ?? err);
+    }
+  });
+  console.log(
+    "[WebhookCron] Scheduled webhook delivery drain (every minute) and log prune (daily).",
+  );
+}
@@ -1,5 +1,6 @@
 import { Client } from "pg";
 import { streakFeaturesGloballyEnabled } from "../services/streakFeatureCore.js";
+import { qualifyingDaysSql } from "../services/dailyGoalService.js";
 
 /**
  * One-time fill of `users.longest_streak` from each user's full workout
@@ -32,18 +33,16 @@ const INDEX_NAME = "idx_users_longest_streak_desc";
  * writes can never be regressed by this).
  *
  * The gaps-and-islands grouping mirrors streakEndingAt (streakFeatureCore),
- * and the qualifying-day rule is the walks' own: SUM(distance) >= 0.95 over
- * non-deleted, non-excluded workouts. Coverage days are UNIONed in only for
- * enrolled users while the feature is globally on — the same gate
- * coverageActiveFor applies to the live walks, so token-covered days count
- * for exactly the users whose streaks count them.
+ * and the qualifying-day rule is the walks' own (`qualifyingDaysSql`: the
+ * daily goal in force on each day, over non-deleted, non-excluded workouts).
+ * Coverage days are UNIONed in only for enrolled users while the feature is
+ * globally on — the same gate coverageActiveFor applies to the live walks, so
+ * token-covered days count for exactly the users whose streaks count them.
  */
 function longestRunUpdateSql(includeCoverage: boolean): string {
   return `
 WITH days AS (
-	SELECT local_date FROM workouts
-	WHERE user_id = $1 AND deleted_at IS NULL AND exclusion_reason IS NULL
-	GROUP BY local_date HAVING SUM(distance) >= 0.95
+	SELECT q.local_date FROM (${qualifyingDaysSql("$1")}) q
 	${includeCoverage ? "UNION\n\tSELECT local_date FROM streak_coverage WHERE user_id = $1" : ""}
 ),
 numbered AS (
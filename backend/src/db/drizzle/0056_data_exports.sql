@@ -0,0 +1,18 @@
+CREATE TABLE "data_exports" (
+	"export_id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"user_id" text NOT NULL,
+	"status" text DEFAULT 'pending' NOT NULL,
+	"file_path" text,
+	"size_bytes" integer,
+	"manifest" jsonb,
+	"error" text,
+	"requested_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"started_at" timestamp with time zone,
+	"completed_at" timestamp with time zone,
+	"expires_at" timestamp with time zone,
+	CONSTRAINT "data_exports_status_check" CHECK (status = ANY (ARRAY['pending'::text, 'running'::text, 'ready'::text, 'failed'::text, 'expired'::text]))
+);
+--> statement-breakpoint
+ALTER TABLE "data_exports" ADD CONSTRAINT "data_exports_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "public"."users"("user_id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "idx_data_exports_user" ON "data_exports" USING btree ("user_id","requested_at" DESC NULLS FIRST);--> statement-breakpoint
+CREATE INDEX "idx_data_exports_pending" ON "data_exports" USING btree ("requested_at") WHERE (status = ANY (ARRAY['pending'::text, 'running'::text]));
\ No newline at end of file
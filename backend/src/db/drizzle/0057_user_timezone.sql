@@ -0,0 +1,2 @@
+ALTER TABLE "competitions" ADD COLUMN "timezone" varchar(64) DEFAULT 'America/New_York' NOT NULL;--> statement-breakpoint
+ALTER TABLE "users" ADD COLUMN "timezone" varchar(64);
\ No newline at end of file
@@ -0,0 +1,2 @@
+ALTER TABLE "competitions" DROP CONSTRAINT "competitions_type_check";--> statement-breakpoint
+ALTER TABLE "competitions" ADD CONSTRAINT "competitions_type_check" CHECK ((type)::text = ANY ((ARRAY['streaks'::character varying, 'apex'::character varying, 'clash'::character varying, 'targets'::character varying, 'race'::character varying, 'elimination'::character varying])::text[]));
\ No newline at end of file
@@ -0,0 +1,23 @@
+CREATE TABLE "competition_templates" (
+	"id" varchar(32) PRIMARY KEY DEFAULT replace((gen_random_uuid())::text, '-'::text, ''::text) NOT NULL,
+	"owner" text NOT NULL,
+	"competition_name" varchar(100) NOT NULL,
+	"type" varchar(20) NOT NULL,
+	"workouts" jsonb NOT NULL,
+	"options" jsonb NOT NULL,
+	"teams" jsonb,
+	"invite_user_ids" text[] DEFAULT '{}'::text[] NOT NULL,
+	"recurrence" text DEFAULT 'none' NOT NULL,
+	"is_active" boolean DEFAULT true NOT NULL,
+	"edition_count" integer DEFAULT 0 NOT NULL,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"updated_at" timestamp with time zone DEFAULT now() NOT NULL,
+	CONSTRAINT "competition_templates_recurrence_check" CHECK (recurrence = ANY (ARRAY['none'::text, 'weekly'::text, 'monthly'::text]))
+);
+--> statement-breakpoint
+ALTER TABLE "competitions" ADD COLUMN "template_id" varchar(32);--> statement-breakpoint
+ALTER TABLE "competitions" ADD COLUMN "edition" integer;--> statement-breakpoint
+ALTER TABLE "competition_templates" ADD CONSTRAINT "competition_templates_owner_fkey" FOREIGN KEY ("owner") REFERENCES "public"."users"("user_id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "idx_competition_templates_owner" ON "competition_templates" USING btree ("owner");--> statement-breakpoint
+ALTER TABLE "competitions" ADD CONSTRAINT "competitions_template_id_fkey" FOREIGN KEY ("template_id") REFERENCES "public"."competition_templates"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "competitions" ADD CONSTRAINT "competitions_template_edition" UNIQUE("template_id","edition");
\ No newline at end of file
@@ -0,0 +1,37 @@
+CREATE TABLE "competition_season_members" (
+	"season_id" varchar(32) NOT NULL,
+	"user_id" text NOT NULL,
+	"joined_at" timestamp with time zone DEFAULT now() NOT NULL,
+	CONSTRAINT "competition_season_members_pkey" PRIMARY KEY("season_id","user_id")
+);
+--> statement-breakpoint
+CREATE TABLE "competition_season_points" (
+	"season_id" varchar(32) NOT NULL,
+	"competition_id" varchar(32) NOT NULL,
+	"user_id" text NOT NULL,
+	"placement" integer NOT NULL,
+	"participant_count" integer NOT NULL,
+	"points" integer NOT NULL,
+	"awarded_at" timestamp with time zone DEFAULT now() NOT NULL,
+	CONSTRAINT "competition_season_points_pkey" PRIMARY KEY("season_id","competition_id","user_id")
+);
+--> statement-breakpoint
+CREATE TABLE "competition_seasons" (
+	"id" varchar(32) PRIMARY KEY DEFAULT replace((gen_random_uuid())::text, '-'::text, ''::text) NOT NULL,
+	"owner" text NOT NULL,
+	"name" varchar(100) NOT NULL,
+	"start_date" date NOT NULL,
+	"end_date" date NOT NULL,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"updated_at" timestamp with time zone DEFAULT now() NOT NULL,
+	CONSTRAINT "competition_seasons_window_check" CHECK (end_date >= start_date)
+);
+--> statement-breakpoint
+ALTER TABLE "competition_season_members" ADD CONSTRAINT "competition_season_members_season_id_fkey" FOREIGN KEY ("season_id") REFERENCES "public"."competition_seasons"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "competition_season_members" ADD CONSTRAINT "competition_season_members_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "public"."users"("user_id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "competition_season_points" ADD CONSTRAINT "competition_season_points_season_id_fkey" FOREIGN KEY ("season_id") REFERENCES "public"."competition_seasons"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "competition_season_points" ADD CONSTRAINT "competition_season_points_competition_id_fkey" FOREIGN KEY ("competition_id") REFERENCES "public"."competitions"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "competition_season_points" ADD CONSTRAINT "competition_season_points_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "public"."users"("user_id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "competition_seasons" ADD CONSTRAINT "competition_seasons_owner_fkey" FOREIGN KEY ("owner") REFERENCES "public"."users"("user_id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "idx_competition_season_members_user" ON "competition_season_members" USING btree ("user_id");--> statement-breakpoint
+CREATE INDEX "idx_competition_season_points_user" ON "competition_season_points" USING btree ("season_id","user_id");
\ No newline at end of file
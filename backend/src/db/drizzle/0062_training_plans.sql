@@ -0,0 +1,26 @@
+CREATE TABLE "training_plan_days" (
+	"enrollment_id" varchar(32) NOT NULL,
+	"day_index" integer NOT NULL,
+	"distance_miles" double precision NOT NULL,
+	"duration_sec" double precision NOT NULL,
+	"met" boolean NOT NULL,
+	"updated_at" timestamp with time zone DEFAULT now() NOT NULL,
+	CONSTRAINT "training_plan_days_pkey" PRIMARY KEY("enrollment_id","day_index")
+);
+--> statement-breakpoint
+CREATE TABLE "training_plan_enrollments" (
+	"id" varchar(32) PRIMARY KEY DEFAULT replace((gen_random_uuid())::text, '-'::text, ''::text) NOT NULL,
+	"user_id" text NOT NULL,
+	"plan_key" text NOT NULL,
+	"start_date" date NOT NULL,
+	"status" text DEFAULT 'active' NOT NULL,
+	"completed_at" timestamp with time zone,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"updated_at" timestamp with time zone DEFAULT now() NOT NULL,
+	CONSTRAINT "training_plan_enrollments_status_check" CHECK (status = ANY (ARRAY['active'::text, 'completed'::text, 'abandoned'::text]))
+);
+--> statement-breakpoint
+ALTER TABLE "training_plan_days" ADD CONSTRAINT "training_plan_days_enrollment_id_fkey" FOREIGN KEY ("enrollment_id") REFERENCES "public"."training_plan_enrollments"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "training_plan_enrollments" ADD CONSTRAINT "training_plan_enrollments_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "public"."users"("user_id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE UNIQUE INDEX "training_plan_enrollments_one_active" ON "training_plan_enrollments" USING btree ("user_id") WHERE (status = 'active'::text);--> statement-breakpoint
+CREATE INDEX "idx_training_plan_enrollments_user" ON "training_plan_enrollments" USING btree ("user_id","created_at" DESC NULLS FIRST);
\ No newline at end of file
@@ -0,0 +1,26 @@
+CREATE TABLE "moderation_actions" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"moderator_id" text,
+	"action" text NOT NULL,
+	"target_type" text NOT NULL,
+	"target_id" text NOT NULL,
+	"subject_user_id" text,
+	"note" text,
+	"reports_closed" integer DEFAULT 0 NOT NULL,
+	"snapshot" jsonb,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	CONSTRAINT "moderation_actions_action_check" CHECK (action = ANY (ARRAY['hide'::text, 'restore'::text, 'remove'::text, 'warn'::text, 'suspend'::text, 'resolve'::text, 'dismiss'::text])),
+	CONSTRAINT "moderation_actions_target_type_check" CHECK (target_type = ANY (ARRAY['post'::text, 'comment'::text]))
+);
+--> statement-breakpoint
+ALTER TABLE "comment_reports" ADD COLUMN "resolved_by" text;--> statement-breakpoint
+ALTER TABLE "comment_reports" ADD COLUMN "resolved_at" timestamp with time zone;--> statement-breakpoint
+ALTER TABLE "post_reports" ADD COLUMN "resolved_by" text;--> statement-breakpoint
+ALTER TABLE "post_reports" ADD COLUMN "resolved_at" timestamp with time zone;--> statement-breakpoint
+ALTER TABLE "moderation_actions" ADD CONSTRAINT "moderation_actions_moderator_id_fkey" FOREIGN KEY ("moderator_id") REFERENCES "public"."users"("user_id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "moderation_actions" ADD CONSTRAINT "moderation_actions_subject_user_id_fkey" FOREIGN KEY ("subject_user_id") REFERENCES "public"."users"("user_id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "idx_moderation_actions_target" ON "moderation_actions" USING btree ("target_type","target_id","created_at" DESC NULLS FIRST);--> statement-breakpoint
+CREATE INDEX "idx_moderation_actions_subject" ON "moderation_actions" USING btree ("subject_user_id","created_at" DESC NULLS FIRST);--> statement-breakpoint
+CREATE INDEX "idx_moderation_actions_created" ON "moderation_actions" USING btree ("created_at" DESC NULLS FIRST);--> statement-breakpoint
+ALTER TABLE "comment_reports" ADD CONSTRAINT "comment_reports_resolved_by_fkey" FOREIGN KEY ("resolved_by") REFERENCES "public"."users"("user_id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "post_reports" ADD CONSTRAINT "post_reports_resolved_by_fkey" FOREIGN KEY ("resolved_by") REFERENCES "public"."users"("user_id") ON DELETE set null ON UPDATE no action;
\ No newline at end of file
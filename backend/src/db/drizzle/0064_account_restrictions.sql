@@ -0,0 +1,20 @@
+CREATE TABLE "user_restrictions" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"user_id" text NOT NULL,
+	"kind" text NOT NULL,
+	"reason" text NOT NULL,
+	"expires_at" timestamp with time zone,
+	"created_by" text,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"lifted_at" timestamp with time zone,
+	"lifted_by" text,
+	"lift_reason" text,
+	CONSTRAINT "user_restrictions_kind_check" CHECK (kind = ANY (ARRAY['suspension'::text, 'shadow_ban'::text]))
+);
+--> statement-breakpoint
+ALTER TABLE "user_restrictions" ADD CONSTRAINT "user_restrictions_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "public"."users"("user_id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "user_restrictions" ADD CONSTRAINT "user_restrictions_created_by_fkey" FOREIGN KEY ("created_by") REFERENCES "public"."users"("user_id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "user_restrictions" ADD CONSTRAINT "user_restrictions_lifted_by_fkey" FOREIGN KEY ("lifted_by") REFERENCES "public"."users"("user_id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE UNIQUE INDEX "uq_user_restrictions_current" ON "user_restrictions" USING btree ("user_id","kind") WHERE (lifted_at IS NULL);--> statement-breakpoint
+CREATE INDEX "idx_user_restrictions_kind_current" ON "user_restrictions" USING btree ("kind","user_id") WHERE (lifted_at IS NULL);--> statement-breakpoint
+CREATE INDEX "idx_user_restrictions_user" ON "user_restrictions" USING btree ("user_id","created_at" DESC NULLS FIRST);
\ No newline at end of file
@@ -0,0 +1,26 @@
+CREATE TABLE "screening_rules" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"kind" text NOT NULL,
+	"pattern" text NOT NULL,
+	"reason" text NOT NULL,
+	"action" text DEFAULT 'flag' NOT NULL,
+	"note" text,
+	"created_by" text,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	CONSTRAINT "screening_rules_kind_check" CHECK (kind = ANY (ARRAY['keyword'::text, 'regex'::text, 'image_hash'::text])),
+	CONSTRAINT "screening_rules_action_check" CHECK (action = ANY (ARRAY['flag'::text, 'hold'::text])),
+	CONSTRAINT "screening_rules_reason_check" CHECK (reason = ANY (ARRAY['spam'::text, 'nudity'::text, 'harassment'::text, 'violence'::text, 'other'::text]))
+);
+--> statement-breakpoint
+ALTER TABLE "moderation_actions" DROP CONSTRAINT "moderation_actions_action_check";--> statement-breakpoint
+ALTER TABLE "comment_reports" ALTER COLUMN "reporter_id" DROP NOT NULL;--> statement-breakpoint
+ALTER TABLE "post_reports" ALTER COLUMN "reporter_id" DROP NOT NULL;--> statement-breakpoint
+ALTER TABLE "comment_reports" ADD COLUMN "source" text DEFAULT 'user' NOT NULL;--> statement-breakpoint
+ALTER TABLE "post_comments" ADD COLUMN "held_at" timestamp with time zone;--> statement-breakpoint
+ALTER TABLE "post_reports" ADD COLUMN "source" text DEFAULT 'user' NOT NULL;--> statement-breakpoint
+ALTER TABLE "posts" ADD COLUMN "held_at" timestamp with time zone;--> statement-breakpoint
+ALTER TABLE "screening_rules" ADD CONSTRAINT "screening_rules_created_by_fkey" FOREIGN KEY ("created_by") REFERENCES "public"."users"("user_id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE UNIQUE INDEX "uq_screening_rules_kind_pattern" ON "screening_rules" USING btree ("kind","pattern");--> statement-breakpoint
+ALTER TABLE "comment_reports" ADD CONSTRAINT "comment_reports_source_check" CHECK ((source = 'user' AND reporter_id IS NOT NULL) OR (source = 'screening' AND reporter_id IS NULL));--> statement-breakpoint
+ALTER TABLE "moderation_actions" ADD CONSTRAINT "moderation_actions_action_check" CHECK (action = ANY (ARRAY['hide'::text, 'restore'::text, 'remove'::text, 'warn'::text, 'suspend'::text, 'resolve'::text, 'dismiss'::text, 'approve'::text]));--> statement-breakpoint
+ALTER TABLE "post_reports" ADD CONSTRAINT "post_reports_source_check" CHECK ((source = 'user' AND reporter_id IS NOT NULL) OR (source = 'screening' AND reporter_id IS NULL));
\ No newline at end of file
@@ -0,0 +1,3 @@
+ALTER TABLE "workouts" ADD COLUMN "ghost_source_workout_id" varchar(255);--> statement-breakpoint
+ALTER TABLE "workouts" ADD COLUMN "ghost_distance" double precision;--> statement-breakpoint
+ALTER TABLE "workouts" ADD COLUMN "ghost_split_margins" jsonb;
\ No newline at end of file
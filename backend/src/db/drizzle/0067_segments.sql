@@ -0,0 +1,34 @@
+CREATE TABLE "segment_efforts" (
+	"id" bigserial PRIMARY KEY NOT NULL,
+	"segment_id" uuid NOT NULL,
+	"workout_id" varchar(255) NOT NULL,
+	"user_id" text NOT NULL,
+	"elapsed_seconds" double precision NOT NULL,
+	"local_date" date NOT NULL,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	CONSTRAINT "segment_efforts_segment_workout_key" UNIQUE("segment_id","workout_id")
+);
+--> statement-breakpoint
+CREATE TABLE "segments" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"creator_id" text NOT NULL,
+	"name" text NOT NULL,
+	"start_lat" double precision NOT NULL,
+	"start_lng" double precision NOT NULL,
+	"end_lat" double precision NOT NULL,
+	"end_lng" double precision NOT NULL,
+	"path" jsonb NOT NULL,
+	"distance_meters" double precision NOT NULL,
+	"corridor_meters" integer DEFAULT 25 NOT NULL,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	CONSTRAINT "segments_corridor_check" CHECK (corridor_meters >= 10 AND corridor_meters <= 100)
+);
+--> statement-breakpoint
+ALTER TABLE "segment_efforts" ADD CONSTRAINT "segment_efforts_segment_id_fkey" FOREIGN KEY ("segment_id") REFERENCES "public"."segments"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "segment_efforts" ADD CONSTRAINT "segment_efforts_workout_id_fkey" FOREIGN KEY ("workout_id") REFERENCES "public"."workouts"("workout_id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "segment_efforts" ADD CONSTRAINT "segment_efforts_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "public"."users"("user_id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "segments" ADD CONSTRAINT "segments_creator_id_fkey" FOREIGN KEY ("creator_id") REFERENCES "public"."users"("user_id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "idx_segment_efforts_board" ON "segment_efforts" USING btree ("segment_id","elapsed_seconds");--> statement-breakpoint
+CREATE INDEX "idx_segment_efforts_user" ON "segment_efforts" USING btree ("user_id","segment_id");--> statement-breakpoint
+CREATE INDEX "idx_segments_start" ON "segments" USING btree ("start_lat","start_lng");--> statement-breakpoint
+CREATE INDEX "idx_segments_creator" ON "segments" USING btree ("creator_id");
\ No newline at end of file
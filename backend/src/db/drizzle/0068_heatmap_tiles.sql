@@ -0,0 +1,15 @@
+CREATE TABLE "heatmap_tiles" (
+	"user_id" text NOT NULL,
+	"z" integer NOT NULL,
+	"x" integer NOT NULL,
+	"y" integer NOT NULL,
+	"png" "bytea",
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	CONSTRAINT "heatmap_tiles_pkey" PRIMARY KEY("user_id","z","x","y")
+);
+--> statement-breakpoint
+ALTER TABLE "workout_routes" ADD COLUMN "min_lat" double precision;--> statement-breakpoint
+ALTER TABLE "workout_routes" ADD COLUMN "max_lat" double precision;--> statement-breakpoint
+ALTER TABLE "workout_routes" ADD COLUMN "min_lng" double precision;--> statement-breakpoint
+ALTER TABLE "workout_routes" ADD COLUMN "max_lng" double precision;--> statement-breakpoint
+ALTER TABLE "heatmap_tiles" ADD CONSTRAINT "heatmap_tiles_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "public"."users"("user_id") ON DELETE cascade ON UPDATE no action;
\ No newline at end of file
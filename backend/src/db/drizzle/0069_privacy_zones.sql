@@ -0,0 +1,13 @@
+CREATE TABLE "privacy_zones" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"user_id" text NOT NULL,
+	"name" text,
+	"lat" double precision NOT NULL,
+	"lng" double precision NOT NULL,
+	"radius_meters" integer NOT NULL,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	CONSTRAINT "privacy_zones_radius_check" CHECK (radius_meters >= 100 AND radius_meters <= 1600)
+);
+--> statement-breakpoint
+ALTER TABLE "privacy_zones" ADD CONSTRAINT "privacy_zones_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "public"."users"("user_id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "idx_privacy_zones_user" ON "privacy_zones" USING btree ("user_id");
\ No newline at end of file
@@ -0,0 +1,26 @@
+CREATE TABLE "h2h_rematches" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"challenger_id" text NOT NULL,
+	"opponent_id" text NOT NULL,
+	"metric" text NOT NULL,
+	"local_date" date NOT NULL,
+	"status" text DEFAULT 'pending' NOT NULL,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"responded_at" timestamp with time zone,
+	"resolved_at" timestamp with time zone,
+	"challenger_value" double precision,
+	"opponent_value" double precision,
+	"winner_id" text,
+	"challenger_notified_at" timestamp with time zone,
+	"opponent_notified_at" timestamp with time zone,
+	CONSTRAINT "h2h_rematches_metric_check" CHECK (metric = ANY (ARRAY['distance'::text, 'steps'::text, 'duration'::text])),
+	CONSTRAINT "h2h_rematches_status_check" CHECK (status = ANY (ARRAY['pending'::text, 'accepted'::text, 'declined'::text, 'cancelled'::text, 'expired'::text])),
+	CONSTRAINT "h2h_rematches_distinct_check" CHECK (challenger_id <> opponent_id)
+);
+--> statement-breakpoint
+ALTER TABLE "h2h_rematches" ADD CONSTRAINT "h2h_rematches_challenger_id_fkey" FOREIGN KEY ("challenger_id") REFERENCES "public"."users"("user_id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "h2h_rematches" ADD CONSTRAINT "h2h_rematches_opponent_id_fkey" FOREIGN KEY ("opponent_id") REFERENCES "public"."users"("user_id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "h2h_rematches" ADD CONSTRAINT "h2h_rematches_winner_id_fkey" FOREIGN KEY ("winner_id") REFERENCES "public"."users"("user_id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "idx_h2h_rematches_challenger" ON "h2h_rematches" USING btree ("challenger_id","local_date" DESC NULLS LAST);--> statement-breakpoint
+CREATE INDEX "idx_h2h_rematches_opponent" ON "h2h_rematches" USING btree ("opponent_id","local_date" DESC NULLS LAST);--> statement-breakpoint
+CREATE UNIQUE INDEX "idx_h2h_rematches_live_pair" ON "h2h_rematches" USING btree (LEAST(challenger_id, opponent_id),GREATEST(challenger_id, opponent_id),"local_date","metric") WHERE (status = ANY (ARRAY['pending'::text, 'accepted'::text]));
\ No newline at end of file
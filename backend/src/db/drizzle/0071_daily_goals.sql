@@ -0,0 +1,22 @@
+CREATE TABLE "daily_goals" (
+	"user_id" text NOT NULL,
+	"effective_from" date NOT NULL,
+	"goal_type" text NOT NULL,
+	"target" double precision NOT NULL,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	CONSTRAINT "daily_goals_pkey" PRIMARY KEY("user_id","effective_from"),
+	CONSTRAINT "daily_goals_goal_type_check" CHECK (goal_type = ANY (ARRAY['distance'::text, 'duration'::text, 'steps'::text])),
+	CONSTRAINT "daily_goals_target_check" CHECK (target > 0)
+);
+--> statement-breakpoint
+ALTER TABLE "daily_goals" ADD CONSTRAINT "daily_goals_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "public"."users"("user_id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+-- Carry every existing custom goal over, starting today. Past days keep the
+-- rule they were judged by: streaks always counted an absolute
+-- SUM(distance) >= 0.95 (FEED_QUALIFYING_DISTANCE, never goal_miles), which is
+-- exactly what a day with no daily_goals row falls back to. Dating the carried
+-- goal any earlier would rejudge history against a goal streaks never used.
+-- Users on the default mile need no row.
+INSERT INTO "daily_goals" ("user_id", "effective_from", "goal_type", "target")
+SELECT "user_id", CURRENT_DATE, 'distance', "goal_miles"::double precision
+FROM "users"
+WHERE "goal_miles" > 0 AND "goal_miles" <> 1.0;
@@ -0,0 +1,38 @@
+CREATE TABLE "auth_identities" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"user_id" text NOT NULL,
+	"provider" text NOT NULL,
+	"subject" text NOT NULL,
+	"email" varchar(255),
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"last_used_at" timestamp with time zone,
+	CONSTRAINT "auth_identities_provider_subject_key" UNIQUE("provider","subject"),
+	CONSTRAINT "auth_identities_user_provider_key" UNIQUE("user_id","provider"),
+	CONSTRAINT "auth_identities_provider_check" CHECK (provider = ANY (ARRAY['apple'::text, 'google'::text, 'email'::text]))
+);
+--> statement-breakpoint
+CREATE TABLE "magic_link_tokens" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"token_hash" varchar(64) NOT NULL,
+	"email" varchar(255) NOT NULL,
+	"purpose" text NOT NULL,
+	"user_id" text,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"expires_at" timestamp with time zone NOT NULL,
+	"consumed_at" timestamp with time zone,
+	"ip_address" "inet",
+	CONSTRAINT "magic_link_tokens_token_hash_key" UNIQUE("token_hash"),
+	CONSTRAINT "magic_link_tokens_purpose_check" CHECK (purpose = ANY (ARRAY['sign_in'::text, 'link'::text]))
+);
+--> statement-breakpoint
+ALTER TABLE "users" ALTER COLUMN "apple_sub" DROP NOT NULL;--> statement-breakpoint
+ALTER TABLE "auth_identities" ADD CONSTRAINT "auth_identities_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "public"."users"("user_id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "magic_link_tokens" ADD CONSTRAINT "magic_link_tokens_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "public"."users"("user_id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "idx_magic_link_tokens_email_created" ON "magic_link_tokens" USING btree ("email","created_at" DESC NULLS FIRST);--> statement-breakpoint
+-- Every existing account signed up with Apple: give each its Apple identity so
+-- sign-in resolves through auth_identities from the first request.
+INSERT INTO "auth_identities" ("user_id", "provider", "subject", "email")
+SELECT "user_id", 'apple', "apple_sub", "email"
+FROM "users"
+WHERE "apple_sub" IS NOT NULL
+ON CONFLICT DO NOTHING;
@@ -0,0 +1,2 @@
+ALTER TABLE "device_tokens" ADD COLUMN "platform" text DEFAULT 'ios' NOT NULL;--> statement-breakpoint
+ALTER TABLE "device_tokens" ADD CONSTRAINT "device_tokens_platform_check" CHECK (platform = ANY (ARRAY['ios'::text, 'android'::text]));
\ No newline at end of file
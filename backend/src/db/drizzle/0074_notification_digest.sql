@@ -0,0 +1,6 @@
+ALTER TABLE "notification_settings" ADD COLUMN "digest_mode" text DEFAULT 'off' NOT NULL;--> statement-breakpoint
+ALTER TABLE "notification_settings" ADD COLUMN "digest_hour" integer DEFAULT 19 NOT NULL;--> statement-breakpoint
+ALTER TABLE "pending_notifications" ADD COLUMN "digest" boolean DEFAULT false NOT NULL;--> statement-breakpoint
+ALTER TABLE "pending_notifications" ADD COLUMN "data" jsonb;--> statement-breakpoint
+ALTER TABLE "notification_settings" ADD CONSTRAINT "notification_settings_digest_mode_check" CHECK (digest_mode = ANY (ARRAY['off'::text, 'hourly'::text, 'daily'::text]));--> statement-breakpoint
+ALTER TABLE "notification_settings" ADD CONSTRAINT "notification_settings_digest_hour_check" CHECK (digest_hour >= 0 AND digest_hour <= 23);
\ No newline at end of file
@@ -0,0 +1,4 @@
+ALTER TABLE "notification_settings" ADD COLUMN "quiet_hours_weekend_start" integer;--> statement-breakpoint
+ALTER TABLE "notification_settings" ADD COLUMN "quiet_hours_weekend_end" integer;--> statement-breakpoint
+ALTER TABLE "notification_settings" ADD COLUMN "snooze_until" timestamp with time zone;--> statement-breakpoint
+ALTER TABLE "notification_settings" ADD CONSTRAINT "notification_settings_quiet_hours_weekend_check" CHECK ((quiet_hours_weekend_start IS NULL OR quiet_hours_weekend_start BETWEEN 0 AND 23) AND (quiet_hours_weekend_end IS NULL OR quiet_hours_weekend_end BETWEEN 0 AND 23));
\ No newline at end of file
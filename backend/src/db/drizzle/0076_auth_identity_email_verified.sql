@@ -0,0 +1 @@
+ALTER TABLE "auth_identities" ADD COLUMN "email_verified" boolean DEFAULT false NOT NULL;
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE "pending_notifications" ADD COLUMN "held_for_quiet" boolean DEFAULT false NOT NULL;
\ No newline at end of file
@@ -0,0 +1 @@
+CREATE INDEX "idx_magic_link_tokens_ip_created" ON "magic_link_tokens" USING btree ("ip_address","created_at" DESC NULLS FIRST);
\ No newline at end of file
@@ -0,0 +1,2 @@
+ALTER TABLE "competition_users" ADD COLUMN "eliminated_interval" text;--> statement-breakpoint
+ALTER TABLE "competitions" ADD COLUMN "eliminations_decided_through" text;
\ No newline at end of file
@@ -19,9 +19,17 @@ import {
   uniqueIndex,
   bigserial,
   primaryKey,
+  customType,
 } from "drizzle-orm/pg-core";
 import { sql } from "drizzle-orm";
 
+// drizzle-orm has no built-in bytea column; node-pg hands it back as a Buffer.
+const bytea = customType<{ data: Buffer; driverData: Buffer }>({
+  dataType() {
+    return "bytea";
+  },
+});
+
 // One row per friend_request push actually SENT. Deliberately not derived from
 // `friendships`: decline and cancel DELETE the row, so counting friendships
 // would let a send/cancel/send loop re-trigger pushes for free and would
@@ -130,7 +138,9 @@ export const users = pgTable(
     email: varchar({ length: 255 }),
     firstName: varchar("first_name", { length: 50 }),
     lastName: varchar("last_name", { length: 50 }),
-    appleSub: varchar("apple_sub", { length: 255 }).notNull(),
+    // Set for accounts that signed up with Apple. Google and email-link
+    // accounts have none; every provider's login lives in auth_identities.
+    appleSub: varchar("apple_sub", { length: 255 }),
     profileImageUrl: text("profile_image_url"),
     bio: text(),
     role: varchar({ length: 20 }).default("user"),
@@ -217,6 +227,11 @@ export const users = pgTable(
       withTimezone: true,
       mode: "string",
     }),
+    // IANA zone (e.g. "America/Los_Angeles") the app reports via
+    // PATCH /users/:userId/timezone. Resolves the user's own "today" for daily
+    // challenges, reminders and the streak sweep (see localNowSql). Null = an
+    // older build that never reported one → fall back to the UTC offsets.
+    timezone: varchar({ length: 64 }),
   },
   (table) => [
     index("idx_users_current_streak_desc").using(
@@ -278,6 +293,14 @@ export const workouts = pgTable(
     // target columns above stay set either way, so this only ever answers
     // "is there someone to tell about this?".
     ghostFriendUserId: varchar("ghost_friend_user_id", { length: 255 }),
+    // Multi-split races (GET /ghosts/workouts/:workoutId): the workout that
+    // was raced, the distance raced over (null = the legacy single mile, where
+    // target is a mile time; otherwise target is the ghost's time over this
+    // distance), and the signed margin at each split boundary. Client-asserted
+    // like the friend id; history re-gates the source before returning it.
+    ghostSourceWorkoutId: varchar("ghost_source_workout_id", { length: 255 }),
+    ghostDistance: doublePrecision("ghost_distance"),
+    ghostSplitMargins: jsonb("ghost_split_margins"),
     // Claim stamp for the "your ghost was beaten" push. Nullable with NO
     // default on purpose: `ADD COLUMN ts timestamptz DEFAULT now()` stores one
     // DDL-time missing-value for every pre-existing row, so a cron gating on
@@ -398,6 +421,12 @@ export const workoutRoutes = pgTable(
     updatedAt: timestamp("updated_at", { withTimezone: true, mode: "string" })
       .defaultNow()
       .notNull(),
+    // Bounding box of `route`, written with it — lets a heatmap tile pull only
+    // the traces that cross it instead of parsing every route a user has.
+    minLat: doublePrecision("min_lat"),
+    maxLat: doublePrecision("max_lat"),
+    minLng: doublePrecision("min_lng"),
+    maxLng: doublePrecision("max_lng"),
   },
   (table) => [
     foreignKey({
@@ -496,12 +525,43 @@ export const notificationSettings = pgTable(
     // The default stays ON so nothing moves for existing users. Read through
     // posts.coauthor_on_profile, which overrides it per post.
     taggedPostsOnProfile: boolean("tagged_posts_on_profile").default(true),
+    // digest_mode: 'off' | 'hourly' | 'daily'. When on, the non-urgent social
+    // types (DIGEST_TYPES in pushNotificationService) skip their own push and
+    // land in the inbox plus pending_notifications; one summary push goes out
+    // each hour, or once a day at digest_hour (local). Off by default so
+    // nothing changes until a user opts in.
+    digestMode: text("digest_mode").default("off").notNull(),
+    digestHour: integer("digest_hour").default(19).notNull(),
+    // Weekend quiet window (user-local): the Friday and Saturday nights when it
+    // spans midnight, otherwise Saturday and Sunday. Both null =
+    // quiet_hours_start/end apply every night. Start = end is an empty window,
+    // i.e. no quiet hours at the weekend.
+    quietHoursWeekendStart: integer("quiet_hours_weekend_start"),
+    quietHoursWeekendEnd: integer("quiet_hours_weekend_end"),
+    // "Snooze all until": every non-high-priority push is held like quiet
+    // hours until this instant, then goes out with the next flush.
+    snoozeUntil: timestamp("snooze_until", {
+      withTimezone: true,
+      mode: "string",
+    }),
   },
   (table) => [
     check(
       "notification_settings_workout_visibility_check",
       sql`workout_visibility = ANY (ARRAY['public'::text, 'friends'::text, 'private'::text])`,
     ),
+    check(
+      "notification_settings_digest_mode_check",
+      sql`digest_mode = ANY (ARRAY['off'::text, 'hourly'::text, 'daily'::text])`,
+    ),
+    check(
+      "notification_settings_digest_hour_check",
+      sql`digest_hour >= 0 AND digest_hour <= 23`,
+    ),
+    check(
+      "notification_settings_quiet_hours_weekend_check",
+      sql`(quiet_hours_weekend_start IS NULL OR quiet_hours_weekend_start BETWEEN 0 AND 23) AND (quiet_hours_weekend_end IS NULL OR quiet_hours_weekend_end BETWEEN 0 AND 23)`,
+    ),
   ],
 );
 
@@ -546,6 +606,19 @@ export const competitions = pgTable(
     ended: boolean().default(false),
     winner: text(),
     owner: text(),
+    // Zone whose midnight rolls the competition's days and interval keys —
+    // one per competition so every participant scores the same window.
+    // Stamped from the owner's timezone at creation. Existing rows default to
+    // America/New_York, the zone every competition was scored in before this
+    // column existed, so in-flight standings don't shift.
+    timezone: varchar({ length: 64 }).default("America/New_York").notNull(),
+    // Set when the competition is an edition of a saved template; `edition`
+    // counts from 1 within that template's season.
+    templateId: varchar("template_id", { length: 32 }),
+    edition: integer(),
+    // Elimination: the last interval whose cut has been recorded (see
+    // competition_users.eliminated_interval). NULL before the first cutoff.
+    eliminationsDecidedThrough: text("eliminations_decided_through"),
     createdAt: timestamp("created_at", {
       withTimezone: true,
       mode: "string",
@@ -556,6 +629,14 @@ export const competitions = pgTable(
     }).defaultNow(),
   },
   (table) => [
+    // One competition per edition — backs the spawn claim against a double
+    // resolve.
+    unique("competitions_template_edition").on(table.templateId, table.edition),
+    foreignKey({
+      columns: [table.templateId],
+      foreignColumns: [competitionTemplates.id],
+      name: "competitions_template_id_fkey",
+    }).onDelete("set null"),
     index("idx_competitions_winner")
       .using("btree", table.winner.asc().nullsLast())
       .where(sql`(winner IS NOT NULL)`),
@@ -571,7 +652,7 @@ export const competitions = pgTable(
     }).onDelete("set null"),
     check(
       "competitions_type_check",
-      sql`(type)::text = ANY ((ARRAY['streaks'::character varying, 'apex'::character varying, 'clash'::character varying, 'targets'::character varying, 'race'::character varying])::text[])`,
+      sql`(type)::text = ANY ((ARRAY['streaks'::character varying, 'apex'::character varying, 'clash'::character varying, 'targets'::character varying, 'race'::character varying, 'elimination'::character varying])::text[])`,
     ),
   ],
 );
@@ -638,6 +719,10 @@ export const deviceTokens = pgTable(
       .array()
       .notNull()
       .default(sql`'{}'::text[]`),
+    // Which transport delivers to this token: 'ios' (APNs) or 'android'
+    // (FCM). Every row before Android support is an APNs token, hence the
+    // default; `environment` only means anything for 'ios'.
+    platform: text().default("ios").notNull(),
     createdAt: timestamp("created_at", {
       withTimezone: true,
       mode: "string",
@@ -648,6 +733,10 @@ export const deviceTokens = pgTable(
     }).defaultNow(),
   },
   (table) => [
+    check(
+      "device_tokens_platform_check",
+      sql`platform = ANY (ARRAY['ios'::text, 'android'::text])`,
+    ),
     index("idx_device_tokens_user_id").using(
       "btree",
       table.userId.asc().nullsLast(),
@@ -672,6 +761,17 @@ export const pendingNotifications = pgTable(
     type: text().notNull(),
     competitionId: text("competition_id"),
     competitionName: text("competition_name"),
+    // True for rows held back by the user's digest_mode rather than by quiet
+    // hours or the daily cap. Those drain through the digest flush at the
+    // user's cadence, not the 9 AM catch-up; `data` keeps the push's data so
+    // the summary can count distinct friends and kinds.
+    digest: boolean().default(false).notNull(),
+    data: jsonb(),
+    // True for rows held by the user's OWN quiet hours or snooze (including
+    // ones the 9 AM run deferred for that reason). Only these drain in the
+    // hourly catch-up once the window ends; rows parked by the daily cap wait
+    // for the morning like before, or the catch-up would undo the cap.
+    heldForQuiet: boolean("held_for_quiet").default(false).notNull(),
     createdAt: timestamp("created_at", {
       withTimezone: true,
       mode: "string",
@@ -1445,6 +1545,10 @@ export const competitionUsers = pgTable(
     // Team membership within the competition (id from competitions.teams).
     // NULL = unassigned; cleared when the team is deleted.
     teamId: text("team_id"),
+    // Elimination: interval key of the cut that knocked this participant out,
+    // written once when the round closes and never recomputed — a workout
+    // synced late into a closed round can't bring anyone back.
+    eliminatedInterval: text("eliminated_interval"),
     placement: integer(),
     lastKnownRank: integer("last_known_rank"),
     lastKnownScore: doublePrecision("last_known_score"),
@@ -1584,6 +1688,9 @@ export const posts = pgTable(
     // yet" on every open, for every participant, and that question is what
     // stops two people opening two posts for one walk.
     buddySessionId: varchar("buddy_session_id", { length: 32 }),
+    // Held for review by content screening: visible to the author only until
+    // a moderator approves it from the report queue. Null = live.
+    heldAt: timestamp("held_at", { withTimezone: true, mode: "string" }),
   },
   (table) => [
     // "Has this session been posted?" — asked on every recap open. Partial
@@ -1744,13 +1851,24 @@ export const postReports = pgTable(
   {
     id: uuid().defaultRandom().primaryKey().notNull(),
     postId: uuid("post_id").notNull(),
-    reporterId: text("reporter_id").notNull(),
+    // Null for a report filed by content screening rather than a user.
+    reporterId: text("reporter_id"),
     reason: text().notNull(),
     details: text(),
+    // 'user' | 'screening' — who filed it.
+    source: text().default("user").notNull(),
+    // open → resolved (actioned) | dismissed (no action warranted).
     status: text().default("open").notNull(),
     createdAt: timestamp("created_at", { withTimezone: true, mode: "string" })
       .defaultNow()
       .notNull(),
+    // The moderator who closed the report, and when. Kept (set null) if that
+    // admin account is later deleted; moderation_actions has the full trail.
+    resolvedBy: text("resolved_by"),
+    resolvedAt: timestamp("resolved_at", {
+      withTimezone: true,
+      mode: "string",
+    }),
   },
   (table) => [
     uniqueIndex("post_reports_dedupe_idx").using(
@@ -1773,10 +1891,19 @@ export const postReports = pgTable(
       foreignColumns: [users.userId],
       name: "post_reports_reporter_id_fkey",
     }).onDelete("cascade"),
+    foreignKey({
+      columns: [table.resolvedBy],
+      foreignColumns: [users.userId],
+      name: "post_reports_resolved_by_fkey",
+    }).onDelete("set null"),
     check(
       "post_reports_reason_check",
       sql`reason = ANY (ARRAY['spam'::text, 'nudity'::text, 'harassment'::text, 'violence'::text, 'other'::text])`,
     ),
+    check(
+      "post_reports_source_check",
+      sql`(source = 'user' AND reporter_id IS NOT NULL) OR (source = 'screening' AND reporter_id IS NULL)`,
+    ),
   ],
 );
 
@@ -1797,6 +1924,8 @@ export const postComments = pgTable(
       .defaultNow()
       .notNull(),
     deletedAt: timestamp("deleted_at", { withTimezone: true, mode: "string" }),
+    // Held for review by content screening — same meaning as posts.held_at.
+    heldAt: timestamp("held_at", { withTimezone: true, mode: "string" }),
   },
   (table) => [
     index("idx_post_comments_post")
@@ -1851,13 +1980,24 @@ export const commentReports = pgTable(
   {
     id: uuid().defaultRandom().primaryKey().notNull(),
     commentId: uuid("comment_id").notNull(),
-    reporterId: text("reporter_id").notNull(),
+    // Null for a report filed by content screening rather than a user.
+    reporterId: text("reporter_id"),
     reason: text().notNull(),
     details: text(),
+    // 'user' | 'screening' — who filed it.
+    source: text().default("user").notNull(),
+    // open → resolved (actioned) | dismissed (no action warranted).
     status: text().default("open").notNull(),
     createdAt: timestamp("created_at", { withTimezone: true, mode: "string" })
       .defaultNow()
       .notNull(),
+    // The moderator who closed the report, and when. Kept (set null) if that
+    // admin account is later deleted; moderation_actions has the full trail.
+    resolvedBy: text("resolved_by"),
+    resolvedAt: timestamp("resolved_at", {
+      withTimezone: true,
+      mode: "string",
+    }),
   },
   (table) => [
     uniqueIndex("comment_reports_dedupe_idx").using(
@@ -1880,10 +2020,19 @@ export const commentReports = pgTable(
       foreignColumns: [users.userId],
       name: "comment_reports_reporter_id_fkey",
     }).onDelete("cascade"),
+    foreignKey({
+      columns: [table.resolvedBy],
+      foreignColumns: [users.userId],
+      name: "comment_reports_resolved_by_fkey",
+    }).onDelete("set null"),
     check(
       "comment_reports_reason_check",
       sql`reason = ANY (ARRAY['spam'::text, 'nudity'::text, 'harassment'::text, 'violence'::text, 'other'::text])`,
     ),
+    check(
+      "comment_reports_source_check",
+      sql`(source = 'user' AND reporter_id IS NOT NULL) OR (source = 'screening' AND reporter_id IS NULL)`,
+    ),
   ],
 );
 
@@ -2684,3 +2833,931 @@ export const postHighlightItems = pgTable(
     }),
   ],
 );
+
+/**
+ * Account data export jobs ("download my data"). One row per request; the
+ * archive itself lives on disk under /uploads/exports/<export_id>/ and is only
+ * reachable through a signed url (mediaSigningService) until `expires_at`.
+ *
+ * Rows are the rate limit as well as the job queue: a request within the
+ * cooldown of the previous one is refused, so the table is also the history.
+ * 'expired' rows stay after their file is swept so that history survives.
+ */
+export const dataExports = pgTable(
+  "data_exports",
+  {
+    exportId: uuid("export_id").defaultRandom().primaryKey().notNull(),
+    userId: text("user_id").notNull(),
+    status: text().default("pending").notNull(),
+    // Path under /uploads/exports, unsigned. Null until the archive is ready.
+    filePath: text("file_path"),
+    sizeBytes: integer("size_bytes"),
+    // The archive's manifest.json, kept so the client can show what's inside
+    // without downloading it.
+    manifest: jsonb(),
+    error: text(),
+    requestedAt: timestamp("requested_at", {
+      withTimezone: true,
+      mode: "string",
+    })
+      .defaultNow()
+      .notNull(),
+    startedAt: timestamp("started_at", { withTimezone: true, mode: "string" }),
+    completedAt: timestamp("completed_at", {
+      withTimezone: true,
+      mode: "string",
+    }),
+    expiresAt: timestamp("expires_at", { withTimezone: true, mode: "string" }),
+  },
+  (table) => [
+    index("idx_data_exports_user").using(
+      "btree",
+      table.userId.asc().nullsLast(),
+      table.requestedAt.desc().nullsFirst(),
+    ),
+    // The cron's queue scan: only unfinished jobs, which are a handful at most.
+    index("idx_data_exports_pending")
+      .on(table.requestedAt.asc().nullsLast())
+      .where(sql`(status = ANY (ARRAY['pending'::text, 'running'::text]))`),
+    foreignKey({
+      columns: [table.userId],
+      foreignColumns: [users.userId],
+      name: "data_exports_user_id_fkey",
+    }).onDelete("cascade"),
+    check(
+      "data_exports_status_check",
+      sql`status = ANY (ARRAY['pending'::text, 'running'::text, 'ready'::text, 'failed'::text, 'expired'::text])`,
+    ),
+  ],
+);
+
+/**
+ * Outbound webhook subscriptions. A user's hooks receive events about that user
+ * only; an admin may register scope 'all' to receive every user's events (the
+ * team Slack bot / spreadsheet case).
+ *
+ * `secret` is stored as issued rather than hashed: it is the HMAC key every
+ * delivery is signed with, so the server has to be able to use it. It is only
+ * ever returned once, in the create response.
+ */
+export const webhooks = pgTable(
+  "webhooks",
+  {
+    webhookId: uuid("webhook_id").defaultRandom().primaryKey().notNull(),
+    userId: text("user_id").notNull(),
+    url: text().notNull(),
+    secret: text().notNull(),
+    events: text().array().notNull(),
+    scope: text().default("self").notNull(),
+    isActive: boolean("is_active").default(true).notNull(),
+    createdAt: timestamp("created_at", { withTimezone: true, mode: "string" })
+      .defaultNow()
+      .notNull(),
+    updatedAt: timestamp("updated_at", { withTimezone: true, mode: "string" })
+      .defaultNow()
+      .notNull(),
+  },
+  (table) => [
+    index("idx_webhooks_user").using("btree", table.userId.asc().nullsLast()),
+    foreignKey({
+      columns: [table.userId],
+      foreignColumns: [users.userId],
+      name: "webhooks_user_id_fkey",
+    }).onDelete("cascade"),
+    check(
+      "webhooks_scope_check",
+      sql`scope = ANY (ARRAY['self'::text, 'all'::text])`,
+    ),
+  ],
+);
+
+/**
+ * The delivery queue AND the delivery log: one row per (webhook, event), kept
+ * after it settles so the owner can see what was sent and what came back.
+ * `event_key` makes enqueueing idempotent — a re-uploaded workout or a
+ * competition resolved twice never delivers the same event twice.
+ */
+export const webhookDeliveries = pgTable(
+  "webhook_deliveries",
+  {
+    deliveryId: uuid("delivery_id").defaultRandom().primaryKey().notNull(),
+    webhookId: uuid("webhook_id").notNull(),
+    event: text().notNull(),
+    eventKey: text("event_key").notNull(),
+    // The user the event is about (differs from the hook owner for scope 'all').
+    subjectUserId: text("subject_user_id").notNull(),
+    payload: jsonb().notNull(),
+    status: text().default("pending").notNull(),
+    attempts: integer().default(0).notNull(),
+    nextAttemptAt: timestamp("next_attempt_at", {
+      withTimezone: true,
+      mode: "string",
+    })
+      .defaultNow()
+      .notNull(),
+    lastAttemptAt: timestamp("last_attempt_at", {
+      withTimezone: true,
+      mode: "string",
+    }),
+    responseStatus: integer("response_status"),
+    lastError: text("last_error"),
+    deliveredAt: timestamp("delivered_at", {
+      withTimezone: true,
+      mode: "string",
+    }),
+    createdAt: timestamp("created_at", { withTimezone: true, mode: "string" })
+      .defaultNow()
+      .notNull(),
+  },
+  (table) => [
+    unique("webhook_deliveries_event_key").on(table.webhookId, table.eventKey),
+    index("idx_webhook_deliveries_log").using(
+      "btree",
+      table.webhookId.asc().nullsLast(),
+      table.createdAt.desc().nullsFirst(),
+    ),
+    // The drain's scan: only undelivered rows.
+    index("idx_webhook_deliveries_due")
+      .on(table.nextAttemptAt.asc().nullsLast())
+      .where(sql`(status = 'pending'::text)`),
+    foreignKey({
+      columns: [table.webhookId],
+      foreignColumns: [webhooks.webhookId],
+      name: "webhook_deliveries_webhook_id_fkey",
+    }).onDelete("cascade"),
+    check(
+      "webhook_deliveries_status_check",
+      sql`status = ANY (ARRAY['pending'::text, 'delivered'::text, 'failed'::text])`,
+    ),
+  ],
+);
+
+/**
+ * Saved competition setups ("Monthly Mile Club"): everything needed to create
+ * the competition again — type, options, teams, who to invite. With a
+ * recurrence, finishing one edition spawns the next, and the editions together
+ * form the template's season.
+ *
+ * Invitees are stored as ids and re-checked at spawn time: a template set up
+ * months ago must not keep inviting someone who has since blocked the owner.
+ */
+export const competitionTemplates = pgTable(
+  "competition_templates",
+  {
+    id: varchar({ length: 32 })
+      .default(sql`replace((gen_random_uuid())::text, '-'::text, ''::text)`)
+      .primaryKey()
+      .notNull(),
+    owner: text().notNull(),
+    competitionName: varchar("competition_name", { length: 100 }).notNull(),
+    type: varchar({ length: 20 }).notNull(),
+    workouts: jsonb().notNull(),
+    options: jsonb().notNull(),
+    // { member_pick, teams: [{ id, name }], assignments: { userId: teamId } }.
+    // NULL = no team play.
+    teams: jsonb(),
+    inviteUserIds: text("invite_user_ids")
+      .array()
+      .default(sql`'{}'::text[]`)
+      .notNull(),
+    recurrence: text().default("none").notNull(),
+    isActive: boolean("is_active").default(true).notNull(),
+    // Highest edition spawned so far. Bumped by the same UPDATE that claims
+    // the next spawn, so two resolvers can't both create it.
+    editionCount: integer("edition_count").default(0).notNull(),
+    createdAt: timestamp("created_at", { withTimezone: true, mode: "string" })
+      .defaultNow()
+      .notNull(),
+    updatedAt: timestamp("updated_at", { withTimezone: true, mode: "string" })
+      .defaultNow()
+      .notNull(),
+  },
+  (table) => [
+    index("idx_competition_templates_owner").using(
+      "btree",
+      table.owner.asc().nullsLast(),
+    ),
+    foreignKey({
+      columns: [table.owner],
+      foreignColumns: [users.userId],
+      name: "competition_templates_owner_fkey",
+    }).onDelete("cascade"),
+    check(
+      "competition_templates_recurrence_check",
+      sql`recurrence = ANY (ARRAY['none'::text, 'weekly'::text, 'monthly'::text])`,
+    ),
+  ],
+);
+
+/**
+ * A points ladder over a date window among a friend group ("Q4 office
+ * ladder"). Any competition that finishes inside the window with at least two
+ * members in it awards points; see competition_season_points.
+ */
+export const competitionSeasons = pgTable(
+  "competition_seasons",
+  {
+    id: varchar({ length: 32 })
+      .default(sql`replace((gen_random_uuid())::text, '-'::text, ''::text)`)
+      .primaryKey()
+      .notNull(),
+    owner: text().notNull(),
+    name: varchar({ length: 100 }).notNull(),
+    // Inclusive window matched against competitions.end_date.
+    startDate: date("start_date").notNull(),
+    endDate: date("end_date").notNull(),
+    createdAt: timestamp("created_at", { withTimezone: true, mode: "string" })
+      .defaultNow()
+      .notNull(),
+    updatedAt: timestamp("updated_at", { withTimezone: true, mode: "string" })
+      .defaultNow()
+      .notNull(),
+  },
+  (table) => [
+    foreignKey({
+      columns: [table.owner],
+      foreignColumns: [users.userId],
+      name: "competition_seasons_owner_fkey",
+    }).onDelete("cascade"),
+    check(
+      "competition_seasons_window_check",
+      sql`end_date >= start_date`,
+    ),
+  ],
+);
+
+export const competitionSeasonMembers = pgTable(
+  "competition_season_members",
+  {
+    seasonId: varchar("season_id", { length: 32 }).notNull(),
+    userId: text("user_id").notNull(),
+    joinedAt: timestamp("joined_at", { withTimezone: true, mode: "string" })
+      .defaultNow()
+      .notNull(),
+  },
+  (table) => [
+    primaryKey({
+      columns: [table.seasonId, table.userId],
+      name: "competition_season_members_pkey",
+    }),
+    index("idx_competition_season_members_user").using(
+      "btree",
+      table.userId.asc().nullsLast(),
+    ),
+    foreignKey({
+      columns: [table.seasonId],
+      foreignColumns: [competitionSeasons.id],
+      name: "competition_season_members_season_id_fkey",
+    }).onDelete("cascade"),
+    foreignKey({
+      columns: [table.userId],
+      foreignColumns: [users.userId],
+      name: "competition_season_members_user_id_fkey",
+    }).onDelete("cascade"),
+  ],
+);
+
+/**
+ * Points awarded to a season member for one finished competition. Stored, not
+ * derived on read: the ladder is a SUM over this table, and the placement and
+ * field size that earned the points are kept beside them for the history.
+ */
+export const competitionSeasonPoints = pgTable(
+  "competition_season_points",
+  {
+    seasonId: varchar("season_id", { length: 32 }).notNull(),
+    competitionId: varchar("competition_id", { length: 32 }).notNull(),
+    userId: text("user_id").notNull(),
+    placement: integer().notNull(),
+    participantCount: integer("participant_count").notNull(),
+    points: integer().notNull(),
+    awardedAt: timestamp("awarded_at", { withTimezone: true, mode: "string" })
+      .defaultNow()
+      .notNull(),
+  },
+  (table) => [
+    primaryKey({
+      columns: [table.seasonId, table.competitionId, table.userId],
+      name: "competition_season_points_pkey",
+    }),
+    index("idx_competition_season_points_user").using(
+      "btree",
+      table.seasonId.asc().nullsLast(),
+      table.userId.asc().nullsLast(),
+    ),
+    foreignKey({
+      columns: [table.seasonId],
+      foreignColumns: [competitionSeasons.id],
+      name: "competition_season_points_season_id_fkey",
+    }).onDelete("cascade"),
+    foreignKey({
+      columns: [table.competitionId],
+      foreignColumns: [competitions.id],
+      name: "competition_season_points_competition_id_fkey",
+    }).onDelete("cascade"),
+    foreignKey({
+      columns: [table.userId],
+      foreignColumns: [users.userId],
+      name: "competition_season_points_user_id_fkey",
+    }).onDelete("cascade"),
+  ],
+);
+
+/**
+ * A user's run through a training plan. The plan itself is code
+ * (services/trainingPlans.ts); the row stores only which plan and the day it
+ * started. At most one active enrollment per user.
+ */
+export const trainingPlanEnrollments = pgTable(
+  "training_plan_enrollments",
+  {
+    id: varchar({ length: 32 })
+      .default(sql`replace((gen_random_uuid())::text, '-'::text, ''::text)`)
+      .primaryKey()
+      .notNull(),
+    userId: text("user_id").notNull(),
+    planKey: text("plan_key").notNull(),
+    // The user's LOCAL date of plan day 0.
+    startDate: date("start_date").notNull(),
+    status: text().default("active").notNull(),
+    completedAt: timestamp("completed_at", {
+      withTimezone: true,
+      mode: "string",
+    }),
+    createdAt: timestamp("created_at", { withTimezone: true, mode: "string" })
+      .defaultNow()
+      .notNull(),
+    updatedAt: timestamp("updated_at", { withTimezone: true, mode: "string" })
+      .defaultNow()
+      .notNull(),
+  },
+  (table) => [
+    uniqueIndex("training_plan_enrollments_one_active")
+      .on(table.userId)
+      .where(sql`(status = 'active'::text)`),
+    index("idx_training_plan_enrollments_user").using(
+      "btree",
+      table.userId.asc().nullsLast(),
+      table.createdAt.desc().nullsFirst(),
+    ),
+    foreignKey({
+      columns: [table.userId],
+      foreignColumns: [users.userId],
+      name: "training_plan_enrollments_user_id_fkey",
+    }).onDelete("cascade"),
+    check(
+      "training_plan_enrollments_status_check",
+      sql`status = ANY (ARRAY['active'::text, 'completed'::text, 'abandoned'::text])`,
+    ),
+  ],
+);
+
+/**
+ * What was actually done on a plan day: the day's qualifying workouts summed,
+ * and whether that met every target. Rewritten from the workouts table each
+ * time a workout for that day lands, so re-uploads and deletions converge.
+ */
+export const trainingPlanDays = pgTable(
+  "training_plan_days",
+  {
+    enrollmentId: varchar("enrollment_id", { length: 32 }).notNull(),
+    dayIndex: integer("day_index").notNull(),
+    distanceMiles: doublePrecision("distance_miles").notNull(),
+    durationSec: doublePrecision("duration_sec").notNull(),
+    met: boolean().notNull(),
+    updatedAt: timestamp("updated_at", { withTimezone: true, mode: "string" })
+      .defaultNow()
+      .notNull(),
+  },
+  (table) => [
+    primaryKey({
+      columns: [table.enrollmentId, table.dayIndex],
+      name: "training_plan_days_pkey",
+    }),
+    foreignKey({
+      columns: [table.enrollmentId],
+      foreignColumns: [trainingPlanEnrollments.id],
+      name: "training_plan_days_enrollment_id_fkey",
+    }).onDelete("cascade"),
+  ],
+);
+
+/**
+ * Audit trail for the admin report queue: one row per moderator action on a
+ * reported post or comment, or on its author. Target ids are plain text with
+ * no foreign key so the trail outlives a removed post. `snapshot` keeps what
+ * the content said at the time, and the report reasons that led to it.
+ */
+export const moderationActions = pgTable(
+  "moderation_actions",
+  {
+    id: uuid().defaultRandom().primaryKey().notNull(),
+    moderatorId: text("moderator_id"),
+    action: text().notNull(),
+    targetType: text("target_type").notNull(),
+    targetId: text("target_id").notNull(),
+    subjectUserId: text("subject_user_id"),
+    note: text(),
+    reportsClosed: integer("reports_closed").default(0).notNull(),
+    snapshot: jsonb(),
+    createdAt: timestamp("created_at", { withTimezone: true, mode: "string" })
+      .defaultNow()
+      .notNull(),
+  },
+  (table) => [
+    index("idx_moderation_actions_target").using(
+      "btree",
+      table.targetType.asc().nullsLast(),
+      table.targetId.asc().nullsLast(),
+      table.createdAt.desc().nullsFirst(),
+    ),
+    index("idx_moderation_actions_subject").using(
+      "btree",
+      table.subjectUserId.asc().nullsLast(),
+      table.createdAt.desc().nullsFirst(),
+    ),
+    index("idx_moderation_actions_created").using(
+      "btree",
+      table.createdAt.desc().nullsFirst(),
+    ),
+    foreignKey({
+      columns: [table.moderatorId],
+      foreignColumns: [users.userId],
+      name: "moderation_actions_moderator_id_fkey",
+    }).onDelete("set null"),
+    foreignKey({
+      columns: [table.subjectUserId],
+      foreignColumns: [users.userId],
+      name: "moderation_actions_subject_user_id_fkey",
+    }).onDelete("set null"),
+    check(
+      "moderation_actions_action_check",
+      sql`action = ANY (ARRAY['hide'::text, 'restore'::text, 'remove'::text, 'warn'::text, 'suspend'::text, 'resolve'::text, 'dismiss'::text, 'approve'::text])`,
+    ),
+    check(
+      "moderation_actions_target_type_check",
+      sql`target_type = ANY (ARRAY['post'::text, 'comment'::text])`,
+    ),
+  ],
+);
+
+// Account-level enforcement: suspensions and shadow bans, imposed by admins
+// (directly or from the report queue). A row is ACTIVE while lifted_at is null
+// and expires_at (null = permanent) is in the future; an expired row is left
+// as history rather than lifted. At most one un-lifted row per (user, kind) —
+// imposing a new one lifts the previous one in the same transaction.
+export const userRestrictions = pgTable(
+  "user_restrictions",
+  {
+    id: uuid().defaultRandom().primaryKey().notNull(),
+    userId: text("user_id").notNull(),
+    kind: text().notNull(),
+    reason: text().notNull(),
+    expiresAt: timestamp("expires_at", { withTimezone: true, mode: "string" }),
+    createdBy: text("created_by"),
+    createdAt: timestamp("created_at", { withTimezone: true, mode: "string" })
+      .defaultNow()
+      .notNull(),
+    liftedAt: timestamp("lifted_at", { withTimezone: true, mode: "string" }),
+    liftedBy: text("lifted_by"),
+    liftReason: text("lift_reason"),
+  },
+  (table) => [
+    uniqueIndex("uq_user_restrictions_current")
+      .on(table.userId, table.kind)
+      .where(sql`(lifted_at IS NULL)`),
+    index("idx_user_restrictions_kind_current")
+      .on(table.kind, table.userId)
+      .where(sql`(lifted_at IS NULL)`),
+    index("idx_user_restrictions_user").using(
+      "btree",
+      table.userId.asc().nullsLast(),
+      table.createdAt.desc().nullsFirst(),
+    ),
+    foreignKey({
+      columns: [table.userId],
+      foreignColumns: [users.userId],
+      name: "user_restrictions_user_id_fkey",
+    }).onDelete("cascade"),
+    foreignKey({
+      columns: [table.createdBy],
+      foreignColumns: [users.userId],
+      name: "user_restrictions_created_by_fkey",
+    }).onDelete("set null"),
+    foreignKey({
+      columns: [table.liftedBy],
+      foreignColumns: [users.userId],
+      name: "user_restrictions_lifted_by_fkey",
+    }).onDelete("set null"),
+    check(
+      "user_restrictions_kind_check",
+      sql`kind = ANY (ARRAY['suspension'::text, 'shadow_ban'::text])`,
+    ),
+  ],
+);
+
+// Content screening rules, run against captions, comments and post photos
+// before they go live. `keyword` matches a whole word case-insensitively,
+// `regex` a case-insensitive pattern, `image_hash` a 64-bit perceptual hash
+// (hex) within a small Hamming distance. A match files a screening report with
+// `reason`; `action` = 'hold' also keeps the content pending review.
+export const screeningRules = pgTable(
+  "screening_rules",
+  {
+    id: uuid().defaultRandom().primaryKey().notNull(),
+    kind: text().notNull(),
+    pattern: text().notNull(),
+    reason: text().notNull(),
+    action: text().default("flag").notNull(),
+    note: text(),
+    createdBy: text("created_by"),
+    createdAt: timestamp("created_at", { withTimezone: true, mode: "string" })
+      .defaultNow()
+      .notNull(),
+  },
+  (table) => [
+    uniqueIndex("uq_screening_rules_kind_pattern").on(
+      table.kind,
+      table.pattern,
+    ),
+    foreignKey({
+      columns: [table.createdBy],
+      foreignColumns: [users.userId],
+      name: "screening_rules_created_by_fkey",
+    }).onDelete("set null"),
+    check(
+      "screening_rules_kind_check",
+      sql`kind = ANY (ARRAY['keyword'::text, 'regex'::text, 'image_hash'::text])`,
+    ),
+    check(
+      "screening_rules_action_check",
+      sql`action = ANY (ARRAY['flag'::text, 'hold'::text])`,
+    ),
+    check(
+      "screening_rules_reason_check",
+      sql`reason = ANY (ARRAY['spam'::text, 'nudity'::text, 'harassment'::text, 'violence'::text, 'other'::text])`,
+    ),
+  ],
+);
+
+// User-created segments: a stretch of one of the creator's own stored routes,
+// from a start point to an end point. `path` is that stretch of the trace
+// ([[lat, lng], ...]), and an uploaded route only counts as an effort if it
+// stays within `corridor_meters` of it end to end. The start/end columns are
+// the snapped endpoints, kept separately for the bounding-box prefilter.
+export const segments = pgTable(
+  "segments",
+  {
+    id: uuid().defaultRandom().primaryKey().notNull(),
+    creatorId: text("creator_id").notNull(),
+    name: text().notNull(),
+    startLat: doublePrecision("start_lat").notNull(),
+    startLng: doublePrecision("start_lng").notNull(),
+    endLat: doublePrecision("end_lat").notNull(),
+    endLng: doublePrecision("end_lng").notNull(),
+    path: jsonb().notNull(),
+    distanceMeters: doublePrecision("distance_meters").notNull(),
+    corridorMeters: integer("corridor_meters").default(25).notNull(),
+    createdAt: timestamp("created_at", { withTimezone: true, mode: "string" })
+      .defaultNow()
+      .notNull(),
+  },
+  (table) => [
+    index("idx_segments_start").on(table.startLat, table.startLng),
+    index("idx_segments_creator").on(table.creatorId),
+    foreignKey({
+      columns: [table.creatorId],
+      foreignColumns: [users.userId],
+      name: "segments_creator_id_fkey",
+    }).onDelete("cascade"),
+    check(
+      "segments_corridor_check",
+      sql`corridor_meters >= 10 AND corridor_meters <= 100`,
+    ),
+  ],
+);
+
+// One row per (segment, workout): the fastest pass over the segment within
+// that workout. Derived — rewritten every time the workout's route is matched
+// — so the leaderboards never trust a client-sent time.
+export const segmentEfforts = pgTable(
+  "segment_efforts",
+  {
+    id: bigserial({ mode: "number" }).primaryKey().notNull(),
+    segmentId: uuid("segment_id").notNull(),
+    workoutId: varchar("workout_id", { length: 255 }).notNull(),
+    userId: text("user_id").notNull(),
+    elapsedSeconds: doublePrecision("elapsed_seconds").notNull(),
+    localDate: date("local_date").notNull(),
+    createdAt: timestamp("created_at", { withTimezone: true, mode: "string" })
+      .defaultNow()
+      .notNull(),
+  },
+  (table) => [
+    unique("segment_efforts_segment_workout_key").on(
+      table.segmentId,
+      table.workoutId,
+    ),
+    index("idx_segment_efforts_board").on(
+      table.segmentId,
+      table.elapsedSeconds,
+    ),
+    index("idx_segment_efforts_user").on(table.userId, table.segmentId),
+    foreignKey({
+      columns: [table.segmentId],
+      foreignColumns: [segments.id],
+      name: "segment_efforts_segment_id_fkey",
+    }).onDelete("cascade"),
+    foreignKey({
+      columns: [table.workoutId],
+      foreignColumns: [workouts.workoutId],
+      name: "segment_efforts_workout_id_fkey",
+    }).onDelete("cascade"),
+    foreignKey({
+      columns: [table.userId],
+      foreignColumns: [users.userId],
+      name: "segment_efforts_user_id_fkey",
+    }).onDelete("cascade"),
+  ],
+);
+
+// Rendered personal-heatmap tiles (256px PNG, web-mercator z/x/y), generated
+// on first request and dropped wholesale for the user whenever their routes
+// change. A null `png` caches "nothing here" so empty tiles stay cheap too.
+export const heatmapTiles = pgTable(
+  "heatmap_tiles",
+  {
+    userId: text("user_id").notNull(),
+    z: integer().notNull(),
+    x: integer().notNull(),
+    y: integer().notNull(),
+    png: bytea(),
+    createdAt: timestamp("created_at", { withTimezone: true, mode: "string" })
+      .defaultNow()
+      .notNull(),
+  },
+  (table) => [
+    primaryKey({
+      columns: [table.userId, table.z, table.x, table.y],
+      name: "heatmap_tiles_pkey",
+    }),
+    foreignKey({
+      columns: [table.userId],
+      foreignColumns: [users.userId],
+      name: "heatmap_tiles_user_id_fkey",
+    }).onDelete("cascade"),
+  ],
+);
+
+// Privacy zones: circles (home, work) inside which a user's route points are
+// never shown to anyone else. Applied at read time on every route surface, so
+// adding or moving a zone covers history too, and the stored traces — and the
+// distances derived from them — are never touched.
+export const privacyZones = pgTable(
+  "privacy_zones",
+  {
+    id: uuid().defaultRandom().primaryKey().notNull(),
+    userId: text("user_id").notNull(),
+    name: text(),
+    lat: doublePrecision().notNull(),
+    lng: doublePrecision().notNull(),
+    radiusMeters: integer("radius_meters").notNull(),
+    createdAt: timestamp("created_at", { withTimezone: true, mode: "string" })
+      .defaultNow()
+      .notNull(),
+  },
+  (table) => [
+    index("idx_privacy_zones_user").on(table.userId),
+    foreignKey({
+      columns: [table.userId],
+      foreignColumns: [users.userId],
+      name: "privacy_zones_user_id_fkey",
+    }).onDelete("cascade"),
+    check(
+      "privacy_zones_radius_check",
+      sql`radius_meters >= 100 AND radius_meters <= 1600`,
+    ),
+  ],
+);
+
+// Head-to-head rematches: one user challenges a friend to a specific metric on
+// a specific day, outside the daily rotation's pinned duel. Scored by the same
+// end-of-day resolver as `h2h_matchups`; the totals and winner are stored at
+// scoring time so the rivalry summary always agrees with the result push.
+export const h2hRematches = pgTable(
+  "h2h_rematches",
+  {
+    id: uuid().defaultRandom().primaryKey().notNull(),
+    challengerId: text("challenger_id").notNull(),
+    opponentId: text("opponent_id").notNull(),
+    metric: text().notNull(),
+    localDate: date("local_date").notNull(),
+    // pending → accepted | declined | cancelled | expired. Only accepted
+    // rematches are ever scored.
+    status: text().default("pending").notNull(),
+    createdAt: timestamp("created_at", { withTimezone: true, mode: "string" })
+      .defaultNow()
+      .notNull(),
+    respondedAt: timestamp("responded_at", {
+      withTimezone: true,
+      mode: "string",
+    }),
+    resolvedAt: timestamp("resolved_at", {
+      withTimezone: true,
+      mode: "string",
+    }),
+    challengerValue: doublePrecision("challenger_value"),
+    opponentValue: doublePrecision("opponent_value"),
+    // NULL on a resolved rematch = a tie.
+    winnerId: text("winner_id"),
+    // Result pushes wait for each side's local daytime, like the daily duel's.
+    challengerNotifiedAt: timestamp("challenger_notified_at", {
+      withTimezone: true,
+      mode: "string",
+    }),
+    opponentNotifiedAt: timestamp("opponent_notified_at", {
+      withTimezone: true,
+      mode: "string",
+    }),
+  },
+  (table) => [
+    index("idx_h2h_rematches_challenger").on(
+      table.challengerId,
+      table.localDate.desc(),
+    ),
+    index("idx_h2h_rematches_opponent").on(
+      table.opponentId,
+      table.localDate.desc(),
+    ),
+    // One live rematch per pair, day and metric, whichever side asked.
+    uniqueIndex("idx_h2h_rematches_live_pair")
+      .on(
+        sql`LEAST(challenger_id, opponent_id)`,
+        sql`GREATEST(challenger_id, opponent_id)`,
+        table.localDate,
+        table.metric,
+      )
+      .where(sql`(status = ANY (ARRAY['pending'::text, 'accepted'::text]))`),
+    foreignKey({
+      columns: [table.challengerId],
+      foreignColumns: [users.userId],
+      name: "h2h_rematches_challenger_id_fkey",
+    }).onDelete("cascade"),
+    foreignKey({
+      columns: [table.opponentId],
+      foreignColumns: [users.userId],
+      name: "h2h_rematches_opponent_id_fkey",
+    }).onDelete("cascade"),
+    foreignKey({
+      columns: [table.winnerId],
+      foreignColumns: [users.userId],
+      name: "h2h_rematches_winner_id_fkey",
+    }).onDelete("set null"),
+    check(
+      "h2h_rematches_metric_check",
+      sql`metric = ANY (ARRAY['distance'::text, 'steps'::text, 'duration'::text])`,
+    ),
+    check(
+      "h2h_rematches_status_check",
+      sql`status = ANY (ARRAY['pending'::text, 'accepted'::text, 'declined'::text, 'cancelled'::text, 'expired'::text])`,
+    ),
+    check(
+      "h2h_rematches_distinct_check",
+      sql`challenger_id <> opponent_id`,
+    ),
+  ],
+);
+
+// Dated history of each user's daily goal. The goal in force on a local day is
+// the row with the latest effective_from on or before it; a user with no rows
+// is on the legacy one-mile distance goal. Changing the goal only ever adds a
+// row (today or tomorrow), so past days keep being judged by the goal that was
+// active when they were walked and a goal change never rewrites a streak.
+export const dailyGoals = pgTable(
+  "daily_goals",
+  {
+    userId: text("user_id").notNull(),
+    effectiveFrom: date("effective_from").notNull(),
+    // 'distance' (miles) | 'duration' (minutes) | 'steps'
+    goalType: text("goal_type").notNull(),
+    target: doublePrecision().notNull(),
+    createdAt: timestamp("created_at", { withTimezone: true, mode: "string" })
+      .defaultNow()
+      .notNull(),
+  },
+  (table) => [
+    foreignKey({
+      columns: [table.userId],
+      foreignColumns: [users.userId],
+      name: "daily_goals_user_id_fkey",
+    }).onDelete("cascade"),
+    primaryKey({
+      columns: [table.userId, table.effectiveFrom],
+      name: "daily_goals_pkey",
+    }),
+    check(
+      "daily_goals_goal_type_check",
+      sql`goal_type = ANY (ARRAY['distance'::text, 'duration'::text, 'steps'::text])`,
+    ),
+    check("daily_goals_target_check", sql`target > 0`),
+  ],
+);
+
+// One row per way a user can sign in. A user starts with the provider they
+// signed up with and may link the others, so an Apple user who also signs in
+// with Google or an email link lands on the same `users` row. `subject` is the
+// provider's stable id: the JWT `sub` for Apple and Google, the normalized
+// address for email links. A user links each provider at most once.
+export const authIdentities = pgTable(
+  "auth_identities",
+  {
+    id: uuid().defaultRandom().primaryKey().notNull(),
+    userId: text("user_id").notNull(),
+    // 'apple' | 'google' | 'email'
+    provider: text().notNull(),
+    subject: text().notNull(),
+    email: varchar({ length: 255 }),
+    // Whether the provider vouched for `email`. Sign-in only auto-links a new
+    // credential to an account through a verified identity email — never
+    // through users.email, which older builds filled from the request body.
+    // Backfilled Apple rows start false and are confirmed on their next sign-in.
+    emailVerified: boolean("email_verified").default(false).notNull(),
+    createdAt: timestamp("created_at", { withTimezone: true, mode: "string" })
+      .defaultNow()
+      .notNull(),
+    lastUsedAt: timestamp("last_used_at", {
+      withTimezone: true,
+      mode: "string",
+    }),
+  },
+  (table) => [
+    foreignKey({
+      columns: [table.userId],
+      foreignColumns: [users.userId],
+      name: "auth_identities_user_id_fkey",
+    }).onDelete("cascade"),
+    unique("auth_identities_provider_subject_key").on(
+      table.provider,
+      table.subject,
+    ),
+    unique("auth_identities_user_provider_key").on(
+      table.userId,
+      table.provider,
+    ),
+    check(
+      "auth_identities_provider_check",
+      sql`provider = ANY (ARRAY['apple'::text, 'google'::text, 'email'::text])`,
+    ),
+  ],
+);
+
+// Single-use email sign-in links. Only the SHA-256 of the token is stored,
+// the same way refresh tokens are, so a database read can't be replayed as a
+// login. 'sign_in' links sign in (or sign up) whoever holds the address;
+// 'link' links carry the requesting user and attach the address to them.
+export const magicLinkTokens = pgTable(
+  "magic_link_tokens",
+  {
+    id: uuid().defaultRandom().primaryKey().notNull(),
+    tokenHash: varchar("token_hash", { length: 64 }).notNull(),
+    email: varchar({ length: 255 }).notNull(),
+    // 'sign_in' | 'link'
+    purpose: text().notNull(),
+    userId: text("user_id"),
+    createdAt: timestamp("created_at", { withTimezone: true, mode: "string" })
+      .defaultNow()
+      .notNull(),
+    expiresAt: timestamp("expires_at", {
+      withTimezone: true,
+      mode: "string",
+    }).notNull(),
+    consumedAt: timestamp("consumed_at", {
+      withTimezone: true,
+      mode: "string",
+    }),
+    ipAddress: inet("ip_address"),
+  },
+  (table) => [
+    foreignKey({
+      columns: [table.userId],
+      foreignColumns: [users.userId],
+      name: "magic_link_tokens_user_id_fkey",
+    }).onDelete("cascade"),
+    unique("magic_link_tokens_token_hash_key").on(table.tokenHash),
+    index("idx_magic_link_tokens_email_created").using(
+      "btree",
+      table.email.asc().nullsLast(),
+      table.createdAt.desc().nullsFirst(),
+    ),
+    // The per-IP request cap.
+    index("idx_magic_link_tokens_ip_created").using(
+      "btree",
+      table.ipAddress.asc().nullsLast(),
+      table.createdAt.desc().nullsFirst(),
+    ),
+    check(
+      "magic_link_tokens_purpose_check",
+      sql`purpose = ANY (ARRAY['sign_in'::text, 'link'::text])`,
+    ),
+  ],
+);
@@ -6,3 +6,45 @@ export class BadRequestError extends Error {
 		this.name = 'BadRequestError';
 	}
 }
+
+// Thrown wherever a suspended account tries to authenticate. 403, not 401: the
+// credential may be perfectly valid, and shipped clients treat 401 as "refresh
+// or sign out" — a suspended user should see why, not loop through sign-in.
+export class AccountSuspendedError extends Error {
+	statusCode = 403;
+
+	constructor(
+		public readonly suspendedUntil: string | null,
+		public readonly reason: string
+	) {
+		super('account_suspended');
+		this.name = 'AccountSuspendedError';
+	}
+
+	toResponse() {
+		return { error: 'account_suspended', suspended_until: this.suspendedUntil, reason: this.reason };
+	}
+}
+
+// A sign-in credential — a provider identity token or an email link — that
+// failed verification, expired or was already used. 401 so the client restarts
+// sign-in rather than retrying the same credential.
+export class InvalidCredentialError extends Error {
+	statusCode = 401;
+
+	constructor(message: string) {
+		super(message);
+		this.name = 'InvalidCredentialError';
+	}
+}
+
+// No real mail transport is configured, so an email carrying a credential has
+// nowhere safe to go. 503: the request is fine, the server can't serve it yet.
+export class MailUnavailableError extends Error {
+	statusCode = 503;
+
+	constructor() {
+		super('email_unavailable');
+		this.name = 'MailUnavailableError';
+	}
+}
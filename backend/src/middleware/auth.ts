@@ -1,9 +1,14 @@
 import { Request, Response, NextFunction } from 'express';
 import { jwtVerify } from 'jose';
 import { PostgresService } from '../services/DbService.js';
+import { assertNotSuspended } from '../services/accountRestrictionService.js';
+import { isSessionActive } from '../services/refreshTokenService.js';
+import { AccountSuspendedError } from '../errors/Errors.js';
 
 export interface AuthenticatedRequest extends Request {
 	userId?: string;
+	/** Refresh-token family the access token was issued with; null for older tokens. */
+	sessionId?: string | null;
 }
 
 export async function authenticateToken(req: AuthenticatedRequest, res: Response, next: NextFunction) {
@@ -19,7 +24,7 @@ export async function authenticateToken(req: AuthenticatedRequest, res: Response
 
 		const { payload } = await jwtVerify(token, new TextEncoder().encode(appJwtSecret));
 		req.userId = payload.sub as string;
-		next();
+		req.sessionId = typeof payload.sid === 'string' ? payload.sid : null;
 	} catch (err) {
 		console.error('Token verification failed:', err);
 		// 401 (not 403) for a bad/expired credential: this is an AUTHENTICATION
@@ -30,6 +35,38 @@ export async function authenticateToken(req: AuthenticatedRequest, res: Response
 		// users stuck: every call failed and they were never bounced to login.
 		return res.status(401).json({ error: 'Invalid or expired token' });
 	}
+
+	// A valid token from a suspended account: 403 with the reason and expiry so
+	// the client can show them instead of retrying. A failed lookup lets the
+	// request through — every route behind this needs the database anyway, and
+	// a blip must not read as everyone being suspended.
+	try {
+		await assertNotSuspended(req.userId);
+	} catch (err) {
+		if (err instanceof AccountSuspendedError) {
+			return res.status(err.statusCode).json(err.toResponse());
+		}
+		console.error('Suspension lookup failed:', err);
+	}
+
+	// A token whose session was revoked (logout, a device removed from the
+	// sessions list, reuse detection) is dead even though it hasn't expired.
+	// Tokens minted before sessions were stamped carry no `sid` and pass. A
+	// failed lookup fails closed, unlike the suspension check: the point of
+	// revoking is that a stolen token stops working, blip or no blip. 500,
+	// not 401, so the client retries instead of signing out.
+	if (req.sessionId) {
+		try {
+			if (!(await isSessionActive(req.sessionId))) {
+				return res.status(401).json({ error: 'Session revoked' });
+			}
+		} catch (err) {
+			console.error('Session lookup failed:', err);
+			return res.status(500).json({ error: 'Session check failed' });
+		}
+	}
+
+	next();
 }
 
 export function requireOwnership(req: AuthenticatedRequest, res: Response, next: NextFunction) {
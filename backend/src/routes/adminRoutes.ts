@@ -20,6 +20,17 @@ import {
   errorTimeseries,
   postForensics,
   restorePost,
+  reportQueue,
+  reportTarget,
+  reportAction,
+  moderationLog,
+  activeRestrictions,
+  userRestrictions,
+  imposeUserRestriction,
+  liftUserRestriction,
+  screeningRules,
+  addScreeningRule,
+  removeScreeningRule,
 } from "../controllers/adminController.js";
 
 // Public: Sign in with Apple (web) exchange -> admin access token.
@@ -59,4 +70,28 @@ adminRouter.get("/errors/timeseries", errorTimeseries);
 adminRouter.get("/posts/:userId/forensics", postForensics);
 adminRouter.post("/posts/:postId/restore", restorePost);
 
+// Report queue: open post/comment reports grouped by target, the actions a
+// moderator takes on them, and the audit trail of who did what.
+adminRouter.get("/reports", reportQueue);
+adminRouter.get("/reports/:targetType/:targetId", reportTarget);
+adminRouter.post("/reports/:targetType/:targetId/actions", reportAction);
+adminRouter.get("/moderation-log", moderationLog);
+
+// Account restrictions: suspensions (locked out of the API) and shadow bans
+// (content visible only to its author), each with a reason and optional expiry.
+adminRouter.get("/restrictions", activeRestrictions);
+adminRouter.get("/users/:userId/restrictions", userRestrictions);
+adminRouter.post("/users/:userId/restrictions", imposeUserRestriction);
+adminRouter.post(
+  "/users/:userId/restrictions/:restrictionId/lift",
+  liftUserRestriction,
+);
+
+// Content screening rules. Matches file screening reports into the queue
+// above; 'hold' rules also keep the content pending review until approved.
+// Delete is a POST so it goes through the dashboard's action proxy.
+adminRouter.get("/screening-rules", screeningRules);
+adminRouter.post("/screening-rules", addScreeningRule);
+adminRouter.post("/screening-rules/:ruleId/delete", removeScreeningRule);
+
 export default adminRouter;
@@ -1,12 +1,43 @@
 import { Router } from 'express';
-import { signIn, refresh, logout, logoutAll } from '../controllers/authController.js';
+import {
+	signIn,
+	signInWithGoogle,
+	requestEmailSignIn,
+	verifyEmailSignIn,
+	getIdentities,
+	linkApple,
+	linkGoogle,
+	requestEmailLink,
+	verifyEmailLink,
+	unlinkProvider,
+	getSessions,
+	revokeSession,
+	refresh,
+	logout,
+	logoutAll
+} from '../controllers/authController.js';
 import { authenticateToken } from '../middleware/auth.js';
 
 const router = Router();
 
 router.post('/signin', signIn);
+router.post('/google', signInWithGoogle);
+router.post('/email/request', requestEmailSignIn);
+router.post('/email/verify', verifyEmailSignIn);
 router.post('/refresh', refresh);
 router.post('/logout', logout);
 router.post('/logout-all', authenticateToken, logoutAll);
 
+// Signed-in devices (one per refresh-token family).
+router.get('/sessions', authenticateToken, getSessions);
+router.delete('/sessions/:familyId', authenticateToken, revokeSession);
+
+// Sign-in methods on the caller's own account (account linking).
+router.get('/identities', authenticateToken, getIdentities);
+router.post('/identities/apple', authenticateToken, linkApple);
+router.post('/identities/google', authenticateToken, linkGoogle);
+router.post('/identities/email/request', authenticateToken, requestEmailLink);
+router.post('/identities/email/verify', authenticateToken, verifyEmailLink);
+router.delete('/identities/:provider', authenticateToken, unlinkProvider);
+
 export default router;
@@ -17,6 +17,25 @@ import {
 } from "../controllers/competitionController.js";
 import { nudgeUser } from "../controllers/nudgeController.js";
 import { flexOnUser, getFlexPresets } from "../controllers/flexController.js";
+import {
+  createTemplateController,
+  deleteTemplateController,
+  getSeasonController,
+  listTemplatesController,
+  spawnTemplateController,
+  updateTemplateController,
+} from "../controllers/competitionTemplateController.js";
+import {
+  addSeasonMemberController,
+  createSeasonController,
+  deleteSeasonController,
+  getSeasonHistoryController,
+  getSeasonLadderController,
+  getSeasonRecordController,
+  listSeasonsController,
+  removeSeasonMemberController,
+  updateSeasonController,
+} from "../controllers/competitionSeasonController.js";
 
 const router = Router();
 
@@ -27,6 +46,24 @@ router.get("/", getAllComps);
 router.get("/invites", getCompInvites);
 router.get("/flex/presets", getFlexPresets);
 router.get("/record", getCompRecord);
+router.get("/record/seasons", getSeasonRecordController);
+router.get("/seasons", listSeasonsController);
+router.post("/seasons", createSeasonController);
+router.patch("/seasons/:seasonId", updateSeasonController);
+router.delete("/seasons/:seasonId", deleteSeasonController);
+router.post("/seasons/:seasonId/members", addSeasonMemberController);
+router.delete(
+  "/seasons/:seasonId/members/:userId",
+  removeSeasonMemberController,
+);
+router.get("/seasons/:seasonId/ladder", getSeasonLadderController);
+router.get("/seasons/:seasonId/history", getSeasonHistoryController);
+router.get("/templates", listTemplatesController);
+router.post("/templates", createTemplateController);
+router.patch("/templates/:templateId", updateTemplateController);
+router.delete("/templates/:templateId", deleteTemplateController);
+router.post("/templates/:templateId/spawn", spawnTemplateController);
+router.get("/templates/:templateId/season", getSeasonController);
 router.get("/:competitionId", getComp);
 router.patch("/:competitionId", updateComp);
 router.delete("/:competitionId", deleteComp);
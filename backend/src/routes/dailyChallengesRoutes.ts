@@ -4,6 +4,7 @@ import {
   getCompletionsForUser,
   getCompletionDetailForUser,
   getMatchupHistoryForUser,
+  getRivalrySummaryForUser,
 } from "../controllers/dailyChallengeController.js";
 import { requireSelfAccess } from "../middleware/auth.js";
 
@@ -14,6 +15,11 @@ router.get(
   requireSelfAccess("userId"),
   getMatchupHistoryForUser,
 );
+router.get(
+  "/:userId/challenges/rivalries",
+  requireSelfAccess("userId"),
+  getRivalrySummaryForUser,
+);
 router.get(
   "/:userId/challenges/:localDate/detail",
   requireSelfAccess("userId"),
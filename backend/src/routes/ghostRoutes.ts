@@ -1,5 +1,9 @@
 import { Router } from "express";
-import { friendGhosts, ghostHistory } from "../controllers/ghostController.js";
+import {
+  friendGhosts,
+  ghostHistory,
+  workoutGhost,
+} from "../controllers/ghostController.js";
 
 const router = Router();
 
@@ -9,5 +13,8 @@ const router = Router();
 router.get("/friends", friendGhosts);
 // Your own races, wins and losses. Self-scoped on the token.
 router.get("/history", ghostHistory);
+// A whole workout as a per-split ghost — your own past effort or a friend's.
+// Gated on the workout's owner in the service; read-only like the picker.
+router.get("/workouts/:workoutId", workoutGhost);
 
 export default router;
@@ -0,0 +1,19 @@
+import { Router } from "express";
+import {
+  acceptRematchController,
+  cancelRematchController,
+  createRematchController,
+  declineRematchController,
+  listRematchesController,
+} from "../controllers/h2hController.js";
+
+const router = Router();
+
+// Scoped on req.userId (mounted after authenticateToken in server.ts).
+router.get("/rematches", listRematchesController);
+router.post("/rematches", createRematchController);
+router.post("/rematches/:rematchId/accept", acceptRematchController);
+router.post("/rematches/:rematchId/decline", declineRematchController);
+router.post("/rematches/:rematchId/cancel", cancelRematchController);
+
+export default router;
@@ -9,9 +9,11 @@ import {
 const router = Router();
 
 // All self-scoped on req.userId (mounted after authenticateToken in
-// server.ts). Presence is pull-only: the tracker starts a session, beats
+// server.ts). Presence is pull-first: the tracker starts a session, beats
 // every ~45s (the response carries friends-out + hypes-since-start), and
-// ends it on stop. See liveTrackingService for the presence window.
+// ends it on stop. A client holding GET /realtime/stream also gets the same
+// rows pushed as they happen, but keeps beating either way. See
+// liveTrackingService for the presence window.
 router.post("/start", startLiveTracking);
 router.post("/heartbeat", liveTrackingHeartbeat);
 router.post("/end", endLiveTracking);
@@ -0,0 +1,15 @@
+import { Router } from "express";
+import {
+  createPrivacyZoneController,
+  deletePrivacyZoneController,
+  listPrivacyZonesController,
+} from "../controllers/privacyZoneController.js";
+
+const router = Router();
+
+// Scoped on req.userId (mounted after authenticateToken in server.ts).
+router.get("/", listPrivacyZonesController);
+router.post("/", createPrivacyZoneController);
+router.delete("/:zoneId", deletePrivacyZoneController);
+
+export default router;
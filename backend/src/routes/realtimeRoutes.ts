@@ -0,0 +1,10 @@
+import { Router } from "express";
+import { realtimeStreamController } from "../controllers/realtimeController.js";
+
+const router = Router();
+
+// Mounted BEFORE authenticateToken in server.ts: the controller verifies the
+// token itself so EventSource clients can pass it as ?access_token=.
+router.get("/stream", realtimeStreamController);
+
+export default router;
@@ -0,0 +1,24 @@
+import { Router } from "express";
+import {
+  createSegmentController,
+  deleteSegmentController,
+  getSegmentController,
+  mySegmentsController,
+  nearbySegmentsController,
+  segmentLeaderboardController,
+  workoutEffortsController,
+} from "../controllers/segmentController.js";
+
+const router = Router();
+
+// Scoped on req.userId (mounted after authenticateToken in server.ts). The
+// fixed paths stay above "/:segmentId" so they're never looked up as ids.
+router.post("/", createSegmentController);
+router.get("/nearby", nearbySegmentsController);
+router.get("/mine", mySegmentsController);
+router.get("/workouts/:workoutId/efforts", workoutEffortsController);
+router.get("/:segmentId", getSegmentController);
+router.delete("/:segmentId", deleteSegmentController);
+router.get("/:segmentId/leaderboard", segmentLeaderboardController);
+
+export default router;
@@ -0,0 +1,22 @@
+import { Router } from "express";
+import {
+  abandonController,
+  enrollController,
+  getMyPlanController,
+  getPlanController,
+  historyController,
+  listPlansController,
+} from "../controllers/trainingPlanController.js";
+
+const router = Router();
+
+// Self-scoped on req.userId (mounted after authenticateToken in server.ts).
+// "/me" routes stay above "/:planKey" so "me" is never looked up as a plan.
+router.get("/", listPlansController);
+router.get("/me", getMyPlanController);
+router.post("/me", enrollController);
+router.delete("/me", abandonController);
+router.get("/me/history", historyController);
+router.get("/:planKey", getPlanController);
+
+export default router;
@@ -9,6 +9,7 @@ import {
   checkUsername,
   updateUserBio,
   updateUserProfileImage,
+  updateUserTimezone,
   updateUserOnboarding,
   uploadProfileImage,
 } from "../controllers/usersController.js";
@@ -21,6 +22,14 @@ import {
   requestStreakAssistController,
   respondToAssistOfferController,
 } from "../controllers/streakFeaturesController.js";
+import {
+  requestDataExportController,
+  getDataExportController,
+} from "../controllers/dataExportController.js";
+import {
+  getDailyGoalController,
+  setDailyGoalController,
+} from "../controllers/dailyGoalController.js";
 
 const upload = multer({
   storage: multer.memoryStorage(),
@@ -52,6 +61,31 @@ router.post(
   respondToAssistOfferController,
 );
 
+// Account data export. Self-only both ways: the archive is everything the
+// account holds, and requesting one reads all of it.
+router.post(
+  "/:userId/export",
+  requireSelfAccess("userId"),
+  requestDataExportController,
+);
+router.get(
+  "/:userId/export",
+  requireSelfAccess("userId"),
+  getDataExportController,
+);
+
+// Daily goal (distance, minutes or steps), with dated history.
+router.get(
+  "/:userId/daily-goal",
+  requireSelfAccess("userId"),
+  getDailyGoalController,
+);
+router.put(
+  "/:userId/daily-goal",
+  requireSelfAccess("userId"),
+  setDailyGoalController,
+);
+
 router.get("/search", searchUsers);
 router.get("/check-username", checkUsername);
 router.get("/:userId", getUser);
@@ -63,6 +97,11 @@ router.patch(
   updateUserUsername,
 );
 router.patch("/:userId/bio", requireSelfAccess("userId"), updateUserBio);
+router.patch(
+  "/:userId/timezone",
+  requireSelfAccess("userId"),
+  updateUserTimezone,
+);
 router.patch(
   "/:userId/onboarding",
   requireSelfAccess("userId"),
@@ -0,0 +1,22 @@
+import { Router } from "express";
+import {
+  createWebhookController,
+  deleteWebhookController,
+  listWebhooksController,
+  testWebhookController,
+  updateWebhookController,
+  webhookDeliveriesController,
+} from "../controllers/webhookController.js";
+
+const router = Router();
+
+// Self-scoped on req.userId (mounted after authenticateToken in server.ts);
+// every :webhookId is checked against the caller's ownership in the service.
+router.get("/", listWebhooksController);
+router.post("/", createWebhookController);
+router.patch("/:webhookId", updateWebhookController);
+router.delete("/:webhookId", deleteWebhookController);
+router.get("/:webhookId/deliveries", webhookDeliveriesController);
+router.post("/:webhookId/test", testWebhookController);
+
+export default router;
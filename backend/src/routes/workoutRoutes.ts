@@ -1,4 +1,5 @@
-import { Router } from "express";
+import { RequestHandler, Router } from "express";
+import multer from "multer";
 import {
   getRecentWorkouts,
   getStreak,
@@ -9,6 +10,8 @@ import {
   recalibrateStreak,
   deleteWorkout,
   getUserRoutesController,
+  getHeatmapInfoController,
+  getHeatmapTileController,
   getWorkoutRouteController,
   getRaceRecords,
   getRaceHistoryController,
@@ -16,12 +19,58 @@ import {
   getDuplicates,
   setDuplicateDecisionController,
   resolveDuplicates,
+  importWorkout,
 } from "../controllers/workoutController.js";
+import {
+  getPaceAnalyticsController,
+  getWorkoutPaceAnalyticsController,
+} from "../controllers/paceAnalyticsController.js";
 import { requireSelfAccess } from "../middleware/auth.js";
+import { detectImportFormat } from "../services/workoutImportService.js";
+import { BadRequestError } from "../errors/Errors.js";
+
+// Device exports. Filtered on extension rather than mimetype: GPX/TCX/FIT have
+// no registered types, and every browser and OS labels them differently.
+// 10MB covers a multi-hour GPX with a point every second.
+const importUpload = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: 10 * 1024 * 1024 },
+  fileFilter: (_req, file, cb) => {
+    if (detectImportFormat(file.originalname)) {
+      cb(null, true);
+    } else {
+      cb(new BadRequestError("unsupported_format"));
+    }
+  },
+});
+
+// multer hands a rejected or oversized file to next(err), where the global
+// handler would answer 500. Both are the client's to fix, so answer 400 with a
+// code like the import's own validation errors.
+const importFile: RequestHandler = (req, res, next) => {
+  importUpload.single("file")(req, res, (err: unknown) => {
+    if (err instanceof BadRequestError) {
+      res.status(400).json({ error: err.message });
+    } else if (err instanceof multer.MulterError) {
+      res.status(400).json({
+        error: err.code === "LIMIT_FILE_SIZE" ? "file_too_large" : "invalid_upload",
+      });
+    } else {
+      next(err);
+    }
+  });
+};
 
 const router = Router();
 
 router.post("/:userId/upload", requireSelfAccess("userId"), uploadWorkouts);
+// Ownership is checked before multer so a foreign upload is never buffered.
+router.post(
+  "/:userId/import",
+  requireSelfAccess("userId"),
+  importFile,
+  importWorkout,
+);
 router.post(
   "/:userId/recalibrate-streak",
   requireSelfAccess("userId"),
@@ -64,10 +113,34 @@ router.get(
   requireSelfAccess("userId"),
   getUserRoutesController,
 );
+// The same history rendered server-side as map tiles. Self-only for the same
+// reason as /routes: it is every route the user has ever run.
+router.get(
+  "/:userId/heatmap",
+  requireSelfAccess("userId"),
+  getHeatmapInfoController,
+);
+router.get(
+  "/:userId/heatmap/:z/:x/:y",
+  requireSelfAccess("userId"),
+  getHeatmapTileController,
+);
 // ONE workout's trace, readable by any authenticated user so a friend's workout
 // detail can draw its map — the same share_route_maps consent the feed applies
 // gates it, and it can never become the full-history dump above.
 router.get("/:userId/workout/:workoutId/route", getWorkoutRouteController);
+// Pace-zone analytics are self-only: they are derived from every split the
+// user has, and zones read against their own best mile — not a friend surface.
+router.get(
+  "/:userId/analytics",
+  requireSelfAccess("userId"),
+  getPaceAnalyticsController,
+);
+router.get(
+  "/:userId/workout/:workoutId/analytics",
+  requireSelfAccess("userId"),
+  getWorkoutPaceAnalyticsController,
+);
 router.get("/:userId/streak", getStreak);
 // Streak history ("eras") + longest-ever, readable by any authenticated user
 // (like /stats) so friend profiles can show the Hall of Streaks.
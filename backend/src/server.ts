@@ -22,8 +22,14 @@ import dailyStepsRoutes from "./routes/dailyStepsRoutes.js";
 import leaderboardRoutes from "./routes/leaderboardRoutes.js";
 import liveTrackingRoutes from "./routes/liveTrackingRoutes.js";
 import ghostRoutes from "./routes/ghostRoutes.js";
+import segmentRoutes from "./routes/segmentRoutes.js";
+import privacyZoneRoutes from "./routes/privacyZoneRoutes.js";
+import h2hRoutes from "./routes/h2hRoutes.js";
 import publicRoutes from "./routes/publicRoutes.js";
 import buddyRoutes from "./routes/buddyRoutes.js";
+import realtimeRoutes from "./routes/realtimeRoutes.js";
+import webhookRoutes from "./routes/webhookRoutes.js";
+import trainingPlanRoutes from "./routes/trainingPlanRoutes.js";
 import {
   authenticateToken,
   requireAdmin,
@@ -41,6 +47,8 @@ import { startBuddySessionCron } from "./cron/buddySessionCron.js";
 import { startWeeklyChallengeCron } from "./cron/weeklyChallengeCron.js";
 import { startH2hChallengeCron } from "./cron/h2hChallengeCron.js";
 import { startStreakFeaturesCron } from "./cron/streakFeaturesCron.js";
+import { startDataExportCron } from "./cron/dataExportCron.js";
+import { startWebhookCron } from "./cron/webhookCron.js";
 import { seedExtraBadges } from "./services/badgeService.js";
 import { seedExtraChallenges } from "./services/dailyChallengeService.js";
 import { seedWeeklyChallenges } from "./services/weeklyChallengeService.js";
@@ -61,7 +69,10 @@ import {
 // ANALYZE (~seconds), so an unthrottled public endpoint would be a cheap
 // amplification vector. One run per 20s is plenty for diagnosis.
 let lastFeedProfileAt = 0;
-import { verifyPostsMediaAccess } from "./services/mediaSigningService.js";
+import {
+  verifyPostsMediaAccess,
+  verifyExportAccess,
+} from "./services/mediaSigningService.js";
 import { webcrypto } from "node:crypto";
 
 (globalThis as any).crypto ??= webcrypto;
@@ -83,6 +94,8 @@ fs.mkdirSync(path.join(process.cwd(), "uploads", "posts"), { recursive: true });
 // profile images below stay public. Mounted BEFORE the general static
 // handler so unsigned /uploads/posts requests never reach the files.
 app.use("/uploads/posts", verifyPostsMediaAccess);
+// Account export archives: same signing, but the link expires with the file.
+app.use("/uploads/exports", verifyExportAccess);
 app.use("/uploads", express.static(path.join(process.cwd(), "uploads")));
 
 app.get("/status", (req, res) => {
@@ -309,6 +322,8 @@ app.use("/badges", publicBadgesRouter);
 app.use("/public", publicRoutes);
 // Admin login (Apple-web verify) is public — it's how the dashboard gets a token.
 app.use("/admin/auth", adminAuthRouter);
+// Server-push stream; authenticates itself (see realtimeController).
+app.use("/realtime", realtimeRoutes);
 
 app.use(authenticateToken);
 // Admin dashboard data — authenticated AND role=admin.
@@ -330,6 +345,11 @@ app.use("/leaderboard", leaderboardRoutes);
 app.use("/buddy", buddyRoutes);
 app.use("/live", liveTrackingRoutes);
 app.use("/ghosts", ghostRoutes);
+app.use("/segments", segmentRoutes);
+app.use("/privacy-zones", privacyZoneRoutes);
+app.use("/h2h", h2hRoutes);
+app.use("/webhooks", webhookRoutes);
+app.use("/training-plans", trainingPlanRoutes);
 
 app.use((err: Error, req: Request, res: Response, _next: NextFunction) => {
   console.error("Error:", err.message);
@@ -396,6 +416,8 @@ function startCrons() {
   startStreakFeaturesCron();
   startBuddySessionCron();
   startWeeklyChallengeCron();
+  startDataExportCron();
+  startWebhookCron();
   // Idempotently ensure the v2 social/app-function badges exist in the catalog.
   seedExtraBadges();
   // Idempotently ensure the v2 daily challenges (5K/10K/social) exist.
@@ -0,0 +1,350 @@
+import { randomUUID } from "node:crypto";
+import { PostgresService } from "./DbService.js";
+import { AccountSuspendedError, BadRequestError } from "../errors/Errors.js";
+import { revokeAllUserTokens } from "./refreshTokenService.js";
+import { closeStreams } from "./realtimeService.js";
+import type {
+  ActiveSuspension,
+  RestrictionKind,
+  UserRestriction,
+} from "../types/restrictions.js";
+
+/**
+ * Account-level enforcement: suspensions and shadow bans.
+ *
+ * A suspension locks the account out — `authenticateToken`, sign-in and token
+ * refresh all refuse it with `AccountSuspendedError`. A shadow ban leaves the
+ * account working but hides its content from everyone else: the feed, the
+ * stories rail, comments, leaderboards and friend suggestions all filter
+ * through `notShadowBannedSql` / `shadowBannedIdsSql`, each of which
+ * keeps the viewer's own content visible to them.
+ *
+ * Kept near the bottom of the import graph — the DB, the errors, the token
+ * store and the realtime registry only — so the middleware and the feed
+ * services can all depend on it.
+ * (The token store importing back is fine: both sides only call each other
+ * inside functions.)
+ */
+
+const db = PostgresService.getInstance();
+
+export const RESTRICTION_KINDS: RestrictionKind[] = ["suspension", "shadow_ban"];
+
+const MAX_RESTRICTION_DAYS = 3650;
+const REASON_MAX_LENGTH = 500;
+
+const ISO_TS = `'YYYY-MM-DD"T"HH24:MI:SS.MS"Z"'`;
+
+/** Row predicate for a restriction (aliased `alias`) that is in force now. */
+function activeSql(alias: string): string {
+  return `${alias}.lifted_at IS NULL
+		AND (${alias}.expires_at IS NULL OR ${alias}.expires_at > NOW())`;
+}
+
+/**
+ * Subquery yielding the ids of every currently shadow-banned user except
+ * `viewerParam` — for `NOT IN (...)` / `UNION` into a block list.
+ */
+export function shadowBannedIdsSql(viewerParam: string): string {
+  return `SELECT sb.user_id FROM user_restrictions sb
+		WHERE sb.kind = 'shadow_ban' AND sb.user_id <> ${viewerParam}
+			AND ${activeSql("sb")}`;
+}
+
+/**
+ * Predicate: content owned by `ownerCol` is visible to `viewerParam` — always
+ * their own, otherwise only if the owner is not shadow-banned.
+ */
+export function notShadowBannedSql(
+  ownerCol: string,
+  viewerParam: string,
+): string {
+  return `(${ownerCol} = ${viewerParam} OR NOT EXISTS (
+		SELECT 1 FROM user_restrictions sb
+		WHERE sb.user_id = ${ownerCol} AND sb.kind = 'shadow_ban'
+			AND ${activeSql("sb")}))`;
+}
+
+const RESTRICTION_COLUMNS = `r.id::text AS id, r.user_id, u.username, r.kind, r.reason,
+		to_char(r.expires_at AT TIME ZONE 'UTC', ${ISO_TS}) AS expires_at,
+		r.created_by, cu.username AS created_by_username,
+		to_char(r.created_at AT TIME ZONE 'UTC', ${ISO_TS}) AS created_at,
+		to_char(r.lifted_at AT TIME ZONE 'UTC', ${ISO_TS}) AS lifted_at,
+		r.lifted_by, r.lift_reason,
+		(${activeSql("r")}) AS active`;
+
+const RESTRICTION_FROM = `FROM user_restrictions r
+	JOIN users u ON u.user_id = r.user_id
+	LEFT JOIN users cu ON cu.user_id = r.created_by`;
+
+const RESTRICTION_SELECT = `SELECT ${RESTRICTION_COLUMNS} ${RESTRICTION_FROM}`;
+
+// authenticateToken runs on every request, so the suspension lookup is cached
+// per process. Impose/lift clear the entry here; another instance picks the
+// change up within the TTL, and a suspension's token revocation covers the
+// refresh path in the meantime. Stale entries are swept at most once per TTL
+// as new ones go in, so the map holds roughly the users seen in the last
+// minute rather than everyone since boot.
+const SUSPENSION_CACHE_TTL_MS = 30_000;
+const suspensionCache = new Map<
+  string,
+  { value: ActiveSuspension | null; at: number }
+>();
+let suspensionCacheSweptAt = Date.now();
+
+function cacheSuspension(userId: string, value: ActiveSuspension | null): void {
+  const now = Date.now();
+  if (now - suspensionCacheSweptAt >= SUSPENSION_CACHE_TTL_MS) {
+    for (const [key, entry] of suspensionCache) {
+      if (now - entry.at >= SUSPENSION_CACHE_TTL_MS) suspensionCache.delete(key);
+    }
+    suspensionCacheSweptAt = now;
+  }
+  suspensionCache.set(userId, { value, at: now });
+}
+
+/** The user's suspension in force right now, or null. */
+export async function getActiveSuspension(
+  userId: string,
+): Promise<ActiveSuspension | null> {
+  const cached = suspensionCache.get(userId);
+  if (cached && Date.now() - cached.at < SUSPENSION_CACHE_TTL_MS) {
+    // An expiry can pass inside the TTL — re-check it rather than serve it.
+    if (!cached.value?.expires_at) return cached.value;
+    if (new Date(cached.value.expires_at).getTime() > Date.now()) {
+      return cached.value;
+    }
+  }
+
+  const rows = await db.query<ActiveSuspension>(
+    `SELECT r.reason,
+			to_char(r.expires_at AT TIME ZONE 'UTC', ${ISO_TS}) AS expires_at
+		FROM user_restrictions r
+		WHERE r.user_id = $1 AND r.kind = 'suspension' AND ${activeSql("r")}`,
+    [userId],
+  );
+  const value = rows[0] ?? null;
+  cacheSuspension(userId, value);
+  return value;
+}
+
+/** Throws `AccountSuspendedError` if the user is suspended right now. */
+export async function assertNotSuspended(userId: string): Promise<void> {
+  const suspension = await getActiveSuspension(userId);
+  if (suspension) {
+    throw new AccountSuspendedError(suspension.expires_at, suspension.reason);
+  }
+}
+
+/** Whether the user is shadow-banned right now. */
+export async function isShadowBanned(userId: string): Promise<boolean> {
+  const rows = await db.query(
+    `SELECT 1 FROM user_restrictions r
+		WHERE r.user_id = $1 AND r.kind = 'shadow_ban' AND ${activeSql("r")}`,
+    [userId],
+  );
+  return rows.length > 0;
+}
+
+/** Every restriction the user has had, newest first. */
+export async function listRestrictions(
+  userId: string,
+): Promise<UserRestriction[]> {
+  return db.query<UserRestriction>(
+    `${RESTRICTION_SELECT}
+		WHERE r.user_id = $1
+		ORDER BY r.created_at DESC`,
+    [userId],
+  );
+}
+
+/** Restrictions in force right now, optionally of one kind, newest first. */
+export async function listActiveRestrictions(opts: {
+  kind: RestrictionKind | null;
+  limit: number;
+  offset: number;
+}): Promise<{ total: number; restrictions: UserRestriction[] }> {
+  if (opts.kind !== null && !RESTRICTION_KINDS.includes(opts.kind)) {
+    throw new BadRequestError("invalid_kind");
+  }
+  const rows = await db.query<UserRestriction & { total: number }>(
+    `SELECT ${RESTRICTION_COLUMNS}, COUNT(*) OVER ()::int AS total
+		${RESTRICTION_FROM}
+		WHERE ${activeSql("r")}
+			AND ($1::text IS NULL OR r.kind = $1)
+		ORDER BY r.created_at DESC
+		LIMIT $2 OFFSET $3`,
+    [opts.kind, opts.limit, opts.offset],
+  );
+  return {
+    total: rows[0]?.total ?? 0,
+    restrictions: rows.map(({ total: _total, ...row }) => row),
+  };
+}
+
+function validateReason(reason: unknown, code: string): string {
+  if (typeof reason !== "string") throw new BadRequestError(code);
+  const trimmed = reason.trim();
+  if (!trimmed || trimmed.length > REASON_MAX_LENGTH) {
+    throw new BadRequestError(code);
+  }
+  return trimmed;
+}
+
+/**
+ * Resolve the expiry from either `duration_days` or an explicit `expires_at`.
+ * Neither (or null) is a permanent restriction.
+ */
+function resolveExpiry(input: {
+  duration_days?: unknown;
+  expires_at?: unknown;
+}): string | null {
+  const hasDays = input.duration_days !== undefined && input.duration_days !== null;
+  const hasAt = input.expires_at !== undefined && input.expires_at !== null;
+  if (hasDays && hasAt) throw new BadRequestError("invalid_expiry");
+
+  if (hasDays) {
+    const days = Number(input.duration_days);
+    if (!Number.isInteger(days) || days < 1 || days > MAX_RESTRICTION_DAYS) {
+      throw new BadRequestError("invalid_duration_days");
+    }
+    return new Date(Date.now() + days * 86_400_000).toISOString();
+  }
+  if (hasAt) {
+    const at =
+      typeof input.expires_at === "string" ? Date.parse(input.expires_at) : NaN;
+    if (
+      Number.isNaN(at) ||
+      at <= Date.now() ||
+      at > Date.now() + MAX_RESTRICTION_DAYS * 86_400_000
+    ) {
+      throw new BadRequestError("invalid_expires_at");
+    }
+    return new Date(at).toISOString();
+  }
+  return null;
+}
+
+/**
+ * The statements that put a restriction in place: lift the current one of the
+ * same kind as "superseded", then insert the new row. Returned rather than run
+ * so the report queue can fold a suspension into its own audit transaction.
+ */
+export function restrictionStatements(
+  id: string,
+  adminId: string,
+  userId: string,
+  kind: RestrictionKind,
+  reason: string,
+  expiresAt: string | null,
+): { query: string; params: unknown[] }[] {
+  return [
+    {
+      query: `UPDATE user_restrictions
+				SET lifted_at = NOW(), lifted_by = $3, lift_reason = 'superseded'
+				WHERE user_id = $1 AND kind = $2 AND lifted_at IS NULL`,
+      params: [userId, kind, adminId],
+    },
+    {
+      query: `INSERT INTO user_restrictions
+				(id, user_id, kind, reason, expires_at, created_by)
+				VALUES ($1::uuid, $2, $3, $4, $5, $6)`,
+      params: [id, userId, kind, reason, expiresAt, adminId],
+    },
+  ];
+}
+
+/** Drop this process's cached suspension state after a change is committed. */
+export function forgetSuspension(userId: string): void {
+  suspensionCache.delete(userId);
+}
+
+/**
+ * Suspend or shadow-ban a user. Replaces any current restriction of the same
+ * kind (it is lifted as "superseded" in the same transaction), so re-imposing
+ * is how an admin extends or shortens one.
+ *
+ * A suspension also revokes every refresh token, signing the user out on all
+ * devices; their access tokens stop working at the next request.
+ */
+export async function imposeRestriction(
+  adminId: string,
+  userId: string,
+  input: {
+    kind?: unknown;
+    reason?: unknown;
+    duration_days?: unknown;
+    expires_at?: unknown;
+  },
+): Promise<UserRestriction> {
+  const kind = input.kind as RestrictionKind;
+  if (!RESTRICTION_KINDS.includes(kind)) {
+    throw new BadRequestError("invalid_kind");
+  }
+  const reason = validateReason(input.reason, "invalid_reason");
+  const expiresAt = resolveExpiry(input);
+
+  const users = await db.query<{ role: string | null }>(
+    `SELECT role FROM users WHERE user_id = $1`,
+    [userId],
+  );
+  if (users.length === 0) throw new BadRequestError("user_not_found");
+  if (users[0].role === "admin") {
+    throw new BadRequestError("cannot_restrict_admin");
+  }
+
+  const id = randomUUID();
+  await db.transaction(
+    restrictionStatements(id, adminId, userId, kind, reason, expiresAt),
+  );
+  forgetSuspension(userId);
+
+  if (kind === "suspension") {
+    await revokeAllUserTokens(userId, "suspended");
+    // Open event streams were authenticated before the suspension existed.
+    closeStreams(userId);
+  }
+
+  const [restriction] = await db.query<UserRestriction>(
+    `${RESTRICTION_SELECT} WHERE r.id = $1::uuid`,
+    [id],
+  );
+  return restriction;
+}
+
+/** Lift one of the user's restrictions early. */
+export async function liftRestriction(
+  adminId: string,
+  userId: string,
+  restrictionId: string,
+  input: { reason?: unknown },
+): Promise<UserRestriction> {
+  const liftReason =
+    input.reason === undefined || input.reason === null || input.reason === ""
+      ? null
+      : validateReason(input.reason, "invalid_reason");
+
+  const rows = await db.query<{ id: string }>(
+    `UPDATE user_restrictions
+		SET lifted_at = NOW(), lifted_by = $3, lift_reason = $4
+		WHERE id::text = $1 AND user_id = $2 AND lifted_at IS NULL
+		RETURNING id::text AS id`,
+    [restrictionId, userId, adminId, liftReason],
+  );
+  if (rows.length === 0) {
+    const exists = await db.query(
+      `SELECT 1 FROM user_restrictions WHERE id::text = $1 AND user_id = $2`,
+      [restrictionId, userId],
+    );
+    throw new BadRequestError(
+      exists.length > 0 ? "already_lifted" : "restriction_not_found",
+    );
+  }
+  forgetSuspension(userId);
+
+  const [restriction] = await db.query<UserRestriction>(
+    `${RESTRICTION_SELECT} WHERE r.id = $1::uuid`,
+    [rows[0].id],
+  );
+  return restriction;
+}
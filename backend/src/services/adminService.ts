@@ -386,7 +386,7 @@ export async function getUserDetail(userId: string) {
   );
 
   const devices = await db.query(
-    `SELECT environment, created_at, updated_at
+    `SELECT platform, environment, created_at, updated_at
      FROM device_tokens WHERE user_id = $1 ORDER BY updated_at DESC`,
     [userId],
   );
@@ -0,0 +1,237 @@
+import { createRemoteJWKSet, jwtVerify } from 'jose';
+import crypto from 'crypto';
+import { PostgresService } from './DbService.js';
+import { getUser } from './userService.js';
+import { BadRequestError, InvalidCredentialError } from '../errors/Errors.js';
+import { AuthIdentity, AuthProvider, VerifiedIdentity } from '../types/auth.js';
+
+const db = PostgresService.getInstance();
+
+export const AUTH_PROVIDERS: readonly AuthProvider[] = ['apple', 'google', 'email'];
+
+export function isAuthProvider(value: unknown): value is AuthProvider {
+	return typeof value === 'string' && (AUTH_PROVIDERS as readonly string[]).includes(value);
+}
+
+const APPLE_ISSUER = 'https://appleid.apple.com';
+const appleJwks = createRemoteJWKSet(new URL('https://appleid.apple.com/auth/keys'));
+
+// Google signs ID tokens with either issuer spelling.
+const GOOGLE_ISSUERS = ['https://accounts.google.com', 'accounts.google.com'];
+const googleJwks = createRemoteJWKSet(new URL('https://www.googleapis.com/oauth2/v3/certs'));
+
+// Comma-separated: the Android and web OAuth clients each mint tokens with their
+// own audience, and both must sign in to the same backend.
+function googleAudiences(): string[] {
+	return (process.env.GOOGLE_CLIENT_IDS ?? process.env.GOOGLE_CLIENT_ID ?? '')
+		.split(',')
+		.map(id => id.trim())
+		.filter(Boolean);
+}
+
+function claimIsTrue(value: unknown): boolean {
+	// Apple sends the boolean claims as strings ("true"); Google as booleans.
+	return value === true || value === 'true';
+}
+
+export async function verifyAppleIdentityToken(identityToken: string): Promise<VerifiedIdentity> {
+	const { payload } = await jwtVerify(identityToken, appleJwks, {
+		issuer: APPLE_ISSUER,
+		audience: process.env.APPLE_CLIENT_ID
+	});
+	const email = typeof payload.email === 'string' ? payload.email.trim().toLowerCase() : null;
+
+	return {
+		provider: 'apple',
+		subject: payload.sub as string,
+		email,
+		// Apple only puts addresses it has verified (or its private relay) in the token.
+		emailVerified: email !== null && (payload.email_verified === undefined || claimIsTrue(payload.email_verified))
+	};
+}
+
+export async function verifyGoogleIdToken(idToken: string): Promise<VerifiedIdentity> {
+	const audiences = googleAudiences();
+	if (!audiences.length) {
+		throw new InvalidCredentialError('google_sign_in_not_configured');
+	}
+
+	const { payload } = await jwtVerify(idToken, googleJwks, {
+		issuer: GOOGLE_ISSUERS,
+		audience: audiences
+	});
+	const email = typeof payload.email === 'string' ? payload.email.trim().toLowerCase() : null;
+
+	return {
+		provider: 'google',
+		subject: payload.sub as string,
+		email,
+		emailVerified: email !== null && claimIsTrue(payload.email_verified)
+	};
+}
+
+/**
+ * Find or create the account a verified credential signs in to.
+ *
+ * In order: the identity already linked to an account; for Apple, an account
+ * still carrying the `sub` only on users.apple_sub; an account holding another
+ * identity whose provider VERIFIED the same email, which the identity is then
+ * linked to; otherwise a new account.
+ *
+ * Both sides of an email match must be verified. An unverified address in the
+ * token would let anyone who can mint one take the account over; an
+ * unverified address on the account (users.email, which older builds took
+ * from the request body) would let someone pre-register a victim's address
+ * and collect their later Google or email-link sign-in.
+ */
+export async function resolveSignInUser(identity: VerifiedIdentity) {
+	// A fresh verified address from the provider also confirms the stored one,
+	// which is how backfilled Apple identities become matchable.
+	const linked = await db.query<{ user_id: string }>(
+		`UPDATE auth_identities
+		 SET last_used_at = NOW(),
+		     email = CASE WHEN $3::boolean THEN $4::text ELSE email END,
+		     email_verified = email_verified OR $3::boolean
+		 WHERE provider = $1 AND subject = $2
+		 RETURNING user_id`,
+		[identity.provider, identity.subject, identity.emailVerified, identity.email]
+	);
+	if (linked.length) {
+		return await getUser({ userId: linked[0].user_id });
+	}
+
+	if (identity.provider === 'apple') {
+		const [legacy] = await db.query<{ user_id: string }>('SELECT user_id FROM users WHERE apple_sub = $1', [
+			identity.subject
+		]);
+		if (legacy) {
+			await linkIdentity(legacy.user_id, identity);
+			return await getUser({ userId: legacy.user_id });
+		}
+	}
+
+	if (identity.email && identity.emailVerified) {
+		const [existing] = await db.query<{ user_id: string }>(
+			`SELECT user_id FROM auth_identities
+			 WHERE email_verified AND LOWER(email) = $1
+			 ORDER BY created_at ASC
+			 LIMIT 1`,
+			[identity.email]
+		);
+		if (existing) {
+			await linkIdentity(existing.user_id, identity);
+			return await getUser({ userId: existing.user_id });
+		}
+	}
+
+	const userId = crypto.randomUUID().replaceAll('-', '');
+	await db.transaction([
+		{
+			query: 'INSERT INTO users (user_id, email, apple_sub) VALUES ($1, $2, $3)',
+			params: [
+				userId,
+				identity.emailVerified ? identity.email : null,
+				identity.provider === 'apple' ? identity.subject : null
+			]
+		},
+		{
+			query: `INSERT INTO auth_identities (user_id, provider, subject, email, email_verified, last_used_at)
+			        VALUES ($1, $2, $3, $4, $5, NOW())`,
+			params: [userId, identity.provider, identity.subject, identity.email, identity.emailVerified]
+		}
+	]);
+
+	return await getUser({ userId });
+}
+
+/**
+ * Attach a verified credential to an existing account so it signs in to the
+ * same `users` row. Idempotent for an identity the account already holds.
+ */
+export async function linkIdentity(userId: string, identity: VerifiedIdentity): Promise<void> {
+	const [owner] = await db.query<{ user_id: string }>(
+		'SELECT user_id FROM auth_identities WHERE provider = $1 AND subject = $2',
+		[identity.provider, identity.subject]
+	);
+	if (owner) {
+		if (owner.user_id === userId) return;
+		throw new BadRequestError('identity_in_use');
+	}
+
+	const [sameProvider] = await db.query('SELECT 1 FROM auth_identities WHERE user_id = $1 AND provider = $2', [
+		userId,
+		identity.provider
+	]);
+	if (sameProvider) {
+		throw new BadRequestError('provider_already_linked');
+	}
+
+	if (identity.provider === 'apple') {
+		const [appleOwner] = await db.query<{ user_id: string }>('SELECT user_id FROM users WHERE apple_sub = $1', [
+			identity.subject
+		]);
+		if (appleOwner && appleOwner.user_id !== userId) {
+			throw new BadRequestError('identity_in_use');
+		}
+	}
+
+	await db.transaction([
+		{
+			query: `INSERT INTO auth_identities (user_id, provider, subject, email, email_verified, last_used_at)
+			        VALUES ($1, $2, $3, $4, $5, NOW())`,
+			params: [userId, identity.provider, identity.subject, identity.email, identity.emailVerified]
+		},
+		// Keep users.apple_sub filled for the Apple-only admin login.
+		...(identity.provider === 'apple'
+			? [
+					{
+						query: 'UPDATE users SET apple_sub = $2 WHERE user_id = $1 AND apple_sub IS NULL',
+						params: [userId, identity.subject]
+					}
+				]
+			: []),
+		...(identity.email && identity.emailVerified
+			? [
+					{
+						query: 'UPDATE users SET email = $2 WHERE user_id = $1 AND email IS NULL',
+						params: [userId, identity.email]
+					}
+				]
+			: [])
+	]);
+}
+
+export async function listIdentities(userId: string): Promise<AuthIdentity[]> {
+	return await db.query<AuthIdentity>(
+		`SELECT provider, email, created_at, last_used_at
+		 FROM auth_identities
+		 WHERE user_id = $1
+		 ORDER BY created_at ASC`,
+		[userId]
+	);
+}
+
+/** Detach a provider. The last remaining identity can't be removed. */
+export async function unlinkIdentity(userId: string, provider: AuthProvider): Promise<void> {
+	const rows = await db.query<{ provider: AuthProvider }>('SELECT provider FROM auth_identities WHERE user_id = $1', [
+		userId
+	]);
+	if (!rows.some(row => row.provider === provider)) {
+		throw new BadRequestError('identity_not_found');
+	}
+	if (rows.length === 1) {
+		throw new BadRequestError('last_identity');
+	}
+
+	await db.transaction([
+		{
+			query: 'DELETE FROM auth_identities WHERE user_id = $1 AND provider = $2',
+			params: [userId, provider]
+		},
+		// Freed so the Apple ID can sign up or link elsewhere without tripping
+		// the users.apple_sub unique key.
+		...(provider === 'apple'
+			? [{ query: 'UPDATE users SET apple_sub = NULL WHERE user_id = $1', params: [userId] }]
+			: [])
+	]);
+}
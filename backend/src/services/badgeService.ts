@@ -9,11 +9,11 @@ import type {
 } from "../types/badge.js";
 import { evaluateChallengesForBatch } from "./dailyChallengeService.js";
 import { evaluateWeeklyChallengeForUser } from "./weeklyChallengeService.js";
+import { emitWebhookEvent } from "./webhookService.js";
+import { getCurrentDailyGoal, qualifyingDaysSql } from "./dailyGoalService.js";
 
 const db = PostgresService.getInstance();
 
-const STREAK_QUALIFYING_DISTANCE = 0.95;
-
 // ─── Catalog reads ──────────────────────────────────────────────────
 
 export async function getCatalog(): Promise<Badge[]> {
@@ -339,34 +339,23 @@ async function computeSocialAggregates(userId: string): Promise<{
   }
 }
 
-// Longest trailing run of consecutive local_dates where SUM(distance) >= 0.95.
-// "Current streak" = ending at the most recent qualifying day (not necessarily today).
+// Longest trailing run of consecutive local_dates that met the daily goal in
+// force on them (`qualifyingDaysSql`). "Current streak" = ending at the most
+// recent qualifying day (not necessarily today).
 async function computeCurrentStreak(userId: string): Promise<number> {
-  const rows = await db.query<{ local_date: string; total: string }>(
-    `SELECT local_date::text AS local_date, SUM(distance)::text AS total
-		FROM workouts
-		WHERE user_id = $1 AND deleted_at IS NULL AND exclusion_reason IS NULL
-		GROUP BY local_date
-		ORDER BY local_date DESC`,
+  const rows = await db.query<{ local_date: string }>(
+    `SELECT to_char(q.local_date, 'YYYY-MM-DD') AS local_date
+		FROM (${qualifyingDaysSql("$1")}) q
+		ORDER BY q.local_date DESC`,
     [userId],
   );
   if (rows.length === 0) return 0;
 
-  // Skip leading days until we find a qualifying one — that's the streak endpoint.
-  let i = 0;
-  while (
-    i < rows.length &&
-    parseFloat(rows[i].total) < STREAK_QUALIFYING_DISTANCE
-  )
-    i++;
-  if (i >= rows.length) return 0;
-
   let streak = 1;
-  let prevDate = rows[i].local_date;
-  for (let j = i + 1; j < rows.length; j++) {
+  let prevDate = rows[0].local_date;
+  for (let j = 1; j < rows.length; j++) {
     const currDate = rows[j].local_date;
     if (!isPreviousDay(currDate, prevDate)) break;
-    if (parseFloat(rows[j].total) < STREAK_QUALIFYING_DISTANCE) break;
     streak++;
     prevDate = currDate;
   }
@@ -387,15 +376,20 @@ export async function evaluateForUser(
   userId: string,
   newWorkoutIds: string[],
 ): Promise<{ newlyEarnedBadges: UserBadge[] }> {
-  const [aggregates, catalog, earned] = await Promise.all([
+  const [aggregates, catalog, earned, goal] = await Promise.all([
     computeAggregates(userId),
     getCatalog(),
     getEarnedBadgeIds(userId),
+    getCurrentDailyGoal(userId),
   ]);
 
   const triggeringWorkoutId = newWorkoutIds[newWorkoutIds.length - 1] ?? null;
   const snapshot = {
     streak: aggregates.currentStreak,
+    // What a streak day meant when the badge was earned, so "30-day streak"
+    // can say "30 days of 8,000 steps" rather than implying miles.
+    streakGoalType: goal.goal_type,
+    streakGoalLabel: goal.label,
     totalMiles: roundTo(aggregates.totalMiles, 2),
     fastestMilePace: roundTo(aggregates.fastestSplitPaceMinMi, 3),
     mostMilesInOneDay: roundTo(aggregates.mostMilesInOneDay, 2),
@@ -444,7 +438,26 @@ export async function evaluateForUser(
     [userId, insertedIds],
   );
 
-  return { newlyEarnedBadges: newlyEarnedBadges.map(rowToUserBadge) };
+  const earnedBadges = newlyEarnedBadges.map(rowToUserBadge);
+  // Keyed on earned_at too: a badge revoked by a deletion and earned again is
+  // a second event.
+  for (const badge of earnedBadges) {
+    void emitWebhookEvent(
+      userId,
+      "badge.earned",
+      `${badge.badgeId}:${badge.earnedAt}`,
+      {
+        badge_id: badge.badgeId,
+        name: badge.name,
+        category: badge.category,
+        rarity: badge.rarity,
+        earned_at: badge.earnedAt,
+        triggering_workout_id: badge.triggeringWorkoutId ?? null,
+      },
+    );
+  }
+
+  return { newlyEarnedBadges: earnedBadges };
 }
 
 async function getEarnedBadgeIds(userId: string): Promise<Set<string>> {
@@ -620,7 +633,7 @@ export async function evaluateSocialBadgesForUser(
 // ─── Revocation (after a workout is deleted/excluded) ───────────────
 
 /**
- * Longest run of consecutive qualifying days (SUM(distance) >= 0.95) over the
+ * Longest run of consecutive qualifying days (`qualifyingDaysSql`) over the
  * user's entire ACTIVE history (deleted/excluded workouts already filtered out).
  * Used for revocation: a streak badge means "you reached N consecutive days at
  * some point", so we keep it as long as that's still true of the real history —
@@ -629,12 +642,9 @@ export async function evaluateSocialBadgesForUser(
  */
 async function computeMaxEverStreak(userId: string): Promise<number> {
   const rows = await db.query<{ local_date: string }>(
-    `SELECT to_char(local_date, 'YYYY-MM-DD') AS local_date
-		FROM workouts
-		WHERE user_id = $1 AND deleted_at IS NULL AND exclusion_reason IS NULL
-		GROUP BY local_date
-		HAVING SUM(distance) >= ${STREAK_QUALIFYING_DISTANCE}
-		ORDER BY local_date ASC`,
+    `SELECT to_char(q.local_date, 'YYYY-MM-DD') AS local_date
+		FROM (${qualifyingDaysSql("$1")}) q
+		ORDER BY q.local_date ASC`,
     [userId],
   );
   let best = 0;
@@ -2,6 +2,7 @@ import { PostgresService } from "./DbService.js";
 import { BadRequestError } from "../errors/Errors.js";
 import { createSession, validateGoal } from "./buddySessionService.js";
 import { logError } from "./errorLogService.js";
+import { isValidTimeZone } from "./dailyResetTime.js";
 import type { BuddyActivityType, BuddyMode } from "../types/buddy.js";
 
 const db = PostgresService.getInstance();
@@ -67,16 +68,11 @@ export interface RecurringWalkInput {
  * at QUERY time — inside the cron, where it would abort the sweep for every
  * OTHER user's routine too. Validated once at write instead.
  */
-function assertValidTimezone(tz: unknown): string {
-  if (typeof tz !== "string" || tz.length === 0 || tz.length > 64) {
+async function assertValidTimezone(tz: unknown): Promise<string> {
+  if (!(await isValidTimeZone(tz))) {
     throw new BadRequestError("invalid_timezone");
   }
-  try {
-    new Intl.DateTimeFormat("en-US", { timeZone: tz });
-  } catch {
-    throw new BadRequestError("invalid_timezone");
-  }
-  return tz;
+  return tz as string;
 }
 
 /** 0=Sunday … 6=Saturday, deduped and sorted. At least one day. */
@@ -121,7 +117,7 @@ export async function createRecurringWalk(
 ): Promise<BuddyRecurringWalk> {
   const days = normalizeDays(input.daysOfWeek);
   const minutes = normalizeMinutes(input.minutesOfDay);
-  const timezone = assertValidTimezone(input.timezone);
+  const timezone = await assertValidTimezone(input.timezone);
   // The same rule create/PATCH use, so a routine can never spawn a session the
   // session endpoint itself would reject.
   const goalValue = validateGoal(input.mode, input.goalValue ?? null);
@@ -215,7 +211,9 @@ export async function updateRecurringWalk(
       patch.minutesOfDay === undefined
         ? null
         : normalizeMinutes(patch.minutesOfDay),
-      patch.timezone === undefined ? null : assertValidTimezone(patch.timezone),
+      patch.timezone === undefined
+        ? null
+        : await assertValidTimezone(patch.timezone),
       patch.isActive === undefined ? null : patch.isActive,
     ],
   );
@@ -5,6 +5,13 @@ import { shouldSendNotification } from "./notificationSettingsService.js";
 import { CLIENT_FEATURES, userSupports } from "./clientFeatures.js";
 import { evaluateSocialBadgesForUser } from "./badgeService.js";
 import { logError } from "./errorLogService.js";
+import { localTodaySql } from "./dailyResetTime.js";
+import {
+  blockedAmong,
+  connectedAmong,
+  hasSubscribers,
+  publish,
+} from "./realtimeService.js";
 import { BadRequestError } from "../errors/Errors.js";
 import {
   BUDDY_ABANDON_HOURS,
@@ -106,6 +113,70 @@ async function bumpVersion(sessionId: string): Promise<void> {
     `UPDATE buddy_sessions SET state_version = state_version + 1 WHERE id = $1`,
     [sessionId],
   );
+  pushSessionState(sessionId);
+}
+
+// ─── Realtime ───────────────────────────────────────────────────────────
+
+/**
+ * Window in which a burst of mutations collapses into one pushed snapshot. A
+ * progress report is several writes (progress, bump, maybe finalize); the
+ * roster only needs to see where they landed.
+ */
+const STATE_PUSH_COALESCE_MS = 250;
+const pendingStatePushes = new Set<string>();
+
+/**
+ * Stream the session's snapshot to every participant with an open
+ * /realtime/stream. The polling cursor stays authoritative — this only saves
+ * a connected client its next poll — so callers fire and forget, alongside
+ * every state_version bump.
+ */
+function pushSessionState(sessionId: string): void {
+  if (!hasSubscribers() || pendingStatePushes.has(sessionId)) return;
+  pendingStatePushes.add(sessionId);
+  setTimeout(() => {
+    pendingStatePushes.delete(sessionId);
+    void publishSessionState(sessionId);
+  }, STATE_PUSH_COALESCE_MS).unref();
+}
+
+async function publishSessionState(sessionId: string): Promise<void> {
+  try {
+    const session = await getSessionRow(sessionId);
+    if (!session) return;
+    const participants = await loadParticipants(
+      sessionId,
+      session.host_user_id,
+    );
+    const recipients = connectedAmong(
+      participants
+        .filter((p) => p.status !== "left" && p.status !== "declined")
+        .map((p) => p.user_id),
+    );
+    if (recipients.length === 0) return;
+
+    // A block raised mid-session hides that person from the blocker's roster
+    // (and vice versa), the same as every other social surface. Group totals
+    // stay whole — they describe the walk, not any one person.
+    const blocked = await blockedAmong(
+      recipients,
+      participants.map((p) => p.user_id),
+    );
+    const state = toState(session, participants);
+    publish(recipients, "buddy.state", (userId: string) => {
+      const hidden = blocked.get(userId);
+      if (!hidden) return state;
+      return {
+        ...state,
+        participants: state.participants.filter((p) => !hidden.has(p.user_id)),
+      };
+    });
+  } catch (err) {
+    void logError("buddy", "failed to push session state", {
+      context: { sessionId, error: String(err) },
+    });
+  }
 }
 
 // ─── Reads ──────────────────────────────────────────────────────────────
@@ -329,7 +400,7 @@ export async function createSession(
            (join_code, host_user_id, mode, goal_value, activity_type, status,
             origin, scheduled_start_at, local_date)
          VALUES ($1, $2, $3, $4, $5, 'lobby', $6, $7::timestamptz,
-                 ((NOW() AT TIME ZONE 'America/New_York')::date))
+                 ${localTodaySql("$2")})
          RETURNING id`,
         [
           joinCode,
@@ -525,6 +596,7 @@ export async function joinSession(
       [sessionId],
     );
     await client.query("COMMIT");
+    pushSessionState(sessionId);
   } catch (e) {
     try {
       await client.query("ROLLBACK");
@@ -804,6 +876,7 @@ export async function updateSession(
   // Lost the race to a start that landed first. Report it as the state the
   // caller will now see rather than as a failure to write.
   if (changed.length === 0) throw new BadRequestError("session_not_editable");
+  pushSessionState(sessionId);
 
   if (patch.inviteUserIds?.length) {
     await addInvitees(sessionId, userId, patch.inviteUserIds);
@@ -885,6 +958,7 @@ async function activateSession(
     [sessionId, String(BUDDY_START_COUNTDOWN_SECONDS)],
   );
   if (started.length === 0) return false;
+  pushSessionState(sessionId);
 
   // Everyone still in the lobby becomes active. Invitees who never responded
   // are left behind rather than dragged in.
@@ -944,6 +1018,7 @@ export async function cancelSession(
   if (cancelled.length === 0) {
     throw new BadRequestError("session_not_cancellable");
   }
+  pushSessionState(sessionId);
 
   // Everyone still in the room is released. Deliberately NOT 'finished':
   // finished is what the history reads, and a walk nobody took must never
@@ -1365,6 +1440,8 @@ async function closeSession(
   );
 
   await recordEvent(sessionId, winnerId, "completed", { winnerId });
+  pushSessionState(sessionId);
+  void streamSessionFinished(sessionId, winnerId);
   void notifySessionFinished(sessionId);
 
   // Buddy medals are aggregate-driven; recompute for everyone who took part.
@@ -1382,6 +1459,32 @@ async function closeSession(
   }
 }
 
+/**
+ * The finish event, separate from the snapshot so a client can celebrate
+ * without diffing statuses. Sent to the people who walked it.
+ */
+async function streamSessionFinished(
+  sessionId: string,
+  winnerId: string | null,
+): Promise<void> {
+  if (!hasSubscribers()) return;
+  try {
+    const rows = await db.query<{ user_id: string }>(
+      `SELECT user_id FROM buddy_session_participants
+        WHERE session_id = $1 AND status = 'finished'`,
+      [sessionId],
+    );
+    publish(connectedAmong(rows.map((r) => r.user_id)), "buddy.finished", {
+      session_id: sessionId,
+      winner_user_id: winnerId,
+    });
+  } catch (err) {
+    void logError("buddy", "failed to stream session finish", {
+      context: { sessionId, error: String(err) },
+    });
+  }
+}
+
 async function notifySessionFinished(sessionId: string): Promise<void> {
   try {
     const rows = await db.query<{ user_id: string }>(
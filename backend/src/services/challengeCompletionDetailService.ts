@@ -1,4 +1,5 @@
 import { PostgresService } from "./DbService.js";
+import { getGoalMilesOn, goalMilesSql } from "./dailyGoalService.js";
 import {
   MIN_PLAUSIBLE_MILE_SECONDS,
   countedWorkoutSql,
@@ -133,7 +134,7 @@ export async function getCompletionDetail(
     case "bonus_mile":
       detail.distance = {
         miles: await dayTotalDistance(userId, localDate),
-        targetMiles: (await getGoalMiles(userId)) + 0.5,
+        targetMiles: (await getGoalMilesOn(userId, localDate)) + 0.5,
         scope: "all",
       };
       break;
@@ -157,7 +158,7 @@ export async function getCompletionDetail(
     case "walk_it_out":
       detail.distance = {
         miles: (await runWalkMix(userId, localDate)).walk,
-        targetMiles: await getGoalMiles(userId),
+        targetMiles: await getGoalMilesOn(userId, localDate),
         scope: "walking",
       };
       break;
@@ -528,7 +529,7 @@ async function timeWindowDetail(
 			EXTRACT(HOUR FROM (device_end_date + timezone_offset * INTERVAL '1 minute'))::text AS local_hour
 		FROM workouts
 		WHERE user_id = $1 AND local_date = $2::date
-			AND distance >= (SELECT COALESCE(goal_miles, 1.0) FROM users WHERE user_id = $1) * 0.95
+			AND distance >= ${goalMilesSql("$1", "$2::date")} * 0.95
 			AND ${windowPredicate}
 			AND deleted_at IS NULL AND exclusion_reason IS NULL
 		ORDER BY device_end_date ASC
@@ -672,14 +673,6 @@ async function runWalkMix(
   return { run, walk };
 }
 
-async function getGoalMiles(userId: string): Promise<number> {
-  const rows = await db.query<{ goal_miles: string }>(
-    `SELECT goal_miles::text AS goal_miles FROM users WHERE user_id = $1`,
-    [userId],
-  );
-  return parseFloat(rows[0]?.goal_miles ?? "1.0") || 1.0;
-}
-
 function round2(n: number): number {
   return Math.round(n * 100) / 100;
 }
@@ -122,6 +122,17 @@ export const CLIENT_FEATURES = {
    * today's behaviour until they update.
    */
   buddyGroupPostV1: "buddy_group_post_v1",
+
+  /**
+   * The build has the rematch flow on the rivalry screen: it can send a
+   * rematch, and it can open, accept and decline one from an
+   * `h2h_rematch_*` push.
+   *
+   * Gated on the OPPONENT at create time, not just for the pushes: a rematch
+   * sent to someone whose build can't accept it would sit pending until it
+   * expired, which reads as being ignored.
+   */
+  h2hRematchV1: "h2h_rematch_v1",
 } as const;
 
 export type ClientFeature =
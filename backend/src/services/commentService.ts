@@ -11,6 +11,15 @@ import {
   notifyMentions,
   MentionedUser,
 } from "./mentionService.js";
+import {
+  isShadowBanned,
+  notShadowBannedSql,
+} from "./accountRestrictionService.js";
+import {
+  fileScreeningReports,
+  screenText,
+  visibleUnlessHeldSql,
+} from "./contentScreeningService.js";
 
 const db = PostgresService.getInstance();
 
@@ -27,6 +36,8 @@ export interface CommentRow {
   content: string;
   created_at: string;
   is_self: boolean;
+  /** Held by content screening: only its author sees it until approved. */
+  pending_review: boolean;
 }
 
 const COMMENT_SELECT = `
@@ -34,12 +45,14 @@ const COMMENT_SELECT = `
 	c.workout_id, c.user_id,
 	u.username, u.first_name, u.last_name, u.profile_image_url,
 	c.parent_comment_id, c.content, c.created_at,
-	(c.user_id = $1) AS is_self`;
+	(c.user_id = $1) AS is_self,
+	(c.held_at IS NOT NULL) AS pending_review`;
 
 /**
  * All live comments on a post, oldest first (client groups replies under
  * their parent_comment_id). Comments from users blocked either way vs the
- * viewer are hidden. Returns null when the post isn't visible to the viewer.
+ * viewer, or shadow-banned, are hidden, as are other people's comments held
+ * for review. Returns null when the post isn't visible to the viewer.
  */
 export async function listComments(
   viewerId: string,
@@ -67,6 +80,8 @@ export async function listComments(
 				 WHERE (b.blocker_id = $1 AND b.blocked_id = c.user_id)
 						OR (b.blocker_id = c.user_id AND b.blocked_id = $1)
 			 )
+			 AND ${notShadowBannedSql("c.user_id", "$1")}
+			 AND ${visibleUnlessHeldSql("c", "$1")}
 		 ORDER BY c.created_at ASC
 		 LIMIT 500`,
     [viewerId, postId],
@@ -94,6 +109,8 @@ export async function listWorkoutComments(
 				 WHERE (b.blocker_id = $1 AND b.blocked_id = c.user_id)
 						OR (b.blocker_id = c.user_id AND b.blocked_id = $1)
 			 )
+			 AND ${notShadowBannedSql("c.user_id", "$1")}
+			 AND ${visibleUnlessHeldSql("c", "$1")}
 		 ORDER BY c.created_at ASC
 		 LIMIT 500`,
     [viewerId, workoutId],
@@ -105,7 +122,8 @@ export async function listWorkoutComments(
  * nesting like Instagram: replying to a reply re-roots onto the top-level
  * parent. Notifies the post author (and the parent comment's author on a
  * reply) — fire-and-forget, gated on the shared social-interactions pref
- * ("hype", same bucket story reactions use).
+ * ("hype", same bucket story reactions use). The text is screened first; a
+ * held comment is saved with `pending_review` and notifies no one.
  */
 export async function addComment(
   commenterId: string,
@@ -143,18 +161,22 @@ export async function addComment(
     parentAuthor = parents[0].user_id;
   }
 
+  const screening = await screenText(content);
   const rows = await db.query<CommentRow>(
     `WITH inserted AS (
-			INSERT INTO post_comments (post_id, user_id, parent_comment_id, content)
-			VALUES ($2, $1, $3, $4)
+			INSERT INTO post_comments (post_id, user_id, parent_comment_id, content, held_at)
+			VALUES ($2, $1, $3, $4, CASE WHEN $5 THEN NOW() ELSE NULL END)
 			RETURNING *
 		)
 		SELECT ${COMMENT_SELECT}
 		FROM inserted c
 		JOIN users u ON u.user_id = c.user_id`,
-    [commenterId, postId, parentId, content],
+    [commenterId, postId, parentId, content, screening.verdict === "hold"],
   );
   const comment = rows[0];
+  await fileScreeningReports("comment", comment.comment_id, screening.findings);
+  // Nobody else can see a held comment yet, so nobody is told about it.
+  if (comment.pending_review) return comment;
 
   notifyForComment(comment, commenterId, postAuthor, parentAuthor).catch(
     (e: any) => console.error("[addComment] notify failed:", e?.message ?? e),
@@ -192,18 +214,21 @@ export async function addWorkoutComment(
     parentAuthor = parents[0].user_id;
   }
 
+  const screening = await screenText(content);
   const rows = await db.query<CommentRow>(
     `WITH inserted AS (
-			INSERT INTO post_comments (workout_id, user_id, parent_comment_id, content)
-			VALUES ($2, $1, $3, $4)
+			INSERT INTO post_comments (workout_id, user_id, parent_comment_id, content, held_at)
+			VALUES ($2, $1, $3, $4, CASE WHEN $5 THEN NOW() ELSE NULL END)
 			RETURNING *
 		)
 		SELECT ${COMMENT_SELECT}
 		FROM inserted c
 		JOIN users u ON u.user_id = c.user_id`,
-    [commenterId, workoutId, parentId, content],
+    [commenterId, workoutId, parentId, content, screening.verdict === "hold"],
   );
   const comment = rows[0];
+  await fileScreeningReports("comment", comment.comment_id, screening.findings);
+  if (comment.pending_review) return comment;
 
   notifyForComment(comment, commenterId, workoutAuthor, parentAuthor).catch(
     (e: any) =>
@@ -223,6 +248,8 @@ async function notifyForComment(
   postAuthor: string,
   parentAuthor: string | null,
 ): Promise<void> {
+  // Nobody else can see a shadow-banned user's comment, so nobody is told.
+  if (await isShadowBanned(commenterId)) return;
   let mentioned: MentionedUser[] = [];
   try {
     mentioned = await resolveMentions(comment.content, commenterId);
@@ -0,0 +1,478 @@
+import { PostgresService } from "./DbService.js";
+import { BadRequestError } from "../errors/Errors.js";
+import { areFriends } from "./friendshipService.js";
+import type {
+  CompetitionType,
+  LadderEntry,
+  LadderPointsAward,
+  LadderResponse,
+  LadderSeason,
+  LadderSeasonResult,
+} from "../types/competitions.js";
+
+const db = PostgresService.getInstance();
+
+/**
+ * Points-ladder seasons.
+ *
+ * The lifetime record (`getCompetitionRecord`) answers "how often do I win";
+ * a season answers "who's top of the office this quarter". A season is a date
+ * window plus a friend group. Every competition that finishes inside the
+ * window with at least two members in it awards each member points from their
+ * `competition_users.placement` and the size of the field, and the ladder is
+ * the sum.
+ *
+ * Points are written to `competition_season_points` when a competition
+ * finishes, rather than derived on every read, for the same reason the record
+ * read never calls `getUserScores`. Changing a season's window or members
+ * rebuilds that season's rows from placements, which are permanent.
+ */
+
+/** Longest window a season may cover. */
+const MAX_SEASON_DAYS = 366;
+
+/** Members per season, owner included. */
+const MAX_SEASON_MEMBERS = 50;
+
+/** Seasons a user may own at once. */
+const MAX_SEASONS_PER_OWNER = 10;
+
+const SEASON_NAME_MAX_LENGTH = 50;
+
+/** Point awards returned by the history read, newest first. */
+const SEASON_HISTORY_LIMIT = 100;
+
+/**
+ * Scoring: one point for finishing, one for every entrant placed below you,
+ * and a podium bonus on top — so a win in a field of eight is worth
+ * 1 + 7 + 5 = 13 and last place is worth 1. Bigger fields are worth more to
+ * win, and turning up is never worth nothing.
+ *
+ * The field is counted in entrants, the same units placements are in: in a
+ * team competition each team is one entrant (its members share a placement)
+ * and each unassigned participant is one more, so 2nd of two teams of five
+ * earns 1 + 0 + 3 = 4, not 1 + 8 + 3.
+ */
+const FINISH_POINTS = 1;
+const PODIUM_BONUS = [5, 3, 1];
+
+const POINTS_SQL = `${FINISH_POINTS} + (pc.n - cu.placement) + CASE cu.placement
+  ${PODIUM_BONUS.map((bonus, i) => `WHEN ${i + 1} THEN ${bonus}`).join(" ")}
+  ELSE 0 END`;
+
+/**
+ * Award rows for every qualifying (season, competition, member), restricted by
+ * `scope` to one season or one competition. A competition qualifies when it
+ * ended inside the window, at least two season members were in it, and it has
+ * a placement (pre-placement competitions can't be scored) among at least two
+ * entrants.
+ */
+function awardSql(scope: "season" | "competition"): string {
+  return `INSERT INTO competition_season_points
+      (season_id, competition_id, user_id, placement, participant_count, points)
+    SELECT s.id, c.id, cu.user_id, cu.placement, pc.n, ${POINTS_SQL}
+      FROM competition_seasons s
+      JOIN competition_season_members m ON m.season_id = s.id
+      JOIN competition_users cu
+        ON cu.user_id = m.user_id
+       AND cu.invite_status = 'accepted'
+       AND cu.placement IS NOT NULL
+      JOIN competitions c
+        ON c.id = cu.competition_id
+       AND c.ended = TRUE
+       AND c.end_date BETWEEN s.start_date AND s.end_date
+      CROSS JOIN LATERAL (
+        SELECT COUNT(DISTINCT CASE
+                 WHEN cu2.team_id IS NOT NULL
+                  AND c.teams->'teams' @> jsonb_build_array(jsonb_build_object('id', cu2.team_id))
+                 THEN 'team:' || cu2.team_id
+                 ELSE 'user:' || cu2.user_id
+               END)::int AS n
+          FROM competition_users cu2
+         WHERE cu2.competition_id = c.id AND cu2.invite_status = 'accepted'
+      ) pc
+     WHERE ${scope === "season" ? "s.id" : "c.id"} = $1
+       AND pc.n >= 2
+       AND EXISTS (
+         SELECT 1 FROM competition_users cu3
+           JOIN competition_season_members m2
+             ON m2.season_id = s.id AND m2.user_id = cu3.user_id
+          WHERE cu3.competition_id = c.id
+            AND cu3.invite_status = 'accepted'
+            AND cu3.user_id <> cu.user_id)
+    ON CONFLICT DO NOTHING`;
+}
+
+/**
+ * Called once a competition's placements are final (every finish path reaches
+ * `resolveCompetitionPlacements`). Idempotent — a competition resolved twice
+ * awards once.
+ */
+export async function awardSeasonPoints(competitionId: string): Promise<void> {
+  await db.query(awardSql("competition"), [competitionId]);
+}
+
+/** Recompute one season from scratch after its window or members change. */
+async function rebuildSeasonPoints(seasonId: string): Promise<void> {
+  await db.transaction([
+    {
+      query: `DELETE FROM competition_season_points WHERE season_id = $1`,
+      params: [seasonId],
+    },
+    { query: awardSql("season"), params: [seasonId] },
+  ]);
+}
+
+function isRealDate(value: unknown): value is string {
+  if (typeof value !== "string" || !/^\d{4}-\d{2}-\d{2}$/.test(value)) {
+    return false;
+  }
+  const parsed = new Date(`${value}T00:00:00Z`);
+  return (
+    !Number.isNaN(parsed.getTime()) &&
+    parsed.toISOString().slice(0, 10) === value
+  );
+}
+
+function validateWindow(startDate: unknown, endDate: unknown): void {
+  if (!isRealDate(startDate) || !isRealDate(endDate)) {
+    throw new BadRequestError("invalid_season_dates");
+  }
+  const days =
+    (Date.parse(`${endDate}T00:00:00Z`) -
+      Date.parse(`${startDate}T00:00:00Z`)) /
+    86400000;
+  if (days < 0) throw new BadRequestError("invalid_season_dates");
+  if (days + 1 > MAX_SEASON_DAYS) {
+    throw new BadRequestError("season_too_long");
+  }
+}
+
+function validateSeasonName(name: unknown): string {
+  const trimmed = typeof name === "string" ? name.trim() : "";
+  if (trimmed.length === 0 || trimmed.length > SEASON_NAME_MAX_LENGTH) {
+    throw new BadRequestError("invalid_season_name");
+  }
+  return trimmed;
+}
+
+/** Members are the owner's friends — a ladder among strangers is a leaderboard. */
+async function assertFriendOfOwner(owner: string, userId: unknown) {
+  if (typeof userId !== "string" || !(await areFriends(owner, userId))) {
+    throw new BadRequestError("not_friends");
+  }
+}
+
+const SEASON_SELECT = `SELECT s.id, s.owner, s.name,
+    to_char(s.start_date, 'YYYY-MM-DD') AS start_date,
+    to_char(s.end_date, 'YYYY-MM-DD') AS end_date,
+    ARRAY(SELECT m.user_id FROM competition_season_members m
+           WHERE m.season_id = s.id ORDER BY m.joined_at) AS member_ids
+  FROM competition_seasons s`;
+
+/** A season the caller belongs to; anything else reads as not found. */
+async function getMemberSeason(
+  userId: string,
+  seasonId: string,
+): Promise<LadderSeason> {
+  const rows = await db.query<LadderSeason>(
+    `${SEASON_SELECT}
+      WHERE s.id = $1 AND EXISTS (
+        SELECT 1 FROM competition_season_members m
+         WHERE m.season_id = s.id AND m.user_id = $2)`,
+    [seasonId, userId],
+  );
+  if (rows.length === 0) throw new BadRequestError("season_not_found");
+  return rows[0];
+}
+
+async function getOwnedSeason(
+  userId: string,
+  seasonId: string,
+): Promise<LadderSeason> {
+  const season = await getMemberSeason(userId, seasonId);
+  if (season.owner !== userId) throw new BadRequestError("not_season_owner");
+  return season;
+}
+
+export async function listSeasons(userId: string): Promise<LadderSeason[]> {
+  return db.query<LadderSeason>(
+    `${SEASON_SELECT}
+      WHERE EXISTS (
+        SELECT 1 FROM competition_season_members m
+         WHERE m.season_id = s.id AND m.user_id = $1)
+      ORDER BY s.end_date DESC, s.created_at DESC`,
+    [userId],
+  );
+}
+
+/**
+ * Create a season. The window may reach into the past: competitions that
+ * already finished inside it are scored immediately, so "this quarter" can be
+ * set up mid-quarter.
+ */
+export async function createSeason(
+  userId: string,
+  input: {
+    name: unknown;
+    start_date: unknown;
+    end_date: unknown;
+    member_ids?: unknown;
+  },
+): Promise<LadderSeason> {
+  const name = validateSeasonName(input.name);
+  validateWindow(input.start_date, input.end_date);
+  if (input.member_ids !== undefined && !Array.isArray(input.member_ids)) {
+    throw new BadRequestError("invalid_member_list");
+  }
+  const memberIds = [...new Set((input.member_ids ?? []) as unknown[])].filter(
+    (id) => id !== userId,
+  );
+  if (memberIds.length + 1 > MAX_SEASON_MEMBERS) {
+    throw new BadRequestError("too_many_members");
+  }
+  for (const memberId of memberIds) await assertFriendOfOwner(userId, memberId);
+
+  const owned = await db.query<{ n: number }>(
+    `SELECT COUNT(*)::int AS n FROM competition_seasons WHERE owner = $1`,
+    [userId],
+  );
+  if ((owned[0]?.n ?? 0) >= MAX_SEASONS_PER_OWNER) {
+    throw new BadRequestError("too_many_seasons");
+  }
+
+  const [created] = await db.query<{ id: string }>(
+    `INSERT INTO competition_seasons (owner, name, start_date, end_date)
+     VALUES ($1, $2, $3, $4)
+     RETURNING id`,
+    [userId, name, input.start_date, input.end_date],
+  );
+  await db.query(
+    `INSERT INTO competition_season_members (season_id, user_id)
+     SELECT $1, unnest($2::text[])`,
+    [created.id, [userId, ...(memberIds as string[])]],
+  );
+  await rebuildSeasonPoints(created.id);
+  return getMemberSeason(userId, created.id);
+}
+
+/** Owner-only rename and/or window change. A new window rescores the season. */
+export async function updateSeason(
+  userId: string,
+  seasonId: string,
+  patch: { name?: unknown; start_date?: unknown; end_date?: unknown },
+): Promise<LadderSeason> {
+  const season = await getOwnedSeason(userId, seasonId);
+  const name =
+    patch.name === undefined ? season.name : validateSeasonName(patch.name);
+  const startDate = patch.start_date ?? season.start_date;
+  const endDate = patch.end_date ?? season.end_date;
+  validateWindow(startDate, endDate);
+
+  await db.query(
+    `UPDATE competition_seasons
+        SET name = $2, start_date = $3, end_date = $4, updated_at = NOW()
+      WHERE id = $1`,
+    [seasonId, name, startDate, endDate],
+  );
+  if (startDate !== season.start_date || endDate !== season.end_date) {
+    await rebuildSeasonPoints(seasonId);
+  }
+  return getMemberSeason(userId, seasonId);
+}
+
+export async function deleteSeason(
+  userId: string,
+  seasonId: string,
+): Promise<void> {
+  await getOwnedSeason(userId, seasonId);
+  await db.query(`DELETE FROM competition_seasons WHERE id = $1`, [seasonId]);
+}
+
+export async function addSeasonMember(
+  userId: string,
+  seasonId: string,
+  memberId: unknown,
+): Promise<LadderSeason> {
+  const season = await getOwnedSeason(userId, seasonId);
+  await assertFriendOfOwner(userId, memberId);
+  if (season.member_ids.includes(memberId as string)) return season;
+  if (season.member_ids.length >= MAX_SEASON_MEMBERS) {
+    throw new BadRequestError("too_many_members");
+  }
+  await db.query(
+    `INSERT INTO competition_season_members (season_id, user_id)
+     VALUES ($1, $2) ON CONFLICT DO NOTHING`,
+    [seasonId, memberId],
+  );
+  // A new member can make competitions qualify for everyone already in it.
+  await rebuildSeasonPoints(seasonId);
+  return getMemberSeason(userId, seasonId);
+}
+
+/**
+ * The owner removes a member, or a member leaves. The owner can't leave their
+ * own season — deleting it is the way out.
+ */
+export async function removeSeasonMember(
+  userId: string,
+  seasonId: string,
+  memberId: string,
+): Promise<void> {
+  const season = await getMemberSeason(userId, seasonId);
+  if (memberId !== userId && season.owner !== userId) {
+    throw new BadRequestError("not_season_owner");
+  }
+  if (memberId === season.owner) {
+    throw new BadRequestError("owner_cannot_leave");
+  }
+  await db.query(
+    `DELETE FROM competition_season_members WHERE season_id = $1 AND user_id = $2`,
+    [seasonId, memberId],
+  );
+  await rebuildSeasonPoints(seasonId);
+}
+
+/**
+ * GET /competitions/seasons/:seasonId/ladder — every member, ranked by points.
+ * Members with nothing scored yet are listed at zero rather than left off.
+ */
+export async function getSeasonLadder(
+  userId: string,
+  seasonId: string,
+): Promise<LadderResponse> {
+  const season = await getMemberSeason(userId, seasonId);
+  const rows = await db.query<{
+    rank: number;
+    user_id: string;
+    username: string | null;
+    first_name: string | null;
+    profile_image_url: string | null;
+    points: number;
+    total: number;
+    wins: number;
+    podiums: number;
+  }>(
+    `SELECT RANK() OVER (ORDER BY COALESCE(SUM(p.points), 0) DESC)::int AS rank,
+            u.user_id, u.username, u.first_name, u.profile_image_url,
+            COALESCE(SUM(p.points), 0)::int AS points,
+            COUNT(p.competition_id)::int AS total,
+            COUNT(*) FILTER (WHERE p.placement = 1)::int AS wins,
+            COUNT(*) FILTER (WHERE p.placement <= 3)::int AS podiums
+       FROM competition_season_members m
+       JOIN users u ON u.user_id = m.user_id
+       LEFT JOIN competition_season_points p
+         ON p.season_id = m.season_id AND p.user_id = m.user_id
+      WHERE m.season_id = $1
+      GROUP BY u.user_id, u.username, u.first_name, u.profile_image_url
+      ORDER BY points DESC, wins DESC, u.username ASC NULLS LAST`,
+    [seasonId],
+  );
+
+  const ladder: LadderEntry[] = rows.map((row) => ({
+    rank: row.rank,
+    user_id: row.user_id,
+    username: row.username,
+    first_name: row.first_name,
+    profile_image_url: row.profile_image_url,
+    points: row.points,
+    record: {
+      wins: row.wins,
+      losses: row.total - row.wins,
+      total: row.total,
+      podiums: row.podiums,
+      // Only placed competitions are ever scored, so every one is known.
+      podiums_known_of: row.total,
+    },
+  }));
+  return { season, ladder };
+}
+
+/**
+ * GET /competitions/seasons/:seasonId/history — the point awards behind the
+ * ladder, newest first, optionally for one member.
+ */
+export async function getSeasonHistory(
+  userId: string,
+  seasonId: string,
+  filterUserId?: string,
+): Promise<LadderPointsAward[]> {
+  await getMemberSeason(userId, seasonId);
+  const rows = await db.query<{
+    user_id: string;
+    competition_id: string;
+    competition_name: string;
+    type: CompetitionType;
+    end_date: string | null;
+    placement: number;
+    participant_count: number;
+    winner_user_id: string | null;
+    points: number;
+  }>(
+    `SELECT p.user_id, c.id AS competition_id, c.competition_name, c.type,
+            c.end_date::text AS end_date, p.placement, p.participant_count,
+            c.winner AS winner_user_id, p.points
+       FROM competition_season_points p
+       JOIN competitions c ON c.id = p.competition_id
+      WHERE p.season_id = $1
+        AND ($2::text IS NULL OR p.user_id = $2)
+      ORDER BY c.end_date DESC NULLS LAST, p.points DESC
+      LIMIT $3`,
+    [seasonId, filterUserId ?? null, SEASON_HISTORY_LIMIT],
+  );
+  // `won` follows placement, as on the ladder, so a winning team's members
+  // all read as winners.
+  return rows.map((row) => ({ ...row, won: row.placement === 1 }));
+}
+
+/**
+ * GET /competitions/record/seasons — the caller's finish in every season
+ * they're in, newest window first: the seasonal companion to
+ * `getCompetitionRecord`.
+ */
+export async function getSeasonRecord(
+  userId: string,
+): Promise<LadderSeasonResult[]> {
+  const seasons = await listSeasons(userId);
+  if (seasons.length === 0) return [];
+
+  const rows = await db.query<{
+    season_id: string;
+    rank: number;
+    points: number;
+    member_count: number;
+    competitions: number;
+  }>(
+    `WITH totals AS (
+       SELECT m.season_id, m.user_id,
+              COALESCE(SUM(p.points), 0)::int AS points,
+              COUNT(p.competition_id)::int AS competitions
+         FROM competition_season_members m
+         LEFT JOIN competition_season_points p
+           ON p.season_id = m.season_id AND p.user_id = m.user_id
+        WHERE m.season_id = ANY($2::text[])
+        GROUP BY m.season_id, m.user_id
+     ), ranked AS (
+       SELECT *,
+              RANK() OVER (PARTITION BY season_id ORDER BY points DESC)::int AS rank,
+              COUNT(*) OVER (PARTITION BY season_id)::int AS member_count
+         FROM totals
+     )
+     SELECT season_id, rank, points, member_count, competitions
+       FROM ranked
+      WHERE user_id = $1`,
+    [userId, seasons.map((s) => s.id)],
+  );
+  const bySeason = new Map(rows.map((row) => [row.season_id, row]));
+
+  return seasons.map((season) => {
+    const row = bySeason.get(season.id);
+    return {
+      season,
+      rank: row?.rank ?? 1,
+      points: row?.points ?? 0,
+      member_count: row?.member_count ?? season.member_ids.length,
+      competitions: row?.competitions ?? 0,
+    };
+  });
+}
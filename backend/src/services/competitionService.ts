@@ -19,6 +19,14 @@ import {
 import { getStepsDateRangeBatch } from "./dailyStepsService.js";
 import { sendOrQueueCompetitionNotification } from "./pushNotificationService.js";
 import { evaluateSocialBadgesForUser } from "./badgeService.js";
+import { emitWebhookEvent } from "./webhookService.js";
+import { spawnNextEdition } from "./competitionTemplateService.js";
+import { awardSeasonPoints } from "./competitionSeasonService.js";
+import {
+  DEFAULT_TIMEZONE,
+  todayInTimeZone,
+  zonedMidnightUtcMs,
+} from "./dailyResetTime.js";
 
 const WORKOUT_TYPE_MAP: Record<string, string> = {
   run: "running",
@@ -29,10 +37,6 @@ const WORKOUT_TYPE_MAP: Record<string, string> = {
 
 const db = PostgresService.getInstance();
 
-const ET_DATE_FORMATTER = new Intl.DateTimeFormat("en-CA", {
-  timeZone: "America/New_York",
-});
-
 /**
  * Maximum length, in characters, of a user-supplied competition name.
  * Keep in sync with CompetitionLimits.nameMaxLength in
@@ -40,7 +44,7 @@ const ET_DATE_FORMATTER = new Intl.DateTimeFormat("en-CA", {
  */
 export const COMPETITION_NAME_MAX_LENGTH = 50;
 
-function validateCompetitionName(name: unknown): string {
+export function validateCompetitionName(name: unknown): string {
   if (typeof name !== "string") {
     throw new BadRequestError("competition_name must be a string");
   }
@@ -56,38 +60,17 @@ function validateCompetitionName(name: unknown): string {
   return trimmed;
 }
 
-export function getTodayET(): string {
-  return ET_DATE_FORMATTER.format(new Date());
-}
-
-function etDateToUtcMs(dateStr: string): number {
-  const [y, m, d] = dateStr.split("-").map(Number);
-  const utcGuess = Date.UTC(y, m - 1, d);
-  const parts = new Intl.DateTimeFormat("en-US", {
-    timeZone: "America/New_York",
-    hourCycle: "h23",
-    year: "numeric",
-    month: "2-digit",
-    day: "2-digit",
-    hour: "2-digit",
-    minute: "2-digit",
-    second: "2-digit",
-  }).formatToParts(new Date(utcGuess));
-  const get = (type: string) =>
-    parseInt(parts.find((p) => p.type === type)!.value, 10);
-  const etAsUtc = Date.UTC(
-    get("year"),
-    get("month") - 1,
-    get("day"),
-    get("hour"),
-    get("minute"),
-    get("second"),
-  );
-  const offsetMs = etAsUtc - utcGuess;
-  return utcGuess - offsetMs;
+/**
+ * Today ('YYYY-MM-DD') on the competition's own calendar — its stored
+ * timezone, or America/New_York for a row read without one.
+ */
+export function getCompetitionToday(
+  competition?: { timezone?: string | null } | null,
+): string {
+  return todayInTimeZone(competition?.timezone ?? DEFAULT_TIMEZONE);
 }
 
-interface CreateCompetitionParams {
+export interface CreateCompetitionParams {
   competition_name: string;
   start_date?: string;
   end_date?: string;
@@ -114,9 +97,10 @@ export async function createCompetition(params: CreateCompetitionParams) {
   const [competition] = await db.query(
     `INSERT INTO competitions (
             competition_name, start_date, end_date,
-            workouts, type, options, owner
+            workouts, type, options, owner, timezone
         ) VALUES (
-			$1, $2, $3, $4, $5, $6, $7
+			$1, $2, $3, $4, $5, $6, $7,
+			COALESCE((SELECT timezone FROM users WHERE user_id = $7), $8)
 		) RETURNING *;`,
     [
       validatedName,
@@ -126,6 +110,7 @@ export async function createCompetition(params: CreateCompetitionParams) {
       type,
       JSON.stringify(options),
       owner,
+      DEFAULT_TIMEZONE,
     ],
   );
 
@@ -144,7 +129,32 @@ export async function createCompetition(params: CreateCompetitionParams) {
   return competition.id;
 }
 
-function checkKeys(params: CreateCompetitionParams) {
+/** Upper bound on knockouts per cutoff — beyond this it's a one-round race. */
+const MAX_ELIMINATE_PER_INTERVAL = 10;
+
+/**
+ * Rounds in a row an elimination may go without knocking anyone out (a bottom
+ * level on both the round and the running total, e.g. everyone stopped
+ * logging) before it ends with the units still standing.
+ */
+const ELIMINATION_MAX_STALLED_ROUNDS = 3;
+
+function validateEliminatePerInterval(value: unknown): void {
+  if (value === undefined) return;
+  if (
+    typeof value !== "number" ||
+    !Number.isInteger(value) ||
+    value < 1 ||
+    value > MAX_ELIMINATE_PER_INTERVAL
+  ) {
+    throw new BadRequestError(
+      `eliminate_per_interval must be an integer from 1 to ${MAX_ELIMINATE_PER_INTERVAL}`,
+    );
+  }
+}
+
+/** Throws BadRequestError naming every required key the type is missing. */
+export function checkKeys(params: CreateCompetitionParams) {
   const { end_date, workouts = ["run", "walk"], type, options, owner } = params;
 
   const requiredKeys = [];
@@ -198,6 +208,10 @@ function checkKeys(params: CreateCompetitionParams) {
     }
   } else if (type === "race") {
     requiredKeys.push("goal", "unit");
+  } else if (type === "elimination") {
+    // No end condition required: it ends itself when one is left standing.
+    requiredKeys.push("unit", "interval");
+    validateEliminatePerInterval(options.eliminate_per_interval);
   }
 
   requiredKeys.forEach((key) => {
@@ -254,8 +268,12 @@ export async function getCompetition(
     return competition;
   }
 
-  // Calculate scores for started competitions (start_date on or before today in ET)
-  if (competition.start_date && competition.start_date <= getTodayET()) {
+  // Calculate scores for started competitions (start_date on or before today
+  // on the competition's calendar)
+  if (
+    competition.start_date &&
+    competition.start_date <= getCompetitionToday(competition)
+  ) {
     // Per-day walk/run breakdown (distance + workout counts) for the detail
     // view's stats panel and calendar — opt-in because getCompetition is also
     // on hot paths (nudges, flexes, cron resolution) that never read it.
@@ -309,14 +327,27 @@ export async function getCompetition(
 function attachTeamScores(competition: Competition): void {
   const teams = competition.teams?.teams;
   if (!teams?.length) return;
-  const totals = new Map<string, number>(teams.map((t) => [t.id, 0]));
+  const memberScores = new Map<string, number[]>(teams.map((t) => [t.id, []]));
   for (const user of competition.users) {
     if (user.invite_status !== "accepted" || !user.team_id) continue;
-    if (totals.has(user.team_id)) {
-      totals.set(user.team_id, totals.get(user.team_id)! + (user.score ?? 0));
-    }
+    memberScores.get(user.team_id)?.push(user.score ?? 0);
+  }
+  for (const team of teams) {
+    team.score = teamScore(competition, memberScores.get(team.id) ?? []);
+  }
+}
+
+/**
+ * A team's score from its members'. A straight sum everywhere except
+ * elimination, where every member of a team shares the rounds the TEAM
+ * survived — summing would rank a big team above a smaller one that outlasted
+ * it.
+ */
+function teamScore(competition: Competition, memberScores: number[]): number {
+  if (competition.type === "elimination") {
+    return memberScores.length > 0 ? Math.max(...memberScores) : 0;
   }
-  for (const team of teams) team.score = totals.get(team.id) ?? 0;
+  return memberScores.reduce((sum, score) => sum + score, 0);
 }
 
 /**
@@ -356,7 +387,10 @@ function teamAwareOutcome(
       );
       return {
         members,
-        score: members.reduce((sum, m) => sum + (scores[m]?.score ?? 0), 0),
+        score: teamScore(
+          competition,
+          members.map((m) => scores[m]?.score ?? 0),
+        ),
       };
     })
     .filter((e) => e.members.length > 0)
@@ -399,12 +433,13 @@ const RECORD_RIVAL_LIMIT = 25;
 /** Finished competitions echoed back for the history strip. */
 const RECORD_RECENT_LIMIT = 10;
 
-const COMPETITION_TYPES: CompetitionType[] = [
+export const COMPETITION_TYPES: CompetitionType[] = [
   "streaks",
   "apex",
   "clash",
   "targets",
   "race",
+  "elimination",
 ];
 
 /**
@@ -608,17 +643,18 @@ export async function getCompetitions(
   }: { page: number; status: string; pageSize: number },
 ): Promise<Competition[]> {
   let statusCondition = "";
-  const TODAY_ET_SQL = "(NOW() AT TIME ZONE 'America/New_York')::date";
+  // Each competition's own "today" — see competitions.timezone.
+  const TODAY_SQL = "(NOW() AT TIME ZONE c.timezone)::date";
 
   if (status === "get_set" || status === "lobby") {
-    statusCondition = `AND (c.start_date IS NULL OR c.start_date > ${TODAY_ET_SQL})`;
+    statusCondition = `AND (c.start_date IS NULL OR c.start_date > ${TODAY_SQL})`;
   } else if (status === "go") {
-    statusCondition = `AND c.start_date <= ${TODAY_ET_SQL} AND (c.end_date IS NULL OR c.end_date >= ${TODAY_ET_SQL})`;
+    statusCondition = `AND c.start_date <= ${TODAY_SQL} AND (c.end_date IS NULL OR c.end_date >= ${TODAY_SQL})`;
   } else if (status === "active") {
     // Lobby + currently running (excludes finished)
-    statusCondition = `AND (c.start_date IS NULL OR c.end_date IS NULL OR c.end_date >= ${TODAY_ET_SQL})`;
+    statusCondition = `AND (c.start_date IS NULL OR c.end_date IS NULL OR c.end_date >= ${TODAY_SQL})`;
   } else if (status === "finished") {
-    statusCondition = `AND (c.end_date IS NOT NULL AND c.end_date < ${TODAY_ET_SQL})`;
+    statusCondition = `AND (c.end_date IS NOT NULL AND c.end_date < ${TODAY_SQL})`;
   }
   // status === 'all' or 'on_your_mark' => no date filter from statusCondition
 
@@ -649,7 +685,7 @@ export async function getCompetitions(
   for (const competition of competitions) {
     if (
       competition.start_date &&
-      new Date(competition.start_date + " EST") <= new Date()
+      competition.start_date <= getCompetitionToday(competition)
     ) {
       const userScores = await getUserScores(competition);
       competition.users = competition.users.map((user: CompetitionUser) => ({
@@ -712,7 +748,8 @@ export async function updateCompetitionInvite(
 /**
  * Auto-start a competition once every invite has been answered 'accepted'.
  * Called after an invite acceptance. Mirrors the manual Start button: the
- * competition begins at midnight ET (start_date = tomorrow's ET date) and
+ * competition begins at its next local midnight (start_date = tomorrow on
+ * the competition's calendar) and
  * end_date is derived from options.duration_hours when set.
  *
  * No-ops unless: not yet started/scheduled (start_date IS NULL), every
@@ -729,11 +766,12 @@ export async function autoStartIfAllAccepted(
   const [comp] = await db.query<{
     start_date: string | null;
     competition_name: string;
+    timezone: string;
     options: CompetitionOptions | null;
     accepted_count: number;
     unanswered_count: number;
   }>(
-    `SELECT c.start_date, c.competition_name, c.options,
+    `SELECT c.start_date, c.competition_name, c.timezone, c.options,
 			COUNT(*) FILTER (WHERE cu.invite_status = 'accepted')::int AS accepted_count,
 			COUNT(*) FILTER (WHERE cu.invite_status <> 'accepted')::int AS unanswered_count
 		FROM competitions c
@@ -752,10 +790,11 @@ export async function autoStartIfAllAccepted(
     return false;
   }
 
-  // Start at midnight ET tomorrow so the first official day is a full day
-  // for everyone — same computation as the manual start in startComp().
-  const todayET = getTodayET();
-  const [y, m, d] = todayET.split("-").map(Number);
+  // Start at midnight tomorrow (competition's timezone) so the first official
+  // day is a full day for everyone — same computation as the manual start in
+  // startComp().
+  const today = getCompetitionToday(comp);
+  const [y, m, d] = today.split("-").map(Number);
   const tomorrowUTC = new Date(Date.UTC(y, m - 1, d + 1));
   const startDate = tomorrowUTC.toISOString().split("T")[0];
 
@@ -843,6 +882,7 @@ export async function updateCompetition(
   }
 
   if (options && Object.keys(options).length > 0) {
+    validateEliminatePerInterval(options.eliminate_per_interval);
     const mergedOptions = {
       ...existingCompetition.options,
       ...options,
@@ -1013,13 +1053,13 @@ export async function pickCompetitionTeam(
 
 /**
  * Per-participant recent-form stats for the Balance/Randomize UI: average
- * per day over the last 14 FULL days (ending yesterday ET — today would skew
- * low), filtered to the competition's activities (run/walk/both) or steps,
+ * per day over the last 14 FULL days (ending yesterday on the competition's
+ * calendar — today would skew low), filtered to the competition's activities (run/walk/both) or steps,
  * plus the same average projected onto the competition's interval.
  */
 export async function getCompetitionTeamStats(competition: Competition) {
   const WINDOW_DAYS = 14;
-  const [y, m, d] = getTodayET().split("-").map(Number);
+  const [y, m, d] = getCompetitionToday(competition).split("-").map(Number);
   const todayMs = Date.UTC(y, m - 1, d);
   const toStr = (ms: number) => new Date(ms).toISOString().split("T")[0];
   const start = toStr(todayMs - WINDOW_DAYS * 86400000);
@@ -1074,6 +1114,7 @@ interface UserData {
     };
     score: number;
     remaining_lives?: number;
+    eliminated_interval?: string | null;
     has_manual_workouts?: boolean;
   };
 }
@@ -1092,7 +1133,7 @@ export async function getUserScores(
     (u: CompetitionUser) => u.invite_status === "accepted",
   );
   const acceptedUserIds = acceptedUsers.map((u) => u.user_id);
-  const endDate = competition.end_date ?? getTodayET();
+  const endDate = competition.end_date ?? getCompetitionToday(competition);
 
   // Step competitions read from daily_steps; distance competitions from workouts.
   // Manual-workout flag is irrelevant for steps (HealthKit-observer-fed only).
@@ -1135,6 +1176,7 @@ export async function getUserScores(
       row.local_date,
       competition.options.interval,
       competition.start_date,
+      competition.timezone,
     );
     const buckets = userData[row.user_id].intervals;
     buckets[intervalKey] =
@@ -1143,9 +1185,10 @@ export async function getUserScores(
 
   const allIntervals = getIntervalRange(competition);
   const todaysInterval = getCurrentInterval(
-    getTodayET(),
+    getCompetitionToday(competition),
     competition.options.interval,
     competition.start_date,
+    competition.timezone,
   );
 
   // Determine the inclusive end index for scoring:
@@ -1248,15 +1291,236 @@ export async function getUserScores(
       }
       userData[userId].score = score;
     });
+  } else if (competition.type === "elimination") {
+    // Knockouts happen at a cutoff, so only COMPLETED intervals count. Today's
+    // running totals stay in `intervals` (who's in the danger zone) but can't
+    // put anyone out.
+    const eliminationEndIdx = todayIdx >= 0 ? todayIdx - 1 : scoringEndIdx;
+    applyEliminations(
+      competition,
+      userData,
+      allIntervals.slice(0, eliminationEndIdx + 1),
+      await getRecordedEliminations(competition.id),
+    );
   }
 
   return userData;
 }
 
+/**
+ * Who gets knocked out together: each team's accepted members when the
+ * competition has teams, otherwise every participant on their own. In team
+ * play only teams are units — only teams can win (see teamAwareOutcome) — so a
+ * participant without a team is never eliminated and scores 0.
+ */
+function eliminationUnits(
+  competition: Competition,
+  userIds: string[],
+): Map<string, string[]> {
+  const teams = competition.teams?.teams;
+  if (!teams?.length) return new Map(userIds.map((id) => [id, [id]]));
+
+  const participants = new Set(userIds);
+  const units = new Map<string, string[]>(teams.map((t) => [t.id, []]));
+  for (const user of competition.users) {
+    if (user.invite_status !== "accepted" || !user.team_id) continue;
+    if (!participants.has(user.user_id)) continue;
+    units.get(user.team_id)?.push(user.user_id);
+  }
+  for (const [teamId, members] of units) {
+    if (members.length === 0) units.delete(teamId);
+  }
+  return units;
+}
+
+interface RecordedEliminations {
+  /** Last interval whose cut is recorded; null before the first cutoff. */
+  through: string | null;
+  /** user_id → the interval they were recorded out in. */
+  out: Map<string, string>;
+}
+
+async function getRecordedEliminations(
+  competitionId: string,
+): Promise<RecordedEliminations> {
+  const rows = await db.query<{
+    through: string | null;
+    user_id: string | null;
+    eliminated_interval: string | null;
+  }>(
+    `SELECT c.eliminations_decided_through AS through, cu.user_id, cu.eliminated_interval
+			FROM competitions c
+			LEFT JOIN competition_users cu
+				ON cu.competition_id = c.id AND cu.eliminated_interval IS NOT NULL
+			WHERE c.id = $1`,
+    [competitionId],
+  );
+  const out = new Map<string, string>();
+  for (const row of rows) {
+    if (row.user_id && row.eliminated_interval) {
+      out.set(row.user_id, row.eliminated_interval);
+    }
+  }
+  return { through: rows[0]?.through ?? null, out };
+}
+
+/**
+ * Elimination scoring. At each completed interval the units still standing
+ * are ranked by that interval's total (a team's is its members' sum) and the
+ * bottom `eliminate_per_interval` are knocked out. Score is intervals
+ * survived, so a later knockout places higher and the last one standing tops
+ * the table.
+ *
+ * A tie on the round's total straddling the cutoff is broken by the running
+ * total over every round so far, lowest out. Units level on both are spared —
+ * nobody goes out on a coin flip — so such a round knocks out fewer, possibly
+ * no one; `resolveIfComplete` ends a competition that stalls that way. The cut
+ * never takes the last unit standing.
+ *
+ * Rounds up to `recorded.through` are replayed from the stored knockouts
+ * (recordEliminationRounds), not re-ranked: the cut was announced when the
+ * round closed, and a workout synced into it afterwards must not change who
+ * went out. Only rounds closed since are ranked here.
+ */
+function applyEliminations(
+  competition: Competition,
+  userData: UserData,
+  completedIntervals: string[],
+  recorded: RecordedEliminations,
+): void {
+  const perInterval = competition.options.eliminate_per_interval ?? 1;
+  const units = eliminationUnits(competition, Object.keys(userData));
+  for (const userId of Object.keys(userData)) {
+    userData[userId].eliminated_interval = null;
+  }
+
+  let standing = [...units.keys()];
+  const running = new Map<string, number>(standing.map((unit) => [unit, 0]));
+  for (const interval of completedIntervals) {
+    if (standing.length <= 1) break;
+
+    const ranked = standing
+      .map((unit) => {
+        const total = units
+          .get(unit)!
+          .reduce((sum, m) => sum + (userData[m].intervals[interval] ?? 0), 0);
+        running.set(unit, running.get(unit)! + total);
+        return { unit, total, running: running.get(unit)! };
+      })
+      .sort((a, b) => a.total - b.total || a.running - b.running);
+
+    let knockedOut: Set<string>;
+    // Interval keys are ISO dates (or YYYY-MM), so they order as strings.
+    if (recorded.through !== null && interval <= recorded.through) {
+      knockedOut = new Set(
+        standing.filter((unit) =>
+          units.get(unit)!.some((m) => recorded.out.get(m) === interval),
+        ),
+      );
+    } else {
+      let cut = Math.min(perInterval, ranked.length - 1);
+      while (
+        cut > 0 &&
+        ranked[cut - 1].total === ranked[cut].total &&
+        ranked[cut - 1].running === ranked[cut].running
+      ) {
+        cut--;
+      }
+      knockedOut = new Set(ranked.slice(0, cut).map((r) => r.unit));
+    }
+
+    for (const unit of standing) {
+      for (const member of units.get(unit)!) {
+        if (knockedOut.has(unit)) {
+          userData[member].eliminated_interval = interval;
+        } else {
+          userData[member].score++;
+        }
+      }
+    }
+    standing = standing.filter((unit) => !knockedOut.has(unit));
+  }
+}
+
+/**
+ * Record every elimination cut that has closed since the last one recorded,
+ * so the standings and the "you're out" push agree for good. Run once the
+ * interval rolls over (notifyIntervalResults); until then, getUserScores ranks
+ * a closed-but-unrecorded round itself. Returns who this call knocked out
+ * (user_id → interval) alongside everyone recorded out so far; `knockedOut` is
+ * empty when another run got there first or the cut spared everyone.
+ */
+export async function recordEliminationRounds(
+  competition: Competition,
+): Promise<{ knockedOut: Map<string, string>; out: Map<string, string> }> {
+  const recorded = await getRecordedEliminations(competition.id);
+  const knockedOut = new Map<string, string>();
+  if (competition.type !== "elimination" || !competition.start_date) {
+    return { knockedOut, out: recorded.out };
+  }
+
+  const allIntervals = getIntervalRange(competition);
+  const todayIdx = allIntervals.indexOf(
+    getCurrentInterval(
+      getCompetitionToday(competition),
+      competition.options.interval,
+      competition.start_date,
+      competition.timezone,
+    ),
+  );
+  const lastClosed =
+    todayIdx >= 0 ? allIntervals[todayIdx - 1] : allIntervals.at(-1);
+  if (!lastClosed || lastClosed === recorded.through) {
+    return { knockedOut, out: recorded.out };
+  }
+
+  const scores = await getUserScores(competition, {
+    excludeCurrentInterval: true,
+  });
+  for (const [userId, data] of Object.entries(scores)) {
+    if (data.eliminated_interval && !recorded.out.has(userId)) {
+      knockedOut.set(userId, data.eliminated_interval);
+    }
+  }
+
+  // The compare-and-set on `through` makes this once-only: a second run that
+  // read the same state claims nothing and writes nothing.
+  const claimed = await db.query(
+    `WITH claim AS (
+			UPDATE competitions SET eliminations_decided_through = $2
+			WHERE id = $1 AND eliminations_decided_through IS NOT DISTINCT FROM $3
+			RETURNING id
+		), knocked AS (
+			UPDATE competition_users cu SET eliminated_interval = o.interval
+			FROM claim, unnest($4::text[], $5::text[]) AS o(user_id, interval)
+			WHERE cu.competition_id = claim.id AND cu.user_id = o.user_id
+		)
+		SELECT id FROM claim`,
+    [
+      competition.id,
+      lastClosed,
+      recorded.through,
+      [...knockedOut.keys()],
+      [...knockedOut.values()],
+    ],
+  );
+  if (claimed.length === 0) {
+    return { knockedOut: new Map(), out: recorded.out };
+  }
+  return { knockedOut, out: new Map([...recorded.out, ...knockedOut]) };
+}
+
+/**
+ * Interval key for `currentDate`. A 'YYYY-MM-DD' string is already a calendar
+ * day and is used as-is; an instant is first placed on `timeZone`'s calendar
+ * (pass the competition's timezone — America/New_York is only the legacy
+ * default).
+ */
 export function getCurrentInterval(
   currentDate: Date | string | number,
   interval?: "day" | "week" | "month",
   startDate?: string | null,
+  timeZone: string = DEFAULT_TIMEZONE,
 ): string {
   let year: number, month: number, day: number;
 
@@ -1269,7 +1533,7 @@ export function getCurrentInterval(
     const date =
       currentDate instanceof Date ? currentDate : new Date(currentDate);
     const parts = new Intl.DateTimeFormat("en-US", {
-      timeZone: "America/New_York",
+      timeZone,
       year: "numeric",
       month: "2-digit",
       day: "2-digit",
@@ -1310,7 +1574,7 @@ function getIntervalRange(competition: Competition): string[] {
   if (!competition.start_date) return [];
 
   const intervals: string[] = [];
-  const endDateStr = competition.end_date ?? getTodayET();
+  const endDateStr = competition.end_date ?? getCompetitionToday(competition);
 
   const [sy, sm, sd] = competition.start_date.split("-").map(Number);
   const [ey, em, ed] = endDateStr.split("-").map(Number);
@@ -1334,6 +1598,7 @@ function getIntervalRange(competition: Competition): string[] {
       toDateStr(currentMs),
       competition.options.interval,
       competition.start_date,
+      competition.timezone,
     );
     intervals.push(intervalKey);
 
@@ -1361,9 +1626,9 @@ export async function checkRaceCompletions(userId: string): Promise<void> {
 			AND cu.invite_status = 'accepted'
 			AND c.type = 'race'
 			AND c.start_date IS NOT NULL
-			AND c.start_date <= (NOW() AT TIME ZONE 'America/New_York')::date
+			AND c.start_date <= (NOW() AT TIME ZONE c.timezone)::date
 			AND c.winner IS NULL
-			AND (c.end_date IS NULL OR c.end_date >= (NOW() AT TIME ZONE 'America/New_York')::date)`,
+			AND (c.end_date IS NULL OR c.end_date >= (NOW() AT TIME ZONE c.timezone)::date)`,
     [userId],
   );
 
@@ -1380,7 +1645,7 @@ export async function checkRaceCompletions(userId: string): Promise<void> {
       if (outcome && outcome.topScore >= race.options.goal) {
         await db.query(
           `UPDATE competitions SET end_date = $1, winner = $2, ended = true WHERE id = $3 AND winner IS NULL`,
-          [getTodayET(), outcome.winnerId, race.id],
+          [getCompetitionToday(race), outcome.winnerId, race.id],
         );
         await resolveCompetitionPlacements(race.id, scores, fullComp);
         evaluateSocialBadgesForUser(outcome.winnerId).catch(() => {});
@@ -1393,7 +1658,7 @@ export async function checkRaceCompletions(userId: string): Promise<void> {
       .filter(Boolean);
 
     const startDate = race.start_date!;
-    const today = getTodayET();
+    const today = getCompetitionToday(race);
     const endDate = race.end_date ?? today;
 
     const [result] = await db.query<{ total: number }>(
@@ -1418,9 +1683,15 @@ export async function checkRaceCompletions(userId: string): Promise<void> {
   }
 }
 
-export async function resolveExpiredCompetitions(): Promise<void> {
+/**
+ * Resolve every started, undecided competition that has finished. The hourly
+ * cron passes `localMidnightOnly` so each competition is only examined in the
+ * first hour of its own day; the dev trigger sweeps everything.
+ */
+export async function resolveExpiredCompetitions({
+  localMidnightOnly = false,
+}: { localMidnightOnly?: boolean } = {}): Promise<void> {
   const now = new Date();
-  const todayStr = getTodayET();
 
   const candidates = await db.query<Competition & { id: string }>(
     `SELECT c.*, ${USERS_AGG_SQL}
@@ -1428,13 +1699,16 @@ export async function resolveExpiredCompetitions(): Promise<void> {
 		LEFT JOIN competition_users cu ON cu.competition_id = c.id
 		LEFT JOIN users u ON u.user_id = cu.user_id
 		WHERE c.start_date IS NOT NULL
-			AND c.start_date <= (NOW() AT TIME ZONE 'America/New_York')::date
+			AND c.start_date <= (NOW() AT TIME ZONE c.timezone)::date
 			AND c.winner IS NULL
+			${localMidnightOnly ? "AND EXTRACT(HOUR FROM NOW() AT TIME ZONE c.timezone) = 0" : ""}
 		GROUP BY c.id`,
   );
 
   for (const competition of candidates) {
     try {
+      // Each competition resolves against its own calendar day.
+      const todayStr = getCompetitionToday(competition);
       await resolveIfComplete(competition, now, todayStr);
     } catch (err: any) {
       console.error(
@@ -1499,7 +1773,10 @@ async function resolveIfComplete(
     competition.options.duration_hours &&
     competition.start_date
   ) {
-    const startMs = etDateToUtcMs(competition.start_date);
+    const startMs = zonedMidnightUtcMs(
+      competition.start_date,
+      competition.timezone ?? DEFAULT_TIMEZONE,
+    );
     const durationMs = competition.options.duration_hours * 60 * 60 * 1000;
     if (now.getTime() >= startMs + durationMs) {
       shouldResolve = true;
@@ -1562,6 +1839,43 @@ async function resolveIfComplete(
     }
   }
 
+  // Check 3c: elimination — ends when one unit (participant or team) is left
+  // standing, or when the cut has stalled on a dead-level bottom for
+  // ELIMINATION_MAX_STALLED_ROUNDS rounds running; the units still standing
+  // then share first place.
+  if (!shouldResolve && competition.type === "elimination") {
+    const scores = await getUserScores(competition, {
+      excludeCurrentInterval: true,
+    });
+    const units = eliminationUnits(competition, Object.keys(scores));
+    const standing = [...units.values()].filter((members) =>
+      members.some((m) => scores[m]?.eliminated_interval === null),
+    );
+    // Score is rounds survived: the standing score is every round played,
+    // and a unit knocked out in round k (0-based) scored k.
+    const roundsPlayed = Math.max(
+      0,
+      ...standing.flat().map((m) => scores[m]?.score ?? 0),
+    );
+    const lastKnockoutRound = Math.max(
+      -1,
+      ...Object.values(scores)
+        .filter((s) => s.eliminated_interval != null)
+        .map((s) => s.score),
+    );
+    const stalled =
+      standing.length > 1 &&
+      roundsPlayed - (lastKnockoutRound + 1) >= ELIMINATION_MAX_STALLED_ROUNDS;
+    if (units.size > 1 && (standing.length <= 1 || stalled)) {
+      shouldResolve = true;
+      computedEndDate = lastCompletedIntervalEnd(
+        todayStr,
+        competition.options.interval,
+        competition.start_date!,
+      );
+    }
+  }
+
   // Check 4: race goal reached (backup for races not caught on upload).
   // Team races finish on combined TEAM distance, not any one runner's.
   if (!shouldResolve && competition.type === "race") {
@@ -1655,6 +1969,7 @@ async function resolveCompetitionPlacements(
         [placement, competitionId, userId],
       );
     }
+    onPlacementsFinal(competitionId);
     return;
   }
 
@@ -1673,4 +1988,56 @@ async function resolveCompetitionPlacements(
       [currentPlacement, competitionId, userId],
     );
   }
+  onPlacementsFinal(competitionId);
+}
+
+/**
+ * Everything that follows a competition's placements becoming final. Each is
+ * fire-and-forget: the competition has already resolved, and a failure here
+ * must not surface as a resolution error.
+ */
+function onPlacementsFinal(competitionId: string): void {
+  emitCompetitionFinished(competitionId).catch((err) =>
+    console.error("[Webhooks] competition.finished failed:", err.message),
+  );
+  awardSeasonPoints(competitionId).catch((err) =>
+    console.error("[Seasons] awarding season points failed:", err.message),
+  );
+  spawnNextEdition(competitionId).catch((err) =>
+    console.error("[Templates] next edition spawn failed:", err.message),
+  );
+}
+
+/**
+ * competition.finished webhooks, one per accepted participant with their own
+ * placement. Fired once placements are final, which every finish path (race
+ * on upload, team race, cron resolution) reaches; the event key dedupes a
+ * competition resolved by two of them.
+ */
+async function emitCompetitionFinished(competitionId: string): Promise<void> {
+  const rows = await db.query<{
+    user_id: string;
+    placement: number | null;
+    competition_name: string | null;
+    type: string;
+    winner: string | null;
+    end_date: string | null;
+  }>(
+    `SELECT cu.user_id, cu.placement, c.competition_name, c.type, c.winner,
+            to_char(c.end_date, 'YYYY-MM-DD') AS end_date
+       FROM competitions c
+       JOIN competition_users cu ON cu.competition_id = c.id
+      WHERE c.id = $1 AND cu.invite_status = 'accepted'`,
+    [competitionId],
+  );
+  for (const row of rows) {
+    await emitWebhookEvent(row.user_id, "competition.finished", competitionId, {
+      competition_id: competitionId,
+      competition_name: row.competition_name,
+      type: row.type,
+      end_date: row.end_date,
+      winner_user_id: row.winner,
+      placement: row.placement,
+    });
+  }
 }
@@ -0,0 +1,667 @@
+import { PostgresService } from "./DbService.js";
+import { BadRequestError } from "../errors/Errors.js";
+import {
+  COMPETITION_NAME_MAX_LENGTH,
+  COMPETITION_TYPES,
+  MAX_TEAMS,
+  checkKeys,
+  createCompetition,
+  getCompetition,
+  sendCompetitionInvite,
+  setCompetitionTeams,
+  validateCompetitionName,
+} from "./competitionService.js";
+import { getBlockedIds } from "./moderationService.js";
+import { sendPush } from "./pushNotificationService.js";
+import { logError } from "./errorLogService.js";
+import { todayInTimeZone, DEFAULT_TIMEZONE } from "./dailyResetTime.js";
+import type {
+  CompetitionActivity,
+  CompetitionOptions,
+  CompetitionRecurrence,
+  CompetitionSeasonEdition,
+  CompetitionSeasonResponse,
+  CompetitionSeasonStanding,
+  CompetitionTemplate,
+  CompetitionTemplateTeams,
+  CompetitionType,
+} from "../types/competitions.js";
+
+const db = PostgresService.getInstance();
+
+/**
+ * Competition templates — "the same Monthly Mile Club, again".
+ *
+ * A template is the setup, not a competition: name, type, options, teams and
+ * the invite list. Spawning one goes through `createCompetition` and
+ * `sendCompetitionInvite` exactly as the app does by hand, so an edition is an
+ * ordinary competition with a `template_id` stamped on it and nothing
+ * downstream (scoring, resolution, pushes) knows a template was involved.
+ *
+ * With a recurrence, the edition that finishes spawns its successor from
+ * `resolveCompetitionPlacements`, which every finish path reaches. The
+ * editions' placements, read back together, are the season standings.
+ */
+
+export const COMPETITION_RECURRENCES: CompetitionRecurrence[] = [
+  "none",
+  "weekly",
+  "monthly",
+];
+
+/** Per-owner cap. Templates are standing fixtures, not drafts. */
+const MAX_TEMPLATES_PER_USER = 20;
+
+/** Invitees carried per template — the same order as a big office club. */
+const MAX_TEMPLATE_INVITEES = 100;
+
+/** Finished editions shown in the season history, newest first. */
+const SEASON_EDITION_LIMIT = 100;
+
+const TEMPLATE_COLUMNS = `id, owner, competition_name, type, workouts, options,
+  teams, invite_user_ids, recurrence, is_active, edition_count`;
+
+export interface CompetitionTemplateInput {
+  competition_name: string;
+  type: CompetitionType;
+  workouts?: CompetitionActivity[];
+  options: CompetitionOptions;
+  teams?: CompetitionTemplateTeams | null;
+  invite_user_ids?: string[];
+  recurrence?: CompetitionRecurrence;
+}
+
+function normalizeRecurrence(raw: unknown): CompetitionRecurrence {
+  if (raw === undefined) return "none";
+  if (!COMPETITION_RECURRENCES.includes(raw as CompetitionRecurrence)) {
+    throw new BadRequestError("invalid_recurrence");
+  }
+  return raw as CompetitionRecurrence;
+}
+
+function normalizeInvitees(raw: unknown, owner: string): string[] {
+  if (raw === undefined) return [];
+  if (!Array.isArray(raw) || raw.some((id) => typeof id !== "string")) {
+    throw new BadRequestError("invalid_invite_list");
+  }
+  const ids = [...new Set(raw as string[])].filter((id) => id !== owner);
+  if (ids.length > MAX_TEMPLATE_INVITEES) {
+    throw new BadRequestError("too_many_invitees");
+  }
+  return ids;
+}
+
+/**
+ * Shape-check the stored team setup. The full rules (duplicate names, known
+ * ids) run again in `setCompetitionTeams` at spawn; this only keeps a template
+ * from saving something that could never be applied.
+ */
+function normalizeTeams(raw: unknown): CompetitionTemplateTeams | null {
+  if (raw === undefined || raw === null) return null;
+  const { member_pick, teams, assignments } = raw as Record<string, unknown>;
+  if (!Array.isArray(teams) || teams.length === 0) return null;
+  if (teams.length > MAX_TEAMS) throw new BadRequestError("too_many_teams");
+
+  const list = teams.map((t, i) => {
+    const name = typeof t?.name === "string" ? t.name.trim() : "";
+    if (name.length === 0 || name.length > COMPETITION_NAME_MAX_LENGTH) {
+      throw new BadRequestError("invalid_team_name");
+    }
+    return { id: typeof t?.id === "string" ? t.id : `team${i + 1}`, name };
+  });
+  const ids = new Set(list.map((t) => t.id));
+  if (ids.size !== list.length) throw new BadRequestError("duplicate_team_id");
+
+  const picks: Record<string, string | null> = {};
+  for (const [userId, teamId] of Object.entries(
+    (assignments ?? {}) as Record<string, unknown>,
+  )) {
+    if (teamId !== null && !ids.has(teamId as string)) {
+      throw new BadRequestError("invalid_team_assignment");
+    }
+    picks[userId] = teamId as string | null;
+  }
+  return { member_pick: member_pick === true, teams: list, assignments: picks };
+}
+
+/**
+ * Validate a full template definition with the same rules `createCompetition`
+ * applies, so a template can never spawn a competition the create endpoint
+ * would reject. A recurring template gets its end date from the recurrence,
+ * which stands in for `end_date` in the required-key check.
+ */
+function normalizeInput(
+  owner: string,
+  input: CompetitionTemplateInput,
+): CompetitionTemplateInput & {
+  recurrence: CompetitionRecurrence;
+  workouts: CompetitionActivity[];
+} {
+  const competition_name = validateCompetitionName(input.competition_name);
+  if (!COMPETITION_TYPES.includes(input.type)) {
+    throw new BadRequestError("invalid_type");
+  }
+  if (!input.options || typeof input.options !== "object") {
+    throw new BadRequestError("invalid_options");
+  }
+  const recurrence = normalizeRecurrence(input.recurrence);
+  const workouts = input.workouts ?? ["running", "walking"];
+  checkKeys({
+    competition_name,
+    type: input.type,
+    workouts,
+    options: input.options,
+    owner,
+    end_date: recurrence === "none" ? undefined : "recurring",
+  });
+  return {
+    competition_name,
+    type: input.type,
+    workouts,
+    options: input.options,
+    teams: normalizeTeams(input.teams),
+    invite_user_ids: normalizeInvitees(input.invite_user_ids, owner),
+    recurrence,
+  };
+}
+
+async function getOwnedTemplate(
+  userId: string,
+  templateId: string,
+): Promise<CompetitionTemplate> {
+  const rows = await db.query<CompetitionTemplate>(
+    `SELECT ${TEMPLATE_COLUMNS} FROM competition_templates
+      WHERE id = $1 AND owner = $2`,
+    [templateId, userId],
+  );
+  if (rows.length === 0) throw new BadRequestError("template_not_found");
+  return rows[0];
+}
+
+export async function listCompetitionTemplates(
+  userId: string,
+): Promise<CompetitionTemplate[]> {
+  return db.query<CompetitionTemplate>(
+    `SELECT ${TEMPLATE_COLUMNS} FROM competition_templates
+      WHERE owner = $1
+      ORDER BY created_at ASC`,
+    [userId],
+  );
+}
+
+/**
+ * Save a template, either from an explicit definition or — the common case —
+ * by snapshotting a competition the caller owns. A snapshot carries the
+ * competition's teams and everyone who hasn't declined, and a recurring one
+ * adopts that competition as edition 1, so the running edition is where the
+ * season starts instead of a month from now.
+ */
+export async function createCompetitionTemplate(
+  userId: string,
+  input:
+    | CompetitionTemplateInput
+    | { competition_id: string; recurrence?: CompetitionRecurrence },
+): Promise<CompetitionTemplate> {
+  let definition: CompetitionTemplateInput;
+  let adoptCompetitionId: string | null = null;
+
+  if ("competition_id" in input) {
+    const competition = await getCompetition(input.competition_id);
+    if (!competition || competition.owner !== userId) {
+      throw new BadRequestError("competition_not_found");
+    }
+    const assignments: Record<string, string | null> = {};
+    for (const u of competition.users) {
+      if (u.team_id) assignments[u.user_id] = u.team_id;
+    }
+    definition = {
+      competition_name: competition.competition_name,
+      type: competition.type,
+      workouts: competition.workouts,
+      options: competition.options,
+      teams: competition.teams
+        ? {
+            member_pick: competition.teams.member_pick,
+            teams: competition.teams.teams.map(({ id, name }) => ({
+              id,
+              name,
+            })),
+            assignments,
+          }
+        : null,
+      invite_user_ids: competition.users
+        .filter((u) => u.invite_status !== "declined")
+        .map((u) => u.user_id),
+      recurrence: input.recurrence,
+    };
+    if (!competition.template_id) adoptCompetitionId = competition.id;
+  } else {
+    definition = input;
+  }
+
+  const template = normalizeInput(userId, definition);
+
+  const existing = await db.query<{ n: number }>(
+    `SELECT COUNT(*)::int AS n FROM competition_templates WHERE owner = $1`,
+    [userId],
+  );
+  if ((existing[0]?.n ?? 0) >= MAX_TEMPLATES_PER_USER) {
+    throw new BadRequestError("too_many_templates");
+  }
+
+  const adopt = adoptCompetitionId !== null && template.recurrence !== "none";
+  const rows = await db.query<CompetitionTemplate>(
+    `INSERT INTO competition_templates
+       (owner, competition_name, type, workouts, options, teams,
+        invite_user_ids, recurrence, edition_count)
+     VALUES ($1, $2, $3, $4, $5, $6, $7::text[], $8, $9)
+     RETURNING ${TEMPLATE_COLUMNS}`,
+    [
+      userId,
+      template.competition_name,
+      template.type,
+      JSON.stringify(template.workouts),
+      JSON.stringify(template.options),
+      template.teams ? JSON.stringify(template.teams) : null,
+      template.invite_user_ids,
+      template.recurrence,
+      adopt ? 1 : 0,
+    ],
+  );
+  const created = rows[0];
+
+  if (adopt) {
+    await db.query(
+      `UPDATE competitions SET template_id = $1, edition = 1, updated_at = NOW()
+        WHERE id = $2 AND template_id IS NULL`,
+      [created.id, adoptCompetitionId],
+    );
+  }
+  return created;
+}
+
+/**
+ * Partial update. Fields are merged over the stored template and the result is
+ * re-validated as a whole — changing the type can make the old options
+ * invalid, and that has to fail here rather than at the next spawn.
+ */
+export async function updateCompetitionTemplate(
+  userId: string,
+  templateId: string,
+  patch: Partial<CompetitionTemplateInput> & { is_active?: boolean },
+): Promise<CompetitionTemplate> {
+  const current = await getOwnedTemplate(userId, templateId);
+  if (patch.is_active !== undefined && typeof patch.is_active !== "boolean") {
+    throw new BadRequestError("invalid_is_active");
+  }
+  const merged = normalizeInput(userId, {
+    competition_name: patch.competition_name ?? current.competition_name,
+    type: patch.type ?? current.type,
+    workouts: patch.workouts ?? current.workouts,
+    options: patch.options ?? current.options,
+    teams: patch.teams !== undefined ? patch.teams : current.teams,
+    invite_user_ids: patch.invite_user_ids ?? current.invite_user_ids,
+    recurrence: patch.recurrence ?? current.recurrence,
+  });
+
+  const rows = await db.query<CompetitionTemplate>(
+    `UPDATE competition_templates
+        SET competition_name = $3,
+            type = $4,
+            workouts = $5,
+            options = $6,
+            teams = $7,
+            invite_user_ids = $8::text[],
+            recurrence = $9,
+            is_active = COALESCE($10, is_active),
+            updated_at = NOW()
+      WHERE id = $1 AND owner = $2
+      RETURNING ${TEMPLATE_COLUMNS}`,
+    [
+      templateId,
+      userId,
+      merged.competition_name,
+      merged.type,
+      JSON.stringify(merged.workouts),
+      JSON.stringify(merged.options),
+      merged.teams ? JSON.stringify(merged.teams) : null,
+      merged.invite_user_ids,
+      merged.recurrence,
+      patch.is_active ?? null,
+    ],
+  );
+  if (rows.length === 0) throw new BadRequestError("template_not_found");
+  return rows[0];
+}
+
+/**
+ * Deleting a template ends the series; its editions stay as ordinary
+ * competitions (the FK sets their `template_id` to NULL).
+ */
+export async function deleteCompetitionTemplate(
+  userId: string,
+  templateId: string,
+): Promise<void> {
+  const rows = await db.query<{ id: string }>(
+    `DELETE FROM competition_templates WHERE id = $1 AND owner = $2 RETURNING id`,
+    [templateId, userId],
+  );
+  if (rows.length === 0) throw new BadRequestError("template_not_found");
+}
+
+const toDateStr = (ms: number) => new Date(ms).toISOString().split("T")[0];
+
+function addDays(dateStr: string, days: number): string {
+  const [y, m, d] = dateStr.split("-").map(Number);
+  return toDateStr(Date.UTC(y, m - 1, d + days));
+}
+
+/**
+ * The dates an edition runs, starting on `startDate`. Weekly editions are
+ * seven days; monthly ones end on the last day of the calendar month they
+ * start in, so a series begun mid-month settles onto whole months from its
+ * second edition.
+ */
+function editionWindow(
+  recurrence: Exclude<CompetitionRecurrence, "none">,
+  startDate: string,
+): { start_date: string; end_date: string } {
+  if (recurrence === "weekly") {
+    return { start_date: startDate, end_date: addDays(startDate, 6) };
+  }
+  const [y, m] = startDate.split("-").map(Number);
+  return { start_date: startDate, end_date: toDateStr(Date.UTC(y, m, 0)) };
+}
+
+/**
+ * Create edition `edition` of a template: the competition, its invites (and
+ * invite pushes), its teams. The caller has already claimed the edition
+ * number.
+ *
+ * Recurring editions are created already scheduled — the series runs on the
+ * calendar, and an invitee who accepts late simply joins a running edition.
+ * A one-off template spawns a lobby, the same as creating the competition by
+ * hand; it starts when everyone accepts or the owner presses Start.
+ */
+async function spawnEdition(
+  template: CompetitionTemplate,
+  edition: number,
+  after: string | null,
+  { manual }: { manual: boolean },
+): Promise<string> {
+  let window: { start_date: string; end_date: string } | null = null;
+  if (template.recurrence !== "none") {
+    const [owner] = await db.query<{ timezone: string | null }>(
+      `SELECT timezone FROM users WHERE user_id = $1`,
+      [template.owner],
+    );
+    const today = todayInTimeZone(owner?.timezone ?? DEFAULT_TIMEZONE);
+    // Never overlapping the edition it follows, and never in the past. The
+    // midnight resolution may start its successor today; a manual spawn starts
+    // tomorrow at the earliest, like a manual Start, so day one is a full day.
+    const earliest = manual ? addDays(today, 1) : today;
+    const next = after ? addDays(after, 1) : earliest;
+    const start = next > earliest ? next : earliest;
+    window = editionWindow(template.recurrence, start);
+  }
+
+  const competitionId = await createCompetition({
+    competition_name: template.competition_name,
+    type: template.type,
+    workouts: template.workouts,
+    options: template.options,
+    owner: template.owner,
+    start_date: window?.start_date,
+    end_date: window?.end_date,
+  });
+  await db.query(
+    `UPDATE competitions SET template_id = $1, edition = $2 WHERE id = $3`,
+    [template.id, edition, competitionId],
+  );
+
+  // Invitees are re-checked now, not when the template was saved: the
+  // account may be gone, or a block may have gone up since.
+  const blocked = new Set(await getBlockedIds(template.owner));
+  const invitees = (
+    await db.query<{ user_id: string }>(
+      `SELECT user_id FROM users WHERE user_id = ANY($1::text[])`,
+      [template.invite_user_ids],
+    )
+  )
+    .map((r) => r.user_id)
+    .filter((id) => id !== template.owner && !blocked.has(id));
+
+  const [owner] = await db.query<{ username: string | null }>(
+    `SELECT username FROM users WHERE user_id = $1`,
+    [template.owner],
+  );
+  const body =
+    template.recurrence === "none"
+      ? `${owner?.username || "Someone"} invited you to ${template.competition_name}`
+      : `${template.competition_name} #${edition} starts ${window!.start_date} — you're invited`;
+  for (const inviteeId of invitees) {
+    await sendCompetitionInvite(competitionId, inviteeId);
+    sendPush(inviteeId, {
+      title: "Competition invite",
+      body,
+      type: "competition_invite",
+      data: { competition_id: competitionId },
+    }).catch((err) =>
+      console.error(
+        "[Push] Error sending competition invite notification:",
+        err.message,
+      ),
+    );
+  }
+
+  if (template.teams) {
+    const competition = await getCompetition(competitionId);
+    const participants = new Set(competition.users.map((u) => u.user_id));
+    await setCompetitionTeams(competition, {
+      member_pick: template.teams.member_pick,
+      teams: template.teams.teams,
+      assignments: Object.fromEntries(
+        Object.entries(template.teams.assignments).filter(([userId]) =>
+          participants.has(userId),
+        ),
+      ),
+    });
+  }
+
+  return competitionId;
+}
+
+/**
+ * Claim the next edition number. Conditional on `edition_count` still being
+ * the edition the caller saw, so two resolvers of the same finished edition
+ * (upload + cron) — or a double-tapped spawn button — produce one edition.
+ */
+async function claimNextEdition(
+  templateId: string,
+  seen: number,
+): Promise<CompetitionTemplate | null> {
+  const rows = await db.query<CompetitionTemplate>(
+    `UPDATE competition_templates
+        SET edition_count = edition_count + 1, updated_at = NOW()
+      WHERE id = $1 AND edition_count = $2
+      RETURNING ${TEMPLATE_COLUMNS}`,
+    [templateId, seen],
+  );
+  return rows[0] ?? null;
+}
+
+/**
+ * POST /competitions/templates/:templateId/spawn — start the next edition by
+ * hand: the first edition of a new series, a one-off template, or a series
+ * whose automatic spawn failed. Refused while an edition is still running,
+ * which would otherwise fork the season.
+ */
+export async function spawnCompetitionTemplate(
+  userId: string,
+  templateId: string,
+): Promise<string> {
+  const template = await getOwnedTemplate(userId, templateId);
+  const [latest] = await db.query<{
+    end_date: string | null;
+    winner: string | null;
+  }>(
+    `SELECT to_char(end_date, 'YYYY-MM-DD') AS end_date, winner
+       FROM competitions
+      WHERE template_id = $1
+      ORDER BY edition DESC NULLS LAST
+      LIMIT 1`,
+    [templateId],
+  );
+  if (template.recurrence !== "none" && latest && latest.winner === null) {
+    throw new BadRequestError("edition_in_progress");
+  }
+
+  const claimed = await claimNextEdition(templateId, template.edition_count);
+  if (!claimed) throw new BadRequestError("edition_in_progress");
+  return spawnEdition(
+    claimed,
+    claimed.edition_count,
+    latest?.end_date ?? null,
+    {
+      manual: true,
+    },
+  );
+}
+
+/**
+ * Spawn the edition after `competitionId` if it belongs to an active
+ * recurring template and is that template's latest edition. Called once
+ * placements are final; never throws.
+ */
+export async function spawnNextEdition(competitionId: string): Promise<void> {
+  const [finished] = await db.query<{
+    template_id: string;
+    edition: number;
+    end_date: string | null;
+  }>(
+    `SELECT c.template_id, c.edition, to_char(c.end_date, 'YYYY-MM-DD') AS end_date
+       FROM competitions c
+       JOIN competition_templates t ON t.id = c.template_id
+      WHERE c.id = $1 AND c.winner IS NOT NULL
+        AND t.is_active AND t.recurrence <> 'none'`,
+    [competitionId],
+  );
+  if (!finished || finished.edition === null) return;
+
+  const claimed = await claimNextEdition(
+    finished.template_id,
+    finished.edition,
+  );
+  if (!claimed) return;
+  try {
+    await spawnEdition(claimed, claimed.edition_count, finished.end_date, {
+      manual: false,
+    });
+  } catch (err) {
+    // Give the claim back unless the edition's row already exists (a failure
+    // past createCompetition, e.g. an invite, still leaves a playable
+    // edition). Released, the series is picked up again by
+    // retryStalledEditions on the next cron tick.
+    await db
+      .query(
+        `UPDATE competition_templates
+            SET edition_count = edition_count - 1
+          WHERE id = $1 AND edition_count = $2
+            AND NOT EXISTS (
+              SELECT 1 FROM competitions
+               WHERE template_id = $1 AND edition = $2)`,
+        [claimed.id, claimed.edition_count],
+      )
+      .catch(() => {});
+    void logError("cron", "failed to spawn next competition edition", {
+      userId: claimed.owner,
+      context: {
+        templateId: claimed.id,
+        edition: claimed.edition_count,
+        error: String(err),
+      },
+    });
+  }
+}
+
+/** How long a series whose next edition keeps failing to spawn is retried. */
+const SPAWN_RETRY_DAYS = 7;
+
+/**
+ * Re-run spawnNextEdition for every active recurring series whose latest
+ * edition has finished with no successor claimed — the state a failed spawn
+ * leaves behind. Hourly from the competition cron; after SPAWN_RETRY_DAYS the
+ * owner's spawn button is the way back.
+ */
+export async function retryStalledEditions(): Promise<void> {
+  const stalled = await db.query<{ id: string }>(
+    `SELECT c.id
+       FROM competition_templates t
+       JOIN competitions c
+         ON c.template_id = t.id AND c.edition = t.edition_count
+      WHERE t.is_active AND t.recurrence <> 'none'
+        AND c.winner IS NOT NULL
+        AND c.end_date >= CURRENT_DATE - $1::int`,
+    [SPAWN_RETRY_DAYS],
+  );
+  for (const { id } of stalled) {
+    await spawnNextEdition(id);
+  }
+}
+
+/**
+ * GET /competitions/templates/:templateId/season — the standings table across
+ * every finished edition, plus the edition history. Open to the owner and to
+ * anyone who has played an edition; it's their season too.
+ */
+export async function getCompetitionSeason(
+  userId: string,
+  templateId: string,
+): Promise<CompetitionSeasonResponse> {
+  const rows = await db.query<CompetitionTemplate>(
+    `SELECT ${TEMPLATE_COLUMNS} FROM competition_templates t
+      WHERE t.id = $1
+        AND (t.owner = $2 OR EXISTS (
+          SELECT 1 FROM competitions c
+            JOIN competition_users cu ON cu.competition_id = c.id
+           WHERE c.template_id = t.id AND cu.user_id = $2
+             AND cu.invite_status = 'accepted'))`,
+    [templateId, userId],
+  );
+  if (rows.length === 0) throw new BadRequestError("template_not_found");
+
+  // Wins come from placement (not competitions.winner) so team editions
+  // credit every member of the winning team.
+  const standings = await db.query<CompetitionSeasonStanding>(
+    `SELECT cu.user_id, u.username, u.first_name, u.profile_image_url,
+            COUNT(*)::int AS editions,
+            COUNT(*) FILTER (WHERE cu.placement = 1)::int AS wins,
+            COUNT(*) FILTER (WHERE cu.placement <= 3)::int AS podiums,
+            MIN(cu.placement)::int AS best_placement,
+            ROUND(AVG(cu.placement)::numeric, 2)::float AS average_placement
+       FROM competitions c
+       JOIN competition_users cu
+         ON cu.competition_id = c.id AND cu.invite_status = 'accepted'
+       JOIN users u ON u.user_id = cu.user_id
+      WHERE c.template_id = $1 AND c.winner IS NOT NULL
+      GROUP BY cu.user_id, u.username, u.first_name, u.profile_image_url
+      ORDER BY wins DESC, podiums DESC, average_placement ASC NULLS LAST,
+               editions DESC`,
+    [templateId],
+  );
+
+  const editions = await db.query<CompetitionSeasonEdition>(
+    `SELECT id AS competition_id, edition,
+            to_char(start_date, 'YYYY-MM-DD') AS start_date,
+            to_char(end_date, 'YYYY-MM-DD') AS end_date,
+            winner AS winner_user_id,
+            (winner IS NOT NULL) AS finished
+       FROM competitions
+      WHERE template_id = $1
+      ORDER BY edition DESC NULLS LAST
+      LIMIT $2`,
+    [templateId, SEASON_EDITION_LIMIT],
+  );
+
+  return { template: rows[0], standings, editions };
+}
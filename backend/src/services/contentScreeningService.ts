@@ -0,0 +1,424 @@
+import fs from "fs";
+import path from "path";
+import sharp from "sharp";
+import { PostgresService } from "./DbService.js";
+import { BadRequestError } from "../errors/Errors.js";
+import { REPORT_REASONS, type ReportReason } from "./moderationService.js";
+import type { ReportTargetType } from "../types/moderation.js";
+import type {
+  ContentClassifier,
+  ScreeningFinding,
+  ScreeningResult,
+  ScreeningRule,
+  ScreeningRuleAction,
+  ScreeningRuleKind,
+} from "../types/screening.js";
+
+/**
+ * Content screening: captions, comments and post photos are checked before
+ * they go live.
+ *
+ * Three screeners run, in order:
+ * - `text_rules` — the admin-maintained keyword and regex list.
+ * - `image_hash` — a perceptual-hash blocklist; a re-upload of a banned photo
+ *   (re-encoded, resized, lightly cropped) still lands within a few bits.
+ * - the classifier — an external service behind `ContentClassifier`. The
+ *   default is a local stub that finds nothing; `setContentClassifier` swaps
+ *   in a real one at startup.
+ *
+ * Each finding becomes a `source = 'screening'` report in the admin queue. A
+ * `hold` finding also stamps `held_at`, which keeps the content visible to its
+ * author only until a moderator approves it (`visibleUnlessHeldSql`).
+ *
+ * Screening fails open: a screener that throws is logged and skipped. Holding
+ * every post because a rules query timed out would be the worse outage.
+ */
+
+const db = PostgresService.getInstance();
+
+export const SCREENING_RULE_KINDS: ScreeningRuleKind[] = [
+  "keyword",
+  "regex",
+  "image_hash",
+];
+export const SCREENING_RULE_ACTIONS: ScreeningRuleAction[] = ["flag", "hold"];
+
+const PATTERN_MAX_LENGTH = 200;
+const NOTE_MAX_LENGTH = 500;
+
+// dHash: 64 bits, so a handful of flipped bits is the same picture re-encoded
+// or resized. Past ~10 unrelated photos start colliding.
+const IMAGE_HASH_MAX_DISTANCE = 6;
+const IMAGE_HASH_RE = /^[0-9a-f]{16}$/;
+
+const ISO_TS = `'YYYY-MM-DD"T"HH24:MI:SS.MS"Z"'`;
+
+const REPORT_TABLES: Record<
+  ReportTargetType,
+  { table: string; column: string }
+> = {
+  post: { table: "post_reports", column: "post_id" },
+  comment: { table: "comment_reports", column: "comment_id" },
+};
+
+/**
+ * Predicate: content row `alias` (a post or comment) is visible to
+ * `viewerParam` — always to its author, otherwise only once it is not held.
+ */
+export function visibleUnlessHeldSql(
+  alias: string,
+  viewerParam: string,
+): string {
+  return `(${alias}.held_at IS NULL OR ${alias}.user_id = ${viewerParam})`;
+}
+
+// ─── Classifier ──────────────────────────────────────────────────────
+
+/** The default classifier: finds nothing. Keeps the pipeline shape in dev. */
+export const localStubClassifier: ContentClassifier = {
+  name: "local_stub",
+  async classifyText() {
+    return [];
+  },
+  async classifyImage() {
+    return [];
+  },
+};
+
+let classifier: ContentClassifier = localStubClassifier;
+
+/** Replace the classifier every later screening call uses. */
+export function setContentClassifier(next: ContentClassifier): void {
+  classifier = next;
+}
+
+// ─── Rules ───────────────────────────────────────────────────────────
+
+type CompiledRules = {
+  text: { rule: ScreeningRule; re: RegExp }[];
+  images: { rule: ScreeningRule; hash: bigint }[];
+};
+
+// Every post and comment reads the rules, so they are cached per process.
+// Create/delete clear the cache here; another instance picks a change up
+// within the TTL.
+const RULES_CACHE_TTL_MS = 60_000;
+let rulesCache: { value: CompiledRules; at: number } | null = null;
+
+const RULE_SELECT = `SELECT r.id::text AS id, r.kind, r.pattern, r.reason, r.action,
+		r.note, r.created_by, cu.username AS created_by_username,
+		to_char(r.created_at AT TIME ZONE 'UTC', ${ISO_TS}) AS created_at
+	FROM screening_rules r
+	LEFT JOIN users cu ON cu.user_id = r.created_by`;
+
+function escapeRegex(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/**
+ * A keyword matches as a whole word (letters and digits either side break it),
+ * so "ass" does not flag "class". Regex rules are case-insensitive too.
+ */
+function compileTextRule(kind: ScreeningRuleKind, pattern: string): RegExp {
+  if (kind === "keyword") {
+    return new RegExp(
+      `(?<![\\p{L}\\p{N}])${escapeRegex(pattern)}(?![\\p{L}\\p{N}])`,
+      "iu",
+    );
+  }
+  return new RegExp(pattern, "iu");
+}
+
+async function loadRules(): Promise<CompiledRules> {
+  if (rulesCache && Date.now() - rulesCache.at < RULES_CACHE_TTL_MS) {
+    return rulesCache.value;
+  }
+  const rows = await db.query<ScreeningRule>(RULE_SELECT);
+  const value: CompiledRules = { text: [], images: [] };
+  for (const rule of rows) {
+    if (rule.kind === "image_hash") {
+      value.images.push({ rule, hash: BigInt(`0x${rule.pattern}`) });
+      continue;
+    }
+    try {
+      value.text.push({ rule, re: compileTextRule(rule.kind, rule.pattern) });
+    } catch {
+      // Validated on insert; a row edited by hand is skipped, not fatal.
+      console.error(`[Screening] Skipping invalid rule ${rule.id}`);
+    }
+  }
+  rulesCache = { value, at: Date.now() };
+  return value;
+}
+
+/** Every rule, newest first. */
+export async function listScreeningRules(): Promise<ScreeningRule[]> {
+  return db.query<ScreeningRule>(`${RULE_SELECT} ORDER BY r.created_at DESC`);
+}
+
+/**
+ * Add a rule. An `image_hash` rule takes either `pattern` (16 hex digits) or
+ * `post_id` — the hash of that post's photo, which is how a moderator bans an
+ * image they just removed.
+ */
+export async function createScreeningRule(
+  adminId: string,
+  input: {
+    kind?: unknown;
+    pattern?: unknown;
+    post_id?: unknown;
+    reason?: unknown;
+    action?: unknown;
+    note?: unknown;
+  },
+): Promise<ScreeningRule> {
+  const kind = input.kind as ScreeningRuleKind;
+  if (!SCREENING_RULE_KINDS.includes(kind)) {
+    throw new BadRequestError("invalid_kind");
+  }
+  const reason = (input.reason ?? "other") as ReportReason;
+  if (!REPORT_REASONS.includes(reason)) {
+    throw new BadRequestError("invalid_reason");
+  }
+  const action = (input.action ?? "flag") as ScreeningRuleAction;
+  if (!SCREENING_RULE_ACTIONS.includes(action)) {
+    throw new BadRequestError("invalid_action");
+  }
+  let note: string | null = null;
+  if (input.note !== undefined && input.note !== null && input.note !== "") {
+    if (
+      typeof input.note !== "string" ||
+      input.note.trim().length > NOTE_MAX_LENGTH
+    ) {
+      throw new BadRequestError("invalid_note");
+    }
+    note = input.note.trim() || null;
+  }
+
+  let pattern: string;
+  if (kind === "image_hash" && typeof input.post_id === "string") {
+    const posts = await db.query<{ media_url: string }>(
+      `SELECT media_url FROM posts WHERE post_id::text = $1`,
+      [input.post_id],
+    );
+    if (posts.length === 0) throw new BadRequestError("post_not_found");
+    const image = await readMedia(posts[0].media_url);
+    if (!image) throw new BadRequestError("media_missing");
+    pattern = await perceptualHash(image);
+  } else {
+    if (typeof input.pattern !== "string") {
+      throw new BadRequestError("invalid_pattern");
+    }
+    pattern =
+      kind === "image_hash"
+        ? input.pattern.trim().toLowerCase()
+        : input.pattern.trim();
+    if (!pattern || pattern.length > PATTERN_MAX_LENGTH) {
+      throw new BadRequestError("invalid_pattern");
+    }
+    if (kind === "image_hash" && !IMAGE_HASH_RE.test(pattern)) {
+      throw new BadRequestError("invalid_pattern");
+    }
+    if (kind !== "image_hash") {
+      try {
+        compileTextRule(kind, pattern);
+      } catch {
+        throw new BadRequestError("invalid_pattern");
+      }
+    }
+  }
+
+  const rows = await db.query<{ id: string }>(
+    `INSERT INTO screening_rules (kind, pattern, reason, action, note, created_by)
+		VALUES ($1, $2, $3, $4, $5, $6)
+		ON CONFLICT (kind, pattern) DO NOTHING
+		RETURNING id::text AS id`,
+    [kind, pattern, reason, action, note, adminId],
+  );
+  if (rows.length === 0) throw new BadRequestError("rule_exists");
+  rulesCache = null;
+
+  const [rule] = await db.query<ScreeningRule>(
+    `${RULE_SELECT} WHERE r.id = $1::uuid`,
+    [rows[0].id],
+  );
+  return rule;
+}
+
+/** Delete a rule. Reports it already filed stay in the queue. */
+export async function deleteScreeningRule(ruleId: string): Promise<void> {
+  const rows = await db.query(
+    `DELETE FROM screening_rules WHERE id::text = $1 RETURNING id`,
+    [ruleId],
+  );
+  if (rows.length === 0) throw new BadRequestError("rule_not_found");
+  rulesCache = null;
+}
+
+// ─── Images ──────────────────────────────────────────────────────────
+
+/**
+ * 64-bit difference hash, as 16 hex digits: shrink to 9x8 greyscale and record
+ * whether each pixel is brighter than its right-hand neighbour. Survives
+ * re-encoding and resizing; a crop or overlay moves it by a few bits.
+ */
+export async function perceptualHash(image: Buffer): Promise<string> {
+  const pixels = await sharp(image)
+    .rotate()
+    .greyscale()
+    .resize(9, 8, { fit: "fill" })
+    .raw()
+    .toBuffer();
+  let hash = 0n;
+  for (let y = 0; y < 8; y++) {
+    for (let x = 0; x < 8; x++) {
+      const left = pixels[y * 9 + x];
+      const right = pixels[y * 9 + x + 1];
+      hash = (hash << 1n) | (left > right ? 1n : 0n);
+    }
+  }
+  return hash.toString(16).padStart(16, "0");
+}
+
+function hammingDistance(a: bigint, b: bigint): number {
+  let diff = a ^ b;
+  let bits = 0;
+  while (diff) {
+    bits += Number(diff & 1n);
+    diff >>= 1n;
+  }
+  return bits;
+}
+
+/** Read an uploaded photo by its stored `/uploads/...` path; null if missing. */
+async function readMedia(mediaUrl: string): Promise<Buffer | null> {
+  const barePath = mediaUrl.split("?")[0];
+  if (!barePath.startsWith("/uploads/") || barePath.includes("..")) {
+    return null;
+  }
+  try {
+    return await fs.promises.readFile(
+      path.join(process.cwd(), barePath.replace(/^\//, "")),
+    );
+  } catch {
+    return null;
+  }
+}
+
+// ─── Pipeline ────────────────────────────────────────────────────────
+
+async function runScreener(
+  name: string,
+  fn: () => Promise<ScreeningFinding[]>,
+): Promise<ScreeningFinding[]> {
+  try {
+    return await fn();
+  } catch (err: any) {
+    console.error(`[Screening] ${name} failed:`, err?.message ?? err);
+    return [];
+  }
+}
+
+function textRuleFindings(
+  rules: CompiledRules,
+  text: string,
+): ScreeningFinding[] {
+  const findings: ScreeningFinding[] = [];
+  for (const { rule, re } of rules.text) {
+    if (!re.test(text)) continue;
+    findings.push({
+      screener: "text_rules",
+      verdict: rule.action,
+      reason: rule.reason,
+      detail: `Matched ${rule.kind} rule "${rule.pattern}"`,
+    });
+  }
+  return findings;
+}
+
+function toResult(findings: ScreeningFinding[]): ScreeningResult {
+  const verdict = findings.some((f) => f.verdict === "hold")
+    ? "hold"
+    : findings.length > 0
+      ? "flag"
+      : "allow";
+  return { verdict, findings };
+}
+
+/** Screen a comment (or any bare text). */
+export async function screenText(text: string): Promise<ScreeningResult> {
+  const findings = [
+    ...(await runScreener("text_rules", async () =>
+      textRuleFindings(await loadRules(), text),
+    )),
+    ...(await runScreener(classifier.name, () =>
+      classifier.classifyText(text),
+    )),
+  ];
+  return toResult(findings);
+}
+
+/** Screen a post: its caption, if any, and the uploaded photo. */
+export async function screenPost(input: {
+  caption: string | null;
+  mediaUrl: string;
+}): Promise<ScreeningResult> {
+  const findings: ScreeningFinding[] = [];
+  if (input.caption) {
+    findings.push(...(await screenText(input.caption)).findings);
+  }
+
+  const image = await readMedia(input.mediaUrl);
+  if (image) {
+    findings.push(
+      ...(await runScreener("image_hash", async () => {
+        const rules = await loadRules();
+        if (rules.images.length === 0) return [];
+        const hash = BigInt(`0x${await perceptualHash(image)}`);
+        return rules.images
+          .filter(
+            ({ hash: banned }) =>
+              hammingDistance(hash, banned) <= IMAGE_HASH_MAX_DISTANCE,
+          )
+          .map(({ rule }) => ({
+            screener: "image_hash",
+            verdict: rule.action,
+            reason: rule.reason,
+            detail: `Photo matches blocked image ${rule.pattern}`,
+          }));
+      })),
+      ...(await runScreener(classifier.name, () =>
+        classifier.classifyImage(image),
+      )),
+    );
+  }
+  return toResult(findings);
+}
+
+/**
+ * File one screening report per finding so the content shows up in the admin
+ * report queue. Called after the content row exists; a failure is logged
+ * rather than failing a post that already went through.
+ */
+export async function fileScreeningReports(
+  targetType: ReportTargetType,
+  targetId: string,
+  findings: ScreeningFinding[],
+): Promise<void> {
+  if (findings.length === 0) return;
+  const { table, column } = REPORT_TABLES[targetType];
+  try {
+    await db.transaction(
+      findings.map((f) => ({
+        query: `INSERT INTO ${table} (${column}, reporter_id, source, reason, details)
+					VALUES ($1::uuid, NULL, 'screening', $2, $3)`,
+        params: [targetId, f.reason, `[${f.screener}] ${f.detail}`],
+      })),
+    );
+  } catch (err: any) {
+    console.error(
+      `[Screening] Failed to file reports for ${targetType} ${targetId}:`,
+      err?.message ?? err,
+    );
+  }
+}
@@ -1,4 +1,5 @@
 import { PostgresService } from "./DbService.js";
+import { getGoalMilesOn } from "./dailyGoalService.js";
 import { MIN_PLAUSIBLE_MILE_SECONDS, countedWorkoutSql } from "./mileTime.js";
 import {
   DailyChallenge,
@@ -23,6 +24,7 @@ import {
   getOrAssignRival,
   hasH2hRivalCandidates,
 } from "./h2hMatchupService.js";
+import { localTodaySql } from "./dailyResetTime.js";
 
 const db = PostgresService.getInstance();
 
@@ -32,7 +34,7 @@ export async function getTodaysChallenge(
   userId: string,
   localDate: string,
 ): Promise<TodaysChallengeResponse> {
-  const goalMiles = await getGoalMiles(userId);
+  const goalMiles = await getGoalMilesOn(userId, localDate);
 
   // A recorded completion pins today's challenge: selection inputs (friend
   // count, feed-feature signals) can flip mid-day, and the challenge the user
@@ -186,9 +188,7 @@ async function missedDaysInWindow(
   const windowRows = await db.query<{ local_date: string }>(
     `WITH bounds AS (
 			SELECT
-				(NOW() + (COALESCE(
-					(SELECT timezone_offset FROM workouts WHERE user_id = $1 ORDER BY device_end_date DESC LIMIT 1),
-					0) || ' minutes')::interval)::date AS today,
+				${localTodaySql("$1")} AS today,
 				(SELECT created_at::date FROM users WHERE user_id = $1) AS joined
 		)
 		SELECT d::date::text AS local_date
@@ -364,20 +364,13 @@ export async function evaluateChallengesForBatch(
 }
 
 /**
- * The user's "today" expressed as a local-date string (YYYY-MM-DD), derived
- * from their most recent workout's timezone offset. Falls back to UTC if the
- * user has no workouts yet (in which case they have nothing to backfill anyway).
+ * The user's "today" expressed as a local-date string (YYYY-MM-DD), on their
+ * own calendar (see localNowSql). Falls back to UTC if nothing is known about
+ * where the user is (in which case they have nothing to backfill anyway).
  */
 async function getUserTodayLocalDate(userId: string): Promise<string | null> {
   const rows = await db.query<{ local_date: string }>(
-    `SELECT to_char(
-			(now() AT TIME ZONE 'UTC') +
-			COALESCE(
-				(SELECT timezone_offset FROM workouts WHERE user_id = $1 ORDER BY device_end_date DESC LIMIT 1),
-				0
-			) * INTERVAL '1 minute',
-			'YYYY-MM-DD'
-		) AS local_date`,
+    `SELECT to_char(${localTodaySql("$1")}, 'YYYY-MM-DD') AS local_date`,
     [userId],
   );
   return rows[0]?.local_date ?? null;
@@ -398,7 +391,7 @@ export async function evaluateForDay(
   stampServedChallenge(userId, localDate, challenge.challenge_key).catch((e) =>
     console.error("[Challenges] stamp failed:", e?.message ?? e),
   );
-  const goalMiles = await getGoalMiles(userId);
+  const goalMiles = await getGoalMilesOn(userId, localDate);
   const satisfied = await evaluatePredicate(
     userId,
     localDate,
@@ -444,13 +437,10 @@ export async function evaluateAddFriendCompletion(
   // regular rotation and must not retro-earn this).
   if ((await getAcceptedFriendCount(userId)) !== 1) return null;
 
-  // Local "today" preferring the app-reported offset — brand-new users have
+  // Local "today" from the app-reported zone/offset — brand-new users have
   // no workouts to derive a timezone from.
   const rows = await db.query<{ local_date: string }>(
-    `SELECT ((NOW() AT TIME ZONE 'UTC') + (COALESCE(
-			(SELECT ns.timezone_offset_minutes FROM notification_settings ns WHERE ns.user_id = $1),
-			(SELECT w.timezone_offset FROM workouts w WHERE w.user_id = $1 ORDER BY w.device_end_date DESC LIMIT 1),
-			0) || ' minutes')::interval)::date::text AS local_date`,
+    `SELECT ${localTodaySql("$1")}::text AS local_date`,
     [userId],
   );
   const localDate = rows[0]?.local_date;
@@ -1043,14 +1033,6 @@ async function findCompletingWorkout(
   return rows[0]?.workout_id ?? null;
 }
 
-async function getGoalMiles(userId: string): Promise<number> {
-  const rows = await db.query<{ goal_miles: string }>(
-    `SELECT goal_miles::text AS goal_miles FROM users WHERE user_id = $1`,
-    [userId],
-  );
-  return parseFloat(rows[0]?.goal_miles ?? "1.0") || 1.0;
-}
-
 async function getCompletionRow(
   userId: string,
   localDate: string,
@@ -1416,12 +1398,7 @@ function shapeCrossTrain(
 
 async function resolveUserLocalDate(userId: string): Promise<string> {
   const rows = await db.query<{ local_date: string }>(
-    `SELECT (NOW() + (
-			COALESCE(
-				(SELECT timezone_offset FROM workouts WHERE user_id = $1 ORDER BY device_end_date DESC LIMIT 1),
-				0
-			) || ' minutes'
-		)::interval)::date::text AS local_date`,
+    `SELECT ${localTodaySql("$1")}::text AS local_date`,
     [userId],
   );
   return rows[0]?.local_date ?? new Date().toISOString().slice(0, 10);
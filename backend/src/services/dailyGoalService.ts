@@ -0,0 +1,390 @@
+import { PostgresService } from "./DbService.js";
+import { BadRequestError } from "../errors/Errors.js";
+import { localTodaySql } from "./dailyResetTime.js";
+import type {
+  DailyGoal,
+  DailyGoalProgress,
+  DailyGoalResponse,
+  DailyGoalType,
+  SetDailyGoalInput,
+} from "../types/dailyGoals.js";
+
+/**
+ * The daily goal: what a user has to do on a local day for it to count —
+ * toward their streak, their feed card, the "got their mile in" push, and
+ * everything else that asks "is today done?".
+ *
+ * A goal is a distance (miles), a duration (minutes of activity) or a step
+ * count (from `daily_steps`). Goals are dated (`daily_goals`): each day is
+ * judged by the goal in force on it, and a user with no rows is on the
+ * original one-mile distance goal. Changing the goal adds a row starting today
+ * — or tomorrow, when today is already complete — so no finished day is ever
+ * re-judged and a goal change can never break a streak after the fact.
+ *
+ * Imports only DbService and dailyResetTime so the streak walks, workoutService
+ * and leaderboardService can all build on it without an import cycle.
+ */
+
+const db = PostgresService.getInstance();
+
+/**
+ * Canonical "daily mile done" tolerance, as a fraction of a DISTANCE goal.
+ * Streak counting, daily challenges, and the weekly recap all treat >= 0.95 of
+ * the goal as a completed day (GPS under-measure allowance). Every completion
+ * check against a day's miles must apply this — a raw `>= 1.0` check lets a
+ * 0.98-mile day extend the streak and display as "1.00 mi · 100%" (2-decimal
+ * rounding) while still reading "incomplete" for nudges, friend
+ * notifications, and posting. Minutes and steps are counted, not measured
+ * off GPS, so those goals are held to the exact target.
+ */
+export const DAILY_GOAL_TOLERANCE = 0.95;
+
+/** The goal of a user with no `daily_goals` rows. */
+const DEFAULT_GOAL_MILES = 1.0;
+
+const GOAL_TYPES: DailyGoalType[] = ["distance", "duration", "steps"];
+
+const TARGET_BOUNDS: Record<DailyGoalType, { min: number; max: number }> = {
+  distance: { min: 0.25, max: 26.2 },
+  duration: { min: 5, max: 300 },
+  steps: { min: 1000, max: 50000 },
+};
+
+/**
+ * SQL: the goal row in force for `userExpr` on `dateExpr`, for use as
+ * `LEFT JOIN LATERAL ${goalOnDateSql(...)} g ON TRUE`. No row means the
+ * default one-mile goal — `goalMetSql` and `goalMilesSql` read it that way.
+ *
+ * Both arguments are spliced as SQL, so they must be literals you wrote (a
+ * column, a parameter like `$1`) — never user input.
+ */
+export function goalOnDateSql(userExpr: string, dateExpr: string): string {
+  return `(
+		SELECT dg.goal_type, dg.target, dg.effective_from
+		  FROM daily_goals dg
+		 WHERE dg.user_id = ${userExpr} AND dg.effective_from <= ${dateExpr}
+		 ORDER BY dg.effective_from DESC
+		 LIMIT 1
+	)`;
+}
+
+/**
+ * SQL boolean: whether a day's totals meet the goal row aliased `goal` (from
+ * `goalOnDateSql`, NULL columns = the default one-mile goal).
+ */
+export function goalMetSql(
+  goal: string,
+  milesExpr: string,
+  secondsExpr: string,
+  stepsExpr: string,
+): string {
+  return `(CASE COALESCE(${goal}.goal_type, 'distance')
+		WHEN 'duration' THEN ${secondsExpr} + 1e-9 >= ${goal}.target * 60
+		WHEN 'steps' THEN ${stepsExpr} >= ${goal}.target
+		ELSE ${milesExpr} + 1e-9 >= COALESCE(${goal}.target, ${DEFAULT_GOAL_MILES}) * ${DAILY_GOAL_TOLERANCE}
+	END)`;
+}
+
+/**
+ * SQL: every local day on which `userExpr` met the goal in force that day, as
+ * rows of `local_date` (DATE) and the `goal_type` that judged it (unordered;
+ * select `local_date` alone before a UNION). This is THE qualifying-day
+ * rule: every streak walk, sweep and badge reads it, so "the streak counted
+ * this day" means the same thing everywhere.
+ *
+ * Steps only matter to users who have ever had a steps goal, so the
+ * `daily_steps` branch is skipped for everyone else. `dateCondition` narrows
+ * both branches (it receives the qualified date column).
+ */
+export function qualifyingDaysSql(
+  userExpr: string,
+  dateCondition: (col: string) => string = () => "TRUE",
+): string {
+  return `
+		SELECT t.local_date, COALESCE(g.goal_type, 'distance') AS goal_type
+		  FROM (
+			SELECT a.local_date,
+			       SUM(a.miles) AS miles,
+			       SUM(a.seconds) AS seconds,
+			       SUM(a.steps) AS steps
+			  FROM (
+				SELECT w.local_date, w.distance AS miles, w.total_duration AS seconds, 0 AS steps
+				  FROM workouts w
+				 WHERE w.user_id = ${userExpr}
+				   AND w.deleted_at IS NULL AND w.exclusion_reason IS NULL
+				   AND ${dateCondition("w.local_date")}
+				UNION ALL
+				SELECT ds.local_date, 0, 0, ds.steps
+				  FROM daily_steps ds
+				 WHERE ds.user_id = ${userExpr}
+				   AND ${dateCondition("ds.local_date")}
+				   AND EXISTS (
+					SELECT 1 FROM daily_goals sg
+					 WHERE sg.user_id = ds.user_id AND sg.goal_type = 'steps'
+				   )
+			  ) a
+			 GROUP BY a.local_date
+		  ) t
+		  LEFT JOIN LATERAL ${goalOnDateSql(userExpr, "t.local_date")} g ON TRUE
+		 WHERE ${goalMetSql("g", "t.miles", "t.seconds", "t.steps")}`;
+}
+
+/**
+ * SQL: the distance goal in miles for `userExpr` on `dateExpr`, for the
+ * features that are inherently about distance (Double Down, challenge
+ * thresholds, live-tracking progress). A minutes or steps goal reads as the
+ * default mile there.
+ */
+export function goalMilesSql(userExpr: string, dateExpr: string): string {
+  return `COALESCE((
+		SELECT CASE WHEN g.goal_type = 'distance' THEN g.target END
+		  FROM ${goalOnDateSql(userExpr, dateExpr)} g
+	), ${DEFAULT_GOAL_MILES})`;
+}
+
+/** `goalMilesSql` for one user and local day. */
+export async function getGoalMilesOn(
+  userId: string,
+  localDate: string,
+): Promise<number> {
+  const rows = await db.query<{ goal_miles: number }>(
+    `SELECT ${goalMilesSql("$1", "$2::date")}::float AS goal_miles`,
+    [userId, localDate],
+  );
+  return Number(rows[0]?.goal_miles) || DEFAULT_GOAL_MILES;
+}
+
+function formatNumber(n: number, maxDecimals: number): string {
+  return n.toLocaleString("en-US", { maximumFractionDigits: maxDecimals });
+}
+
+/** "1 mile", "2.5 miles", "30 minutes", "8,000 steps". */
+export function dailyGoalLabel(
+  goalType: DailyGoalType,
+  target: number,
+): string {
+  switch (goalType) {
+    case "duration":
+      return `${formatNumber(target, 0)} ${target === 1 ? "minute" : "minutes"}`;
+    case "steps":
+      return `${formatNumber(target, 0)} steps`;
+    default:
+      return `${formatNumber(target, 2)} ${target === 1 ? "mile" : "miles"}`;
+  }
+}
+
+/**
+ * How a streak is named to anyone but its owner: a streak kept on a steps goal
+ * is a "step streak", so a friend never reads 40 days of steps as 40 miles.
+ */
+export function streakNoun(goalType: DailyGoalType): string {
+  return goalType === "steps" ? "step streak" : "streak";
+}
+
+interface GoalRow {
+  goal_type: DailyGoalType | null;
+  target: number | null;
+  effective_from: string | null;
+}
+
+function toGoal(row: GoalRow | undefined): DailyGoal {
+  const goalType = row?.goal_type ?? "distance";
+  const target =
+    row?.target != null ? Number(row.target) : DEFAULT_GOAL_MILES;
+  return {
+    goal_type: goalType,
+    target,
+    label: dailyGoalLabel(goalType, target),
+    effective_from: row?.effective_from ?? null,
+  };
+}
+
+/** A day's totals measured against the goal in force on it. */
+export async function getDailyGoalProgress(
+  userId: string,
+  localDate: string,
+): Promise<DailyGoalProgress> {
+  const rows = await db.query<
+    GoalRow & {
+      miles: number;
+      seconds: number;
+      steps: number;
+      completed: boolean;
+    }
+  >(
+    `WITH totals AS (
+		SELECT
+			COALESCE((
+				SELECT SUM(distance) FROM workouts
+				 WHERE user_id = $1 AND local_date = $2::date
+				   AND deleted_at IS NULL AND exclusion_reason IS NULL
+			), 0)::float AS miles,
+			COALESCE((
+				SELECT SUM(total_duration) FROM workouts
+				 WHERE user_id = $1 AND local_date = $2::date
+				   AND deleted_at IS NULL AND exclusion_reason IS NULL
+			), 0)::float AS seconds,
+			COALESCE((
+				SELECT steps FROM daily_steps
+				 WHERE user_id = $1 AND local_date = $2::date
+			), 0)::int AS steps
+	)
+	SELECT t.miles, t.seconds, t.steps,
+	       g.goal_type, g.target::float AS target,
+	       to_char(g.effective_from, 'YYYY-MM-DD') AS effective_from,
+	       ${goalMetSql("g", "t.miles", "t.seconds", "t.steps")} AS completed
+	  FROM totals t
+	  LEFT JOIN LATERAL ${goalOnDateSql("$1", "$2::date")} g ON TRUE`,
+    [userId, localDate],
+  );
+  const row = rows[0];
+  const goal = toGoal(row);
+  const miles = Number(row?.miles) || 0;
+  const minutes = (Number(row?.seconds) || 0) / 60;
+  const steps = Number(row?.steps) || 0;
+  const value =
+    goal.goal_type === "duration"
+      ? minutes
+      : goal.goal_type === "steps"
+        ? steps
+        : miles;
+  return {
+    local_date: localDate,
+    goal,
+    miles,
+    minutes,
+    steps,
+    value,
+    completed: row?.completed === true,
+  };
+}
+
+async function getLocalToday(userId: string): Promise<string> {
+  const rows = await db.query<{ today: string }>(
+    `SELECT to_char(${localTodaySql("$1")}, 'YYYY-MM-DD') AS today`,
+    [userId],
+  );
+  return rows[0].today;
+}
+
+/** The goal in force on one of the user's local days. */
+export async function getDailyGoalOn(
+  userId: string,
+  localDate: string,
+): Promise<DailyGoal> {
+  const rows = await db.query<GoalRow>(
+    `SELECT g.goal_type, g.target::float AS target,
+	        to_char(g.effective_from, 'YYYY-MM-DD') AS effective_from
+	   FROM ${goalOnDateSql("$1", "$2::date")} g`,
+    [userId, localDate],
+  );
+  return toGoal(rows[0]);
+}
+
+/** The goal in force on the user's local today. */
+export async function getCurrentDailyGoal(userId: string): Promise<DailyGoal> {
+  const rows = await db.query<GoalRow>(
+    `SELECT g.goal_type, g.target::float AS target,
+	        to_char(g.effective_from, 'YYYY-MM-DD') AS effective_from
+	   FROM ${goalOnDateSql("$1", localTodaySql("$1"))} g`,
+    [userId],
+  );
+  return toGoal(rows[0]);
+}
+
+/** Today's goal, any change queued for tomorrow, and today's progress. */
+export async function getDailyGoal(
+  userId: string,
+): Promise<DailyGoalResponse> {
+  const today = await getLocalToday(userId);
+  const [progress, upcomingRows] = await Promise.all([
+    getDailyGoalProgress(userId, today),
+    db.query<GoalRow>(
+      `SELECT goal_type, target::float AS target,
+	        to_char(effective_from, 'YYYY-MM-DD') AS effective_from
+	   FROM daily_goals
+	  WHERE user_id = $1 AND effective_from > $2::date
+	  ORDER BY effective_from ASC
+	  LIMIT 1`,
+      [userId, today],
+    ),
+  ]);
+  return {
+    current: progress.goal,
+    upcoming: upcomingRows[0] ? toGoal(upcomingRows[0]) : null,
+    today: progress,
+  };
+}
+
+function parseGoalInput(input: SetDailyGoalInput): SetDailyGoalInput {
+  const goalType = input?.goal_type;
+  if (!GOAL_TYPES.includes(goalType)) {
+    throw new BadRequestError("invalid_goal_type");
+  }
+  const target = Number(input.target);
+  const bounds = TARGET_BOUNDS[goalType];
+  if (
+    !isFinite(target) ||
+    target < bounds.min ||
+    target > bounds.max ||
+    (goalType !== "distance" && !Number.isInteger(target))
+  ) {
+    throw new BadRequestError("invalid_goal_target");
+  }
+  return { goal_type: goalType, target };
+}
+
+/**
+ * Set the user's daily goal. It starts today, unless today is already complete
+ * under the current goal — then it starts tomorrow, so a finished day (and the
+ * streak it extended) is never re-judged. Saving again replaces anything still
+ * queued; saving the current goal back just cancels the queued change.
+ *
+ * `users.goal_miles` mirrors the latest distance target for older clients that
+ * read it off the profile. Nothing server-side judges a day by it any more.
+ *
+ * Callers own the follow-up on today's derived state (feed roles, the cached
+ * streak) — those live in services that build on this one.
+ */
+export async function setDailyGoal(
+  userId: string,
+  input: SetDailyGoalInput,
+): Promise<DailyGoalResponse> {
+  const { goal_type: goalType, target } = parseGoalInput(input);
+  const today = await getLocalToday(userId);
+  const progress = await getDailyGoalProgress(userId, today);
+
+  const queries: { query: string; params: any[] }[] = [
+    {
+      query: `DELETE FROM daily_goals WHERE user_id = $1 AND effective_from > $2::date`,
+      params: [userId, today],
+    },
+  ];
+  if (!progress.completed) {
+    queries.push({
+      query: `INSERT INTO daily_goals (user_id, effective_from, goal_type, target)
+		VALUES ($1, $2::date, $3, $4)
+		ON CONFLICT (user_id, effective_from)
+		DO UPDATE SET goal_type = EXCLUDED.goal_type, target = EXCLUDED.target, created_at = NOW()`,
+      params: [userId, today, goalType, target],
+    });
+  } else if (
+    progress.goal.goal_type !== goalType ||
+    progress.goal.target !== target
+  ) {
+    queries.push({
+      query: `INSERT INTO daily_goals (user_id, effective_from, goal_type, target)
+		VALUES ($1, $2::date + 1, $3, $4)`,
+      params: [userId, today, goalType, target],
+    });
+  }
+  if (goalType === "distance") {
+    queries.push({
+      query: `UPDATE users SET goal_miles = $2 WHERE user_id = $1`,
+      params: [userId, target],
+    });
+  }
+  await db.transaction(queries);
+
+  return getDailyGoal(userId);
+}
@@ -1,17 +1,38 @@
 import { PostgresService } from "./DbService.js";
 import { sendPush } from "./pushNotificationService.js";
+import { localNowSql } from "./dailyResetTime.js";
+import { getCurrentDailyGoal, qualifyingDaysSql } from "./dailyGoalService.js";
+import { getTrainingPlan, planDayIndex } from "./trainingPlans.js";
 
 const db = PostgresService.getInstance();
 
 interface ReminderCandidate {
   user_id: string;
-  goal_miles: string | number;
-  tz_offset: number;
 }
 
+/**
+ * Every user with their local clock attached, for the "is it their reminder
+ * hour" predicate both reminder queries share.
+ */
+const DUE_NOW_CTE = `
+		WITH user_tz AS (
+			SELECT
+				u.user_id,
+				-- Users we know nothing about (no zone, no offset) are skipped
+				-- rather than reminded on UTC's clock.
+				CASE WHEN u.timezone IS NOT NULL
+					OR ns.timezone_offset_minutes IS NOT NULL
+					OR EXISTS (SELECT 1 FROM workouts WHERE user_id = u.user_id)
+				THEN ${localNowSql("u.user_id")} END AS local_now,
+				COALESCE(ns.daily_reminder_enabled, TRUE) AS daily_reminder_enabled,
+				COALESCE(ns.daily_reminder_hour, 18) AS daily_reminder_hour
+			FROM users u
+			LEFT JOIN notification_settings ns ON ns.user_id = u.user_id
+		)`;
+
 /**
  * Sends "Mile still waiting…" pushes to every user whose current local hour
- * matches their `daily_reminder_hour` and who hasn't completed today's mile.
+ * matches their `daily_reminder_hour` and who hasn't completed today's goal.
  *
  * Intended to be called once per hour by a cron job. The local-hour predicate
  * inside the query ensures each user gets at most one fire per day even though
@@ -27,35 +48,27 @@ interface ReminderCandidate {
  *   time from the authoritative workouts table.
  */
 export async function sendPendingDailyReminders(): Promise<void> {
+  // Plan days first: someone on a training plan is reminded about today's
+  // session instead of the mile, never both.
+  const planReminded = await sendTrainingPlanReminders();
+
   const candidates = await db.query<ReminderCandidate>(
     `
-		WITH user_tz AS (
-			SELECT
-				u.user_id,
-				u.goal_miles,
-				COALESCE(
-					ns.timezone_offset_minutes,
-					(SELECT timezone_offset FROM workouts WHERE user_id = u.user_id ORDER BY device_end_date DESC LIMIT 1)
-				) AS tz_offset,
-				COALESCE(ns.daily_reminder_enabled, TRUE) AS daily_reminder_enabled,
-				COALESCE(ns.daily_reminder_hour, 18) AS daily_reminder_hour
-			FROM users u
-			LEFT JOIN notification_settings ns ON ns.user_id = u.user_id
-		)
-		SELECT t.user_id, t.goal_miles, t.tz_offset
+		${DUE_NOW_CTE}
+		SELECT t.user_id
 		FROM user_tz t
 		WHERE t.daily_reminder_enabled = TRUE
-		  AND t.tz_offset IS NOT NULL
-		  AND EXTRACT(HOUR FROM (NOW() + (t.tz_offset || ' minutes')::interval)) = t.daily_reminder_hour
+		  AND t.local_now IS NOT NULL
+		  AND EXTRACT(HOUR FROM t.local_now) = t.daily_reminder_hour
 		  AND EXISTS (SELECT 1 FROM device_tokens dt WHERE dt.user_id = t.user_id)
-		  AND COALESCE(
-				(SELECT SUM(w.distance) FROM workouts w
-				 WHERE w.user_id = t.user_id
-				   AND w.local_date = (NOW() + (t.tz_offset || ' minutes')::interval)::date
-				   AND w.deleted_at IS NULL AND w.exclusion_reason IS NULL),
-				0
-			  ) < t.goal_miles
+		  AND NOT (t.user_id = ANY($1::text[]))
+		  AND NOT EXISTS (
+				SELECT 1 FROM (
+					${qualifyingDaysSql("t.user_id", (col) => `${col} = t.local_now::date`)}
+				) done
+			  )
 		`,
+    [[...planReminded]],
   );
 
   if (candidates.length === 0) {
@@ -70,9 +83,13 @@ export async function sendPendingDailyReminders(): Promise<void> {
   await Promise.all(
     candidates.map(async ({ user_id }) => {
       try {
+        const goal = await getCurrentDailyGoal(user_id);
+        const isMile = goal.goal_type === "distance" && goal.target === 1;
         await sendPush(user_id, {
-          title: "Mile still waiting…",
-          body: "Don't forget to log your daily mile! Lace up and get moving.",
+          title: isMile ? "Mile still waiting…" : "Goal still waiting…",
+          body: isMile
+            ? "Don't forget to log your daily mile! Lace up and get moving."
+            : `Don't forget your ${goal.label} today! Lace up and get moving.`,
           type: "daily_reminder",
         });
       } catch (err: any) {
@@ -83,3 +100,64 @@ export async function sendPendingDailyReminders(): Promise<void> {
     }),
   );
 }
+
+/**
+ * Today's training-plan session, at the same hour and under the same opt-in
+ * as the mile reminder, for users whose plan has a session today that isn't
+ * met yet. Rest days send nothing. Returns who was reminded so the mile
+ * reminder can skip them.
+ */
+async function sendTrainingPlanReminders(): Promise<Set<string>> {
+  const due = await db.query<{
+    user_id: string;
+    plan_key: string;
+    day_index: number;
+    met: boolean;
+  }>(
+    `
+		${DUE_NOW_CTE}
+		SELECT t.user_id, e.plan_key,
+			(t.local_now::date - e.start_date)::int AS day_index,
+			COALESCE(d.met, FALSE) AS met
+		FROM user_tz t
+		JOIN training_plan_enrollments e
+			ON e.user_id = t.user_id AND e.status = 'active'
+		LEFT JOIN training_plan_days d
+			ON d.enrollment_id = e.id
+			AND d.day_index = (t.local_now::date - e.start_date)
+		WHERE t.daily_reminder_enabled = TRUE
+		  AND t.local_now IS NOT NULL
+		  AND EXTRACT(HOUR FROM t.local_now) = t.daily_reminder_hour
+		  AND t.local_now::date >= e.start_date
+		  AND EXISTS (SELECT 1 FROM device_tokens dt WHERE dt.user_id = t.user_id)
+		`,
+  );
+
+  const reminded = new Set<string>();
+  await Promise.all(
+    due.map(async ({ user_id, plan_key, day_index, met }) => {
+      const plan = getTrainingPlan(plan_key);
+      const session = plan?.days.find((d) => planDayIndex(d) === day_index);
+      if (!plan || !session || met) return;
+      reminded.add(user_id);
+      try {
+        await sendPush(user_id, {
+          title: `${plan.name} · Week ${session.week}`,
+          body: `Today's session: ${session.title}. Lace up!`,
+          type: "daily_reminder",
+          data: { plan_key, day_index: String(day_index) },
+        });
+      } catch (err: any) {
+        console.error(
+          `[DailyReminder] Plan reminder failed for user ${user_id}: ${err?.message ?? err}`,
+        );
+      }
+    }),
+  );
+  if (reminded.size > 0) {
+    console.log(
+      `[DailyReminder] Sent training plan reminders to ${reminded.size} user(s).`,
+    );
+  }
+  return reminded;
+}
@@ -1,8 +1,10 @@
+import { PostgresService } from "./DbService.js";
+
 /**
  * Canonical "today" boundary used by daily rate limits (hype / nudge / flex).
  *
  * Rate limits reset at midnight in the app's canonical timezone
- * (America/New_York — same one used by the quiet-hours check). A "today"
+ * (America/New_York). A "today"
  * window means `[midnight ET today, midnight ET tomorrow)`.
  *
  * Returns a SQL fragment that evaluates to the start of today (UTC timestamptz)
@@ -24,24 +26,131 @@ export const START_OF_TOMORROW_ET_SQL = `((date_trunc('day', NOW() AT TIME ZONE
  */
 export const TODAY_ET_DATE_SQL = `((NOW() AT TIME ZONE 'America/New_York')::date)`;
 
+/**
+ * The app's canonical zone: the daily rate limits above, and the zone every
+ * competition was scored in before competitions carried their own timezone.
+ */
+export const DEFAULT_TIMEZONE = "America/New_York";
+
+const TIME_ZONE_NAME_RE = /^[A-Za-z][A-Za-z0-9_+-]*(?:\/[A-Za-z0-9_+-]+)*$/;
+
+let pgTimeZones: Promise<Set<string>> | null = null;
+
+/**
+ * Every zone name the database accepts, read once from pg_timezone_names.
+ * Node's ICU and the server's tzdata disagree at the edges (Intl still takes
+ * retired links like "US/Pacific-New"), and it's Postgres that has to use
+ * the name. A failed load isn't cached, so the next call retries.
+ */
+function pgTimeZoneNames(): Promise<Set<string>> {
+  pgTimeZones ??= PostgresService.getInstance()
+    .query<{ name: string }>(`SELECT name FROM pg_timezone_names`)
+    .then((rows) => new Set(rows.map((r) => r.name)))
+    .catch((err) => {
+      pgTimeZones = null;
+      throw err;
+    });
+  return pgTimeZones;
+}
+
+/**
+ * Whether `tz` is a usable IANA zone name. Every stored timezone reaches SQL
+ * as `AT TIME ZONE`, where an unknown name raises at QUERY time — one bad row
+ * would abort an hourly batch for everyone — so validate at write.
+ *
+ * Names only: Intl also takes offsets like "+05:00", but Postgres reads a bare
+ * offset string as POSIX, with the sign flipped, so the zone lands on the
+ * wrong side of UTC. The name must also pass Intl, which todayInTimeZone
+ * formats with, and be one Postgres knows.
+ */
+export async function isValidTimeZone(tz: unknown): Promise<boolean> {
+  if (
+    typeof tz !== "string" ||
+    tz.length > 64 ||
+    !TIME_ZONE_NAME_RE.test(tz)
+  ) {
+    return false;
+  }
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone: tz });
+  } catch {
+    return false;
+  }
+  return (await pgTimeZoneNames()).has(tz);
+}
+
+const DATE_FORMATTERS = new Map<string, Intl.DateTimeFormat>();
+
+/** 'YYYY-MM-DD' for `at` (default now) on the wall calendar of `timeZone`. */
+export function todayInTimeZone(
+  timeZone: string,
+  at: Date = new Date(),
+): string {
+  let formatter = DATE_FORMATTERS.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat("en-CA", { timeZone });
+    DATE_FORMATTERS.set(timeZone, formatter);
+  }
+  return formatter.format(at);
+}
+
+/** UTC epoch ms of midnight starting `dateStr` ('YYYY-MM-DD') in `timeZone`. */
+export function zonedMidnightUtcMs(dateStr: string, timeZone: string): number {
+  const [y, m, d] = dateStr.split("-").map(Number);
+  const utcGuess = Date.UTC(y, m - 1, d);
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    hourCycle: "h23",
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+    second: "2-digit",
+  }).formatToParts(new Date(utcGuess));
+  const get = (type: string) =>
+    parseInt(parts.find((p) => p.type === type)!.value, 10);
+  const zonedAsUtc = Date.UTC(
+    get("year"),
+    get("month") - 1,
+    get("day"),
+    get("hour"),
+    get("minute"),
+    get("second"),
+  );
+  const offsetMs = zonedAsUtc - utcGuess;
+  return utcGuess - offsetMs;
+}
+
 /**
  * A given user's local "now" as a tz-less timestamp.
  *
  * Unlike the ET constants above — which define one canonical daily boundary for
  * everyone — this resolves each user's OWN wall clock, so hourly crons can
- * defer a push into that user's daytime. Offset precedence: the app-reported
- * notification offset, then the most recent workout's offset, then UTC.
+ * defer a push into that user's daytime and daily features roll at the user's
+ * own midnight. Precedence: the IANA zone on `users.timezone` (DST-correct),
+ * then the app-reported notification offset, then the most recent workout's
+ * offset, then UTC.
  *
  * `col` is interpolated directly, so it must be a code-controlled column
- * reference (e.g. "m.user_id") and NEVER user input.
+ * reference (e.g. "m.user_id") or bind placeholder (e.g. "$1") and NEVER
+ * user input.
  *
  * Every hourly "send during the user's daytime" job shares this: the h2h winner
- * push, the daily reminder, the weekly recap, and the friend-request reminder.
- * It lives here rather than in any one of them so the four cannot drift apart.
+ * push, the daily reminder, the weekly recap, the friend-request reminder and
+ * the streak sweep. It lives here rather than in any one of them so they
+ * cannot drift apart.
  */
 export function localNowSql(col: string): string {
-  return `((NOW() AT TIME ZONE 'UTC') + (COALESCE(
-		(SELECT ns.timezone_offset_minutes FROM notification_settings ns WHERE ns.user_id = ${col}),
-		(SELECT w.timezone_offset FROM workouts w WHERE w.user_id = ${col} ORDER BY w.device_end_date DESC LIMIT 1),
-		0) || ' minutes')::interval)`;
+  return `COALESCE(
+		(SELECT NOW() AT TIME ZONE tu.timezone FROM users tu WHERE tu.user_id = ${col} AND tu.timezone IS NOT NULL),
+		(NOW() AT TIME ZONE 'UTC') + (COALESCE(
+			(SELECT ns.timezone_offset_minutes FROM notification_settings ns WHERE ns.user_id = ${col}),
+			(SELECT w.timezone_offset FROM workouts w WHERE w.user_id = ${col} ORDER BY w.device_end_date DESC LIMIT 1),
+			0) || ' minutes')::interval)`;
+}
+
+/** The user's local calendar date as a DATE — `localNowSql` truncated. */
+export function localTodaySql(col: string): string {
+  return `((${localNowSql(col)})::date)`;
 }
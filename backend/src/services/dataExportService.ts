@@ -0,0 +1,589 @@
+import fs from "fs";
+import path from "path";
+import { PostgresService } from "./DbService.js";
+import { getStreakErasForUser } from "./workoutService.js";
+import { signExportUrl, stripMediaQuery } from "./mediaSigningService.js";
+import { ZipWriter } from "../utils/zipWriter.js";
+import { logError } from "./errorLogService.js";
+
+const db = PostgresService.getInstance();
+
+/**
+ * Account data export ("download my data").
+ *
+ * The counterpart to DELETE /users/:userId: everything a user put into the app,
+ * in formats other tools read — JSON for records, GPX for routes, the original
+ * photo files for posts — plus a manifest describing each file. Built off the
+ * request path (a heavy user's archive is hundreds of queries and megabytes of
+ * photos) and served from disk through a signed url that dies with the file.
+ */
+
+/** One request per user per this many hours — an export reads everything. */
+export const EXPORT_COOLDOWN_HOURS = 24;
+/** How long a finished archive stays downloadable. */
+const EXPORT_TTL_HOURS = 72;
+/** A 'running' job older than this was orphaned by a restart; retry it. */
+const STALE_RUNNING_MINUTES = 30;
+const MANIFEST_VERSION = 1;
+
+const EXPORTS_DIR = path.join(process.cwd(), "uploads", "exports");
+const POSTS_MEDIA_DIR = path.join(process.cwd(), "uploads", "posts");
+
+export type DataExportStatus =
+  "pending" | "running" | "ready" | "failed" | "expired";
+
+export interface DataExport {
+  export_id: string;
+  status: DataExportStatus;
+  requested_at: string;
+  completed_at: string | null;
+  expires_at: string | null;
+  size_bytes: number | null;
+  manifest: ExportManifest | null;
+  /** Signed, present only while the archive is ready. */
+  download_url: string | null;
+}
+
+interface ManifestFile {
+  path: string;
+  description: string;
+  records?: number;
+}
+
+export interface ExportManifest {
+  version: number;
+  generated_at: string;
+  user_id: string;
+  username: string | null;
+  files: ManifestFile[];
+}
+
+type DataExportRow = {
+  export_id: string;
+  status: DataExportStatus;
+  file_path: string | null;
+  size_bytes: number | null;
+  manifest: ExportManifest | null;
+  requested_at: string;
+  completed_at: string | null;
+  expires_at: string | null;
+};
+
+export class ExportRateLimitedError extends Error {
+  constructor(public readonly retryAfterSeconds: number) {
+    super("export_rate_limited");
+    this.name = "ExportRateLimitedError";
+  }
+}
+
+function toDataExport(row: DataExportRow): DataExport {
+  const live =
+    row.status === "ready" &&
+    row.file_path !== null &&
+    row.expires_at !== null &&
+    Date.parse(row.expires_at) > Date.now();
+  return {
+    export_id: row.export_id,
+    status: row.status,
+    requested_at: row.requested_at,
+    completed_at: row.completed_at,
+    expires_at: row.expires_at,
+    size_bytes: row.size_bytes,
+    manifest: row.manifest,
+    download_url: live
+      ? signExportUrl(row.file_path!, new Date(row.expires_at!))
+      : null,
+  };
+}
+
+/** The user's most recent export request, or null if they never made one. */
+export async function getLatestDataExport(
+  userId: string,
+): Promise<DataExport | null> {
+  const rows = await db.query<DataExportRow>(
+    `SELECT export_id, status, file_path, size_bytes, manifest,
+			requested_at, completed_at, expires_at
+		 FROM data_exports WHERE user_id = $1
+		 ORDER BY requested_at DESC LIMIT 1`,
+    [userId],
+  );
+  return rows[0] ? toDataExport(rows[0]) : null;
+}
+
+/**
+ * Queue an export and start building it. Throws ExportRateLimitedError inside
+ * the cooldown — except when the previous attempt FAILED, which the user
+ * shouldn't have to wait a day to retry.
+ *
+ * The cooldown check and the insert share one transaction behind a per-user
+ * advisory lock, so a double-tap can't queue two archives.
+ */
+export async function requestDataExport(userId: string): Promise<DataExport> {
+  const client = await db.getClient();
+  let row: DataExportRow;
+  try {
+    await client.query("BEGIN");
+    await client.query(
+      `SELECT pg_advisory_xact_lock(hashtext('data_export:' || $1))`,
+      [userId],
+    );
+    const recent = await client.query<{ retry_after: number }>(
+      `SELECT CEIL(EXTRACT(EPOCH FROM (
+				requested_at + make_interval(hours => $2) - NOW())))::int AS retry_after
+			 FROM data_exports
+			 WHERE user_id = $1 AND status <> 'failed'
+				AND requested_at > NOW() - make_interval(hours => $2)
+			 ORDER BY requested_at DESC LIMIT 1`,
+      [userId, EXPORT_COOLDOWN_HOURS],
+    );
+    if (recent.rows[0]) {
+      await client.query("ROLLBACK");
+      throw new ExportRateLimitedError(Math.max(1, recent.rows[0].retry_after));
+    }
+    const inserted = await client.query<DataExportRow>(
+      `INSERT INTO data_exports (user_id) VALUES ($1)
+			 RETURNING export_id, status, file_path, size_bytes, manifest,
+				requested_at, completed_at, expires_at`,
+      [userId],
+    );
+    await client.query("COMMIT");
+    row = inserted.rows[0];
+  } catch (error) {
+    if (!(error instanceof ExportRateLimitedError)) {
+      await client.query("ROLLBACK").catch(() => {});
+    }
+    throw error;
+  } finally {
+    client.release();
+  }
+
+  // Not awaited: the request returns 'pending' straight away and the client
+  // polls. If the process dies mid-build, the cron picks the row back up.
+  void runDataExport(row.export_id);
+  return toDataExport(row);
+}
+
+/**
+ * Build one export. Claim-then-work, so the request path and the cron can both
+ * call this for the same row and only one of them builds it. Never throws.
+ */
+export async function runDataExport(exportId: string): Promise<void> {
+  const claimed = await db
+    .query<{ user_id: string }>(
+      `UPDATE data_exports SET status = 'running', started_at = NOW()
+			 WHERE export_id = $1 AND status = 'pending'
+			 RETURNING user_id`,
+      [exportId],
+    )
+    .catch((error) => {
+      console.error("[dataExport] claim failed:", error?.message ?? error);
+      return [];
+    });
+  const userId = claimed[0]?.user_id;
+  if (!userId) return;
+
+  const dir = path.join(EXPORTS_DIR, exportId);
+  const fileName = `mile-a-day-export-${new Date().toISOString().slice(0, 10)}.zip`;
+  try {
+    await fs.promises.mkdir(dir, { recursive: true });
+    const { manifest, sizeBytes } = await writeArchive(
+      userId,
+      path.join(dir, fileName),
+    );
+    await db.query(
+      `UPDATE data_exports SET status = 'ready', file_path = $2,
+				size_bytes = $3, manifest = $4::jsonb, completed_at = NOW(),
+				expires_at = NOW() + make_interval(hours => $5), error = NULL
+			 WHERE export_id = $1`,
+      [
+        exportId,
+        `/uploads/exports/${exportId}/${fileName}`,
+        sizeBytes,
+        JSON.stringify(manifest),
+        EXPORT_TTL_HOURS,
+      ],
+    );
+  } catch (error: any) {
+    console.error(`[dataExport] ${exportId} failed:`, error?.message ?? error);
+    logError("api", "Data export failed", {
+      userId,
+      context: { exportId, error: String(error?.message ?? error) },
+    });
+    await fs.promises.rm(dir, { recursive: true, force: true }).catch(() => {});
+    await db
+      .query(
+        `UPDATE data_exports SET status = 'failed', completed_at = NOW(),
+					error = $2 WHERE export_id = $1`,
+        [exportId, String(error?.message ?? error).slice(0, 500)],
+      )
+      .catch(() => {});
+  }
+}
+
+/**
+ * Cron housekeeping: rebuild jobs a restart orphaned, expire finished archives,
+ * and delete any export directory no live row points at (which is also how an
+ * account deletion's archives go — the rows cascade, the files follow here).
+ */
+export async function sweepDataExports(): Promise<void> {
+  await db.query(
+    `UPDATE data_exports SET status = 'pending'
+		 WHERE status = 'running'
+			AND started_at < NOW() - make_interval(mins => $1)`,
+    [STALE_RUNNING_MINUTES],
+  );
+  const pending = await db.query<{ export_id: string }>(
+    `SELECT export_id FROM data_exports
+		 WHERE status = 'pending' AND requested_at < NOW() - interval '1 minute'
+		 ORDER BY requested_at ASC LIMIT 5`,
+  );
+  // Sequential: each one reads a whole account, and this box runs the API too.
+  for (const row of pending) await runDataExport(row.export_id);
+
+  await db.query(
+    `UPDATE data_exports SET status = 'expired', file_path = NULL
+		 WHERE status = 'ready' AND expires_at < NOW()`,
+  );
+
+  let dirs: string[];
+  try {
+    dirs = await fs.promises.readdir(EXPORTS_DIR);
+  } catch {
+    return; // nothing exported yet
+  }
+  const live = await db.query<{ export_id: string }>(
+    `SELECT export_id::text FROM data_exports
+		 WHERE export_id::text = ANY($1::text[])
+			AND status IN ('pending', 'running', 'ready')`,
+    [dirs],
+  );
+  const keep = new Set(live.map((r) => r.export_id));
+  for (const dir of dirs) {
+    if (keep.has(dir)) continue;
+    await fs.promises
+      .rm(path.join(EXPORTS_DIR, dir), { recursive: true, force: true })
+      .catch(() => {});
+  }
+}
+
+// MARK: - Archive contents
+
+async function writeArchive(
+  userId: string,
+  filePath: string,
+): Promise<{ manifest: ExportManifest; sizeBytes: number }> {
+  const zip = await ZipWriter.create(filePath);
+  const files: ManifestFile[] = [];
+  const addJson = async (
+    name: string,
+    description: string,
+    data: unknown,
+  ): Promise<void> => {
+    await zip.add(name, JSON.stringify(data, null, 2));
+    files.push({
+      path: name,
+      description,
+      ...(Array.isArray(data) ? { records: data.length } : {}),
+    });
+  };
+
+  try {
+    const [profile] = await db.query(
+      `SELECT user_id, username, email, first_name, last_name, bio,
+				profile_image_url, current_streak, longest_streak, goal_miles,
+				referral_source, referral_detail, signup_goal, experience_level,
+				created_at
+			 FROM users WHERE user_id = $1`,
+      [userId],
+    );
+    await addJson("profile.json", "Your account profile.", profile ?? null);
+
+    const workouts = await db.query(
+      `SELECT w.workout_id, w.local_date, w.device_end_date, w.timezone_offset,
+				w.workout_type, w.distance, w.total_duration, w.moving_seconds,
+				w.calories, w.source, w.source_bundle_id, w.original_distance,
+				w.original_duration, w.exclusion_reason, w.duplicate_of,
+				w.ghost_margin_seconds, w.ghost_target_seconds, w.ghost_distance,
+				w.ghost_split_margins, w.deleted_at,
+				COALESCE((
+					SELECT json_agg(json_build_object(
+						'split_number', s.split_number,
+						'distance', s.split_distance,
+						'duration', s.split_duration,
+						'pace', s.split_pace
+					) ORDER BY s.split_number)
+					FROM workout_splits s WHERE s.workout_id = w.workout_id
+				), '[]'::json) AS splits,
+				EXISTS (SELECT 1 FROM workout_routes r
+					WHERE r.workout_id = w.workout_id) AS has_route
+			 FROM workouts w WHERE w.user_id = $1
+			 ORDER BY w.device_end_date ASC`,
+      [userId],
+    );
+    await addJson(
+      "workouts.json",
+      "Every workout with its mile splits (seconds per mile). Deleted and excluded workouts are included and marked.",
+      workouts,
+    );
+
+    // Routes one by one: they're the bulkiest rows, and a GPX per workout is
+    // what every other running app imports.
+    const routeIds = await db.query<{ workout_id: string }>(
+      `SELECT r.workout_id FROM workout_routes r
+			 JOIN workouts w ON w.workout_id = r.workout_id
+			 WHERE w.user_id = $1 ORDER BY w.device_end_date ASC`,
+      [userId],
+    );
+    for (const { workout_id } of routeIds) {
+      const [r] = await db.query<{
+        route: [number, number][];
+        workout_type: string;
+        device_end_date: string;
+      }>(
+        `SELECT r.route, w.workout_type, w.device_end_date
+				 FROM workout_routes r JOIN workouts w USING (workout_id)
+				 WHERE r.workout_id = $1`,
+        [workout_id],
+      );
+      if (!r) continue;
+      await zip.add(
+        `routes/${safeFileName(workout_id)}.gpx`,
+        routeToGpx(workout_id, r.workout_type, r.device_end_date, r.route),
+      );
+    }
+    files.push({
+      path: "routes/",
+      description:
+        "One GPX file per workout with a recorded route, named by workout_id.",
+      records: routeIds.length,
+    });
+
+    const posts = await db.query<{ post_id: string; media_url: string }>(
+      `SELECT post_id, media_url, caption, workout_id, local_date,
+				share_to_feed, share_to_story, is_auto, include_route,
+				stats_snapshot, created_at, deleted_at
+			 FROM posts WHERE user_id = $1 ORDER BY created_at ASC`,
+      [userId],
+    );
+    let mediaCount = 0;
+    const exportedPosts = [];
+    for (const post of posts) {
+      const media = await readPostMedia(post.media_url);
+      let mediaFile: string | null = null;
+      if (media) {
+        mediaFile = `media/${media.name}`;
+        await zip.add(mediaFile, media.data, { store: true });
+        mediaCount += 1;
+      }
+      exportedPosts.push({
+        ...post,
+        media_url: undefined,
+        media_file: mediaFile,
+      });
+    }
+    await addJson(
+      "posts.json",
+      "Your posts and stories. media_file points into media/.",
+      exportedPosts,
+    );
+    files.push({
+      path: "media/",
+      description: "Original photos from your posts.",
+      records: mediaCount,
+    });
+
+    const comments = await db.query(
+      `SELECT comment_id, post_id, workout_id, parent_comment_id, content,
+				created_at, deleted_at
+			 FROM post_comments WHERE user_id = $1 ORDER BY created_at ASC`,
+      [userId],
+    );
+    await addJson(
+      "comments.json",
+      "Comments you wrote on posts and workouts.",
+      comments,
+    );
+
+    const badges = await db.query(
+      `SELECT ub.badge_id, b.name, b.description, b.rarity, ub.earned_at,
+				ub.triggering_workout_id
+			 FROM user_badges ub
+			 LEFT JOIN badges b ON b.badge_id = ub.badge_id
+			 WHERE ub.user_id = $1 ORDER BY ub.earned_at ASC`,
+      [userId],
+    );
+    await addJson("badges.json", "Badges you've earned.", badges);
+
+    const competitions = await db.query(
+      `SELECT c.id AS competition_id, c.competition_name, c.type, c.options,
+				c.start_date, c.end_date, c.ended, c.winner = $1 AS won,
+				c.owner = $1 AS owned, cu.invite_status, cu.team_id,
+				cu.placement, cu.progress
+			 FROM competition_users cu
+			 JOIN competitions c ON c.id = cu.competition_id
+			 WHERE cu.user_id = $1 ORDER BY c.start_date ASC NULLS LAST`,
+      [userId],
+    );
+    await addJson(
+      "competitions.json",
+      "Every competition you were invited to or took part in, with your placement.",
+      competitions,
+    );
+
+    const segments = await db.query(
+      `SELECT s.id, s.name, s.start_lat, s.start_lng, s.end_lat, s.end_lng,
+				s.path, s.distance_meters, s.corridor_meters, s.created_at
+			 FROM segments s WHERE s.creator_id = $1 ORDER BY s.created_at ASC`,
+      [userId],
+    );
+    const segmentEfforts = await db.query(
+      `SELECT e.segment_id, s.name AS segment_name, e.workout_id,
+				e.elapsed_seconds, e.local_date
+			 FROM segment_efforts e
+			 JOIN segments s ON s.id = e.segment_id
+			 WHERE e.user_id = $1 ORDER BY e.local_date ASC`,
+      [userId],
+    );
+    await addJson(
+      "segments.json",
+      "Segments you created, and your times on every segment you've run.",
+      { created: segments, efforts: segmentEfforts },
+    );
+
+    const privacyZones = await db.query(
+      `SELECT pz.name, pz.lat, pz.lng, pz.radius_meters, pz.created_at
+			 FROM privacy_zones pz WHERE pz.user_id = $1
+			 ORDER BY pz.created_at ASC`,
+      [userId],
+    );
+    await addJson(
+      "privacy_zones.json",
+      "The areas trimmed from your routes before anyone else sees them.",
+      privacyZones,
+    );
+
+    const dailyGoals = await db.query(
+      `SELECT dg.effective_from, dg.goal_type, dg.target, dg.created_at
+			 FROM daily_goals dg WHERE dg.user_id = $1
+			 ORDER BY dg.effective_from ASC`,
+      [userId],
+    );
+    await addJson(
+      "daily_goals.json",
+      "Every daily goal you've set and the day each one took effect.",
+      dailyGoals,
+    );
+
+    const identities = await db.query(
+      `SELECT ai.provider, ai.email, ai.created_at, ai.last_used_at
+			 FROM auth_identities ai WHERE ai.user_id = $1
+			 ORDER BY ai.created_at ASC`,
+      [userId],
+    );
+    await addJson(
+      "sign_in_methods.json",
+      "The providers you can sign in with.",
+      identities,
+    );
+
+    const { eras, longest } = await getStreakErasForUser(userId);
+    await addJson(
+      "streak_eras.json",
+      "Every streak run in your history, newest first.",
+      { longest_streak: longest, eras },
+    );
+
+    const [settings] = await db.query(
+      `SELECT * FROM notification_settings WHERE user_id = $1`,
+      [userId],
+    );
+    const audiences = await db.query(
+      `SELECT direction, event_type, activity_type, audience
+			 FROM notification_audience_settings WHERE user_id = $1`,
+      [userId],
+    );
+    const perFriend = await db.query(
+      `SELECT friend_id, muted, nudges_muted, activity_muted
+			 FROM friend_notification_settings WHERE user_id = $1`,
+      [userId],
+    );
+    await addJson(
+      "notification_settings.json",
+      "Notification preferences, audiences and per-friend mutes.",
+      {
+        settings: settings ?? null,
+        audiences,
+        per_friend: perFriend,
+      },
+    );
+
+    const manifest: ExportManifest = {
+      version: MANIFEST_VERSION,
+      generated_at: new Date().toISOString(),
+      user_id: userId,
+      username: profile?.username ?? null,
+      files,
+    };
+    await zip.add("manifest.json", JSON.stringify(manifest, null, 2));
+    const sizeBytes = await zip.finish();
+    return { manifest, sizeBytes };
+  } catch (error) {
+    await zip.abort();
+    throw error;
+  }
+}
+
+/** A stored post photo, or null if the file is gone (or not ours to read). */
+async function readPostMedia(
+  mediaUrl: string,
+): Promise<{ name: string; data: Buffer } | null> {
+  const name = path.basename(stripMediaQuery(mediaUrl ?? ""));
+  if (!name || !mediaUrl.startsWith("/uploads/posts/")) return null;
+  try {
+    return {
+      name,
+      data: await fs.promises.readFile(path.join(POSTS_MEDIA_DIR, name)),
+    };
+  } catch {
+    return null;
+  }
+}
+
+function safeFileName(value: string): string {
+  return value.replace(/[^A-Za-z0-9._-]/g, "_");
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+/**
+ * Routes are stored as bare [lat, lng] pairs (no per-point time), so the GPX
+ * carries the workout's end time in its metadata and untimed track points.
+ */
+function routeToGpx(
+  workoutId: string,
+  workoutType: string,
+  endedAt: string,
+  route: [number, number][],
+): string {
+  const points = route
+    .map(([lat, lng]) => `      <trkpt lat="${lat}" lon="${lng}"/>`)
+    .join("\n");
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<gpx version="1.1" creator="Mile A Day" xmlns="http://www.topografix.com/GPX/1/1">
+  <metadata><time>${escapeXml(new Date(endedAt).toISOString())}</time></metadata>
+  <trk>
+    <name>${escapeXml(workoutId)}</name>
+    <type>${escapeXml(workoutType)}</type>
+    <trkseg>
+${points}
+    </trkseg>
+  </trk>
+</gpx>
+`;
+}
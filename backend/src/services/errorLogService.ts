@@ -11,6 +11,9 @@ export type ErrorCategory =
   | "api" // unhandled request errors (Express error handler)
   | "db" // database errors worth surfacing
   | "buddy" // buddy session lifecycle / reconciliation failures
+  | "realtime" // event stream publish failures
+  | "webhook" // outbound webhook enqueue failures
+  | "segments" // segment matching after a workout upload
   | "other";
 
 interface LogErrorOptions {
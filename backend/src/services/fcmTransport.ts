@@ -0,0 +1,345 @@
+import fs from "fs";
+import path from "path";
+import jwt from "jsonwebtoken";
+import { logError } from "./errorLogService.js";
+import type {
+  DeviceTarget,
+  NotificationType,
+  PushPayload,
+  PushResult,
+  PushTransport,
+} from "./pushNotificationService.js";
+
+/**
+ * Android delivery over FCM HTTP v1.
+ *
+ * Auth is a Google service account: we sign a JWT with its key, trade it at
+ * the OAuth token endpoint for an hour-long access token, and send with that.
+ * The service account JSON comes from FCM_SERVICE_ACCOUNT (the file contents,
+ * for hosted dashboards) or FCM_SERVICE_ACCOUNT_PATH (local dev).
+ *
+ * FCM_API_URL and FCM_TOKEN_URL exist for a local mock push server
+ * (scripts/push-transport-check.mjs); real deployments leave both unset.
+ */
+
+const FCM_SERVICE_ACCOUNT = process.env.FCM_SERVICE_ACCOUNT;
+const FCM_SERVICE_ACCOUNT_PATH = process.env.FCM_SERVICE_ACCOUNT_PATH;
+const FCM_API_URL = process.env.FCM_API_URL ?? "https://fcm.googleapis.com";
+const FCM_TOKEN_URL = process.env.FCM_TOKEN_URL;
+const FCM_SCOPE = "https://www.googleapis.com/auth/firebase.messaging";
+const GOOGLE_TOKEN_URI = "https://oauth2.googleapis.com/token";
+const SEND_TIMEOUT_MS = 10_000;
+
+interface ServiceAccount {
+  project_id: string;
+  client_email: string;
+  private_key: string;
+  token_uri?: string;
+}
+
+let serviceAccount: ServiceAccount | null = null;
+let accessToken: { value: string; expiresAt: number } | null = null;
+
+function loadServiceAccount(): ServiceAccount | null {
+  if (serviceAccount) return serviceAccount;
+
+  let raw: string | null = null;
+  try {
+    if (FCM_SERVICE_ACCOUNT) {
+      raw = FCM_SERVICE_ACCOUNT;
+    } else if (FCM_SERVICE_ACCOUNT_PATH) {
+      const filePath = path.isAbsolute(FCM_SERVICE_ACCOUNT_PATH)
+        ? FCM_SERVICE_ACCOUNT_PATH
+        : path.join(process.cwd(), FCM_SERVICE_ACCOUNT_PATH);
+      raw = fs.readFileSync(filePath, "utf8");
+    } else {
+      console.warn(
+        "[Push] FCM_SERVICE_ACCOUNT or FCM_SERVICE_ACCOUNT_PATH not configured — Android push disabled",
+      );
+      return null;
+    }
+    const parsed = JSON.parse(raw);
+    if (!parsed?.project_id || !parsed?.client_email || !parsed?.private_key) {
+      console.error("[Push] FCM service account is missing required fields");
+      return null;
+    }
+    serviceAccount = parsed;
+    return serviceAccount;
+  } catch (err: any) {
+    console.error("[Push] Failed to load FCM service account:", err.message);
+    return null;
+  }
+}
+
+async function getAccessToken(account: ServiceAccount): Promise<string | null> {
+  if (accessToken && Date.now() < accessToken.expiresAt) {
+    return accessToken.value;
+  }
+
+  // The assertion's audience is the REAL token endpoint even when the request
+  // goes to a mock, matching what Google checks.
+  const audience = account.token_uri ?? GOOGLE_TOKEN_URI;
+  try {
+    const assertion = jwt.sign({ scope: FCM_SCOPE }, account.private_key, {
+      algorithm: "RS256",
+      issuer: account.client_email,
+      audience,
+      expiresIn: "1h",
+    });
+    const res = await fetch(FCM_TOKEN_URL ?? audience, {
+      method: "POST",
+      headers: { "content-type": "application/x-www-form-urlencoded" },
+      body: new URLSearchParams({
+        grant_type: "urn:ietf:params:oauth:grant-type:jwt-bearer",
+        assertion,
+      }),
+      signal: AbortSignal.timeout(SEND_TIMEOUT_MS),
+    });
+    if (!res.ok) {
+      const body = await res.text();
+      console.error(`[Push] FCM token exchange failed ${res.status}: ${body}`);
+      logError("push", `FCM token exchange failed ${res.status}`, {
+        context: { statusCode: res.status, response: body.slice(0, 500) },
+      });
+      return null;
+    }
+    const body = (await res.json()) as {
+      access_token: string;
+      expires_in?: number;
+    };
+    // Refresh five minutes early, like the APNs token's 50-of-60 minutes.
+    const lifetime = Math.max(60, (body.expires_in ?? 3600) - 300);
+    accessToken = {
+      value: body.access_token,
+      expiresAt: Date.now() + lifetime * 1000,
+    };
+    return accessToken.value;
+  } catch (err: any) {
+    // A malformed private_key makes jwt.sign throw; degrade to "push
+    // disabled" rather than failing the action that triggered the push.
+    console.error(`[Push] FCM auth unusable: ${err?.message}`);
+    return null;
+  }
+}
+
+// ─── Payload shaping ─────────────────────────────────────────────────
+
+/**
+ * Android notification channels. The app creates these at first launch and
+ * each one is a separate switch in the system settings, so a type's channel is
+ * the user's way to silence it from outside the app.
+ */
+export type AndroidChannel = "social" | "competitions" | "streaks" | "account";
+
+// A Record, not a lookup with a fallback: adding a NotificationType without
+// deciding its channel fails the type-check here.
+const ANDROID_CHANNEL_BY_TYPE: Record<NotificationType, AndroidChannel> = {
+  friend_request: "social",
+  friend_request_reminder: "social",
+  friend_request_accepted: "social",
+  friend_nudge: "social",
+  friend_activity: "social",
+  friend_personal_best: "social",
+  friend_badge_earned: "social",
+  friend_challenge_completed: "social",
+  hype_received: "social",
+  friend_post: "social",
+  story_reaction: "social",
+  post_comment: "social",
+  mention: "social",
+  coauthor_invite: "social",
+  coauthor_accepted: "social",
+  crew_photo: "social",
+  crew_photo_nudge: "social",
+  buddy_invite: "social",
+  buddy_joined: "social",
+  buddy_started: "social",
+  buddy_finished: "social",
+  buddy_friend_active: "social",
+  ghost_beaten: "social",
+  activity_digest: "social",
+  competition_invite: "competitions",
+  competition_accepted: "competitions",
+  competition_started: "competitions",
+  competition_finished: "competitions",
+  competition_updates: "competitions",
+  competition_nudge: "competitions",
+  competition_flex: "competitions",
+  competition_milestone: "competitions",
+  lead_change: "competitions",
+  clash_tie: "competitions",
+  challenge_won: "competitions",
+  weekly_challenge_new: "competitions",
+  weekly_challenge_nudge: "competitions",
+  weekly_challenge_complete: "competitions",
+  h2h_rematch_invite: "competitions",
+  h2h_rematch_accepted: "competitions",
+  h2h_rematch_result: "competitions",
+  daily_reminder: "streaks",
+  goal_reached: "streaks",
+  streak_broken: "streaks",
+  streak_lost: "streaks",
+  personal_best: "streaks",
+  badge_earned: "streaks",
+  weekly_recap: "streaks",
+  streak_double_down: "streaks",
+  streak_saved: "streaks",
+  streak_assist_available: "streaks",
+  streak_assist_offer: "streaks",
+  streak_assist_request: "streaks",
+  streak_assist_accepted: "streaks",
+  streak_assisted: "streaks",
+  moderation_warning: "account",
+  new_sign_in: "account",
+};
+
+export function androidChannelFor(type: NotificationType): AndroidChannel {
+  return ANDROID_CHANNEL_BY_TYPE[type];
+}
+
+/**
+ * Types where a newer push supersedes the one still in the tray, so Android
+ * replaces it (same `tag`) instead of stacking a stale copy — iOS has no
+ * equivalent short of the client rewriting its own notifications.
+ */
+function replacementTag(payload: PushPayload): string | undefined {
+  switch (payload.type) {
+    case "daily_reminder":
+    case "weekly_recap":
+      return payload.type;
+    case "lead_change":
+    case "competition_milestone":
+      return payload.data?.competition_id
+        ? `${payload.type}:${payload.data.competition_id}`
+        : undefined;
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * The FCM v1 `message` for a visible push. `type` and `data` travel in the
+ * data block with the same meaning as the top-level keys of an APNs payload;
+ * FCM data values must be strings, hence `data` as JSON.
+ */
+export function fcmMessage(token: string, payload: PushPayload) {
+  const notification: Record<string, unknown> = {
+    channel_id: androidChannelFor(payload.type),
+  };
+  const tag = replacementTag(payload);
+  if (tag) notification.tag = tag;
+  if (payload.badge !== undefined) notification.notification_count = payload.badge;
+
+  return {
+    token,
+    notification: { title: payload.title, body: payload.body },
+    data: {
+      type: payload.type,
+      data: JSON.stringify(payload.data ?? {}),
+      ...(payload.category ? { category: payload.category } : {}),
+    },
+    // Every push here is user-visible, which is what FCM's high priority is
+    // for; the channel, not the priority, is how Android ranks them.
+    android: { priority: "high", notification },
+  };
+}
+
+/** Data-only message: wakes the app's messaging service, shows nothing. */
+export function fcmSilentMessage(
+  token: string,
+  type: string,
+  data: Record<string, string>,
+) {
+  return {
+    token,
+    data: { type, data: JSON.stringify(data), silent: "1" },
+    android: { priority: "normal" },
+  };
+}
+
+// ─── Dead tokens ─────────────────────────────────────────────────────
+
+/**
+ * Is an FCM rejection about THIS token? Same rule as the APNs isDeadToken:
+ * prune on the provider's error code, never on a status alone. Only
+ * UNREGISTERED means the app is gone. INVALID_ARGUMENT is also what a bad
+ * payload returns, and SENDER_ID_MISMATCH / auth errors are server config —
+ * pruning on those would wipe every Android token at once.
+ */
+export function isDeadFcmToken(
+  statusCode: number,
+  responseData: string,
+): boolean {
+  if (statusCode !== 404 && statusCode !== 400) return false;
+  try {
+    const details = JSON.parse(responseData)?.error?.details;
+    return (
+      Array.isArray(details) &&
+      details.some((detail: any) => detail?.errorCode === "UNREGISTERED")
+    );
+  } catch {
+    return false;
+  }
+}
+
+// ─── Transport ───────────────────────────────────────────────────────
+
+async function sendMessage(
+  message: { token: string },
+  type: string,
+  userId?: string,
+): Promise<PushResult> {
+  const account = loadServiceAccount();
+  const bearer = account ? await getAccessToken(account) : null;
+  if (!account || !bearer) {
+    console.warn("[Push] FCM not configured, skipping push");
+    return "failed";
+  }
+
+  const tokenTail = message.token.slice(-8);
+  try {
+    const res = await fetch(
+      `${FCM_API_URL}/v1/projects/${account.project_id}/messages:send`,
+      {
+        method: "POST",
+        headers: {
+          authorization: `Bearer ${bearer}`,
+          "content-type": "application/json",
+        },
+        body: JSON.stringify({ message }),
+        signal: AbortSignal.timeout(SEND_TIMEOUT_MS),
+      },
+    );
+    if (res.ok) return "sent";
+
+    const responseData = await res.text();
+    console.error(`[Push] FCM error ${res.status}: ${responseData}`);
+    logError("push", `FCM error ${res.status}`, {
+      userId,
+      context: {
+        type,
+        tokenTail,
+        statusCode: res.status,
+        response: responseData.slice(0, 500),
+      },
+    });
+    // An expired or revoked access token: drop it so the next send re-auths.
+    if (res.status === 401) accessToken = null;
+    return isDeadFcmToken(res.status, responseData) ? "dead" : "failed";
+  } catch (err: any) {
+    console.error("[Push] FCM request error:", err.message);
+    logError("push", `FCM request error: ${err.message}`, {
+      userId,
+      context: { type, tokenTail, phase: "request" },
+    });
+    return "failed";
+  }
+}
+
+export const fcmTransport: PushTransport = {
+  name: "fcm",
+  send: (target: DeviceTarget, payload: PushPayload, userId?: string) =>
+    sendMessage(fcmMessage(target.token, payload), payload.type, userId),
+  sendSilent: (target: DeviceTarget, type: string, data: Record<string, string>) =>
+    sendMessage(fcmSilentMessage(target.token, type, data), type),
+};
@@ -3,6 +3,7 @@ import { PostgresService } from "./DbService.js";
 import { runHypeMatchSql, runHypedByViewerMatchSql } from "./hypeService.js";
 import { refreshCurrentStreak } from "./leaderboardService.js";
 import { START_OF_TODAY_ET_SQL } from "./dailyResetTime.js";
+import { notShadowBannedSql } from "./accountRestrictionService.js";
 
 const db = PostgresService.getInstance();
 
@@ -308,7 +309,8 @@ export interface FriendSuggestion {
  * Exclusions: the user themself and anyone with ANY friendship row touching
  * the user (accepted rows exist in both directions; pending/ignored exist
  * one-way from the sender; rejected/removed rows are deleted — so a single
- * either-direction check covers every live relationship state).
+ * either-direction check covers every live relationship state), plus anyone
+ * shadow-banned.
  */
 export async function getFriendSuggestions(
   userId: string,
@@ -365,6 +367,7 @@ export async function getFriendSuggestions(
 			-- Guests have no username; an unaddressable suggestion card is
 			-- useless, so skip them.
 			AND u.username IS NOT NULL
+			AND ${notShadowBannedSql("u.user_id", "$1")}
 		ORDER BY COALESCE(fof.mutual_friends, 0) DESC,
 			COALESCE(sc.shared_competitions, 0) DESC,
 			u.username ASC
@@ -394,6 +397,7 @@ export async function getFriendSuggestions(
 				WHERE (f.user_id = $1 AND f.friend_id = u.user_id)
 					OR (f.friend_id = $1 AND f.user_id = u.user_id)
 			)
+			AND ${notShadowBannedSql("u.user_id", "$1")}
 		ORDER BY u.current_streak DESC NULLS LAST, u.username ASC
 		LIMIT $2
 		`,
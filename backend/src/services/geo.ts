@@ -0,0 +1,79 @@
+/**
+ * Small geometry helpers for the stored GPS traces.
+ *
+ * Traces are `[lat, lng]` pairs (workout_routes.route, segments.path). Great
+ * circle distance is exact enough everywhere; the point-to-line maths projects
+ * onto a local flat plane, which is only valid over the few kilometres a
+ * segment or a workout spans — never use it across a continent.
+ */
+
+export type LatLng = [number, number];
+
+const EARTH_RADIUS_METERS = 6371008.8;
+const RAD = Math.PI / 180;
+
+export function haversineMeters(
+  lat1: number,
+  lng1: number,
+  lat2: number,
+  lng2: number,
+): number {
+  const dLat = (lat2 - lat1) * RAD;
+  const dLng = (lng2 - lng1) * RAD;
+  const a =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(lat1 * RAD) * Math.cos(lat2 * RAD) * Math.sin(dLng / 2) ** 2;
+  return 2 * EARTH_RADIUS_METERS * Math.asin(Math.sqrt(a));
+}
+
+/** Metres along the trace at every point, starting at 0. */
+export function cumulativeTraceMeters(trace: LatLng[]): number[] {
+  const out: number[] = [0];
+  for (let i = 1; i < trace.length; i++) {
+    out.push(
+      out[i - 1] +
+        haversineMeters(
+          trace[i - 1][0],
+          trace[i - 1][1],
+          trace[i][0],
+          trace[i][1],
+        ),
+    );
+  }
+  return out;
+}
+
+/**
+ * Closest approach of point `p` to the line from `a` to `b`: the distance in
+ * metres and how far along the line it falls (`t`, 0 at `a`, 1 at `b`).
+ */
+export function projectOntoLine(
+  p: LatLng,
+  a: LatLng,
+  b: LatLng,
+): { meters: number; t: number } {
+  // Equirectangular plane centred on `a`, in metres.
+  const kx = Math.cos(a[0] * RAD) * EARTH_RADIUS_METERS * RAD;
+  const ky = EARTH_RADIUS_METERS * RAD;
+  const bx = (b[1] - a[1]) * kx;
+  const by = (b[0] - a[0]) * ky;
+  const px = (p[1] - a[1]) * kx;
+  const py = (p[0] - a[0]) * ky;
+  const len2 = bx * bx + by * by;
+  const t =
+    len2 === 0 ? 0 : Math.min(1, Math.max(0, (px * bx + py * by) / len2));
+  return { meters: Math.hypot(px - t * bx, py - t * by), t };
+}
+
+/** Distance in metres from `p` to the nearest point of the polyline. */
+export function distanceToPolyline(p: LatLng, line: LatLng[]): number {
+  if (line.length === 1) {
+    return haversineMeters(p[0], p[1], line[0][0], line[0][1]);
+  }
+  let best = Infinity;
+  for (let i = 1; i < line.length; i++) {
+    const { meters } = projectOntoLine(p, line[i - 1], line[i]);
+    if (meters < best) best = meters;
+  }
+  return best;
+}
@@ -9,6 +9,7 @@ import { sendPush } from "./pushNotificationService.js";
 import { shouldSendNotification } from "./notificationSettingsService.js";
 import { CLIENT_FEATURES, userSupports } from "./clientFeatures.js";
 import { logError } from "./errorLogService.js";
+import { BadRequestError } from "../errors/Errors.js";
 
 const db = PostgresService.getInstance();
 
@@ -105,6 +106,164 @@ export async function getFriendGhosts(
   );
 }
 
+/** One split of a workout ghost, with where the ghost is when it ends. */
+export interface GhostSplitTarget {
+  split_number: number;
+  /** Miles in this split — the trailing one is usually partial. */
+  distance: number;
+  seconds: number;
+  /** Ghost's position at the END of this split: what the tracker races. */
+  cumulative_distance: number;
+  cumulative_seconds: number;
+}
+
+export interface WorkoutGhostProfile {
+  workout_id: string;
+  owner_user_id: string;
+  /** True when you're racing your own past self. */
+  is_own: boolean;
+  /** Null for your own workout — the client already knows who you are. */
+  owner_name: string | null;
+  workout_type: string;
+  /** `date` column, so a plain string is safe. */
+  local_date: string;
+  /** Miles the profile covers: the requested distance, or the whole workout. */
+  distance: number;
+  /** Ghost's time over `distance` — what the upload stores as the target. */
+  target_seconds: number;
+  /** The source workout's full split distance, for the client's picker. */
+  workout_distance: number;
+  splits: GhostSplitTarget[];
+}
+
+const round3 = (n: number) => Math.round(n * 1000) / 1000;
+
+/**
+ * A per-split ghost built from one whole workout: your own, or a friend's.
+ *
+ * Gated like the friend picker — the owner must be you or in your circle, no
+ * block either way (CIRCLE_CTE's `blocked` also carries shadow bans), not gone
+ * private, and the workout neither deleted nor speed-excluded. Anything that
+ * fails comes back null, so "not yours to race" and "doesn't exist" are the
+ * same 404 and a workout id can't be probed for its owner's settings.
+ *
+ * Targets come from the stored `split_duration`, not `split_pace`: the trailing
+ * partial's pace is extrapolated to a whole mile, its duration is what really
+ * happened. Every full split has to be a believable mile (the shared 4:01…40:00
+ * band) — one bogus mile inside the workout would make an uncatchable ghost,
+ * and we'd rather refuse the workout than hand that out.
+ *
+ * `distance`, when given, cuts the profile short at that many miles (a 5K ghost
+ * out of a 10K), splitting the boundary split at its own even pace. It can't be
+ * longer than the workout — a ghost has nothing to say past where it stopped.
+ */
+export async function getWorkoutGhostProfile(
+  viewerId: string,
+  workoutId: string,
+  distance: number | null,
+): Promise<WorkoutGhostProfile | null> {
+  // CIRCLE_CTE hardcodes the viewer as $1, so the workout has to be $2.
+  const rows = await db.query<{
+    workout_id: string;
+    user_id: string;
+    owner_name: string | null;
+    workout_type: string;
+    local_date: string;
+    splits: {
+      split_number: number;
+      distance: number | null;
+      seconds: number;
+    }[];
+  }>(
+    `${CIRCLE_CTE}
+		SELECT w.workout_id, w.user_id, w.workout_type,
+		       to_char(w.local_date, 'YYYY-MM-DD') AS local_date,
+		       COALESCE(u.first_name, u.username) AS owner_name,
+		       COALESCE((
+		         SELECT json_agg(json_build_object(
+		                  'split_number', ws.split_number,
+		                  'distance', ws.split_distance,
+		                  'seconds', ws.split_duration
+		                ) ORDER BY ws.split_number)
+		           FROM workout_splits ws
+		          WHERE ws.workout_id = w.workout_id
+		       ), '[]'::json) AS splits
+		  FROM workouts w
+		  JOIN users u ON u.user_id = w.user_id
+		 WHERE w.workout_id = $2
+		   AND w.deleted_at IS NULL
+		   AND w.exclusion_reason IS NULL
+		   AND w.user_id IN (SELECT uid FROM circle)
+		   AND w.user_id NOT IN (SELECT uid FROM blocked)
+		   AND (w.user_id = $1 OR ${OWNER_NOT_PRIVATE_SQL("w.user_id")})`,
+    [viewerId, workoutId],
+  );
+  const row = rows[0];
+  if (!row) return null;
+
+  if (!GHOST_ACTIVITIES.includes(row.workout_type as GhostActivity)) {
+    throw new BadRequestError("unsupported_activity");
+  }
+  const splits = row.splits.filter(
+    (sp) => Number(sp.distance) > 0 && Number(sp.seconds) > 0,
+  );
+  if (splits.length === 0) throw new BadRequestError("no_splits");
+  for (const sp of splits) {
+    if (Number(sp.distance) < 0.999) continue;
+    const pace = Number(sp.seconds) / Number(sp.distance);
+    if (pace < MIN_GHOST_SECONDS || pace > MAX_GHOST_SECONDS) {
+      throw new BadRequestError("implausible_splits");
+    }
+  }
+
+  const workoutDistance = splits.reduce(
+    (sum, sp) => sum + Number(sp.distance),
+    0,
+  );
+  if (
+    distance !== null &&
+    (!Number.isFinite(distance) ||
+      distance <= 0 ||
+      distance > workoutDistance + 0.001)
+  ) {
+    throw new BadRequestError("invalid_distance");
+  }
+  const limit = distance ?? workoutDistance;
+
+  const targets: GhostSplitTarget[] = [];
+  let covered = 0;
+  let elapsed = 0;
+  for (const sp of splits) {
+    if (covered >= limit - 0.0005) break;
+    const full = Number(sp.distance);
+    const part = Math.min(full, limit - covered);
+    const seconds = Number(sp.seconds) * (part / full);
+    covered += part;
+    elapsed += seconds;
+    targets.push({
+      split_number: sp.split_number,
+      distance: round3(part),
+      seconds: Math.round(seconds * 10) / 10,
+      cumulative_distance: round3(covered),
+      cumulative_seconds: Math.round(elapsed * 10) / 10,
+    });
+  }
+
+  const isOwn = row.user_id === viewerId;
+  return {
+    workout_id: row.workout_id,
+    owner_user_id: row.user_id,
+    is_own: isOwn,
+    owner_name: isOwn ? null : row.owner_name,
+    workout_type: row.workout_type,
+    local_date: row.local_date,
+    distance: round3(covered),
+    target_seconds: Math.round(elapsed * 10) / 10,
+    workout_distance: round3(workoutDistance),
+    splits: targets,
+  };
+}
+
 /**
  * Tell friends whose ghost was just beaten.
  *
@@ -139,6 +298,7 @@ export async function notifyGhostsBeaten(
     const rows = await db.query<{
       owner_id: string;
       margin: number;
+      distance: number | null;
       racer_name: string | null;
     }>(
       `UPDATE workouts w
@@ -168,6 +328,7 @@ export async function notifyGhostsBeaten(
           )
        RETURNING w.ghost_friend_user_id AS owner_id,
                  w.ghost_margin_seconds AS margin,
+                 w.ghost_distance AS distance,
                  COALESCE(racer.first_name, racer.username) AS racer_name`,
       [racerId, workoutIds],
     );
@@ -189,9 +350,14 @@ export async function notifyGhostsBeaten(
       }
       const name = row.racer_name || "A friend";
       const seconds = Math.max(1, Math.round(Number(row.margin)));
+      // A whole-workout race names its distance; null is the classic mile.
+      const what =
+        row.distance === null
+          ? "mile"
+          : `${Number(Number(row.distance).toFixed(2))} mi`;
       await sendPush(row.owner_id, {
         title: "Your ghost was caught",
-        body: `${name} beat your mile by ${seconds}s`,
+        body: `${name} beat your ${what} by ${seconds}s`,
         type: "ghost_beaten",
         // Push data values must be STRING-valued — shipped builds decode the
         // inbox as [String: String], so one number breaks the whole decode.
@@ -210,8 +376,19 @@ export interface GhostRaceRecord {
   workout_id: string;
   /** Signed: positive won by, negative lost by. */
   margin_seconds: number;
-  /** The ghost's mile time. */
+  /** The ghost's time over `distance` — a mile time when that's null. */
   target_seconds: number;
+  /** Miles raced for a whole-workout ghost; null for the single mile. */
+  distance: number | null;
+  /** Signed margin at each split boundary, when the tracker sent them. */
+  split_margins: number[] | null;
+  /**
+   * The workout that was raced — null unless it's still yours, or still the
+   * visible friend's below. Same degrade-not-drop rule as `friend_name`.
+   */
+  source_workout_id: string | null;
+  /** True when the raced workout was your own. */
+  source_is_own: boolean;
   /** `date` column, so a plain string is safe (no fractional-seconds trap). */
   local_date: string;
   workout_type: string | null;
@@ -230,7 +407,9 @@ export interface GhostRaceRecord {
  * The friend's NAME is re-gated on the friendship still existing and no block
  * either way — you raced them, but that doesn't entitle you to their name
  * forever. It degrades to null rather than dropping the row, so the race is
- * still remembered as "a friend's mile".
+ * still remembered as "a friend's mile". A whole-workout race's source id goes
+ * through the same gate (and must still be theirs, and not deleted) — the id
+ * is client-asserted, so it's only echoed back when it checks out.
  */
 export async function getGhostHistory(
   userId: string,
@@ -240,24 +419,34 @@ export async function getGhostHistory(
     `SELECT w.workout_id,
             w.ghost_margin_seconds AS margin_seconds,
             w.ghost_target_seconds AS target_seconds,
+            w.ghost_distance AS distance,
+            w.ghost_split_margins AS split_margins,
             to_char(w.local_date, 'YYYY-MM-DD') AS local_date,
             w.workout_type,
+            CASE WHEN fv.visible THEN COALESCE(f.first_name, f.username) END
+              AS friend_name,
             CASE
-              WHEN f.user_id IS NULL THEN NULL
-              WHEN NOT EXISTS (
-                SELECT 1 FROM friendships fr
-                 WHERE fr.user_id = $1 AND fr.friend_id = f.user_id
-                   AND fr.status = 'accepted'
-              ) THEN NULL
-              WHEN EXISTS (
-                SELECT 1 FROM user_blocks b
-                 WHERE (b.blocker_id = $1 AND b.blocked_id = f.user_id)
-                    OR (b.blocker_id = f.user_id AND b.blocked_id = $1)
-              ) THEN NULL
-              ELSE COALESCE(f.first_name, f.username)
-            END AS friend_name
+              WHEN sw.user_id = $1 THEN sw.workout_id
+              WHEN fv.visible AND sw.user_id = f.user_id THEN sw.workout_id
+            END AS source_workout_id,
+            COALESCE(sw.user_id = $1, false) AS source_is_own
        FROM workouts w
        LEFT JOIN users f ON f.user_id = w.ghost_friend_user_id
+       LEFT JOIN workouts sw ON sw.workout_id = w.ghost_source_workout_id
+                            AND sw.deleted_at IS NULL
+       CROSS JOIN LATERAL (
+         SELECT f.user_id IS NOT NULL
+                AND EXISTS (
+                  SELECT 1 FROM friendships fr
+                   WHERE fr.user_id = $1 AND fr.friend_id = f.user_id
+                     AND fr.status = 'accepted'
+                )
+                AND NOT EXISTS (
+                  SELECT 1 FROM user_blocks b
+                   WHERE (b.blocker_id = $1 AND b.blocked_id = f.user_id)
+                      OR (b.blocker_id = f.user_id AND b.blocked_id = $1)
+                ) AS visible
+       ) fv
       WHERE w.user_id = $1
         AND w.deleted_at IS NULL
         AND w.ghost_margin_seconds IS NOT NULL
@@ -1,9 +1,14 @@
 import { PostgresService } from "./DbService.js";
+import { getGoalMilesOn } from "./dailyGoalService.js";
 import { sendPush } from "./pushNotificationService.js";
 import {
   MatchupHistoryItem,
   MatchupHistoryResponse,
   MatchupRivalRecord,
+  RivalryMatchup,
+  RivalrySummary,
+  RivalrySummaryResponse,
+  H2hMetric,
 } from "../types/badge.js";
 import { localNowSql } from "./dailyResetTime.js";
 import {
@@ -14,6 +19,12 @@ import {
   walkRotation,
   edgeScore,
 } from "./challengeRotation.js";
+// One-way: the rematch service knows nothing of this module, so the resolver
+// can drive both without a cycle.
+import {
+  notifyPendingRematchResults,
+  resolveDueRematches,
+} from "./h2hRematchService.js";
 
 const db = PostgresService.getInstance();
 
@@ -520,9 +531,16 @@ const RESOLVE_GRACE_HOURS = 6;
  * Score every unresolved matchup whose day is over — for BOTH sides — plus the
  * grace period (the rival's late-night miles are part of the outcome, so their
  * clock matters too). Winner inserts the day's challenge completion; the push
- * is deferred to notifyPendingWinners. Hourly-cron safe: idempotent per row.
+ * is deferred to notifyPendingWinners. Accepted rematches are scored on the
+ * same pass (resolveDueRematches). Hourly-cron safe: idempotent per row.
  */
 export async function resolveDueMatchups(): Promise<void> {
+  try {
+    await resolveDueRematches();
+  } catch (e: any) {
+    console.error(`[H2H] Rematch resolution failed:`, e?.message ?? e);
+  }
+
   const cutoff = `(m.local_date::timestamp + INTERVAL '1 day' + INTERVAL '${RESOLVE_GRACE_HOURS} hours')`;
   const due = await db.query<{
     local_date: string;
@@ -572,7 +590,7 @@ async function resolveOne(
     const [mineRaw, theirsRaw, goal] = await Promise.all([
       dayTotalDistance(userId, localDate),
       dayTotalDistance(rivalId, localDate),
-      getGoalMiles(userId),
+      getGoalMilesOn(userId, localDate),
     ]);
     // Compare at display precision: the duel card shows 2-decimal miles, so
     // 2dp is the truth that decides it. A 2dp tie awards nobody ("Dead even").
@@ -810,8 +828,15 @@ async function notifyOneLeadChange(row: {
  * (9 AM–9:59 PM) rather than at the 6 AM scoring moment — a middle-of-the-
  * night push would only land in the quiet-hours queue and resurface as a
  * degraded digest. Claim-then-send keeps it exactly-once per matchup.
+ * Rematch results ride along on the same schedule.
  */
 export async function notifyPendingWinners(): Promise<void> {
+  try {
+    await notifyPendingRematchResults();
+  } catch (e: any) {
+    console.error(`[H2H] Rematch result notify failed:`, e?.message ?? e);
+  }
+
   const winners = await db.query<{
     local_date: string;
     user_id: string;
@@ -1007,6 +1032,161 @@ export async function getMatchupHistory(
   };
 }
 
+// ─── Rivalries (per-rival all-time summary) ─────────────────────────
+
+/** Duels shown per rival in the summary; the full list is the history. */
+const RIVALRY_RECENT_LIMIT = 5;
+
+/**
+ * Every rival the user has ever dueled, with the whole story against each:
+ * record, the streak the latest duels are on, best win run, mileage margins
+ * and the most recent duels. Daily duels come from getMatchupHistory (so the
+ * same re-derived miles, block rule and safety cap apply); scored rematches
+ * are folded in with the totals stored when they were scored.
+ */
+export async function getRivalrySummary(
+  userId: string,
+): Promise<RivalrySummaryResponse> {
+  const history = await getMatchupHistory(userId);
+  const rematches = await db.query<{
+    local_date: string;
+    rival_id: string;
+    username: string | null;
+    profile_image_url: string | null;
+    metric: H2hMetric;
+    my_value: number;
+    rival_value: number;
+  }>(
+    `SELECT r.local_date::text AS local_date, u.user_id AS rival_id,
+			u.username, u.profile_image_url, r.metric,
+			CASE WHEN r.challenger_id = $1 THEN r.challenger_value
+				ELSE r.opponent_value END AS my_value,
+			CASE WHEN r.challenger_id = $1 THEN r.opponent_value
+				ELSE r.challenger_value END AS rival_value
+		FROM h2h_rematches r
+		JOIN users u ON u.user_id = CASE WHEN r.challenger_id = $1
+			THEN r.opponent_id ELSE r.challenger_id END
+		WHERE $1 IN (r.challenger_id, r.opponent_id)
+			AND r.resolved_at IS NOT NULL
+			AND NOT EXISTS (
+				SELECT 1 FROM user_blocks b
+				WHERE (b.blocker_id = $1 AND b.blocked_id = u.user_id)
+					OR (b.blocker_id = u.user_id AND b.blocked_id = $1)
+			)
+		ORDER BY r.local_date DESC
+		LIMIT ${MATCHUP_HISTORY_LIMIT}`,
+    [userId],
+  );
+
+  type Entry = RivalryMatchup & {
+    rival: RivalrySummary["rival"];
+  };
+  const entries: Entry[] = [
+    ...history.matchups.map(
+      (m): Entry => ({
+        localDate: m.localDate,
+        kind: "daily",
+        metric: "distance",
+        myValue: m.myMiles,
+        rivalValue: m.rivalMiles,
+        result: m.result,
+        rival: m.rival,
+      }),
+    ),
+    ...rematches.map(
+      (r): Entry => ({
+        localDate: r.local_date,
+        kind: "rematch",
+        metric: r.metric,
+        myValue: r.my_value,
+        rivalValue: r.rival_value,
+        result:
+          r.my_value > r.rival_value
+            ? "won"
+            : r.my_value < r.rival_value
+              ? "lost"
+              : "tied",
+        rival: {
+          userId: r.rival_id,
+          username: r.username,
+          profileImageUrl: r.profile_image_url,
+        },
+      }),
+    ),
+  ];
+  // Newest first; on a day with both, the rematch was the one asked for, so
+  // it reads as the later word.
+  entries.sort(
+    (a, b) =>
+      b.localDate.localeCompare(a.localDate) ||
+      (a.kind === b.kind ? 0 : a.kind === "rematch" ? -1 : 1),
+  );
+
+  const byRival = new Map<string, Entry[]>();
+  for (const e of entries) {
+    const list = byRival.get(e.rival.userId);
+    if (list) list.push(e);
+    else byRival.set(e.rival.userId, [e]);
+  }
+
+  const round2 = (n: number) => Math.round(n * 100) / 100;
+  const rivals: RivalrySummary[] = [...byRival.values()].map((duels) => {
+    const record = { wins: 0, losses: 0, ties: 0, total: duels.length };
+    let bestWinStreak = 0;
+    let run = 0;
+    const winMargins: number[] = [];
+    const lossMargins: number[] = [];
+    for (const d of duels) {
+      if (d.result === "won") record.wins++;
+      else if (d.result === "lost") record.losses++;
+      else record.ties++;
+      run = d.result === "won" ? run + 1 : 0;
+      if (run > bestWinStreak) bestWinStreak = run;
+      if (d.metric === "distance") {
+        const gap = round2(Math.abs(d.myValue - d.rivalValue));
+        if (d.result === "won") winMargins.push(gap);
+        else if (d.result === "lost") lossMargins.push(gap);
+      }
+    }
+    let streakLength = 0;
+    for (const d of duels) {
+      if (d.result !== duels[0].result) break;
+      streakLength++;
+    }
+    const average = (xs: number[]) =>
+      xs.length ? round2(xs.reduce((a, b) => a + b, 0) / xs.length) : null;
+    // The first duel seen carries the freshest username/avatar.
+    const { rival, localDate } = duels[0];
+    return {
+      rival,
+      record,
+      currentStreak: { result: duels[0].result, length: streakLength },
+      bestWinStreak,
+      margins: {
+        averageWinMiles: average(winMargins),
+        averageLossMiles: average(lossMargins),
+        biggestWinMiles: winMargins.length ? Math.max(...winMargins) : null,
+        biggestLossMiles: lossMargins.length ? Math.max(...lossMargins) : null,
+      },
+      recentMatchups: duels
+        .slice(0, RIVALRY_RECENT_LIMIT)
+        .map(({ rival: _rival, ...m }) => m),
+      lastLocalDate: localDate,
+    };
+  });
+  rivals.sort(
+    (a, b) =>
+      b.record.total - a.record.total ||
+      b.lastLocalDate.localeCompare(a.lastLocalDate),
+  );
+
+  return {
+    rivals,
+    truncated:
+      history.truncated || rematches.length === MATCHUP_HISTORY_LIMIT,
+  };
+}
+
 // ─── Local SQL helpers (mirrors of dailyChallengeService's) ─────────
 
 async function dayTotalDistance(
@@ -1021,14 +1201,6 @@ async function dayTotalDistance(
   return parseFloat(rows[0]?.total ?? "0") || 0;
 }
 
-async function getGoalMiles(userId: string): Promise<number> {
-  const rows = await db.query<{ goal_miles: string }>(
-    `SELECT goal_miles::text AS goal_miles FROM users WHERE user_id = $1`,
-    [userId],
-  );
-  return parseFloat(rows[0]?.goal_miles ?? "1.0") || 1.0;
-}
-
 async function latestWorkoutId(
   userId: string,
   localDate: string,
@@ -0,0 +1,589 @@
+import { PostgresService } from "./DbService.js";
+import { BadRequestError } from "../errors/Errors.js";
+import { sendPush } from "./pushNotificationService.js";
+import { shouldSendNotification } from "./notificationSettingsService.js";
+import { CLIENT_FEATURES, userSupports } from "./clientFeatures.js";
+import { areFriends } from "./friendshipService.js";
+import { localNowSql, localTodaySql } from "./dailyResetTime.js";
+import type {
+  H2hMetric,
+  H2hRematch,
+  H2hRematchList,
+  H2hRematchStatus,
+} from "../types/badge.js";
+
+const db = PostgresService.getInstance();
+
+/**
+ * Head-to-Head rematches: "you beat me Tuesday — Saturday, steps, again."
+ *
+ * The daily duel is assigned by the rotation; a rematch is asked for. One
+ * friend challenges another to a metric on a day, the other accepts, and the
+ * day is scored by the same end-of-day resolver as the pinned duels
+ * (`resolveDueMatchups` calls `resolveDueRematches`), on the same clock: both
+ * sides' local day over, plus the grace hours for late syncs.
+ *
+ * A rematch awards nothing — no challenge completion, no badge — so it never
+ * competes with the daily duel for the day's slot. It's a result between two
+ * people, stored with its totals at scoring time so the rivalry summary reads
+ * exactly what the result push said.
+ */
+
+export const H2H_METRICS: H2hMetric[] = ["distance", "steps", "duration"];
+
+/** How far ahead a rematch can be set. */
+const MAX_DAYS_AHEAD = 14;
+/** Pending rematches one user can have out at once. */
+const MAX_PENDING_OUTGOING = 10;
+/** Scored rematches returned by `listRematches`. */
+const RECENT_LIMIT = 20;
+/** Mirrors RESOLVE_GRACE_HOURS in h2hMatchupService. */
+const RESOLVE_GRACE_HOURS = 6;
+
+const ISO_TS = `'YYYY-MM-DD"T"HH24:MI:SS.MS"Z"'`;
+const DATE_RE = /^\d{4}-\d{2}-\d{2}$/;
+
+/** True when the string is a real calendar date, not just \d{4}-\d{2}-\d{2}. */
+function isRealDate(value: unknown): value is string {
+  if (typeof value !== "string" || !DATE_RE.test(value)) return false;
+  const parsed = new Date(`${value}T00:00:00Z`);
+  return (
+    !Number.isNaN(parsed.getTime()) &&
+    parsed.toISOString().slice(0, 10) === value
+  );
+}
+
+/**
+ * A day's total for the metric, at the precision it's displayed and scored
+ * at: miles to 2dp (like the daily duel), whole steps, whole minutes.
+ */
+async function dayMetricTotal(
+  userId: string,
+  localDate: string,
+  metric: H2hMetric,
+): Promise<number> {
+  if (metric === "steps") {
+    const rows = await db.query<{ steps: number }>(
+      `SELECT steps FROM daily_steps WHERE user_id = $1 AND local_date = $2`,
+      [userId, localDate],
+    );
+    return rows[0]?.steps ?? 0;
+  }
+  const column = metric === "distance" ? "distance" : "total_duration";
+  const rows = await db.query<{ total: string | null }>(
+    `SELECT COALESCE(SUM(${column}), 0)::text AS total FROM workouts
+		WHERE user_id = $1 AND local_date = $2
+			AND deleted_at IS NULL AND exclusion_reason IS NULL`,
+    [userId, localDate],
+  );
+  const total = parseFloat(rows[0]?.total ?? "0") || 0;
+  return metric === "distance"
+    ? Math.round(total * 100) / 100
+    : Math.round(total / 60);
+}
+
+function formatMetric(value: number, metric: H2hMetric): string {
+  if (metric === "distance") return `${value.toFixed(2)} mi`;
+  if (metric === "steps") return `${value.toLocaleString("en-US")} steps`;
+  return `${value} min`;
+}
+
+const METRIC_LABEL: Record<H2hMetric, string> = {
+  distance: "miles",
+  steps: "steps",
+  duration: "minutes",
+};
+
+interface RematchRow {
+  id: string;
+  challenger_id: string;
+  opponent_id: string;
+  metric: H2hMetric;
+  local_date: string;
+  status: H2hRematchStatus;
+  created_at: string;
+  resolved_at: string | null;
+  challenger_value: number | null;
+  opponent_value: number | null;
+  rival_id: string;
+  rival_username: string | null;
+  rival_profile_image_url: string | null;
+}
+
+/** Rematch rows with the OTHER side's profile, relative to viewer $1. */
+const REMATCH_SELECT = `SELECT r.id::text AS id, r.challenger_id, r.opponent_id,
+		r.metric, r.local_date::text AS local_date, r.status,
+		to_char(r.created_at AT TIME ZONE 'UTC', ${ISO_TS}) AS created_at,
+		to_char(r.resolved_at AT TIME ZONE 'UTC', ${ISO_TS}) AS resolved_at,
+		r.challenger_value, r.opponent_value,
+		u.user_id AS rival_id, u.username AS rival_username,
+		u.profile_image_url AS rival_profile_image_url
+	FROM h2h_rematches r
+	JOIN users u ON u.user_id = CASE WHEN r.challenger_id = $1
+		THEN r.opponent_id ELSE r.challenger_id END`;
+
+function toRematch(viewerId: string, row: RematchRow): H2hRematch {
+  const outgoing = row.challenger_id === viewerId;
+  let result: H2hRematch["result"] = null;
+  if (
+    row.resolved_at &&
+    row.challenger_value !== null &&
+    row.opponent_value !== null
+  ) {
+    const mine = outgoing ? row.challenger_value : row.opponent_value;
+    const theirs = outgoing ? row.opponent_value : row.challenger_value;
+    result = {
+      myValue: mine,
+      rivalValue: theirs,
+      result: mine > theirs ? "won" : mine < theirs ? "lost" : "tied",
+    };
+  }
+  return {
+    id: row.id,
+    metric: row.metric,
+    localDate: row.local_date,
+    status: row.status,
+    direction: outgoing ? "outgoing" : "incoming",
+    rival: {
+      userId: row.rival_id,
+      username: row.rival_username,
+      profileImageUrl: row.rival_profile_image_url,
+    },
+    createdAt: row.created_at,
+    result,
+  };
+}
+
+async function loadRematch(
+  viewerId: string,
+  rematchId: string,
+): Promise<RematchRow | null> {
+  const rows = await db.query<RematchRow>(
+    `${REMATCH_SELECT}
+		WHERE r.id::text = $2 AND $1 IN (r.challenger_id, r.opponent_id)`,
+    [viewerId, rematchId],
+  );
+  return rows[0] ?? null;
+}
+
+/**
+ * Whether `localDate` is still today-or-later for BOTH users. A rematch on a
+ * day either of them has already finished would be scored on miles that were
+ * run before anyone agreed to anything.
+ */
+async function dateStillOpen(
+  userA: string,
+  userB: string,
+  localDate: string,
+): Promise<boolean> {
+  const rows = await db.query<{ open: boolean }>(
+    `SELECT ($3::date >= ${localTodaySql("$1")}
+			AND $3::date >= ${localTodaySql("$2")}) AS open`,
+    [userA, userB, localDate],
+  );
+  return rows[0]?.open === true;
+}
+
+/** Everything the user has in flight, plus recently scored rematches. */
+export async function listRematches(userId: string): Promise<H2hRematchList> {
+  const [live, recent] = await Promise.all([
+    db.query<RematchRow>(
+      `${REMATCH_SELECT}
+			WHERE $1 IN (r.challenger_id, r.opponent_id)
+				AND r.status IN ('pending', 'accepted')
+				AND r.resolved_at IS NULL
+			ORDER BY r.local_date ASC, r.created_at ASC`,
+      [userId],
+    ),
+    db.query<RematchRow>(
+      `${REMATCH_SELECT}
+			WHERE $1 IN (r.challenger_id, r.opponent_id)
+				AND r.resolved_at IS NOT NULL
+			ORDER BY r.local_date DESC, r.resolved_at DESC
+			LIMIT ${RECENT_LIMIT}`,
+      [userId],
+    ),
+  ]);
+  const list: H2hRematchList = {
+    incoming: [],
+    outgoing: [],
+    upcoming: [],
+    recent: recent.map((r) => toRematch(userId, r)),
+  };
+  for (const row of live) {
+    const rematch = toRematch(userId, row);
+    if (row.status === "accepted") list.upcoming.push(rematch);
+    else if (rematch.direction === "incoming") list.incoming.push(rematch);
+    else list.outgoing.push(rematch);
+  }
+  return list;
+}
+
+/** Challenge a friend — `{ opponent_id, metric, local_date }`. */
+export async function createRematch(
+  challengerId: string,
+  input: { opponent_id?: unknown; metric?: unknown; local_date?: unknown },
+): Promise<H2hRematch> {
+  const opponentId = input.opponent_id;
+  if (typeof opponentId !== "string" || !opponentId) {
+    throw new BadRequestError("invalid_opponent_id");
+  }
+  if (opponentId === challengerId) {
+    throw new BadRequestError("cannot_challenge_self");
+  }
+  const metric = input.metric as H2hMetric;
+  if (!H2H_METRICS.includes(metric)) {
+    throw new BadRequestError("invalid_metric");
+  }
+  const localDate = input.local_date;
+  if (!isRealDate(localDate)) {
+    throw new BadRequestError("invalid_local_date");
+  }
+  // Friendship rows are deleted on block, so this covers blocks too.
+  if (!(await areFriends(challengerId, opponentId))) {
+    throw new BadRequestError("not_friends");
+  }
+  const [window] = await db.query<{ open: boolean; too_far: boolean }>(
+    `SELECT ($2::date >= ${localTodaySql("$1")}
+			AND $2::date >= ${localTodaySql("$3")}) AS open,
+			($2::date > ${localTodaySql("$1")} + ${MAX_DAYS_AHEAD}) AS too_far`,
+    [challengerId, localDate, opponentId],
+  );
+  if (!window?.open) throw new BadRequestError("date_in_past");
+  if (window.too_far) throw new BadRequestError("date_too_far");
+  if (!(await userSupports(opponentId, CLIENT_FEATURES.h2hRematchV1))) {
+    throw new BadRequestError("opponent_unsupported");
+  }
+
+  // Cap and insert in one statement; the live-pair unique index turns a
+  // duplicate (either direction) into a no-op we can name.
+  const inserted = await db.query<{ id: string; over_cap: boolean }>(
+    `WITH pending AS (
+			SELECT COUNT(*) AS n FROM h2h_rematches
+			 WHERE challenger_id = $1 AND status = 'pending'
+		)
+		INSERT INTO h2h_rematches (challenger_id, opponent_id, metric, local_date)
+		SELECT $1, $2, $3, $4 FROM pending WHERE pending.n < $5
+		ON CONFLICT DO NOTHING
+		RETURNING id::text AS id`,
+    [challengerId, opponentId, metric, localDate, MAX_PENDING_OUTGOING],
+  );
+  if (inserted.length === 0) {
+    const [pending] = await db.query<{ n: number }>(
+      `SELECT COUNT(*)::int AS n FROM h2h_rematches
+			 WHERE challenger_id = $1 AND status = 'pending'`,
+      [challengerId],
+    );
+    throw new BadRequestError(
+      pending.n >= MAX_PENDING_OUTGOING ? "too_many_pending" : "rematch_exists",
+    );
+  }
+
+  const row = (await loadRematch(challengerId, inserted[0].id))!;
+  void notifyInvite(challengerId, opponentId, row);
+  return toRematch(challengerId, row);
+}
+
+async function notifyInvite(
+  challengerId: string,
+  opponentId: string,
+  row: RematchRow,
+): Promise<void> {
+  try {
+    if (
+      !(await shouldSendNotification(
+        opponentId,
+        challengerId,
+        "competition_invite",
+      ))
+    ) {
+      return;
+    }
+    const [challenger] = await db.query<{ username: string | null }>(
+      `SELECT username FROM users WHERE user_id = $1`,
+      [challengerId],
+    );
+    const name = challenger?.username ?? "A friend";
+    await sendPush(opponentId, {
+      title: `${name} wants a rematch 🥊`,
+      body: `Most ${METRIC_LABEL[row.metric]} on ${row.local_date}. You in?`,
+      type: "h2h_rematch_invite",
+      data: {
+        rematch_id: row.id,
+        challenger_id: challengerId,
+        challenger_username: challenger?.username ?? "",
+        metric: row.metric,
+        local_date: row.local_date,
+      },
+    });
+  } catch (e: any) {
+    console.error(`[H2H] Rematch invite push failed:`, e?.message ?? e);
+  }
+}
+
+/** The opponent's answer to a pending rematch. */
+export async function respondToRematch(
+  userId: string,
+  rematchId: string,
+  accept: boolean,
+): Promise<H2hRematch> {
+  const row = await loadRematch(userId, rematchId);
+  if (!row || row.opponent_id !== userId) {
+    throw new BadRequestError("rematch_not_found");
+  }
+  if (row.status !== "pending") throw new BadRequestError("rematch_not_pending");
+  if (
+    accept &&
+    !(await dateStillOpen(row.challenger_id, row.opponent_id, row.local_date))
+  ) {
+    throw new BadRequestError("date_in_past");
+  }
+  if (accept && !(await areFriends(row.challenger_id, row.opponent_id))) {
+    throw new BadRequestError("not_friends");
+  }
+
+  const updated = await db.query<{ id: string }>(
+    `UPDATE h2h_rematches SET status = $3, responded_at = NOW()
+		WHERE id::text = $1 AND opponent_id = $2 AND status = 'pending'
+		RETURNING id::text AS id`,
+    [rematchId, userId, accept ? "accepted" : "declined"],
+  );
+  if (updated.length === 0) throw new BadRequestError("rematch_not_pending");
+
+  // Declines are silent: "they said no" is a push nobody wants.
+  if (accept) void notifyAccepted(row);
+  return toRematch(userId, (await loadRematch(userId, rematchId))!);
+}
+
+async function notifyAccepted(row: RematchRow): Promise<void> {
+  try {
+    const [supported, allowed] = await Promise.all([
+      userSupports(row.challenger_id, CLIENT_FEATURES.h2hRematchV1),
+      shouldSendNotification(
+        row.challenger_id,
+        row.opponent_id,
+        "competition_update",
+      ),
+    ]);
+    if (!supported || !allowed) return;
+    const [opponent] = await db.query<{ username: string | null }>(
+      `SELECT username FROM users WHERE user_id = $1`,
+      [row.opponent_id],
+    );
+    const name = opponent?.username ?? "Your rival";
+    await sendPush(row.challenger_id, {
+      title: `${name} accepted your rematch`,
+      body: `Most ${METRIC_LABEL[row.metric]} on ${row.local_date}. Game on.`,
+      type: "h2h_rematch_accepted",
+      data: {
+        rematch_id: row.id,
+        rival_id: row.opponent_id,
+        rival_username: opponent?.username ?? "",
+        metric: row.metric,
+        local_date: row.local_date,
+      },
+    });
+  } catch (e: any) {
+    console.error(`[H2H] Rematch accepted push failed:`, e?.message ?? e);
+  }
+}
+
+/**
+ * Withdraw a rematch. The challenger can pull a pending one; either side can
+ * back out of an accepted one until the day starts for either of them — after
+ * that, miles are on the board and it gets scored.
+ */
+export async function cancelRematch(
+  userId: string,
+  rematchId: string,
+): Promise<void> {
+  const row = await loadRematch(userId, rematchId);
+  if (!row) throw new BadRequestError("rematch_not_found");
+  if (row.status === "pending") {
+    if (row.challenger_id !== userId) {
+      // The opponent's way out of a pending rematch is declining it.
+      throw new BadRequestError("rematch_not_found");
+    }
+  } else if (row.status === "accepted") {
+    const [started] = await db.query<{ started: boolean }>(
+      `SELECT ($3::date <= ${localTodaySql("$1")}
+				OR $3::date <= ${localTodaySql("$2")}) AS started`,
+      [row.challenger_id, row.opponent_id, row.local_date],
+    );
+    if (started?.started) throw new BadRequestError("rematch_started");
+  } else {
+    throw new BadRequestError("rematch_not_pending");
+  }
+  await db.query(
+    `UPDATE h2h_rematches SET status = 'cancelled', responded_at = NOW()
+		WHERE id::text = $1 AND status = $2`,
+    [rematchId, row.status],
+  );
+}
+
+// ─── End-of-day resolution (via resolveDueMatchups) ─────────────────
+
+/**
+ * Score every accepted rematch whose day is over for both sides (plus the
+ * grace hours), and expire pending ones nobody answered in time. Idempotent
+ * per row, like the matchup resolver that calls it.
+ */
+export async function resolveDueRematches(): Promise<void> {
+  const cutoff = `(r.local_date::timestamp + INTERVAL '1 day' + INTERVAL '${RESOLVE_GRACE_HOURS} hours')`;
+
+  // An invite is only answerable while the day is still open for both, so
+  // once either side's day is over it can never be accepted.
+  await db.query(
+    `UPDATE h2h_rematches r SET status = 'expired'
+		WHERE r.status = 'pending'
+			AND (r.local_date < ${localTodaySql("r.challenger_id")}
+				OR r.local_date < ${localTodaySql("r.opponent_id")})`,
+  );
+
+  const due = await db.query<{
+    id: string;
+    challenger_id: string;
+    opponent_id: string;
+    metric: H2hMetric;
+    local_date: string;
+  }>(
+    `SELECT r.id::text AS id, r.challenger_id, r.opponent_id, r.metric,
+			r.local_date::text AS local_date
+		FROM h2h_rematches r
+		WHERE r.status = 'accepted' AND r.resolved_at IS NULL
+			AND r.local_date >= (CURRENT_DATE - INTERVAL '7 days')
+			AND ${localNowSql("r.challenger_id")} >= ${cutoff}
+			AND ${localNowSql("r.opponent_id")} >= ${cutoff}`,
+  );
+  if (due.length === 0) return;
+  console.log(`[H2H] Resolving ${due.length} finished rematch(es)...`);
+
+  for (const row of due) {
+    try {
+      // Same rule as a stale daily pin: a friendship that ended before the
+      // day was scored ends the rematch with it.
+      if (!(await areFriends(row.challenger_id, row.opponent_id))) {
+        await db.query(
+          `UPDATE h2h_rematches SET status = 'cancelled'
+					WHERE id::text = $1 AND resolved_at IS NULL`,
+          [row.id],
+        );
+        continue;
+      }
+      const [mine, theirs] = await Promise.all([
+        dayMetricTotal(row.challenger_id, row.local_date, row.metric),
+        dayMetricTotal(row.opponent_id, row.local_date, row.metric),
+      ]);
+      const winner =
+        mine > theirs
+          ? row.challenger_id
+          : mine < theirs
+            ? row.opponent_id
+            : null;
+      await db.query(
+        `UPDATE h2h_rematches
+				SET resolved_at = NOW(), challenger_value = $2, opponent_value = $3,
+					winner_id = $4
+				WHERE id::text = $1 AND resolved_at IS NULL`,
+        [row.id, mine, theirs, winner],
+      );
+    } catch (e: any) {
+      console.error(
+        `[H2H] Failed to resolve rematch ${row.id}:`,
+        e?.message ?? e,
+      );
+    }
+  }
+}
+
+/**
+ * Tell both sides how a scored rematch went, each during their own local
+ * daytime — the same 9 AM–9:59 PM window as the daily duel's winner push.
+ * Unlike that push, the loser hears too: they agreed to this one.
+ */
+export async function notifyPendingRematchResults(): Promise<void> {
+  const pending = await db.query<{
+    id: string;
+    side: "challenger" | "opponent";
+    user_id: string;
+    rival_id: string;
+    metric: H2hMetric;
+    local_date: string;
+    my_value: number;
+    rival_value: number;
+  }>(
+    `SELECT r.id::text AS id, s.side, s.user_id, s.rival_id, r.metric,
+			r.local_date::text AS local_date, s.my_value, s.rival_value
+		FROM h2h_rematches r
+		CROSS JOIN LATERAL (VALUES
+			('challenger', r.challenger_id, r.opponent_id,
+				r.challenger_value, r.opponent_value, r.challenger_notified_at),
+			('opponent', r.opponent_id, r.challenger_id,
+				r.opponent_value, r.challenger_value, r.opponent_notified_at)
+		) AS s(side, user_id, rival_id, my_value, rival_value, notified_at)
+		WHERE r.status = 'accepted' AND r.resolved_at IS NOT NULL
+			AND s.notified_at IS NULL
+			AND r.local_date >= (CURRENT_DATE - INTERVAL '7 days')
+			AND EXTRACT(HOUR FROM ${localNowSql("s.user_id")}) BETWEEN 9 AND 21`,
+  );
+
+  for (const p of pending) {
+    const column =
+      p.side === "challenger"
+        ? "challenger_notified_at"
+        : "opponent_notified_at";
+    const claimed = await db.query<{ id: string }>(
+      `UPDATE h2h_rematches SET ${column} = NOW()
+			WHERE id::text = $1 AND ${column} IS NULL
+			RETURNING id::text AS id`,
+      [p.id],
+    );
+    if (claimed.length === 0) continue;
+
+    try {
+      const [supported, allowed] = await Promise.all([
+        userSupports(p.user_id, CLIENT_FEATURES.h2hRematchV1),
+        shouldSendNotification(p.user_id, p.rival_id, "competition_update"),
+      ]);
+      if (!supported || !allowed) continue;
+      const [rival] = await db.query<{ username: string | null }>(
+        `SELECT username FROM users WHERE user_id = $1`,
+        [p.rival_id],
+      );
+      const name = rival?.username ?? "your rival";
+      const score = `${formatMetric(p.my_value, p.metric)} to ${formatMetric(p.rival_value, p.metric)}`;
+      const result =
+        p.my_value > p.rival_value
+          ? "won"
+          : p.my_value < p.rival_value
+            ? "lost"
+            : "tied";
+      await sendPush(p.user_id, {
+        title:
+          result === "won"
+            ? `You won the rematch against ${name} 🏆`
+            : result === "lost"
+              ? `${name} took the rematch`
+              : `Dead even with ${name}`,
+        body:
+          result === "lost"
+            ? `${score}. Run it back?`
+            : `${score} on ${p.local_date}.`,
+        type: "h2h_rematch_result",
+        data: {
+          rematch_id: p.id,
+          rival_id: p.rival_id,
+          rival_username: rival?.username ?? "",
+          metric: p.metric,
+          local_date: p.local_date,
+          result,
+        },
+      });
+    } catch (e: any) {
+      console.error(
+        `[H2H] Rematch result push failed for ${p.user_id} (${p.id}):`,
+        e?.message ?? e,
+      );
+    }
+  }
+}
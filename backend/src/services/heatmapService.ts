@@ -0,0 +1,327 @@
+import sharp from "sharp";
+import { PostgresService } from "./DbService.js";
+import { BadRequestError } from "../errors/Errors.js";
+import { logError } from "./errorLogService.js";
+import type { LatLng } from "./geo.js";
+import {
+  listPrivacyZones,
+  splitRouteOutsideZones,
+} from "./privacyZoneService.js";
+
+/**
+ * The personal route heatmap, served as slippy-map tiles.
+ *
+ * `getUserRoutes` hands the client every trace at once — several MB of JSON
+ * for a daily runner, and nothing a map can draw as a layer. This renders the
+ * same routes server-side into 256px web-mercator PNG tiles: each pixel counts
+ * how many routes cross it, and the colour ramps from brand burgundy (once) to
+ * near-white (your daily loop) on a log scale, so a street run twice still
+ * shows next to one run a thousand times.
+ *
+ * Tiles are rendered on first request and cached in `heatmap_tiles`. Any change
+ * to the user's routes — an upload carrying a trace, a deleted workout — drops
+ * their whole cache (`invalidateHeatmap`); the next view re-renders only the
+ * tiles it actually looks at. A tile rendered in the instant between an upload
+ * committing and its invalidation can outlive it until the next change; the
+ * `version` in `getHeatmapInfo` is what clients key their own cache on, and it
+ * is always current.
+ *
+ * Privacy zones are cut out of the tiles even though only the owner sees
+ * them — the heatmap is the map people screenshot and share.
+ */
+
+const db = PostgresService.getInstance();
+
+export const HEATMAP_MIN_ZOOM = 10;
+export const HEATMAP_MAX_ZOOM = 16;
+
+const TILE_SIZE = 256;
+/** Per-tile ceiling on routes drawn — a decade of daily loops, and then some. */
+const MAX_TILE_ROUTES = 5000;
+/** A line longer than this many pixels is a GPS jump, not a street. */
+const MAX_LINE_PIXELS = 4096;
+/** From this zoom on, lines are drawn 2px wide so single runs stay visible. */
+const WIDE_LINE_ZOOM = 14;
+
+const LOW_COLOR = [199, 37, 84];
+const HIGH_COLOR = [255, 214, 226];
+
+// Users whose pre-existing routes have had their bounding boxes filled in by
+// this process. Routes written since the bbox columns existed always carry
+// one; this covers the history from before, once per user, instead of one
+// boot-time migration over every route in the table.
+const boundedUsers = new Set<string>();
+
+async function ensureRouteBounds(userId: string): Promise<void> {
+  if (boundedUsers.has(userId)) return;
+  await db.query(
+    `UPDATE workout_routes wr
+		    SET min_lat = b.min_lat, max_lat = b.max_lat,
+		        min_lng = b.min_lng, max_lng = b.max_lng
+		   FROM (
+		     SELECT r.workout_id,
+		            MIN((p->>0)::float) AS min_lat, MAX((p->>0)::float) AS max_lat,
+		            MIN((p->>1)::float) AS min_lng, MAX((p->>1)::float) AS max_lng
+		       FROM workout_routes r
+		       JOIN workouts w ON w.workout_id = r.workout_id
+		       CROSS JOIN LATERAL jsonb_array_elements(r.route) p
+		      WHERE w.user_id = $1 AND r.min_lat IS NULL
+		      GROUP BY r.workout_id
+		   ) b
+		  WHERE wr.workout_id = b.workout_id`,
+    [userId],
+  );
+  boundedUsers.add(userId);
+}
+
+// Routes that belong on the map: live, not speed-excluded (a car trip is not
+// somewhere you ran), with a bounding box. Owner is $1.
+const HEATMAP_ROUTES_FROM = `FROM workout_routes wr
+	JOIN workouts w ON w.workout_id = wr.workout_id
+	WHERE w.user_id = $1
+	  AND w.deleted_at IS NULL
+	  AND w.exclusion_reason IS NULL
+	  AND wr.min_lat IS NOT NULL`;
+
+export interface HeatmapInfo {
+  min_zoom: number;
+  max_zoom: number;
+  route_count: number;
+  /** `[[south, west], [north, east]]`, or null with no routes. */
+  bounds: [[number, number], [number, number]] | null;
+  /**
+   * Changes whenever the set of routes or privacy zones does — append it to
+   * tile URLs.
+   */
+  version: string;
+}
+
+/** What a client needs to lay the heatmap out before fetching any tile. */
+export async function getHeatmapInfo(userId: string): Promise<HeatmapInfo> {
+  await ensureRouteBounds(userId);
+  const [row] = await db.query<{
+    route_count: number;
+    south: number | null;
+    west: number | null;
+    north: number | null;
+    east: number | null;
+    version: string | null;
+  }>(
+    `SELECT COUNT(*)::int AS route_count,
+	        MIN(wr.min_lat) AS south, MIN(wr.min_lng) AS west,
+	        MAX(wr.max_lat) AS north, MAX(wr.max_lng) AS east,
+	        left(md5(
+	          string_agg(wr.workout_id || '@' || wr.updated_at::text, ','
+	            ORDER BY wr.workout_id)
+	          || '|' || COALESCE((
+	            SELECT string_agg(pz.id::text || '@' || pz.radius_meters, ','
+	              ORDER BY pz.id)
+	              FROM privacy_zones pz WHERE pz.user_id = $1), '')
+	        ), 12) AS version
+	   ${HEATMAP_ROUTES_FROM}`,
+    [userId],
+  );
+  return {
+    min_zoom: HEATMAP_MIN_ZOOM,
+    max_zoom: HEATMAP_MAX_ZOOM,
+    route_count: row.route_count,
+    bounds:
+      row.route_count > 0
+        ? [
+            [row.south!, row.west!],
+            [row.north!, row.east!],
+          ]
+        : null,
+    version: row.version ?? "empty",
+  };
+}
+
+/** World-pixel coordinates of a point at zoom `z` (web mercator). */
+function project(lat: number, lng: number, z: number): [number, number] {
+  const scale = TILE_SIZE * 2 ** z;
+  const sin = Math.sin((lat * Math.PI) / 180);
+  return [
+    ((lng + 180) / 360) * scale,
+    (0.5 - Math.log((1 + sin) / (1 - sin)) / (4 * Math.PI)) * scale,
+  ];
+}
+
+/** The lat/lng box a tile covers. */
+function tileBounds(z: number, x: number, y: number) {
+  const n = 2 ** z;
+  const lat = (row: number) =>
+    (Math.atan(Math.sinh(Math.PI * (1 - (2 * row) / n))) * 180) / Math.PI;
+  return {
+    minLng: (x / n) * 360 - 180,
+    maxLng: ((x + 1) / n) * 360 - 180,
+    maxLat: lat(y),
+    minLat: lat(y + 1),
+  };
+}
+
+/**
+ * Rasterize routes into one tile. Each route — given as the pieces left once
+ * privacy zones are cut out — adds at most 1 to a pixel, so a loop doubling
+ * back on itself doesn't read as two runs. Null when nothing lands on the tile.
+ */
+async function renderTile(
+  routes: LatLng[][][],
+  z: number,
+  x: number,
+  y: number,
+): Promise<Buffer | null> {
+  const counts = new Uint32Array(TILE_SIZE * TILE_SIZE);
+  const stamp = new Int32Array(TILE_SIZE * TILE_SIZE).fill(-1);
+  const wide = z >= WIDE_LINE_ZOOM;
+  const originX = x * TILE_SIZE;
+  const originY = y * TILE_SIZE;
+  let max = 0;
+
+  const plot = (px: number, py: number, route: number) => {
+    if (px < 0 || py < 0 || px >= TILE_SIZE || py >= TILE_SIZE) return;
+    const i = py * TILE_SIZE + px;
+    if (stamp[i] === route) return;
+    stamp[i] = route;
+    counts[i]++;
+    if (counts[i] > max) max = counts[i];
+  };
+
+  const drawPiece = (piece: LatLng[], r: number) => {
+    let prev: [number, number] | null = null;
+    for (const [lat, lng] of piece) {
+      const [wx, wy] = project(lat, lng, z);
+      const point: [number, number] = [wx - originX, wy - originY];
+      if (prev) {
+        const dx = point[0] - prev[0];
+        const dy = point[1] - prev[1];
+        const steps = Math.ceil(Math.max(Math.abs(dx), Math.abs(dy)));
+        // Both ends off the same side of the tile: nothing to draw here.
+        const offTile =
+          Math.max(point[0], prev[0]) < -1 ||
+          Math.max(point[1], prev[1]) < -1 ||
+          Math.min(point[0], prev[0]) > TILE_SIZE ||
+          Math.min(point[1], prev[1]) > TILE_SIZE;
+        if (!offTile && steps <= MAX_LINE_PIXELS) {
+          for (let s = 0; s <= steps; s++) {
+            const t = steps === 0 ? 0 : s / steps;
+            const px = Math.floor(prev[0] + dx * t);
+            const py = Math.floor(prev[1] + dy * t);
+            plot(px, py, r);
+            if (wide) {
+              plot(px + 1, py, r);
+              plot(px, py + 1, r);
+            }
+          }
+        }
+      }
+      prev = point;
+    }
+  };
+  routes.forEach((pieces, r) => pieces.forEach((p) => drawPiece(p, r)));
+  if (max === 0) return null;
+
+  const rgba = Buffer.alloc(TILE_SIZE * TILE_SIZE * 4);
+  const logMax = Math.log(max);
+  for (let i = 0; i < counts.length; i++) {
+    if (counts[i] === 0) continue;
+    const t = max === 1 ? 0 : Math.log(counts[i]) / logMax;
+    for (let c = 0; c < 3; c++) {
+      rgba[i * 4 + c] = Math.round(
+        LOW_COLOR[c] + (HIGH_COLOR[c] - LOW_COLOR[c]) * t,
+      );
+    }
+    rgba[i * 4 + 3] = Math.round(140 + 115 * t);
+  }
+  return sharp(rgba, {
+    raw: { width: TILE_SIZE, height: TILE_SIZE, channels: 4 },
+  })
+    .png()
+    .toBuffer();
+}
+
+/**
+ * One heatmap tile as PNG bytes, or null for a tile with nothing on it.
+ * Served from the cache when present; rendered and cached otherwise.
+ */
+export async function getHeatmapTile(
+  userId: string,
+  z: number,
+  x: number,
+  y: number,
+): Promise<Buffer | null> {
+  const n = 2 ** z;
+  if (
+    !Number.isInteger(z) ||
+    z < HEATMAP_MIN_ZOOM ||
+    z > HEATMAP_MAX_ZOOM ||
+    !Number.isInteger(x) ||
+    !Number.isInteger(y) ||
+    x < 0 ||
+    y < 0 ||
+    x >= n ||
+    y >= n
+  ) {
+    throw new BadRequestError("invalid_tile");
+  }
+
+  const cached = await db.query<{ png: Buffer | null }>(
+    `SELECT png FROM heatmap_tiles
+	  WHERE user_id = $1 AND z = $2 AND x = $3 AND y = $4`,
+    [userId, z, x, y],
+  );
+  if (cached.length > 0) return cached[0].png;
+
+  await ensureRouteBounds(userId);
+  // Pad the box by a couple of pixels' worth so a wide line drawn just off
+  // the edge of a neighbouring tile still lands here.
+  const box = tileBounds(z, x, y);
+  const padLat = ((box.maxLat - box.minLat) * 2) / TILE_SIZE;
+  const padLng = ((box.maxLng - box.minLng) * 2) / TILE_SIZE;
+  const rows = await db.query<{ route: LatLng[] }>(
+    `SELECT wr.route
+	   ${HEATMAP_ROUTES_FROM}
+	    AND wr.max_lat >= $2 AND wr.min_lat <= $3
+	    AND wr.max_lng >= $4 AND wr.min_lng <= $5
+	  ORDER BY w.device_end_date DESC
+	  LIMIT ${MAX_TILE_ROUTES}`,
+    [
+      userId,
+      box.minLat - padLat,
+      box.maxLat + padLat,
+      box.minLng - padLng,
+      box.maxLng + padLng,
+    ],
+  );
+  const zones = await listPrivacyZones(userId);
+  const png = await renderTile(
+    rows
+      .map((r) => r.route)
+      .filter((r) => Array.isArray(r) && r.length >= 2)
+      .map((r) => splitRouteOutsideZones(r, zones)),
+    z,
+    x,
+    y,
+  );
+
+  await db.query(
+    `INSERT INTO heatmap_tiles (user_id, z, x, y, png)
+	 VALUES ($1, $2, $3, $4, $5)
+	 ON CONFLICT (user_id, z, x, y) DO NOTHING`,
+    [userId, z, x, y, png],
+  );
+  return png;
+}
+
+/**
+ * Drop every cached tile for the user. Called whenever their set of routes
+ * or their privacy zones change. Never throws — a stale heatmap must not fail an upload or a delete.
+ */
+export async function invalidateHeatmap(userId: string): Promise<void> {
+  try {
+    await db.query(`DELETE FROM heatmap_tiles WHERE user_id = $1`, [userId]);
+  } catch (error: any) {
+    logError("db", `invalidateHeatmap: ${error?.message ?? String(error)}`, {
+      userId,
+    });
+  }
+}
@@ -1,5 +1,13 @@
 import { PostgresService } from "./DbService.js";
+import { notShadowBannedSql } from "./accountRestrictionService.js";
 import { MIN_PLAUSIBLE_MILE_SECONDS } from "./mileTime.js";
+import {
+  dailyGoalLabel,
+  goalOnDateSql,
+  qualifyingDaysSql,
+} from "./dailyGoalService.js";
+import { localTodaySql } from "./dailyResetTime.js";
+import type { DailyGoalType } from "../types/dailyGoals.js";
 import {
   coverageActiveFor,
   computeCoveredStreak,
@@ -29,6 +37,12 @@ export interface LeaderboardEntry {
   /** Fastest mile pace (seconds/mi) within the same window; null if none. */
   period_best_pace: number | null;
   is_current_user: boolean;
+  /**
+   * Streak board only: the daily goal the streak is being kept against today,
+   * so a run of 8,000-step days never reads as a run of miles.
+   */
+  goal_type?: DailyGoalType;
+  goal_label?: string;
 }
 
 export interface LeaderboardPage {
@@ -91,12 +105,14 @@ function periodStartDate(period: LeaderboardPeriod): string | null {
 
 /**
  * The user IDs eligible for ranking — viewer's accepted friends plus the
- * viewer themselves so they always see their own rank in the list.
+ * viewer themselves so they always see their own rank in the list. Shadow-banned
+ * friends are left out; a shadow-banned viewer still ranks themselves.
  */
 async function rankingUserIds(userId: string): Promise<string[]> {
   const rows = await db.query(
     `SELECT friend_id FROM friendships
-		 WHERE user_id = $1 AND status = 'accepted'`,
+		 WHERE user_id = $1 AND status = 'accepted'
+			 AND ${notShadowBannedSql("friend_id", "$1")}`,
     [userId],
   );
   const ids = rows.map((r: any) => r.friend_id as string);
@@ -133,6 +149,8 @@ async function getStreakLeaderboard(
 			u.last_name,
 			u.profile_image_url,
 			u.current_streak::int AS value,
+			sg.goal_type AS goal_type,
+			sg.target::float AS goal_target,
 			COALESCE((
 				SELECT SUM(w.distance)::float
 				FROM workouts w
@@ -149,6 +167,7 @@ async function getStreakLeaderboard(
 			) AS period_best_pace,
 			RANK() OVER (ORDER BY u.current_streak DESC)::int AS rank
 		FROM users u
+		LEFT JOIN LATERAL ${goalOnDateSql("u.user_id", localTodaySql("u.user_id"))} sg ON TRUE
 		WHERE u.current_streak > 0
 		  AND u.user_id = ANY($1::text[])
 		ORDER BY u.current_streak DESC, u.user_id ASC
@@ -168,6 +187,7 @@ async function getStreakLeaderboard(
     period_best_pace:
       r.period_best_pace != null ? Number(r.period_best_pace) : null,
     is_current_user: r.user_id === userId,
+    ...streakGoalFields(r),
   }));
 
   const current_user_entry = await getCurrentUserStreakEntry(
@@ -201,6 +221,8 @@ async function getCurrentUserStreakEntry(
 			u.last_name,
 			u.profile_image_url,
 			u.current_streak::int AS value,
+			sg.goal_type AS goal_type,
+			sg.target::float AS goal_target,
 			COALESCE((
 				SELECT SUM(w.distance)::float
 				FROM workouts w
@@ -221,6 +243,7 @@ async function getCurrentUserStreakEntry(
 				  AND u2.user_id = ANY($2::text[])
 			) + 1 AS rank
 		FROM users u
+		LEFT JOIN LATERAL ${goalOnDateSql("u.user_id", localTodaySql("u.user_id"))} sg ON TRUE
 		WHERE u.user_id = $1
 		`,
     [userId, ids],
@@ -240,9 +263,20 @@ async function getCurrentUserStreakEntry(
     period_best_pace:
       row.period_best_pace != null ? Number(row.period_best_pace) : null,
     is_current_user: true,
+    ...streakGoalFields(row),
   };
 }
 
+/** Today's goal off a streak row's `sg` lateral; no row is the default mile. */
+function streakGoalFields(row: {
+  goal_type: DailyGoalType | null;
+  goal_target: number | null;
+}): Pick<LeaderboardEntry, "goal_type" | "goal_label"> {
+  const goalType = row.goal_type ?? "distance";
+  const target = row.goal_target != null ? Number(row.goal_target) : 1;
+  return { goal_type: goalType, goal_label: dailyGoalLabel(goalType, target) };
+}
+
 /**
  * Miles leaderboard aggregates workouts on the fly across the viewer's
  * friend group. Index `idx_workouts_local_date_user_id` keeps period-windowed
@@ -665,8 +699,9 @@ async function getCurrentUserPaceEntry(
  * Recompute a single user's current streak and write it to users.current_streak.
  * Called by the workout upload pipeline so the streak leaderboard stays fresh
  * without a cron job. Mirrors the qualifying-day rule from getActiveStreak:
- * a day qualifies when SUM(distance) >= 0.95 mi, counting consecutive
- * qualifying days back from today (or yesterday if today has no workouts yet).
+ * a day qualifies when it met the daily goal in force on it
+ * (`qualifyingDaysSql`), counting consecutive qualifying days back from today
+ * (or yesterday if today isn't done yet).
  */
 export async function refreshCurrentStreak(userId: string): Promise<number> {
   const todayRow = await db.query(
@@ -708,13 +743,9 @@ export async function refreshCurrentStreak(userId: string): Promise<number> {
 
   const days = await db.query(
     `
-		SELECT to_char(local_date, 'YYYY-MM-DD') AS local_date
-		FROM workouts
-		WHERE user_id = $1
-		AND deleted_at IS NULL AND exclusion_reason IS NULL
-		GROUP BY local_date
-		HAVING SUM(distance) >= 0.95
-		ORDER BY local_date DESC
+		SELECT to_char(q.local_date, 'YYYY-MM-DD') AS local_date
+		FROM (${qualifyingDaysSql("$1")}) q
+		ORDER BY q.local_date DESC
 		LIMIT 500
 		`,
     [userId],
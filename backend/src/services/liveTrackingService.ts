@@ -1,8 +1,17 @@
 import { PostgresService } from "./DbService.js";
 import { mileHypeKeyMatchSql } from "./hypeService.js";
 import { getUserLocalToday } from "./workoutService.js";
+import { goalMilesSql } from "./dailyGoalService.js";
+import { localTodaySql } from "./dailyResetTime.js";
 import { buddySessionsEnabled } from "./buddyFeatures.js";
 import { BUDDY_MAX_PARTICIPANTS } from "../types/buddy.js";
+import {
+  connectedAmong,
+  connectedUserIds,
+  hasSubscribers,
+  publish,
+} from "./realtimeService.js";
+import { logError } from "./errorLogService.js";
 
 const db = PostgresService.getInstance();
 
@@ -13,8 +22,11 @@ const db = PostgresService.getInstance();
  * three missed 45s client heartbeats — long enough to ride out a flaky
  * cell moment mid-walk, short enough that a force-quit disappears fast.
  *
- * Delivery is PULL-ONLY (heartbeat responses). No push types, no
- * client_features: old builds simply never call these endpoints.
+ * Delivery is PULL-FIRST (heartbeat responses). No push types, no
+ * client_features: old builds simply never call these endpoints. Clients with
+ * GET /realtime/stream open also get presence and mile hypes as they happen
+ * (see "Realtime" below); the heartbeat stays authoritative and is still the
+ * fallback whenever the stream is down.
  */
 export const LIVE_PRESENCE_WINDOW_SECONDS = 150;
 
@@ -114,6 +126,7 @@ export async function startSession(
        to_char(started_at AT TIME ZONE 'UTC', ${ISO_TS}) AS started_at`,
     [userId, cleanWorkoutType(workoutType)],
   );
+  void publishLivePresence(userId);
   return rows[0];
 }
 
@@ -147,6 +160,7 @@ export async function heartbeat(
     [userId, sessionId, reported],
   );
   if (bumped.length === 0) return null;
+  void publishLivePresence(userId);
   // timestamptz comes back as a JS Date (house rule) — passed straight back
   // in as a parameter below, never string-manipulated.
   const startedAt = bumped[0].started_at;
@@ -157,7 +171,7 @@ export async function heartbeat(
               u.profile_image_url, s.workout_type,
               to_char(s.started_at AT TIME ZONE 'UTC', ${ISO_TS}) AS started_at,
               s.distance_miles,
-              u.goal_miles::float AS goal_miles,
+              ${goalMilesSql("u.user_id", localTodaySql("u.user_id"))}::float AS goal_miles,
               to_char(
                 (NOW() + (COALESCE(
                   (SELECT w2.timezone_offset FROM workouts w2
@@ -275,7 +289,7 @@ export async function friendsOutNow(userId: string): Promise<FriendOutNow[]> {
             s.distance_miles,
             -- THEIR goal, not the viewer's. A friend on a 2-mile goal rendered
             -- against a 1-mile bar reads as finished when they're halfway.
-            u.goal_miles::float AS goal_miles,
+            ${goalMilesSql("u.user_id", localTodaySql("u.user_id"))}::float AS goal_miles,
             to_char(
               (NOW() + (COALESCE(
                 (SELECT w2.timezone_offset FROM workouts w2
@@ -316,9 +330,112 @@ export async function endSession(
   userId: string,
   sessionId: string,
 ): Promise<void> {
-  await db.query(
+  const ended = await db.query(
     `UPDATE live_tracking_sessions SET ended_at = NOW(), last_seen_at = NOW()
-     WHERE user_id = $1 AND session_id = $2 AND ended_at IS NULL`,
+     WHERE user_id = $1 AND session_id = $2 AND ended_at IS NULL
+     RETURNING user_id`,
     [userId, sessionId],
   );
+  if (ended.length > 0) void publishLiveEnded(userId);
+}
+
+// ─── Realtime ──────────────────────────────────────────────────────────────
+
+/**
+ * Connected friends allowed to see `userId` out: accepted, unblocked in either
+ * direction, and only while the actor shares live presence. The same gates the
+ * heartbeat and friendsOutNow apply, evaluated from the actor's side.
+ */
+async function liveAudience(userId: string): Promise<string[]> {
+  const connected = connectedUserIds();
+  if (connected.length === 0) return [];
+  const rows = await db.query<{ user_id: string }>(
+    `SELECT f.friend_id AS user_id
+       FROM friendships f
+       LEFT JOIN notification_settings ns ON ns.user_id = f.user_id
+      WHERE f.user_id = $1
+        AND f.status = 'accepted'
+        AND f.friend_id = ANY($2::text[])
+        AND COALESCE(ns.share_live_presence, TRUE) = TRUE
+        AND NOT EXISTS (
+          SELECT 1 FROM user_blocks b
+           WHERE (b.blocker_id = $1 AND b.blocked_id = f.friend_id)
+              OR (b.blocker_id = f.friend_id AND b.blocked_id = $1)
+        )`,
+    [userId, connected],
+  );
+  return rows.map((r) => r.user_id);
+}
+
+/** Push the actor's current LiveFriend row to friends with a stream open. */
+async function publishLivePresence(userId: string): Promise<void> {
+  if (!hasSubscribers()) return;
+  try {
+    const audience = await liveAudience(userId);
+    if (audience.length === 0) return;
+    const rows = await db.query<LiveFriend>(
+      `SELECT u.user_id, u.username, u.first_name, u.last_name,
+              u.profile_image_url, s.workout_type,
+              to_char(s.started_at AT TIME ZONE 'UTC', ${ISO_TS}) AS started_at,
+              s.distance_miles,
+              ${goalMilesSql("u.user_id", localTodaySql("u.user_id"))}::float AS goal_miles,
+              to_char(
+                (NOW() + (COALESCE(
+                  (SELECT w2.timezone_offset FROM workouts w2
+                   WHERE w2.user_id = u.user_id
+                   ORDER BY w2.device_end_date DESC LIMIT 1),
+                  0
+                ) || ' minutes')::interval)::date,
+                'YYYY-MM-DD'
+              ) AS local_date
+         FROM live_tracking_sessions s
+         JOIN users u ON u.user_id = s.user_id
+        WHERE s.user_id = $1 AND s.ended_at IS NULL`,
+      [userId],
+    );
+    if (rows.length === 0) return;
+    publish(audience, "live.friend", rows[0]);
+  } catch (err) {
+    void logError("realtime", "failed to stream live presence", {
+      context: { userId, error: String(err) },
+    });
+  }
+}
+
+async function publishLiveEnded(userId: string): Promise<void> {
+  if (!hasSubscribers()) return;
+  try {
+    publish(await liveAudience(userId), "live.friend_ended", {
+      user_id: userId,
+    });
+  } catch (err) {
+    void logError("realtime", "failed to stream live session end", {
+      context: { userId, error: String(err) },
+    });
+  }
+}
+
+/**
+ * Deliver a just-logged mile hype to its target's open streams, but only while
+ * they're actually out — the same "since this session started" rule the
+ * heartbeat applies. Anything else keeps arriving via push/inbox.
+ */
+export async function publishLiveHype(hypeId: string): Promise<void> {
+  if (!hasSubscribers()) return;
+  const rows = await db.query<LiveHype & { target_id: string }>(
+    `SELECT h.id, h.sender_id, h.target_id, u.username, u.first_name,
+            u.last_name, u.profile_image_url, h.context_label,
+            to_char(h.created_at AT TIME ZONE 'UTC', ${ISO_TS}) AS created_at
+       FROM hype_log h
+       JOIN users u ON u.user_id = h.sender_id
+       JOIN live_tracking_sessions s
+         ON s.user_id = h.target_id
+        AND s.ended_at IS NULL
+        AND h.created_at >= s.started_at
+      WHERE h.id = $1 AND h.context_type = 'mile'`,
+    [hypeId],
+  );
+  if (rows.length === 0) return;
+  const { target_id, ...hype } = rows[0];
+  publish(connectedAmong([target_id]), "live.hype", hype);
 }
@@ -0,0 +1,94 @@
+import { PostgresService } from './DbService.js';
+import { generateMagicLinkToken, hashMagicLinkToken } from './tokenService.js';
+import { normalizeWaitlistEmail } from './waitlistService.js';
+import { isMailConfigured, sendMail } from './mailerService.js';
+import { BadRequestError, InvalidCredentialError, MailUnavailableError } from '../errors/Errors.js';
+import { MagicLinkPurpose, VerifiedIdentity } from '../types/auth.js';
+
+const db = PostgresService.getInstance();
+
+const MAGIC_LINK_TTL_MINUTES = 15;
+// Per address, per rolling hour. Past the cap a request quietly sends nothing:
+// the endpoint answers the same either way so it can't be used to probe or to
+// flood someone's inbox.
+const MAX_LINKS_PER_HOUR = 5;
+// Per requesting IP, per rolling hour, across every address: the per-address
+// cap alone lets one client mail a different inbox on every request.
+const MAX_LINKS_PER_IP_PER_HOUR = 20;
+// The app claims this path as a universal / app link and posts the token back.
+const MAGIC_LINK_URL = process.env.MAGIC_LINK_URL ?? 'https://mileaday.run/auth/email';
+
+/**
+ * Email a single-use link. 'sign_in' links sign in (or sign up) whoever opens
+ * them; 'link' links are bound to `userId` and attach the address to that
+ * account. Only the token's hash is stored.
+ */
+export async function requestMagicLink(
+	rawEmail: unknown,
+	{ purpose, userId = null, ipAddress }: { purpose: MagicLinkPurpose; userId?: string | null; ipAddress?: string }
+): Promise<void> {
+	const email = normalizeWaitlistEmail(rawEmail);
+	if (!email) {
+		throw new BadRequestError('invalid_email');
+	}
+	// Refuse before a token exists rather than mint one nothing can deliver.
+	if (!isMailConfigured()) {
+		throw new MailUnavailableError();
+	}
+
+	const [{ recent, recent_from_ip }] = await db.query<{ recent: number; recent_from_ip: number }>(
+		`SELECT COUNT(*) FILTER (WHERE email = $1)::int AS recent,
+		        COUNT(*) FILTER (WHERE ip_address = $2::inet)::int AS recent_from_ip
+		 FROM magic_link_tokens
+		 WHERE (email = $1 OR ip_address = $2::inet)
+		   AND created_at > NOW() - INTERVAL '1 hour'`,
+		[email, ipAddress ?? null]
+	);
+	if (recent >= MAX_LINKS_PER_HOUR || recent_from_ip >= MAX_LINKS_PER_IP_PER_HOUR) return;
+
+	const token = generateMagicLinkToken();
+	await db.query(
+		`INSERT INTO magic_link_tokens (token_hash, email, purpose, user_id, expires_at, ip_address)
+		 VALUES ($1, $2, $3, $4, NOW() + make_interval(mins => $5), $6)`,
+		[hashMagicLinkToken(token), email, purpose, userId, MAGIC_LINK_TTL_MINUTES, ipAddress ?? null]
+	);
+
+	const url = `${MAGIC_LINK_URL}?token=${encodeURIComponent(token)}`;
+	const action = purpose === 'link' ? 'add this email to your Mile A Day account' : 'sign in to Mile A Day';
+	await sendMail({
+		to: email,
+		subject: purpose === 'link' ? 'Confirm your email for Mile A Day' : 'Your Mile A Day sign-in link',
+		text:
+			`Tap the link below to ${action}:\n\n${url}\n\n` +
+			`It expires in ${MAGIC_LINK_TTL_MINUTES} minutes and works once. ` +
+			`If you didn't ask for it, you can ignore this email.`
+	});
+}
+
+/**
+ * Spend a link and return the email identity it proves. The UPDATE is the
+ * single-use guard: of two concurrent presentations only one gets the row.
+ * A 'link' link is only accepted from the account that requested it.
+ */
+export async function consumeMagicLink(
+	token: string,
+	purpose: MagicLinkPurpose,
+	userId: string | null = null
+): Promise<VerifiedIdentity> {
+	const rows = await db.query<{ email: string }>(
+		`UPDATE magic_link_tokens SET consumed_at = NOW()
+		 WHERE token_hash = $1
+		   AND purpose = $2
+		   AND consumed_at IS NULL
+		   AND expires_at > NOW()
+		   AND ($3::text IS NULL OR user_id = $3)
+		 RETURNING email`,
+		[hashMagicLinkToken(token), purpose, userId]
+	);
+	if (!rows.length) {
+		throw new InvalidCredentialError('invalid_magic_link');
+	}
+
+	// Holding the link proves control of the address, so it is verified.
+	return { provider: 'email', subject: rows[0].email, email: rows[0].email, emailVerified: true };
+}
@@ -0,0 +1,84 @@
+import { promises as fsp } from "fs";
+import path from "path";
+import { MailUnavailableError } from "../errors/Errors.js";
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+/**
+ * Anything that can deliver an email. The server ships only the local
+ * development stand-ins below; a real provider is plugged in at boot with
+ * setMailer(), and without one sendMail refuses outside development.
+ */
+export interface Mailer {
+  readonly name: string;
+  send(message: MailMessage): Promise<void>;
+}
+
+/**
+ * Writes each message to MAIL_OUTBOX_DIR as a JSON file, newest last, so local
+ * development can open sign-in links without a mail provider.
+ */
+class OutboxMailer implements Mailer {
+  readonly name = "outbox";
+
+  constructor(private readonly dir: string) {}
+
+  async send(message: MailMessage): Promise<void> {
+    await fsp.mkdir(this.dir, { recursive: true });
+    const file = path.join(
+      this.dir,
+      `${new Date().toISOString().replace(/[:.]/g, "-")}-${message.to}.json`,
+    );
+    await fsp.writeFile(
+      file,
+      JSON.stringify({ ...message, sent_at: new Date().toISOString() }, null, 2),
+    );
+  }
+}
+
+/**
+ * Development without an outbox: print who the message went to, never its
+ * body — a sign-in email's body is a live credential.
+ */
+class ConsoleMailer implements Mailer {
+  readonly name = "console";
+
+  async send(message: MailMessage): Promise<void> {
+    console.log(
+      `[mail] to=${message.to} subject=${JSON.stringify(message.subject)} (body withheld; set MAIL_OUTBOX_DIR to read it)`,
+    );
+  }
+}
+
+/**
+ * The outbox and console stand-ins only in development. Anywhere else a
+ * message carrying a sign-in link must go through a real provider registered
+ * with setMailer(), or not at all.
+ */
+function defaultMailer(): Mailer | null {
+  if (process.env.NODE_ENV !== "development") return null;
+  const outbox = process.env.MAIL_OUTBOX_DIR;
+  return outbox ? new OutboxMailer(outbox) : new ConsoleMailer();
+}
+
+let mailer: Mailer | null = defaultMailer();
+
+/** Swap the delivery backend (a real provider at boot, or a fake in scripts). */
+export function setMailer(next: Mailer): void {
+  mailer = next;
+}
+
+/** Whether sendMail has anywhere to deliver; check before minting a credential. */
+export function isMailConfigured(): boolean {
+  return mailer !== null;
+}
+
+export async function sendMail(message: MailMessage): Promise<void> {
+  if (!mailer) throw new MailUnavailableError();
+  await mailer.send(message);
+}
@@ -17,6 +17,7 @@ import { Request, Response, NextFunction } from "express";
  */
 
 const POSTS_MEDIA_PREFIX = "/uploads/posts/";
+const EXPORTS_PREFIX = "/uploads/exports/";
 const WINDOW_SECONDS = 3 * 24 * 60 * 60;
 
 let warnedNoSecret = false;
@@ -93,37 +94,80 @@ export function signMediaUrlsDeep<T>(value: T): T {
 }
 
 /**
- * Express middleware mounted on /uploads/posts BEFORE the static handler.
- * Rejects requests without a valid, unexpired signature. If no secret is
- * configured the gate stays open (with a logged warning) rather than
- * bricking every photo.
+ * Sign an account-export archive path (dataExportService). Same HMAC as post
+ * media, but the expiry is the archive's own rather than a quantized window:
+ * the link should die with the file, and nothing caches it by url.
  */
-export function verifyPostsMediaAccess(
-  req: Request,
-  res: Response,
-  next: NextFunction,
-): void {
+export function signExportUrl(url: string, expiresAt: Date): string | null {
   const key = signingKey();
-  if (!key) return next();
+  if (!key || !url.startsWith(EXPORTS_PREFIX)) return null;
+  const pathname = stripMediaQuery(url);
+  const exp = Math.floor(expiresAt.getTime() / 1000);
+  return `${pathname}?e=${exp}&s=${hmacFor(pathname, exp, key)}`;
+}
 
-  const pathname = `${POSTS_MEDIA_PREFIX.replace(/\/$/, "")}${req.path}`;
+/**
+ * Check `?e=&s=` against the path under `prefix`. Sends the 403 itself and
+ * returns false on failure.
+ */
+function verifySignature(
+  prefix: string,
+  req: Request,
+  res: Response,
+  key: Buffer,
+): boolean {
+  const pathname = `${prefix.replace(/\/$/, "")}${req.path}`;
   const exp = parseInt(String(req.query.e ?? ""), 10);
   const sig = typeof req.query.s === "string" ? req.query.s : "";
 
   if (!Number.isFinite(exp) || !sig) {
     res.status(403).json({ error: "signed_url_required" });
-    return;
+    return false;
   }
   if (exp * 1000 < Date.now()) {
     res.status(403).json({ error: "signed_url_expired" });
-    return;
+    return false;
   }
   const expected = hmacFor(pathname, exp, key);
   const a = Buffer.from(sig);
   const b = Buffer.from(expected);
   if (a.length !== b.length || !crypto.timingSafeEqual(a, b)) {
     res.status(403).json({ error: "signed_url_invalid" });
+    return false;
+  }
+  return true;
+}
+
+/**
+ * Express middleware mounted on /uploads/posts BEFORE the static handler.
+ * Rejects requests without a valid, unexpired signature. If no secret is
+ * configured the gate stays open (with a logged warning) rather than
+ * bricking every photo.
+ */
+export function verifyPostsMediaAccess(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+): void {
+  const key = signingKey();
+  if (!key) return next();
+  if (verifySignature(POSTS_MEDIA_PREFIX, req, res, key)) next();
+}
+
+/**
+ * The same gate for /uploads/exports, except it fails CLOSED: an export is a
+ * whole account's history, not one photo, and with no secret there is no way
+ * to tell its owner from anyone else holding the path.
+ */
+export function verifyExportAccess(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+): void {
+  const key = signingKey();
+  if (!key) {
+    res.status(403).json({ error: "signed_url_required" });
     return;
   }
-  next();
+  if (verifySignature(EXPORTS_PREFIX, req, res, key)) next();
 }
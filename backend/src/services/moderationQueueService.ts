@@ -0,0 +1,571 @@
+import { randomUUID } from "node:crypto";
+import { PostgresService } from "./DbService.js";
+import { BadRequestError } from "../errors/Errors.js";
+import type { ReportReason } from "./moderationService.js";
+import { restoreDeletedPost } from "./adminService.js";
+import { revokeAllUserTokens } from "./refreshTokenService.js";
+import {
+  forgetSuspension,
+  restrictionStatements,
+} from "./accountRestrictionService.js";
+import { sendPush } from "./pushNotificationService.js";
+import type {
+  ContentReport,
+  ModerationAction,
+  ModerationActionRecord,
+  ModerationActionResult,
+  ModerationSnapshot,
+  ReportQueueItem,
+  ReportQueuePage,
+  ReportStatus,
+  ReportTargetContent,
+  ReportTargetDetail,
+  ReportTargetType,
+} from "../types/moderation.js";
+
+const db = PostgresService.getInstance();
+
+export const REPORT_TARGET_TYPES: ReportTargetType[] = ["post", "comment"];
+export const REPORT_STATUSES: ReportStatus[] = [
+  "open",
+  "resolved",
+  "dismissed",
+];
+export const MODERATION_ACTIONS: ModerationAction[] = [
+  "hide",
+  "restore",
+  "remove",
+  "warn",
+  "suspend",
+  "resolve",
+  "dismiss",
+  "approve",
+];
+
+const MAX_SUSPENSION_DAYS = 365;
+const NOTE_MAX_LENGTH = 500;
+const RECENT_DETAILS = 3;
+const HISTORY_LIMIT = 50;
+
+const UUID_RE =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+const ISO_TS = `'YYYY-MM-DD"T"HH24:MI:SS.MS"Z"'`;
+
+/** Each target type's report table and the column naming the target. */
+const REPORT_TABLES: Record<
+  ReportTargetType,
+  { table: string; column: string }
+> = {
+  post: { table: "post_reports", column: "post_id" },
+  comment: { table: "comment_reports", column: "comment_id" },
+};
+
+/**
+ * The reported content, joined onto a row source `g` that carries
+ * `target_type` and `target_id` (uuid). Shared by the queue and the detail
+ * view so both describe the content the same way.
+ */
+const CONTENT_COLUMNS = `COALESCE(p.user_id, c.user_id) AS author_id,
+		u.username AS author_username,
+		CASE WHEN g.target_type = 'post' THEN p.caption ELSE c.content END AS text,
+		p.media_url,
+		c.post_id::text AS parent_post_id,
+		c.workout_id AS parent_workout_id,
+		to_char(COALESCE(p.created_at, c.created_at) AT TIME ZONE 'UTC', ${ISO_TS}) AS content_created_at,
+		to_char(COALESCE(p.deleted_at, c.deleted_at) AT TIME ZONE 'UTC', ${ISO_TS}) AS hidden_at,
+		to_char(COALESCE(p.held_at, c.held_at) AT TIME ZONE 'UTC', ${ISO_TS}) AS held_at`;
+
+const CONTENT_JOINS = `LEFT JOIN posts p
+			ON g.target_type = 'post' AND p.post_id = g.target_id
+		LEFT JOIN post_comments c
+			ON g.target_type = 'comment' AND c.comment_id = g.target_id
+		LEFT JOIN users u ON u.user_id = COALESCE(p.user_id, c.user_id)`;
+
+const ACTION_COLUMNS = `a.id::text AS id, a.moderator_id, mu.username AS moderator_username,
+		a.action, a.target_type, a.target_id, a.subject_user_id,
+		su.username AS subject_username, a.note, a.reports_closed, a.snapshot,
+		to_char(a.created_at AT TIME ZONE 'UTC', ${ISO_TS}) AS created_at`;
+
+const ACTION_FROM = `FROM moderation_actions a
+	LEFT JOIN users mu ON mu.user_id = a.moderator_id
+	LEFT JOIN users su ON su.user_id = a.subject_user_id`;
+
+const ACTION_SELECT = `SELECT ${ACTION_COLUMNS} ${ACTION_FROM}`;
+
+type ContentRow = {
+  author_id: string | null;
+  author_username: string | null;
+  text: string | null;
+  media_url: string | null;
+  parent_post_id: string | null;
+  parent_workout_id: string | null;
+  content_created_at: string | null;
+  hidden_at: string | null;
+  held_at: string | null;
+};
+
+function toContent(row: ContentRow): ReportTargetContent | null {
+  if (!row.author_id || !row.content_created_at) return null;
+  return {
+    author_id: row.author_id,
+    author_username: row.author_username,
+    text: row.text,
+    media_url: row.media_url,
+    parent_post_id: row.parent_post_id,
+    parent_workout_id: row.parent_workout_id,
+    created_at: row.content_created_at,
+    hidden_at: row.hidden_at,
+    held_at: row.held_at,
+  };
+}
+
+function countReasons(
+  reasons: string[] | null,
+): Partial<Record<ReportReason, number>> {
+  const counts: Partial<Record<ReportReason, number>> = {};
+  for (const reason of reasons ?? []) {
+    const key = reason as ReportReason;
+    counts[key] = (counts[key] ?? 0) + 1;
+  }
+  return counts;
+}
+
+function validateTarget(targetType: unknown, targetId: unknown): void {
+  if (!REPORT_TARGET_TYPES.includes(targetType as ReportTargetType)) {
+    throw new BadRequestError("invalid_target_type");
+  }
+  if (typeof targetId !== "string" || !UUID_RE.test(targetId)) {
+    throw new BadRequestError("target_not_found");
+  }
+}
+
+function validateNote(note: unknown): string | null {
+  if (note === undefined || note === null || note === "") return null;
+  if (typeof note !== "string" || note.trim().length > NOTE_MAX_LENGTH) {
+    throw new BadRequestError("invalid_note");
+  }
+  return note.trim() || null;
+}
+
+/**
+ * Reported posts and comments, one item per target. Content screening is
+ * holding comes first — its author is waiting on a decision — then
+ * most-reported and oldest first: the content most people flagged, and the
+ * content that has waited longest, rise to the top.
+ *
+ * `status` filters the REPORTS, not the content: the open queue is every
+ * target with at least one open report, whatever state the content is in.
+ */
+export async function listReportQueue(opts: {
+  status?: ReportStatus;
+  targetType?: ReportTargetType | null;
+  limit: number;
+  offset: number;
+}): Promise<ReportQueuePage> {
+  const status = opts.status ?? "open";
+  if (!REPORT_STATUSES.includes(status)) {
+    throw new BadRequestError("invalid_status");
+  }
+  if (opts.targetType && !REPORT_TARGET_TYPES.includes(opts.targetType)) {
+    throw new BadRequestError("invalid_target_type");
+  }
+
+  const rows = await db.query<
+    ContentRow & {
+      target_type: ReportTargetType;
+      target_id: string;
+      report_count: number;
+      reasons: string[] | null;
+      recent_details: string[] | null;
+      first_reported_at: string;
+      last_reported_at: string;
+      total: number;
+    }
+  >(
+    `WITH r AS (
+			SELECT 'post'::text AS target_type, post_id AS target_id, reason, details, created_at
+			FROM post_reports WHERE status = $1
+			UNION ALL
+			SELECT 'comment'::text, comment_id, reason, details, created_at
+			FROM comment_reports WHERE status = $1
+		), g AS (
+			SELECT target_type, target_id,
+				COUNT(*)::int AS report_count,
+				array_agg(reason) AS reasons,
+				(array_agg(details ORDER BY created_at DESC)
+					FILTER (WHERE details IS NOT NULL))[1:${RECENT_DETAILS}] AS recent_details,
+				MIN(created_at) AS first_at,
+				MAX(created_at) AS last_at
+			FROM r
+			WHERE $2::text IS NULL OR target_type = $2
+			GROUP BY target_type, target_id
+		)
+		SELECT g.target_type, g.target_id::text AS target_id, g.report_count,
+			g.reasons, g.recent_details,
+			to_char(g.first_at AT TIME ZONE 'UTC', ${ISO_TS}) AS first_reported_at,
+			to_char(g.last_at AT TIME ZONE 'UTC', ${ISO_TS}) AS last_reported_at,
+			COUNT(*) OVER ()::int AS total,
+			${CONTENT_COLUMNS}
+		FROM g
+		${CONTENT_JOINS}
+		ORDER BY (COALESCE(p.held_at, c.held_at) IS NOT NULL) DESC,
+			g.report_count DESC, g.first_at ASC
+		LIMIT $3 OFFSET $4`,
+    [status, opts.targetType ?? null, opts.limit, opts.offset],
+  );
+
+  const items: ReportQueueItem[] = [];
+  for (const r of rows) {
+    const content = toContent(r);
+    if (!content) continue;
+    items.push({
+      target_type: r.target_type,
+      target_id: r.target_id,
+      report_count: r.report_count,
+      reason_counts: countReasons(r.reasons),
+      recent_details: r.recent_details ?? [],
+      first_reported_at: r.first_reported_at,
+      last_reported_at: r.last_reported_at,
+      content,
+    });
+  }
+  return { total: rows[0]?.total ?? 0, items };
+}
+
+async function loadContent(
+  targetType: ReportTargetType,
+  targetId: string,
+): Promise<ReportTargetContent | null> {
+  const rows = await db.query<ContentRow>(
+    `SELECT ${CONTENT_COLUMNS}
+		FROM (SELECT $1::text AS target_type, $2::uuid AS target_id) g
+		${CONTENT_JOINS}`,
+    [targetType, targetId],
+  );
+  return rows[0] ? toContent(rows[0]) : null;
+}
+
+async function openReasonCounts(
+  targetType: ReportTargetType,
+  targetId: string,
+): Promise<Partial<Record<ReportReason, number>>> {
+  const { table, column } = REPORT_TABLES[targetType];
+  const rows = await db.query<{ reasons: string[] | null }>(
+    `SELECT array_agg(reason) AS reasons FROM ${table}
+		WHERE ${column} = $1::uuid AND status = 'open'`,
+    [targetId],
+  );
+  return countReasons(rows[0]?.reasons ?? null);
+}
+
+/**
+ * Everything a moderator needs to decide on one target: every report in any
+ * status, the actions already taken on it, and the author's standing and
+ * record elsewhere.
+ */
+export async function getReportTarget(
+  targetType: ReportTargetType,
+  targetId: string,
+): Promise<ReportTargetDetail> {
+  validateTarget(targetType, targetId);
+  const content = await loadContent(targetType, targetId);
+  if (!content) throw new BadRequestError("target_not_found");
+
+  const { table, column } = REPORT_TABLES[targetType];
+  const [reports, actions, authorRows, history] = await Promise.all([
+    db.query<ContentReport>(
+      `SELECT r.id::text AS id, r.reporter_id, u.username AS reporter_username,
+				r.source, r.reason, r.details, r.status,
+				to_char(r.created_at AT TIME ZONE 'UTC', ${ISO_TS}) AS created_at,
+				r.resolved_by,
+				to_char(r.resolved_at AT TIME ZONE 'UTC', ${ISO_TS}) AS resolved_at
+			FROM ${table} r
+			LEFT JOIN users u ON u.user_id = r.reporter_id
+			WHERE r.${column} = $1::uuid
+			ORDER BY r.created_at DESC`,
+      [targetId],
+    ),
+    db.query<ModerationActionRecord>(
+      `${ACTION_SELECT}
+			WHERE a.target_type = $1 AND a.target_id = $2
+			ORDER BY a.created_at DESC`,
+      [targetType, targetId],
+    ),
+    db.query<{
+      suspended: boolean;
+      suspended_until: string | null;
+      suspension_reason: string | null;
+      warning_count: number;
+    }>(
+      `SELECT
+				(s.id IS NOT NULL) AS suspended,
+				to_char(s.expires_at AT TIME ZONE 'UTC', ${ISO_TS}) AS suspended_until,
+				s.reason AS suspension_reason,
+				(SELECT COUNT(*)::int FROM moderation_actions
+					WHERE subject_user_id = u.user_id AND action = 'warn') AS warning_count
+			FROM users u
+			LEFT JOIN user_restrictions s ON s.user_id = u.user_id
+				AND s.kind = 'suspension' AND s.lifted_at IS NULL
+				AND (s.expires_at IS NULL OR s.expires_at > NOW())
+			WHERE u.user_id = $1`,
+      [content.author_id],
+    ),
+    db.query<ModerationActionRecord>(
+      `${ACTION_SELECT}
+			WHERE a.subject_user_id = $1
+				AND NOT (a.target_type = $2 AND a.target_id = $3)
+			ORDER BY a.created_at DESC
+			LIMIT ${HISTORY_LIMIT}`,
+      [content.author_id, targetType, targetId],
+    ),
+  ]);
+
+  return {
+    target_type: targetType,
+    target_id: targetId,
+    content,
+    reports,
+    actions,
+    author: {
+      user_id: content.author_id,
+      username: content.author_username,
+      suspended: authorRows[0]?.suspended ?? false,
+      suspended_until: authorRows[0]?.suspended_until ?? null,
+      suspension_reason: authorRows[0]?.suspension_reason ?? null,
+      warning_count: authorRows[0]?.warning_count ?? 0,
+      history,
+    },
+  };
+}
+
+/**
+ * Take one moderator action on a reported post or comment and record it.
+ *
+ * - `hide` soft-deletes the content (a comment's replies with it) and resolves
+ *   its open reports. `restore` brings hidden content back, replies included;
+ *   a post goes through the same slot check as the support restore.
+ * - `remove` deletes the row outright. Its reports go with it; the audit row,
+ *   which has no foreign key to the content, keeps a snapshot of what it said.
+ * - `warn` sends the author a notification carrying the note.
+ * - `suspend` imposes a timed suspension on the author (replacing any current
+ *   one) and revokes every refresh token, signing them out on all devices.
+ * - `approve` releases content screening held for review and dismisses its
+ *   open reports — the screen was wrong, so none of them is upheld.
+ * - `resolve` / `dismiss` close the open reports without touching the content.
+ *
+ * Every action writes a `moderation_actions` row in the same transaction as
+ * its effect, counting the open reports it closed.
+ */
+export async function actOnReport(
+  moderatorId: string,
+  targetType: ReportTargetType,
+  targetId: string,
+  input: { action?: unknown; note?: unknown; suspend_days?: unknown },
+): Promise<ModerationActionResult> {
+  validateTarget(targetType, targetId);
+  const action = input.action as ModerationAction;
+  if (!MODERATION_ACTIONS.includes(action)) {
+    throw new BadRequestError("invalid_action");
+  }
+  const note = validateNote(input.note);
+
+  const content = await loadContent(targetType, targetId);
+  if (!content) throw new BadRequestError("target_not_found");
+
+  const snapshot: ModerationSnapshot = {
+    text: content.text,
+    media_url: content.media_url,
+    reason_counts: await openReasonCounts(targetType, targetId),
+  };
+
+  const { table, column } = REPORT_TABLES[targetType];
+  const contentTable = targetType === "post" ? "posts" : "post_comments";
+  const contentKey = targetType === "post" ? "post_id" : "comment_id";
+  const closeReports = (status: Exclude<ReportStatus, "open">) => ({
+    query: `UPDATE ${table}
+			SET status = $2, resolved_by = $3, resolved_at = NOW()
+			WHERE ${column} = $1::uuid AND status = 'open'`,
+    params: [targetId, status, moderatorId],
+  });
+  const effects: { query: string; params: unknown[] }[] = [];
+
+  switch (action) {
+    case "hide":
+      if (content.hidden_at) throw new BadRequestError("already_hidden");
+      effects.push({
+        query: `UPDATE ${contentTable} SET deleted_at = NOW()
+				WHERE ${contentKey} = $1::uuid AND deleted_at IS NULL`,
+        params: [targetId],
+      });
+      if (targetType === "comment") {
+        // NOW() is fixed for the transaction, so the replies share the
+        // parent's deleted_at — which is how restore tells them apart from
+        // replies their authors deleted earlier.
+        effects.push({
+          query: `UPDATE post_comments SET deleted_at = NOW()
+					WHERE parent_comment_id = $1::uuid AND deleted_at IS NULL`,
+          params: [targetId],
+        });
+      }
+      effects.push(closeReports("resolved"));
+      break;
+
+    case "approve":
+      if (!content.held_at) throw new BadRequestError("not_held");
+      effects.push({
+        query: `UPDATE ${contentTable} SET held_at = NULL
+				WHERE ${contentKey} = $1::uuid`,
+        params: [targetId],
+      });
+      effects.push(closeReports("dismissed"));
+      break;
+
+    case "restore":
+      if (!content.hidden_at) throw new BadRequestError("not_hidden");
+      if (targetType === "post") {
+        const result = await restoreDeletedPost(targetId);
+        if (result.status === "slot_taken") {
+          throw new BadRequestError("slot_taken");
+        }
+      } else {
+        effects.push({
+          query: `UPDATE post_comments SET deleted_at = NULL
+					WHERE (comment_id = $1::uuid OR parent_comment_id = $1::uuid)
+						AND deleted_at = (SELECT deleted_at FROM post_comments WHERE comment_id = $1::uuid)`,
+          params: [targetId],
+        });
+      }
+      break;
+
+    case "remove":
+      effects.push({
+        query: `DELETE FROM ${contentTable} WHERE ${contentKey} = $1::uuid`,
+        params: [targetId],
+      });
+      break;
+
+    case "warn":
+      break;
+
+    case "suspend": {
+      const days = Number(input.suspend_days);
+      if (!Number.isInteger(days) || days < 1 || days > MAX_SUSPENSION_DAYS) {
+        throw new BadRequestError("invalid_suspend_days");
+      }
+      const roles = await db.query<{ role: string | null }>(
+        `SELECT role FROM users WHERE user_id = $1`,
+        [content.author_id],
+      );
+      if (roles[0]?.role === "admin") {
+        throw new BadRequestError("cannot_suspend_admin");
+      }
+      const until = new Date(Date.now() + days * 86_400_000).toISOString();
+      snapshot.suspended_until = until;
+      effects.push(
+        ...restrictionStatements(
+          randomUUID(),
+          moderatorId,
+          content.author_id,
+          "suspension",
+          note ?? "Suspended from the report queue",
+          until,
+        ),
+      );
+      break;
+    }
+
+    case "resolve":
+    case "dismiss":
+      if (Object.keys(snapshot.reason_counts).length === 0) {
+        throw new BadRequestError("no_open_reports");
+      }
+      effects.push(
+        closeReports(action === "resolve" ? "resolved" : "dismissed"),
+      );
+      break;
+  }
+
+  // The audit row goes first so its subquery counts the open reports before
+  // the effects below close (or cascade-delete) them.
+  const actionId = randomUUID();
+  await db.transaction([
+    {
+      query: `INSERT INTO moderation_actions
+				(id, moderator_id, action, target_type, target_id, subject_user_id,
+					note, reports_closed, snapshot)
+				VALUES ($1::uuid, $2, $3, $4, $5, $6, $7,
+					CASE WHEN $3 IN ('hide', 'remove', 'resolve', 'dismiss', 'approve')
+						THEN (SELECT COUNT(*)::int FROM ${table}
+							WHERE ${column} = $5::uuid AND status = 'open')
+						ELSE 0 END,
+					$8::jsonb)`,
+      params: [
+        actionId,
+        moderatorId,
+        action,
+        targetType,
+        targetId,
+        content.author_id,
+        note,
+        JSON.stringify(snapshot),
+      ],
+    },
+    ...effects,
+  ]);
+
+  if (action === "suspend") {
+    forgetSuspension(content.author_id);
+    await revokeAllUserTokens(content.author_id, "suspended");
+  }
+  if (action === "warn") {
+    const what = targetType === "post" ? "post" : "comment";
+    sendPush(content.author_id, {
+      title: "A note from the Mile A Day team",
+      body:
+        note ??
+        `Your ${what} was reported and goes against our community guidelines. Repeated violations can lead to a suspension.`,
+      type: "moderation_warning",
+      data: { targetType, targetId },
+    }).catch((err) =>
+      console.error("[Moderation] Error sending warning:", err.message),
+    );
+  }
+
+  const [record] = await db.query<ModerationActionRecord>(
+    `${ACTION_SELECT} WHERE a.id = $1::uuid`,
+    [actionId],
+  );
+  return {
+    action: record,
+    content:
+      action === "remove" ? null : await loadContent(targetType, targetId),
+  };
+}
+
+/** The audit trail, newest first, optionally for one moderator or one author. */
+export async function listModerationLog(opts: {
+  moderatorId?: string | null;
+  subjectUserId?: string | null;
+  limit: number;
+  offset: number;
+}): Promise<{ total: number; actions: ModerationActionRecord[] }> {
+  const rows = await db.query<ModerationActionRecord & { total: number }>(
+    `SELECT ${ACTION_COLUMNS}, COUNT(*) OVER ()::int AS total
+		${ACTION_FROM}
+		WHERE ($1::text IS NULL OR a.moderator_id = $1)
+			AND ($2::text IS NULL OR a.subject_user_id = $2)
+		ORDER BY a.created_at DESC
+		LIMIT $3 OFFSET $4`,
+    [
+      opts.moderatorId ?? null,
+      opts.subjectUserId ?? null,
+      opts.limit,
+      opts.offset,
+    ],
+  );
+  return {
+    total: rows[0]?.total ?? 0,
+    actions: rows.map(({ total: _total, ...row }) => row),
+  };
+}
@@ -11,14 +11,27 @@ import {
   getCompetition,
   getCurrentInterval,
   getUserScores,
+  recordEliminationRounds,
 } from "./competitionService.js";
 import { Competition, CompetitionUser } from "../types/competitions.js";
+import {
+  DEFAULT_TIMEZONE,
+  localTodaySql,
+  todayInTimeZone,
+} from "./dailyResetTime.js";
 import {
   getTodayMiles,
   getTodayStats,
   getUserLocalDate,
-  DAILY_GOAL_TOLERANCE,
 } from "./workoutService.js";
+import {
+  getCurrentDailyGoal,
+  getDailyGoalOn,
+  getDailyGoalProgress,
+  qualifyingDaysSql,
+  streakNoun,
+} from "./dailyGoalService.js";
+import type { DailyGoal, DailyGoalProgress } from "../types/dailyGoals.js";
 import {
   resolveAudience,
   filterByIncomingAudience,
@@ -28,6 +41,7 @@ import {
   AudienceEventType,
 } from "./audienceSettingsService.js";
 import { getCloseFriendIds } from "./closeFriendsService.js";
+import { emitWebhookEvent } from "./webhookService.js";
 
 const db = PostgresService.getInstance();
 
@@ -47,6 +61,10 @@ function formatDuration(seconds: number): string {
   return `${m}:${pad(sec)}`;
 }
 
+function formatSteps(steps: number): string {
+  return `${Math.round(steps).toLocaleString("en-US")} steps`;
+}
+
 function formatPace(secondsPerMile: number): string {
   const s = Math.max(0, Math.round(secondsPerMile));
   const m = Math.floor(s / 60);
@@ -68,22 +86,32 @@ function formatPace(secondsPerMile: number): string {
 const MILE_COMPLETION_FALLBACK_BODY =
   "Your friend just completed their daily mile. Time to lace up!";
 
-/** Friend-facing "got their mile in" stat line, from the whole day's total. */
+/**
+ * Friend-facing "got their mile in" stat line, from the whole day's total. A
+ * step-goal day leads with its steps, so it can't be mistaken for a mile.
+ */
 async function buildMileCompletionBody(userId: string): Promise<string> {
   // If stats fail or are degenerate, fall back to the generic body so the
   // notification still goes out.
   try {
-    const stats = await getTodayStats(userId);
+    const [stats, progress] = await Promise.all([
+      getTodayStats(userId),
+      todayGoalProgress(userId),
+    ]);
+    const parts: string[] = [];
+    if (progress.goal.goal_type === "steps") {
+      parts.push(formatSteps(progress.steps));
+    }
     if (stats.miles > 0) {
-      const parts = [
+      parts.push(
         formatMiles(stats.miles),
         formatDuration(stats.durationSeconds),
-      ];
+      );
       if (stats.bestSplitPaceSecMi != null && stats.bestSplitPaceSecMi > 0) {
         parts.push(`best pace ${formatPace(stats.bestSplitPaceSecMi)}`);
       }
-      return parts.join(" · ");
     }
+    if (parts.length > 0) return parts.join(" · ");
   } catch (err: any) {
     console.error(
       "[Notifications] Error building mile completion stats body, using fallback:",
@@ -96,7 +124,13 @@ async function buildMileCompletionBody(userId: string): Promise<string> {
 /** The runner's OWN "Mile complete!" body, from the whole day's total. */
 async function buildGoalReachedSelfBody(userId: string): Promise<string> {
   try {
-    const stats = await getTodayStats(userId);
+    const [stats, progress] = await Promise.all([
+      getTodayStats(userId),
+      todayGoalProgress(userId),
+    ]);
+    if (progress.goal.goal_type === "steps") {
+      return `${formatSteps(progress.steps)} — your step streak is safe for today.`;
+    }
     if (stats.miles > 0) {
       return `${formatMiles(stats.miles)} · ${formatDuration(stats.durationSeconds)} — your streak is safe for today.`;
     }
@@ -106,6 +140,37 @@ async function buildGoalReachedSelfBody(userId: string): Promise<string> {
   return "Your daily goal is done — streak safe for today.";
 }
 
+async function todayGoalProgress(userId: string): Promise<DailyGoalProgress> {
+  return getDailyGoalProgress(userId, await getUserLocalDate(userId));
+}
+
+/**
+ * Push titles for a completed day. The one-mile goal keeps the app's original
+ * "Mile complete!" wording; any other goal says what was actually done.
+ */
+function goalCompleteTitles(
+  goal: DailyGoal,
+  username: string,
+): { self: string; friends: string } {
+  if (goal.goal_type === "distance" && goal.target === 1) {
+    return {
+      self: "Mile complete! 🔥",
+      friends: `${username} got their mile in!`,
+    };
+  }
+  if (goal.goal_type === "steps") {
+    return {
+      self: `${goal.label} done! 👟`,
+      friends: `${username} hit their step goal — ${goal.label}!`,
+    };
+  }
+  return {
+    self: `${goal.label} done! 🔥`,
+    friends: `${username} hit their ${goal.label} for today!`,
+  };
+}
+
+
 /**
  * Per-workout ('workout' / 'extra_workout') stat line: THIS workout's numbers
  * plus the day's running total. Best pace is the workout's own full-mile
@@ -213,7 +278,7 @@ export async function getFriendActivityRecipientPool(
 // ─── Workout Completion Notifications ──────────────────────────────
 
 /**
- * Notify friends when a user completes their mile for the day.
+ * Notify friends when a user completes their daily goal (the mile, by default).
  * Only sends once per day per user, and respects friend notification settings.
  * Caps at 5 friend notifications to avoid spam.
  */
@@ -238,6 +303,8 @@ export async function notifyFriendsOfMileCompletion(
       [userId],
     );
     if (!user) return false;
+    const goal = await getCurrentDailyGoal(userId);
+    const titles = goalCompleteTitles(goal, user.username);
 
     // The runner's local date — clients use it as the hype dedupe key. Without
     // it they fall back to the notification's UTC date, which is off-by-one for
@@ -253,7 +320,7 @@ export async function notifyFriendsOfMileCompletion(
     // telling the runner is not.
     try {
       await sendPush(userId, {
-        title: "Mile complete! 🔥",
+        title: titles.self,
         body: await buildGoalReachedSelfBody(userId),
         type: "goal_reached",
         data: { local_date: localDate },
@@ -292,16 +359,20 @@ export async function notifyFriendsOfMileCompletion(
     );
     if (outgoing === "none") return true;
 
-    const title = `${user.username} got their mile in!`;
-
     const body = await buildMileCompletionBody(userId);
 
     const payload = {
-      title,
+      title: titles.friends,
       body,
       type: "friend_activity" as const,
       category: "FRIEND_ACTIVITY",
-      data: { user_id: userId, kind: "mile_completed", local_date: localDate },
+      data: {
+        user_id: userId,
+        kind: "mile_completed",
+        local_date: localDate,
+        // Lets clients badge a step-goal day as steps rather than a mile.
+        goal_type: goal.goal_type,
+      },
     };
 
     // 'ask' — queue for the sender's explicit confirmation instead of sending.
@@ -575,9 +646,9 @@ export async function refreshWorkoutEditNotifications(
       [userId, workoutId, eventBody],
     );
 
-    // Same tolerance the sync path completes the day on.
-    const todayMiles = Number(await getTodayMiles(userId));
-    const dayComplete = todayMiles >= DAILY_GOAL_TOLERANCE;
+    // Same goal rule the sync path completes the day on.
+    const dayComplete = (await getDailyGoalProgress(userId, localDate))
+      .completed;
 
     if (!dayComplete) {
       await db.query(
@@ -813,13 +884,6 @@ async function checkMilestonesForCompetition(
  */
 export async function checkCompetitionsEndingSoon(): Promise<void> {
   try {
-    const formatter = new Intl.DateTimeFormat("en-CA", {
-      timeZone: "America/New_York",
-    });
-    const today = new Date();
-    const tomorrow = new Date(today.getTime() + 24 * 60 * 60 * 1000);
-    const tomorrowStr = formatter.format(tomorrow);
-
     const endingSoon = await db.query<Competition & { id: string }>(
       `SELECT c.*, COALESCE(
 				jsonb_agg(
@@ -833,12 +897,11 @@ export async function checkCompetitionsEndingSoon(): Promise<void> {
 			) as users
 			FROM competitions c
 			LEFT JOIN competition_users cu ON cu.competition_id = c.id
-			WHERE c.end_date = $1
+			WHERE c.end_date = (NOW() AT TIME ZONE c.timezone)::date + 1
 				AND c.winner IS NULL
 				AND c.start_date IS NOT NULL
 				AND c.start_date <= NOW()
 			GROUP BY c.id`,
-      [tomorrowStr],
     );
 
     for (const comp of endingSoon) {
@@ -886,35 +949,31 @@ export async function checkCompetitionsEndingSoon(): Promise<void> {
  */
 export async function checkStreaksBroken(): Promise<void> {
   try {
-    const formatter = new Intl.DateTimeFormat("en-CA", {
-      timeZone: "America/New_York",
-    });
-    const yesterday = new Date(Date.now() - 24 * 60 * 60 * 1000);
-    const yesterdayStr = formatter.format(yesterday);
-
+    // "Yesterday" is each user's own (localTodaySql), the same day the streak
+    // walks and the daily reminder read, not ET's.
     // Find users who had a workout yesterday-1 but NOT yesterday
     // by checking all users who had an active streak >= 10 that is now broken
-    // We look for users whose last qualifying day (>= 0.95 mi) was 2+ days ago
-    const brokenStreaks = await db.query(
+    // We look for users whose last qualifying day (goal met) was 2+ days ago
+    const brokenStreaks = await db.query<{
+      user_id: string;
+      username: string;
+      last_active_date: string;
+      yesterday: string;
+    }>(
       `WITH user_streaks AS (
-				SELECT
-					w.user_id,
-					MAX(w.local_date) as last_active_date,
-					COUNT(DISTINCT w.local_date) as streak_candidate
-				FROM (
-					SELECT user_id, local_date, SUM(distance) as day_total
-					FROM workouts
-					WHERE local_date >= (CURRENT_DATE - INTERVAL '60 days')
-					AND deleted_at IS NULL AND exclusion_reason IS NULL
-					GROUP BY user_id, local_date
-					HAVING SUM(distance) >= 0.95
-				) w
-				GROUP BY w.user_id
+				SELECT u.user_id, MAX(q.local_date) AS last_active_date
+				FROM users u
+				CROSS JOIN LATERAL (
+					${qualifyingDaysSql("u.user_id", (col) => `${col} >= (CURRENT_DATE - INTERVAL '60 days')`)}
+				) q
+				GROUP BY u.user_id
 			)
-			SELECT us.user_id, u.username
+			SELECT us.user_id, u.username,
+				to_char(us.last_active_date, 'YYYY-MM-DD') AS last_active_date,
+				to_char(${localTodaySql("us.user_id")} - 1, 'YYYY-MM-DD') AS yesterday
 			FROM user_streaks us
 			JOIN users u ON u.user_id = us.user_id
-			WHERE us.last_active_date < $1
+			WHERE us.last_active_date < ${localTodaySql("us.user_id")} - 1
 			-- Streak tokens: a covered day after the last workout day means the
 			-- streak did NOT break (a Save/Double Down/Assist bridged it) — don't
 			-- send this user a "streak broken" push. Coverage rows only exist for
@@ -924,22 +983,20 @@ export async function checkStreaksBroken(): Promise<void> {
 				WHERE sc.user_id = us.user_id
 					AND sc.local_date > us.last_active_date
 			)`,
-      [yesterdayStr],
     );
 
-    for (const { user_id, username } of brokenStreaks) {
+    for (const {
+      user_id,
+      username,
+      last_active_date,
+      yesterday: yesterdayStr,
+    } of brokenStreaks) {
       try {
         // Get their actual streak count before it broke
         // We need to count consecutive days ending at their last_active_date
         const streakResult = await db.query(
           `WITH daily AS (
-						SELECT local_date, SUM(distance) as total
-						FROM workouts
-						WHERE user_id = $1 AND local_date <= $2
-						AND deleted_at IS NULL AND exclusion_reason IS NULL
-						GROUP BY local_date
-						HAVING SUM(distance) >= 0.95
-						ORDER BY local_date DESC
+						${qualifyingDaysSql("$1", (col) => `${col} <= $2::date`)}
 					),
 					numbered AS (
 						SELECT local_date,
@@ -954,6 +1011,15 @@ export async function checkStreaksBroken(): Promise<void> {
 
         const streakLength = parseInt(streakResult[0]?.streak_length ?? "0");
 
+        // A lapsed user stays in this sweep for weeks; keying on the streak's
+        // last day sends the webhook once per broken streak, not once a day.
+        if (streakLength > 0) {
+          void emitWebhookEvent(user_id, "streak.broken", last_active_date, {
+            streak_length: streakLength,
+            last_active_date,
+          });
+        }
+
         // The OWNER hears about their own break — friends-only was backwards
         // (friends got "send them encouragement!" while the runner discovered
         // it from a zeroed flame). 3+ days is worth a kind heads-up; the 10+
@@ -970,9 +1036,10 @@ export async function checkStreaksBroken(): Promise<void> {
             [selfKey, user_id],
           );
           if (selfClaim.length > 0) {
+            const goal = await getCurrentDailyGoal(user_id);
             await sendPush(user_id, {
               title: "Your streak ended",
-              body: `Your ${streakLength}-day streak ended yesterday. One mile today starts the next one — day 1 is waiting.`,
+              body: `Your ${streakLength}-day streak ended yesterday. ${goal.label} today starts the next one — day 1 is waiting.`,
               type: "streak_lost",
               data: {
                 local_date: yesterdayStr,
@@ -1006,11 +1073,13 @@ export async function checkStreaksBroken(): Promise<void> {
         );
         if (outgoing === "none") continue;
 
+        // The goal the streak was being kept on when it ended.
+        const { goal_type } = await getDailyGoalOn(user_id, last_active_date);
         const payload = {
           title: "Streak broken!",
-          body: `${username}'s ${streakLength}-day streak just ended. Send them some encouragement!`,
+          body: `${username}'s ${streakLength}-day ${streakNoun(goal_type)} just ended. Send them some encouragement!`,
           type: "friend_activity" as const,
-          data: { user_id, kind: "streak_broken" },
+          data: { user_id, kind: "streak_broken", goal_type },
         };
 
         // 'ask' — queue for the user's explicit confirmation instead of sending.
@@ -1184,6 +1253,7 @@ export async function checkLeadChanges(
           new Date(),
           fullComp.options.interval,
           fullComp.start_date,
+          fullComp.timezone,
         );
 
         // ── Path 1: uploader just took the lead.
@@ -1325,21 +1395,17 @@ function formatGapForType(type: string, gap: number): string {
 // per-user event (streak life lost, target missed, interval recap), and
 // all use the same `milestone_notifications` table for idempotency.
 
-/** ISO date string for yesterday in America/New_York (matches workouts.local_date format). */
-function yesterdayLocalDate(): string {
-  const formatter = new Intl.DateTimeFormat("en-CA", {
-    timeZone: "America/New_York",
-  });
-  const y = new Date(Date.now() - 24 * 60 * 60 * 1000);
-  return formatter.format(y);
+/**
+ * ISO date string for yesterday in a competition's timezone (matches
+ * workouts.local_date format).
+ */
+function yesterdayLocalDate(timeZone: string = DEFAULT_TIMEZONE): string {
+  return todayInTimeZone(timeZone, new Date(Date.now() - 24 * 60 * 60 * 1000));
 }
 
 /** ISO date string for today in America/New_York. */
 function todayLocalDate(): string {
-  const formatter = new Intl.DateTimeFormat("en-CA", {
-    timeZone: "America/New_York",
-  });
-  return formatter.format(new Date());
+  return todayInTimeZone(DEFAULT_TIMEZONE);
 }
 
 /**
@@ -1364,12 +1430,12 @@ export async function checkStreakLifeLoss(): Promise<void> {
     );
 
     if (activeStreaks.length === 0) return;
-    const yesterday = yesterdayLocalDate();
 
     for (const comp of activeStreaks) {
       try {
         const fullComp = await getCompetition(comp.id);
         if (!fullComp) continue;
+        const yesterday = yesterdayLocalDate(fullComp.timezone);
         const goal = fullComp.options.goal ?? 1.0;
         const totalLives =
           fullComp.options.lives ??
@@ -1467,7 +1533,14 @@ export async function checkTargetMissed(): Promise<void> {
         const fullComp = await getCompetition(comp.id);
         if (!fullComp) continue;
         const intervalSetting = fullComp.options.interval ?? "day";
-        if (!intervalJustEnded(intervalSetting, fullComp.start_date)) continue;
+        if (
+          !intervalJustEnded(
+            intervalSetting,
+            fullComp.start_date,
+            fullComp.timezone,
+          )
+        )
+          continue;
 
         const goal = fullComp.options.goal ?? 1.0;
         const accepted = fullComp.users.filter(
@@ -1476,7 +1549,11 @@ export async function checkTargetMissed(): Promise<void> {
         if (accepted.length === 0) continue;
 
         const scores = await getUserScores(fullComp);
-        const recentKey = lastIntervalKey(intervalSetting, fullComp.start_date);
+        const recentKey = lastIntervalKey(
+          intervalSetting,
+          fullComp.start_date,
+          fullComp.timezone,
+        );
 
         // Build the "who hit" list for inclusion in the notification body.
         const hitNames: string[] = [];
@@ -1549,6 +1626,10 @@ export async function checkTargetMissed(): Promise<void> {
  *
  * Should run AFTER streak/target/lead checks so the user opens the app to
  * a single recap rather than a stream of individual updates.
+ *
+ * Elimination comps whose cutoff knocked someone out get their own round
+ * pushes instead (see notifyEliminationRound) — "you're out" is the result,
+ * not a reason to open the app and look for one.
  */
 export async function notifyIntervalResults(): Promise<void> {
   try {
@@ -1570,7 +1651,19 @@ export async function notifyIntervalResults(): Promise<void> {
 
     for (const comp of activeComps) {
       const intervalSetting = comp.options?.interval ?? "day";
-      if (!intervalJustEnded(intervalSetting, comp.start_date)) continue;
+      if (!intervalJustEnded(intervalSetting, comp.start_date, comp.timezone))
+        continue;
+
+      if (comp.type === "elimination") {
+        try {
+          if (await notifyEliminationRound(comp)) continue;
+        } catch (err: any) {
+          console.error(
+            `[Notifications] Elimination round error for comp ${comp.id}:`,
+            err.message,
+          );
+        }
+      }
 
       const accepted = await db.query<{ user_id: string }>(
         `SELECT user_id FROM competition_users
@@ -1630,27 +1723,102 @@ export async function notifyIntervalResults(): Promise<void> {
   }
 }
 
+/**
+ * Per-user result of the elimination cutoff that just passed: the knocked-out
+ * hear they're out, everyone still standing hears how many are left. The cut
+ * is recorded first (recordEliminationRounds) and the pushes read the stored
+ * result, so what this announces is what the standings show from then on. One
+ * push per (comp, user, interval). Returns false when the round knocked nobody
+ * out (a level bottom is spared), so the caller falls back to the plain recap.
+ */
+async function notifyEliminationRound(
+  comp: Competition & { id: string },
+): Promise<boolean> {
+  const fullComp = await getCompetition(comp.id);
+  if (!fullComp?.start_date) return false;
+
+  const { knockedOut: newlyOut, out } =
+    await recordEliminationRounds(fullComp);
+  if (newlyOut.size === 0) return false;
+
+  // The interval containing yesterday is the one that just closed.
+  const intervalKey = getCurrentInterval(
+    yesterdayLocalDate(fullComp.timezone),
+    fullComp.options.interval,
+    fullComp.start_date,
+    fullComp.timezone,
+  );
+  const accepted = fullComp.users.filter(
+    (u: CompetitionUser) => u.invite_status === "accepted",
+  );
+  const knockedOut = accepted.filter((u) => newlyOut.has(u.user_id));
+  // In team play a participant without a team is never a unit (see
+  // eliminationUnits), so they're neither out nor "still standing".
+  const isTeamPlay = (fullComp.teams?.teams?.length ?? 0) > 0;
+  const standing = accepted.filter(
+    (u) => !out.has(u.user_id) && (!isTeamPlay || !!u.team_id),
+  );
+  const standingCount = isTeamPlay
+    ? new Set(standing.map((u) => u.team_id)).size
+    : standing.length;
+  const standingLabel = isTeamPlay
+    ? `${standingCount} ${standingCount === 1 ? "team" : "teams"}`
+    : String(standingCount);
+
+  for (const u of [...knockedOut, ...standing]) {
+    const isOut = knockedOut.includes(u);
+    const round = newlyOut.get(u.user_id) ?? intervalKey;
+    const milestoneKey = `elimination_round_${comp.id}_${u.user_id}_${round}`;
+    const claimed = await db.query(
+      `INSERT INTO milestone_notifications (milestone_key, competition_id, user_id) VALUES ($1, $2, $3)
+			ON CONFLICT (milestone_key) DO NOTHING RETURNING id`,
+      [milestoneKey, comp.id, u.user_id],
+    );
+    if (claimed.length === 0) continue;
+
+    const shouldSend = await shouldSendNotification(
+      u.user_id,
+      null,
+      "competition_milestone",
+    );
+    if (!shouldSend) continue;
+
+    sendPush(u.user_id, {
+      title: isOut ? "You're out!" : "You survived the cut",
+      body: isOut
+        ? `You finished in the bottom of ${fullComp.competition_name} and were knocked out.`
+        : `${knockedOut.length} knocked out of ${fullComp.competition_name} — ${standingLabel} still standing.`,
+      type: "competition_milestone",
+      data: {
+        competition_id: comp.id,
+        kind: isOut ? "elimination_out" : "elimination_survived",
+      },
+    }).catch((err) =>
+      console.error("[Push] elimination round error:", err.message),
+    );
+  }
+  return true;
+}
+
 /**
  * True when the given interval setting just rolled over between yesterday
- * and today in America/New_York. Daily comps roll every night; weekly comps
+ * and today in the competition's timezone. Daily comps roll every night; weekly comps
  * roll only when yesterday was the last day of a comp-anchored week; monthly
  * comps roll only on the 1st of a calendar month.
  */
 function intervalJustEnded(
   interval: string | undefined,
   startDate: string | null | undefined,
+  timeZone: string = DEFAULT_TIMEZONE,
 ): boolean {
   if (interval === "day" || !interval) return true;
 
-  const formatter = new Intl.DateTimeFormat("en-CA", {
-    timeZone: "America/New_York",
-  });
-  const todayStr = formatter.format(new Date());
+  const todayStr = todayInTimeZone(timeZone);
   const today = new Date(todayStr + "T00:00:00Z");
 
   if (interval === "month") {
     // today.getUTCDate() reads the day-of-month of an ISO date — for the
-    // midnight-ET date string we just built that's the local day-of-month.
+    // zoned date string we just built that's the local day-of-month.
     return today.getUTCDate() === 1;
   }
 
@@ -1681,12 +1849,11 @@ function intervalJustEnded(
 function lastIntervalKey(
   interval: string | undefined,
   startDate: string | null | undefined,
+  timeZone: string = DEFAULT_TIMEZONE,
 ): string {
-  if (interval === "day" || !interval) return yesterdayLocalDate();
+  if (interval === "day" || !interval) return yesterdayLocalDate(timeZone);
 
-  const formatter = new Intl.DateTimeFormat("en-CA", {
-    timeZone: "America/New_York",
-  });
+  const formatter = new Intl.DateTimeFormat("en-CA", { timeZone });
 
   if (interval === "month") {
     const now = new Date();
@@ -1713,7 +1880,7 @@ function lastIntervalKey(
     return formatter.format(new Date(priorWeekStartMs));
   }
 
-  return yesterdayLocalDate();
+  return yesterdayLocalDate(timeZone);
 }
 
 // ─── End-of-Day Tie Detection (Clash Mode) ─────────────────────────
@@ -1809,3 +1976,21 @@ export async function checkClashTies(): Promise<void> {
     console.error("[Notifications] Error in checkClashTies:", err.message);
   }
 }
+
+/**
+ * Tell the owner their account was just signed in on a device it hasn't been
+ * used on before. Goes to every registered device, so the one most likely to
+ * be theirs sees it; the sessions list is where they revoke it.
+ */
+export async function notifyNewSignIn(
+  userId: string,
+  session: { family_id: string; device: string; location_hint: string | null },
+): Promise<void> {
+  const where = session.location_hint ? ` near ${session.location_hint}` : "";
+  await sendPush(userId, {
+    title: "New sign-in to your account",
+    body: `Signed in on ${session.device}${where}. Not you? Sign that session out from Settings.`,
+    type: "new_sign_in",
+    data: { family_id: session.family_id },
+  });
+}
@@ -4,11 +4,21 @@ import {
   isWorkoutVisibility,
   type WorkoutVisibility,
 } from "./visibilityService.js";
+import { localNowSql } from "./dailyResetTime.js";
 
 const db = PostgresService.getInstance();
 
 // ─── Notification Preferences (per-user global settings) ────────────
 
+export const DIGEST_MODES = ["off", "hourly", "daily"] as const;
+export type DigestMode = (typeof DIGEST_MODES)[number];
+
+export function isDigestMode(value: unknown): value is DigestMode {
+  return (
+    typeof value === "string" && (DIGEST_MODES as readonly string[]).includes(value)
+  );
+}
+
 export interface NotificationPreferences {
   nudges_enabled: boolean;
   flexes_enabled: boolean;
@@ -21,6 +31,11 @@ export interface NotificationPreferences {
   step_goal_enabled: boolean;
   quiet_hours_start: number | null; // hour 0-23 or null for no quiet hours
   quiet_hours_end: number | null;
+  // Nights starting Saturday or Sunday. Both null = the window above applies
+  // every night; start = end = no quiet hours at the weekend.
+  quiet_hours_weekend_start: number | null;
+  quiet_hours_weekend_end: number | null;
+  snooze_until: string | null; // ISO instant; everything non-urgent holds until then
   daily_reminder_enabled: boolean;
   daily_reminder_hour: number; // 0-23, hour in user's local timezone
   timezone_offset_minutes: number | null; // user's current UTC offset in minutes
@@ -52,6 +67,10 @@ export interface NotificationPreferences {
   // 'private'. Coarser than share_route_maps — that one decides WHETHER routes
   // are included, this decides WHO gets in at all. Both must pass.
   workout_visibility: WorkoutVisibility;
+  // Batch non-urgent social pushes (friend activity, hypes, friend badges…)
+  // into one summary: every hour, or daily at digest_hour in local time.
+  digest_mode: DigestMode;
+  digest_hour: number; // 0-23, only read when digest_mode = 'daily'
 }
 
 const DEFAULT_PREFERENCES: NotificationPreferences = {
@@ -66,6 +85,9 @@ const DEFAULT_PREFERENCES: NotificationPreferences = {
   step_goal_enabled: true,
   quiet_hours_start: null,
   quiet_hours_end: null,
+  quiet_hours_weekend_start: null,
+  quiet_hours_weekend_end: null,
+  snooze_until: null,
   daily_reminder_enabled: true,
   daily_reminder_hour: 18,
   timezone_offset_minutes: null,
@@ -80,6 +102,8 @@ const DEFAULT_PREFERENCES: NotificationPreferences = {
   buddy_invites_enabled: true,
   tagged_posts_on_profile: true,
   workout_visibility: DEFAULT_WORKOUT_VISIBILITY,
+  digest_mode: "off",
+  digest_hour: 19,
 };
 
 export async function getNotificationPreferences(
@@ -105,6 +129,11 @@ export async function getNotificationPreferences(
     step_goal_enabled: row.step_goal_enabled ?? true,
     quiet_hours_start: row.quiet_hours_start ?? null,
     quiet_hours_end: row.quiet_hours_end ?? null,
+    quiet_hours_weekend_start: row.quiet_hours_weekend_start ?? null,
+    quiet_hours_weekend_end: row.quiet_hours_weekend_end ?? null,
+    snooze_until: row.snooze_until
+      ? new Date(row.snooze_until).toISOString()
+      : null,
     daily_reminder_enabled: row.daily_reminder_enabled ?? true,
     daily_reminder_hour: row.daily_reminder_hour ?? 18,
     timezone_offset_minutes: row.timezone_offset_minutes ?? null,
@@ -124,6 +153,8 @@ export async function getNotificationPreferences(
     workout_visibility: isWorkoutVisibility(row.workout_visibility)
       ? row.workout_visibility
       : DEFAULT_WORKOUT_VISIBILITY,
+    digest_mode: isDigestMode(row.digest_mode) ? row.digest_mode : "off",
+    digest_hour: row.digest_hour ?? 19,
   };
 }
 
@@ -161,6 +192,12 @@ export async function updateNotificationPreferences(
     { key: "step_goal_enabled", value: prefs.step_goal_enabled },
     { key: "quiet_hours_start", value: prefs.quiet_hours_start },
     { key: "quiet_hours_end", value: prefs.quiet_hours_end },
+    {
+      key: "quiet_hours_weekend_start",
+      value: prefs.quiet_hours_weekend_start,
+    },
+    { key: "quiet_hours_weekend_end", value: prefs.quiet_hours_weekend_end },
+    { key: "snooze_until", value: prefs.snooze_until },
     { key: "daily_reminder_enabled", value: prefs.daily_reminder_enabled },
     { key: "daily_reminder_hour", value: prefs.daily_reminder_hour },
     { key: "timezone_offset_minutes", value: prefs.timezone_offset_minutes },
@@ -184,6 +221,8 @@ export async function updateNotificationPreferences(
       value: prefs.tagged_posts_on_profile,
     },
     { key: "workout_visibility", value: prefs.workout_visibility },
+    { key: "digest_mode", value: prefs.digest_mode },
+    { key: "digest_hour", value: prefs.digest_hour },
   ];
 
   for (const field of fields) {
@@ -209,6 +248,104 @@ export async function updateNotificationPreferences(
   return getNotificationPreferences(userId);
 }
 
+// ─── Quiet hours ────────────────────────────────────────────────────
+
+type QuietHoursPrefs = Pick<
+  NotificationPreferences,
+  | "quiet_hours_start"
+  | "quiet_hours_end"
+  | "quiet_hours_weekend_start"
+  | "quiet_hours_weekend_end"
+>;
+
+/**
+ * The window that starts on local weekday `dow` (0 = Sunday). The weekend
+ * window covers the weekend's nights when it spans midnight — Friday's and
+ * Saturday's, so Saturday and Sunday mornings sleep in and Monday's doesn't —
+ * and the weekend's days (Saturday, Sunday) when it doesn't.
+ */
+function quietWindowFor(
+  prefs: QuietHoursPrefs,
+  dow: number,
+): { start: number; end: number } | null {
+  const { quiet_hours_weekend_start: ws, quiet_hours_weekend_end: we } = prefs;
+  if (ws !== null && we !== null) {
+    const weekend = ws > we ? dow === 5 || dow === 6 : dow === 0 || dow === 6;
+    if (weekend) return { start: ws, end: we };
+  }
+  if (prefs.quiet_hours_start === null || prefs.quiet_hours_end === null)
+    return null;
+  return { start: prefs.quiet_hours_start, end: prefs.quiet_hours_end };
+}
+
+/**
+ * Is local `hour` on local weekday `dow` inside the user's quiet hours? A
+ * window that spans midnight belongs to the night it starts, so Saturday
+ * 02:00 is judged by Friday night's window — the weekend one — and Monday
+ * 02:00 by Sunday night's, the weekday one.
+ */
+export function isInQuietHours(
+  prefs: QuietHoursPrefs,
+  hour: number,
+  dow: number,
+): boolean {
+  const today = quietWindowFor(prefs, dow);
+  if (today) {
+    if (today.start < today.end) {
+      if (hour >= today.start && hour < today.end) return true;
+    } else if (today.start > today.end && hour >= today.start) {
+      return true;
+    }
+  }
+  const yesterday = quietWindowFor(prefs, (dow + 6) % 7);
+  return (
+    yesterday !== null && yesterday.start > yesterday.end && hour < yesterday.end
+  );
+}
+
+/**
+ * The hold for overnight results (competitions resolving at local midnight)
+ * when the user never set quiet hours: 22:00–10:00 on their own clock.
+ */
+const DEFAULT_OVERNIGHT_WINDOW: QuietHoursPrefs = {
+  quiet_hours_start: 22,
+  quiet_hours_end: 10,
+  quiet_hours_weekend_start: null,
+  quiet_hours_weekend_end: null,
+};
+
+/**
+ * Should a non-urgent push to this user be held right now? True while a
+ * snooze is running or inside their quiet hours, read on the user's own clock
+ * (localNowSql — the same zone the daily reminder and digests use).
+ * `overnightDefault` holds a user with no quiet hours set through
+ * DEFAULT_OVERNIGHT_WINDOW instead of never.
+ */
+export async function isUserInQuietHours(
+  userId: string,
+  { overnightDefault = false }: { overnightDefault?: boolean } = {},
+): Promise<boolean> {
+  const prefs = await getNotificationPreferences(userId);
+  if (prefs.snooze_until && new Date(prefs.snooze_until) > new Date())
+    return true;
+  let window: QuietHoursPrefs = prefs;
+  if (
+    prefs.quiet_hours_start === null &&
+    prefs.quiet_hours_weekend_start === null
+  ) {
+    if (!overnightDefault) return false;
+    window = DEFAULT_OVERNIGHT_WINDOW;
+  }
+
+  const [clock] = await db.query<{ hour: number; dow: number }>(
+    `SELECT EXTRACT(HOUR FROM t.local_now)::int AS hour,
+		        EXTRACT(DOW FROM t.local_now)::int AS dow
+		 FROM (SELECT ${localNowSql("$1")} AS local_now) t`,
+    [userId],
+  );
+  return isInQuietHours(window, clock.hour, clock.dow);
+}
+
 // ─── Friend-specific notification settings ──────────────────────────
 
 export interface FriendNotificationSettings {
@@ -0,0 +1,490 @@
+import { PostgresService } from "./DbService.js";
+import { BadRequestError } from "../errors/Errors.js";
+import { paceReference } from "./dailyChallengeService.js";
+import {
+  countedWorkoutSql,
+  realMileSplitSql,
+  MIN_PLAUSIBLE_MILE_SECONDS,
+  MAX_PLAUSIBLE_MILE_SECONDS,
+} from "./mileTime.js";
+import { getUserLocalToday } from "./workoutService.js";
+import type {
+  AnalyzedSplit,
+  FitnessTrendPoint,
+  PaceAnalyticsResponse,
+  PaceZone,
+  PaceZoneBounds,
+  PacingAnalysis,
+  WeeklyPaceTrend,
+  WorkoutPaceAnalytics,
+  ZoneSeconds,
+} from "../types/paceAnalytics.js";
+
+const db = PostgresService.getInstance();
+
+/**
+ * Zone ceilings as multiples of the reference pace, fastest first. A split
+ * lands in the first zone whose ceiling it is at or under; anything slower
+ * than the last ceiling is recovery.
+ *
+ * The reference is the user's best mile over the last 28 days, so "fast" means
+ * within 5% of that — racing — and an easy run sits 20–35% off it. A split
+ * quicker than the reference itself is simply fast.
+ */
+const ZONE_CEILINGS: [PaceZone, number][] = [
+  ["fast", 1.05],
+  ["tempo", 1.12],
+  ["steady", 1.2],
+  ["easy", 1.35],
+];
+
+const ZONES_SLOW_TO_FAST: PaceZone[] = [
+  "recovery",
+  "easy",
+  "steady",
+  "tempo",
+  "fast",
+];
+
+/**
+ * Halves within 2% of each other are "even". Tighter than that and GPS noise
+ * on a single mile flips the verdict back and forth between runs.
+ */
+const PACING_TOLERANCE = 0.02;
+
+/**
+ * Pacing compares whole miles only: SplitCalculator's trailing partial carries
+ * an extrapolated pace, and a fast final 0.1 would read as a negative split.
+ * Time-in-zone still counts it — its seconds were really spent at that pace.
+ */
+const WHOLE_SPLIT_MIN_DISTANCE = 0.95;
+
+/** Matches paceReference's window, so the trend and the zones move together. */
+const FITNESS_WINDOW_DAYS = 28;
+
+/** A workout within ±25% of the target distance counts as "similar". */
+const SIMILAR_DISTANCE_BAND = 0.25;
+
+const DEFAULT_WEEKS = 12;
+const MAX_WEEKS = 52;
+const MAX_TREND_DISTANCE = 30;
+
+/** A split is zoned only when its pace is a believable mile time. */
+const ZONED_SPLIT_SQL = `s.split_distance > 0
+			AND ${realMileSplitSql("s.split_pace")}
+			AND s.split_pace <= ${MAX_PLAUSIBLE_MILE_SECONDS}`;
+
+type SplitRow = {
+  workout_id: string;
+  local_date: string;
+  week_start: string;
+  distance: number;
+  split_number: number;
+  split_distance: number;
+  split_duration: number;
+  split_pace: number;
+};
+
+type WorkoutSplits = {
+  workout_id: string;
+  local_date: string;
+  week_start: string;
+  distance: number;
+  splits: Omit<AnalyzedSplit, "zone">[];
+};
+
+/** Plain date math on a "YYYY-MM-DD" string, in UTC so no timezone can shift it. */
+function addDays(ymd: string, days: number): string {
+  const [y, m, d] = ymd.split("-").map((n) => parseInt(n, 10));
+  const date = new Date(Date.UTC(y, m - 1, d));
+  date.setUTCDate(date.getUTCDate() + days);
+  return date.toISOString().slice(0, 10);
+}
+
+/** The Monday on or before `ymd` — the same week Postgres' date_trunc uses. */
+function weekStart(ymd: string): string {
+  const [y, m, d] = ymd.split("-").map((n) => parseInt(n, 10));
+  const dow = new Date(Date.UTC(y, m - 1, d)).getUTCDay();
+  return addDays(ymd, -((dow + 6) % 7));
+}
+
+function emptyZoneSeconds(): ZoneSeconds {
+  return { recovery: 0, easy: 0, steady: 0, tempo: 0, fast: 0 };
+}
+
+function round1(n: number): number {
+  return Math.round(n * 10) / 10;
+}
+
+export function zoneBounds(reference: number | null): PaceZoneBounds[] {
+  if (reference == null) return [];
+  const edges = ZONE_CEILINGS.map(([zone, ratio]) => ({
+    zone,
+    ceiling: round1(reference * ratio),
+  }));
+  return ZONES_SLOW_TO_FAST.map((zone) => {
+    const i = edges.findIndex((e) => e.zone === zone);
+    if (i === -1) {
+      // recovery: everything slower than the last ceiling.
+      return {
+        zone,
+        min_pace_sec_per_mile: edges[edges.length - 1].ceiling,
+        max_pace_sec_per_mile: null,
+      };
+    }
+    return {
+      zone,
+      min_pace_sec_per_mile: i === 0 ? null : edges[i - 1].ceiling,
+      max_pace_sec_per_mile: edges[i].ceiling,
+    };
+  });
+}
+
+export function paceZoneFor(
+  pace: number,
+  reference: number | null,
+): PaceZone | null {
+  if (reference == null || !(reference > 0)) return null;
+  const ratio = pace / reference;
+  for (const [zone, ceiling] of ZONE_CEILINGS) {
+    if (ratio <= ceiling) return zone;
+  }
+  return "recovery";
+}
+
+/**
+ * Negative split vs fade: the back half's average pace against the front
+ * half's, over whole miles. With an odd count the middle mile belongs to
+ * neither half.
+ */
+export function analyzePacing(
+  splits: Omit<AnalyzedSplit, "zone">[],
+): PacingAnalysis {
+  const whole = splits
+    .filter((s) => s.distance >= WHOLE_SPLIT_MIN_DISTANCE)
+    .sort((a, b) => a.split_number - b.split_number);
+  if (whole.length < 2) {
+    return {
+      pattern: null,
+      first_half_pace: null,
+      second_half_pace: null,
+      delta_sec_per_mile: null,
+    };
+  }
+
+  const half = Math.floor(whole.length / 2);
+  const avgPace = (part: typeof whole) =>
+    part.reduce((sum, s) => sum + s.duration, 0) /
+    part.reduce((sum, s) => sum + s.distance, 0);
+  const first = avgPace(whole.slice(0, half));
+  const second = avgPace(whole.slice(whole.length - half));
+  const delta = second - first;
+
+  return {
+    pattern:
+      Math.abs(delta) < first * PACING_TOLERANCE
+        ? "even"
+        : delta < 0
+          ? "negative_split"
+          : "fade",
+    first_half_pace: round1(first),
+    second_half_pace: round1(second),
+    delta_sec_per_mile: round1(delta),
+  };
+}
+
+function zoneWorkout(
+  workout: WorkoutSplits,
+  reference: number | null,
+): { splits: AnalyzedSplit[]; time_in_zone: ZoneSeconds } {
+  const time_in_zone = emptyZoneSeconds();
+  const splits = workout.splits.map((s) => {
+    const zone = paceZoneFor(s.pace, reference);
+    if (zone) time_in_zone[zone] += s.duration;
+    return { ...s, zone };
+  });
+  for (const zone of ZONES_SLOW_TO_FAST) {
+    time_in_zone[zone] = round1(time_in_zone[zone]);
+  }
+  return { splits, time_in_zone };
+}
+
+/** Rows arrive ordered by workout, so grouping is a single pass. */
+function groupSplits(rows: SplitRow[]): WorkoutSplits[] {
+  const out: WorkoutSplits[] = [];
+  for (const r of rows) {
+    let current = out[out.length - 1];
+    if (!current || current.workout_id !== r.workout_id) {
+      current = {
+        workout_id: r.workout_id,
+        local_date: r.local_date,
+        week_start: r.week_start,
+        distance: Number(r.distance),
+        splits: [],
+      };
+      out.push(current);
+    }
+    current.splits.push({
+      split_number: r.split_number,
+      distance: Number(r.split_distance),
+      duration: Number(r.split_duration),
+      pace: Number(r.split_pace),
+    });
+  }
+  return out;
+}
+
+async function fetchSplits(
+  where: string,
+  params: unknown[],
+): Promise<WorkoutSplits[]> {
+  const rows = await db.query<SplitRow>(
+    `SELECT w.workout_id,
+				to_char(w.local_date, 'YYYY-MM-DD') AS local_date,
+				to_char(date_trunc('week', w.local_date), 'YYYY-MM-DD') AS week_start,
+				w.distance,
+				s.split_number,
+				s.split_distance,
+				s.split_duration,
+				s.split_pace
+			FROM workouts w
+			JOIN workout_splits s ON s.workout_id = w.workout_id
+			WHERE ${where} AND ${ZONED_SPLIT_SQL}
+			ORDER BY w.local_date, w.workout_id, s.split_number`,
+    params,
+  );
+  return groupSplits(rows);
+}
+
+/**
+ * Time-in-zone, per-split zones and pacing for one of the user's workouts.
+ *
+ * Zoned against the reference AS OF THAT DAY — the best mile in the 28 days
+ * before it — so an old easy run still reads as easy after the user gets
+ * faster. A workout with no history behind it falls back to its own day's best.
+ */
+export async function getWorkoutPaceAnalytics(
+  userId: string,
+  workoutId: string,
+): Promise<WorkoutPaceAnalytics> {
+  const rows = await db.query<{ local_date: string; distance: number }>(
+    `SELECT to_char(local_date, 'YYYY-MM-DD') AS local_date, distance
+			FROM workouts
+			WHERE user_id = $1 AND workout_id = $2 AND deleted_at IS NULL`,
+    [userId, workoutId],
+  );
+  const workout = rows[0];
+  if (!workout) {
+    throw new BadRequestError("workout_not_found");
+  }
+
+  const [ref, grouped] = await Promise.all([
+    paceReference(userId, workout.local_date),
+    fetchSplits(`w.user_id = $1 AND w.workout_id = $2`, [userId, workoutId]),
+  ]);
+  const reference = ref.prior ?? ref.today;
+  const { splits, time_in_zone } = zoneWorkout(
+    grouped[0] ?? {
+      workout_id: workoutId,
+      local_date: workout.local_date,
+      week_start: weekStart(workout.local_date),
+      distance: Number(workout.distance),
+      splits: [],
+    },
+    reference,
+  );
+
+  return {
+    workout_id: workoutId,
+    local_date: workout.local_date,
+    distance: Number(workout.distance),
+    reference_pace: reference,
+    zones: zoneBounds(reference),
+    time_in_zone,
+    splits,
+    pacing: analyzePacing(splits),
+  };
+}
+
+/**
+ * The rolling fitness trend: for each day, the average elapsed pace of every
+ * similar-distance workout in the 28 days ending that day. Elapsed, not moving,
+ * for the same reason race records use it — a race clock doesn't pause.
+ */
+async function fitnessTrend(
+  userId: string,
+  from: string,
+  to: string,
+  distanceMin: number,
+  distanceMax: number,
+): Promise<FitnessTrendPoint[]> {
+  const rows = await db.query<{
+    date: string;
+    average_pace: string | null;
+    workout_count: string;
+  }>(
+    `WITH days AS (
+			SELECT generate_series($2::date, $3::date, interval '1 day')::date AS d
+		)
+		SELECT to_char(days.d, 'YYYY-MM-DD') AS date,
+			(SUM(w.total_duration) / NULLIF(SUM(w.distance), 0))::text AS average_pace,
+			COUNT(w.workout_id)::text AS workout_count
+		FROM days
+		LEFT JOIN workouts w
+			ON w.user_id = $1
+			AND w.local_date > days.d - ${FITNESS_WINDOW_DAYS}
+			AND w.local_date <= days.d
+			AND ${countedWorkoutSql("w")}
+			AND w.distance BETWEEN $4 AND $5
+			AND w.total_duration / w.distance
+				BETWEEN ${MIN_PLAUSIBLE_MILE_SECONDS} AND ${MAX_PLAUSIBLE_MILE_SECONDS}
+		GROUP BY days.d
+		ORDER BY days.d`,
+    [userId, from, to, distanceMin, distanceMax],
+  );
+  return rows.map((r) => ({
+    date: r.date,
+    average_pace: r.average_pace ? round1(parseFloat(r.average_pace)) : null,
+    workout_count: parseInt(r.workout_count, 10) || 0,
+  }));
+}
+
+async function medianDistance(
+  userId: string,
+  from: string,
+  to: string,
+): Promise<number | null> {
+  const rows = await db.query<{ median: string | null }>(
+    `SELECT percentile_cont(0.5) WITHIN GROUP (ORDER BY w.distance)::text AS median
+			FROM workouts w
+			WHERE w.user_id = $1
+				AND w.local_date BETWEEN $2::date AND $3::date
+				AND w.distance > 0
+				AND ${countedWorkoutSql("w")}`,
+    [userId, from, to],
+  );
+  const median = rows[0]?.median ? parseFloat(rows[0].median) : NaN;
+  return Number.isFinite(median) && median > 0 ? median : null;
+}
+
+/**
+ * The stats-screen payload: weekly time-in-zone and pacing counts for the last
+ * `weeks` weeks (this one included), plus the rolling fitness trend.
+ *
+ * Unlike the per-workout view, every week here is zoned against ONE reference —
+ * today's — so the weeks stay comparable: a moving yardstick would flatten
+ * exactly the improvement the trend is there to show. A user back from a long
+ * break has no recent reference, so their fastest mile in the range stands in.
+ *
+ * `distance` picks the fitness trend's band; by default it centres on the
+ * user's median workout distance over the range.
+ */
+export async function getPaceAnalytics(
+  userId: string,
+  options: { weeks?: number; distance?: number } = {},
+): Promise<PaceAnalyticsResponse> {
+  const weeks = options.weeks ?? DEFAULT_WEEKS;
+  if (!Number.isInteger(weeks) || weeks < 1 || weeks > MAX_WEEKS) {
+    throw new BadRequestError("invalid_weeks");
+  }
+  if (
+    options.distance !== undefined &&
+    !(options.distance > 0 && options.distance <= MAX_TREND_DISTANCE)
+  ) {
+    throw new BadRequestError("invalid_distance");
+  }
+
+  const today = await getUserLocalToday(userId);
+  const from = addDays(weekStart(today), -7 * (weeks - 1));
+
+  const [ref, workouts, targetDistance] = await Promise.all([
+    paceReference(userId, today),
+    fetchSplits(
+      `w.user_id = $1
+				AND w.local_date BETWEEN $2::date AND $3::date
+				AND ${countedWorkoutSql("w")}`,
+      [userId, from, today],
+    ),
+    options.distance !== undefined
+      ? Promise.resolve(options.distance)
+      : medianDistance(userId, from, today),
+  ]);
+
+  let reference = ref.prior ?? ref.today;
+  if (reference == null) {
+    const whole = workouts
+      .flatMap((w) => w.splits)
+      .filter((s) => s.distance >= WHOLE_SPLIT_MIN_DISTANCE);
+    reference = whole.length ? Math.min(...whole.map((s) => s.pace)) : null;
+  }
+
+  const byWeek = new Map<
+    string,
+    WeeklyPaceTrend & { seconds: number; miles: number }
+  >();
+  for (let i = 0; i < weeks; i++) {
+    const week_start = addDays(from, 7 * i);
+    byWeek.set(week_start, {
+      week_start,
+      workout_count: 0,
+      split_count: 0,
+      average_pace: null,
+      time_in_zone: emptyZoneSeconds(),
+      negative_split_count: 0,
+      fade_count: 0,
+      seconds: 0,
+      miles: 0,
+    });
+  }
+
+  for (const workout of workouts) {
+    const week = byWeek.get(workout.week_start);
+    if (!week) continue;
+    const { splits, time_in_zone } = zoneWorkout(workout, reference);
+    const pacing = analyzePacing(splits);
+
+    week.workout_count += 1;
+    week.split_count += splits.length;
+    for (const zone of ZONES_SLOW_TO_FAST) {
+      week.time_in_zone[zone] += time_in_zone[zone];
+    }
+    for (const s of splits) {
+      week.seconds += s.duration;
+      week.miles += s.distance;
+    }
+    if (pacing.pattern === "negative_split") week.negative_split_count += 1;
+    if (pacing.pattern === "fade") week.fade_count += 1;
+  }
+
+  const weekly: WeeklyPaceTrend[] = [...byWeek.values()].map(
+    ({ seconds, miles, ...week }) => ({
+      ...week,
+      average_pace: miles > 0 ? round1(seconds / miles) : null,
+      time_in_zone: Object.fromEntries(
+        ZONES_SLOW_TO_FAST.map((z) => [z, round1(week.time_in_zone[z])]),
+      ) as ZoneSeconds,
+    }),
+  );
+
+  const band = (factor: number) =>
+    targetDistance != null
+      ? Math.round(targetDistance * factor * 100) / 100
+      : null;
+  const distanceMin = band(1 - SIMILAR_DISTANCE_BAND);
+  const distanceMax = band(1 + SIMILAR_DISTANCE_BAND);
+  const points =
+    distanceMin != null && distanceMax != null
+      ? await fitnessTrend(userId, from, today, distanceMin, distanceMax)
+      : [];
+
+  return {
+    reference_pace: reference,
+    zones: zoneBounds(reference),
+    weeks: weekly,
+    fitness_trend: {
+      distance_min: distanceMin,
+      distance_max: distanceMax,
+      points,
+    },
+  };
+}
@@ -281,7 +281,9 @@ export async function sendPending(
  * a post-run photo ride along as one merged notification. Run by a ~1-min cron.
  *
  * Best-effort: a row is atomically claimed (pending → sent) before delivery, and
- * recipients are recomputed at send time (audience may have changed). Delivery
+ * recipients are recomputed at send time (audience may have changed). Each
+ * recipient's quiet hours and snooze are applied per recipient by sendPush, on
+ * their own clock, so a due row never needs holding here. Delivery
  * failures are logged but not retried, to avoid a stuck row looping the cron.
  */
 export async function drainDueScheduled(): Promise<{
@@ -17,6 +17,18 @@ import {
   runHypedByViewerMatchSql,
 } from "./hypeService.js";
 import { stripMediaQuery } from "./mediaSigningService.js";
+import {
+  isShadowBanned,
+  notShadowBannedSql,
+  shadowBannedIdsSql,
+} from "./accountRestrictionService.js";
+import {
+  fileScreeningReports,
+  screenPost,
+  screenText,
+  visibleUnlessHeldSql,
+} from "./contentScreeningService.js";
+import { privacyTrimmedRouteSql } from "./privacyZoneService.js";
 // One-way: workoutService does not import postService, so this introduces no
 // cycle. Used by the crew-photo nudge to check the recipient's local day still
 // allows a photo before inviting them to add one.
@@ -32,6 +44,10 @@ const db = PostgresService.getInstance();
 // the SAME symmetric block rule rather than re-deriving it — leaderboardService
 // re-derived it and quietly lost the block half. Because it hardcodes `$1`, any
 // query using it must keep the viewer as its first parameter.
+//
+// Shadow-banned users ride along in `blocked`: everything that already hides a
+// blocked author hides them too, and shadowBannedIdsSql leaves the viewer out
+// so a shadow-banned viewer still sees their own posts.
 export const CIRCLE_CTE = `
 WITH circle AS (
 	SELECT friend_id AS uid FROM friendships WHERE user_id = $1 AND status = 'accepted'
@@ -42,6 +58,8 @@ blocked AS (
 	SELECT blocked_id AS uid FROM user_blocks WHERE blocker_id = $1
 	UNION
 	SELECT blocker_id AS uid FROM user_blocks WHERE blocked_id = $1
+	UNION
+	${shadowBannedIdsSql("$1")}
 )`;
 
 export interface PostStatsSnapshot {
@@ -184,6 +202,9 @@ export interface PostRow {
   // Everyone sees the pins (that's the point of a pin) — only the author can
   // set them. Additive field; null on every post that isn't pinned.
   pinned_at?: string | null;
+  // Content screening is holding this post for review: only its author sees
+  // it until a moderator approves it. Additive field.
+  pending_review?: boolean;
   is_viewed?: boolean;
   // The viewer's own emoji reaction to this story (getUserActiveStories only),
   // so re-opening a story they already reacted to shows the reaction. null/absent
@@ -305,6 +326,7 @@ const POST_COLUMNS = `
 	p.is_auto,
 	p.include_route,
 	p.pinned_at,
+	(p.held_at IS NOT NULL) AS pending_review,
 	(SELECT w.workout_type FROM workouts w WHERE w.workout_id = p.workout_id) AS workout_type`;
 
 /**
@@ -476,11 +498,14 @@ const BLOCKED_VS_MULTI_COAUTHOR = `EXISTS (
  *    covering them.
  *  - `NOT p.is_auto`: an auto card's media already IS a rendered route.
  *
+ * Whatever passes is trimmed to the participant's own privacy zones.
+ *
  * Falls back to `post_coauthors.workout_id` when the post carries one (the
  * legacy accept path stamps it), so this is not buddy-only.
  */
 const CREW_ROUTE_SQL = `(
-	SELECT wr.route FROM workout_routes wr
+	SELECT ${privacyTrimmedRouteSql("wr.route", "pca.user_id", "$1")}
+	  FROM workout_routes wr
 	WHERE p.include_route AND NOT p.is_auto
 		AND (
 			COALESCE(
@@ -591,6 +616,7 @@ const AUTHOR_VISIBLE_TO_VIEWER = `(
 const POST_FEED_GATES = `(
 	p.share_to_feed
 	AND p.deleted_at IS NULL
+	AND ${visibleUnlessHeldSql("p", "$1")}
 	AND ${AUTHOR_VISIBLE_TO_VIEWER}
 	AND p.user_id NOT IN (SELECT uid FROM blocked)
 	AND (NOT ${COLLAB_ACTIVE}
@@ -646,6 +672,8 @@ const POST_SELECT = `${POST_COLUMNS},
 	(
 		SELECT COUNT(*)::int FROM post_comments pc
 		WHERE pc.deleted_at IS NULL
+			AND ${notShadowBannedSql("pc.user_id", "$1")}
+			AND ${visibleUnlessHeldSql("pc", "$1")}
 			AND (
 				pc.post_id = p.post_id
 				OR (p.workout_id IS NOT NULL AND pc.workout_id = p.workout_id)
@@ -706,6 +734,10 @@ const CREATED_POST_SELECT = `
  *   throws "workout_already_posted". Deleting that share (or starting the next
  *   workout) frees it again. The per-slot partial unique indexes enforce the
  *   same-slot case; the cross-slot pre-check above closes the other-slot gap.
+ *
+ * The caption and photo are screened first (contentScreeningService). A held
+ * post comes back with `pending_review` set; every finding is filed to the
+ * report queue.
  */
 export async function createPost(input: CreatePostInput): Promise<PostRow> {
   // A workout can have ONE live feed post and ONE live story-only photo
@@ -727,6 +759,12 @@ export async function createPost(input: CreatePostInput): Promise<PostRow> {
     !input.shareToStory;
   const isAutoValue =
     input.isAuto === undefined ? legacyLooksAuto : input.isAuto === true;
+  // Screened before the insert so a held post is never live, not even for the
+  // moment between the insert and an update.
+  const screening = await screenPost({
+    caption: input.caption ?? null,
+    mediaUrl: input.mediaUrl,
+  });
   // Coauthor must be a real accepted friend (no block either way) — validated
   // here so the constraint holds no matter which controller path inserts.
   // Collabs are a FEED concept (profile grids + feed reach are feed-only) —
@@ -824,7 +862,7 @@ export async function createPost(input: CreatePostInput): Promise<PostRow> {
 				user_id, media_url, caption, workout_id, stats_snapshot,
 				local_date, share_to_feed, share_to_story, story_expires_at,
 				is_auto, include_route, coauthor_user_id, coauthor_status,
-				coauthor_workout_id, posted_fresh, buddy_session_id
+				coauthor_workout_id, posted_fresh, buddy_session_id, held_at
 			)
 			VALUES (
 				$1, $2, $3, $4, $5::jsonb, $6::date, $7, $8,
@@ -848,7 +886,8 @@ export async function createPost(input: CreatePostInput): Promise<PostRow> {
 				-- has no row for the author, so a walk whose crew all dropped out
 				-- (or a solo finisher's) had a post nothing could find by session.
 				-- The recap's "has this walk been posted yet" reads this.
-				$13
+				$13,
+				CASE WHEN $14 THEN NOW() ELSE NULL END
 			)
 				ON CONFLICT ${conflictTarget}
 				DO UPDATE SET
@@ -869,7 +908,9 @@ export async function createPost(input: CreatePostInput): Promise<PostRow> {
 					-- buddy post, so EXCLUDED wholesale is safe. Taking it also
 					-- means the deliberate post that REPLACES the auto card
 					-- inherits the session link rather than losing it.
-					buddy_session_id = EXCLUDED.buddy_session_id${flagUpdates}
+					buddy_session_id = EXCLUDED.buddy_session_id,
+					-- The replacement's own screening decides, not the card's.
+					held_at = EXCLUDED.held_at${flagUpdates}
 				${updateGuard}
 			RETURNING *
 		)
@@ -894,9 +935,11 @@ export async function createPost(input: CreatePostInput): Promise<PostRow> {
       // post", so linking one would make the recap report a walk as shared
       // when nothing reached the feed.
       !isAutoValue && input.shareToFeed ? (input.buddySessionId ?? null) : null,
+      screening.verdict === "hold",
     ],
   );
   if (rows[0]) {
+    await fileScreeningReports("post", rows[0].post_id, screening.findings);
     if (multiCoauthorIds.length > 0) {
       await attachMultiCoauthors(
         rows[0].post_id,
@@ -1092,6 +1135,7 @@ export async function getStoriesRail(viewerId: string): Promise<StoryGroup[]> {
 		WHERE p.share_to_story
 			AND p.deleted_at IS NULL
 			AND p.story_expires_at > NOW()
+			AND ${visibleUnlessHeldSql("p", "$1")}
 			AND p.user_id NOT IN (SELECT uid FROM blocked)
 			AND ${OWNER_NOT_PRIVATE_SQL("p.user_id")}
 		ORDER BY p.created_at ASC
@@ -1176,6 +1220,7 @@ export async function getUserActiveStories(
 			AND p.share_to_story
 			AND p.deleted_at IS NULL
 			AND p.story_expires_at > NOW()
+			AND ${visibleUnlessHeldSql("p", "$1")}
 			AND p.user_id NOT IN (SELECT uid FROM blocked)
 			AND ${OWNER_NOT_PRIVATE_SQL("p.user_id")}
 		ORDER BY p.created_at ASC
@@ -1909,16 +1954,18 @@ const FEED_ENTRY_PROJECTION = `
 			-- Gated on the author's global "Share route maps" consent setting;
 			-- posts additionally honor the per-post include_route choice. Raw
 			-- workout routes respect the same setting (the owner always sees
-			-- their own).
+			-- their own), and both are trimmed to the owner's privacy zones.
 			CASE
 				WHEN page.kind = 'post' THEN (
-					SELECT wr.route FROM workout_routes wr
+					SELECT ${privacyTrimmedRouteSql("wr.route", "page.owner_id", "$1")}
+					  FROM workout_routes wr
 					WHERE p.include_route AND NOT p.is_auto
 						AND (COALESCE(nsp.share_route_maps, true) OR page.owner_id = $1)
 						AND wr.workout_id = p.workout_id
 				)
 				ELSE (
-					SELECT wr.route FROM workout_routes wr
+					SELECT ${privacyTrimmedRouteSql("wr.route", "page.owner_id", "$1")}
+					  FROM workout_routes wr
 					-- Withheld on a multi-segment rollup: the anchor's trace is only
 					-- the LAST leg, so drawing it under a combined "1.06 mi" stat
 					-- line labels a 0.40-mile loop as the whole mile. Clients fall
@@ -1961,6 +2008,8 @@ const FEED_ENTRY_PROJECTION = `
 				WHEN page.kind = 'post' THEN (
 					SELECT COUNT(*)::int FROM post_comments pc
 					WHERE pc.deleted_at IS NULL
+						AND ${notShadowBannedSql("pc.user_id", "$1")}
+						AND ${visibleUnlessHeldSql("pc", "$1")}
 						AND (
 							pc.post_id = p.post_id
 							OR (page.workout_id IS NOT NULL AND pc.workout_id = page.workout_id)
@@ -1969,6 +2018,8 @@ const FEED_ENTRY_PROJECTION = `
 				ELSE (
 					SELECT COUNT(*)::int FROM post_comments pc
 					WHERE pc.workout_id = wt.workout_id AND pc.deleted_at IS NULL
+						AND ${notShadowBannedSql("pc.user_id", "$1")}
+						AND ${visibleUnlessHeldSql("pc", "$1")}
 				)
 			END AS comment_count,
 			-- FRESH chip, for every viewer. Truth order: the client's own claim
@@ -2338,7 +2389,8 @@ export async function getPublicPostPreview(
     `SELECT p.post_id::text AS post_id, u.username, u.first_name
 		 FROM posts p
 		 JOIN users u ON u.user_id = p.user_id
-		 WHERE p.post_id = $1::uuid AND p.deleted_at IS NULL AND p.share_to_feed`,
+		 WHERE p.post_id = $1::uuid AND p.deleted_at IS NULL AND p.share_to_feed
+			 AND p.held_at IS NULL`,
     [postId],
   );
   return rows[0] ?? null;
@@ -2448,6 +2500,8 @@ const userGridWhere = (
 				OR (p.coauthor_user_id = ${author} AND ${COLLAB_ACTIVE}
 					AND ${coauthorOnProfileSql("p", author)}))
 			AND p.deleted_at IS NULL
+			AND ${visibleUnlessHeldSql("p", viewer)}
+			AND ${notShadowBannedSql("p.user_id", viewer)}
 			AND (
 				p.share_to_feed
 				OR (
@@ -2694,6 +2748,7 @@ export async function getUserTaggedPosts(
 		JOIN users u ON u.user_id = p.user_id
 		WHERE p.deleted_at IS NULL
 			AND p.share_to_feed
+			AND ${visibleUnlessHeldSql("p", "$1")}
 			AND p.user_id <> $2
 			AND (
 				(p.coauthor_user_id = $2 AND ${COLLAB_ACTIVE})
@@ -2755,6 +2810,10 @@ export async function notifyFriendsOfPost(input: {
 }): Promise<void> {
   const { authorId, postId, caption, toFeed, toStory, localDate } = input;
   try {
+    // A shadow-banned author's posts reach no one else's feed; a push to
+    // their friends would announce a post the friends can't open.
+    if (await isShadowBanned(authorId)) return;
+
     const trimmedCaption = caption?.trim() ?? "";
     const storyOnly = toStory && !toFeed;
     const mergedBody =
@@ -2880,6 +2939,8 @@ export interface VisiblePostAuthors {
  * is the viewer; the post predicate (`p.post_id = ...`) is the caller's.
  */
 const DIRECT_POST_ACCESS_SQL = `p.deleted_at IS NULL AND p.share_to_feed
+			 AND ${visibleUnlessHeldSql("p", "$1")}
+			 AND ${notShadowBannedSql("p.user_id", "$1")}
 			 AND ${AUTHOR_VISIBLE_TO_VIEWER}
 			 AND (p.user_id = $1
 				 OR p.coauthor_user_id = $1
@@ -3278,6 +3339,7 @@ export async function visibleWorkoutAuthor(
 			 AND w.exclusion_reason IS NULL
 			 AND (w.user_id = $1 OR COALESCE(ns.share_workouts_to_feed, true) = true)
 			 AND (w.user_id = $1 OR ${OWNER_NOT_PRIVATE_SQL("w.user_id")})
+			 AND ${notShadowBannedSql("w.user_id", "$1")}
 			 AND (w.user_id = $1 OR EXISTS (
 				 SELECT 1 FROM friendships f
 				 WHERE f.user_id = $1 AND f.friend_id = w.user_id
@@ -3606,6 +3668,9 @@ export type UpdatePostResult = "ok" | "not_found" | "feed_conflict";
  * Promotion honors the one-feed-post-per-workout slot the same way createPost
  * does: an existing AUTO route/stats card for the run is soft-deleted and
  * replaced; an existing deliberate user post returns "feed_conflict" (409).
+ *
+ * An edited caption is screened like a new one: a "hold" verdict puts the post
+ * back under review and every finding is filed to the report queue.
  */
 export async function updateOwnPost(
   authorId: string,
@@ -3634,13 +3699,22 @@ export async function updateOwnPost(
   }
 
   if (updates.caption !== undefined) {
+    const screening = updates.caption
+      ? await screenText(updates.caption)
+      : null;
+    // A clean caption never lifts an existing hold — the photo may be what's
+    // under review.
     const rows = await db.query<{ post_id: string }>(
-      `UPDATE posts SET caption = $3
+      `UPDATE posts SET caption = $3,
+				held_at = CASE WHEN $4 THEN COALESCE(held_at, NOW()) ELSE held_at END
 			 WHERE post_id = $1 AND user_id = $2 AND deleted_at IS NULL
 			 RETURNING post_id`,
-      [postId, authorId, updates.caption],
+      [postId, authorId, updates.caption, screening?.verdict === "hold"],
     );
     if (rows.length === 0) return "not_found";
+    if (screening) {
+      await fileScreeningReports("post", postId, screening.findings);
+    }
   }
 
   if (updates.addToFeed === true) {
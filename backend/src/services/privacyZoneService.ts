@@ -0,0 +1,192 @@
+import { PostgresService } from "./DbService.js";
+import { BadRequestError } from "../errors/Errors.js";
+import { haversineMeters, type LatLng } from "./geo.js";
+import type { PrivacyZone } from "../types/privacyZones.js";
+
+/**
+ * Privacy zones: circles around home, work, a kid's school — anywhere a route
+ * map would say where someone can be found.
+ *
+ * Zones are applied when a route is READ, never when it's stored: every
+ * surface that hands a trace to someone other than its owner goes through
+ * `privacyTrimmedRouteSql`, which drops each point inside one of the owner's
+ * zones. A zone added today therefore covers every route already on file,
+ * deleting it restores them, and the workout's distance, pace and splits —
+ * which never came from the trace — are untouched. A route left with fewer
+ * than two points is withheld entirely, which is what a run that never left
+ * the zone should look like.
+ *
+ * The owner always sees their own full trace, except on the heatmap: that is
+ * the map people screenshot, so it is trimmed for them too
+ * (`splitRouteOutsideZones`). Segments are public, so one can't be cut
+ * through its creator's zone, and a runner sits out the board of any segment
+ * that starts or ends in one of theirs.
+ */
+
+const db = PostgresService.getInstance();
+
+const MAX_ZONES_PER_USER = 5;
+const MIN_RADIUS_METERS = 100;
+const MAX_RADIUS_METERS = 1600;
+const NAME_MAX_LENGTH = 40;
+
+const ISO_TS = `'YYYY-MM-DD"T"HH24:MI:SS.MS"Z"'`;
+
+const ZONE_COLUMNS = `pz.id::text AS id, pz.name, pz.lat, pz.lng, pz.radius_meters,
+	to_char(pz.created_at AT TIME ZONE 'UTC', ${ISO_TS}) AS created_at`;
+
+/**
+ * SQL: whether the point (`latExpr`, `lngExpr`) lies inside the zone row
+ * aliased `zone`. Equirectangular, which is exact to well under a metre over
+ * a zone's radius. Arguments are spliced, so literals you wrote only.
+ */
+export function insideZoneSql(
+  latExpr: string,
+  lngExpr: string,
+  zone: string = "pz",
+): string {
+  return `sqrt(
+		power((${latExpr} - ${zone}.lat) * 111320, 2)
+		+ power((${lngExpr} - ${zone}.lng) * 111320 * cos(radians(${zone}.lat)), 2)
+	) < ${zone}.radius_meters`;
+}
+
+/**
+ * SQL: `routeExpr` (a jsonb `[[lat, lng], ...]`) as `viewerExpr` may see it —
+ * untouched for the owner or an owner with no zones, otherwise without the
+ * points inside any of `ownerExpr`'s zones, and NULL if fewer than two remain.
+ *
+ * All three arguments are spliced as SQL, so they must be literals you wrote
+ * (a column, a parameter like `$1`) — never user input.
+ */
+export function privacyTrimmedRouteSql(
+  routeExpr: string,
+  ownerExpr: string,
+  viewerExpr: string,
+): string {
+  return `(CASE
+		WHEN ${ownerExpr} = ${viewerExpr}
+			OR NOT EXISTS (SELECT 1 FROM privacy_zones pz WHERE pz.user_id = ${ownerExpr})
+			THEN ${routeExpr}
+		ELSE (
+			SELECT CASE WHEN COUNT(*) >= 2 THEN jsonb_agg(rp.pt ORDER BY rp.ord) END
+			  FROM jsonb_array_elements(${routeExpr}) WITH ORDINALITY AS rp(pt, ord)
+			 WHERE NOT EXISTS (
+				SELECT 1 FROM privacy_zones pz
+				 WHERE pz.user_id = ${ownerExpr}
+				   AND ${insideZoneSql("(rp.pt->>0)::float", "(rp.pt->>1)::float")}
+			 )
+		)
+	END)`;
+}
+
+type ZoneGeometry = Pick<PrivacyZone, "lat" | "lng" | "radius_meters">;
+
+function insideAnyZone(point: LatLng, zones: ZoneGeometry[]): boolean {
+  return zones.some(
+    (z) => haversineMeters(point[0], point[1], z.lat, z.lng) < z.radius_meters,
+  );
+}
+
+/**
+ * The pieces of a route that lie outside every zone, for callers that draw
+ * each piece on its own (the heatmap). Splitting rather than dropping points
+ * keeps a line from being drawn straight across the zone.
+ */
+export function splitRouteOutsideZones(
+  route: LatLng[],
+  zones: ZoneGeometry[],
+): LatLng[][] {
+  if (zones.length === 0) return [route];
+  const pieces: LatLng[][] = [];
+  let current: LatLng[] = [];
+  for (const point of route) {
+    if (insideAnyZone(point, zones)) {
+      if (current.length >= 2) pieces.push(current);
+      current = [];
+    } else {
+      current.push(point);
+    }
+  }
+  if (current.length >= 2) pieces.push(current);
+  return pieces;
+}
+
+/** Whether any point of `path` falls inside one of the zones. */
+export function pathEntersZones(path: LatLng[], zones: ZoneGeometry[]): boolean {
+  return path.some((p) => insideAnyZone(p, zones));
+}
+
+/** The user's zones, oldest first. Only ever returned to the owner. */
+export async function listPrivacyZones(userId: string): Promise<PrivacyZone[]> {
+  return db.query<PrivacyZone>(
+    `SELECT ${ZONE_COLUMNS} FROM privacy_zones pz
+	  WHERE pz.user_id = $1
+	  ORDER BY pz.created_at ASC`,
+    [userId],
+  );
+}
+
+/** Add a zone — `{ lat, lng, radius_meters, name? }`. */
+export async function createPrivacyZone(
+  userId: string,
+  input: {
+    lat?: unknown;
+    lng?: unknown;
+    radius_meters?: unknown;
+    name?: unknown;
+  },
+): Promise<PrivacyZone> {
+  const lat = Number(input.lat);
+  const lng = Number(input.lng);
+  if (input.lat === null || !Number.isFinite(lat) || Math.abs(lat) > 90) {
+    throw new BadRequestError("invalid_lat");
+  }
+  if (input.lng === null || !Number.isFinite(lng) || Math.abs(lng) > 180) {
+    throw new BadRequestError("invalid_lng");
+  }
+  const radius = Number(input.radius_meters);
+  if (
+    !Number.isInteger(radius) ||
+    radius < MIN_RADIUS_METERS ||
+    radius > MAX_RADIUS_METERS
+  ) {
+    throw new BadRequestError("invalid_radius_meters");
+  }
+  let name: string | null = null;
+  if (input.name !== undefined && input.name !== null) {
+    if (typeof input.name !== "string") throw new BadRequestError("invalid_name");
+    const trimmed = input.name.trim();
+    if (trimmed.length > NAME_MAX_LENGTH) {
+      throw new BadRequestError("invalid_name");
+    }
+    name = trimmed || null;
+  }
+
+  // Count and insert in one statement so two quick taps can't both squeeze
+  // under the cap.
+  const rows = await db.query<PrivacyZone>(
+    `WITH created AS (
+		INSERT INTO privacy_zones (user_id, name, lat, lng, radius_meters)
+		SELECT $1, $2, $3, $4, $5
+		 WHERE (SELECT COUNT(*) FROM privacy_zones WHERE user_id = $1) < $6
+		RETURNING *
+	)
+	SELECT ${ZONE_COLUMNS} FROM created pz`,
+    [userId, name, lat, lng, radius, MAX_ZONES_PER_USER],
+  );
+  if (rows.length === 0) throw new BadRequestError("too_many_zones");
+  return rows[0];
+}
+
+/** Remove one of the user's zones. */
+export async function deletePrivacyZone(
+  userId: string,
+  zoneId: string,
+): Promise<void> {
+  const rows = await db.query(
+    `DELETE FROM privacy_zones WHERE id::text = $1 AND user_id = $2 RETURNING id`,
+    [zoneId, userId],
+  );
+  if (rows.length === 0) throw new BadRequestError("zone_not_found");
+}
@@ -1,6 +1,7 @@
 import { PostgresService } from "./DbService.js";
 import {
   getNotificationPreferences,
+  isUserInQuietHours,
   shouldSendNotification,
 } from "./notificationSettingsService.js";
 import {
@@ -13,11 +14,13 @@ import {
 import { hasUnlimitedActions } from "./privilegedUsers.js";
 import { normalizeClientFeatures } from "./clientFeatures.js";
 import { logError } from "./errorLogService.js";
-import { START_OF_TODAY_ET_SQL } from "./dailyResetTime.js";
+import { START_OF_TODAY_ET_SQL, localNowSql } from "./dailyResetTime.js";
 import fs from "fs";
 import path from "path";
 import http2 from "http2";
 import jwt from "jsonwebtoken";
+import { fcmTransport } from "./fcmTransport.js";
+import { BadRequestError } from "../errors/Errors.js";
 
 const db = PostgresService.getInstance();
 
@@ -28,9 +31,13 @@ const APNS_KEY_ID = process.env.APNS_KEY_ID;
 const APNS_TEAM_ID = process.env.APNS_TEAM_ID;
 const APNS_BUNDLE_ID = process.env.APNS_BUNDLE_ID;
 const APNS_PRODUCTION = process.env.APNS_PRODUCTION === "true";
-type DeviceTokenEnvironment = "production" | "sandbox";
+// Point every APNs send at one host, e.g. a local mock push server
+// (scripts/push-transport-check.mjs). Unset in every real deployment.
+const APNS_HOST = process.env.APNS_HOST;
+export type DeviceTokenEnvironment = "production" | "sandbox";
 
 function apnsHostForEnvironment(environment: DeviceTokenEnvironment): string {
+  if (APNS_HOST) return APNS_HOST;
   return environment === "production"
     ? "https://api.push.apple.com"
     : "https://api.sandbox.push.apple.com";
@@ -224,9 +231,27 @@ export type NotificationType =
   // are high-priority, so quiet hours and the daily cap both apply.
   | "weekly_challenge_new"
   | "weekly_challenge_nudge"
-  | "weekly_challenge_complete";
-
-interface PushPayload {
+  | "weekly_challenge_complete"
+  // Head-to-head rematches. Gated PER RECIPIENT on CLIENT_FEATURES.h2hRematchV1
+  // for the same reason as the weekly types: new strings, no route on shipped
+  // builds. The invite is an ordinary invite — quiet hours and the cap apply.
+  | "h2h_rematch_invite"
+  | "h2h_rematch_accepted"
+  | "h2h_rematch_result"
+  // A moderator's warning about reported content, sent from the admin report
+  // queue. Not high-priority: it is never urgent, and quiet hours apply.
+  | "moderation_warning"
+  // "Your account was signed in on a new device." A security notice: the
+  // owner needs it now, not at the morning flush, so it is high-priority. The
+  // text stands on its own, so builds without a route for the type just open
+  // the app.
+  | "new_sign_in"
+  // The one summary push for users on digest_mode hourly/daily (see
+  // DIGEST_TYPES). Ungated: only builds that show the digest setting can turn
+  // it on, and those builds route the type to the inbox.
+  | "activity_digest";
+
+export interface PushPayload {
   title: string;
   body: string;
   type: NotificationType;
@@ -244,19 +269,78 @@ interface PushPayload {
   badge?: number;
 }
 
+// ─── Transports ──────────────────────────────────────────────────────
+//
+// Each device_tokens row belongs to one platform, and each platform has one
+// transport: APNs for iOS (below), FCM HTTP v1 for Android (fcmTransport.ts).
+// A transport only DELIVERS and CLASSIFIES. Whether a rejection means the
+// token is dead is the transport's call, since only it can read its
+// provider's error shapes; deleting the row is done here, once, for both.
+
+export type DevicePlatform = "ios" | "android";
+
+/** "dead" = the provider says this token will never work again; prune it. */
+export type PushResult = "sent" | "dead" | "failed";
+
+export interface DeviceTarget {
+  token: string;
+  /** APNs host selection; FCM has one endpoint and ignores it. */
+  environment: DeviceTokenEnvironment;
+}
+
+export interface PushTransport {
+  readonly name: string;
+  send(
+    target: DeviceTarget,
+    payload: PushPayload,
+    userId?: string,
+  ): Promise<PushResult>;
+  sendSilent(
+    target: DeviceTarget,
+    type: string,
+    data: Record<string, string>,
+  ): Promise<PushResult>;
+}
+
+// Pre-Android rows have no platform recorded and are all iOS.
+export function normalizePlatform(platform?: string | null): DevicePlatform {
+  return platform === "android" ? "android" : "ios";
+}
+
+interface DeviceTokenRow {
+  device_token: string;
+  environment: string | null;
+  platform: string | null;
+}
+
+async function deliverToDevice(
+  row: DeviceTokenRow,
+  send: (transport: PushTransport, target: DeviceTarget) => Promise<PushResult>,
+): Promise<boolean> {
+  const transport = TRANSPORTS[normalizePlatform(row.platform)];
+  const result = await send(transport, {
+    token: row.device_token,
+    environment: normalizeTokenEnvironment(row.environment),
+  });
+  if (result === "dead") {
+    removeInvalidToken(row.device_token).catch(() => {});
+  }
+  return result === "sent";
+}
+
 // Send a push notification to a single device token via HTTP/2
 function sendToDevice(
   deviceToken: string,
   payload: PushPayload,
   userId?: string,
   environment: DeviceTokenEnvironment = defaultTokenEnvironment(),
-): Promise<boolean> {
+): Promise<PushResult> {
   const tokenTail = deviceToken.slice(-8);
   return new Promise((resolve) => {
     const token = getApnsToken();
     if (!token || !APNS_BUNDLE_ID) {
       console.warn("[Push] APNs not configured, skipping push");
-      resolve(false);
+      resolve("failed");
       return;
     }
 
@@ -283,7 +367,7 @@ function sendToDevice(
         context: { type: payload.type, tokenTail, phase: "connect" },
       });
       client.close();
-      resolve(false);
+      resolve("failed");
     });
 
     const req = client.request({
@@ -310,7 +394,7 @@ function sendToDevice(
     req.on("end", () => {
       client.close();
       if (statusCode === 200) {
-        resolve(true);
+        resolve("sent");
       } else {
         console.error(`[Push] APNs error ${statusCode}: ${responseData}`);
         logError("push", `APNs error ${statusCode}`, {
@@ -323,10 +407,7 @@ function sendToDevice(
             response: responseData?.slice(0, 500),
           },
         });
-        if (isDeadToken(statusCode, responseData)) {
-          removeInvalidToken(deviceToken).catch(() => {});
-        }
-        resolve(false);
+        resolve(isDeadToken(statusCode, responseData) ? "dead" : "failed");
       }
     });
 
@@ -337,7 +418,7 @@ function sendToDevice(
         context: { type: payload.type, tokenTail, phase: "request" },
       });
       client.close();
-      resolve(false);
+      resolve("failed");
     });
 
     req.write(apnsPayload);
@@ -454,6 +535,27 @@ const HIGH_PRIORITY_TYPES: NotificationType[] = [
   // mile's "you did it" to tomorrow's flush is exactly the flakiness this
   // push exists to fix.
   "goal_reached",
+  // Someone may be in the account right now; the owner can't act on that
+  // from a notification delivered after quiet hours end.
+  "new_sign_in",
+];
+
+/**
+ * Non-urgent social types that a user on digest_mode 'hourly' or 'daily' gets
+ * folded into one activity_digest push instead of one push each. The inbox row
+ * is still written when the event happens; only the banner waits.
+ *
+ * Deliberately no friend_request, mentions or comments: someone asking
+ * something of the user shouldn't sit in a summary until the evening.
+ */
+const DIGEST_TYPES: NotificationType[] = [
+  "friend_activity",
+  "hype_received",
+  "friend_badge_earned",
+  "friend_personal_best",
+  "friend_challenge_completed",
+  "friend_post",
+  "story_reaction",
 ];
 
 async function getDailyNotificationCount(userId: string): Promise<number> {
@@ -478,33 +580,12 @@ async function logNotificationSent(
   );
 }
 
-async function isUserInQuietHours(userId: string): Promise<boolean> {
-  const prefs = await getNotificationPreferences(userId);
-  if (prefs.quiet_hours_start === null || prefs.quiet_hours_end === null)
-    return false;
-
-  const now = new Date();
-  const etHour = parseInt(
-    new Intl.DateTimeFormat("en-US", {
-      timeZone: "America/New_York",
-      hour: "numeric",
-      hour12: false,
-    }).format(now),
-  );
-
-  if (prefs.quiet_hours_start > prefs.quiet_hours_end) {
-    // Spans midnight (e.g., 22 to 8)
-    return etHour >= prefs.quiet_hours_start || etHour < prefs.quiet_hours_end;
-  }
-  return etHour >= prefs.quiet_hours_start && etHour < prefs.quiet_hours_end;
-}
-
 // ─── Public API ──────────────────────────────────────────────────────
 
 export async function sendPush(
   userId: string,
   payload: PushPayload,
-  opts: { bypassDailyCap?: boolean } = {},
+  opts: { bypassDailyCap?: boolean; pushOnly?: boolean } = {},
 ): Promise<void> {
   // ONE expression for "does this push consume a unit of the 18/day budget",
   // read by every notification_log write below so the throttle check and the
@@ -513,6 +594,37 @@ export async function sendPush(
   //     either, or a busy day of hypes starves the reminders the cap rations.
   //   - a flush: the row was already charged when it was queued (see FLUSH_OPTS).
   const chargesBudget = !opts.bypassDailyCap && !isCapExempt(payload.type);
+  // `pushOnly`: the inbox already holds these rows (the digest summary), so
+  // only the banner goes out.
+  const storeInApp = () => {
+    if (opts.pushOnly) return;
+    storeInAppNotification(userId, payload).catch((err) =>
+      console.error("[Push] Error storing in-app notification:", err.message),
+    );
+  };
+
+  // Digest users: park the push for flushDigestNotifications. Not charged —
+  // the summary is charged once when it goes out. A flush (bypassDailyCap)
+  // is already deferred delivery and is never re-parked.
+  if (!opts.bypassDailyCap && DIGEST_TYPES.includes(payload.type)) {
+    const prefs = await getNotificationPreferences(userId);
+    if (prefs.digest_mode !== "off") {
+      await db.query(
+        `INSERT INTO pending_notifications (user_id, type, competition_id, competition_name, digest, data)
+				VALUES ($1, $2, $3, $4, TRUE, $5)`,
+        [
+          userId,
+          payload.type,
+          payload.data?.competition_id ?? null,
+          payload.title,
+          JSON.stringify(payload.data ?? {}),
+        ],
+      );
+      storeInApp();
+      return;
+    }
+  }
+
   // Check user's custom quiet hours
   if (!HIGH_PRIORITY_TYPES.includes(payload.type)) {
     const inQuiet = await isUserInQuietHours(userId);
@@ -521,8 +633,8 @@ export async function sendPush(
         `[Push] Quiet hours for user ${userId}, queueing "${payload.type}"`,
       );
       await db.query(
-        `INSERT INTO pending_notifications (user_id, type, competition_id, competition_name)
-				VALUES ($1, $2, $3, $4)`,
+        `INSERT INTO pending_notifications (user_id, type, competition_id, competition_name, held_for_quiet)
+				VALUES ($1, $2, $3, $4, TRUE)`,
         [
           userId,
           payload.type,
@@ -532,9 +644,7 @@ export async function sendPush(
       );
       if (chargesBudget) await logNotificationSent(userId, payload.type);
       // Still store in inbox so user can see it later
-      storeInAppNotification(userId, payload).catch((err) =>
-        console.error("[Push] Error storing in-app notification:", err.message),
-      );
+      storeInApp();
       return;
     }
 
@@ -560,36 +670,27 @@ export async function sendPush(
       );
       if (chargesBudget) await logNotificationSent(userId, payload.type);
       // Still store in inbox
-      storeInAppNotification(userId, payload).catch((err) =>
-        console.error("[Push] Error storing in-app notification:", err.message),
-      );
+      storeInApp();
       return;
     }
   }
 
-  const tokens = await db.query<{
-    device_token: string;
-    environment: string | null;
-  }>("SELECT device_token, environment FROM device_tokens WHERE user_id = $1", [
-    userId,
-  ]);
+  const tokens = await db.query<DeviceTokenRow>(
+    "SELECT device_token, environment, platform FROM device_tokens WHERE user_id = $1",
+    [userId],
+  );
 
   if (tokens.length === 0) {
     console.log(`[Push] No device tokens found for user ${userId}`);
     // Still store in inbox even without device tokens
-    storeInAppNotification(userId, payload).catch((err) =>
-      console.error("[Push] Error storing in-app notification:", err.message),
-    );
+    storeInApp();
     return;
   }
 
   const results = await Promise.all(
-    tokens.map(({ device_token, environment }) =>
-      sendToDevice(
-        device_token,
-        payload,
-        userId,
-        normalizeTokenEnvironment(environment),
+    tokens.map((row) =>
+      deliverToDevice(row, (transport, target) =>
+        transport.send(target, payload, userId),
       ),
     ),
   );
@@ -603,9 +704,7 @@ export async function sendPush(
   }
 
   // Always store in-app notification regardless of push delivery
-  storeInAppNotification(userId, payload).catch((err) =>
-    console.error("[Push] Error storing in-app notification:", err.message),
-  );
+  storeInApp();
 }
 
 async function storeInAppNotification(
@@ -630,20 +729,32 @@ export async function registerDeviceToken(
   deviceToken: string,
   environment?: string | null,
   clientFeatures?: unknown,
+  platform?: string | null,
 ): Promise<void> {
-  const tokenEnvironment = normalizeTokenEnvironment(environment);
+  // Absent means an iOS build from before Android; anything else must be a
+  // platform we can deliver to, or the token would be sent through APNs.
+  if (platform != null && platform !== "ios" && platform !== "android") {
+    throw new BadRequestError("invalid_platform");
+  }
+  const tokenPlatform = normalizePlatform(platform);
+  // APNs sandbox vs production is an iOS notion; FCM has one endpoint.
+  const tokenEnvironment =
+    tokenPlatform === "android"
+      ? "production"
+      : normalizeTokenEnvironment(environment);
   // Overwritten on every registration, never merged: capabilities belong to
   // the build currently installed, and a downgrade (or a reinstall of an
   // older TestFlight build) has to be able to take them away again.
   const features = normalizeClientFeatures(clientFeatures);
   await db.query(
-    `INSERT INTO device_tokens (user_id, device_token, environment, client_features)
-		VALUES ($1, $2, $3, $4)
+    `INSERT INTO device_tokens (user_id, device_token, environment, client_features, platform)
+		VALUES ($1, $2, $3, $4, $5)
 		ON CONFLICT (user_id, device_token)
 		DO UPDATE SET environment = EXCLUDED.environment,
 			client_features = EXCLUDED.client_features,
+			platform = EXCLUDED.platform,
 			updated_at = NOW()`,
-    [userId, deviceToken, tokenEnvironment, features],
+    [userId, deviceToken, tokenEnvironment, features, tokenPlatform],
   );
 }
 
@@ -668,12 +779,12 @@ function sendSilentPushToDevice(
   type: string,
   data: Record<string, string> = {},
   environment: DeviceTokenEnvironment = defaultTokenEnvironment(),
-): Promise<boolean> {
+): Promise<PushResult> {
   return new Promise((resolve) => {
     const token = getApnsToken();
     if (!token || !APNS_BUNDLE_ID) {
       console.warn("[Push] APNs not configured, skipping silent push");
-      resolve(false);
+      resolve("failed");
       return;
     }
 
@@ -688,7 +799,7 @@ function sendSilentPushToDevice(
     client.on("error", (err) => {
       console.error("[Push] Silent HTTP/2 connection error:", err.message);
       client.close();
-      resolve(false);
+      resolve("failed");
     });
 
     const req = client.request({
@@ -715,22 +826,19 @@ function sendSilentPushToDevice(
     req.on("end", () => {
       client.close();
       if (statusCode === 200) {
-        resolve(true);
+        resolve("sent");
       } else {
         console.error(
           `[Push] Silent APNs error ${statusCode}: ${responseData}`,
         );
-        if (isDeadToken(statusCode, responseData)) {
-          removeInvalidToken(deviceToken).catch(() => {});
-        }
-        resolve(false);
+        resolve(isDeadToken(statusCode, responseData) ? "dead" : "failed");
       }
     });
 
     req.on("error", (err) => {
       console.error("[Push] Silent request error:", err.message);
       client.close();
-      resolve(false);
+      resolve("failed");
     });
 
     req.write(apnsPayload);
@@ -738,6 +846,19 @@ function sendSilentPushToDevice(
   });
 }
 
+export const apnsTransport: PushTransport = {
+  name: "apns",
+  send: (target, payload, userId) =>
+    sendToDevice(target.token, payload, userId, target.environment),
+  sendSilent: (target, type, data) =>
+    sendSilentPushToDevice(target.token, type, data, target.environment),
+};
+
+const TRANSPORTS: Record<DevicePlatform, PushTransport> = {
+  ios: apnsTransport,
+  android: fcmTransport,
+};
+
 /**
  * Send a silent (content-available) push to every registered device of a user.
  * Skips throttling, quiet hours, in-app inbox storage, and notification_log writes.
@@ -748,21 +869,16 @@ export async function sendSilentPushToUser(
   type: string,
   data: Record<string, string> = {},
 ): Promise<number> {
-  const tokens = await db.query<{
-    device_token: string;
-    environment: string | null;
-  }>("SELECT device_token, environment FROM device_tokens WHERE user_id = $1", [
-    userId,
-  ]);
+  const tokens = await db.query<DeviceTokenRow>(
+    "SELECT device_token, environment, platform FROM device_tokens WHERE user_id = $1",
+    [userId],
+  );
   if (tokens.length === 0) return 0;
 
   const results = await Promise.all(
-    tokens.map(({ device_token, environment }) =>
-      sendSilentPushToDevice(
-        device_token,
-        type,
-        data,
-        normalizeTokenEnvironment(environment),
+    tokens.map((row) =>
+      deliverToDevice(row, (transport, target) =>
+        transport.sendSilent(target, type, data),
       ),
     ),
   );
@@ -771,29 +887,24 @@ export async function sendSilentPushToUser(
 
 // ─── Quiet Hours & Batching ──────────────────────────────────────────
 
-function isQuietHours(): boolean {
-  const now = new Date();
-  const etHour = parseInt(
-    new Intl.DateTimeFormat("en-US", {
-      timeZone: "America/New_York",
-      hour: "numeric",
-      hour12: false,
-    }).format(now),
-  );
-  // Quiet hours: 10 PM (22) through 9:59 AM (9)
-  return etHour >= 22 || etHour < 10;
-}
-
+/**
+ * competition_started/finished are HIGH_PRIORITY, so sendPush never holds
+ * them; this is their quiet-hours gate instead. Competitions resolve at their
+ * own local midnight, which is anyone's hour for a participant elsewhere, so
+ * a recipient without quiet hours is still held overnight on their clock.
+ * Held rows are marked held_for_quiet so the hourly catch-up sends them, as
+ * one competition digest, once the recipient's night or snooze is over.
+ */
 export async function sendOrQueueCompetitionNotification(
   userId: string,
   type: "competition_started" | "competition_finished",
   competitionId: string,
   competitionName: string,
 ): Promise<void> {
-  if (isQuietHours()) {
+  if (await isUserInQuietHours(userId, { overnightDefault: true })) {
     await db.query(
-      `INSERT INTO pending_notifications (user_id, type, competition_id, competition_name)
-			VALUES ($1, $2, $3, $4)`,
+      `INSERT INTO pending_notifications (user_id, type, competition_id, competition_name, held_for_quiet)
+			VALUES ($1, $2, $3, $4, TRUE)`,
       [userId, type, competitionId, competitionName],
     );
   } else {
@@ -843,113 +954,290 @@ interface PendingNotification {
  */
 const FLUSH_OPTS = { bypassDailyCap: true } as const;
 
-export async function flushBatchedNotifications(): Promise<void> {
+const isCompetitionBatchType = (type: string) =>
+  type === "competition_started" || type === "competition_finished";
+
+/**
+ * The per-user loop both flushes share: group rows by user, leave anyone still
+ * inside their quiet hours or a snooze (`onHeld` sees their rows), otherwise
+ * hand the batch to `send` and mark it sent straight after — per user, so a
+ * failure part-way through never resends a batch that already went out.
+ */
+async function drainByUser<T extends { id: string; user_id: string }>(
+  rows: T[],
+  send: (userId: string, batch: T[]) => Promise<void>,
+  {
+    overnightDefault = () => false,
+    onHeld,
+  }: {
+    overnightDefault?: (batch: T[]) => boolean;
+    onHeld?: (batch: T[]) => Promise<void>;
+  } = {},
+): Promise<{ users: number; rows: number }> {
+  const byUser: Record<string, T[]> = {};
+  for (const row of rows) {
+    if (!byUser[row.user_id]) byUser[row.user_id] = [];
+    byUser[row.user_id].push(row);
+  }
+
+  const sent = { users: 0, rows: 0 };
+  for (const [userId, batch] of Object.entries(byUser)) {
+    if (
+      await isUserInQuietHours(userId, {
+        overnightDefault: overnightDefault(batch),
+      })
+    ) {
+      await onHeld?.(batch);
+      continue;
+    }
+    await send(userId, batch);
+    await db.query(
+      `UPDATE pending_notifications SET sent_at = NOW() WHERE id = ANY($1::uuid[])`,
+      [batch.map((n) => n.id)],
+    );
+    sent.users++;
+    sent.rows += batch.length;
+  }
+  return sent;
+}
+
+/**
+ * Drains pending_notifications. Users still inside their own quiet hours or a
+ * snooze are skipped, so the 9 AM ET run never wakes a user whose night isn't
+ * over; their rows are marked held_for_quiet and wait for the catch-up.
+ *
+ * `heldOnly` is that hourly catch-up: it drains ONLY held_for_quiet rows, for
+ * users whose window has ended. Rows the daily cap parked stay for the next
+ * morning run — draining them hourly would undo the cap.
+ */
+export async function flushBatchedNotifications({
+  heldOnly = false,
+}: { heldOnly?: boolean } = {}): Promise<void> {
   const pending = await db.query<PendingNotification>(
     `SELECT id, user_id, type, competition_id, competition_name
 		FROM pending_notifications
-		WHERE sent_at IS NULL
+		WHERE sent_at IS NULL AND NOT digest
+		  AND (NOT $1::boolean OR held_for_quiet)
 		ORDER BY user_id, created_at`,
+    [heldOnly],
   );
 
   if (pending.length === 0) return;
 
-  // Group by user
-  const byUser: Record<string, PendingNotification[]> = {};
-  for (const row of pending) {
-    if (!byUser[row.user_id]) byUser[row.user_id] = [];
-    byUser[row.user_id].push(row);
-  }
+  const flushed = await drainByUser(pending, sendBatchedNotifications, {
+    // Held competition results wait out the same overnight default they
+    // were held for (sendOrQueueCompetitionNotification).
+    overnightDefault: (batch) =>
+      batch.some((n) => isCompetitionBatchType(n.type)),
+    onHeld: heldOnly
+      ? undefined
+      : async (batch) => {
+          await db.query(
+            `UPDATE pending_notifications SET held_for_quiet = TRUE
+					WHERE id = ANY($1::uuid[])`,
+            [batch.map((n) => n.id)],
+          );
+        },
+  });
 
-  for (const [userId, notifications] of Object.entries(byUser)) {
-    const compNotifs = notifications.filter(
-      (n) =>
-        n.type === "competition_started" || n.type === "competition_finished",
-    );
-    const otherNotifs = notifications.filter(
-      (n) =>
-        n.type !== "competition_started" && n.type !== "competition_finished",
+  if (flushed.users === 0) return;
+  console.log(
+    `[Push] Flushed ${flushed.rows} batched notifications for ${flushed.users} users`,
+  );
+}
+
+async function sendBatchedNotifications(
+  userId: string,
+  notifications: PendingNotification[],
+): Promise<void> {
+  const compNotifs = notifications.filter((n) =>
+    isCompetitionBatchType(n.type),
+  );
+  const otherNotifs = notifications.filter(
+    (n) => !isCompetitionBatchType(n.type),
+  );
+
+  // Handle competition start/finish notifications (batch into digest)
+  if (compNotifs.length > 0) {
+    const starts = compNotifs.filter((n) => n.type === "competition_started");
+    const finishes = compNotifs.filter(
+      (n) => n.type === "competition_finished",
     );
 
-    // Handle competition start/finish notifications (batch into digest)
-    if (compNotifs.length > 0) {
-      const starts = compNotifs.filter((n) => n.type === "competition_started");
-      const finishes = compNotifs.filter(
-        (n) => n.type === "competition_finished",
-      );
+    let title: string;
+    let body: string;
+    let type: NotificationType;
+
+    if (starts.length > 0 && finishes.length > 0) {
+      title = "Competition updates";
+      body =
+        "You have several updates to your competitions — open to check in";
+      type = "competition_updates";
+    } else if (starts.length === 1) {
+      title = "Competition started";
+      body = `${starts[0].competition_name} has begun!`;
+      type = "competition_started";
+    } else if (starts.length > 1) {
+      title = "Competitions started";
+      body = "Multiple competitions have started — open to check in";
+      type = "competition_started";
+    } else if (finishes.length === 1) {
+      title = "Competition finished";
+      body = `${finishes[0].competition_name} has finished!`;
+      type = "competition_finished";
+    } else {
+      title = "Competitions finished";
+      body = "Multiple competitions have finished — open to check in";
+      type = "competition_finished";
+    }
 
-      let title: string;
-      let body: string;
-      let type: NotificationType;
-
-      if (starts.length > 0 && finishes.length > 0) {
-        title = "Competition updates";
-        body =
-          "You have several updates to your competitions — open to check in";
-        type = "competition_updates";
-      } else if (starts.length === 1) {
-        title = "Competition started";
-        body = `${starts[0].competition_name} has begun!`;
-        type = "competition_started";
-      } else if (starts.length > 1) {
-        title = "Competitions started";
-        body = "Multiple competitions have started — open to check in";
-        type = "competition_started";
-      } else if (finishes.length === 1) {
-        title = "Competition finished";
-        body = `${finishes[0].competition_name} has finished!`;
-        type = "competition_finished";
-      } else {
-        title = "Competitions finished";
-        body = "Multiple competitions have finished — open to check in";
-        type = "competition_finished";
-      }
+    // NO FLUSH_OPTS here, deliberately: competition_started/finished are the
+    // one kind queued by sendOrQueueCompetitionNotification, which inserts
+    // straight into pending_notifications without charging the ledger. They
+    // are also HIGH_PRIORITY, so sendPush's own queueing branches never see
+    // them — this digest is their FIRST charge, not a second one.
+    await sendPush(userId, { title, body, type });
+  }
 
-      // NO FLUSH_OPTS here, deliberately: competition_started/finished are the
-      // one kind queued by sendOrQueueCompetitionNotification, which inserts
-      // straight into pending_notifications without charging the ledger. They
-      // are also HIGH_PRIORITY, so sendPush's own queueing branches never see
-      // them — this digest is their FIRST charge, not a second one.
-      await sendPush(userId, { title, body, type });
+  // Handle other throttled notifications (send digest summary)
+  if (otherNotifs.length > 0) {
+    if (otherNotifs.length === 1) {
+      // Single throttled notification: send it directly
+      const n = otherNotifs[0];
+      await sendPush(
+        userId,
+        {
+          title: n.competition_name || "Notification", // competition_name stores the original title
+          body: `You have a notification you missed`,
+          type: (n.type as NotificationType) || "competition_updates",
+        },
+        FLUSH_OPTS,
+      );
+    } else {
+      // Multiple: send digest
+      await sendPush(
+        userId,
+        {
+          title: "Catch up on activity",
+          body: `You have ${otherNotifs.length} notifications from while you were away`,
+          type: "competition_updates",
+        },
+        FLUSH_OPTS,
+      );
     }
+  }
+}
 
-    // Handle other throttled notifications (send digest summary)
-    if (otherNotifs.length > 0) {
-      if (otherNotifs.length === 1) {
-        // Single throttled notification: send it directly
-        const n = otherNotifs[0];
-        await sendPush(
-          userId,
-          {
-            title: n.competition_name || "Notification", // competition_name stores the original title
-            body: `You have a notification you missed`,
-            type: (n.type as NotificationType) || "competition_updates",
-          },
-          FLUSH_OPTS,
-        );
-      } else {
-        // Multiple: send digest
-        await sendPush(
-          userId,
-          {
-            title: "Catch up on activity",
-            body: `You have ${otherNotifs.length} notifications from while you were away`,
-            type: "competition_updates",
-          },
-          FLUSH_OPTS,
-        );
-      }
+// ─── Activity Digest ─────────────────────────────────────────────────
+
+interface DigestNotification {
+  id: string;
+  user_id: string;
+  type: NotificationType;
+  data: Record<string, string> | null;
+}
+
+function countOf(n: number, one: string, many = `${one}s`): string {
+  return `${n} ${n === 1 ? one : many}`;
+}
+
+/**
+ * "12 friends finished their mile, 3 hypes, 2 new badges". Miles count
+ * distinct friends, since one friend's mile can reach the same user twice
+ * (a mile and a step goal on the same day); everything else counts events.
+ */
+export function summarizeDigest(
+  rows: Pick<DigestNotification, "type" | "data">[],
+): string {
+  const milers = new Set<string>();
+  const counts: Partial<Record<NotificationType | "friend_update", number>> = {};
+  for (const row of rows) {
+    if (row.type === "friend_activity" && row.data?.kind === "mile_completed") {
+      milers.add(row.data.user_id ?? "");
+      continue;
     }
+    const key = row.type === "friend_activity" ? "friend_update" : row.type;
+    counts[key] = (counts[key] ?? 0) + 1;
   }
 
-  // Mark all as sent
-  const ids = pending.map((n) => n.id);
-  await db.query(
-    `UPDATE pending_notifications SET sent_at = NOW() WHERE id = ANY($1::uuid[])`,
-    [ids],
+  const parts: string[] = [];
+  if (milers.size) {
+    parts.push(`${countOf(milers.size, "friend")} finished their mile`);
+  }
+  const labels: [keyof typeof counts, string, string?][] = [
+    ["hype_received", "hype"],
+    ["friend_badge_earned", "new badge"],
+    ["friend_personal_best", "new PR"],
+    ["friend_challenge_completed", "challenge completed", "challenges completed"],
+    ["friend_post", "new post"],
+    ["story_reaction", "story reaction"],
+    ["friend_update", "friend update"],
+  ];
+  for (const [key, one, many] of labels) {
+    const n = counts[key];
+    if (n) parts.push(countOf(n, one, many));
+  }
+  return parts.join(", ");
+}
+
+/**
+ * Sends one activity_digest push per user whose digest is due: every run for
+ * 'hourly'; for 'daily', any run once their local digest_hour has passed since
+ * the oldest pending row. Rows left behind by a user who has since switched
+ * digests off go out on the next run rather than waiting forever. A user
+ * inside their quiet hours or a snooze is skipped — sendPush would otherwise
+ * queue the digest as an anonymous "missed notification" — and since a daily
+ * digest stays due until it sends, a digest_hour inside the quiet window goes
+ * out on the first run after the window ends.
+ *
+ * Intended to be called once per hour by a cron job, like the daily reminder.
+ */
+export async function flushDigestNotifications(): Promise<void> {
+  const pending = await db.query<DigestNotification>(
+    `WITH waiting AS (
+			SELECT user_id, MIN(created_at) AS oldest
+			FROM pending_notifications
+			WHERE sent_at IS NULL AND digest
+			GROUP BY user_id
+		), due AS (
+			SELECT w.user_id
+			FROM waiting w
+			LEFT JOIN notification_settings ns ON ns.user_id = w.user_id
+			CROSS JOIN LATERAL (SELECT ${localNowSql("w.user_id")} AS local_now) l
+			-- Most recent local digest_hour at or before now; its instant is
+			-- now minus the local time elapsed since it.
+			CROSS JOIN LATERAL (
+				SELECT date_trunc('day', l.local_now - make_interval(hours => ns.digest_hour))
+					+ make_interval(hours => ns.digest_hour) AS last_digest
+			) d
+			WHERE COALESCE(ns.digest_mode, 'off') <> 'daily'
+			   OR w.oldest <= NOW() - (l.local_now - d.last_digest)
+		)
+		SELECT pn.id, pn.user_id, pn.type, pn.data
+		FROM pending_notifications pn
+		JOIN due ON due.user_id = pn.user_id
+		WHERE pn.sent_at IS NULL AND pn.digest
+		ORDER BY pn.user_id, pn.created_at`,
   );
 
+  if (pending.length === 0) return;
+
+  const sent = await drainByUser(pending, async (userId, notifications) => {
+    await sendPush(
+      userId,
+      {
+        title: "Your friends' activity",
+        body: summarizeDigest(notifications),
+        type: "activity_digest",
+        data: { count: String(notifications.length) },
+      },
+      { pushOnly: true },
+    );
+  });
+
+  if (sent.users === 0) return;
   console.log(
-    `[Push] Flushed ${pending.length} batched notifications for ${Object.keys(byUser).length} users`,
+    `[Push] Sent activity digests covering ${sent.rows} notifications for ${sent.users} users`,
   );
 }
 
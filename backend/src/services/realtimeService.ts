@@ -0,0 +1,287 @@
+import type { Response } from "express";
+import { PostgresService } from "./DbService.js";
+import { activeSessionIds } from "./refreshTokenService.js";
+
+const db = PostgresService.getInstance();
+
+/**
+ * Server-push channel for the screens that used to be pure polling: buddy
+ * session rosters and live-tracking presence.
+ *
+ * Server-Sent Events rather than WebSockets. Everything this carries flows
+ * server → client; the client's side of the conversation (progress reports,
+ * heartbeats, hypes) stays on the existing POST endpoints, which already own
+ * validation, clamping and rate limits. SSE also rides plain HTTP through the
+ * same proxy, compression and auth as every other route, with no dependency.
+ *
+ * The stream is a LATENCY optimisation, never the source of truth. It is
+ * in-process and best-effort: no replay, no delivery guarantee, and an event
+ * fired on another instance during a deploy overlap is simply not seen here.
+ * Clients therefore keep the polling endpoints as the fallback — poll while
+ * disconnected, resync once with a normal read after every (re)connect, and
+ * treat events as "here is the newer state" or "go look". `state_version` on
+ * buddy snapshots lets a client drop a snapshot older than one it already has.
+ *
+ * Kill switch: REALTIME_STREAM=false makes GET /realtime/stream answer 503 and
+ * every publish a no-op, which shipped clients read as "keep polling".
+ */
+
+export type RealtimeEvent =
+  /** Full buddy-session snapshot (same shape as GET /buddy/sessions/:id/state). */
+  | "buddy.state"
+  /** The session closed: `{ session_id, winner_user_id }`. */
+  | "buddy.finished"
+  /** A friend started or advanced a live session (LiveFriend shape). */
+  | "live.friend"
+  /** A friend's live session ended: `{ user_id }`. */
+  | "live.friend_ended"
+  /** A mile hype landed on the caller mid-walk (LiveHype shape). */
+  | "live.hype";
+
+/** Comment line every 25s: keeps proxies from idling the socket shut. */
+export const REALTIME_KEEPALIVE_SECONDS = 25;
+
+/** Reconnect delay handed to EventSource via the `retry:` field. */
+export const REALTIME_RETRY_MS = 5000;
+
+/**
+ * Phone + watch + an iPad, with headroom. Opening one more evicts the OLDEST,
+ * since a stale connection from a backgrounded app is far likelier than five
+ * live screens.
+ */
+export const REALTIME_MAX_CONNECTIONS_PER_USER = 4;
+
+/**
+ * A consumer this far behind is gone (suspended app, dead radio). Dropping it
+ * beats buffering snapshots for a reader that will resync on reconnect anyway.
+ */
+const MAX_BUFFERED_BYTES = 256 * 1024;
+
+export function realtimeEnabled(): boolean {
+  return process.env.REALTIME_STREAM !== "false";
+}
+
+interface Connection {
+  userId: string;
+  /** Refresh-token family the stream authenticated with; null for older tokens. */
+  sessionId: string | null;
+  res: Response;
+  openedAt: number;
+}
+
+const connections = new Map<string, Set<Connection>>();
+let nextEventId = 1;
+let keepaliveTimer: NodeJS.Timeout | null = null;
+
+function connectionCount(): number {
+  let n = 0;
+  for (const set of connections.values()) n += set.size;
+  return n;
+}
+
+function ensureKeepalive(): void {
+  if (keepaliveTimer) return;
+  keepaliveTimer = setInterval(() => {
+    for (const set of connections.values()) {
+      for (const conn of set) conn.res.write(": ping\n\n");
+    }
+    void closeRevokedSessions().catch((err) =>
+      console.error("[Realtime] session sweep failed:", err?.message ?? err),
+    );
+  }, REALTIME_KEEPALIVE_SECONDS * 1000);
+  keepaliveTimer.unref();
+}
+
+function closeConnection(conn: Connection): void {
+  const set = connections.get(conn.userId);
+  if (!set?.delete(conn)) return;
+  if (set.size === 0) connections.delete(conn.userId);
+  if (!conn.res.writableEnded) conn.res.end();
+  if (connectionCount() === 0 && keepaliveTimer) {
+    clearInterval(keepaliveTimer);
+    keepaliveTimer = null;
+  }
+}
+
+function write(conn: Connection, event: string, data: unknown): void {
+  if (conn.res.writableLength > MAX_BUFFERED_BYTES) {
+    closeConnection(conn);
+    return;
+  }
+  conn.res.write(
+    `id: ${nextEventId++}\nevent: ${event}\ndata: ${JSON.stringify(data)}\n\n`,
+  );
+}
+
+/**
+ * Sessions revoked on ANOTHER instance never reach closeStreams here; this
+ * catches them within one keepalive interval. A failed lookup keeps streams
+ * open — the next tick retries, and their reconnect would fail closed anyway.
+ */
+async function closeRevokedSessions(): Promise<void> {
+  const sessionIds = new Set<string>();
+  for (const set of connections.values()) {
+    for (const conn of set) if (conn.sessionId) sessionIds.add(conn.sessionId);
+  }
+  if (sessionIds.size === 0) return;
+  const active = await activeSessionIds([...sessionIds]);
+  for (const set of [...connections.values()]) {
+    for (const conn of [...set]) {
+      if (conn.sessionId && !active.has(conn.sessionId)) closeConnection(conn);
+    }
+  }
+}
+
+/**
+ * Take over `res` as an event stream for `userId`. The caller has already
+ * authenticated. The connection unregisters itself when the client goes away.
+ */
+export function openStream(
+  userId: string,
+  res: Response,
+  sessionId: string | null = null,
+): void {
+  res.status(200);
+  res.setHeader("Content-Type", "text/event-stream; charset=utf-8");
+  // no-transform keeps the compression middleware from buffering the stream;
+  // X-Accel-Buffering does the same for an nginx in front.
+  res.setHeader("Cache-Control", "no-cache, no-transform");
+  res.setHeader("Connection", "keep-alive");
+  res.setHeader("X-Accel-Buffering", "no");
+  res.flushHeaders();
+
+  let set = connections.get(userId);
+  if (!set) {
+    set = new Set();
+    connections.set(userId, set);
+  }
+  if (set.size >= REALTIME_MAX_CONNECTIONS_PER_USER) {
+    const oldest = [...set].sort((a, b) => a.openedAt - b.openedAt)[0];
+    closeConnection(oldest);
+    set = connections.get(userId) ?? new Set();
+    connections.set(userId, set);
+  }
+
+  const conn: Connection = { userId, sessionId, res, openedAt: Date.now() };
+  set.add(conn);
+  ensureKeepalive();
+
+  res.write(`retry: ${REALTIME_RETRY_MS}\n\n`);
+  write(conn, "ready", {
+    keepalive_seconds: REALTIME_KEEPALIVE_SECONDS,
+  });
+
+  res.on("close", () => closeConnection(conn));
+}
+
+/**
+ * End the open streams of `userId` — all of them, or only those of one
+ * session. For when they may no longer hear anything (a suspension, a revoked
+ * session): the client's reconnect then meets the same checks as any other
+ * request.
+ */
+export function closeStreams(userId: string, sessionId?: string): void {
+  for (const conn of [...(connections.get(userId) ?? [])]) {
+    if (sessionId === undefined || conn.sessionId === sessionId) {
+      closeConnection(conn);
+    }
+  }
+}
+
+/** Whether anyone at all is listening — lets publishers skip their queries. */
+export function hasSubscribers(): boolean {
+  return connections.size > 0;
+}
+
+/** The subset of `userIds` with at least one open stream. */
+export function connectedAmong(userIds: Iterable<string>): string[] {
+  const out: string[] = [];
+  for (const id of new Set(userIds)) {
+    if (connections.has(id)) out.push(id);
+  }
+  return out;
+}
+
+/** Every user with an open stream. */
+export function connectedUserIds(): string[] {
+  return [...connections.keys()];
+}
+
+/**
+ * Deliver `event` to every open stream of each recipient. `data` may be a
+ * function for per-viewer payloads; returning null skips that viewer.
+ *
+ * Performs NO authorization of its own — callers decide who may see what
+ * (see withoutBlocked / blockedAmong).
+ */
+export function publish(
+  userIds: Iterable<string>,
+  event: RealtimeEvent,
+  data: unknown | ((userId: string) => unknown | null),
+): void {
+  if (!realtimeEnabled()) return;
+  for (const userId of new Set(userIds)) {
+    const set = connections.get(userId);
+    if (!set) continue;
+    const payload =
+      typeof data === "function"
+        ? (data as (userId: string) => unknown | null)(userId)
+        : data;
+    if (payload === null) continue;
+    for (const conn of [...set]) write(conn, event, payload);
+  }
+}
+
+/**
+ * Drop recipients who have blocked, or been blocked by, `actorId`. Blocks are
+ * bidirectional everywhere else in the app, so they are here too.
+ */
+export async function withoutBlocked(
+  actorId: string,
+  recipientIds: string[],
+): Promise<string[]> {
+  if (recipientIds.length === 0) return [];
+  const rows = await db.query<{ user_id: string }>(
+    `SELECT r.user_id
+       FROM unnest($2::text[]) AS r(user_id)
+      WHERE NOT EXISTS (
+        SELECT 1 FROM user_blocks b
+         WHERE (b.blocker_id = $1 AND b.blocked_id = r.user_id)
+            OR (b.blocker_id = r.user_id AND b.blocked_id = $1)
+      )`,
+    [actorId, recipientIds],
+  );
+  return rows.map((r) => r.user_id);
+}
+
+/**
+ * For each viewer, the members of `otherIds` they are blocked with (either
+ * direction). Viewers with no blocks are absent from the map.
+ */
+export async function blockedAmong(
+  viewerIds: string[],
+  otherIds: string[],
+): Promise<Map<string, Set<string>>> {
+  const out = new Map<string, Set<string>>();
+  if (viewerIds.length === 0 || otherIds.length === 0) return out;
+  const rows = await db.query<{ viewer_id: string; other_id: string }>(
+    `SELECT v.user_id AS viewer_id, o.user_id AS other_id
+       FROM unnest($1::text[]) AS v(user_id)
+       JOIN unnest($2::text[]) AS o(user_id) ON o.user_id <> v.user_id
+      WHERE EXISTS (
+        SELECT 1 FROM user_blocks b
+         WHERE (b.blocker_id = v.user_id AND b.blocked_id = o.user_id)
+            OR (b.blocker_id = o.user_id AND b.blocked_id = v.user_id)
+      )`,
+    [viewerIds, otherIds],
+  );
+  for (const { viewer_id, other_id } of rows) {
+    let set = out.get(viewer_id);
+    if (!set) {
+      set = new Set();
+      out.set(viewer_id, set);
+    }
+    set.add(other_id);
+  }
+  return out;
+}
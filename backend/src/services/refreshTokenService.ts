@@ -1,11 +1,16 @@
 import { PostgresService } from './DbService.js';
 import { generateRefreshToken, hashRefreshToken, generateAccessToken } from './tokenService.js';
-import { RefreshToken, RefreshTokenMetadata, TokenPair } from '../types/auth.js';
+import { RefreshToken, RefreshTokenMetadata, SessionSummary, TokenPair } from '../types/auth.js';
 import crypto from 'crypto';
+import { assertNotSuspended } from './accountRestrictionService.js';
+import { closeStreams } from './realtimeService.js';
 
 const db = PostgresService.getInstance();
 
-export async function createRefreshToken(userId: string, metadata: RefreshTokenMetadata): Promise<string> {
+export async function createRefreshToken(
+	userId: string,
+	metadata: RefreshTokenMetadata
+): Promise<{ refreshToken: string; familyId: string }> {
 	const token = generateRefreshToken();
 	const tokenHash = hashRefreshToken(token);
 	const tokenFamilyId = crypto.randomUUID();
@@ -24,7 +29,7 @@ export async function createRefreshToken(userId: string, metadata: RefreshTokenM
 		]
 	);
 
-	return token;
+	return { refreshToken: token, familyId: tokenFamilyId };
 }
 
 export async function validateRefreshToken(token: string): Promise<RefreshToken | null> {
@@ -57,6 +62,10 @@ export async function rotateRefreshToken(oldToken: string, metadata: RefreshToke
 		throw new Error('Invalid or expired refresh token');
 	}
 
+	// Suspension revokes every live token, but a token rotated moments before
+	// would still get through the grace path below.
+	await assertNotSuspended(presented.user_id);
+
 	// The presented token has already been rotated away (or otherwise revoked).
 	if (presented.revoked_at) {
 		const rotatedAgoMs = Date.now() - new Date(presented.revoked_at).getTime();
@@ -75,7 +84,7 @@ export async function rotateRefreshToken(oldToken: string, metadata: RefreshToke
 	}
 
 	// Normal rotation: the presented token is live.
-	const accessToken = await generateAccessToken(presented.user_id);
+	const accessToken = await generateAccessToken(presented.user_id, { sessionId: presented.token_family_id });
 	const newRefreshToken = generateRefreshToken();
 	const newTokenHash = hashRefreshToken(newRefreshToken);
 
@@ -100,7 +109,7 @@ export async function rotateRefreshToken(oldToken: string, metadata: RefreshToke
  * repeated retries within the window resolve consistently.
  */
 async function reissueWithinGrace(presented: RefreshToken, metadata: RefreshTokenMetadata): Promise<TokenPair> {
-	const accessToken = await generateAccessToken(presented.user_id);
+	const accessToken = await generateAccessToken(presented.user_id, { sessionId: presented.token_family_id });
 	const newRefreshToken = generateRefreshToken();
 	const newTokenHash = hashRefreshToken(newRefreshToken);
 
@@ -150,12 +159,15 @@ function insertTokenOp(userId: string, tokenHash: string, familyId: string, meta
 export async function revokeRefreshToken(token: string, reason: string): Promise<void> {
 	const tokenHash = hashRefreshToken(token);
 
-	await db.query(
+	const rows = await db.query<{ user_id: string; token_family_id: string }>(
 		`UPDATE refresh_tokens
      SET revoked_at = NOW(), revoked_reason = $1
-     WHERE token_hash = $2`,
+     WHERE token_hash = $2
+     RETURNING user_id, token_family_id`,
 		[reason, tokenHash]
 	);
+	// Only the family's newest token is live, so this ends the session.
+	for (const row of rows) closeStreams(row.user_id, row.token_family_id);
 }
 
 export async function revokeAllUserTokens(userId: string, reason: string): Promise<number> {
@@ -166,15 +178,159 @@ export async function revokeAllUserTokens(userId: string, reason: string): Promi
      RETURNING token_id`,
 		[reason, userId]
 	);
+	closeStreams(userId);
 
 	return result.length;
 }
 
-export async function revokeTokenFamily(familyId: string): Promise<void> {
-	await db.query(
+/**
+ * Revoke every live token in a family. Scoped to `userId` when given, so a user
+ * can only end their own sessions. Returns how many tokens were revoked.
+ */
+export async function revokeTokenFamily(
+	familyId: string,
+	{ userId = null, reason = 'security_breach' }: { userId?: string | null; reason?: string } = {}
+): Promise<number> {
+	const result = await db.query(
 		`UPDATE refresh_tokens
-     SET revoked_at = NOW(), revoked_reason = 'security_breach'
-     WHERE token_family_id = $1 AND revoked_at IS NULL`,
-		[familyId]
+     SET revoked_at = NOW(), revoked_reason = $2
+     WHERE token_family_id = $1 AND revoked_at IS NULL
+       AND ($3::text IS NULL OR user_id = $3)
+     RETURNING user_id`,
+		[familyId, reason, userId]
+	);
+	if (result.length) closeStreams(result[0].user_id, familyId);
+
+	return result.length;
+}
+
+/**
+ * Whether a family still holds a live refresh token. Access tokens carry their
+ * family as `sid`, so a session revoked here (logout, a revoked device, reuse
+ * detection) stops authenticating immediately instead of when its 30-day
+ * access token runs out.
+ */
+export async function isSessionActive(familyId: string): Promise<boolean> {
+	return (await activeSessionIds([familyId])).has(familyId);
+}
+
+/** The subset of `familyIds` still holding a live refresh token. */
+export async function activeSessionIds(familyIds: string[]): Promise<Set<string>> {
+	if (familyIds.length === 0) return new Set();
+	const rows = await db.query<{ token_family_id: string }>(
+		`SELECT DISTINCT token_family_id FROM refresh_tokens
+     WHERE token_family_id = ANY($1::uuid[]) AND revoked_at IS NULL
+       AND (expires_at IS NULL OR expires_at > NOW())`,
+		[familyIds]
+	);
+
+	return new Set(rows.map(row => row.token_family_id));
+}
+
+/**
+ * One row per signed-in device: each refresh-token family with a live token,
+ * described by its newest token (rotation re-inserts on every refresh, so the
+ * newest row's created_at is the session's last use).
+ */
+export async function listSessions(userId: string, currentFamilyId?: string | null): Promise<SessionSummary[]> {
+	const rows = await db.query<{
+		family_id: string;
+		user_agent: string | null;
+		ip_address: string | null;
+		device_info: any;
+		signed_in_at: string;
+		last_used_at: string;
+	}>(
+		`WITH live AS (
+       SELECT DISTINCT ON (token_family_id)
+              token_family_id, user_agent, ip_address, device_info, created_at, last_used_at
+       FROM refresh_tokens
+       WHERE user_id = $1 AND revoked_at IS NULL
+         AND (expires_at IS NULL OR expires_at > NOW())
+       ORDER BY token_family_id, created_at DESC
+     )
+     SELECT l.token_family_id AS family_id,
+            l.user_agent,
+            host(l.ip_address) AS ip_address,
+            l.device_info,
+            (SELECT MIN(r.created_at) FROM refresh_tokens r
+             WHERE r.token_family_id = l.token_family_id) AS signed_in_at,
+            GREATEST(l.created_at, l.last_used_at) AS last_used_at
+     FROM live l
+     ORDER BY last_used_at DESC`,
+		[userId]
 	);
+
+	return rows.map(row => ({
+		family_id: row.family_id,
+		device: describeDevice(row.user_agent, row.device_info),
+		user_agent: row.user_agent,
+		location_hint: locationHint(row.ip_address, row.device_info),
+		signed_in_at: row.signed_in_at,
+		last_used_at: row.last_used_at,
+		current: row.family_id === currentFamilyId
+	}));
+}
+
+/**
+ * True when this sign-in comes from a device the account hasn't signed in on
+ * before (and the account has signed in at all — a brand-new account's first
+ * device is not news). A client-supplied `device_info.device_id` is the
+ * strongest match; without one, the user agent with every version number
+ * stripped, so a browser, OS or app update doesn't read as a new device while
+ * a different browser or platform still does.
+ */
+export async function isUnrecognizedDevice(userId: string, metadata: RefreshTokenMetadata): Promise<boolean> {
+	const deviceId = typeof metadata.deviceInfo?.device_id === 'string' ? metadata.deviceInfo.device_id : null;
+
+	const [row] = await db.query<{ any_prior: boolean; same_device: boolean }>(
+		`SELECT EXISTS (SELECT 1 FROM refresh_tokens WHERE user_id = $1) AS any_prior,
+            EXISTS (
+              SELECT 1 FROM refresh_tokens
+              WHERE user_id = $1
+                AND CASE WHEN $2::text IS NOT NULL THEN device_info->>'device_id' = $2
+                         ELSE ${uaFamilySql('user_agent')} IS NOT DISTINCT FROM ${uaFamilySql('$3::text')} END
+            ) AS same_device`,
+		[userId, deviceId, metadata.userAgent ?? null]
+	);
+
+	return row.any_prior && !row.same_device;
+}
+
+/** SQL: a user agent with its version numbers removed ("Chrome/126.0.1" → "Chrome/"). */
+function uaFamilySql(expr: string): string {
+	return `regexp_replace(${expr}, '[0-9]+([._][0-9]+)*', '', 'g')`;
+}
+
+/** Short human label for the device behind a session ("iPhone", "Android device"). */
+export function describeDevice(userAgent: string | null | undefined, deviceInfo: any): string {
+	const named = deviceInfo?.name ?? deviceInfo?.model;
+	if (typeof named === 'string' && named.trim()) return named.trim().slice(0, 60);
+
+	const ua = userAgent ?? '';
+	if (/android|okhttp/i.test(ua)) return 'Android device';
+	if (/watch/i.test(ua)) return 'Apple Watch';
+	if (/ipad/i.test(ua)) return 'iPad';
+	if (/cfnetwork|darwin|iphone/i.test(ua)) return 'iPhone';
+	if (/mozilla/i.test(ua)) return 'Web browser';
+	return 'Unknown device';
+}
+
+/**
+ * Coarse "where" for a session, without a geo-IP lookup: the city of the
+ * device's time zone when the client sent one, otherwise the network the
+ * session last refreshed from with the host part masked.
+ */
+export function locationHint(ipAddress: string | null | undefined, deviceInfo: any): string | null {
+	const timeZone = deviceInfo?.time_zone ?? deviceInfo?.timezone;
+	if (typeof timeZone === 'string' && timeZone.includes('/')) {
+		return timeZone.split('/').pop()!.replaceAll('_', ' ');
+	}
+
+	if (!ipAddress) return null;
+	const ip = ipAddress.replace(/^::ffff:/, '');
+	if (ip.includes('.')) {
+		return `${ip.split('.').slice(0, 3).join('.')}.x`;
+	}
+	return `${ip.split(':').slice(0, 3).join(':')}:…`;
 }
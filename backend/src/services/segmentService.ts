@@ -0,0 +1,769 @@
+import { PostgresService } from "./DbService.js";
+import { BadRequestError } from "../errors/Errors.js";
+import { MIN_PLAUSIBLE_MILE_SECONDS } from "./mileTime.js";
+import { notShadowBannedSql } from "./accountRestrictionService.js";
+import { VIEWER_MAY_SEE_WORKOUT_CONTENT_SQL } from "./visibilityService.js";
+import { logError } from "./errorLogService.js";
+import {
+  insideZoneSql,
+  listPrivacyZones,
+  pathEntersZones,
+} from "./privacyZoneService.js";
+import {
+  cumulativeTraceMeters,
+  distanceToPolyline,
+  haversineMeters,
+  projectOntoLine,
+  type LatLng,
+} from "./geo.js";
+import type {
+  NearbySegment,
+  Segment,
+  SegmentDetail,
+  SegmentEffort,
+  SegmentLeaderboardEntry,
+  SegmentLeaderboardPage,
+  SegmentLeaderboardScope,
+} from "../types/segments.js";
+
+/**
+ * Segments: recurring stretches of route with their own leaderboards.
+ *
+ * A segment is cut from one of its creator's own stored routes — start and end
+ * points snapped onto that trace, and the stretch between them kept as the
+ * segment's path. Every uploaded route is then matched against the segments
+ * near it (`matchSegmentEfforts`, after each upload), and the fastest pass per
+ * workout is stored as a `segment_efforts` row.
+ *
+ * Traces carry no timestamps, so an effort's time is read off the workout's
+ * split timing: the position along the trace becomes a fraction of the
+ * workout's distance, and the splits say when that distance was reached. It's
+ * an even-pace interpolation within each split — coarse on a short segment,
+ * but it's derived from the same synced numbers every other board uses, and
+ * never from a time the client sends.
+ */
+
+const db = PostgresService.getInstance();
+
+const METERS_PER_MILE = 1609.34;
+
+export const SEGMENT_LEADERBOARD_SCOPES: SegmentLeaderboardScope[] = [
+  "friends",
+  "global",
+];
+
+const NAME_MAX_LENGTH = 80;
+const MIN_SEGMENT_METERS = 100;
+const MAX_SEGMENT_METERS = 50_000;
+const DEFAULT_CORRIDOR_METERS = 25;
+const MIN_CORRIDOR_METERS = 10;
+const MAX_CORRIDOR_METERS = 100;
+/** How far a chosen start/end may be from the route it's snapped onto. */
+const MAX_SNAP_METERS = 50;
+const MAX_SEGMENTS_PER_USER = 100;
+const MAX_NEARBY_RADIUS_KM = 25;
+const MAX_NEARBY_RESULTS = 50;
+/** Routes a new segment is backfilled against: the creator's circle, newest. */
+const BACKFILL_ROUTE_LIMIT = 500;
+/**
+ * A pass can't be much longer than the segment itself — any longer and the
+ * route wandered off and came back, which the corridor check would also catch
+ * but this rules out cheaply first.
+ */
+const MAX_PASS_STRETCH = 1.5;
+/** Degrees (~1 km) the prefilter box is widened by around an uploaded trace. */
+const BBOX_PAD_DEGREES = 0.01;
+
+const ISO_TS = `'YYYY-MM-DD"T"HH24:MI:SS.MS"Z"'`;
+
+// The viewer is $1 in every query that selects these.
+const SEGMENT_COLUMNS = `s.id::text AS id, s.name,
+		json_build_array(s.start_lat, s.start_lng) AS start,
+		json_build_array(s.end_lat, s.end_lng) AS "end",
+		s.path, s.distance_meters, s.corridor_meters,
+		(s.creator_id = $1) AS created_by_me,
+		to_char(s.created_at AT TIME ZONE 'UTC', ${ISO_TS}) AS created_at`;
+
+type SegmentGeometry = {
+  id: string;
+  path: LatLng[];
+  distance_meters: number;
+  corridor_meters: number;
+};
+
+type MatchableWorkout = {
+  workout_id: string;
+  user_id: string;
+  local_date: string;
+  distance: number;
+  total_duration: number;
+  route: LatLng[];
+  /** Neither deleted nor excluded — the only workouts that may hold efforts. */
+  live: boolean;
+  splits: { distance: number | null; seconds: number }[];
+};
+
+// ─── Geometry ───────────────────────────────────────────────────────
+
+/** A point on a trace: which edge it falls on, and metres from the start. */
+type TracePosition = { edge: number; meters: number; off: number };
+
+/**
+ * Every pass of the trace within `radius` of `point`, as the closest position
+ * of each pass. A pass is a run of consecutive edges that come close; a loop
+ * run twice yields two.
+ */
+function passesNear(
+  trace: LatLng[],
+  cum: number[],
+  point: LatLng,
+  radius: number,
+): TracePosition[] {
+  const passes: TracePosition[] = [];
+  let current: TracePosition | null = null;
+  for (let i = 0; i < trace.length - 1; i++) {
+    const { meters, t } = projectOntoLine(point, trace[i], trace[i + 1]);
+    if (meters > radius) {
+      if (current) passes.push(current);
+      current = null;
+      continue;
+    }
+    const pos = {
+      edge: i,
+      meters: cum[i] + t * (cum[i + 1] - cum[i]),
+      off: meters,
+    };
+    if (!current || meters < current.off) current = pos;
+  }
+  if (current) passes.push(current);
+  return passes;
+}
+
+/** The trace between two positions, with the positions themselves as ends. */
+function traceBetween(
+  trace: LatLng[],
+  cum: number[],
+  from: TracePosition,
+  to: TracePosition,
+): LatLng[] {
+  const at = (pos: TracePosition): LatLng => {
+    const span = cum[pos.edge + 1] - cum[pos.edge];
+    const t = span > 0 ? (pos.meters - cum[pos.edge]) / span : 0;
+    const a = trace[pos.edge];
+    const b = trace[pos.edge + 1];
+    return [a[0] + (b[0] - a[0]) * t, a[1] + (b[1] - a[1]) * t];
+  };
+  return [at(from), ...trace.slice(from.edge + 1, to.edge + 1), at(to)];
+}
+
+/**
+ * Elapsed seconds at `miles` into the workout, from its split timing. Falls
+ * back to an even pace over the whole workout when there are no splits.
+ */
+function secondsAtMiles(workout: MatchableWorkout, miles: number): number {
+  let covered = 0;
+  let elapsed = 0;
+  for (const split of workout.splits) {
+    const d = Number(split.distance);
+    const secs = Number(split.seconds);
+    if (!(d > 0) || !(secs > 0)) continue;
+    if (covered + d >= miles) return elapsed + secs * ((miles - covered) / d);
+    covered += d;
+    elapsed += secs;
+  }
+  if (covered > 0) {
+    // Past the last split (rounding between trace and odometer): hold the
+    // average pace rather than inventing a faster finish.
+    return elapsed + (miles - covered) * (elapsed / covered);
+  }
+  return workout.distance > 0
+    ? (miles / workout.distance) * workout.total_duration
+    : 0;
+}
+
+/**
+ * The fastest pass of `workout` over `segment`, in seconds, or null.
+ *
+ * A pass starts near the segment's start, reaches its end within
+ * `MAX_PASS_STRETCH` of the segment's length, and in between never leaves the
+ * corridor — checked both ways, so the route can't wander off the path and the
+ * path can't be cut short. The time must also be a believable pace on foot.
+ */
+function fastestPass(
+  workout: MatchableWorkout,
+  cum: number[],
+  segment: SegmentGeometry,
+): number | null {
+  const trace = workout.route;
+  const traceMeters = cum[cum.length - 1];
+  if (!(traceMeters > 0) || !(workout.distance > 0)) return null;
+  const corridor = segment.corridor_meters;
+  const starts = passesNear(trace, cum, segment.path[0], corridor);
+  if (starts.length === 0) return null;
+  const ends = passesNear(
+    trace,
+    cum,
+    segment.path[segment.path.length - 1],
+    corridor,
+  );
+
+  const milesAt = (meters: number) =>
+    (meters / traceMeters) * Number(workout.distance);
+
+  let best: number | null = null;
+  for (const start of starts) {
+    const end = ends.find(
+      (e) =>
+        e.meters > start.meters &&
+        e.meters - start.meters >= segment.distance_meters - 2 * corridor,
+    );
+    if (!end) continue;
+    const travelled = end.meters - start.meters;
+    if (travelled > segment.distance_meters * MAX_PASS_STRETCH) continue;
+    const section = traceBetween(trace, cum, start, end);
+    if (section.some((p) => distanceToPolyline(p, segment.path) > corridor)) {
+      continue;
+    }
+    if (segment.path.some((p) => distanceToPolyline(p, section) > corridor)) {
+      continue;
+    }
+    const seconds =
+      secondsAtMiles(workout, milesAt(end.meters)) -
+      secondsAtMiles(workout, milesAt(start.meters));
+    const paceSecondsPerMile =
+      seconds / (segment.distance_meters / METERS_PER_MILE);
+    if (!(seconds > 0) || paceSecondsPerMile < MIN_PLAUSIBLE_MILE_SECONDS) {
+      continue;
+    }
+    if (best === null || seconds < best) best = seconds;
+  }
+  return best === null ? null : Math.round(best * 10) / 10;
+}
+
+function boundingBox(trace: LatLng[], pad: number) {
+  let minLat = Infinity;
+  let maxLat = -Infinity;
+  let minLng = Infinity;
+  let maxLng = -Infinity;
+  for (const [lat, lng] of trace) {
+    minLat = Math.min(minLat, lat);
+    maxLat = Math.max(maxLat, lat);
+    minLng = Math.min(minLng, lng);
+    maxLng = Math.max(maxLng, lng);
+  }
+  return {
+    minLat: minLat - pad,
+    maxLat: maxLat + pad,
+    minLng: minLng - pad,
+    maxLng: maxLng + pad,
+  };
+}
+
+// ─── Matching ───────────────────────────────────────────────────────
+
+const MATCHABLE_WORKOUT_SELECT = `SELECT w.workout_id, w.user_id,
+		to_char(w.local_date, 'YYYY-MM-DD') AS local_date,
+		w.distance, w.total_duration, wr.route,
+		(w.deleted_at IS NULL AND w.exclusion_reason IS NULL) AS live,
+		COALESCE((
+			SELECT json_agg(json_build_object(
+			         'distance', ws.split_distance,
+			         'seconds', ws.split_duration
+			       ) ORDER BY ws.split_number)
+			  FROM workout_splits ws
+			 WHERE ws.workout_id = w.workout_id
+		), '[]'::json) AS splits
+	FROM workouts w
+	JOIN workout_routes wr ON wr.workout_id = w.workout_id`;
+
+/** Replace a workout's efforts with `efforts` (segment id → seconds). */
+async function writeEfforts(
+  workout: MatchableWorkout,
+  efforts: Map<string, number>,
+  onlySegmentId: string | null,
+): Promise<void> {
+  await db.transaction([
+    {
+      query: `DELETE FROM segment_efforts
+				WHERE workout_id = $1 AND ($2::uuid IS NULL OR segment_id = $2::uuid)`,
+      params: [workout.workout_id, onlySegmentId],
+    },
+    ...[...efforts].map(([segmentId, seconds]) => ({
+      query: `INSERT INTO segment_efforts
+					(segment_id, workout_id, user_id, elapsed_seconds, local_date)
+					VALUES ($1::uuid, $2, $3, $4, $5)`,
+      params: [
+        segmentId,
+        workout.workout_id,
+        workout.user_id,
+        seconds,
+        workout.local_date,
+      ],
+    })),
+  ]);
+}
+
+/**
+ * Match just-uploaded workouts against the segments near their routes.
+ *
+ * Called from the workout-upload path with the ids that upload just wrote. It
+ * reads the STORED route, not the upload body, so a re-upload that doesn't
+ * carry the trace (fullSync, recalibrate) re-derives the same efforts instead
+ * of wiping them. Excluded and deleted workouts match nothing, and any efforts
+ * they had are cleared.
+ *
+ * Never throws: segment matching must not fail a workout sync.
+ */
+export async function matchSegmentEfforts(
+  userId: string,
+  workoutIds: string[],
+): Promise<void> {
+  if (workoutIds.length === 0) return;
+  try {
+    const workouts = await db.query<MatchableWorkout>(
+      `${MATCHABLE_WORKOUT_SELECT}
+			WHERE w.user_id = $1 AND w.workout_id = ANY($2::text[])`,
+      [userId, workoutIds],
+    );
+
+    for (const workout of workouts) {
+      const efforts = new Map<string, number>();
+      if (
+        workout.live &&
+        Array.isArray(workout.route) &&
+        workout.route.length >= 2
+      ) {
+        const box = boundingBox(workout.route, BBOX_PAD_DEGREES);
+        // Both endpoints inside the trace's box: a segment that starts or ends
+        // outside it can't be covered by this route.
+        const segments = await db.query<SegmentGeometry>(
+          `SELECT s.id::text AS id, s.path, s.distance_meters, s.corridor_meters
+					   FROM segments s
+					  WHERE s.start_lat BETWEEN $1 AND $2
+					    AND s.start_lng BETWEEN $3 AND $4
+					    AND s.end_lat BETWEEN $1 AND $2
+					    AND s.end_lng BETWEEN $3 AND $4`,
+          [box.minLat, box.maxLat, box.minLng, box.maxLng],
+        );
+        const cum = cumulativeTraceMeters(workout.route);
+        for (const segment of segments) {
+          const seconds = fastestPass(workout, cum, segment);
+          if (seconds !== null) efforts.set(segment.id, seconds);
+        }
+      }
+      await writeEfforts(workout, efforts, null);
+    }
+  } catch (error: any) {
+    logError(
+      "segments",
+      `matchSegmentEfforts: ${error?.message ?? String(error)}`,
+      { userId },
+    );
+  }
+}
+
+/**
+ * Seed a new segment's board from routes already on file: the creator's and
+ * their friends', newest first. Everyone else's efforts arrive as they next
+ * upload. Never throws — it runs after the create has already answered.
+ */
+async function backfillSegment(
+  creatorId: string,
+  segment: SegmentGeometry,
+): Promise<void> {
+  try {
+    const workouts = await db.query<MatchableWorkout>(
+      `${MATCHABLE_WORKOUT_SELECT}
+			WHERE (w.user_id = $1 OR w.user_id IN (
+			        SELECT friend_id FROM friendships
+			         WHERE user_id = $1 AND status = 'accepted'))
+			  AND w.deleted_at IS NULL
+			  AND w.exclusion_reason IS NULL
+			ORDER BY w.device_end_date DESC
+			LIMIT ${BACKFILL_ROUTE_LIMIT}`,
+      [creatorId],
+    );
+    for (const workout of workouts) {
+      if (!Array.isArray(workout.route) || workout.route.length < 2) continue;
+      const seconds = fastestPass(
+        workout,
+        cumulativeTraceMeters(workout.route),
+        segment,
+      );
+      if (seconds !== null) {
+        await writeEfforts(
+          workout,
+          new Map([[segment.id, seconds]]),
+          segment.id,
+        );
+      }
+    }
+  } catch (error: any) {
+    logError(
+      "segments",
+      `backfillSegment: ${error?.message ?? String(error)}`,
+      { userId: creatorId, context: { segment_id: segment.id } },
+    );
+  }
+}
+
+// ─── Segments ───────────────────────────────────────────────────────
+
+function parsePoint(value: unknown, code: string): LatLng {
+  if (!Array.isArray(value) || value.length < 2) {
+    throw new BadRequestError(code);
+  }
+  const lat = Number(value[0]);
+  const lng = Number(value[1]);
+  if (
+    !Number.isFinite(lat) ||
+    !Number.isFinite(lng) ||
+    Math.abs(lat) > 90 ||
+    Math.abs(lng) > 180
+  ) {
+    throw new BadRequestError(code);
+  }
+  return [lat, lng];
+}
+
+const round5 = (n: number) => Math.round(n * 100000) / 100000;
+
+/**
+ * Create a segment from a stretch of one of the creator's own stored routes.
+ *
+ * `start` and `end` are snapped onto that route (each must be within
+ * `MAX_SNAP_METERS` of it, end after start), and the route between them
+ * becomes the segment's path. Cutting it from a real trace, rather than taking
+ * a drawn line, is what makes the corridor meaningful: the path follows the
+ * streets someone actually ran.
+ */
+export async function createSegment(
+  userId: string,
+  input: {
+    name?: unknown;
+    workout_id?: unknown;
+    start?: unknown;
+    end?: unknown;
+    corridor_meters?: unknown;
+  },
+): Promise<SegmentDetail> {
+  const name = typeof input.name === "string" ? input.name.trim() : "";
+  if (!name || name.length > NAME_MAX_LENGTH) {
+    throw new BadRequestError("invalid_name");
+  }
+  if (typeof input.workout_id !== "string" || !input.workout_id) {
+    throw new BadRequestError("invalid_workout_id");
+  }
+  const startPoint = parsePoint(input.start, "invalid_start");
+  const endPoint = parsePoint(input.end, "invalid_end");
+  const corridor =
+    input.corridor_meters === undefined || input.corridor_meters === null
+      ? DEFAULT_CORRIDOR_METERS
+      : Number(input.corridor_meters);
+  if (
+    !Number.isInteger(corridor) ||
+    corridor < MIN_CORRIDOR_METERS ||
+    corridor > MAX_CORRIDOR_METERS
+  ) {
+    throw new BadRequestError("invalid_corridor_meters");
+  }
+
+  const [count] = await db.query<{ n: number }>(
+    `SELECT COUNT(*)::int AS n FROM segments WHERE creator_id = $1`,
+    [userId],
+  );
+  if (count.n >= MAX_SEGMENTS_PER_USER) {
+    throw new BadRequestError("too_many_segments");
+  }
+
+  const routes = await db.query<{ route: LatLng[] }>(
+    `SELECT wr.route
+		   FROM workouts w
+		   JOIN workout_routes wr ON wr.workout_id = w.workout_id
+		  WHERE w.workout_id = $1 AND w.user_id = $2 AND w.deleted_at IS NULL`,
+    [input.workout_id, userId],
+  );
+  const trace = routes[0]?.route;
+  if (!Array.isArray(trace) || trace.length < 2) {
+    throw new BadRequestError("route_not_found");
+  }
+
+  const cum = cumulativeTraceMeters(trace);
+  const nearest = (passes: TracePosition[]) =>
+    passes.reduce<TracePosition | null>(
+      (best, p) => (!best || p.off < best.off ? p : best),
+      null,
+    );
+  const start = nearest(passesNear(trace, cum, startPoint, MAX_SNAP_METERS));
+  if (!start) throw new BadRequestError("start_not_on_route");
+  // The end is the first pass AFTER the start, so a loop that comes back past
+  // its own start still cuts the stretch the user meant.
+  const end = passesNear(trace, cum, endPoint, MAX_SNAP_METERS).find(
+    (p) => p.meters > start.meters,
+  );
+  if (!end) throw new BadRequestError("end_not_on_route");
+  const length = end.meters - start.meters;
+  if (length < MIN_SEGMENT_METERS || length > MAX_SEGMENT_METERS) {
+    throw new BadRequestError("invalid_length");
+  }
+
+  const path = traceBetween(trace, cum, start, end).map(
+    ([lat, lng]): LatLng => [round5(lat), round5(lng)],
+  );
+  // Segments are public to anyone nearby; one cut through the creator's own
+  // privacy zone would publish the very street the zone hides.
+  if (pathEntersZones(path, await listPrivacyZones(userId))) {
+    throw new BadRequestError("segment_in_privacy_zone");
+  }
+  const [row] = await db.query<{ id: string }>(
+    `INSERT INTO segments
+			(creator_id, name, start_lat, start_lng, end_lat, end_lng, path,
+			 distance_meters, corridor_meters)
+			VALUES ($1, $2, $3, $4, $5, $6, $7::jsonb, $8, $9)
+			RETURNING id::text AS id`,
+    [
+      userId,
+      name,
+      path[0][0],
+      path[0][1],
+      path[path.length - 1][0],
+      path[path.length - 1][1],
+      JSON.stringify(path),
+      Math.round(length * 10) / 10,
+      corridor,
+    ],
+  );
+
+  // Fire-and-forget: a board seeded a moment later is fine, a create that
+  // waits on hundreds of routes is not.
+  void backfillSegment(userId, {
+    id: row.id,
+    path,
+    distance_meters: length,
+    corridor_meters: corridor,
+  });
+
+  return (await getSegment(userId, row.id))!;
+}
+
+/**
+ * One segment with the viewer's own best on it, or null. A shadow-banned
+ * creator's segments are hidden from everyone but them, like the rest of
+ * their content.
+ */
+export async function getSegment(
+  viewerId: string,
+  segmentId: string,
+): Promise<SegmentDetail | null> {
+  const rows = await db.query<
+    Segment & { my_best: SegmentEffort | null; my_effort_count: number }
+  >(
+    `SELECT ${SEGMENT_COLUMNS},
+			(SELECT json_build_object(
+			          'segment_id', e.segment_id::text,
+			          'workout_id', e.workout_id,
+			          'elapsed_seconds', e.elapsed_seconds,
+			          'local_date', to_char(e.local_date, 'YYYY-MM-DD'))
+			   FROM segment_efforts e
+			   JOIN workouts w ON w.workout_id = e.workout_id
+			  WHERE e.segment_id = s.id AND e.user_id = $1
+			    AND w.deleted_at IS NULL AND w.exclusion_reason IS NULL
+			  ORDER BY e.elapsed_seconds ASC, e.local_date ASC
+			  LIMIT 1) AS my_best,
+			(SELECT COUNT(*)::int
+			   FROM segment_efforts e
+			   JOIN workouts w ON w.workout_id = e.workout_id
+			  WHERE e.segment_id = s.id AND e.user_id = $1
+			    AND w.deleted_at IS NULL AND w.exclusion_reason IS NULL
+			) AS my_effort_count
+		   FROM segments s
+		  WHERE s.id::text = $2
+		    AND ${notShadowBannedSql("s.creator_id", "$1")}`,
+    [viewerId, segmentId],
+  );
+  return rows[0] ?? null;
+}
+
+/** Segments whose start is within `radiusKm` of a point, nearest first. */
+export async function listNearbySegments(
+  viewerId: string,
+  lat: number,
+  lng: number,
+  radiusKm: number,
+): Promise<NearbySegment[]> {
+  if (!Number.isFinite(lat) || Math.abs(lat) > 90) {
+    throw new BadRequestError("invalid_lat");
+  }
+  if (!Number.isFinite(lng) || Math.abs(lng) > 180) {
+    throw new BadRequestError("invalid_lng");
+  }
+  if (
+    !Number.isFinite(radiusKm) ||
+    radiusKm <= 0 ||
+    radiusKm > MAX_NEARBY_RADIUS_KM
+  ) {
+    throw new BadRequestError("invalid_radius_km");
+  }
+  // Box on the indexed start columns, then the exact circle in JS.
+  const dLat = radiusKm / 111.32;
+  const dLng =
+    radiusKm / (111.32 * Math.max(Math.cos((lat * Math.PI) / 180), 0.01));
+  const rows = await db.query<Segment>(
+    `SELECT ${SEGMENT_COLUMNS}
+		   FROM segments s
+		  WHERE s.start_lat BETWEEN $2 AND $3
+		    AND s.start_lng BETWEEN $4 AND $5
+		    AND ${notShadowBannedSql("s.creator_id", "$1")}`,
+    [viewerId, lat - dLat, lat + dLat, lng - dLng, lng + dLng],
+  );
+  return rows
+    .map((s) => ({
+      ...s,
+      start_distance_meters: Math.round(
+        haversineMeters(lat, lng, s.start[0], s.start[1]),
+      ),
+    }))
+    .filter((s) => s.start_distance_meters <= radiusKm * 1000)
+    .sort((a, b) => a.start_distance_meters - b.start_distance_meters)
+    .slice(0, MAX_NEARBY_RESULTS);
+}
+
+/** Segments the viewer created, newest first. */
+export async function listMySegments(viewerId: string): Promise<Segment[]> {
+  return db.query<Segment>(
+    `SELECT ${SEGMENT_COLUMNS}
+		   FROM segments s
+		  WHERE s.creator_id = $1
+		  ORDER BY s.created_at DESC`,
+    [viewerId],
+  );
+}
+
+/** Delete a segment the viewer created, with every effort on it. */
+export async function deleteSegment(
+  viewerId: string,
+  segmentId: string,
+): Promise<void> {
+  const rows = await db.query(
+    `DELETE FROM segments WHERE id::text = $1 AND creator_id = $2 RETURNING id`,
+    [segmentId, viewerId],
+  );
+  if (rows.length === 0) throw new BadRequestError("segment_not_found");
+}
+
+/** The segments one of the viewer's own workouts matched, fastest first. */
+export async function listWorkoutEfforts(
+  viewerId: string,
+  workoutId: string,
+): Promise<(SegmentEffort & { segment_name: string })[]> {
+  return db.query(
+    `SELECT e.segment_id::text AS segment_id, s.name AS segment_name,
+	        e.workout_id, e.elapsed_seconds,
+	        to_char(e.local_date, 'YYYY-MM-DD') AS local_date
+	   FROM segment_efforts e
+	   JOIN segments s ON s.id = e.segment_id
+	  WHERE e.workout_id = $2 AND e.user_id = $1
+	    AND ${notShadowBannedSql("s.creator_id", "$1")}
+	  ORDER BY e.elapsed_seconds ASC`,
+    [viewerId, workoutId],
+  );
+}
+
+// ─── Leaderboards ───────────────────────────────────────────────────
+
+/**
+ * Best effort per visible athlete on one segment, ranked.
+ *
+ * Visibility is the workout-content rule (`workout_visibility`, blocks either
+ * way), plus shadow bans and `share_route_maps`: a segment time says you ran
+ * that street, which is exactly what turning route sharing off withholds. The
+ * viewer always sees themselves. 'friends' narrows to the viewer's accepted
+ * friends; 'global' is everyone who passes those gates.
+ */
+function segmentBoardCte(): string {
+  return `WITH best AS (
+		SELECT DISTINCT ON (e.user_id)
+		       e.user_id, e.workout_id, e.elapsed_seconds,
+		       to_char(e.local_date, 'YYYY-MM-DD') AS local_date
+		  FROM segment_efforts e
+		  JOIN workouts w ON w.workout_id = e.workout_id
+		  LEFT JOIN notification_settings ns ON ns.user_id = e.user_id
+		 WHERE e.segment_id = $2::uuid
+		   AND w.deleted_at IS NULL
+		   AND w.exclusion_reason IS NULL
+		   AND ${VIEWER_MAY_SEE_WORKOUT_CONTENT_SQL("e.user_id", "$1")}
+		   AND ${notShadowBannedSql("e.user_id", "$1")}
+		   AND (COALESCE(ns.share_route_maps, true) OR e.user_id = $1)
+		   -- A segment starting or ending inside the runner's privacy zone would
+		   -- place them there, so they sit out its board (the owner still sees
+		   -- their own row).
+		   AND (e.user_id = $1 OR NOT EXISTS (
+		         SELECT 1 FROM segments s
+		           JOIN privacy_zones pz ON pz.user_id = e.user_id
+		          WHERE s.id = e.segment_id
+		            AND EXISTS (
+		              SELECT 1 FROM (VALUES (s.start_lat, s.start_lng),
+		                                    (s.end_lat, s.end_lng)) AS sp(lat, lng)
+		               WHERE ${insideZoneSql("sp.lat", "sp.lng")})))
+		   AND ($3::text = 'global' OR e.user_id = $1 OR EXISTS (
+		         SELECT 1 FROM friendships f
+		          WHERE f.user_id = $1 AND f.friend_id = e.user_id
+		            AND f.status = 'accepted'))
+		 ORDER BY e.user_id, e.elapsed_seconds ASC, e.local_date ASC
+	),
+	ranked AS (
+		SELECT b.*,
+		       RANK() OVER (ORDER BY b.elapsed_seconds ASC)::int AS rank,
+		       COUNT(*) OVER ()::int AS total
+		  FROM best b
+	)
+	SELECT r.rank, r.total, r.user_id, u.username, u.first_name, u.last_name,
+	       u.profile_image_url, r.elapsed_seconds, r.local_date, r.workout_id,
+	       (r.user_id = $1) AS is_current_user
+	  FROM ranked r
+	  JOIN users u ON u.user_id = r.user_id`;
+}
+
+export async function getSegmentLeaderboard(args: {
+  viewerId: string;
+  segmentId: string;
+  scope: SegmentLeaderboardScope;
+  limit: number;
+  offset: number;
+}): Promise<SegmentLeaderboardPage | null> {
+  const { viewerId, segmentId, scope, limit, offset } = args;
+  if (!SEGMENT_LEADERBOARD_SCOPES.includes(scope)) {
+    throw new BadRequestError("invalid_scope");
+  }
+  // Also what makes `$2::uuid` below safe: a malformed id never gets past it.
+  if (!(await getSegment(viewerId, segmentId))) return null;
+
+  const rows = await db.query<SegmentLeaderboardEntry & { total: number }>(
+    `${segmentBoardCte()}
+		ORDER BY r.rank ASC, r.local_date ASC, r.user_id ASC
+		LIMIT $4 OFFSET $5`,
+    [viewerId, segmentId, scope, limit, offset],
+  );
+  const total_count = rows[0]?.total ?? 0;
+  const entries = rows.map(({ total: _total, ...entry }) => entry);
+
+  let current_user_entry = entries.find((e) => e.is_current_user) ?? null;
+  if (!current_user_entry) {
+    const mine = await db.query<SegmentLeaderboardEntry & { total: number }>(
+      `${segmentBoardCte()} WHERE r.user_id = $1`,
+      [viewerId, segmentId, scope],
+    );
+    if (mine[0]) {
+      const { total: _total, ...entry } = mine[0];
+      current_user_entry = entry;
+    }
+  }
+
+  return {
+    scope,
+    entries,
+    total_count,
+    has_more: offset + entries.length < total_count,
+    current_user_entry,
+  };
+}
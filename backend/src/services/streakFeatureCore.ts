@@ -1,11 +1,13 @@
 import { PostgresService } from "./DbService.js";
+import { qualifyingDaysSql } from "./dailyGoalService.js";
 
 const db = PostgresService.getInstance();
 
 /**
  * Low-level streak-features plumbing shared by the streak walks. Deliberately
- * imports ONLY DbService so both workoutService and leaderboardService can use
- * it without an import cycle (the high-level token logic lives in
+ * imports ONLY DbService (and the equally leaf-level dailyGoalService, which
+ * owns the qualifying-day rule) so both workoutService and leaderboardService
+ * can use it without an import cycle (the high-level token logic lives in
  * streakFeatureService, which imports those services in turn).
  *
  * The safety contract of the whole feature lives here:
@@ -36,7 +38,6 @@ export interface StreakFeatureUserRow {
   double_down_last_used: string | null;
   streak_save_last_used: string | null;
   streak_assist_last_used: string | null;
-  goal_miles: string | number;
   current_streak: number;
 }
 
@@ -45,7 +46,7 @@ export async function getStreakFeatureRow(
 ): Promise<StreakFeatureUserRow | null> {
   const rows = await db.query<StreakFeatureUserRow>(
     `SELECT streak_features_at, double_down_last_used, streak_save_last_used,
-            streak_assist_last_used, goal_miles, current_streak
+            streak_assist_last_used, current_streak
      FROM users WHERE user_id = $1`,
     [userId],
   );
@@ -146,19 +147,23 @@ export function dateStrPlus(dateStr: string, days: number): string {
  * input to the legacy walks. Extracted verbatim from computeCoveredStreak so
  * every consumer (active streak, streak eras) walks THE same stream; per the
  * house rule, streak recomputes must never fork this.
+ *
+ * `bySteps(date)` says whether a date the stream has already returned counted
+ * by the step target (a day under a steps goal) rather than by a workout, so
+ * step-mode days can be labeled without a second query. Covered days never
+ * count as step days.
  */
 export function mergedQualifyingDayStream(
   userId: string,
   coverage: string[], // DESC
-): { next: () => Promise<string | undefined> } {
+): {
+  next: () => Promise<string | undefined>;
+  bySteps: (date: string) => boolean;
+} {
   const qualifyingDaysQuery = `
-    SELECT to_char(local_date, 'YYYY-MM-DD') AS local_date
-    FROM workouts
-    WHERE user_id = $1
-    AND deleted_at IS NULL AND exclusion_reason IS NULL
-    GROUP BY local_date
-    HAVING SUM(distance) >= 0.95
-    ORDER BY local_date DESC
+    SELECT to_char(q.local_date, 'YYYY-MM-DD') AS local_date, q.goal_type
+    FROM (${qualifyingDaysSql("$1")}) q
+    ORDER BY q.local_date DESC
     LIMIT $2 OFFSET $3
   `;
   const LIMIT = 100;
@@ -167,10 +172,11 @@ export function mergedQualifyingDayStream(
   // list, descending, de-duped — a backfilled workout can land on an
   // already-covered day and must not count twice.
   let pageIndex = 0;
-  let page: { local_date: string }[] | null = null;
+  let page: { local_date: string; goal_type: string }[] | null = null;
   let pi = 0; // cursor into page
   let ci = 0; // cursor into coverage
   let last: string | undefined;
+  const stepDays = new Set<string>();
 
   const next = async (): Promise<string | undefined> => {
     if (page === null) {
@@ -191,6 +197,7 @@ export function mergedQualifyingDayStream(
       let candidate: string | undefined;
       if (q !== undefined && (c === undefined || q >= c)) {
         candidate = q;
+        if (page[pi].goal_type === "steps") stepDays.add(q);
         pi++;
         if (c !== undefined && c === q) ci++; // dupe: consume both
       } else if (c !== undefined) {
@@ -205,7 +212,7 @@ export function mergedQualifyingDayStream(
     }
   };
 
-  return { next };
+  return { next, bySteps: (date) => stepDays.has(date) };
 }
 
 /**
@@ -256,6 +263,12 @@ export interface StreakEra {
   end_date: string; // YYYY-MM-DD
   length: number;
   is_current: boolean;
+  /**
+   * Days in this run that counted by hitting a step target rather than by a
+   * workout. Equal to `length` for a pure step streak, so clients never
+   * present one as a run of miles.
+   */
+  step_days: number;
 }
 
 /**
@@ -274,7 +287,7 @@ export async function computeStreakEras(
   const coverage = (await coverageActiveFor(userId))
     ? await fetchCoverageDates(userId)
     : [];
-  const { next } = mergedQualifyingDayStream(userId, coverage);
+  const { next, bySteps } = mergedQualifyingDayStream(userId, coverage);
   const yesterday = dateStrMinus(userToday, 1);
 
   const eras: StreakEra[] = [];
@@ -284,9 +297,11 @@ export async function computeStreakEras(
   while (true) {
     const date = await next();
     if (date === undefined) break;
+    const stepDay = bySteps(date) ? 1 : 0;
     if (open !== null && date === expected) {
       open.start_date = date;
       open.length++;
+      open.step_days += stepDay;
     } else {
       if (open !== null) eras.push(open);
       open = {
@@ -294,6 +309,7 @@ export async function computeStreakEras(
         end_date: date,
         length: 1,
         is_current: date === userToday || date === yesterday,
+        step_days: stepDay,
       };
     }
     expected = dateStrMinus(date, 1);
@@ -327,10 +343,8 @@ export async function streakEndingAt(
 ): Promise<number> {
   const rows = await db.query<{ len: number; max_d: string }>(
     `WITH days AS (
-       SELECT local_date FROM workouts
-       WHERE user_id = $1 AND local_date <= $2::date
-         AND deleted_at IS NULL AND exclusion_reason IS NULL
-       GROUP BY local_date HAVING SUM(distance) >= 0.95
+       SELECT q.local_date
+       FROM (${qualifyingDaysSql("$1", (col) => `${col} <= $2::date`)}) q
        UNION
        SELECT local_date FROM streak_coverage
        WHERE user_id = $1 AND local_date <= $2::date
@@ -10,6 +10,13 @@ import {
 import { getUserLocalToday, getMilesOnLocalDate } from "./workoutService.js";
 import { refreshCurrentStreak } from "./leaderboardService.js";
 import { sendPush } from "./pushNotificationService.js";
+import { localNowSql, localTodaySql } from "./dailyResetTime.js";
+import {
+  getDailyGoalOn,
+  getGoalMilesOn,
+  qualifyingDaysSql,
+  streakNoun,
+} from "./dailyGoalService.js";
 
 const db = PostgresService.getInstance();
 
@@ -139,8 +146,8 @@ function meterFloor(
 }
 
 /**
- * Derive all three meters in one query. "Day counts" uses the same flat
- * 0.95-mile rule as the streak walks; the Save meter additionally requires the
+ * Derive all three meters in one query. "Day counts" uses the same
+ * daily-goal rule as the streak walks; the Save meter additionally requires the
  * RUNNING workouts alone to complete the mile (the "7 days of running a mile"
  * rule — a short jog alongside a long walk does not tick it).
  */
@@ -160,7 +167,7 @@ export async function getMeters(
     enrolledAt,
     userToday,
   );
-  const goalMiles = Number(row.goal_miles) || 1.0;
+  const goalMiles = await getGoalMilesOn(userId, userToday);
 
   const rows = await db.query<{
     dd_days: string | number;
@@ -168,10 +175,7 @@ export async function getMeters(
   }>(
     `SELECT
       (SELECT COUNT(*) FROM (
-        SELECT local_date FROM workouts
-        WHERE user_id = $1 AND deleted_at IS NULL AND exclusion_reason IS NULL
-          AND local_date > $2::date AND local_date <= $4::date
-        GROUP BY local_date HAVING SUM(distance) >= 0.95
+        ${qualifyingDaysSql("$1", (col) => `${col} > $2::date AND ${col} <= $4::date`)}
       ) dd) AS dd_days,
       (SELECT COUNT(*) FROM (
         SELECT local_date FROM workouts
@@ -217,10 +221,8 @@ async function recentDayFacts(
 ): Promise<{ qualified: Set<string>; covered: Set<string> }> {
   const [qual, cov] = await Promise.all([
     db.query<{ d: string }>(
-      `SELECT to_char(local_date, 'YYYY-MM-DD') AS d FROM workouts
-       WHERE user_id = $1 AND local_date >= $2::date
-         AND deleted_at IS NULL AND exclusion_reason IS NULL
-       GROUP BY local_date HAVING SUM(distance) >= 0.95`,
+      `SELECT to_char(q.local_date, 'YYYY-MM-DD') AS d
+       FROM (${qualifyingDaysSql("$1", (col) => `${col} >= $2::date`)}) q`,
       [userId, fromDate],
     ),
     db.query<{ d: string }>(
@@ -328,11 +330,7 @@ export async function runStreakFeaturesSweep(): Promise<{
     `SELECT u.user_id, to_char(t.local_now::date, 'YYYY-MM-DD') AS user_today
      FROM users u
      CROSS JOIN LATERAL (
-       SELECT NOW() + (COALESCE(
-         (SELECT timezone_offset FROM workouts w
-          WHERE w.user_id = u.user_id ORDER BY device_end_date DESC LIMIT 1),
-         0
-       ) || ' minutes')::interval AS local_now
+       SELECT ${localNowSql("u.user_id")} AS local_now
      ) t
      WHERE u.streak_features_at IS NOT NULL
        AND EXTRACT(HOUR FROM t.local_now) BETWEEN 6 AND 11`,
@@ -561,7 +559,7 @@ export async function getDonationBudget(
   row: StreakFeatureUserRow,
   donorToday: string,
 ): Promise<DonationBudget> {
-  const goalMiles = Number(row.goal_miles) || 1.0;
+  const goalMiles = await getGoalMilesOn(donorId, donorToday);
   const todayMiles = await getMilesOnLocalDate(donorId, donorToday);
   const allowed = Math.max(
     0,
@@ -755,10 +753,13 @@ export async function requestStreakAssist(
   );
   if (rows.length === 0) return { status: "already_pending" };
 
-  const display = await displayName(recipientId);
+  const [display, recipientGoal] = await Promise.all([
+    displayName(recipientId),
+    getDailyGoalOn(recipientId, ex.target.local_date),
+  ]);
   sendPush(donorId, {
     title: `\u{1F91D} ${display} needs a mile`,
-    body: `Run a mile past your goal today and you can save their ${ex.target.restored_streak}-day streak.`,
+    body: `Run a mile past your goal today and you can save their ${ex.target.restored_streak}-day ${streakNoun(recipientGoal.goal_type)}.`,
     type: "streak_assist_request",
     data: {
       offer_id: rows[0].id,
@@ -905,9 +906,10 @@ export async function respondToAssistOffer(
 
   const restored = await refreshCurrentStreak(offer.recipient_id);
 
-  const [donorName, recipientName] = await Promise.all([
+  const [donorName, recipientName, recipientGoal] = await Promise.all([
     displayName(offer.donor_id),
     displayName(offer.recipient_id),
+    getDailyGoalOn(offer.recipient_id, offer.target_date),
   ]);
   // Tell the side that wasn't here. When the recipient accepted, the donor
   // learns their mile landed; when the donor accepted a request, the recipient
@@ -918,7 +920,7 @@ export async function respondToAssistOffer(
     notifyId === offer.donor_id
       ? {
           title: `\u{1F91D} ${recipientName} used your mile`,
-          body: `Their ${restored}-day streak is back because you ran the extra one.`,
+          body: `Their ${restored}-day ${streakNoun(recipientGoal.goal_type)} is back because you ran the extra one.`,
           type: "streak_assist_accepted",
           data: { user_id: offer.recipient_id, local_date: offer.target_date },
         }
@@ -1219,19 +1221,12 @@ export async function getAssistableFriends(
      FROM friendships f
      JOIN users u ON u.user_id = f.friend_id
      CROSS JOIN LATERAL (
-       SELECT (NOW() + (COALESCE((
-         SELECT w.timezone_offset FROM workouts w
-         WHERE w.user_id = u.user_id
-         ORDER BY w.device_end_date DESC LIMIT 1
-       ), 0) || ' minutes')::interval)::date AS today
+       SELECT ${localTodaySql("u.user_id")} AS today
      ) t
      LEFT JOIN LATERAL (
        SELECT array_agg(x.d) AS days FROM (
-         SELECT to_char(w.local_date, 'YYYY-MM-DD') AS d FROM workouts w
-          WHERE w.user_id = u.user_id AND w.deleted_at IS NULL
-            AND w.exclusion_reason IS NULL
-            AND w.local_date > t.today - 4 AND w.local_date <= t.today
-          GROUP BY w.local_date HAVING SUM(w.distance) >= 0.95
+         SELECT to_char(q.local_date, 'YYYY-MM-DD') AS d
+          FROM (${qualifyingDaysSql("u.user_id", (col) => `${col} > t.today - 4 AND ${col} <= t.today`)}) q
          UNION
          SELECT to_char(sc.local_date, 'YYYY-MM-DD') FROM streak_coverage sc
           WHERE sc.user_id = u.user_id AND sc.local_date > t.today - 4
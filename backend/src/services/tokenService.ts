@@ -1,11 +1,17 @@
 import { SignJWT, jwtVerify } from 'jose';
 import crypto from 'crypto';
+import { AuthProvider } from '../types/auth.js';
 
 const APP_JWT_SECRET = process.env.APP_JWT_SECRET!;
 const ACCESS_TOKEN_EXPIRY = '30d';
 
-export async function generateAccessToken(userId: string): Promise<string> {
-	return await new SignJWT({ provider: 'apple' })
+// `sid` is the refresh-token family the token was issued with, so the auth
+// middleware can turn it away once that session is revoked.
+export async function generateAccessToken(
+	userId: string,
+	{ provider = 'apple', sessionId }: { provider?: AuthProvider; sessionId?: string } = {}
+): Promise<string> {
+	return await new SignJWT(sessionId ? { provider, sid: sessionId } : { provider })
 		.setProtectedHeader({ alg: 'HS256' })
 		.setSubject(userId)
 		.setIssuedAt()
@@ -23,7 +29,15 @@ export function hashRefreshToken(token: string): string {
 	return crypto.createHash('sha256').update(token).digest('hex');
 }
 
-export async function verifyAccessToken(token: string): Promise<{ userId: string }> {
+export function generateMagicLinkToken(): string {
+	return `ml_${crypto.randomBytes(32).toString('hex')}`;
+}
+
+export function hashMagicLinkToken(token: string): string {
+	return crypto.createHash('sha256').update(token).digest('hex');
+}
+
+export async function verifyAccessToken(token: string): Promise<{ userId: string; sessionId: string | null }> {
 	const { payload } = await jwtVerify(token, new TextEncoder().encode(APP_JWT_SECRET));
-	return { userId: payload.sub as string };
+	return { userId: payload.sub as string, sessionId: typeof payload.sid === 'string' ? payload.sid : null };
 }
@@ -0,0 +1,451 @@
+import { PostgresService } from "./DbService.js";
+import { BadRequestError } from "../errors/Errors.js";
+import { computeRaceRecords, getUserLocalToday } from "./workoutService.js";
+import { DAILY_GOAL_TOLERANCE } from "./dailyGoalService.js";
+import {
+  TRAINING_PLANS,
+  getTrainingPlan,
+  planDayIndex,
+  planLengthDays,
+} from "./trainingPlans.js";
+import type { RaceRecord } from "./workoutService.js";
+import type {
+  TrainingDayStatus,
+  TrainingEnrollment,
+  TrainingEnrollmentProgress,
+  TrainingPlan,
+  TrainingPlanCompletion,
+  TrainingPlanDay,
+  TrainingPlanSummary,
+  TrainingScheduledDay,
+} from "../types/trainingPlan.js";
+
+const db = PostgresService.getInstance();
+
+/**
+ * Training plans: enrollment, matching uploaded workouts against the day's
+ * target, and adherence.
+ *
+ * Matching is by LOCAL date — a plan day is "the Nth day after the start" on
+ * the user's calendar, the same `workouts.local_date` the daily mile counts.
+ * A day's result is the sum of every counted workout on that date (a run
+ * split across a lunch break and the evening still did the session), and it
+ * is recomputed from the workouts table rather than accumulated, so the
+ * client's constant re-uploads and a later deletion both converge.
+ */
+
+/** How far back a start date may be set — enough to adopt last week's runs. */
+const MAX_BACKDATE_DAYS = 14;
+
+/** How far ahead a start date may be set. */
+const MAX_FUTURE_START_DAYS = 60;
+
+/**
+ * A timed session is met within the same 5% as distance: a watch that stops
+ * at 19:10 of a 20-minute session did the session.
+ */
+const DURATION_TOLERANCE = DAILY_GOAL_TOLERANCE;
+
+const ENROLLMENT_COLUMNS = `id, plan_key,
+  to_char(start_date, 'YYYY-MM-DD') AS start_date, status,
+  CASE WHEN completed_at IS NULL THEN NULL
+       ELSE to_char(completed_at AT TIME ZONE 'UTC', 'YYYY-MM-DD"T"HH24:MI:SS.MS"Z"')
+  END AS completed_at`;
+
+type EnrollmentRow = Omit<TrainingEnrollment, "end_date">;
+
+function addDays(dateStr: string, days: number): string {
+  const [y, m, d] = dateStr.split("-").map(Number);
+  return new Date(Date.UTC(y, m - 1, d + days)).toISOString().split("T")[0];
+}
+
+function daysBetween(from: string, to: string): number {
+  return Math.round(
+    (Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) /
+      86400000,
+  );
+}
+
+function summarize(plan: TrainingPlan): TrainingPlanSummary {
+  const { days, ...rest } = plan;
+  return { ...rest, sessions: days.length };
+}
+
+function requirePlan(key: unknown): TrainingPlan {
+  const plan = typeof key === "string" ? getTrainingPlan(key) : undefined;
+  if (!plan) throw new BadRequestError("plan_not_found");
+  return plan;
+}
+
+function withEndDate(
+  row: EnrollmentRow,
+  plan: TrainingPlan,
+): TrainingEnrollment {
+  return {
+    ...row,
+    end_date: addDays(row.start_date, planLengthDays(plan) - 1),
+  };
+}
+
+/** Whether a day's totals meet every target the plan day sets. */
+export function meetsTargets(
+  planDay: TrainingPlanDay,
+  distanceMiles: number,
+  durationSec: number,
+): boolean {
+  if (distanceMiles <= 0 && durationSec <= 0) return false;
+  if (
+    planDay.target_distance_miles !== null &&
+    distanceMiles < planDay.target_distance_miles * DAILY_GOAL_TOLERANCE
+  ) {
+    return false;
+  }
+  if (
+    planDay.target_duration_sec !== null &&
+    durationSec < planDay.target_duration_sec * DURATION_TOLERANCE
+  ) {
+    return false;
+  }
+  if (planDay.target_pace_sec_per_mile !== null) {
+    if (distanceMiles <= 0) return false;
+    if (durationSec / distanceMiles > planDay.target_pace_sec_per_mile) {
+      return false;
+    }
+  }
+  return true;
+}
+
+export function listTrainingPlans(): TrainingPlanSummary[] {
+  return TRAINING_PLANS.map(summarize);
+}
+
+export function getTrainingPlanDetail(key: string): TrainingPlan {
+  return requirePlan(key);
+}
+
+async function getActiveEnrollment(
+  userId: string,
+): Promise<EnrollmentRow | null> {
+  const rows = await db.query<EnrollmentRow>(
+    `SELECT ${ENROLLMENT_COLUMNS} FROM training_plan_enrollments
+      WHERE user_id = $1 AND status = 'active'`,
+    [userId],
+  );
+  return rows[0] ?? null;
+}
+
+/**
+ * Recompute one plan day from the workouts on its date. Rest days and dates
+ * outside the plan are ignored. Returns whether the day is met.
+ */
+async function recomputePlanDay(
+  userId: string,
+  enrollment: EnrollmentRow,
+  plan: TrainingPlan,
+  localDate: string,
+): Promise<boolean> {
+  const dayIndex = daysBetween(enrollment.start_date, localDate);
+  const planDay = plan.days.find((d) => planDayIndex(d) === dayIndex);
+  if (!planDay) return false;
+
+  const [totals] = await db.query<{ distance: number; duration: number }>(
+    `SELECT COALESCE(SUM(distance), 0)::float AS distance,
+            COALESCE(SUM(total_duration), 0)::float AS duration
+       FROM workouts
+      WHERE user_id = $1 AND local_date = $2
+        AND deleted_at IS NULL AND exclusion_reason IS NULL`,
+    [userId, localDate],
+  );
+  const distance = totals?.distance ?? 0;
+  const duration = totals?.duration ?? 0;
+  const met = meetsTargets(planDay, distance, duration);
+
+  await db.query(
+    `INSERT INTO training_plan_days
+       (enrollment_id, day_index, distance_miles, duration_sec, met)
+     VALUES ($1, $2, $3, $4, $5)
+     ON CONFLICT (enrollment_id, day_index) DO UPDATE
+       SET distance_miles = EXCLUDED.distance_miles,
+           duration_sec = EXCLUDED.duration_sec,
+           met = EXCLUDED.met,
+           updated_at = NOW()`,
+    [enrollment.id, dayIndex, distance, duration, met],
+  );
+  return met;
+}
+
+/**
+ * Mark the enrollment finished: race day met, or the plan's last day is past.
+ * Conditional on still being active, so the upload path and a concurrent read
+ * can't both claim it. Returns true if this call completed it.
+ */
+async function completeEnrollment(enrollmentId: string): Promise<boolean> {
+  const rows = await db.query<{ id: string }>(
+    `UPDATE training_plan_enrollments
+        SET status = 'completed', completed_at = NOW(), updated_at = NOW()
+      WHERE id = $1 AND status = 'active'
+      RETURNING id`,
+    [enrollmentId],
+  );
+  return rows.length > 0;
+}
+
+async function raceRecordFor(
+  userId: string,
+  plan: TrainingPlan,
+): Promise<RaceRecord | null> {
+  const records = await computeRaceRecords(userId);
+  return records.find((r) => r.distanceKey === plan.race_distance) ?? null;
+}
+
+/**
+ * Called from the upload pipeline with the workouts that just persisted.
+ * Recomputes each plan day those workouts fall on and, when the upload met
+ * race day, completes the plan and returns the race record it produced for
+ * the client's celebration. Null when there's nothing to celebrate.
+ */
+export async function matchTrainingPlanWorkouts(
+  userId: string,
+  workoutIds: string[],
+): Promise<TrainingPlanCompletion | null> {
+  if (workoutIds.length === 0) return null;
+  const enrollment = await getActiveEnrollment(userId);
+  if (!enrollment) return null;
+  const plan = getTrainingPlan(enrollment.plan_key);
+  if (!plan) return null;
+
+  const lastIndex = planLengthDays(plan) - 1;
+  const endDate = addDays(enrollment.start_date, lastIndex);
+  const dates = await db.query<{ local_date: string }>(
+    `SELECT DISTINCT to_char(local_date, 'YYYY-MM-DD') AS local_date
+       FROM workouts
+      WHERE user_id = $1 AND workout_id = ANY($2::text[])
+        AND local_date BETWEEN $3 AND $4`,
+    [userId, workoutIds, enrollment.start_date, endDate],
+  );
+
+  let raceDayMet = false;
+  for (const { local_date } of dates) {
+    const met = await recomputePlanDay(userId, enrollment, plan, local_date);
+    if (met && local_date === endDate) raceDayMet = true;
+  }
+  if (!raceDayMet || !(await completeEnrollment(enrollment.id))) return null;
+  return {
+    plan_key: plan.key,
+    race_record: await raceRecordFor(userId, plan),
+  };
+}
+
+/**
+ * Re-derive the active plan's result for one date — after a workout on it is
+ * deleted, so a removed run stops counting toward the session it completed.
+ */
+export async function recomputeTrainingPlanDate(
+  userId: string,
+  localDate: string,
+): Promise<void> {
+  const enrollment = await getActiveEnrollment(userId);
+  const plan = enrollment ? getTrainingPlan(enrollment.plan_key) : undefined;
+  if (!enrollment || !plan) return;
+  await recomputePlanDay(userId, enrollment, plan, localDate);
+}
+
+function buildProgress(
+  enrollment: TrainingEnrollment,
+  plan: TrainingPlan,
+  results: Map<
+    number,
+    { distance_miles: number; duration_sec: number; met: boolean }
+  >,
+  today: string,
+  raceRecord: RaceRecord | null,
+): TrainingEnrollmentProgress {
+  const todayIndex = daysBetween(enrollment.start_date, today);
+  const days: TrainingScheduledDay[] = plan.days.map((planDay) => {
+    const dayIndex = planDayIndex(planDay);
+    const result = results.get(dayIndex);
+    let status: TrainingDayStatus;
+    if (result?.met) status = "met";
+    else if (dayIndex > todayIndex) status = "upcoming";
+    else if (dayIndex === todayIndex && enrollment.status === "active") {
+      status = "today";
+    } else if (
+      result &&
+      (result.distance_miles > 0 || result.duration_sec > 0)
+    ) {
+      status = "partial";
+    } else status = "missed";
+    return {
+      ...planDay,
+      day_index: dayIndex,
+      date: addDays(enrollment.start_date, dayIndex),
+      status,
+      distance_miles: result?.distance_miles ?? null,
+      duration_sec: result?.duration_sec ?? null,
+    };
+  });
+
+  // Today counts as due only once it's met — an unfinished today isn't a miss.
+  const due = days.filter(
+    (d) => d.day_index < todayIndex || d.status === "met",
+  );
+  const met = due.filter((d) => d.status === "met").length;
+  return {
+    enrollment,
+    plan: summarize(plan),
+    today: days.find((d) => d.day_index === todayIndex) ?? null,
+    adherence: {
+      scheduled_to_date: due.length,
+      met,
+      partial: due.filter((d) => d.status === "partial").length,
+      missed: due.filter((d) => d.status === "missed").length,
+      adherence: due.length > 0 ? met / due.length : 0,
+      total_sessions: days.length,
+      current_week: Math.min(
+        plan.weeks,
+        Math.max(1, Math.floor(todayIndex / 7) + 1),
+      ),
+    },
+    days,
+    race_record: raceRecord,
+  };
+}
+
+async function loadProgress(
+  userId: string,
+  row: EnrollmentRow,
+  plan: TrainingPlan,
+  today: string,
+): Promise<TrainingEnrollmentProgress> {
+  const results = await db.query<{
+    day_index: number;
+    distance_miles: number;
+    duration_sec: number;
+    met: boolean;
+  }>(
+    `SELECT day_index, distance_miles, duration_sec, met
+       FROM training_plan_days WHERE enrollment_id = $1`,
+    [row.id],
+  );
+  return buildProgress(
+    withEndDate(row, plan),
+    plan,
+    new Map(results.map((r) => [r.day_index, r])),
+    today,
+    await raceRecordFor(userId, plan),
+  );
+}
+
+/**
+ * GET /training-plans/me — the active plan with its schedule and adherence,
+ * or null. A plan whose last day has passed is completed here, on read: a
+ * missed race day never triggers the upload path that would otherwise close
+ * it.
+ */
+export async function getCurrentTrainingPlan(
+  userId: string,
+): Promise<TrainingEnrollmentProgress | null> {
+  const row = await getActiveEnrollment(userId);
+  if (!row) return null;
+  const plan = getTrainingPlan(row.plan_key);
+  if (!plan) return null;
+
+  const today = await getUserLocalToday(userId);
+  if (daysBetween(row.start_date, today) >= planLengthDays(plan)) {
+    await completeEnrollment(row.id);
+    return null;
+  }
+  return loadProgress(userId, row, plan, today);
+}
+
+/**
+ * POST /training-plans/me — enroll. `startDate` defaults to the user's local
+ * today and may be backdated up to two weeks, in which case workouts already
+ * logged since then are matched immediately.
+ */
+export async function enrollInTrainingPlan(
+  userId: string,
+  planKey: unknown,
+  startDate: unknown,
+): Promise<TrainingEnrollmentProgress> {
+  const plan = requirePlan(planKey);
+  const today = await getUserLocalToday(userId);
+  const start =
+    startDate === undefined || startDate === null ? today : startDate;
+  if (
+    typeof start !== "string" ||
+    !/^\d{4}-\d{2}-\d{2}$/.test(start) ||
+    addDays(start, 0) !== start
+  ) {
+    throw new BadRequestError("invalid_start_date");
+  }
+  const offset = daysBetween(today, start);
+  if (offset < -MAX_BACKDATE_DAYS || offset > MAX_FUTURE_START_DAYS) {
+    throw new BadRequestError("invalid_start_date");
+  }
+
+  let row: EnrollmentRow;
+  try {
+    [row] = await db.query<EnrollmentRow>(
+      `INSERT INTO training_plan_enrollments (user_id, plan_key, start_date)
+       VALUES ($1, $2, $3)
+       RETURNING ${ENROLLMENT_COLUMNS}`,
+      [userId, plan.key, start],
+    );
+  } catch (err: any) {
+    // The one-active partial unique index.
+    if (err?.code === "23505") throw new BadRequestError("already_enrolled");
+    throw err;
+  }
+
+  for (let date = start; date <= today; date = addDays(date, 1)) {
+    await recomputePlanDay(userId, row, plan, date);
+  }
+  return loadProgress(userId, row, plan, today);
+}
+
+/** DELETE /training-plans/me — stop the active plan. History is kept. */
+export async function abandonTrainingPlan(userId: string): Promise<void> {
+  const rows = await db.query<{ id: string }>(
+    `UPDATE training_plan_enrollments
+        SET status = 'abandoned', updated_at = NOW()
+      WHERE user_id = $1 AND status = 'active'
+      RETURNING id`,
+    [userId],
+  );
+  if (rows.length === 0) throw new BadRequestError("not_enrolled");
+}
+
+/** GET /training-plans/me/history — past and current enrollments, newest first. */
+export async function listTrainingPlanEnrollments(userId: string): Promise<
+  Array<
+    TrainingEnrollment & {
+      plan_name: string;
+      sessions_met: number;
+      total_sessions: number;
+    }
+  >
+> {
+  const rows = await db.query<EnrollmentRow & { sessions_met: number }>(
+    `SELECT ${ENROLLMENT_COLUMNS},
+            (SELECT COUNT(*)::int FROM training_plan_days d
+              WHERE d.enrollment_id = e.id AND d.met) AS sessions_met
+       FROM training_plan_enrollments e
+      WHERE user_id = $1
+      ORDER BY created_at DESC
+      LIMIT 50`,
+    [userId],
+  );
+  return rows.flatMap((row) => {
+    const plan = getTrainingPlan(row.plan_key);
+    if (!plan) return [];
+    return [
+      {
+        ...withEndDate(row, plan),
+        plan_name: plan.name,
+        sessions_met: row.sessions_met,
+        total_sessions: plan.days.length,
+      },
+    ];
+  });
+}
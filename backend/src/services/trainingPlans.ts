@@ -0,0 +1,157 @@
+import type { TrainingPlan, TrainingPlanDay } from "../types/trainingPlan.js";
+import { RACE_DISTANCES } from "./workoutService.js";
+
+/**
+ * The training plan catalog. Plans are code, not rows: they change with a
+ * release, the client renders whatever the API returns, and an enrollment
+ * stores only the plan key plus the start date. Keep this module free of DB
+ * access.
+ *
+ * Each plan ends on its race day, a workout at the plan's `race_distance`, so
+ * a finished plan leaves a race record behind (see `computeRaceRecords`).
+ * Removing or reordering days in a plan someone is enrolled in rewrites their
+ * schedule; add a new plan key instead.
+ */
+
+const raceMiles = (key: TrainingPlan["race_distance"]) =>
+  RACE_DISTANCES.find((d) => d.key === key)!.miles;
+
+function day(
+  week: number,
+  dayOfWeek: number,
+  title: string,
+  targets: {
+    miles?: number;
+    minutes?: number;
+    pace?: number;
+  },
+): TrainingPlanDay {
+  return {
+    week,
+    day: dayOfWeek,
+    title,
+    target_distance_miles: targets.miles ?? null,
+    target_duration_sec: targets.minutes ? targets.minutes * 60 : null,
+    target_pace_sec_per_mile: targets.pace ?? null,
+  };
+}
+
+/** Couch-to-5K: three timed run/walk sessions a week for nine weeks. */
+function couchTo5k(): TrainingPlanDay[] {
+  const minutes = [20, 21, 22, 24, 25, 26, 28, 28, 30];
+  const days = minutes.flatMap((m, i) =>
+    [0, 2, 4].map((d) =>
+      day(i + 1, d, `Run/walk intervals · ${m} min`, { minutes: m }),
+    ),
+  );
+  days[days.length - 1] = day(9, 4, "Race day: 5K", { miles: raceMiles("5k") });
+  return days;
+}
+
+/** Three easy runs and a long run each week, the long run building to race day. */
+function easyPlusLong(
+  easyMiles: number[],
+  longMiles: number[],
+  race: TrainingPlan["race_distance"],
+  raceTitle: string,
+): TrainingPlanDay[] {
+  return easyMiles.flatMap((easy, i) => {
+    const week = i + 1;
+    const isRaceWeek = week === easyMiles.length;
+    return [
+      day(week, 0, `Easy run · ${easy} mi`, { miles: easy }),
+      day(week, 2, `Easy run · ${easy} mi`, { miles: easy }),
+      day(week, 4, `Easy run · ${easy} mi`, { miles: easy }),
+      isRaceWeek
+        ? day(week, 6, raceTitle, { miles: raceMiles(race) })
+        : day(week, 6, `Long run · ${longMiles[i]} mi`, {
+            miles: longMiles[i],
+          }),
+    ];
+  });
+}
+
+/** Sub-30 5K: easy miles, tempo work at goal-minus pace, and a timed 5K. */
+function sub30Five(): TrainingPlanDay[] {
+  // 9:39/mi is a 30:00 5K; tempo sits a little under it.
+  const GOAL_PACE = 579;
+  const TEMPO_PACE = 555;
+  const tempoMiles = [1.5, 1.75, 2, 2, 2.25, 2.5];
+  const trialPace = [630, 615, 600, 590, 585];
+  return tempoMiles.flatMap((tempo, i) => {
+    const week = i + 1;
+    return [
+      day(week, 0, "Easy run · 2 mi", { miles: 2 }),
+      day(week, 2, `Tempo · ${tempo} mi`, { miles: tempo, pace: TEMPO_PACE }),
+      week === tempoMiles.length
+        ? day(week, 5, "Race day: 5K under 30:00", {
+            miles: raceMiles("5k"),
+            pace: GOAL_PACE,
+          })
+        : day(week, 5, "5K at steady pace", {
+            miles: raceMiles("5k"),
+            pace: trialPace[i],
+          }),
+    ];
+  });
+}
+
+export const TRAINING_PLANS: TrainingPlan[] = [
+  {
+    key: "couch_to_5k",
+    name: "Couch to 5K",
+    description:
+      "From walking to running a 5K in nine weeks, three sessions a week.",
+    weeks: 9,
+    race_distance: "5k",
+    days: couchTo5k(),
+  },
+  {
+    key: "sub_30_5k",
+    name: "Sub-30 5K",
+    description: "Six weeks of tempo work to take a 5K under 30 minutes.",
+    weeks: 6,
+    race_distance: "5k",
+    days: sub30Five(),
+  },
+  {
+    key: "first_10k",
+    name: "First 10K",
+    description: "Eight weeks of easy miles and a weekly long run to 10K.",
+    weeks: 8,
+    race_distance: "10k",
+    days: easyPlusLong(
+      [1.5, 2, 2, 2.5, 3, 3, 3.5, 3],
+      [2.5, 3, 3.5, 4, 4.5, 5, 5.5],
+      "10k",
+      "Race day: 10K",
+    ),
+  },
+  {
+    key: "half_marathon",
+    name: "Half Marathon",
+    description: "Twelve weeks building the long run to 13.1 miles.",
+    weeks: 12,
+    race_distance: "half",
+    days: easyPlusLong(
+      [3, 3, 3.5, 3.5, 4, 4, 4.5, 4.5, 5, 5, 4, 3],
+      [4, 5, 6, 5, 7, 8, 9, 7, 10, 11, 8],
+      "half",
+      "Race day: Half Marathon",
+    ),
+  },
+];
+
+export function getTrainingPlan(key: string): TrainingPlan | undefined {
+  return TRAINING_PLANS.find((p) => p.key === key);
+}
+
+/** Days from the enrollment start to a plan day. */
+export function planDayIndex(planDay: TrainingPlanDay): number {
+  return (planDay.week - 1) * 7 + planDay.day;
+}
+
+/** Length of a plan in days, start date through race day inclusive. */
+export function planLengthDays(plan: TrainingPlan): number {
+  return Math.max(...plan.days.map(planDayIndex)) + 1;
+}
@@ -2,6 +2,8 @@ import { User } from '../types/user.js';
 import { PostgresService, db as orm, schema } from './DbService.js';
 import { count, eq, sql } from 'drizzle-orm';
 import crypto from 'crypto';
+import { BadRequestError } from '../errors/Errors.js';
+import { isValidTimeZone } from './dailyResetTime.js';
 
 const db = PostgresService.getInstance();
 
@@ -77,6 +79,20 @@ export async function updateBio({ userId, bio }: { userId: string; bio: string }
 	return { success: true };
 }
 
+/**
+ * Store the user's IANA timezone, which decides where their day rolls over
+ * for daily challenges, reminders and the streak sweep (see localNowSql).
+ */
+export async function updateTimezone({ userId, timezone }: { userId: string; timezone: unknown }) {
+	if (!(await isValidTimeZone(timezone))) {
+		throw new BadRequestError('invalid_timezone');
+	}
+
+	await db.query('UPDATE users SET timezone = $1 WHERE user_id = $2', [timezone, userId]);
+
+	return { success: true, timezone };
+}
+
 export async function updateProfileImage({ userId, profileImageUrl }: { userId: string; profileImageUrl: string }) {
 	await db.query('UPDATE users SET profile_image_url = $1 WHERE user_id = $2', [profileImageUrl, userId]);
 
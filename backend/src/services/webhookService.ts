@@ -0,0 +1,660 @@
+import crypto from "crypto";
+import dns from "dns";
+import http from "http";
+import https from "https";
+import net from "net";
+import { PostgresService } from "./DbService.js";
+import { BadRequestError } from "../errors/Errors.js";
+import { logError } from "./errorLogService.js";
+
+const db = PostgresService.getInstance();
+
+/**
+ * Outbound webhooks — "pipe my Mile A Day events into our Slack bot".
+ *
+ * Producers call `emitWebhookEvent`, which only INSERTs a row per matching
+ * subscription into webhook_deliveries and returns; nothing on a request path
+ * ever waits on somebody else's server. The drain (kicked on enqueue, and every
+ * minute by webhookCron as the backstop) POSTs each row, and a failure is
+ * rescheduled with exponential backoff until MAX_ATTEMPTS. The same table is
+ * the delivery log the owner reads back.
+ *
+ * Every request carries `X-MileADay-Signature: t=<unix>,v1=<hex>`, where v1 is
+ * HMAC-SHA256(secret, "<t>.<raw body>"). Receivers should recompute it over
+ * the raw bytes and reject stale timestamps; the delivery id in the body and
+ * the `X-MileADay-Delivery` header is stable across retries, so it doubles as
+ * an idempotency key.
+ */
+
+export const WEBHOOK_EVENTS = [
+  "workout.uploaded",
+  "streak.broken",
+  "competition.finished",
+  "badge.earned",
+] as const;
+export type WebhookEvent = (typeof WEBHOOK_EVENTS)[number];
+
+/** Sent by POST /webhooks/:id/test only; not subscribable. */
+const TEST_EVENT = "webhook.test";
+
+/** Per-user cap. A handful of integrations, not a fan-out service. */
+const MAX_WEBHOOKS_PER_USER = 10;
+
+/** 30s, 1m, 2m … capped at 6h: ten attempts span roughly eleven hours. */
+const MAX_ATTEMPTS = 10;
+const BACKOFF_BASE_SECONDS = 30;
+const BACKOFF_CAP_SECONDS = 6 * 60 * 60;
+
+const REQUEST_TIMEOUT_MS = 10_000;
+
+/**
+ * How long a claimed row is hidden from other drains. Rows are claimed one at
+ * a time, right before their POST, and the lease is several request timeouts
+ * long, so two containers never POST the same delivery concurrently; a drain
+ * that dies mid-send simply lets the row come due again.
+ */
+const CLAIM_LEASE_SECONDS = 60;
+
+/** Settled log rows are kept this long, then swept. */
+const LOG_RETENTION_DAYS = 30;
+
+/** Receivers' responses are logged for debugging, not archived. */
+const MAX_LOGGED_ERROR_CHARS = 500;
+
+export interface Webhook {
+  webhook_id: string;
+  url: string;
+  events: string[];
+  scope: "self" | "all";
+  is_active: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface WebhookDelivery {
+  delivery_id: string;
+  event: string;
+  status: "pending" | "delivered" | "failed";
+  attempts: number;
+  response_status: number | null;
+  last_error: string | null;
+  payload: unknown;
+  created_at: string;
+  last_attempt_at: string | null;
+  next_attempt_at: string | null;
+  delivered_at: string | null;
+}
+
+const ISO_TS = `'YYYY-MM-DD"T"HH24:MI:SS.MS"Z"'`;
+
+const WEBHOOK_COLUMNS = `webhook_id, url, events, scope, is_active,
+  to_char(created_at AT TIME ZONE 'UTC', ${ISO_TS}) AS created_at,
+  to_char(updated_at AT TIME ZONE 'UTC', ${ISO_TS}) AS updated_at`;
+
+// Plain http and private addresses are allowed in development only, so the
+// subsystem can be exercised against a local stand-in receiver. Fail-closed
+// like the /dev gate: an unset or typo'd NODE_ENV must not open up SSRF.
+function allowLocalTargets(): boolean {
+  return process.env.NODE_ENV === "development";
+}
+
+// webhooks.webhook_id is a uuid — a garbage id can't name a hook, and letting
+// it reach the ::uuid cast turns a 404-shaped request into a 500.
+const UUID_RE =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+function assertWebhookId(webhookId: string): void {
+  if (!UUID_RE.test(webhookId)) throw new BadRequestError("webhook_not_found");
+}
+
+/**
+ * The IPv4 address an IPv6 address carries, if any: IPv4-mapped
+ * (::ffff:a.b.c.d), IPv4-compatible (::a.b.c.d) and NAT64 (64:ff9b::a.b.c.d)
+ * all reach the embedded v4 host. The URL parser canonicalizes every spelling
+ * (dotted or hex, zero-padded or not) to compressed hex first.
+ */
+function embeddedIPv4(ip: string): string | null {
+  let canonical: string;
+  try {
+    canonical = new URL(`http://[${ip}]/`).hostname.slice(1, -1);
+  } catch {
+    return null;
+  }
+  const match = /^(?:::(?:ffff:)?|64:ff9b::)(?:([0-9a-f]{1,4}):)?([0-9a-f]{1,4})$/.exec(
+    canonical,
+  );
+  if (!match) return null;
+  const value = (parseInt(match[1] ?? "0", 16) << 16) | parseInt(match[2], 16);
+  return [24, 16, 8, 0].map((shift) => (value >>> shift) & 0xff).join(".");
+}
+
+/**
+ * Everything that isn't a public unicast host, from the IANA IPv4 and IPv6
+ * special-purpose registries plus multicast and the reserved/broadcast block.
+ * 6to4 and Teredo are refused whole: they tunnel to an IPv4 host we'd have to
+ * unpack to vet.
+ */
+const NON_PUBLIC_RANGES: [string, number, "ipv4" | "ipv6"][] = [
+  ["0.0.0.0", 8, "ipv4"], // "this" network
+  ["10.0.0.0", 8, "ipv4"], // private
+  ["100.64.0.0", 10, "ipv4"], // carrier-grade NAT
+  ["127.0.0.0", 8, "ipv4"], // loopback
+  ["169.254.0.0", 16, "ipv4"], // link-local, incl. cloud metadata
+  ["172.16.0.0", 12, "ipv4"], // private
+  ["192.0.0.0", 24, "ipv4"], // IETF protocol assignments
+  ["192.0.2.0", 24, "ipv4"], // TEST-NET-1
+  ["192.88.99.0", 24, "ipv4"], // 6to4 relay anycast
+  ["192.168.0.0", 16, "ipv4"], // private
+  ["198.18.0.0", 15, "ipv4"], // benchmarking
+  ["198.51.100.0", 24, "ipv4"], // TEST-NET-2
+  ["203.0.113.0", 24, "ipv4"], // TEST-NET-3
+  ["224.0.0.0", 4, "ipv4"], // multicast
+  ["240.0.0.0", 4, "ipv4"], // reserved, incl. 255.255.255.255
+  ["::", 128, "ipv6"], // unspecified
+  ["::1", 128, "ipv6"], // loopback
+  ["100::", 64, "ipv6"], // discard-only
+  ["2001::", 32, "ipv6"], // Teredo
+  ["2001:db8::", 32, "ipv6"], // documentation
+  ["2002::", 16, "ipv6"], // 6to4
+  ["fc00::", 7, "ipv6"], // unique local
+  ["fe80::", 10, "ipv6"], // link-local
+  ["fec0::", 10, "ipv6"], // site-local (deprecated, still routable inside)
+  ["ff00::", 8, "ipv6"], // multicast
+];
+
+const nonPublic = new net.BlockList();
+for (const [prefix, bits, family] of NON_PUBLIC_RANGES) {
+  nonPublic.addSubnet(prefix, bits, family);
+}
+
+function isPrivateAddress(ip: string): boolean {
+  const v4 = net.isIPv6(ip) ? embeddedIPv4(ip) : ip;
+  if (v4 !== null && net.isIPv4(v4)) return nonPublic.check(v4, "ipv4");
+  return net.isIPv6(ip) && nonPublic.check(ip, "ipv6");
+}
+
+function isPrivateHostname(hostname: string): boolean {
+  const host = hostname.replace(/^\[|\]$/g, "").toLowerCase();
+  if (net.isIP(host)) return isPrivateAddress(host);
+  return (
+    host === "localhost" ||
+    host.endsWith(".localhost") ||
+    host.endsWith(".local") ||
+    host.endsWith(".internal")
+  );
+}
+
+/**
+ * https only, no credentials in the url, and never a private or loopback host:
+ * the server makes these requests from inside our network, so a webhook url is
+ * an SSRF vector first and an integration second.
+ */
+function normalizeUrl(raw: unknown): string {
+  if (typeof raw !== "string" || raw.length > 2048) {
+    throw new BadRequestError("invalid_url");
+  }
+  let url: URL;
+  try {
+    url = new URL(raw.trim());
+  } catch {
+    throw new BadRequestError("invalid_url");
+  }
+  const local = allowLocalTargets();
+  if (url.protocol !== "https:" && !(local && url.protocol === "http:")) {
+    throw new BadRequestError("invalid_url");
+  }
+  if (url.username || url.password) throw new BadRequestError("invalid_url");
+  if (!local && isPrivateHostname(url.hostname)) {
+    throw new BadRequestError("invalid_url");
+  }
+  return url.toString();
+}
+
+function normalizeEvents(raw: unknown): WebhookEvent[] {
+  if (!Array.isArray(raw)) throw new BadRequestError("invalid_events");
+  const events = [...new Set(raw)];
+  if (
+    events.length === 0 ||
+    !events.every((e) => WEBHOOK_EVENTS.includes(e as WebhookEvent))
+  ) {
+    throw new BadRequestError("invalid_events");
+  }
+  return events as WebhookEvent[];
+}
+
+// ─── Subscriptions ──────────────────────────────────────────────────────────
+
+export async function listWebhooks(userId: string): Promise<Webhook[]> {
+  return db.query<Webhook>(
+    `SELECT ${WEBHOOK_COLUMNS} FROM webhooks
+      WHERE user_id = $1
+      ORDER BY created_at ASC`,
+    [userId],
+  );
+}
+
+/**
+ * Register a hook. The response is the ONLY place the signing secret is ever
+ * returned; a lost secret means deleting the hook and creating a new one.
+ * Scope 'all' (every user's events) is admin-only.
+ */
+export async function createWebhook(
+  userId: string,
+  input: { url: unknown; events: unknown; scope?: unknown },
+): Promise<Webhook & { secret: string }> {
+  const url = normalizeUrl(input.url);
+  const events = normalizeEvents(input.events);
+  const scope = input.scope ?? "self";
+  if (scope !== "self" && scope !== "all") {
+    throw new BadRequestError("invalid_scope");
+  }
+
+  if (scope === "all") {
+    const rows = await db.query<{ role: string | null }>(
+      `SELECT role FROM users WHERE user_id = $1`,
+      [userId],
+    );
+    if (rows[0]?.role !== "admin") throw new BadRequestError("invalid_scope");
+  }
+
+  const existing = await db.query<{ n: number }>(
+    `SELECT COUNT(*)::int AS n FROM webhooks WHERE user_id = $1`,
+    [userId],
+  );
+  if ((existing[0]?.n ?? 0) >= MAX_WEBHOOKS_PER_USER) {
+    throw new BadRequestError("too_many_webhooks");
+  }
+
+  const secret = `whsec_${crypto.randomBytes(32).toString("hex")}`;
+  const rows = await db.query<Webhook>(
+    `INSERT INTO webhooks (user_id, url, secret, events, scope)
+     VALUES ($1, $2, $3, $4::text[], $5)
+     RETURNING ${WEBHOOK_COLUMNS}`,
+    [userId, url, secret, events, scope],
+  );
+  return { ...rows[0], secret };
+}
+
+export async function updateWebhook(
+  userId: string,
+  webhookId: string,
+  patch: { url?: unknown; events?: unknown; isActive?: unknown },
+): Promise<Webhook> {
+  const url = patch.url === undefined ? null : normalizeUrl(patch.url);
+  const events =
+    patch.events === undefined ? null : normalizeEvents(patch.events);
+  if (patch.isActive !== undefined && typeof patch.isActive !== "boolean") {
+    throw new BadRequestError("invalid_is_active");
+  }
+  assertWebhookId(webhookId);
+
+  const rows = await db.query<Webhook>(
+    `UPDATE webhooks
+        SET url = COALESCE($3, url),
+            events = COALESCE($4::text[], events),
+            is_active = COALESCE($5, is_active),
+            updated_at = NOW()
+      WHERE webhook_id = $1 AND user_id = $2
+      RETURNING ${WEBHOOK_COLUMNS}`,
+    [webhookId, userId, url, events, patch.isActive ?? null],
+  );
+  if (rows.length === 0) throw new BadRequestError("webhook_not_found");
+  return rows[0];
+}
+
+/** Deleting a hook takes its delivery log and anything still queued with it. */
+export async function deleteWebhook(
+  userId: string,
+  webhookId: string,
+): Promise<void> {
+  assertWebhookId(webhookId);
+  const rows = await db.query(
+    `DELETE FROM webhooks WHERE webhook_id = $1 AND user_id = $2
+     RETURNING webhook_id`,
+    [webhookId, userId],
+  );
+  if (rows.length === 0) throw new BadRequestError("webhook_not_found");
+}
+
+const DELIVERY_COLUMNS = `delivery_id, event, status, attempts, response_status,
+  last_error, payload,
+  to_char(created_at AT TIME ZONE 'UTC', ${ISO_TS}) AS created_at,
+  to_char(last_attempt_at AT TIME ZONE 'UTC', ${ISO_TS}) AS last_attempt_at,
+  CASE WHEN status = 'pending'
+       THEN to_char(next_attempt_at AT TIME ZONE 'UTC', ${ISO_TS}) END
+    AS next_attempt_at,
+  to_char(delivered_at AT TIME ZONE 'UTC', ${ISO_TS}) AS delivered_at`;
+
+/** Newest first. The log keeps LOG_RETENTION_DAYS of settled deliveries. */
+export async function getDeliveries(
+  userId: string,
+  webhookId: string,
+  limit: number,
+): Promise<WebhookDelivery[]> {
+  await assertOwned(userId, webhookId);
+  return db.query<WebhookDelivery>(
+    `SELECT ${DELIVERY_COLUMNS}
+       FROM webhook_deliveries
+      WHERE webhook_id = $1
+      ORDER BY created_at DESC
+      LIMIT $2`,
+    [webhookId, limit],
+  );
+}
+
+/**
+ * Queue a `webhook.test` ping to this hook alone — active or not, subscribed
+ * or not — so an owner can check their receiver and signature code end to end.
+ */
+export async function sendTestDelivery(
+  userId: string,
+  webhookId: string,
+): Promise<WebhookDelivery> {
+  await assertOwned(userId, webhookId);
+  const rows = await db.query<WebhookDelivery>(
+    `INSERT INTO webhook_deliveries
+       (webhook_id, event, event_key, subject_user_id, payload)
+     VALUES ($1, $2, $3, $4, $5::jsonb)
+     RETURNING ${DELIVERY_COLUMNS}`,
+    [
+      webhookId,
+      TEST_EVENT,
+      `${TEST_EVENT}:${crypto.randomUUID()}`,
+      userId,
+      JSON.stringify({ message: "Test delivery from Mile A Day" }),
+    ],
+  );
+  kickDrain();
+  return rows[0];
+}
+
+async function assertOwned(userId: string, webhookId: string): Promise<void> {
+  assertWebhookId(webhookId);
+  const rows = await db.query(
+    `SELECT 1 FROM webhooks WHERE webhook_id = $1 AND user_id = $2`,
+    [webhookId, userId],
+  );
+  if (rows.length === 0) throw new BadRequestError("webhook_not_found");
+}
+
+// ─── Producers ──────────────────────────────────────────────────────────────
+
+/**
+ * Queue `event` about `subjectUserId` for every active hook subscribed to it:
+ * the subject's own hooks, plus scope-'all' hooks whose owner is STILL an
+ * admin (a demoted admin's firehose goes quiet without anyone deleting it).
+ *
+ * `eventKey` identifies the occurrence for this subject (a workout id, a
+ * competition id); a second emit with the same key is dropped, so producers
+ * can fire from paths that retry. Never throws — a webhook must never fail the action it reports.
+ */
+export async function emitWebhookEvent(
+  subjectUserId: string,
+  event: WebhookEvent,
+  eventKey: string,
+  data: Record<string, unknown>,
+): Promise<void> {
+  try {
+    const queued = await db.query(
+      `INSERT INTO webhook_deliveries
+         (webhook_id, event, event_key, subject_user_id, payload)
+       SELECT w.webhook_id, $2, $3, $1, $4::jsonb
+         FROM webhooks w
+        WHERE w.is_active
+          AND $2 = ANY(w.events)
+          AND (
+            (w.scope = 'self' AND w.user_id = $1)
+            OR (w.scope = 'all' AND EXISTS (
+              SELECT 1 FROM users a
+               WHERE a.user_id = w.user_id AND a.role = 'admin'
+            ))
+          )
+       ON CONFLICT (webhook_id, event_key) DO NOTHING
+       RETURNING delivery_id`,
+      [
+        subjectUserId,
+        event,
+        `${event}:${subjectUserId}:${eventKey}`,
+        JSON.stringify(data),
+      ],
+    );
+    if (queued.length > 0) kickDrain();
+  } catch (err) {
+    logError("webhook", "failed to enqueue webhook event", {
+      userId: subjectUserId,
+      context: { event, eventKey, error: String(err) },
+    });
+  }
+}
+
+// ─── Delivery ───────────────────────────────────────────────────────────────
+
+interface ClaimedDelivery {
+  delivery_id: string;
+  event: string;
+  attempts: number;
+  subject_user_id: string;
+  payload: unknown;
+  created_at: string;
+  url: string;
+  secret: string;
+  is_active: boolean;
+}
+
+/** Exposed for receivers' docs and for a local stand-in to verify against. */
+export function signWebhookBody(
+  secret: string,
+  timestamp: number,
+  body: string,
+): string {
+  return crypto
+    .createHmac("sha256", secret)
+    .update(`${timestamp}.${body}`)
+    .digest("hex");
+}
+
+function backoffSeconds(attempts: number): number {
+  return Math.min(
+    BACKOFF_BASE_SECONDS * 2 ** (attempts - 1),
+    BACKOFF_CAP_SECONDS,
+  );
+}
+
+let draining = false;
+
+function kickDrain(): void {
+  void drainWebhookDeliveries().catch((err) =>
+    console.error("[Webhooks] drain failed:", err?.message ?? err),
+  );
+}
+
+/**
+ * Deliver everything that is due. One drain at a time per process; the claim
+ * lease keeps drains on different containers off each other's rows. Each row
+ * is claimed on its own just before its POST, so a slow receiver can never
+ * run a claimed-but-unsent row past its lease.
+ */
+export async function drainWebhookDeliveries(): Promise<void> {
+  if (draining) return;
+  draining = true;
+  try {
+    for (;;) {
+      const claimed = await db.query<ClaimedDelivery>(
+        `WITH due AS (
+           SELECT delivery_id FROM webhook_deliveries
+            WHERE status = 'pending' AND next_attempt_at <= NOW()
+            ORDER BY next_attempt_at
+            LIMIT 1
+            FOR UPDATE SKIP LOCKED
+         )
+         UPDATE webhook_deliveries d
+            SET next_attempt_at = NOW() + INTERVAL '${CLAIM_LEASE_SECONDS} seconds'
+           FROM due, webhooks w
+          WHERE d.delivery_id = due.delivery_id AND w.webhook_id = d.webhook_id
+          RETURNING d.delivery_id, d.event, d.attempts, d.subject_user_id,
+                    d.payload,
+                    to_char(d.created_at AT TIME ZONE 'UTC', ${ISO_TS}) AS created_at,
+                    w.url, w.secret, w.is_active`,
+      );
+      if (claimed.length === 0) return;
+      await attemptDelivery(claimed[0]);
+    }
+  } finally {
+    draining = false;
+  }
+}
+
+async function attemptDelivery(d: ClaimedDelivery): Promise<void> {
+  // Paused after it was queued. Test pings are the exception: they exist to
+  // check a hook, including a paused one.
+  if (!d.is_active && d.event !== TEST_EVENT) {
+    await db.query(
+      `UPDATE webhook_deliveries
+          SET status = 'failed', last_error = 'webhook_inactive'
+        WHERE delivery_id = $1`,
+      [d.delivery_id],
+    );
+    return;
+  }
+
+  const body = JSON.stringify({
+    id: d.delivery_id,
+    event: d.event,
+    created_at: d.created_at,
+    user_id: d.subject_user_id,
+    data: d.payload,
+  });
+  const timestamp = Math.floor(Date.now() / 1000);
+
+  let responseStatus: number | null = null;
+  let error: string | null = null;
+  try {
+    const res = await postToTarget(d.url, body, {
+      "Content-Type": "application/json",
+      "User-Agent": "MileADay-Webhooks/1.0",
+      "X-MileADay-Event": d.event,
+      "X-MileADay-Delivery": d.delivery_id,
+      "X-MileADay-Signature": `t=${timestamp},v1=${signWebhookBody(d.secret, timestamp, body)}`,
+    });
+    responseStatus = res.status;
+    if (res.status < 200 || res.status >= 300) {
+      error = `HTTP ${res.status}${res.text ? `: ${res.text}` : ""}`;
+    }
+  } catch (err: any) {
+    error = err?.message ?? String(err);
+  }
+
+  const attempts = d.attempts + 1;
+  if (error === null) {
+    await db.query(
+      `UPDATE webhook_deliveries
+          SET status = 'delivered', attempts = $2, response_status = $3,
+              last_error = NULL, last_attempt_at = NOW(), delivered_at = NOW()
+        WHERE delivery_id = $1`,
+      [d.delivery_id, attempts, responseStatus],
+    );
+    return;
+  }
+
+  const giveUp = attempts >= MAX_ATTEMPTS;
+  await db.query(
+    `UPDATE webhook_deliveries
+        SET status = $4, attempts = $2, response_status = $3,
+            last_error = $5, last_attempt_at = NOW(),
+            next_attempt_at = NOW() + make_interval(secs => $6)
+      WHERE delivery_id = $1`,
+    [
+      d.delivery_id,
+      attempts,
+      responseStatus,
+      giveUp ? "failed" : "pending",
+      error.slice(0, MAX_LOGGED_ERROR_CHARS),
+      backoffSeconds(attempts),
+    ],
+  );
+}
+
+/**
+ * dns.lookup for the delivery socket. Registration rejects private hosts by
+ * name; this refuses what the name resolves to, and because the socket
+ * connects to exactly the addresses checked here, a hostname re-pointed at an
+ * internal address between check and connect (DNS rebinding) is refused too.
+ */
+const publicOnlyLookup: net.LookupFunction = (hostname, options, callback) => {
+  dns.lookup(hostname, { ...options, all: true }, (err, addresses) => {
+    if (err) return callback(err, "", 0);
+    if (addresses.length === 0 || addresses.some((a) => isPrivateAddress(a.address))) {
+      return callback(
+        new Error("target resolves to a private address"),
+        "",
+        0,
+      );
+    }
+    if (options.all) return callback(null, addresses);
+    callback(null, addresses[0].address, addresses[0].family);
+  });
+};
+
+/**
+ * POST `body` to a hook's url. Never follows redirects — a Location could
+ * point anywhere, including inside our network; the registered url is the
+ * only one we call. Only the first MAX_LOGGED_ERROR_CHARS of the response are
+ * kept.
+ */
+function postToTarget(
+  rawUrl: string,
+  body: string,
+  headers: Record<string, string>,
+): Promise<{ status: number; text: string }> {
+  const url = new URL(rawUrl);
+  const local = allowLocalTargets();
+  // IP literals never go through `lookup`, so they are checked here.
+  const host = url.hostname.replace(/^\[|\]$/g, "");
+  if (!local && net.isIP(host) && isPrivateAddress(host)) {
+    return Promise.reject(new Error("target resolves to a private address"));
+  }
+
+  const client = url.protocol === "https:" ? https : http;
+  return new Promise((resolve, reject) => {
+    const req = client.request(
+      url,
+      {
+        method: "POST",
+        headers: { ...headers, "Content-Length": Buffer.byteLength(body) },
+        lookup: local ? undefined : publicOnlyLookup,
+        // Fresh socket per delivery: a pooled one was connected to whatever
+        // an earlier lookup returned.
+        agent: false,
+      },
+      (res) => {
+        let text = "";
+        res.setEncoding("utf8");
+        res.on("data", (chunk: string) => {
+          if (text.length < MAX_LOGGED_ERROR_CHARS) text += chunk;
+        });
+        res.on("end", () =>
+          resolve({ status: res.statusCode ?? 0, text: text.slice(0, MAX_LOGGED_ERROR_CHARS) }),
+        );
+        res.on("error", reject);
+      },
+    );
+    // A wall-clock deadline, not the socket idle timeout: a receiver that
+    // trickles its response a byte at a time must not outlive the claim lease.
+    const deadline = setTimeout(
+      () => req.destroy(new Error(`timed out after ${REQUEST_TIMEOUT_MS}ms`)),
+      REQUEST_TIMEOUT_MS,
+    );
+    req.on("close", () => clearTimeout(deadline));
+    req.on("error", reject);
+    req.end(body);
+  });
+}
+
+/** Drop settled log rows past retention. Pending rows are never swept. */
+export async function pruneWebhookDeliveries(): Promise<void> {
+  await db.query(
+    `DELETE FROM webhook_deliveries
+      WHERE status <> 'pending'
+        AND created_at < NOW() - INTERVAL '${LOG_RETENTION_DAYS} days'`,
+  );
+}
@@ -1,6 +1,6 @@
 import { PostgresService } from "./DbService.js";
 import { countedWorkoutSql, realMileSplitSql } from "./mileTime.js";
-import { DAILY_GOAL_TOLERANCE } from "./workoutService.js";
+import { DAILY_GOAL_TOLERANCE, goalMilesSql } from "./dailyGoalService.js";
 import { weekOfEpoch } from "./challengeRotation.js";
 import { getBlockedIds } from "./moderationService.js";
 import { sendPush } from "./pushNotificationService.js";
@@ -432,20 +432,17 @@ export async function measure(
     // A "hit your goal" day is the 0.95 tolerance, never a raw >= goal: the
     // rest of the app counts a 0.96-mile day against a 1-mile goal as done, and
     // a stricter test here would call a day the dashboard shows as complete a
-    // miss. `goal_miles` is clamped because the helper is vacuously true at 0.
+    // miss. Each day is held to the distance goal in force on it; a minutes or
+    // steps goal reads as the default mile, since this challenge is about miles.
     case "mile_days":
       return scalar(
-        `WITH goal AS (
-				SELECT GREATEST(COALESCE(u.goal_miles, 1), 0.1) AS g
-				FROM users u WHERE u.user_id = $1
-			)
-			SELECT COUNT(*) AS v FROM (
+        `SELECT COUNT(*) AS v FROM (
 				SELECT w.local_date
-				FROM workouts w, goal
+				FROM workouts w
 				WHERE w.user_id = $1 AND w.local_date BETWEEN $2::date AND $3::date
 					AND ${countedWorkoutSql("w")}
-				GROUP BY w.local_date, goal.g
-				HAVING SUM(w.distance) >= goal.g::double precision * ${DAILY_GOAL_TOLERANCE}
+				GROUP BY w.local_date
+				HAVING SUM(w.distance) >= ${goalMilesSql("$1", "w.local_date")} * ${DAILY_GOAL_TOLERANCE}
 			) days`,
         params,
       );
@@ -987,8 +984,7 @@ export async function measureBatch(
 				)
 				SELECT dt.user_id, COUNT(*) AS v
 				FROM day_totals dt
-				JOIN users u ON u.user_id = dt.user_id
-				WHERE dt.miles >= GREATEST(COALESCE(u.goal_miles, 1), 0.1)::double precision * ${DAILY_GOAL_TOLERANCE}
+				WHERE dt.miles >= ${goalMilesSql("dt.user_id", "dt.local_date")} * ${DAILY_GOAL_TOLERANCE}
 				GROUP BY dt.user_id`;
       break;
 
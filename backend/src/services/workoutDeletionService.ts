@@ -2,6 +2,8 @@ import { PostgresService } from "./DbService.js";
 import { refreshCurrentStreak } from "./leaderboardService.js";
 import { revokeUnearnedBadges } from "./badgeService.js";
 import { recomputeFeedRolesForDay } from "./workoutService.js";
+import { recomputeTrainingPlanDate } from "./trainingPlanService.js";
+import { invalidateHeatmap } from "./heatmapService.js";
 
 const db = PostgresService.getInstance();
 
@@ -54,6 +56,11 @@ export async function softDeleteWorkout(
   // the day back under the mile so it shows nothing at all — so the whole day is
   // reclassified, not just this row.
   await recomputeFeedRolesForDay(userId, active[0].local_date);
+  // The route leaves the heatmap with the workout.
+  await invalidateHeatmap(userId);
+  await recomputeTrainingPlanDate(userId, active[0].local_date).catch((err) =>
+    console.error("Error recomputing training plan day:", err.message),
+  );
 
   // Remove any challenge completion this specific workout earned.
   await db
@@ -0,0 +1,546 @@
+import { createHash } from "node:crypto";
+import { BadRequestError } from "../errors/Errors.js";
+import { PostgresService } from "./DbService.js";
+import { haversineMeters } from "./geo.js";
+import {
+  Workout,
+  WorkoutImportFormat,
+  WorkoutSplit,
+} from "../types/workouts.js";
+
+const db = PostgresService.getInstance();
+
+export const WORKOUT_IMPORT_FORMATS: WorkoutImportFormat[] = [
+  "gpx",
+  "tcx",
+  "fit",
+];
+
+const METERS_PER_MILE = 1609.34;
+
+// Same ceiling SplitCalculator applies to HealthKit samples (~2:00/mile). A
+// point pair implying more than this is a GPS jump, not a stride, and would
+// otherwise mint a world-record split out of one bad fix.
+const MAX_HUMAN_SPEED_MPS = 13.4;
+
+/** One sample from a device file, normalized across all three formats. */
+type TrackPoint = {
+  /** Epoch milliseconds. */
+  t: number;
+  lat?: number;
+  lng?: number;
+  /** Cumulative meters, when the device recorded it (TCX/FIT). */
+  distanceM?: number;
+};
+
+/** What a parser hands back before it becomes a `Workout`. */
+type ParsedActivity = {
+  points: TrackPoint[];
+  /** Raw sport/type label from the file, lowercased, if it carried one. */
+  sport: string | null;
+  /** Device-reported totals; preferred over what the points add up to. */
+  totalDistanceM?: number;
+  totalElapsedSec?: number;
+  calories?: number;
+};
+
+export type ImportOptions = {
+  /**
+   * Minutes east of UTC used to derive `localDate`. Device files carry UTC
+   * timestamps only, so the day a run lands on is the caller's to say; absent,
+   * it falls back to the user's most recent workout, like getUserLocalToday.
+   */
+  timezoneOffset?: number;
+  /** Overrides whatever activity the file declares. */
+  workoutType?: "running" | "walking";
+};
+
+/** Which parser a file goes to, by extension. Null = not something we read. */
+export function detectImportFormat(
+  filename: string,
+): WorkoutImportFormat | null {
+  const ext = filename.toLowerCase().split(".").pop() ?? "";
+  return WORKOUT_IMPORT_FORMATS.includes(ext as WorkoutImportFormat)
+    ? (ext as WorkoutImportFormat)
+    : null;
+}
+
+/**
+ * Parse a GPX, TCX or FIT file into the same `Workout` shape the iOS sync
+ * uploads, ready for `uploadWorkouts`.
+ *
+ * The workout id is derived from the file's bytes, so importing the same file
+ * twice upserts one row instead of doubling someone's miles. The bundle id is
+ * a synthetic `import.<format>` so cross-app duplicate detection can pair the
+ * import with a HealthKit copy of the same run (detection ignores rows with no
+ * bundle id, which would let the double-count straight through).
+ *
+ * Throws BadRequestError with a snake_case code for anything the client got
+ * wrong: an unknown format, a file with no usable track, an activity that isn't
+ * a run or walk.
+ */
+export async function parseWorkoutFile(
+  userId: string,
+  filename: string,
+  data: Buffer,
+  options: ImportOptions = {},
+): Promise<Workout> {
+  const format = detectImportFormat(filename);
+  if (!format) throw new BadRequestError("unsupported_format");
+
+  const activity =
+    format === "fit"
+      ? parseFit(data)
+      : format === "tcx"
+        ? parseTcx(data.toString("utf8"))
+        : parseGpx(data.toString("utf8"));
+
+  const points = activity.points
+    .filter((p) => Number.isFinite(p.t))
+    .sort((a, b) => a.t - b.t);
+  if (points.length < 2) throw new BadRequestError("no_track_points");
+
+  const workoutType = options.workoutType ?? classifySport(activity.sport);
+  if (!workoutType) throw new BadRequestError("unsupported_activity");
+
+  const cumulative = cumulativeMeters(points);
+  const trackMeters = cumulative[cumulative.length - 1];
+  const distanceM =
+    activity.totalDistanceM && activity.totalDistanceM > 0
+      ? activity.totalDistanceM
+      : trackMeters;
+  if (!(distanceM > 0)) throw new BadRequestError("no_distance");
+
+  const startMs = points[0].t;
+  const endMs = points[points.length - 1].t;
+  const totalDuration =
+    activity.totalElapsedSec && activity.totalElapsedSec > 0
+      ? activity.totalElapsedSec
+      : (endMs - startMs) / 1000;
+  if (!(totalDuration > 0)) throw new BadRequestError("no_duration");
+
+  const timezoneOffset = Number.isFinite(options.timezoneOffset)
+    ? Math.round(options.timezoneOffset as number)
+    : await latestTimezoneOffset(userId);
+  const localDate = new Date(startMs + timezoneOffset * 60_000)
+    .toISOString()
+    .slice(0, 10);
+
+  const route = points
+    .filter((p) => p.lat !== undefined && p.lng !== undefined)
+    .map((p) => [p.lat, p.lng] as [number, number]);
+
+  return {
+    // Keyed on the uploader too: the same file imported by two people is two
+    // workouts, not a collision the ownership guard would silently drop.
+    workoutId: `import-${createHash("sha256")
+      .update(`${userId}\0`)
+      .update(data)
+      .digest("hex")
+      .slice(0, 32)}`,
+    distance: distanceM / METERS_PER_MILE,
+    localDate,
+    date: localDate,
+    timezoneOffset,
+    workoutType,
+    deviceEndDate: new Date(endMs).toISOString(),
+    calories: activity.calories ?? 0,
+    totalDuration,
+    splits: computeSplits(points, cumulative),
+    source: "import",
+    sourceBundleId: `import.${format}`,
+    // uploadWorkouts' sanitizeRoute validates and downsamples; no need here.
+    ...(route.length >= 2 ? { route } : {}),
+  };
+}
+
+/** running/walking, or null for anything this app doesn't count. */
+function classifySport(sport: string | null): "running" | "walking" | null {
+  // A file that names no activity is almost always a run exported by a watch
+  // that only ever records runs; assuming so beats rejecting it.
+  if (!sport || sport === "generic" || sport === "other") return "running";
+  if (sport.includes("run")) return "running";
+  if (sport.includes("walk") || sport.includes("hik")) return "walking";
+  return null;
+}
+
+async function latestTimezoneOffset(userId: string): Promise<number> {
+  const rows = await db.query<{ timezone_offset: number }>(
+    `SELECT timezone_offset FROM workouts
+		 WHERE user_id = $1 ORDER BY device_end_date DESC LIMIT 1`,
+    [userId],
+  );
+  return rows[0]?.timezone_offset ?? 0;
+}
+
+/**
+ * Cumulative meters at every point. The device's own odometer wins when it
+ * recorded one (TCX/FIT — it has wheel/footpod/accelerometer data we don't);
+ * otherwise great-circle distance between fixes, skipping jumps faster than a
+ * human can move.
+ */
+function cumulativeMeters(points: TrackPoint[]): number[] {
+  const hasOdometer = points.some((p) => p.distanceM !== undefined);
+  const out: number[] = [];
+  let total = 0;
+  let last: TrackPoint | undefined;
+  for (const p of points) {
+    if (hasOdometer) {
+      if (p.distanceM !== undefined && p.distanceM >= total)
+        total = p.distanceM;
+    } else if (last && p.lat !== undefined && p.lng !== undefined) {
+      const step = haversineMeters(last.lat!, last.lng!, p.lat, p.lng!);
+      const secs = (p.t - last.t) / 1000;
+      if (secs > 0 && step / secs <= MAX_HUMAN_SPEED_MPS) total += step;
+    }
+    if (p.lat !== undefined && p.lng !== undefined) last = p;
+    out.push(total);
+  }
+  return out;
+}
+
+/**
+ * Per-mile splits, the same shape and interpolation as the iOS
+ * SplitCalculator: full miles at distance 1.0, then a trailing partial whose
+ * pace is extrapolated to a mile.
+ */
+function computeSplits(
+  points: TrackPoint[],
+  cumulative: number[],
+): WorkoutSplit[] {
+  const splits: WorkoutSplit[] = [];
+  let splitStartMs = points[0].t;
+  for (let i = 1; i < points.length; i++) {
+    const prevM = cumulative[i - 1];
+    const curM = cumulative[i];
+    while (curM >= (splits.length + 1) * METERS_PER_MILE) {
+      const boundary = (splits.length + 1) * METERS_PER_MILE;
+      const ratio = curM > prevM ? (boundary - prevM) / (curM - prevM) : 1;
+      const crossMs = points[i - 1].t + ratio * (points[i].t - points[i - 1].t);
+      const duration = (crossMs - splitStartMs) / 1000;
+      splits.push({
+        splitNumber: splits.length + 1,
+        distance: 1.0,
+        duration,
+        pace: duration,
+      });
+      splitStartMs = crossMs;
+    }
+  }
+
+  const remainingMeters =
+    cumulative[cumulative.length - 1] - splits.length * METERS_PER_MILE;
+  const remainingSec = (points[points.length - 1].t - splitStartMs) / 1000;
+  if (remainingSec > 0 && remainingMeters > 0) {
+    splits.push({
+      splitNumber: splits.length + 1,
+      distance: remainingMeters / METERS_PER_MILE,
+      duration: remainingSec,
+      pace: (METERS_PER_MILE / remainingMeters) * remainingSec,
+    });
+  }
+  return splits;
+}
+
+// MARK: - GPX / TCX
+//
+// Both are small, regular XML dialects; a tag-level scan reads every export
+// we've seen (Garmin, Coros, Suunto, Polar, Strava) without pulling an XML
+// parser into the API for one endpoint.
+
+function tagText(xml: string, tag: string): string | null {
+  const m = xml.match(
+    new RegExp(`<(?:\\w+:)?${tag}\\b[^>]*>([\\s\\S]*?)</(?:\\w+:)?${tag}>`),
+  );
+  return m ? m[1].trim() : null;
+}
+
+function allBlocks(xml: string, tag: string): string[] {
+  const re = new RegExp(
+    `<(?:\\w+:)?${tag}\\b[^>]*?(?:/>|>[\\s\\S]*?</(?:\\w+:)?${tag}>)`,
+    "g",
+  );
+  return xml.match(re) ?? [];
+}
+
+function attr(block: string, name: string): string | null {
+  const m = block.match(new RegExp(`\\b${name}\\s*=\\s*["']([^"']*)["']`));
+  return m ? m[1] : null;
+}
+
+function num(value: string | null): number | undefined {
+  if (value === null) return undefined;
+  const n = Number(value);
+  return Number.isFinite(n) ? n : undefined;
+}
+
+function parseGpx(xml: string): ParsedActivity {
+  if (!/<(?:\w+:)?gpx\b/.test(xml)) throw new BadRequestError("invalid_file");
+  const points: TrackPoint[] = [];
+  for (const block of allBlocks(xml, "trkpt")) {
+    const t = Date.parse(tagText(block, "time") ?? "");
+    const lat = num(attr(block, "lat"));
+    const lng = num(attr(block, "lon"));
+    if (!Number.isFinite(t) || lat === undefined || lng === undefined) continue;
+    points.push({ t, lat, lng });
+  }
+  const trk = allBlocks(xml, "trk")[0] ?? "";
+  const type = tagText(trk.replace(/<trkseg[\s\S]*$/, ""), "type");
+  return { points, sport: type ? type.toLowerCase() : null };
+}
+
+function parseTcx(xml: string): ParsedActivity {
+  const activity = allBlocks(xml, "Activity")[0];
+  if (!activity) throw new BadRequestError("invalid_file");
+
+  const points: TrackPoint[] = [];
+  for (const block of allBlocks(activity, "Trackpoint")) {
+    const t = Date.parse(tagText(block, "Time") ?? "");
+    if (!Number.isFinite(t)) continue;
+    points.push({
+      t,
+      lat: num(tagText(block, "LatitudeDegrees")),
+      lng: num(tagText(block, "LongitudeDegrees")),
+      distanceM: num(tagText(block, "DistanceMeters")),
+    });
+  }
+
+  // Lap totals are the device's own numbers; the trackpoints' last odometer
+  // reading is only the fallback.
+  let totalDistanceM = 0;
+  let totalElapsedSec = 0;
+  let calories = 0;
+  for (const lap of allBlocks(activity, "Lap")) {
+    const head = lap.replace(/<(?:\w+:)?Track\b[\s\S]*$/, "");
+    totalDistanceM += num(tagText(head, "DistanceMeters")) ?? 0;
+    totalElapsedSec += num(tagText(head, "TotalTimeSeconds")) ?? 0;
+    calories += num(tagText(head, "Calories")) ?? 0;
+  }
+
+  const sport = attr(activity, "Sport");
+  return {
+    points,
+    sport: sport ? sport.toLowerCase() : null,
+    totalDistanceM: totalDistanceM || undefined,
+    totalElapsedSec: totalElapsedSec || undefined,
+    calories: calories || undefined,
+  };
+}
+
+// MARK: - FIT
+//
+// Garmin's binary format. Only the two messages an import needs are decoded —
+// `record` (20) for the track and `session` (18) for the device totals — and
+// everything else is skipped by its declared size, which is what the format's
+// definition messages exist to allow.
+
+/** Seconds between the Unix epoch and the FIT epoch (1989-12-31T00:00:00Z). */
+const FIT_EPOCH_OFFSET = 631065600;
+const FIT_SEMICIRCLE_TO_DEG = 180 / 2 ** 31;
+const FIT_MESG_SESSION = 18;
+const FIT_MESG_RECORD = 20;
+const FIT_FIELD_TIMESTAMP = 253;
+
+// FIT sport enum → the words classifySport understands.
+const FIT_SPORTS: Record<number, string> = {
+  0: "generic",
+  1: "running",
+  2: "cycling",
+  5: "swimming",
+  11: "walking",
+  17: "hiking",
+};
+
+type FitFieldDef = { num: number; size: number; baseType: number };
+type FitDefinition = {
+  globalNum: number;
+  littleEndian: boolean;
+  fields: FitFieldDef[];
+  devSize: number;
+};
+
+/**
+ * Read one numeric field, or undefined for the base type's "invalid" sentinel
+ * (how FIT says "not recorded") and for strings/byte arrays, which we never
+ * need.
+ */
+function readFitValue(
+  buf: Buffer,
+  offset: number,
+  field: FitFieldDef,
+  le: boolean,
+): number | undefined {
+  const { size, baseType } = field;
+  switch (baseType) {
+    case 0x00: // enum
+    case 0x02: // uint8
+    case 0x0a: {
+      // uint8z
+      if (size !== 1) return undefined;
+      const v = buf.readUInt8(offset);
+      return v === 0xff || (baseType === 0x0a && v === 0) ? undefined : v;
+    }
+    case 0x01: {
+      if (size !== 1) return undefined;
+      const v = buf.readInt8(offset);
+      return v === 0x7f ? undefined : v;
+    }
+    case 0x83: {
+      if (size !== 2) return undefined;
+      const v = le ? buf.readInt16LE(offset) : buf.readInt16BE(offset);
+      return v === 0x7fff ? undefined : v;
+    }
+    case 0x84:
+    case 0x8b: {
+      if (size !== 2) return undefined;
+      const v = le ? buf.readUInt16LE(offset) : buf.readUInt16BE(offset);
+      return v === 0xffff || (baseType === 0x8b && v === 0) ? undefined : v;
+    }
+    case 0x85: {
+      if (size !== 4) return undefined;
+      const v = le ? buf.readInt32LE(offset) : buf.readInt32BE(offset);
+      return v === 0x7fffffff ? undefined : v;
+    }
+    case 0x86:
+    case 0x8c: {
+      if (size !== 4) return undefined;
+      const v = le ? buf.readUInt32LE(offset) : buf.readUInt32BE(offset);
+      return v === 0xffffffff || (baseType === 0x8c && v === 0) ? undefined : v;
+    }
+    case 0x88: {
+      if (size !== 4) return undefined;
+      const v = le ? buf.readFloatLE(offset) : buf.readFloatBE(offset);
+      return Number.isFinite(v) ? v : undefined;
+    }
+    case 0x89: {
+      if (size !== 8) return undefined;
+      const v = le ? buf.readDoubleLE(offset) : buf.readDoubleBE(offset);
+      return Number.isFinite(v) ? v : undefined;
+    }
+    default:
+      return undefined;
+  }
+}
+
+function parseFit(buf: Buffer): ParsedActivity {
+  if (buf.length < 12 || buf.toString("ascii", 8, 12) !== ".FIT") {
+    throw new BadRequestError("invalid_file");
+  }
+  const headerSize = buf.readUInt8(0);
+  const dataEnd = Math.min(buf.length, headerSize + buf.readUInt32LE(4));
+
+  const definitions = new Map<number, FitDefinition>();
+  const points: TrackPoint[] = [];
+  const activity: ParsedActivity = { points, sport: null };
+  let lastTimestamp = 0;
+  let offset = headerSize;
+
+  try {
+    while (offset < dataEnd) {
+      const header = buf.readUInt8(offset++);
+
+      // Compressed-timestamp data message: a 5-bit rolling offset from the
+      // last full timestamp instead of a timestamp field.
+      let compressedTs: number | undefined;
+      let localType: number;
+      if (header & 0x80) {
+        localType = (header >> 5) & 0x03;
+        const delta = header & 0x1f;
+        compressedTs =
+          lastTimestamp + ((delta - (lastTimestamp & 0x1f)) & 0x1f);
+        lastTimestamp = compressedTs;
+      } else {
+        localType = header & 0x0f;
+        if (header & 0x40) {
+          // Definition message.
+          const littleEndian = buf.readUInt8(offset + 1) === 0;
+          const globalNum = littleEndian
+            ? buf.readUInt16LE(offset + 2)
+            : buf.readUInt16BE(offset + 2);
+          const fieldCount = buf.readUInt8(offset + 4);
+          offset += 5;
+          const fields: FitFieldDef[] = [];
+          for (let i = 0; i < fieldCount; i++) {
+            fields.push({
+              num: buf.readUInt8(offset),
+              size: buf.readUInt8(offset + 1),
+              baseType: buf.readUInt8(offset + 2),
+            });
+            offset += 3;
+          }
+          let devSize = 0;
+          if (header & 0x20) {
+            const devCount = buf.readUInt8(offset++);
+            for (let i = 0; i < devCount; i++) {
+              devSize += buf.readUInt8(offset + 1);
+              offset += 3;
+            }
+          }
+          definitions.set(localType, {
+            globalNum,
+            littleEndian,
+            fields,
+            devSize,
+          });
+          continue;
+        }
+      }
+
+      const def = definitions.get(localType);
+      if (!def) throw new BadRequestError("invalid_file");
+      const values = new Map<number, number>();
+      for (const field of def.fields) {
+        const v = readFitValue(buf, offset, field, def.littleEndian);
+        if (v !== undefined) values.set(field.num, v);
+        offset += field.size;
+      }
+      offset += def.devSize;
+
+      const ts = values.get(FIT_FIELD_TIMESTAMP);
+      if (ts !== undefined) lastTimestamp = ts;
+      const timestamp = ts ?? compressedTs;
+
+      if (def.globalNum === FIT_MESG_RECORD && timestamp !== undefined) {
+        const lat = values.get(0);
+        const lng = values.get(1);
+        const distance = values.get(5);
+        points.push({
+          t: (timestamp + FIT_EPOCH_OFFSET) * 1000,
+          ...(lat !== undefined && lng !== undefined
+            ? {
+                lat: lat * FIT_SEMICIRCLE_TO_DEG,
+                lng: lng * FIT_SEMICIRCLE_TO_DEG,
+              }
+            : {}),
+          ...(distance !== undefined ? { distanceM: distance / 100 } : {}),
+        });
+      } else if (def.globalNum === FIT_MESG_SESSION) {
+        // Multisport files carry one session per leg; totals add up.
+        const sport = values.get(5);
+        if (sport !== undefined && activity.sport === null) {
+          activity.sport = FIT_SPORTS[sport] ?? `sport_${sport}`;
+        }
+        const elapsed = values.get(7);
+        const distance = values.get(9);
+        const calories = values.get(11);
+        if (elapsed !== undefined) {
+          activity.totalElapsedSec =
+            (activity.totalElapsedSec ?? 0) + elapsed / 1000;
+        }
+        if (distance !== undefined) {
+          activity.totalDistanceM =
+            (activity.totalDistanceM ?? 0) + distance / 100;
+        }
+        if (calories !== undefined) {
+          activity.calories = (activity.calories ?? 0) + calories;
+        }
+      }
+    }
+  } catch (error) {
+    if (error instanceof BadRequestError) throw error;
+    // A RangeError from reading past the end: truncated upload.
+    throw new BadRequestError("invalid_file");
+  }
+
+  return activity;
+}
@@ -5,6 +5,15 @@ import {
 } from "./mileTime.js";
 import { PostgresService } from "./DbService.js";
 import { VIEWER_MAY_SEE_WORKOUT_CONTENT_SQL } from "./visibilityService.js";
+import { privacyTrimmedRouteSql } from "./privacyZoneService.js";
+import { localTodaySql } from "./dailyResetTime.js";
+import {
+  DAILY_GOAL_TOLERANCE,
+  getDailyGoalProgress,
+  goalOnDateSql,
+  qualifyingDaysSql,
+} from "./dailyGoalService.js";
+import type { DailyGoalType } from "../types/dailyGoals.js";
 import {
   coverageActiveFor,
   computeCoveredStreak,
@@ -14,9 +23,12 @@ import {
 
 const db = PostgresService.getInstance();
 
+/** Longest race a multi-split ghost result is stored for — an ultra, not a drive. */
+const MAX_GHOST_RACE_MILES = 100;
+
 /**
  * The ghost-race columns for one workout's upsert, as
- * `[margin, target, friendUserId]`.
+ * `[margin, target, friendUserId, sourceWorkoutId, distance, splitMargins]`.
  *
  * `margin` is SIGNED: positive = won by that many seconds, negative = lost by
  * them. It is stamped for every completed race, not just wins, because a race
@@ -32,32 +44,88 @@ const db = PostgresService.getInstance();
  * client's `GhostTarget.isPlausible` (4:01…40:00), and no margin in either
  * direction can exceed a whole plausible mile.
  *
+ * A multi-split race (`ghostDistance` set) scales the same bounds by distance:
+ * the target is the ghost's time over the whole distance, so it is its PACE
+ * that has to fall in the band, and the margin may be up to that many plausible
+ * miles. Per-split margins that don't fit — wrong count, a non-number, one
+ * outside the margin bound — drop just the splits; the race result still holds.
+ * No distance is the legacy single mile, and stores null there.
+ *
  * `friendUserId` is present only when the ghost was a FRIEND's mile. It is
  * client-asserted and NOT validated here — it is validated where it matters,
  * at notify time in `notifyGhostsBeaten`, which re-checks the friendship and
  * the block state before telling anyone anything. Storing an unverified id is
- * harmless; pushing on one would be a spoofing vector.
+ * harmless; pushing on one would be a spoofing vector. `sourceWorkoutId` is
+ * the same: stored as sent, re-gated by `getGhostHistory` before it's shown.
  */
 function ghostRaceParams(
   workout: Workout,
-): [number | null, number | null, string | null] {
+): [
+  number | null,
+  number | null,
+  string | null,
+  string | null,
+  number | null,
+  string | null,
+] {
+  const none: ReturnType<typeof ghostRaceParams> = [
+    null,
+    null,
+    null,
+    null,
+    null,
+    null,
+  ];
   const margin = Number(workout.ghostMarginSeconds);
   const target = Number(workout.ghostTargetSeconds);
+  const multi =
+    workout.ghostDistance !== undefined && workout.ghostDistance !== null;
+  const miles = multi ? Number(workout.ghostDistance) : 1;
+  if (!Number.isFinite(miles) || miles <= 0 || miles > MAX_GHOST_RACE_MILES) {
+    return none;
+  }
   const ok =
     Number.isFinite(margin) &&
     Number.isFinite(target) &&
     margin !== 0 &&
-    target >= MIN_PLAUSIBLE_MILE_SECONDS &&
-    target <= MAX_PLAUSIBLE_MILE_SECONDS &&
-    Math.abs(margin) <= MAX_PLAUSIBLE_MILE_SECONDS;
-  if (!ok) return [null, null, null];
+    target / miles >= MIN_PLAUSIBLE_MILE_SECONDS &&
+    target / miles <= MAX_PLAUSIBLE_MILE_SECONDS &&
+    Math.abs(margin) <= MAX_PLAUSIBLE_MILE_SECONDS * miles;
+  if (!ok) return none;
   const friend =
     typeof workout.ghostFriendUserId === "string" &&
     workout.ghostFriendUserId.length > 0 &&
     workout.ghostFriendUserId !== workout.workoutId
       ? workout.ghostFriendUserId
       : null;
-  return [margin, target, friend];
+  if (!multi) return [margin, target, friend, null, null, null];
+
+  const source =
+    typeof workout.ghostSourceWorkoutId === "string" &&
+    workout.ghostSourceWorkoutId.length > 0 &&
+    workout.ghostSourceWorkoutId.length <= 255 &&
+    workout.ghostSourceWorkoutId !== workout.workoutId
+      ? workout.ghostSourceWorkoutId
+      : null;
+  const splits = workout.ghostSplitMargins;
+  const splitsOk =
+    Array.isArray(splits) &&
+    splits.length > 0 &&
+    splits.length <= Math.ceil(miles) &&
+    splits.every(
+      (m) =>
+        typeof m === "number" &&
+        Number.isFinite(m) &&
+        Math.abs(m) <= MAX_PLAUSIBLE_MILE_SECONDS * miles,
+    );
+  return [
+    margin,
+    target,
+    friend,
+    source,
+    miles,
+    splitsOk ? JSON.stringify(splits) : null,
+  ];
 }
 
 export async function uploadWorkouts(
@@ -121,12 +189,15 @@ export async function uploadWorkouts(
         ghost_margin_seconds,
         ghost_target_seconds,
         ghost_friend_user_id,
+        ghost_source_workout_id,
+        ghost_distance,
+        ghost_split_margins,
         source,
         source_bundle_id,
         exclusion_reason,
         speed_flagged
       )
-      VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17, $18)
+      VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17::jsonb, $18, $19, $20, $21)
       ON CONFLICT (workout_id)
       DO UPDATE SET
         distance = CASE
@@ -153,6 +224,9 @@ export async function uploadWorkouts(
         ghost_margin_seconds = COALESCE(EXCLUDED.ghost_margin_seconds, workouts.ghost_margin_seconds),
         ghost_target_seconds = COALESCE(EXCLUDED.ghost_target_seconds, workouts.ghost_target_seconds),
         ghost_friend_user_id = COALESCE(EXCLUDED.ghost_friend_user_id, workouts.ghost_friend_user_id),
+        ghost_source_workout_id = COALESCE(EXCLUDED.ghost_source_workout_id, workouts.ghost_source_workout_id),
+        ghost_distance = COALESCE(EXCLUDED.ghost_distance, workouts.ghost_distance),
+        ghost_split_margins = COALESCE(EXCLUDED.ghost_split_margins, workouts.ghost_split_margins),
         source = CASE
           WHEN workouts.source IN ('manual', 'edited') THEN workouts.source
           ELSE EXCLUDED.source
@@ -181,12 +255,17 @@ export async function uploadWorkouts(
       `;
 
   const routeQuery = `
-        INSERT INTO workout_routes (workout_id, route, point_count, updated_at)
-        VALUES ($1, $2::jsonb, $3, NOW())
+        INSERT INTO workout_routes
+          (workout_id, route, point_count, min_lat, max_lat, min_lng, max_lng, updated_at)
+        VALUES ($1, $2::jsonb, $3, $4, $5, $6, $7, NOW())
         ON CONFLICT (workout_id)
         DO UPDATE SET
 			route = EXCLUDED.route,
 			point_count = EXCLUDED.point_count,
+			min_lat = EXCLUDED.min_lat,
+			max_lat = EXCLUDED.max_lat,
+			min_lng = EXCLUDED.min_lng,
+			max_lng = EXCLUDED.max_lng,
 			updated_at = NOW()
       `;
 
@@ -246,7 +325,15 @@ export async function uploadWorkouts(
         ? [
             {
               query: routeQuery,
-              params: [workout.workoutId, JSON.stringify(route), route.length],
+              params: [
+                workout.workoutId,
+                JSON.stringify(route),
+                route.length,
+                Math.min(...route.map((p) => p[0])),
+                Math.max(...route.map((p) => p[0])),
+                Math.min(...route.map((p) => p[1])),
+                Math.max(...route.map((p) => p[1])),
+              ],
             },
           ]
         : []),
@@ -361,16 +448,15 @@ export const FEED_MIN_DISTANCE = 0.05; // miles
 export const FEED_MIN_DURATION = 30; // seconds
 
 /**
- * Miles a day must total before it earns a feed card — the same absolute 0.95
- * the streak rule uses (`HAVING SUM(distance) >= 0.95` in getActiveStreak,
- * refreshCurrentStreak and computeCoveredStreak), so "a card appeared" means
- * "this day counted for your streak".
+ * Miles a day must total before it earns a feed card under the default
+ * one-mile goal — the same 0.95 the streak rule applies (`qualifyingDaysSql`
+ * in dailyGoalService), so "a card appeared" means "this day counted for your
+ * streak". A user who has set their own goal crosses at that goal instead
+ * (see the `crossing` CTE in `feedRoleStatements`).
  *
- * Deliberately NOT `goal_miles * DAILY_GOAL_TOLERANCE`: feed_role is stored, and
- * a per-user goal would make every stored role go stale the moment that goal
- * changed. `goal_miles` has defaulted to 1.0 since launch and no endpoint
- * writes it, so today the two are the same number anyway — this just doesn't
- * inherit the staleness problem if that ever changes.
+ * feed_role is stored, but that's safe: goals are dated, and a day is always
+ * judged by the goal in force on it. A change only ever starts today (which
+ * the goal endpoint reclassifies) or tomorrow, so no stored role goes stale.
  */
 export const FEED_QUALIFYING_DISTANCE = 0.95;
 
@@ -463,14 +549,34 @@ function feedRoleStatements(
 			ROW_NUMBER() OVER (ORDER BY device_end_date, workout_id) AS rn,
 			SUM(distance) OVER (
 				ORDER BY device_end_date, workout_id ROWS UNBOUNDED PRECEDING
-			) AS cumulative
+			) AS cumulative,
+			SUM(total_duration) OVER (
+				ORDER BY device_end_date, workout_id ROWS UNBOUNDED PRECEDING
+			) AS cumulative_seconds
 		FROM workouts
 		WHERE user_id = $1 AND local_date = $2::date
 			AND deleted_at IS NULL AND exclusion_reason IS NULL
 	),
-	-- Where the day reached the mile. NULL means it never did.
+	-- The goal in force that day. No row means the default mile ($5).
+	goal AS (
+		SELECT g.goal_type, g.target
+		FROM (SELECT 1) one
+		LEFT JOIN LATERAL ${goalOnDateSql("$1", "$2::date")} g ON TRUE
+	),
+	-- Where the day reached its goal. NULL means it never did. Steps carry no
+	-- time of day, so a steps day that made its count crosses at its last
+	-- workout.
 	crossing AS (
-		SELECT MIN(rn) AS rn FROM day WHERE cumulative + 1e-9 >= $5
+		SELECT MIN(d.rn) AS rn FROM day d, goal g
+		WHERE CASE COALESCE(g.goal_type, 'distance')
+			WHEN 'duration' THEN d.cumulative_seconds + 1e-9 >= g.target * 60
+			WHEN 'steps' THEN d.rn = (SELECT MAX(rn) FROM day)
+				AND COALESCE((
+					SELECT steps FROM daily_steps
+					WHERE user_id = $1 AND local_date = $2::date
+				), 0) >= g.target
+			ELSE d.cumulative + 1e-9 >= COALESCE(g.target * ${DAILY_GOAL_TOLERANCE}, $5)
+		END
 	),
 	-- Keep the anchor we already have, if it's still valid (see stickiness).
 	sticky AS (
@@ -488,7 +594,7 @@ function feedRoleStatements(
 	),
 	roles AS (
 		SELECT d.workout_id, CASE
-			-- Day never reached the mile, or got there only on junk: show
+			-- Day never reached its goal, or got there only on junk: show
 			-- nothing. (The second case counts for the streak but has no real
 			-- workout to put on a card.)
 			WHEN (SELECT rn FROM anchor) IS NULL THEN 'hidden'
@@ -942,20 +1048,12 @@ function dateStringMinus(dateStr: string, days: number): string {
 }
 
 /**
- * Today's date (YYYY-MM-DD) in the user's local timezone, derived from the
- * timezone_offset of their most recent workout (UTC if they have none).
+ * Today's date (YYYY-MM-DD) in the user's local timezone — their IANA zone
+ * when set, else the latest known UTC offset (see localNowSql).
  */
 export async function getUserLocalToday(userId: string): Promise<string> {
   const todayResult = await db.query<{ user_today: string }>(
-    `
-    SELECT to_char(
-      (NOW() + (COALESCE(
-        (SELECT timezone_offset FROM workouts WHERE user_id = $1 ORDER BY device_end_date DESC LIMIT 1),
-        0
-      ) || ' minutes')::interval)::date,
-      'YYYY-MM-DD'
-    ) AS user_today
-  `,
+    `SELECT to_char(${localTodaySql("$1")}, 'YYYY-MM-DD') AS user_today`,
     [userId],
   );
   return todayResult[0].user_today;
@@ -987,13 +1085,9 @@ export async function getActiveStreak(userId: string) {
   const yesterday = dateStringMinus(userToday, 1);
 
   const qualifyingDaysQuery = `
-    SELECT to_char(local_date, 'YYYY-MM-DD') AS local_date
-    FROM workouts
-    WHERE user_id = $1
-    AND deleted_at IS NULL AND exclusion_reason IS NULL
-    GROUP BY local_date
-    HAVING SUM(distance) >= 0.95
-    ORDER BY local_date DESC
+    SELECT to_char(q.local_date, 'YYYY-MM-DD') AS local_date
+    FROM (${qualifyingDaysSql("$1")}) q
+    ORDER BY q.local_date DESC
     LIMIT $2 OFFSET $3
   `;
 
@@ -1244,6 +1338,7 @@ export async function getRecentWorkouts(
  *      people's homes.
  *   2. `share_route_maps` — whether routes are part of what those people get.
  *      Owner exempt.
+ * What passes both is still trimmed to the owner's privacy zones.
  * Deliberately per-workout — never the full-history dump `/routes` keeps
  * self-only.
  */
@@ -1253,7 +1348,7 @@ export async function getWorkoutRoute(
   viewerId: string,
 ): Promise<[number, number][] | null> {
   const rows = await db.query<{ route: [number, number][] | null }>(
-    `SELECT wr.route
+    `SELECT ${privacyTrimmedRouteSql("wr.route", "w.user_id", "$3")} AS route
 		 FROM workouts w
 		 LEFT JOIN notification_settings ns ON ns.user_id = w.user_id
 		 JOIN workout_routes wr ON wr.workout_id = w.workout_id
@@ -1272,7 +1367,9 @@ export async function getWorkoutRoute(
  * personal route heatmap (all paths overlaid on one map). Self-access only:
  * route sharing settings gate what FRIENDS see, but your own history is
  * always yours. Capped because routes are ~300 points each; 1000 routes
- * (~3 years of daily runs) is already several MB of JSON.
+ * (~3 years of daily runs) is already several MB of JSON — which is why
+ * current clients draw the heatmap from server-rendered tiles instead
+ * (heatmapService). Kept for older builds.
  */
 export async function getUserRoutes(userId: string, limit: number = 1000) {
   return await db.query<{
@@ -1292,45 +1389,29 @@ export async function getUserRoutes(userId: string, limit: number = 1000) {
 }
 
 /**
- * Today's date ('YYYY-MM-DD') in the user's local timezone, derived from their
- * most recent workout's timezone_offset (matches workouts.local_date format).
- * Falls back to the server's UTC date if the user has no workouts.
+ * Today's date ('YYYY-MM-DD') in the user's local timezone (matches
+ * workouts.local_date format). Falls back to the server's UTC date if nothing
+ * is known about where the user is.
  */
 export async function getUserLocalDate(userId: string): Promise<string> {
   const rows = await db.query<{ local_date: string }>(
-    `SELECT (NOW() + (COALESCE(
-			(SELECT timezone_offset FROM workouts WHERE user_id = $1 ORDER BY device_end_date DESC LIMIT 1),
-			0
-		) || ' minutes')::interval)::date::text AS local_date`,
+    `SELECT ${localTodaySql("$1")}::text AS local_date`,
     [userId],
   );
   return rows[0].local_date;
 }
 
-/**
- * Canonical "daily mile done" tolerance, as a fraction of the goal. Streak
- * counting (leaderboardService), daily challenges, and the weekly recap all
- * treat >= 0.95 mi as a completed day (GPS under-measure allowance). Every
- * completion check against today's miles must apply this — a raw `>= 1.0`
- * check lets a 0.98-mile day extend the streak and display as "1.00 mi ·
- * 100%" (2-decimal rounding) while still reading "incomplete" for nudges,
- * friend notifications, and posting.
- */
-export const DAILY_GOAL_TOLERANCE = 0.95;
 
 export async function getTodayMiles(userId: string) {
-  // Use the user's timezone offset from their most recent workout to determine
-  // what "today" is in their local time (local_date is stored in user's timezone)
+  // Resolve "today" on the user's own calendar (local_date is stored in the
+  // user's timezone)
   const todayMilesQuery = `
 	WITH user_tz AS (
-		SELECT COALESCE(
-			(SELECT timezone_offset FROM workouts WHERE user_id = $1 ORDER BY device_end_date DESC LIMIT 1),
-			0
-		) AS tz_offset
+		SELECT ${localTodaySql("$1")} AS today
 	)
 	SELECT SUM(w.distance) as total_distance FROM workouts w, user_tz
 	WHERE w.user_id = $1
-	AND w.local_date = (NOW() + (user_tz.tz_offset || ' minutes')::interval)::date
+	AND w.local_date = user_tz.today
 	AND w.deleted_at IS NULL AND w.exclusion_reason IS NULL
 	`;
 
@@ -1340,8 +1421,7 @@ export async function getTodayMiles(userId: string) {
 
 /**
  * Per-day mile totals for the user's last 7 LOCAL days (their "today" plus
- * the 6 before it, derived from their latest workout's timezone offset the
- * same way getTodayMiles does). Every day is present — zero-mile days
+ * the 6 before it, resolved the same way getTodayMiles does). Every day is present — zero-mile days
  * included — so clients can render a week without inferring gaps.
  *
  * This exists because profile "last 7 days" charts were being derived from
@@ -1356,13 +1436,10 @@ export async function getLast7DayMiles(
 ): Promise<{ date: string; miles: number }[]> {
   const query = `
 	WITH user_tz AS (
-		SELECT COALESCE(
-			(SELECT timezone_offset FROM workouts WHERE user_id = $1 ORDER BY device_end_date DESC LIMIT 1),
-			0
-		) AS tz_offset
+		SELECT ${localTodaySql("$1")} AS today
 	),
 	days AS (
-		SELECT ((NOW() + (user_tz.tz_offset || ' minutes')::interval)::date - offs.n) AS day
+		SELECT (user_tz.today - offs.n) AS day
 		FROM user_tz, generate_series(0, 6) AS offs(n)
 	)
 	SELECT to_char(d.day, 'YYYY-MM-DD') AS date,
@@ -1409,12 +1486,15 @@ export async function getMilesOnLocalDate(
 export interface DailyGoalStatus {
   completed: boolean;
   miles: number;
+  /** The distance goal, or the default mile when the goal isn't distance. */
   goalMiles: number;
+  goalType: DailyGoalType;
+  goalLabel: string;
   localDate: string;
 }
 
 /**
- * Whether the user has met their personal daily goal (goal_miles) today, in
+ * Whether the user has met their daily goal today (whatever it measures), in
  * their local timezone. This is the authoritative server-side gate for posting
  * a story/feed post — never trust a client-supplied "completed" flag.
  */
@@ -1422,18 +1502,17 @@ export async function getDailyGoalStatus(
   userId: string,
 ): Promise<DailyGoalStatus> {
   const localDate = await getUserLocalDate(userId);
-  const [miles, goalRows] = await Promise.all([
-    getMilesOnLocalDate(userId, localDate),
-    db.query<{ goal_miles: string | number | null }>(
-      `SELECT goal_miles FROM users WHERE user_id = $1`,
-      [userId],
-    ),
-  ]);
-  const goalMiles = Number(goalRows[0]?.goal_miles ?? 1);
-  // Same tolerance as streaks/challenges — a day the streak counts as done
-  // must also unlock posting.
-  const completed = miles + 1e-9 >= goalMiles * DAILY_GOAL_TOLERANCE;
-  return { completed, miles, goalMiles, localDate };
+  // Same rule as the streak walks — a day the streak counts as done must also
+  // unlock posting.
+  const progress = await getDailyGoalProgress(userId, localDate);
+  return {
+    completed: progress.completed,
+    miles: progress.miles,
+    goalMiles: progress.goal.goal_type === "distance" ? progress.goal.target : 1,
+    goalType: progress.goal.goal_type,
+    goalLabel: progress.goal.label,
+    localDate,
+  };
 }
 
 export interface TodayStats {
@@ -1453,16 +1532,13 @@ export interface TodayStats {
 export async function getTodayStats(userId: string): Promise<TodayStats> {
   const query = `
 	WITH user_tz AS (
-		SELECT COALESCE(
-			(SELECT timezone_offset FROM workouts WHERE user_id = $1 ORDER BY device_end_date DESC LIMIT 1),
-			0
-		) AS tz_offset
+		SELECT ${localTodaySql("$1")} AS today
 	),
 	today_workouts AS (
 		SELECT w.workout_id, w.distance, w.total_duration
 		FROM workouts w, user_tz
 		WHERE w.user_id = $1
-			AND w.local_date = (NOW() + (user_tz.tz_offset || ' minutes')::interval)::date
+			AND w.local_date = user_tz.today
 			AND w.deleted_at IS NULL AND w.exclusion_reason IS NULL
 	),
 	totals AS (
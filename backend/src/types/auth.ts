@@ -24,3 +24,38 @@ export interface RefreshTokenMetadata {
 	ipAddress?: string;
 	deviceInfo?: any;
 }
+
+/** One signed-in device: a refresh-token family with a live token. */
+export interface SessionSummary {
+	family_id: string;
+	/** Short label ("iPhone", "Android device", or the client's device name). */
+	device: string;
+	user_agent: string | null;
+	/** Time-zone city or masked network; never a precise location. */
+	location_hint: string | null;
+	signed_in_at: string;
+	last_used_at: string;
+	/** The session making this request. */
+	current: boolean;
+}
+
+export type AuthProvider = 'apple' | 'google' | 'email';
+
+/** A provider credential that passed verification. */
+export interface VerifiedIdentity {
+	provider: AuthProvider;
+	/** Stable provider id: the JWT `sub`, or the normalized address for email. */
+	subject: string;
+	email: string | null;
+	/** Only a verified address may attach the identity to an existing account. */
+	emailVerified: boolean;
+}
+
+export interface AuthIdentity {
+	provider: AuthProvider;
+	email: string | null;
+	created_at: string;
+	last_used_at: string | null;
+}
+
+export type MagicLinkPurpose = 'sign_in' | 'link';
@@ -204,6 +204,89 @@ export interface MatchupHistoryResponse {
   truncated: boolean;
 }
 
+// ─── Rivalries & rematches ──────────────────────────────────────────
+
+/** What a rematch is scored on. The daily duel is always `distance`. */
+export type H2hMetric = "distance" | "steps" | "duration";
+
+/**
+ * One finished duel inside a rivalry — the daily rotation's pinned duel or a
+ * rematch. Values are in the metric's unit: miles (2dp), steps, or minutes.
+ */
+export interface RivalryMatchup {
+  localDate: string;
+  kind: "daily" | "rematch";
+  metric: H2hMetric;
+  myValue: number;
+  rivalValue: number;
+  result: "won" | "lost" | "tied";
+}
+
+/** The all-time story against one rival, daily duels and rematches together. */
+export interface RivalrySummary {
+  rival: ChallengeFriendRef;
+  record: { wins: number; losses: number; ties: number; total: number };
+  /** The run the most recent duels are on, e.g. 3 straight wins. */
+  currentStreak: { result: "won" | "lost" | "tied"; length: number };
+  bestWinStreak: number;
+  /**
+   * Miles only: the daily duels plus distance rematches. Steps and minutes
+   * don't average into a mileage margin. Null when there's nothing to average.
+   */
+  margins: {
+    averageWinMiles: number | null;
+    averageLossMiles: number | null;
+    biggestWinMiles: number | null;
+    biggestLossMiles: number | null;
+  };
+  /** Newest first, at most five. */
+  recentMatchups: RivalryMatchup[];
+  lastLocalDate: string;
+}
+
+export interface RivalrySummaryResponse {
+  /** Sorted by number of duels together, most first. */
+  rivals: RivalrySummary[];
+  /** Same meaning as MatchupHistoryResponse.truncated. */
+  truncated: boolean;
+}
+
+export type H2hRematchStatus =
+  | "pending"
+  | "accepted"
+  | "declined"
+  | "cancelled"
+  | "expired";
+
+/** A rematch challenge, from the requesting user's side. */
+export interface H2hRematch {
+  id: string;
+  metric: H2hMetric;
+  localDate: string;
+  status: H2hRematchStatus;
+  /** `outgoing` = you sent it. */
+  direction: "incoming" | "outgoing";
+  rival: ChallengeFriendRef;
+  createdAt: string;
+  /** Set once the day is scored; values in the metric's unit. */
+  result: {
+    myValue: number;
+    rivalValue: number;
+    result: "won" | "lost" | "tied";
+  } | null;
+}
+
+export interface H2hRematchList {
+  /** Waiting on you. */
+  incoming: H2hRematch[];
+  /** Waiting on them. */
+  outgoing: H2hRematch[];
+  /** Accepted and not yet scored. */
+  upcoming: H2hRematch[];
+  /** Scored, newest first. */
+  recent: H2hRematch[];
+}
+
 // ─── Completion detail (how a past challenge was completed) ─────────
 
 /** Minimal user reference rendered inside a completion detail. */
@@ -1,6 +1,7 @@
 export type CompetitionActivity = "running" | "walking";
 
-export type CompetitionType = "streaks" | "apex" | "clash" | "targets" | "race";
+export type CompetitionType =
+  "streaks" | "apex" | "clash" | "targets" | "race" | "elimination";
 
 export interface CompetitionOptions {
   history?: boolean;
@@ -10,6 +11,8 @@ export interface CompetitionOptions {
   first_to: number;
   duration_hours?: number;
   lives?: number;
+  /** Elimination: how many are knocked out at each interval cutoff (default 1). */
+  eliminate_per_interval?: number;
 }
 
 // Per-day activity split by workout type ("running"/"walking"):
@@ -41,6 +44,8 @@ export interface CompetitionUser {
   intervals?: { [intervalKey: string]: number };
   score?: number;
   remaining_lives?: number;
+  /** Elimination: the interval key they were knocked out in; null while alive. */
+  eliminated_interval?: string | null;
   username?: string;
   placement?: number;
   daily_activity?: DailyActivityBreakdown;
@@ -57,9 +62,66 @@ export interface Competition {
   owner: string;
   winner: string | null;
   teams?: CompetitionTeams | null;
+  /** IANA zone whose midnight rolls this competition's days and intervals. */
+  timezone: string;
+  /** Set when this is an edition of a saved template. */
+  template_id?: string | null;
+  edition?: number | null;
   users: CompetitionUser[];
 }
 
+// MARK: - Templates (/competitions/templates)
+
+export type CompetitionRecurrence = "none" | "weekly" | "monthly";
+
+// Stored in competition_templates.teams: the team list plus who goes where,
+// applied to each edition once its invites are out.
+export interface CompetitionTemplateTeams extends CompetitionTeams {
+  assignments: Record<string, string | null>;
+}
+
+export interface CompetitionTemplate {
+  id: string;
+  owner: string;
+  competition_name: string;
+  type: CompetitionType;
+  workouts: CompetitionActivity[];
+  options: CompetitionOptions;
+  teams: CompetitionTemplateTeams | null;
+  invite_user_ids: string[];
+  recurrence: CompetitionRecurrence;
+  is_active: boolean;
+  edition_count: number;
+}
+
+export interface CompetitionSeasonStanding {
+  user_id: string;
+  username: string | null;
+  first_name: string | null;
+  profile_image_url: string | null;
+  /** Finished editions they took part in. */
+  editions: number;
+  wins: number;
+  podiums: number;
+  best_placement: number | null;
+  average_placement: number | null;
+}
+
+export interface CompetitionSeasonEdition {
+  competition_id: string;
+  edition: number;
+  start_date: string | null;
+  end_date: string | null;
+  winner_user_id: string | null;
+  finished: boolean;
+}
+
+export interface CompetitionSeasonResponse {
+  template: CompetitionTemplate;
+  standings: CompetitionSeasonStanding[];
+  editions: CompetitionSeasonEdition[];
+}
+
 // MARK: - Competition record (GET /competitions/record)
 
 export interface CompetitionRecordTally {
@@ -125,3 +187,45 @@ export interface CompetitionRecordResponse {
   /** True when the user has more finished competitions than the read's cap. */
   truncated: boolean;
 }
+
+// MARK: - Points ladder (/competitions/seasons, /competitions/record/seasons)
+
+export interface LadderSeason {
+  id: string;
+  owner: string;
+  name: string;
+  start_date: string;
+  end_date: string;
+  member_ids: string[];
+}
+
+export interface LadderEntry {
+  /** Standard competition ranking: equal points share a rank (1, 2, 2, 4). */
+  rank: number;
+  user_id: string;
+  username: string | null;
+  first_name: string | null;
+  profile_image_url: string | null;
+  points: number;
+  /** The season's scored competitions, in the same shape as the lifetime record. */
+  record: CompetitionRecordTally;
+}
+
+export interface LadderResponse {
+  season: LadderSeason;
+  ladder: LadderEntry[];
+}
+
+export interface LadderPointsAward extends CompetitionRecentResult {
+  user_id: string;
+  points: number;
+}
+
+/** One row of GET /competitions/record/seasons: how the caller did in a season. */
+export interface LadderSeasonResult {
+  season: LadderSeason;
+  rank: number;
+  points: number;
+  member_count: number;
+  competitions: number;
+}
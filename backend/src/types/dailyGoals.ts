@@ -0,0 +1,50 @@
+/**
+ * Domain types for the per-user daily goal.
+ *
+ * Wire shapes are snake_case, matching the raw-SQL rows the service returns
+ * and the rest of the API.
+ */
+
+/** What the goal measures: miles, minutes of activity, or steps. */
+export type DailyGoalType = "distance" | "duration" | "steps";
+
+export interface DailyGoal {
+  goal_type: DailyGoalType;
+  /** Miles, minutes or steps, by `goal_type`. */
+  target: number;
+  /** Human label for the goal ("1 mile", "30 minutes", "8,000 steps"). */
+  label: string;
+  /**
+   * First local day this goal applies to (YYYY-MM-DD). Null for the default
+   * one-mile goal a user is on until they first set one.
+   */
+  effective_from: string | null;
+}
+
+/** One local day measured against the goal in force that day. */
+export interface DailyGoalProgress {
+  local_date: string;
+  goal: DailyGoal;
+  miles: number;
+  minutes: number;
+  steps: number;
+  /** The day's amount in the goal's own unit. */
+  value: number;
+  completed: boolean;
+}
+
+export interface DailyGoalResponse {
+  /** The goal judging today. */
+  current: DailyGoal;
+  /**
+   * A change saved after today was already complete; it starts tomorrow so
+   * today's finished day is never re-judged. Null when nothing is queued.
+   */
+  upcoming: DailyGoal | null;
+  today: DailyGoalProgress;
+}
+
+export interface SetDailyGoalInput {
+  goal_type: DailyGoalType;
+  target: number;
+}
@@ -0,0 +1,128 @@
+/**
+ * Domain types for the admin report queue.
+ *
+ * Wire shapes are snake_case, matching the raw-SQL rows the service returns
+ * and the rest of the API.
+ */
+
+import type { ReportReason } from "../services/moderationService.js";
+
+export type ReportTargetType = "post" | "comment";
+
+export type ReportStatus = "open" | "resolved" | "dismissed";
+
+/**
+ * What a moderator can do from the queue. `hide` is a soft delete that
+ * `restore` undoes; `remove` deletes the row for good. `approve` releases
+ * content that screening held for review. `warn` and `suspend` act on the
+ * author; `resolve` and `dismiss` only close the reports.
+ */
+export type ModerationAction =
+  | "hide"
+  | "restore"
+  | "remove"
+  | "warn"
+  | "suspend"
+  | "resolve"
+  | "dismiss"
+  | "approve";
+
+/** Who filed a report: a user, or the content screening pipeline. */
+export type ReportSource = "user" | "screening";
+
+/** The reported content as it stands now. */
+export interface ReportTargetContent {
+  author_id: string;
+  author_username: string | null;
+  /** Post caption or comment text. */
+  text: string | null;
+  /** Posts only. */
+  media_url: string | null;
+  /** Comments only: the post or workout the comment sits on. */
+  parent_post_id: string | null;
+  parent_workout_id: string | null;
+  created_at: string;
+  hidden_at: string | null;
+  /** Set while screening holds the content for review. */
+  held_at: string | null;
+}
+
+/** One reported post or comment, with its reports rolled up. */
+export interface ReportQueueItem {
+  target_type: ReportTargetType;
+  target_id: string;
+  report_count: number;
+  reason_counts: Partial<Record<ReportReason, number>>;
+  /** The most recent free-text details, newest first. */
+  recent_details: string[];
+  first_reported_at: string;
+  last_reported_at: string;
+  content: ReportTargetContent;
+}
+
+export interface ReportQueuePage {
+  total: number;
+  items: ReportQueueItem[];
+}
+
+export interface ContentReport {
+  id: string;
+  /** Null for a screening report. */
+  reporter_id: string | null;
+  reporter_username: string | null;
+  source: ReportSource;
+  reason: ReportReason;
+  details: string | null;
+  status: ReportStatus;
+  created_at: string;
+  resolved_by: string | null;
+  resolved_at: string | null;
+}
+
+export interface ModerationActionRecord {
+  id: string;
+  moderator_id: string | null;
+  moderator_username: string | null;
+  action: ModerationAction;
+  target_type: ReportTargetType;
+  target_id: string;
+  subject_user_id: string | null;
+  subject_username: string | null;
+  note: string | null;
+  reports_closed: number;
+  snapshot: ModerationSnapshot | null;
+  created_at: string;
+}
+
+/** What the content said, and why it was reported, when the action was taken. */
+export interface ModerationSnapshot {
+  text: string | null;
+  media_url: string | null;
+  reason_counts: Partial<Record<ReportReason, number>>;
+  suspended_until?: string;
+}
+
+export interface ReportTargetDetail {
+  target_type: ReportTargetType;
+  target_id: string;
+  content: ReportTargetContent;
+  reports: ContentReport[];
+  actions: ModerationActionRecord[];
+  author: {
+    user_id: string;
+    username: string | null;
+    suspended: boolean;
+    /** Null while suspended = permanent. */
+    suspended_until: string | null;
+    suspension_reason: string | null;
+    warning_count: number;
+    /** Actions against this author on OTHER content, newest first. */
+    history: ModerationActionRecord[];
+  };
+}
+
+export interface ModerationActionResult {
+  action: ModerationActionRecord;
+  /** Null after `remove`: the content no longer exists. */
+  content: ReportTargetContent | null;
+}
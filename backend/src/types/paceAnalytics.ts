@@ -0,0 +1,86 @@
+/**
+ * Domain types for pace-zone analytics.
+ *
+ * Wire shapes are snake_case, matching the rest of the API. Every pace is
+ * seconds per mile; every duration is seconds.
+ */
+
+/** Slowest → fastest. Zones are ratios of the user's own reference pace. */
+export type PaceZone = "recovery" | "easy" | "steady" | "tempo" | "fast";
+
+/**
+ * One zone's pace band, resolved against the reference. `min` is the fast edge
+ * and `max` the slow edge; null leaves that side open.
+ */
+export interface PaceZoneBounds {
+  zone: PaceZone;
+  min_pace_sec_per_mile: number | null;
+  max_pace_sec_per_mile: number | null;
+}
+
+export type ZoneSeconds = Record<PaceZone, number>;
+
+/**
+ * How the second half of a workout compared to the first. `null` when the
+ * workout has fewer than two whole-mile splits to compare.
+ */
+export type PacingPattern = "negative_split" | "even" | "fade";
+
+export interface PacingAnalysis {
+  pattern: PacingPattern | null;
+  first_half_pace: number | null;
+  second_half_pace: number | null;
+  /** second − first; negative means the back half was faster. */
+  delta_sec_per_mile: number | null;
+}
+
+export interface AnalyzedSplit {
+  split_number: number;
+  distance: number;
+  duration: number;
+  pace: number;
+  zone: PaceZone | null;
+}
+
+export interface WorkoutPaceAnalytics {
+  workout_id: string;
+  local_date: string;
+  distance: number;
+  /** The pace zones are measured against; null when the user has no splits. */
+  reference_pace: number | null;
+  zones: PaceZoneBounds[];
+  time_in_zone: ZoneSeconds;
+  splits: AnalyzedSplit[];
+  pacing: PacingAnalysis;
+}
+
+export interface WeeklyPaceTrend {
+  /** Monday of the week, YYYY-MM-DD. */
+  week_start: string;
+  workout_count: number;
+  split_count: number;
+  /** Duration-weighted average split pace; null in a week with no splits. */
+  average_pace: number | null;
+  time_in_zone: ZoneSeconds;
+  negative_split_count: number;
+  fade_count: number;
+}
+
+export interface FitnessTrendPoint {
+  date: string;
+  /** Rolling 28-day average pace over similar-distance workouts. */
+  average_pace: number | null;
+  workout_count: number;
+}
+
+export interface PaceAnalyticsResponse {
+  reference_pace: number | null;
+  zones: PaceZoneBounds[];
+  weeks: WeeklyPaceTrend[];
+  fitness_trend: {
+    /** Workouts within this band (miles) feed the rolling average. */
+    distance_min: number | null;
+    distance_max: number | null;
+    points: FitnessTrendPoint[];
+  };
+}
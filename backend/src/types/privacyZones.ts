@@ -0,0 +1,16 @@
+/**
+ * Domain types for privacy zones.
+ *
+ * Wire shapes are snake_case, matching the raw-SQL rows the service returns
+ * and the rest of the API. A zone is only ever returned to its owner.
+ */
+
+export interface PrivacyZone {
+  id: string;
+  /** Optional label the owner gave it ("Home", "Work"). */
+  name: string | null;
+  lat: number;
+  lng: number;
+  radius_meters: number;
+  created_at: string;
+}
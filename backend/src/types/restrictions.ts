@@ -0,0 +1,30 @@
+/**
+ * Domain types for account restrictions (suspensions and shadow bans).
+ *
+ * Wire shapes are snake_case, matching the rest of the API.
+ */
+
+export type RestrictionKind = "suspension" | "shadow_ban";
+
+export interface UserRestriction {
+  id: string;
+  user_id: string;
+  username: string | null;
+  kind: RestrictionKind;
+  reason: string;
+  /** Null = permanent. */
+  expires_at: string | null;
+  created_by: string | null;
+  created_by_username: string | null;
+  created_at: string;
+  lifted_at: string | null;
+  lifted_by: string | null;
+  lift_reason: string | null;
+  /** Not lifted and not yet expired. */
+  active: boolean;
+}
+
+export interface ActiveSuspension {
+  reason: string;
+  expires_at: string | null;
+}
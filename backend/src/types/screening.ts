@@ -0,0 +1,55 @@
+/**
+ * Domain types for content screening: the rules admins maintain, the findings
+ * each screener reports, and the pluggable external classifier.
+ *
+ * Wire shapes are snake_case, matching the rest of the API.
+ */
+
+import type { ReportReason } from "../services/moderationService.js";
+
+export type ScreeningRuleKind = "keyword" | "regex" | "image_hash";
+
+/** `flag` files a report and lets the content through; `hold` also holds it. */
+export type ScreeningRuleAction = "flag" | "hold";
+
+export interface ScreeningRule {
+  id: string;
+  kind: ScreeningRuleKind;
+  pattern: string;
+  reason: ReportReason;
+  action: ScreeningRuleAction;
+  note: string | null;
+  created_by: string | null;
+  created_by_username: string | null;
+  created_at: string;
+}
+
+/** Worst-first: a single `hold` finding holds the content. */
+export type ScreeningVerdict = "allow" | "flag" | "hold";
+
+/** One screener's objection. Becomes one screening report. */
+export interface ScreeningFinding {
+  /** Which screener raised it: `text_rules`, `image_hash` or a classifier name. */
+  screener: string;
+  verdict: Exclude<ScreeningVerdict, "allow">;
+  reason: ReportReason;
+  /** Human-readable match, shown to moderators as the report details. */
+  detail: string;
+}
+
+export interface ScreeningResult {
+  verdict: ScreeningVerdict;
+  findings: ScreeningFinding[];
+}
+
+/**
+ * An external classifier (a hosted moderation API, a local model). Each method
+ * returns its findings — an empty array means nothing objectionable. A method
+ * that throws is logged and treated as no findings: screening never blocks a
+ * post because a dependency is down.
+ */
+export interface ContentClassifier {
+  name: string;
+  classifyText(text: string): Promise<ScreeningFinding[]>;
+  classifyImage(image: Buffer): Promise<ScreeningFinding[]>;
+}
@@ -0,0 +1,67 @@
+/**
+ * Domain types for route segments and their leaderboards.
+ *
+ * Wire shapes are snake_case, matching the raw-SQL rows the service returns
+ * and the rest of the API. Coordinates are `[lat, lng]`, like stored routes.
+ */
+
+export interface Segment {
+  id: string;
+  name: string;
+  start: [number, number];
+  end: [number, number];
+  /** The stretch of the creator's route the segment follows. */
+  path: [number, number][];
+  distance_meters: number;
+  /** How far a route may stray from `path` and still count. */
+  corridor_meters: number;
+  /**
+   * The creator is never named — a segment is often someone's home loop.
+   * This only tells the viewer whether it's theirs to delete.
+   */
+  created_by_me: boolean;
+  created_at: string;
+}
+
+/** A nearby-search hit: the segment plus how far its start is from you. */
+export interface NearbySegment extends Segment {
+  start_distance_meters: number;
+}
+
+/** The fastest pass over a segment within one workout. */
+export interface SegmentEffort {
+  segment_id: string;
+  workout_id: string;
+  elapsed_seconds: number;
+  /** `date` column, so a plain string is safe. */
+  local_date: string;
+}
+
+export interface SegmentDetail extends Segment {
+  my_best: SegmentEffort | null;
+  my_effort_count: number;
+}
+
+export type SegmentLeaderboardScope = "friends" | "global";
+
+export interface SegmentLeaderboardEntry {
+  rank: number;
+  user_id: string;
+  username: string | null;
+  first_name: string | null;
+  last_name: string | null;
+  profile_image_url: string | null;
+  /** Their best time on the segment. */
+  elapsed_seconds: number;
+  local_date: string;
+  workout_id: string;
+  is_current_user: boolean;
+}
+
+export interface SegmentLeaderboardPage {
+  scope: SegmentLeaderboardScope;
+  entries: SegmentLeaderboardEntry[];
+  total_count: number;
+  has_more: boolean;
+  current_user_entry: SegmentLeaderboardEntry | null;
+}
@@ -0,0 +1,97 @@
+/**
+ * Domain types for training plans.
+ *
+ * Wire shapes are snake_case, matching the raw-SQL rows the service returns
+ * and the rest of the API.
+ */
+
+import type {
+  RaceDistanceKey,
+  RaceRecord,
+} from "../services/workoutService.js";
+
+/**
+ * One scheduled workout. A plan lists only its workout days; any day not
+ * listed is a rest day. Every target that is set must be met for the day to
+ * count as done.
+ */
+export interface TrainingPlanDay {
+  /** 1-based week of the plan. */
+  week: number;
+  /** Day within the week, 0–6, counted from the enrollment's start date. */
+  day: number;
+  title: string;
+  target_distance_miles: number | null;
+  target_duration_sec: number | null;
+  /** Slowest acceptable average pace, seconds per mile. */
+  target_pace_sec_per_mile: number | null;
+}
+
+export interface TrainingPlan {
+  key: string;
+  name: string;
+  description: string;
+  weeks: number;
+  /** The race the plan builds to; its final day is that race. */
+  race_distance: RaceDistanceKey;
+  days: TrainingPlanDay[];
+}
+
+export type TrainingPlanSummary = Omit<TrainingPlan, "days"> & {
+  sessions: number;
+};
+
+export type TrainingEnrollmentStatus = "active" | "completed" | "abandoned";
+
+export type TrainingDayStatus =
+  | "met"
+  /** Something was logged, but short of a target. */
+  | "partial"
+  | "missed"
+  | "today"
+  | "upcoming";
+
+export interface TrainingScheduledDay extends TrainingPlanDay {
+  day_index: number;
+  date: string;
+  status: TrainingDayStatus;
+  distance_miles: number | null;
+  duration_sec: number | null;
+}
+
+export interface TrainingAdherence {
+  /** Plan days on or before today. */
+  scheduled_to_date: number;
+  met: number;
+  partial: number;
+  missed: number;
+  /** met / scheduled_to_date, 0 when nothing is due yet. */
+  adherence: number;
+  total_sessions: number;
+  current_week: number;
+}
+
+export interface TrainingEnrollment {
+  id: string;
+  plan_key: string;
+  start_date: string;
+  end_date: string;
+  status: TrainingEnrollmentStatus;
+  completed_at: string | null;
+}
+
+export interface TrainingEnrollmentProgress {
+  enrollment: TrainingEnrollment;
+  plan: TrainingPlanSummary;
+  today: TrainingScheduledDay | null;
+  adherence: TrainingAdherence;
+  days: TrainingScheduledDay[];
+  /** The user's record at the plan's race distance, once they have one. */
+  race_record: RaceRecord | null;
+}
+
+/** Returned from a workout upload that met the plan's race day. */
+export interface TrainingPlanCompletion {
+  plan_key: string;
+  race_record: RaceRecord | null;
+}
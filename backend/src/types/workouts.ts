@@ -1,4 +1,8 @@
-export type WorkoutSource = "healthkit" | "manual" | "edited";
+// 'import' = parsed from a GPX/TCX/FIT file a device wrote without ever
+// touching HealthKit (POST /workouts/:userId/import).
+export type WorkoutSource = "healthkit" | "manual" | "edited" | "import";
+
+export type WorkoutImportFormat = "gpx" | "tcx" | "fit";
 
 export type Workout = {
   workoutId: string;
@@ -20,6 +24,13 @@ export type Workout = {
   // Whose ghost it was, when the raced target was a friend's mile. Client-
   // asserted; the friendship is re-checked before any push goes out.
   ghostFriendUserId?: string;
+  // Multi-split race against a whole workout (GET /ghosts/workouts/:id):
+  // which workout was raced, over how many miles (ghostTargetSeconds is then
+  // the ghost's time over that distance), and the signed margin at each split.
+  // Absent for the single-mile race.
+  ghostSourceWorkoutId?: string;
+  ghostDistance?: number;
+  ghostSplitMargins?: number[];
   splits: WorkoutSplit[];
   source?: WorkoutSource;
   // Bundle id of the app that wrote this workout into HealthKit
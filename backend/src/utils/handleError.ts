@@ -0,0 +1,20 @@
+import { Response } from "express";
+import { BadRequestError } from "../errors/Errors.js";
+
+/**
+ * Map a service-level BadRequestError to a 400 carrying its code, and anything
+ * else to a generic 500 — never leak raw error text (matches the global handler
+ * in server.ts).
+ */
+export function handleError(
+  res: Response,
+  error: unknown,
+  logLabel: string,
+): void {
+  if (error instanceof BadRequestError) {
+    res.status(400).json({ error: error.message });
+    return;
+  }
+  console.error(`Error ${logLabel}:`, error);
+  res.status(500).json({ error: `Error ${logLabel}` });
+}
@@ -0,0 +1,9 @@
+// uuid columns (posts.post_id, token families, ...) — validate route params
+// before they hit a ::uuid cast, so garbage ids 400/404 instead of bubbling a
+// cast error into a 500.
+const UUID_RE =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+export function isUuid(value: string | undefined): value is string {
+  return typeof value === "string" && UUID_RE.test(value);
+}
@@ -0,0 +1,122 @@
+import fs from "fs";
+import zlib from "zlib";
+
+type CentralEntry = {
+  name: Buffer;
+  method: number;
+  crc: number;
+  compressedSize: number;
+  size: number;
+  offset: number;
+};
+
+/**
+ * Minimal streaming .zip writer — enough for the account export, without a
+ * dependency for one feature. Entries are written to disk as they're added so
+ * a user with years of photos never has their whole archive in memory at once.
+ *
+ * No zip64: an archive is capped well below 4GB by what a user can upload.
+ * Already-compressed payloads (JPEG/PNG/WebP) should pass `store: true`;
+ * deflating them again only burns CPU.
+ */
+export class ZipWriter {
+  private entries: CentralEntry[] = [];
+  private offset = 0;
+  private readonly dosTime: number;
+  private readonly dosDate: number;
+
+  private constructor(private readonly handle: fs.promises.FileHandle) {
+    const now = new Date();
+    this.dosTime =
+      (now.getHours() << 11) |
+      (now.getMinutes() << 5) |
+      Math.floor(now.getSeconds() / 2);
+    this.dosDate =
+      ((now.getFullYear() - 1980) << 9) |
+      ((now.getMonth() + 1) << 5) |
+      now.getDate();
+  }
+
+  static async create(filePath: string): Promise<ZipWriter> {
+    return new ZipWriter(await fs.promises.open(filePath, "w"));
+  }
+
+  async add(
+    entryName: string,
+    data: Buffer | string,
+    { store = false }: { store?: boolean } = {},
+  ): Promise<void> {
+    const raw = typeof data === "string" ? Buffer.from(data, "utf8") : data;
+    const body = store ? raw : zlib.deflateRawSync(raw);
+    const name = Buffer.from(entryName, "utf8");
+    const entry: CentralEntry = {
+      name,
+      method: store ? 0 : 8,
+      crc: zlib.crc32(raw),
+      compressedSize: body.length,
+      size: raw.length,
+      offset: this.offset,
+    };
+
+    const header = Buffer.alloc(30);
+    header.writeUInt32LE(0x04034b50, 0);
+    header.writeUInt16LE(20, 4); // version needed
+    header.writeUInt16LE(0x0800, 6); // UTF-8 names
+    header.writeUInt16LE(entry.method, 8);
+    header.writeUInt16LE(this.dosTime, 10);
+    header.writeUInt16LE(this.dosDate, 12);
+    header.writeUInt32LE(entry.crc, 14);
+    header.writeUInt32LE(entry.compressedSize, 18);
+    header.writeUInt32LE(entry.size, 22);
+    header.writeUInt16LE(name.length, 26);
+    header.writeUInt16LE(0, 28);
+
+    await this.write(Buffer.concat([header, name]));
+    await this.write(body);
+    this.entries.push(entry);
+  }
+
+  /** Write the central directory and close the file. Returns its size. */
+  async finish(): Promise<number> {
+    const cdStart = this.offset;
+    for (const e of this.entries) {
+      const header = Buffer.alloc(46);
+      header.writeUInt32LE(0x02014b50, 0);
+      header.writeUInt16LE(20, 4); // version made by
+      header.writeUInt16LE(20, 6); // version needed
+      header.writeUInt16LE(0x0800, 8);
+      header.writeUInt16LE(e.method, 10);
+      header.writeUInt16LE(this.dosTime, 12);
+      header.writeUInt16LE(this.dosDate, 14);
+      header.writeUInt32LE(e.crc, 16);
+      header.writeUInt32LE(e.compressedSize, 20);
+      header.writeUInt32LE(e.size, 24);
+      header.writeUInt16LE(e.name.length, 28);
+      // extra, comment, disk, internal + external attrs: all zero.
+      header.writeUInt32LE(e.offset, 42);
+      await this.write(Buffer.concat([header, e.name]));
+    }
+    const cdSize = this.offset - cdStart;
+
+    const end = Buffer.alloc(22);
+    end.writeUInt32LE(0x06054b50, 0);
+    end.writeUInt16LE(this.entries.length, 8);
+    end.writeUInt16LE(this.entries.length, 10);
+    end.writeUInt32LE(cdSize, 12);
+    end.writeUInt32LE(cdStart, 16);
+    await this.write(end);
+
+    await this.handle.close();
+    return this.offset;
+  }
+
+  /** Close without finishing, for the failure path. */
+  async abort(): Promise<void> {
+    await this.handle.close().catch(() => {});
+  }
+
+  private async write(buf: Buffer): Promise<void> {
+    await this.handle.write(buf);
+    this.offset += buf.length;
+  }
+}
@@ -0,0 +1,709 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import {
+  Card,
+  Chip,
+  fmt,
+  fmtDateTime,
+  getData,
+  Loading,
+  mediaSrc,
+  postData,
+  relativeDay,
+  SegmentedControl,
+} from "./lib";
+
+// ─── Types ──────────────────────────────────────────────────────────
+
+type TargetType = "post" | "comment";
+type ReportStatus = "open" | "resolved" | "dismissed";
+type Action =
+  | "hide"
+  | "restore"
+  | "remove"
+  | "warn"
+  | "suspend"
+  | "resolve"
+  | "dismiss"
+  | "approve";
+
+type Content = {
+  author_id: string;
+  author_username: string | null;
+  text: string | null;
+  media_url: string | null;
+  parent_post_id: string | null;
+  parent_workout_id: string | null;
+  created_at: string;
+  hidden_at: string | null;
+  held_at: string | null;
+};
+
+type QueueItem = {
+  target_type: TargetType;
+  target_id: string;
+  report_count: number;
+  reason_counts: Record<string, number>;
+  recent_details: string[];
+  first_reported_at: string;
+  last_reported_at: string;
+  content: Content;
+};
+
+type QueuePage = { total: number; items: QueueItem[] };
+
+type Report = {
+  id: string;
+  reporter_id: string | null;
+  reporter_username: string | null;
+  source: "user" | "screening";
+  reason: string;
+  details: string | null;
+  status: ReportStatus;
+  created_at: string;
+  resolved_by: string | null;
+  resolved_at: string | null;
+};
+
+type ActionRecord = {
+  id: string;
+  moderator_id: string | null;
+  moderator_username: string | null;
+  action: Action;
+  target_type: TargetType;
+  target_id: string;
+  subject_user_id: string | null;
+  subject_username: string | null;
+  note: string | null;
+  reports_closed: number;
+  snapshot: {
+    text: string | null;
+    reason_counts: Record<string, number>;
+    suspended_until?: string;
+  } | null;
+  created_at: string;
+};
+
+type TargetDetail = {
+  target_type: TargetType;
+  target_id: string;
+  content: Content;
+  reports: Report[];
+  actions: ActionRecord[];
+  author: {
+    user_id: string;
+    username: string | null;
+    suspended: boolean;
+    suspended_until: string | null;
+    suspension_reason: string | null;
+    warning_count: number;
+    history: ActionRecord[];
+  };
+};
+
+const PAGE_SIZE = 25;
+
+const ACTION_LABELS: Record<Action, string> = {
+  hide: "Hidden",
+  restore: "Restored",
+  remove: "Removed",
+  warn: "Warned author",
+  suspend: "Suspended author",
+  resolve: "Resolved",
+  dismiss: "Dismissed",
+  approve: "Approved",
+};
+
+function handle(username: string | null, id: string | null): string {
+  if (username) return `@${username}`;
+  return id ? id.slice(0, 8) : "—";
+}
+
+function ReasonChips({ counts }: { counts: Record<string, number> }) {
+  const entries = Object.entries(counts).sort((a, b) => b[1] - a[1]);
+  return (
+    <span className="flex flex-wrap gap-1">
+      {entries.map(([reason, n]) => (
+        <Chip
+          key={reason}
+          text={`${reason}${n > 1 ? ` ×${n}` : ""}`}
+          tone={reason === "other" || reason === "spam" ? "muted" : "bad"}
+        />
+      ))}
+    </span>
+  );
+}
+
+function ContentPreview({
+  type,
+  content,
+  large = false,
+}: {
+  type: TargetType;
+  content: Content;
+  large?: boolean;
+}) {
+  return (
+    <div className="flex min-w-0 gap-3">
+      {content.media_url && (
+        // eslint-disable-next-line @next/next/no-img-element
+        <img
+          src={mediaSrc(content.media_url)}
+          alt=""
+          className={`shrink-0 rounded-md border border-white/10 object-cover ${
+            large ? "h-40 w-32" : "h-16 w-12"
+          } ${content.hidden_at ? "opacity-40" : ""}`}
+          loading="lazy"
+        />
+      )}
+      <div className="min-w-0">
+        <div className="flex flex-wrap items-center gap-1.5">
+          <Chip text={type.toUpperCase()} tone="info" />
+          {content.hidden_at && <Chip text="HIDDEN" tone="bad" />}
+          {content.held_at && <Chip text="PENDING REVIEW" tone="bad" />}
+          <span className="text-xs text-white/60">
+            {handle(content.author_username, content.author_id)}
+          </span>
+        </div>
+        <p
+          className={`mt-1 text-sm text-white/80 ${
+            large ? "whitespace-pre-wrap" : "line-clamp-2"
+          }`}
+        >
+          {content.text || (
+            <span className="text-white/30">
+              {type === "post" ? "No caption" : "—"}
+            </span>
+          )}
+        </p>
+      </div>
+    </div>
+  );
+}
+
+function ActionList({
+  actions,
+  emptyLabel,
+}: {
+  actions: ActionRecord[];
+  emptyLabel: string;
+}) {
+  if (!actions.length)
+    return <p className="text-sm text-white/40">{emptyLabel}</p>;
+  return (
+    <ul className="divide-y divide-white/5 text-sm">
+      {actions.map((a) => (
+        <li key={a.id} className="py-2">
+          <div className="flex flex-wrap items-baseline justify-between gap-2">
+            <span className="text-white/80">
+              {ACTION_LABELS[a.action]}
+              <span className="text-white/40">
+                {" "}
+                by {handle(a.moderator_username, a.moderator_id)}
+                {a.reports_closed > 0 &&
+                  ` · closed ${a.reports_closed} report${
+                    a.reports_closed === 1 ? "" : "s"
+                  }`}
+              </span>
+            </span>
+            <span className="text-xs text-white/40">
+              {fmtDateTime(a.created_at)}
+            </span>
+          </div>
+          {a.note && <p className="mt-0.5 text-xs text-white/60">{a.note}</p>}
+          {a.snapshot?.suspended_until && (
+            <p className="mt-0.5 text-xs text-white/40">
+              until {fmtDateTime(a.snapshot.suspended_until)}
+            </p>
+          )}
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+// ─── Detail + actions ───────────────────────────────────────────────
+
+function ReportModal({
+  type,
+  id,
+  onClose,
+  onChanged,
+}: {
+  type: TargetType;
+  id: string;
+  onClose: () => void;
+  onChanged: () => void;
+}) {
+  const [detail, setDetail] = useState<TargetDetail | null>(null);
+  const [err, setErr] = useState<string | null>(null);
+  const [note, setNote] = useState("");
+  const [days, setDays] = useState("7");
+  const [busy, setBusy] = useState<Action | null>(null);
+  const [removed, setRemoved] = useState(false);
+
+  const load = useCallback(() => {
+    getData<TargetDetail>(`reports/${type}/${id}`)
+      .then(setDetail)
+      .catch((e) => {
+        if (e?.message !== "unauthorized") setErr("Failed to load report.");
+      });
+  }, [type, id]);
+  useEffect(() => load(), [load]);
+
+  useEffect(() => {
+    const onKey = (e: KeyboardEvent) => e.key === "Escape" && onClose();
+    window.addEventListener("keydown", onKey);
+    document.body.style.overflow = "hidden";
+    return () => {
+      window.removeEventListener("keydown", onKey);
+      document.body.style.overflow = "";
+    };
+  }, [onClose]);
+
+  async function act(action: Action) {
+    if (
+      action === "remove" &&
+      !window.confirm("Remove permanently? This cannot be undone.")
+    )
+      return;
+    setBusy(action);
+    setErr(null);
+    try {
+      await postData(`reports/${type}/${id}/actions`, {
+        action,
+        note: note.trim() || undefined,
+        ...(action === "suspend" ? { suspend_days: Number(days) } : {}),
+      });
+      setNote("");
+      onChanged();
+      if (action === "remove") setRemoved(true);
+      else load();
+    } catch (e) {
+      setErr(e instanceof Error ? e.message : "Action failed.");
+    } finally {
+      setBusy(null);
+    }
+  }
+
+  const openCount = detail?.reports.filter((r) => r.status === "open").length;
+  const hidden = Boolean(detail?.content.hidden_at);
+  const held = Boolean(detail?.content.held_at);
+
+  function actionButton(
+    action: Action,
+    label: string,
+    tone: "muted" | "bad" | "ok" = "muted",
+  ) {
+    const cls =
+      tone === "bad"
+        ? "border-[#c72554]/50 text-[#ffb3c6]"
+        : tone === "ok"
+          ? "border-emerald-400/40 text-emerald-300"
+          : "border-white/10 text-white/70";
+    return (
+      <button
+        key={action}
+        onClick={() => act(action)}
+        disabled={busy !== null}
+        className={`rounded-md border px-3 py-1.5 text-xs font-medium hover:text-white disabled:opacity-40 ${cls}`}
+      >
+        {busy === action ? "…" : label}
+      </button>
+    );
+  }
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-start justify-center overflow-y-auto bg-black/70 p-4 backdrop-blur-sm sm:p-8"
+      onClick={onClose}
+    >
+      <div
+        className="w-full max-w-2xl rounded-2xl border border-white/10 bg-[#111] shadow-2xl"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between gap-4 border-b border-white/10 p-5">
+          <h2 className="text-lg font-semibold text-white">Reported {type}</h2>
+          <button
+            onClick={onClose}
+            className="shrink-0 rounded-md border border-white/10 px-2.5 py-1 text-sm text-white/60 hover:text-white"
+          >
+            Close
+          </button>
+        </div>
+
+        {err && <p className="px-5 pt-4 text-sm text-[#c72554]">{err}</p>}
+        {removed ? (
+          <p className="p-5 text-sm text-white/60">
+            Removed. The audit log keeps a snapshot of what it said.
+          </p>
+        ) : !detail ? (
+          !err && (
+            <div className="p-5">
+              <Loading />
+            </div>
+          )
+        ) : (
+          <div className="space-y-5 p-5">
+            <ContentPreview type={type} content={detail.content} large />
+
+            {/* Actions */}
+            <div className="space-y-3 rounded-lg border border-white/10 bg-white/[0.02] p-4">
+              <textarea
+                value={note}
+                onChange={(e) => setNote(e.target.value)}
+                maxLength={500}
+                rows={2}
+                placeholder="Note — recorded in the audit log; sent to the author on a warning"
+                className="w-full rounded-lg border border-white/10 bg-black/40 px-3 py-2 text-sm text-white placeholder:text-white/30 focus:border-[#c72554]/60 focus:outline-none"
+              />
+              <div className="flex flex-wrap items-center gap-2">
+                <span className="text-xs text-white/40">Content</span>
+                {held && actionButton("approve", "Approve", "ok")}
+                {hidden
+                  ? actionButton("restore", "Restore", "ok")
+                  : actionButton("hide", "Hide", "bad")}
+                {actionButton("remove", "Remove", "bad")}
+              </div>
+              <div className="flex flex-wrap items-center gap-2">
+                <span className="text-xs text-white/40">Author</span>
+                {actionButton("warn", "Warn")}
+                <input
+                  value={days}
+                  onChange={(e) => setDays(e.target.value.replace(/\D/g, ""))}
+                  className="w-14 rounded-md border border-white/10 bg-black/40 px-2 py-1 text-xs text-white focus:border-[#c72554]/60 focus:outline-none"
+                  aria-label="Suspension days"
+                />
+                <span className="text-xs text-white/40">days</span>
+                {actionButton("suspend", "Suspend", "bad")}
+              </div>
+              <div className="flex flex-wrap items-center gap-2">
+                <span className="text-xs text-white/40">
+                  Reports ({openCount ?? 0} open)
+                </span>
+                {actionButton("resolve", "Resolve", "ok")}
+                {actionButton("dismiss", "Dismiss")}
+              </div>
+            </div>
+
+            {/* Author standing */}
+            <div className="text-sm">
+              <h3 className="mb-1.5 text-xs font-medium uppercase tracking-wide text-white/40">
+                Author
+              </h3>
+              <div className="flex flex-wrap items-center gap-2 text-white/70">
+                {handle(detail.author.username, detail.author.user_id)}
+                {detail.author.warning_count > 0 && (
+                  <Chip
+                    text={`${detail.author.warning_count} warning${
+                      detail.author.warning_count === 1 ? "" : "s"
+                    }`}
+                    tone="bad"
+                  />
+                )}
+                {detail.author.suspended && (
+                  <Chip
+                    text={
+                      detail.author.suspended_until
+                        ? `suspended until ${fmtDateTime(
+                            detail.author.suspended_until,
+                          )}`
+                        : "suspended permanently"
+                    }
+                    tone="bad"
+                  />
+                )}
+              </div>
+            </div>
+
+            {/* Reports */}
+            <div>
+              <h3 className="mb-1.5 text-xs font-medium uppercase tracking-wide text-white/40">
+                Reports
+              </h3>
+              <ul className="divide-y divide-white/5 text-sm">
+                {detail.reports.map((r) => (
+                  <li key={r.id} className="py-2">
+                    <div className="flex flex-wrap items-center justify-between gap-2">
+                      <span className="flex items-center gap-2">
+                        <Chip text={r.reason} tone="bad" />
+                        <span className="text-white/60">
+                          {r.source === "screening"
+                            ? "screening"
+                            : handle(r.reporter_username, r.reporter_id)}
+                        </span>
+                        {r.status !== "open" && (
+                          <Chip text={r.status} tone="muted" />
+                        )}
+                      </span>
+                      <span className="text-xs text-white/40">
+                        {relativeDay(r.created_at)}
+                      </span>
+                    </div>
+                    {r.details && (
+                      <p className="mt-0.5 text-xs text-white/60">
+                        {r.details}
+                      </p>
+                    )}
+                  </li>
+                ))}
+              </ul>
+            </div>
+
+            <div>
+              <h3 className="mb-1.5 text-xs font-medium uppercase tracking-wide text-white/40">
+                Actions on this {type}
+              </h3>
+              <ActionList
+                actions={detail.actions}
+                emptyLabel="No actions yet."
+              />
+            </div>
+
+            <div>
+              <h3 className="mb-1.5 text-xs font-medium uppercase tracking-wide text-white/40">
+                Author&apos;s record elsewhere
+              </h3>
+              <ActionList
+                actions={detail.author.history}
+                emptyLabel="Clean record."
+              />
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+// ─── Queue ──────────────────────────────────────────────────────────
+
+function ReportQueue({ onChanged }: { onChanged: () => void }) {
+  const [status, setStatus] = useState<ReportStatus>("open");
+  const [type, setType] = useState<"all" | TargetType>("all");
+  const [offset, setOffset] = useState(0);
+  const [data, setData] = useState<QueuePage | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [open, setOpen] = useState<{ type: TargetType; id: string } | null>(
+    null,
+  );
+
+  const load = useCallback(async () => {
+    setLoading(true);
+    try {
+      const params = new URLSearchParams({
+        status,
+        limit: String(PAGE_SIZE),
+        offset: String(offset),
+      });
+      if (type !== "all") params.set("type", type);
+      setData(await getData<QueuePage>(`reports?${params.toString()}`));
+    } catch {
+      /* unauthorized handled in getData */
+    } finally {
+      setLoading(false);
+    }
+  }, [status, type, offset]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const total = data?.total ?? 0;
+
+  return (
+    <Card
+      title="Report queue"
+      hint="Reported posts and comments, most-reported first. Open one to hide or remove it, warn or suspend the author, and close its reports."
+      actions={
+        <span className="text-xs text-white/40">
+          {loading ? "Loading…" : `${fmt(total)} reported`}
+        </span>
+      }
+    >
+      <div className="mb-4 flex flex-wrap items-center gap-3">
+        <SegmentedControl<ReportStatus>
+          value={status}
+          onChange={(v) => {
+            setStatus(v);
+            setOffset(0);
+          }}
+          options={[
+            { value: "open", label: "Open" },
+            { value: "resolved", label: "Resolved" },
+            { value: "dismissed", label: "Dismissed" },
+          ]}
+        />
+        <SegmentedControl<"all" | TargetType>
+          value={type}
+          onChange={(v) => {
+            setType(v);
+            setOffset(0);
+          }}
+          options={[
+            { value: "all", label: "All" },
+            { value: "post", label: "Posts" },
+            { value: "comment", label: "Comments" },
+          ]}
+        />
+      </div>
+
+      {!data ? (
+        <Loading />
+      ) : data.items.length === 0 ? (
+        <p className="text-sm text-white/40">Nothing in this queue.</p>
+      ) : (
+        <ul className="divide-y divide-white/5">
+          {data.items.map((item) => (
+            <li
+              key={`${item.target_type}:${item.target_id}`}
+              onClick={() =>
+                setOpen({ type: item.target_type, id: item.target_id })
+              }
+              className="flex cursor-pointer items-start justify-between gap-4 py-3 transition hover:bg-white/[0.03]"
+            >
+              <div className="min-w-0 flex-1 space-y-1.5">
+                <ContentPreview
+                  type={item.target_type}
+                  content={item.content}
+                />
+                <ReasonChips counts={item.reason_counts} />
+                {item.recent_details[0] && (
+                  <p className="truncate text-xs text-white/40">
+                    “{item.recent_details[0]}”
+                  </p>
+                )}
+              </div>
+              <div className="shrink-0 text-right">
+                <div className="text-lg font-semibold text-white">
+                  {item.report_count}
+                </div>
+                <div className="text-[11px] text-white/40">
+                  since {relativeDay(item.first_reported_at)}
+                </div>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {total > PAGE_SIZE && (
+        <div className="mt-4 flex items-center justify-between">
+          <button
+            onClick={() => setOffset(Math.max(0, offset - PAGE_SIZE))}
+            disabled={offset === 0 || loading}
+            className="rounded-md border border-white/10 px-3 py-1.5 text-sm text-white/60 hover:text-white disabled:opacity-30"
+          >
+            ← Prev
+          </button>
+          <span className="text-xs text-white/40">
+            Page {Math.floor(offset / PAGE_SIZE) + 1} of{" "}
+            {Math.max(1, Math.ceil(total / PAGE_SIZE))}
+          </span>
+          <button
+            onClick={() => setOffset(offset + PAGE_SIZE)}
+            disabled={offset + PAGE_SIZE >= total || loading}
+            className="rounded-md border border-white/10 px-3 py-1.5 text-sm text-white/60 hover:text-white disabled:opacity-30"
+          >
+            Next →
+          </button>
+        </div>
+      )}
+
+      {open && (
+        <ReportModal
+          type={open.type}
+          id={open.id}
+          onClose={() => setOpen(null)}
+          onChanged={() => {
+            load();
+            onChanged();
+          }}
+        />
+      )}
+    </Card>
+  );
+}
+
+// ─── Audit log ──────────────────────────────────────────────────────
+
+function ModerationLog({ version }: { version: number }) {
+  const [data, setData] = useState<{
+    total: number;
+    actions: ActionRecord[];
+  } | null>(null);
+
+  useEffect(() => {
+    getData<{ total: number; actions: ActionRecord[] }>(
+      "moderation-log?limit=50",
+    )
+      .then(setData)
+      .catch(() => {
+        /* unauthorized handled in getData */
+      });
+  }, [version]);
+
+  return (
+    <Card
+      title="Moderation log"
+      hint="Every action taken from the queue, newest first — who did what, to whose content."
+    >
+      {!data ? (
+        <Loading />
+      ) : !data.actions.length ? (
+        <p className="text-sm text-white/40">No actions yet.</p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="border-b border-white/10 text-left text-xs text-white/40">
+                <th className="p-2 font-medium">When</th>
+                <th className="p-2 font-medium">Moderator</th>
+                <th className="p-2 font-medium">Action</th>
+                <th className="p-2 font-medium">Author</th>
+                <th className="p-2 font-medium">Content</th>
+                <th className="p-2 font-medium">Note</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-white/5">
+              {data.actions.map((a) => (
+                <tr key={a.id}>
+                  <td className="p-2 whitespace-nowrap text-white/50">
+                    {fmtDateTime(a.created_at)}
+                  </td>
+                  <td className="p-2 text-white/70">
+                    {handle(a.moderator_username, a.moderator_id)}
+                  </td>
+                  <td className="p-2 whitespace-nowrap text-white/80">
+                    {ACTION_LABELS[a.action]}
+                  </td>
+                  <td className="p-2 text-white/70">
+                    {handle(a.subject_username, a.subject_user_id)}
+                  </td>
+                  <td className="max-w-[220px] truncate p-2 text-white/50">
+                    {a.target_type}: {a.snapshot?.text ?? "—"}
+                  </td>
+                  <td className="max-w-[200px] truncate p-2 text-white/50">
+                    {a.note ?? "—"}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </Card>
+  );
+}
+
+export function ReportsTab() {
+  // Bumped after every action so the log below picks it up.
+  const [version, setVersion] = useState(0);
+  return (
+    <div className="space-y-4">
+      <ReportQueue onChanged={() => setVersion((v) => v + 1)} />
+      <ModerationLog version={version} />
+    </div>
+  );
+}
@@ -1,6 +1,6 @@
 "use client";
 
-import { useEffect, useState, type ReactNode } from "react";
+import { useCallback, useEffect, useState, type ReactNode } from "react";
 import {
   Chip,
   fmt,
@@ -9,6 +9,7 @@ import {
   getData,
   Loading,
   mediaSrc,
+  postData,
   relativeDay,
 } from "./lib";
 
@@ -50,7 +51,12 @@ type UserDetail = {
     posts_live: number;
     posts_total: number;
   };
-  devices: { environment: string; created_at: string; updated_at: string }[];
+  devices: {
+    platform: "ios" | "android";
+    environment: string;
+    created_at: string;
+    updated_at: string;
+  }[];
   recent_workouts: {
     workout_id: string;
     workout_type: string | null;
@@ -74,6 +80,25 @@ type UserDetail = {
   }[];
 };
 
+type RestrictionKind = "suspension" | "shadow_ban";
+
+type Restriction = {
+  id: string;
+  kind: RestrictionKind;
+  reason: string;
+  expires_at: string | null;
+  created_by_username: string | null;
+  created_at: string;
+  lifted_at: string | null;
+  lift_reason: string | null;
+  active: boolean;
+};
+
+const KIND_LABELS: Record<RestrictionKind, string> = {
+  suspension: "Suspended",
+  shadow_ban: "Shadow-banned",
+};
+
 function MiniStat({ label, value }: { label: string; value: string }) {
   return (
     <div className="rounded-lg border border-white/10 bg-white/[0.02] px-3 py-2">
@@ -94,6 +119,143 @@ function Field({ label, value }: { label: string; value: ReactNode }) {
   );
 }
 
+// Suspensions lock the account out of the API; shadow bans hide its content
+// from everyone but the user. Blank days = permanent.
+function Restrictions({ userId }: { userId: string }) {
+  const [rows, setRows] = useState<Restriction[] | null>(null);
+  const [kind, setKind] = useState<RestrictionKind>("suspension");
+  const [reason, setReason] = useState("");
+  const [days, setDays] = useState("7");
+  const [busy, setBusy] = useState(false);
+  const [err, setErr] = useState<string | null>(null);
+
+  const path = `users/${encodeURIComponent(userId)}/restrictions`;
+  const load = useCallback(() => {
+    getData<{ restrictions: Restriction[] }>(path)
+      .then((r) => setRows(r.restrictions))
+      .catch((e) => {
+        if (e?.message !== "unauthorized") setErr("Failed to load.");
+      });
+  }, [path]);
+  useEffect(() => load(), [load]);
+
+  async function run(fn: () => Promise<unknown>) {
+    setBusy(true);
+    setErr(null);
+    try {
+      await fn();
+      load();
+    } catch (e) {
+      setErr(e instanceof Error ? e.message : "Action failed.");
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  function impose() {
+    return run(async () => {
+      await postData(path, {
+        kind,
+        reason: reason.trim(),
+        ...(days ? { duration_days: Number(days) } : {}),
+      });
+      setReason("");
+    });
+  }
+
+  function lift(r: Restriction) {
+    if (!window.confirm(`Lift this ${r.kind.replace("_", " ")}?`)) return;
+    return run(() => postData(`${path}/${r.id}/lift`));
+  }
+
+  return (
+    <div>
+      <h3 className="mb-2 text-xs font-medium uppercase tracking-wide text-white/40">
+        Restrictions
+      </h3>
+      <div className="flex flex-wrap items-center gap-2">
+        <select
+          value={kind}
+          onChange={(e) => setKind(e.target.value as RestrictionKind)}
+          className="rounded-md border border-white/10 bg-black/40 px-2 py-1 text-xs text-white focus:border-[#c72554]/60 focus:outline-none"
+        >
+          <option value="suspension">Suspend</option>
+          <option value="shadow_ban">Shadow-ban</option>
+        </select>
+        <input
+          value={reason}
+          onChange={(e) => setReason(e.target.value)}
+          maxLength={500}
+          placeholder="Reason (required)"
+          className="min-w-0 flex-1 rounded-md border border-white/10 bg-black/40 px-2 py-1 text-xs text-white placeholder:text-white/30 focus:border-[#c72554]/60 focus:outline-none"
+        />
+        <input
+          value={days}
+          onChange={(e) => setDays(e.target.value.replace(/\D/g, ""))}
+          placeholder="∞"
+          className="w-14 rounded-md border border-white/10 bg-black/40 px-2 py-1 text-xs text-white focus:border-[#c72554]/60 focus:outline-none"
+          aria-label="Days (blank = permanent)"
+        />
+        <span className="text-xs text-white/40">days</span>
+        <button
+          onClick={impose}
+          disabled={busy || !reason.trim()}
+          className="rounded-md border border-[#c72554]/50 px-3 py-1 text-xs font-medium text-[#ffb3c6] hover:text-white disabled:opacity-40"
+        >
+          {busy ? "…" : "Apply"}
+        </button>
+      </div>
+      {err && <p className="mt-2 text-xs text-[#c72554]">{err}</p>}
+      {rows === null ? (
+        !err && <Loading />
+      ) : rows.length === 0 ? (
+        <p className="mt-2 text-sm text-white/40">Never restricted.</p>
+      ) : (
+        <ul className="mt-2 divide-y divide-white/5 text-sm">
+          {rows.map((r) => (
+            <li
+              key={r.id}
+              className="flex items-start justify-between gap-3 py-1.5"
+            >
+              <span className="min-w-0">
+                <span className="flex flex-wrap items-center gap-2">
+                  <Chip
+                    text={KIND_LABELS[r.kind]}
+                    tone={r.active ? "bad" : "muted"}
+                  />
+                  <span className="text-white/50">
+                    {r.expires_at
+                      ? `until ${fmtDateTime(r.expires_at)}`
+                      : "permanent"}
+                  </span>
+                </span>
+                <span className="mt-0.5 block text-white/70">{r.reason}</span>
+                <span className="block text-xs text-white/40">
+                  {fmtDateTime(r.created_at)}
+                  {r.created_by_username ? ` · @${r.created_by_username}` : ""}
+                  {r.lifted_at &&
+                    ` · lifted ${fmtDateTime(r.lifted_at)}${
+                      r.lift_reason ? ` (${r.lift_reason})` : ""
+                    }`}
+                </span>
+              </span>
+              {r.active && (
+                <button
+                  onClick={() => lift(r)}
+                  disabled={busy}
+                  className="shrink-0 rounded-md border border-emerald-400/40 px-2.5 py-1 text-xs text-emerald-300 hover:text-white disabled:opacity-40"
+                >
+                  Lift
+                </button>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
+
 export function UserModal({
   userId,
   onClose,
@@ -294,6 +456,8 @@ export function UserModal({
               </div>
             </div>
 
+            <Restrictions userId={detail.profile.user_id} />
+
             {/* Devices */}
             <div>
               <h3 className="mb-2 text-xs font-medium uppercase tracking-wide text-white/40">
@@ -309,8 +473,15 @@ export function UserModal({
                       className="rounded-md border border-white/10 bg-white/[0.02] px-2.5 py-1 text-xs text-white/60"
                     >
                       <Chip
-                        text={d.environment}
-                        tone={d.environment === "production" ? "ok" : "muted"}
+                        text={
+                          d.platform === "android" ? "android" : d.environment
+                        }
+                        tone={
+                          d.platform === "android" ||
+                          d.environment === "production"
+                            ? "ok"
+                            : "muted"
+                        }
                       />{" "}
                       <span className="ml-1">
                         seen {relativeDay(d.updated_at)}
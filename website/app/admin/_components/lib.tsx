@@ -17,10 +17,16 @@ export async function getData<T>(path: string): Promise<T> {
 }
 
 /** POST an admin action; surfaces the backend's error message on failure. */
-export async function postData<T>(path: string): Promise<T> {
+export async function postData<T>(path: string, payload?: unknown): Promise<T> {
   const res = await fetch(`/admin/api/data/${path}`, {
     method: "POST",
     cache: "no-store",
+    ...(payload !== undefined
+      ? {
+          headers: { "content-type": "application/json" },
+          body: JSON.stringify(payload),
+        }
+      : {}),
   });
   if (res.status === 401 || res.status === 403) {
     await fetch("/admin/api/logout", { method: "POST" });
@@ -31,8 +31,8 @@ export async function GET(
   });
 }
 
-// Action proxy for the few admin POST endpoints (e.g. posts/:id/restore).
-// Same cookie auth as GET; no request body is forwarded (none is needed).
+// Action proxy for the admin POST endpoints (posts/:id/restore, report
+// actions). Same cookie auth as GET; a JSON body, when present, is forwarded.
 export async function POST(
   req: Request,
   { params }: { params: Promise<{ path: string[] }> },
@@ -44,9 +44,14 @@ export async function POST(
 
   const { path } = await params;
   const search = new URL(req.url).search;
+  const payload = await req.text();
   const res = await fetch(`${API_URL}/admin/${path.join("/")}${search}`, {
     method: "POST",
-    headers: { authorization: `Bearer ${token}` },
+    headers: {
+      authorization: `Bearer ${token}`,
+      ...(payload ? { "content-type": "application/json" } : {}),
+    },
+    body: payload || undefined,
     cache: "no-store",
   });
 
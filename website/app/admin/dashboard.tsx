@@ -6,11 +6,13 @@ import { UsersTab } from "./_components/Users";
 import { ContentTab } from "./_components/Content";
 import { GrowthTab } from "./_components/Growth";
 import { ErrorsTab } from "./_components/Errors";
+import { ReportsTab } from "./_components/Reports";
 
 const TABS = [
   { id: "overview", label: "Overview", render: () => <OverviewTab /> },
   { id: "users", label: "Users", render: () => <UsersTab /> },
   { id: "content", label: "Content", render: () => <ContentTab /> },
+  { id: "reports", label: "Reports", render: () => <ReportsTab /> },
   { id: "growth", label: "Growth", render: () => <GrowthTab /> },
   { id: "errors", label: "Errors", render: () => <ErrorsTab /> },
 ] as const;